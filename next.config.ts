@@ -20,19 +20,22 @@ if (process.env.NODE_ENV === 'development') {
     console.warn('\x1b[33m%s\x1b[0m', 'Example: EXCHANGERATE_API_KEY="your_actual_exchangerateapi_key"');
     console.warn('\x1b[33m%s\x1b[0m', '*********************************************************************\n\n');
   }
-  if (!process.env.SENDGRID_API_KEY || process.env.SENDGRID_API_KEY === 'your_sendgrid_api_key_here' || process.env.SENDGRID_API_KEY.trim() === '') {
+  if (!process.env.EMAIL_TRANSPORT && (!process.env.SENDGRID_API_KEY || process.env.SENDGRID_API_KEY === 'your_sendgrid_api_key_here' || process.env.SENDGRID_API_KEY.trim() === '')) {
     console.warn('\n\n\x1b[33m%s\x1b[0m', '****************************** ATTENTION ******************************');
     console.warn('\x1b[33m%s\x1b[0m', '[WARNING] SENDGRID_API_KEY is not set, is empty, or is using the placeholder value.');
-    console.warn('\x1b[33m%s\x1b[0m', 'Email sending functionality (e.g., password resets) WILL NOT WORK through SendGrid.');
+    console.warn('\x1b[33m%s\x1b[0m', 'Outbox emails will only be written to the server console.');
     console.warn('\x1b[33m%s\x1b[0m', 'To enable email sending, set SENDGRID_API_KEY in your `.env.local` file.');
     console.warn('\x1b[33m%s\x1b[0m', 'Example: SENDGRID_API_KEY="SG.your_actual_sendgrid_key"');
     console.warn('\x1b[33m%s\x1b[0m', 'Also ensure EMAIL_FROM is set for the sender address.');
     console.warn('\x1b[33m%s\x1b[0m', 'Example: EMAIL_FROM="noreply@example.com"');
+    console.warn('\x1b[33m%s\x1b[0m', 'Or set EMAIL_TRANSPORT to "smtp" (EMAIL_SMTP_HOST/EMAIL_SMTP_PORT) or "file" (EMAIL_FILE_DIR).');
     console.warn('\x1b[33m%s\x1b[0m', '*********************************************************************\n\n');
   }
 }
 
 const nextConfig: NextConfig = {
+  // pdfkit reads its font metrics from its own package folder at runtime, so it must not be bundled.
+  serverExternalPackages: ['pdfkit'],
   typescript: {
     ignoreBuildErrors: true,
   },
@@ -0,0 +1,191 @@
+-- CreateTable
+CREATE TABLE "Agency" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "mainAddress" TEXT,
+    "contactEmail" TEXT,
+    "contactPhone" TEXT,
+    "preferredCurrency" TEXT NOT NULL DEFAULT 'USD',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Agency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AgentProfile" (
+    "id" TEXT NOT NULL,
+    "agencyId" TEXT NOT NULL,
+    "fullName" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phoneNumber" TEXT,
+    "agencyName" TEXT,
+    "specializations" TEXT,
+    "yearsOfExperience" INTEGER,
+    "bio" TEXT,
+    "profilePictureUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AgentProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuotationRequest" (
+    "id" TEXT NOT NULL,
+    "requestDate" TIMESTAMP(3) NOT NULL,
+    "agentId" TEXT,
+    "clientInfo" TEXT NOT NULL,
+    "tripDetails" TEXT NOT NULL,
+    "accommodationPrefs" TEXT,
+    "activityPrefs" TEXT,
+    "flightPrefs" TEXT,
+    "mealPrefs" TEXT,
+    "otherRequirements" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'New Request Submitted',
+    "linkedItineraryId" TEXT,
+    "agentRevisionNotes" TEXT,
+    "adminRevisionNotes" TEXT,
+    "version" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuotationRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Itinerary" (
+    "id" TEXT NOT NULL,
+    "itineraryName" TEXT NOT NULL,
+    "clientName" TEXT,
+    "settings" TEXT NOT NULL,
+    "pax" TEXT NOT NULL,
+    "travelers" TEXT NOT NULL,
+    "tags" TEXT NOT NULL DEFAULT '[]',
+    "quotationRequestId" TEXT,
+    "version" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "overallBookingStatus" TEXT NOT NULL DEFAULT 'NotStarted',
+    "adminRevisionNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Itinerary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ItineraryDay" (
+    "id" TEXT NOT NULL,
+    "itineraryId" TEXT NOT NULL,
+    "dayNumber" INTEGER NOT NULL,
+
+    CONSTRAINT "ItineraryDay_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ItineraryItem" (
+    "id" TEXT NOT NULL,
+    "dayId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "bookingStatus" TEXT,
+    "confirmationRef" TEXT,
+    "data" TEXT NOT NULL,
+
+    CONSTRAINT "ItineraryItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ServicePrice" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "countryId" TEXT,
+    "province" TEXT,
+    "currency" TEXT NOT NULL,
+    "isFavorite" BOOLEAN NOT NULL DEFAULT false,
+    "data" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ServicePrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HotelDefinition" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "countryId" TEXT NOT NULL,
+    "province" TEXT NOT NULL,
+    "starRating" INTEGER,
+    "roomTypes" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HotelDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "fromCurrency" TEXT NOT NULL,
+    "toCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SpecificMarkupRate" (
+    "id" TEXT NOT NULL,
+    "fromCurrency" TEXT NOT NULL,
+    "toCurrency" TEXT NOT NULL,
+    "markupPercentage" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpecificMarkupRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AppSetting" (
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+
+    CONSTRAINT "AppSetting_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "AgentProfile_agencyId_idx" ON "AgentProfile"("agencyId");
+
+-- CreateIndex
+CREATE INDEX "QuotationRequest_agentId_idx" ON "QuotationRequest"("agentId");
+
+-- CreateIndex
+CREATE INDEX "QuotationRequest_status_idx" ON "QuotationRequest"("status");
+
+-- CreateIndex
+CREATE INDEX "Itinerary_quotationRequestId_idx" ON "Itinerary"("quotationRequestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItineraryDay_itineraryId_dayNumber_key" ON "ItineraryDay"("itineraryId", "dayNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItineraryItem_dayId_itemId_key" ON "ItineraryItem"("dayId", "itemId");
+
+-- CreateIndex
+CREATE INDEX "ServicePrice_category_idx" ON "ServicePrice"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_fromCurrency_toCurrency_key" ON "ExchangeRate"("fromCurrency", "toCurrency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SpecificMarkupRate_fromCurrency_toCurrency_key" ON "SpecificMarkupRate"("fromCurrency", "toCurrency");
+
+-- AddForeignKey
+ALTER TABLE "AgentProfile" ADD CONSTRAINT "AgentProfile_agencyId_fkey" FOREIGN KEY ("agencyId") REFERENCES "Agency"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItineraryDay" ADD CONSTRAINT "ItineraryDay_itineraryId_fkey" FOREIGN KEY ("itineraryId") REFERENCES "Itinerary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItineraryItem" ADD CONSTRAINT "ItineraryItem_dayId_fkey" FOREIGN KEY ("dayId") REFERENCES "ItineraryDay"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "agencyId" TEXT,
+ADD COLUMN     "passwordHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "User_agencyId_idx" ON "User"("agencyId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_agencyId_fkey" FOREIGN KEY ("agencyId") REFERENCES "Agency"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- DropForeignKey
+ALTER TABLE "User" DROP CONSTRAINT "User_agencyId_fkey";
+
+-- DropIndex
+DROP INDEX "User_agencyId_idx";
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "agencyId";
+
+-- AlterTable
+ALTER TABLE "AgentProfile" ADD COLUMN     "userId" TEXT;
+
+-- AlterTable
+ALTER TABLE "QuotationRequest" ADD COLUMN     "agencyId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentProfile_userId_key" ON "AgentProfile"("userId");
+
+-- CreateIndex
+CREATE INDEX "QuotationRequest_agencyId_idx" ON "QuotationRequest"("agencyId");
+
+-- AddForeignKey
+ALTER TABLE "AgentProfile" ADD CONSTRAINT "AgentProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill the agency of existing requests from their submitting agent
+UPDATE "QuotationRequest" AS q SET "agencyId" = a."agencyId" FROM "AgentProfile" AS a WHERE q."agentId" = a."id";
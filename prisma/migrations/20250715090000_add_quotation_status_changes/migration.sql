@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "QuotationStatusChange" (
+    "id" TEXT NOT NULL,
+    "quotationRequestId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "changedByUserId" TEXT,
+    "changedByRole" TEXT NOT NULL,
+    "changedByName" TEXT,
+    "note" TEXT,
+    "version" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuotationStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuotationStatusChange_quotationRequestId_createdAt_idx" ON "QuotationStatusChange"("quotationRequestId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "QuotationStatusChange" ADD CONSTRAINT "QuotationStatusChange_quotationRequestId_fkey" FOREIGN KEY ("quotationRequestId") REFERENCES "QuotationRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
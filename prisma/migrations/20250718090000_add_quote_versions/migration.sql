@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "QuoteVersion" (
+    "id" TEXT NOT NULL,
+    "quotationRequestId" TEXT NOT NULL,
+    "version" DOUBLE PRECISION NOT NULL,
+    "itineraryId" TEXT NOT NULL,
+    "tripData" TEXT NOT NULL,
+    "costSummary" TEXT NOT NULL,
+    "billingCurrency" TEXT NOT NULL,
+    "grandTotal" DOUBLE PRECISION NOT NULL,
+    "createdByUserId" TEXT,
+    "createdByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuoteVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuoteVersion_quotationRequestId_version_key" ON "QuoteVersion"("quotationRequestId", "version");
+
+-- AddForeignKey
+ALTER TABLE "QuoteVersion" ADD CONSTRAINT "QuoteVersion_quotationRequestId_fkey" FOREIGN KEY ("quotationRequestId") REFERENCES "QuotationRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
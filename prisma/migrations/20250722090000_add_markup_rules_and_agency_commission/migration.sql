@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Agency" ADD COLUMN     "commissionPercentage" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "MarkupRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "agencyId" TEXT,
+    "category" TEXT,
+    "countryId" TEXT,
+    "validFrom" TIMESTAMP(3),
+    "validTo" TIMESTAMP(3),
+    "markupPercentage" DOUBLE PRECISION NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarkupRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarkupRule_agencyId_idx" ON "MarkupRule"("agencyId");
+
+-- AddForeignKey
+ALTER TABLE "MarkupRule" ADD CONSTRAINT "MarkupRule_agencyId_fkey" FOREIGN KEY ("agencyId") REFERENCES "Agency"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Itinerary" ADD COLUMN     "frozenExchangeRates" TEXT;
+
+-- CreateTable
+CREATE TABLE "ExchangeRateTable" (
+    "effectiveDate" TEXT NOT NULL,
+    "rates" TEXT NOT NULL,
+    "specificMarkupRates" TEXT NOT NULL,
+    "globalMarkupPercentage" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRateTable_pkey" PRIMARY KEY ("effectiveDate")
+);
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "ShareLink" (
+    "id" TEXT NOT NULL,
+    "itineraryId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "quotationRequestId" TEXT,
+    "quoteVersion" DOUBLE PRECISION,
+    "snapshot" TEXT,
+    "countryNames" TEXT NOT NULL DEFAULT '{}',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdByUserId" TEXT,
+    "createdByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShareLinkOpen" (
+    "id" TEXT NOT NULL,
+    "shareLinkId" TEXT NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userAgent" TEXT,
+
+    CONSTRAINT "ShareLinkOpen_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShareLink_itineraryId_idx" ON "ShareLink"("itineraryId");
+
+-- CreateIndex
+CREATE INDEX "ShareLinkOpen_shareLinkId_idx" ON "ShareLinkOpen"("shareLinkId");
+
+-- AddForeignKey
+ALTER TABLE "ShareLinkOpen" ADD CONSTRAINT "ShareLinkOpen_shareLinkId_fkey" FOREIGN KEY ("shareLinkId") REFERENCES "ShareLink"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShareLink" ADD CONSTRAINT "ShareLink_itineraryId_fkey" FOREIGN KEY ("itineraryId") REFERENCES "Itinerary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "QuoteAcceptance" (
+    "id" TEXT NOT NULL,
+    "quotationRequestId" TEXT NOT NULL,
+    "quoteVersion" DOUBLE PRECISION NOT NULL,
+    "shareLinkId" TEXT,
+    "signerName" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "billingCurrency" TEXT NOT NULL,
+    "grandTotal" DOUBLE PRECISION NOT NULL,
+    "userAgent" TEXT,
+    "acceptedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuoteAcceptance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuoteAcceptance_quotationRequestId_quoteVersion_key" ON "QuoteAcceptance"("quotationRequestId", "quoteVersion");
+
+-- AddForeignKey
+ALTER TABLE "QuoteAcceptance" ADD CONSTRAINT "QuoteAcceptance_quotationRequestId_fkey" FOREIGN KEY ("quotationRequestId") REFERENCES "QuotationRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
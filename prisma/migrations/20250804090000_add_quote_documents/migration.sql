@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "QuoteDocument" (
+    "id" TEXT NOT NULL,
+    "quoteVersionId" TEXT NOT NULL,
+    "variant" TEXT NOT NULL,
+    "branding" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "content" BYTEA NOT NULL,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuoteDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuoteDocument_quoteVersionId_variant_branding_key" ON "QuoteDocument"("quoteVersionId", "variant", "branding");
+
+-- AddForeignKey
+ALTER TABLE "QuoteDocument" ADD CONSTRAINT "QuoteDocument_quoteVersionId_fkey" FOREIGN KEY ("quoteVersionId") REFERENCES "QuoteVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
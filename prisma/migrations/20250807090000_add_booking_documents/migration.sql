@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "BookingDocument" (
+    "id" TEXT NOT NULL,
+    "sequence" SERIAL NOT NULL,
+    "itineraryId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "subjectKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingDocument_sequence_key" ON "BookingDocument"("sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingDocument_itineraryId_kind_subjectKey_key" ON "BookingDocument"("itineraryId", "kind", "subjectKey");
+
+-- AddForeignKey
+ALTER TABLE "BookingDocument" ADD CONSTRAINT "BookingDocument_itineraryId_fkey" FOREIGN KEY ("itineraryId") REFERENCES "Itinerary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "Supplier" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "contactName" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "address" TEXT,
+    "paymentTerms" TEXT,
+    "cancellationPolicy" TEXT,
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Supplier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SupplierBookingRequest" (
+    "id" TEXT NOT NULL,
+    "itineraryId" TEXT NOT NULL,
+    "supplierId" TEXT NOT NULL,
+    "itemIds" TEXT NOT NULL,
+    "sentTo" TEXT NOT NULL,
+    "message" TEXT,
+    "sentByUserId" TEXT,
+    "sentByName" TEXT,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "replies" TEXT NOT NULL DEFAULT '[]',
+    "repliedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SupplierBookingRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "ServicePrice" ADD COLUMN "supplierId" TEXT;
+
+-- AlterTable
+ALTER TABLE "HotelDefinition" ADD COLUMN "supplierId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ServicePrice_supplierId_idx" ON "ServicePrice"("supplierId");
+
+-- CreateIndex
+CREATE INDEX "HotelDefinition_supplierId_idx" ON "HotelDefinition"("supplierId");
+
+-- CreateIndex
+CREATE INDEX "SupplierBookingRequest_itineraryId_idx" ON "SupplierBookingRequest"("itineraryId");
+
+-- CreateIndex
+CREATE INDEX "SupplierBookingRequest_supplierId_idx" ON "SupplierBookingRequest"("supplierId");
+
+-- AddForeignKey
+ALTER TABLE "ServicePrice" ADD CONSTRAINT "ServicePrice_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HotelDefinition" ADD CONSTRAINT "HotelDefinition_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SupplierBookingRequest" ADD CONSTRAINT "SupplierBookingRequest_itineraryId_fkey" FOREIGN KEY ("itineraryId") REFERENCES "Itinerary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SupplierBookingRequest" ADD CONSTRAINT "SupplierBookingRequest_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Seeds the demo sign-in accounts shown on the login page: one admin and one
+ * agent whose profile belongs to "Global Travel Experts". Run with `npm run prisma:seed`; it is
+ * safe to run repeatedly and resets the demo passwords.
+ *
+ * @bangla লগইন পৃষ্ঠায় দেখানো ডেমো সাইন-ইন অ্যাকাউন্টগুলি বীজ করে: একজন অ্যাডমিন এবং
+ * একজন এজেন্ট, যার প্রোফাইল "Global Travel Experts"-এর অন্তর্ভুক্ত। `npm run prisma:seed` দিয়ে চালান; এটি বারবার চালানো
+ * নিরাপদ এবং ডেমো পাসওয়ার্ডগুলি রিসেট করে।
+ */
+import { PrismaClient } from '@prisma/client';
+import { hashPassword } from '../src/lib/passwords';
+
+const prisma = new PrismaClient();
+
+const DEMO_PASSWORD = 'password';
+// Matches AGENCY_ID_GLOBAL_TRAVEL in src/hooks/useAgents.ts so the demo agent lands in a seeded agency.
+const DEMO_AGENCY = { id: 'agency_fixed_global', name: 'Global Travel Experts', preferredCurrency: 'THB' };
+// Matches the "Default Agent User" demo profile in src/hooks/useAgents.ts.
+const DEMO_AGENT_PROFILE = { id: 'agent_default_user', fullName: 'Default Agent User', email: 'agent@example.com' };
+
+async function main() {
+  const passwordHash = await hashPassword(DEMO_PASSWORD);
+
+  await prisma.agency.upsert({ where: { id: DEMO_AGENCY.id }, create: DEMO_AGENCY, update: {} });
+
+  const demoUsers = [
+    { email: 'admin@example.com', name: 'Demo Admin', role: 'admin' },
+    { email: 'agent@example.com', name: 'Demo Agent', role: 'agent' },
+  ];
+  for (const user of demoUsers) {
+    await prisma.user.upsert({
+      where: { email: user.email },
+      create: { ...user, passwordHash },
+      update: { role: user.role, passwordHash },
+    });
+  }
+
+  // Agents sign in through their linked profile, which supplies their agent ID and agency.
+  const agentUser = await prisma.user.findUniqueOrThrow({ where: { email: DEMO_AGENT_PROFILE.email } });
+  await prisma.agentProfile.upsert({
+    where: { id: DEMO_AGENT_PROFILE.id },
+    create: { ...DEMO_AGENT_PROFILE, agencyId: DEMO_AGENCY.id, userId: agentUser.id },
+    update: { userId: agentUser.id },
+  });
+  console.log(`Seeded ${demoUsers.length} demo users (password: "${DEMO_PASSWORD}").`);
+}
+
+main()
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview This page hosts the email outbox, where admins follow the delivery of every email
+ * the app sends and retry those that did not go out.
+ *
+ * @bangla এই পৃষ্ঠাটি ইমেল আউটবক্স ধারণ করে, যেখানে অ্যাডমিনরা অ্যাপের পাঠানো প্রতিটি ইমেলের ডেলিভারি অনুসরণ করেন
+ * এবং যেগুলি যায়নি সেগুলি আবার চেষ্টা করেন।
+ */
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { EmailOutboxTable } from '@/components/admin/email-outbox-table';
+import { LayoutDashboard, Mail } from 'lucide-react';
+
+export default function AdminEmailOutboxPage() {
+  return (
+    <main className="min-h-screen bg-background p-4 md:p-8">
+      <div className="container mx-auto py-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-3">
+          <div className="flex items-center gap-2">
+            <Link href="/">
+              <Button variant="outline" size="icon" className="h-10 w-10">
+                <LayoutDashboard className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl md:text-3xl font-bold text-primary flex items-center">
+              <Mail className="mr-3 h-7 w-7 md:h-8 md:w-8" /> Email Outbox
+            </h1>
+          </div>
+        </div>
+        <EmailOutboxTable />
+      </div>
+    </main>
+  );
+}
@@ -1,12 +1,12 @@
 
 /**
  * @fileoverview This page component allows administrators to manage saved itineraries.
- * It displays a list of all itineraries stored in localStorage, providing options
+ * It displays a list of all itineraries stored in the database, providing options
  * to search, view, edit (by navigating to the planner page with the specific itinerary ID),
  * and delete them.
  *
  * @bangla এই পৃষ্ঠা কম্পোনেন্টটি প্রশাসকদের সংরক্ষিত ভ্রমণপথ পরিচালনা করার অনুমতি দেয়।
- * এটি localStorage-এ সংরক্ষিত সমস্ত ভ্রমণপথের একটি তালিকা প্রদর্শন করে, যেখানে অনুসন্ধান,
+ * এটি ডেটাবেসে সংরক্ষিত সমস্ত ভ্রমণপথের একটি তালিকা প্রদর্শন করে, যেখানে অনুসন্ধান,
  * দেখা, সম্পাদনা (নির্দিষ্ট ভ্রমণপথ আইডি সহ পরিকল্পনাকারী পৃষ্ঠায় নেভিগেট করে) এবং
  * মুছে ফেলার বিকল্প সরবরাহ করা হয়।
  */
@@ -21,12 +21,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import type { ItineraryMetadata } from '@/types/itinerary';
+import { apiGet, apiDelete } from '@/lib/api-client';
 import { LayoutDashboard, ListOrdered, Edit, Trash2, Search, FileText, Tags, Filter } from 'lucide-react';
 import { format } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 
-const ITINERARY_INDEX_KEY = 'itineraryAce_index';
-const ITINERARY_DATA_PREFIX = 'itineraryAce_data_';
+const ITINERARIES_API_PATH = '/api/itineraries';
 
 export default function ManageItinerariesPage() {
   const [itineraries, setItineraries] = React.useState<ItineraryMetadata[]>([]);
@@ -38,20 +38,20 @@ export default function ManageItinerariesPage() {
   const { toast } = useToast();
 
   React.useEffect(() => {
-    try {
-      const storedIndex = localStorage.getItem(ITINERARY_INDEX_KEY);
-      if (storedIndex) {
-        const parsedIndex: ItineraryMetadata[] = JSON.parse(storedIndex);
+    const loadItineraries = async () => {
+      try {
+        const index = await apiGet<ItineraryMetadata[]>(ITINERARIES_API_PATH);
         // Ensure tags is always an array for consistent filtering
-        const normalizedIndex = parsedIndex.map(it => ({ ...it, tags: Array.isArray(it.tags) ? it.tags : [] }));
+        const normalizedIndex = index.map(it => ({ ...it, tags: Array.isArray(it.tags) ? it.tags : [] }));
         normalizedIndex.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
         setItineraries(normalizedIndex);
+      } catch (error) {
+        console.error("Error loading itinerary index:", error);
+        toast({ title: "Error", description: "Could not load itineraries.", variant: "destructive" });
       }
-    } catch (error) {
-      console.error("Error loading itinerary index:", error);
-      toast({ title: "Error", description: "Could not load itineraries.", variant: "destructive" });
-    }
-    setIsLoading(false);
+      setIsLoading(false);
+    };
+    loadItineraries();
   }, [toast]);
 
   React.useEffect(() => {
@@ -59,14 +59,12 @@ export default function ManageItinerariesPage() {
     setParsedTagFilters(filters);
   }, [tagFilterInput]);
 
-  const handleDeleteItinerary = (itineraryId: string) => {
+  const handleDeleteItinerary = async (itineraryId: string) => {
     try {
-      const updatedIndex = itineraries.filter(it => it.id !== itineraryId);
-      localStorage.setItem(ITINERARY_INDEX_KEY, JSON.stringify(updatedIndex));
-      setItineraries(updatedIndex);
-      localStorage.removeItem(`${ITINERARY_DATA_PREFIX}${itineraryId}`);
+      await apiDelete(`${ITINERARIES_API_PATH}/${encodeURIComponent(itineraryId)}`);
+      setItineraries(prev => prev.filter(it => it.id !== itineraryId));
       const lastActiveId = localStorage.getItem('lastActiveItineraryId');
-      if (lastActiveId === itineraryId) {
+      if (lastActiveId === itineraryId || lastActiveId === JSON.stringify(itineraryId)) {
         localStorage.removeItem('lastActiveItineraryId');
       }
       toast({ title: "Success", description: `Itinerary ${itineraryId} deleted.` });
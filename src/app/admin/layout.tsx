@@ -0,0 +1,10 @@
+/**
+ * @fileoverview Layout for the admin area. Every page under `/admin` is only rendered for signed-in admins.
+ *
+ * @bangla অ্যাডমিন এলাকার লেআউট। `/admin`-এর অধীনে প্রতিটি পৃষ্ঠা শুধুমাত্র সাইন-ইন করা অ্যাডমিনদের জন্য দেখানো হয়।
+ */
+import { RoleGuard } from '@/components/role-guard';
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return <RoleGuard roles={['admin']}>{children}</RoleGuard>;
+}
@@ -0,0 +1,264 @@
+/**
+ * @fileoverview This page moves data that older versions of the app kept in this browser's
+ * localStorage into the database. It collects every `itineraryAce*` key, runs a dry run on
+ * the server and shows the report (invalid records, duplicate IDs and conflicts with stored
+ * data). The import itself can only be started once a dry run with the same options has been reviewed.
+ *
+ * @bangla এই পৃষ্ঠাটি অ্যাপের পুরনো সংস্করণগুলি এই ব্রাউজারের localStorage-এ যে ডেটা রাখত তা
+ * ডেটাবেসে স্থানান্তর করে। এটি প্রতিটি `itineraryAce*` কী সংগ্রহ করে, সার্ভারে একটি ড্রাই রান
+ * চালায় এবং রিপোর্ট দেখায় (অবৈধ রেকর্ড, ডুপ্লিকেট আইডি এবং সংরক্ষিত ডেটার সাথে দ্বন্দ্ব)। একই
+ * বিকল্পসহ একটি ড্রাই রান পর্যালোচনা করার পরেই কেবল আসল ইম্পোর্ট শুরু করা যায়।
+ */
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiPost } from '@/lib/api-client';
+import { LEGACY_STORAGE_KEY_PREFIX, type ImportCollection, type ImportIssueKind, type LocalStorageImportReport, type LocalStorageImportRequest } from '@/types/local-storage-import';
+import { LayoutDashboard, DatabaseZap, Loader2, SearchCheck, Upload, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const LOCAL_STORAGE_IMPORT_API_PATH = '/api/local-storage-import';
+
+const COLLECTION_LABELS: Record<ImportCollection, string> = {
+  agencies: "Agencies",
+  agents: "Agents",
+  quotationRequests: "Quotation Requests",
+  itineraries: "Itineraries",
+  servicePrices: "Service Prices",
+  hotelDefinitions: "Hotel Definitions",
+  exchangeRates: "Exchange Rates",
+  specificMarkupRates: "Specific Markup Rates",
+};
+
+const ISSUE_BADGE_CLASSES: Record<ImportIssueKind, string> = {
+  unreadable: 'bg-destructive/10 text-destructive border-destructive/30',
+  invalid: 'bg-destructive/10 text-destructive border-destructive/30',
+  failed: 'bg-destructive/10 text-destructive border-destructive/30',
+  duplicate: 'bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-900/40 dark:text-amber-200 dark:border-amber-700',
+  conflict: 'bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-900/40 dark:text-blue-200 dark:border-blue-700',
+};
+
+const collectLegacyEntries = (): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(LEGACY_STORAGE_KEY_PREFIX)) continue;
+    const value = localStorage.getItem(key);
+    if (value !== null) entries[key] = value;
+  }
+  return entries;
+};
+
+export default function LocalStorageImportPage() {
+  const [entries, setEntries] = React.useState<Record<string, string> | null>(null);
+  const [overwriteConflicts, setOverwriteConflicts] = React.useState(false);
+  const [report, setReport] = React.useState<LocalStorageImportReport | null>(null);
+  const [isRunning, setIsRunning] = React.useState(false);
+  const { toast } = useToast();
+
+  const refreshEntries = React.useCallback(() => {
+    setEntries(collectLegacyEntries());
+    setReport(null);
+  }, []);
+
+  React.useEffect(() => {
+    refreshEntries();
+  }, [refreshEntries]);
+
+  const runImport = React.useCallback(async (dryRun: boolean) => {
+    if (!entries) return;
+    setIsRunning(true);
+    try {
+      const body: LocalStorageImportRequest = { entries, dryRun, overwriteConflicts };
+      const result = await apiPost<LocalStorageImportReport>(LOCAL_STORAGE_IMPORT_API_PATH, body);
+      setReport(result);
+      if (dryRun) {
+        toast({ title: "Dry Run Complete", description: "Review the report below before importing." });
+      } else {
+        const failedCount = result.issues.filter(issue => issue.kind === 'failed').length;
+        toast({
+          title: failedCount > 0 ? "Import Finished With Errors" : "Import Complete",
+          description: `${result.importedCount} record(s) written to the database.${failedCount > 0 ? ` ${failedCount} could not be written.` : ''}`,
+          variant: failedCount > 0 ? "destructive" : "default",
+        });
+      }
+    } catch (error) {
+      console.error("Error running localStorage import:", error);
+      toast({ title: "Error", description: `Could not ${dryRun ? "check" : "import"} the browser data.`, variant: "destructive" });
+    }
+    setIsRunning(false);
+  }, [entries, overwriteConflicts, toast]);
+
+  const handleOverwriteChange = (checked: boolean) => {
+    setOverwriteConflicts(checked);
+    // The report reflects the previous choice, so a new dry run is needed before importing.
+    setReport(null);
+  };
+
+  const entryCount = entries ? Object.keys(entries).length : 0;
+  const canImport = report !== null && report.dryRun && report.overwriteConflicts === overwriteConflicts
+    && (report.collections.some(summary => summary.toImport > 0) || Object.keys(report.settings).length > 0);
+  const settingsEntries = report ? Object.entries(report.settings) : [];
+
+  if (entries === null) {
+    return <div className="flex justify-center items-center min-h-screen p-4">Reading browser data...</div>;
+  }
+
+  return (
+    <main className="min-h-screen bg-background p-2 sm:p-4 md:p-8">
+      <div className="container mx-auto py-4 md:py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Link href="/">
+              <Button variant="outline" size="icon" className="h-9 w-9 sm:h-10 sm:w-10">
+                <LayoutDashboard className="h-4 w-4 sm:h-5 sm:w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-primary flex items-center">
+              <DatabaseZap className="mr-2 sm:mr-3 h-6 w-6 sm:h-8 sm:w-8" /> Import Browser Data
+            </h1>
+          </div>
+          <Button variant="outline" onClick={refreshEntries} disabled={isRunning} className="text-sm">
+            <RefreshCw className="mr-2 h-4 w-4" /> Re-read Browser Data
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">One-Time Migration</CardTitle>
+            <CardDescription>
+              Found {entryCount} key(s) starting with &quot;{LEGACY_STORAGE_KEY_PREFIX}&quot; in this browser.
+              Run a dry run first: nothing is written until you confirm the import.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="overwrite-conflicts" checked={overwriteConflicts} onCheckedChange={handleOverwriteChange} disabled={isRunning} />
+              <Label htmlFor="overwrite-conflicts" className="text-sm">Overwrite records that already exist in the database</Label>
+            </div>
+            <div className="flex gap-2 sm:ml-auto">
+              <Button variant="secondary" onClick={() => runImport(true)} disabled={isRunning || entryCount === 0}>
+                {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SearchCheck className="mr-2 h-4 w-4" />} Dry Run
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button disabled={isRunning || !canImport}>
+                    <Upload className="mr-2 h-4 w-4" /> Import
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Import browser data?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The records marked for import in the dry run report will be written to the database.
+                      {overwriteConflicts ? " Conflicting records will overwrite the stored ones." : " Conflicting records will be skipped."}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => runImport(false)}>Import</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </CardContent>
+        </Card>
+
+        {report && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{report.dryRun ? "Dry Run Report" : "Import Result"}</CardTitle>
+                <CardDescription>
+                  {report.dryRun
+                    ? "Nothing has been written yet."
+                    : `${report.importedCount} record(s) were written to the database.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Collection</TableHead>
+                      <TableHead className="text-right">Found</TableHead>
+                      <TableHead className="text-right">Invalid</TableHead>
+                      <TableHead className="text-right">Duplicates</TableHead>
+                      <TableHead className="text-right">Conflicts</TableHead>
+                      <TableHead className="text-right">{report.dryRun ? "To Import" : "Selected"}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.collections.map(summary => (
+                      <TableRow key={summary.collection}>
+                        <TableCell className="font-medium">{COLLECTION_LABELS[summary.collection]}</TableCell>
+                        <TableCell className="text-right">{summary.found}</TableCell>
+                        <TableCell className={cn("text-right", summary.invalid > 0 && "text-destructive font-semibold")}>{summary.invalid}</TableCell>
+                        <TableCell className={cn("text-right", summary.duplicates > 0 && "text-amber-600 font-semibold")}>{summary.duplicates}</TableCell>
+                        <TableCell className={cn("text-right", summary.conflicts > 0 && "text-blue-600 font-semibold")}>{summary.conflicts}</TableCell>
+                        <TableCell className="text-right font-semibold">{summary.toImport}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {settingsEntries.length > 0 && (
+                  <p className="mt-4 text-sm text-muted-foreground">
+                    Settings: {settingsEntries.map(([key, value]) => `${key} = ${value}`).join(', ')}
+                  </p>
+                )}
+                {report.ignoredKeys.length > 0 && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Not imported (kept in this browser or not recognised): {report.ignoredKeys.join(', ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Issues ({report.issues.length})</CardTitle>
+                <CardDescription>Invalid and duplicate records are never imported. Conflicts follow the overwrite setting.</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                {report.issues.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No issues found.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Storage Key</TableHead>
+                        <TableHead>Record ID</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.issues.map((issue, index) => (
+                        <TableRow key={`${issue.storageKey}-${issue.recordId ?? ''}-${index}`}>
+                          <TableCell>
+                            <Badge variant="outline" className={cn("capitalize", ISSUE_BADGE_CLASSES[issue.kind])}>{issue.kind}</Badge>
+                          </TableCell>
+                          <TableCell className="text-xs font-mono">{issue.storageKey}</TableCell>
+                          <TableCell className="text-xs font-mono">{issue.recordId || '-'}</TableCell>
+                          <TableCell className="text-xs sm:text-sm">{issue.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview This page hosts the markup rule manager, where admins set the markups that turn
+ * net service cost into the sell prices shown to clients.
+ *
+ * @bangla এই পৃষ্ঠাটি মার্কআপ নিয়ম ব্যবস্থাপক ধারণ করে, যেখানে অ্যাডমিনরা সেই মার্কআপ নির্ধারণ করেন যা
+ * নেট পরিষেবা খরচকে ক্লায়েন্টদের দেখানো বিক্রয় মূল্যে পরিণত করে।
+ */
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { MarkupRuleManager } from '@/components/admin/markup-rule-manager';
+import { LayoutDashboard, Percent } from 'lucide-react';
+
+export default function AdminMarkupRulesPage() {
+  return (
+    <main className="min-h-screen bg-background p-4 md:p-8">
+      <div className="container mx-auto py-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-3">
+          <div className="flex items-center gap-2">
+            <Link href="/">
+              <Button variant="outline" size="icon" className="h-10 w-10">
+                <LayoutDashboard className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl md:text-3xl font-bold text-primary flex items-center">
+              <Percent className="mr-3 h-7 w-7 md:h-8 md:w-8" /> Markup Rules
+            </h1>
+          </div>
+        </div>
+        <MarkupRuleManager />
+      </div>
+    </main>
+  );
+}
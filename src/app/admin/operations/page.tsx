@@ -0,0 +1,36 @@
+/**
+ * @fileoverview This page hosts the booking operations dashboard, where admins work through the
+ * services of upcoming trips that are not booked yet.
+ *
+ * @bangla এই পৃষ্ঠাটি বুকিং অপারেশনস ড্যাশবোর্ড ধারণ করে, যেখানে অ্যাডমিনরা আসন্ন ভ্রমণগুলির এখনও বুক না হওয়া
+ * পরিষেবাগুলি একে একে সম্পন্ন করেন।
+ */
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { BookingOperationsBoard } from '@/components/admin/booking-operations-board';
+import { LayoutDashboard, ClipboardList } from 'lucide-react';
+
+export default function AdminBookingOperationsPage() {
+  return (
+    <main className="min-h-screen bg-background p-4 md:p-8">
+      <div className="container mx-auto py-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-3">
+          <div className="flex items-center gap-2">
+            <Link href="/">
+              <Button variant="outline" size="icon" className="h-10 w-10">
+                <LayoutDashboard className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl md:text-3xl font-bold text-primary flex items-center">
+              <ClipboardList className="mr-3 h-7 w-7 md:h-8 md:w-8" /> Booking Operations
+            </h1>
+          </div>
+        </div>
+        <BookingOperationsBoard />
+      </div>
+    </main>
+  );
+}
@@ -2,11 +2,11 @@
  * @fileoverview This page component allows administrators to edit an existing service price item.
  * It fetches the service price details based on the ID from the URL, pre-fills the
  * `ServicePriceFormRouter` with this data, and handles the submission of updated information
- * back to localStorage.
+ * back to the database through the `/api/service-prices` routes.
  *
  * @bangla এই পৃষ্ঠা কম্পোনেন্টটি প্রশাসকদের একটি বিদ্যমান পরিষেবা মূল্য আইটেম সম্পাদনা করার
  * অনুমতি দেয়। এটি URL থেকে আইডির উপর ভিত্তি করে পরিষেবা মূল্যের বিবরণ আনে, এই ডেটা সহ
- * `ServicePriceFormRouter` প্রি-ফিল করে, এবং আপডেট করা তথ্য localStorage-এ জমা দেওয়ার
+ * `ServicePriceFormRouter` প্রি-ফিল করে, এবং আপডেট করা তথ্য `/api/service-prices` রুটের মাধ্যমে ডেটাবেসে জমা দেওয়ার
  * প্রক্রিয়া পরিচালনা করে।
  */
 "use client";
@@ -18,10 +18,11 @@ import { Button } from '@/components/ui/button';
 import { ServicePriceFormRouter } from '@/components/admin/service-pricing/ServicePriceFormRouter';
 import type { ServicePriceItem } from '@/types/itinerary';
 import { useToast } from '@/hooks/use-toast';
+import { apiGet, apiPut, ApiError } from '@/lib/api-client';
 import { LayoutDashboard, Edit, ArrowLeft, Loader2 } from 'lucide-react'; 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 
-const SERVICE_PRICES_STORAGE_KEY = 'itineraryAceServicePrices';
+const SERVICE_PRICES_API_PATH = '/api/service-prices';
 
 export default function EditServicePricePage() {
   const router = useRouter();
@@ -34,45 +35,35 @@ export default function EditServicePricePage() {
   const [error, setError] = React.useState<string | null>(null);
 
   React.useEffect(() => {
-    if (id) {
-      try {
-        const storedPrices = localStorage.getItem(SERVICE_PRICES_STORAGE_KEY);
-        if (storedPrices) {
-          const allPrices: ServicePriceItem[] = JSON.parse(storedPrices);
-          const serviceToEdit = allPrices.find(sp => sp.id === id);
-          if (serviceToEdit) {
-            setInitialData(serviceToEdit);
-          } else {
+    const loadServiceToEdit = async () => {
+      if (id) {
+        try {
+          const serviceToEdit = await apiGet<ServicePriceItem>(`${SERVICE_PRICES_API_PATH}/${encodeURIComponent(String(id))}`);
+          setInitialData(serviceToEdit);
+        } catch (e) {
+          if (e instanceof ApiError && e.status === 404) {
             setError(`Service price with ID "${id}" not found.`);
             toast({ title: "Error", description: `Service price not found.`, variant: "destructive" });
+          } else {
+            console.error("Error loading service price for editing:", e);
+            setError("Failed to load service price data.");
+            toast({ title: "Error", description: "Could not load service price for editing.", variant: "destructive" });
           }
-        } else {
-          setError("No service prices found in storage.");
-          toast({ title: "Error", description: "Service price data not available.", variant: "destructive" });
         }
-      } catch (e) {
-        console.error("Error loading service price for editing:", e);
-        setError("Failed to load service price data.");
-        toast({ title: "Error", description: "Could not load service price for editing.", variant: "destructive" });
       }
-    }
-    setIsLoading(false);
+      setIsLoading(false);
+    };
+    loadServiceToEdit();
   }, [id, toast]);
 
-  const handleFormSubmit = (data: Omit<ServicePriceItem, 'id'>) => {
+  const handleFormSubmit = async (data: Omit<ServicePriceItem, 'id'>) => {
     if (!initialData?.id) { 
       toast({ title: "Error", description: "Cannot update service: ID missing.", variant: "destructive" });
       return;
     }
     try {
-      const storedPrices = localStorage.getItem(SERVICE_PRICES_STORAGE_KEY);
-      const allPrices: ServicePriceItem[] = storedPrices ? JSON.parse(storedPrices) : [];
-      
-      const updatedPrices = allPrices.map(sp => 
-        sp.id === initialData.id ? { ...initialData, ...data, id: initialData.id } : sp 
-      );
-      
-      localStorage.setItem(SERVICE_PRICES_STORAGE_KEY, JSON.stringify(updatedPrices));
+      const updatedPrice = { ...initialData, ...data, id: initialData.id } as ServicePriceItem;
+      await apiPut<ServicePriceItem>(`${SERVICE_PRICES_API_PATH}/${encodeURIComponent(initialData.id)}`, updatedPrice);
       toast({ title: "Success", description: `Service price "${data.name}" updated.` });
       router.push('/admin/pricing');
     } catch (e) {
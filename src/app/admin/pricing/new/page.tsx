@@ -3,13 +3,13 @@
  * It utilizes the `ServicePriceFormRouter` to render the appropriate form fields based
  * on the selected service category. It can optionally prefill form data from localStorage
  * if an AI parsing process (like contract import) has placed temporary data there.
- * Submitted data is saved to localStorage.
+ * Submitted data is saved to the database through the `/api/service-prices` routes.
  *
  * @bangla এই পৃষ্ঠা কম্পোনেন্টটি প্রশাসকদের একটি নতুন পরিষেবা মূল্য আইটেম যোগ করার অনুমতি দেয়।
  * এটি নির্বাচিত পরিষেবা বিভাগের উপর ভিত্তি করে উপযুক্ত ফর্ম ক্ষেত্রগুলি রেন্ডার করার জন্য
  * `ServicePriceFormRouter` ব্যবহার করে। যদি কোনও AI পার্সিং প্রক্রিয়া (যেমন চুক্তি আমদানি)
  * অস্থায়ী ডেটা localStorage-এ রেখে থাকে, তবে এটি ঐচ্ছিকভাবে ফর্ম ডেটা প্রিফিল করতে পারে।
- * জমা দেওয়া ডেটা localStorage-এ সংরক্ষিত হয়।
+ * জমা দেওয়া ডেটা `/api/service-prices` রুটের মাধ্যমে ডেটাবেসে সংরক্ষিত হয়।
  */
 "use client";
 
@@ -21,10 +21,11 @@ import { ServicePriceFormRouter } from '@/components/admin/service-pricing/Servi
 import type { ServicePriceItem } from '@/types/itinerary';
 import { generateGUID } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { apiPut } from '@/lib/api-client';
 import { LayoutDashboard, ListPlus, ArrowLeft, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 
-const SERVICE_PRICES_STORAGE_KEY = 'itineraryAceServicePrices';
+const SERVICE_PRICES_API_PATH = '/api/service-prices';
 const TEMP_PREFILL_DATA_KEY = 'tempServicePricePrefillData';
 
 export default function NewServicePricePage() {
@@ -48,16 +49,11 @@ export default function NewServicePricePage() {
     setIsLoading(false);
   }, [toast]);
 
-  const handleFormSubmit = (data: Omit<ServicePriceItem, 'id'>) => {
+  const handleFormSubmit = async (data: Omit<ServicePriceItem, 'id'>) => {
     console.log("NewServicePricePage: handleFormSubmit called with data:", data);
     try {
-      const storedPrices = localStorage.getItem(SERVICE_PRICES_STORAGE_KEY);
-      const allPrices: ServicePriceItem[] = storedPrices ? JSON.parse(storedPrices) : [];
-      
       const newServicePrice: ServicePriceItem = { ...data, id: generateGUID() };
-      const updatedPrices = [...allPrices, newServicePrice];
-      
-      localStorage.setItem(SERVICE_PRICES_STORAGE_KEY, JSON.stringify(updatedPrices));
+      await apiPut<ServicePriceItem>(`${SERVICE_PRICES_API_PATH}/${encodeURIComponent(newServicePrice.id)}`, newServicePrice);
       
       toast({ title: "Success", description: `Service price "${data.name}" added.` });
       router.push('/admin/pricing');
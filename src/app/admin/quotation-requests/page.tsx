@@ -1,22 +1,26 @@
 /**
  * @fileoverview This page allows administrators to view and manage submitted quotation requests.
- * It lists all requests from localStorage, showing key details and current status.
+ * It lists all requests from the database, showing key details and current status.
  * Admins can initiate an itinerary proposal from here, which links the request to the planner.
+ * The status menu only offers the moves the quotation state machine allows an admin to make,
+ * and each request's status history can be opened as a timeline. Quoted requests link to their
+ * sent quote versions, with PDF downloads and a comparison between versions.
  */
 "use client";
 
 import * as React from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import type { QuotationRequest, QuotationRequestStatus } from '@/types/quotation';
+import type { QuotationRequest, QuotationRequestStatus, QuotationStatusChange } from '@/types/quotation';
 import { QUOTATION_STATUSES } from '@/types/quotation';
-import { LayoutDashboard, ListChecks, Edit, Trash2, Search, FileText, Eye, FilePlus, Filter, MessageSquare } from 'lucide-react';
+import { apiGet, apiPost, apiDelete } from '@/lib/api-client';
+import { LayoutDashboard, ListChecks, Edit, Trash2, Search, FileText, Eye, FilePlus, Filter, MessageSquare, GitCompare } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 import { useCountries } from '@/hooks/useCountries';
@@ -24,32 +28,40 @@ import { useAgents } from '@/hooks/useAgents';
 import { cn } from '@/lib/utils';
 import { useItineraryManager } from '@/hooks/useItineraryManager';
 import { Tooltip, TooltipProvider, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { QuotationStatusHistory } from '@/components/quotation/quotation-status-history';
+import { QuotationBilling } from '@/components/quotation/quotation-billing';
+import { getAllowedTransitions, type QuotationTransition } from '@/lib/quotation-workflow';
 
-const AGENT_QUOTATION_REQUESTS_KEY = 'itineraryAce_agentQuotationRequests';
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
 
 export default function ManageQuotationRequestsPage() {
   const [requests, setRequests] = React.useState<QuotationRequest[]>([]);
   const [searchTerm, setSearchTerm] = React.useState('');
+  // A notification links here with `?requestId=`, which opens the list filtered to that request.
+  const requestIdParam = useSearchParams().get('requestId');
+  React.useEffect(() => {
+    if (requestIdParam) setSearchTerm(requestIdParam);
+  }, [requestIdParam]);
   const [statusFilter, setStatusFilter] = React.useState<QuotationRequestStatus | 'all'>('all');
   const [isLoading, setIsLoading] = React.useState(true);
   const router = useRouter();
   const { toast } = useToast();
   const { countries, isLoading: isLoadingCountries } = useCountries();
   const { agents, isLoading: isLoadingAgents } = useAgents();
+  const [noteDialog, setNoteDialog] = React.useState<{ request: QuotationRequest; transition: QuotationTransition } | null>(null);
+  const [noteText, setNoteText] = React.useState("");
 
   useItineraryManager();
 
-  const loadRequests = React.useCallback(() => {
+  const loadRequests = React.useCallback(async () => {
     setIsLoading(true);
     try {
-      const storedRequests = localStorage.getItem(AGENT_QUOTATION_REQUESTS_KEY);
-      if (storedRequests) {
-        const parsedRequests: QuotationRequest[] = JSON.parse(storedRequests);
-        parsedRequests.sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime());
-        setRequests(parsedRequests);
-      } else {
-        setRequests([]);
-      }
+      const storedRequests = await apiGet<QuotationRequest[]>(QUOTATION_REQUESTS_API_PATH);
+      storedRequests.sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime());
+      setRequests(storedRequests);
     } catch (error) {
       console.error("Error loading quotation requests:", error);
       toast({ title: "Error", description: "Could not load quotation requests.", variant: "destructive" });
@@ -62,20 +74,50 @@ export default function ManageQuotationRequestsPage() {
     loadRequests();
   }, [loadRequests]);
 
-  const handleUpdateStatus = (requestId: string, newStatus: QuotationRequestStatus) => {
-    const updatedRequests = requests.map(req =>
-      req.id === requestId ? { ...req, status: newStatus, updatedAt: new Date().toISOString() } : req
-    );
-    setRequests(updatedRequests);
-    localStorage.setItem(AGENT_QUOTATION_REQUESTS_KEY, JSON.stringify(updatedRequests));
-    toast({ title: "Status Updated", description: `Request ${requestId.slice(-6)} status changed to ${newStatus}.` });
+  const runTransition = async (request: QuotationRequest, toStatus: QuotationRequestStatus, note?: string): Promise<boolean> => {
+    try {
+      const { request: updatedRequest } = await apiPost<{ request: QuotationRequest; change: QuotationStatusChange }>(
+        `${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(request.id)}/transitions`,
+        { toStatus, note },
+      );
+      setRequests(prev => prev.map(req => req.id === updatedRequest.id ? updatedRequest : req));
+      toast({ title: "Status Updated", description: `Request ${request.id.slice(-6)} status changed to ${toStatus}.` });
+      return true;
+    } catch (error) {
+      console.error("Error updating quotation request status:", error);
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not update request status.", variant: "destructive" });
+      return false;
+    }
+  };
+
+  const handleUpdateStatus = (request: QuotationRequest, newStatus: QuotationRequestStatus) => {
+    const transition = getAllowedTransitions(request.status, 'admin').find(t => t.to === newStatus);
+    if (!transition) return;
+    if (transition.note) {
+      setNoteDialog({ request, transition });
+      setNoteText(transition.effects.includes('storeAdminNotes') ? request.adminRevisionNotes || "" : "");
+      return;
+    }
+    runTransition(request, newStatus);
   };
 
-  const handleDeleteRequest = (requestId: string) => {
-    const updatedRequests = requests.filter(req => req.id !== requestId);
-    setRequests(updatedRequests);
-    localStorage.setItem(AGENT_QUOTATION_REQUESTS_KEY, JSON.stringify(updatedRequests));
-    toast({ title: "Request Deleted", description: `Request ${requestId.slice(-6)} deleted.` });
+  const submitNoteDialog = async () => {
+    if (!noteDialog) return;
+    if (await runTransition(noteDialog.request, noteDialog.transition.to, noteText)) {
+      setNoteDialog(null);
+      setNoteText("");
+    }
+  };
+
+  const handleDeleteRequest = async (requestId: string) => {
+    try {
+      await apiDelete(`${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(requestId)}`);
+      setRequests(prev => prev.filter(req => req.id !== requestId));
+      toast({ title: "Request Deleted", description: `Request ${requestId.slice(-6)} deleted.` });
+    } catch (error) {
+      console.error("Error deleting quotation request:", error);
+      toast({ title: "Error", description: "Could not delete request.", variant: "destructive" });
+    }
   };
 
   const getCountryNames = (countryIds: string[] = []) => {
@@ -206,14 +248,18 @@ export default function ManageQuotationRequestsPage() {
                     </TableCell>
                     <TableCell className="py-2 px-2">{req.clientInfo.adults}A {req.clientInfo.children > 0 && ` ${req.clientInfo.children}C`}</TableCell>
                     <TableCell className="py-2 px-2">
-                       <Select value={req.status} onValueChange={(newStatus) => handleUpdateStatus(req.id, newStatus as QuotationRequestStatus)}>
+                       <Select value={req.status} onValueChange={(newStatus) => handleUpdateStatus(req, newStatus as QuotationRequestStatus)}>
                           <SelectTrigger className={cn("h-8 text-xs w-[180px] sm:w-[200px]", getStatusBadgeClassName(req.status))}>
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            {QUOTATION_STATUSES.map(status => (
-                              <SelectItem key={status} value={status} className="text-xs">
-                                <Badge variant="outline" className={cn("mr-2 w-full justify-start text-xs", getStatusBadgeClassName(status))}>{status}</Badge>
+                            <SelectItem value={req.status} className="text-xs">
+                              <Badge variant="outline" className={cn("mr-2 w-full justify-start text-xs", getStatusBadgeClassName(req.status))}>{req.status}</Badge>
+                            </SelectItem>
+                            {getAllowedTransitions(req.status, 'admin').filter(t => t.to !== req.status).map(transition => (
+                              <SelectItem key={transition.to} value={transition.to} className="text-xs">
+                                <span className="mr-2 text-muted-foreground">{transition.label} →</span>
+                                <Badge variant="outline" className={cn("text-xs", getStatusBadgeClassName(transition.to))}>{transition.to}</Badge>
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -235,6 +281,13 @@ export default function ManageQuotationRequestsPage() {
                         )}
                     </TableCell>
                     <TableCell className="text-center py-2 px-2">
+                      <QuotationStatusHistory requestId={req.id} />
+                      <QuotationBilling request={req} canManage={true} />
+                      {(req.version ?? 0) >= 1 && (
+                        <Button variant="ghost" size="icon" className="h-7 w-7" title="Quote Versions & PDFs" onClick={() => router.push(`/itinerary/versions/${req.id}`)}>
+                          <GitCompare className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -277,6 +330,29 @@ export default function ManageQuotationRequestsPage() {
           </div>
         )}
       </div>
+      <Dialog open={!!noteDialog} onOpenChange={(open) => { if (!open) setNoteDialog(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{noteDialog?.transition.label}</DialogTitle>
+            <DialogDescription>
+              Request {noteDialog?.request.id.slice(-6)}: {noteDialog?.request.status} → {noteDialog?.transition.to}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-2">
+            <Label htmlFor="transition-note">
+              {noteDialog?.transition.effects.includes('storeAdminNotes') ? "Notes for the Agent" : "Note"}
+              {noteDialog?.transition.note === 'optional' ? " (optional)" : ""}
+            </Label>
+            <Textarea id="transition-note" value={noteText} onChange={(e) => setNoteText(e.target.value)} rows={5} className="mt-1" />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button variant="outline">Back</Button></DialogClose>
+            <Button onClick={submitNoteDialog} disabled={noteDialog?.transition.note === 'required' && !noteText.trim()}>
+              {noteDialog?.transition.label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </main>
   );
 }
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview This page hosts the supplier manager, the master list of the companies that
+ * provide the services we book.
+ *
+ * @bangla এই পৃষ্ঠাটি সরবরাহকারী ব্যবস্থাপক ধারণ করে, যা আমাদের বুক করা পরিষেবা প্রদানকারী কোম্পানিগুলির প্রধান
+ * তালিকা।
+ */
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button";
+import { SupplierManager } from '@/components/admin/supplier-manager';
+import { LayoutDashboard, Truck } from 'lucide-react';
+
+export default function AdminSuppliersPage() {
+  return (
+    <main className="min-h-screen bg-background p-4 md:p-8">
+      <div className="container mx-auto py-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-3">
+          <div className="flex items-center gap-2">
+            <Link href="/">
+              <Button variant="outline" size="icon" className="h-10 w-10">
+                <LayoutDashboard className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl md:text-3xl font-bold text-primary flex items-center">
+              <Truck className="mr-3 h-7 w-7 md:h-8 md:w-8" /> Suppliers
+            </h1>
+          </div>
+        </div>
+        <SupplierManager />
+      </div>
+    </main>
+  );
+}
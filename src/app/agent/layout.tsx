@@ -0,0 +1,10 @@
+/**
+ * @fileoverview Layout for the agent portal. Pages under `/agent` are only rendered for signed-in agents.
+ *
+ * @bangla এজেন্ট পোর্টালের লেআউট। `/agent`-এর অধীনে পৃষ্ঠাগুলি শুধুমাত্র সাইন-ইন করা এজেন্টদের জন্য দেখানো হয়।
+ */
+import { RoleGuard } from '@/components/role-guard';
+
+export default function AgentLayout({ children }: { children: React.ReactNode }) {
+  return <RoleGuard roles={['agent']}>{children}</RoleGuard>;
+}
@@ -1,20 +1,24 @@
 /**
  * @fileoverview This page allows travel agents to view their submitted quotation requests.
- * It lists requests filtered by the agent's ID (placeholder for actual login), showing key details,
- * current status, and provides a link to view any associated itinerary proposal.
+ * It lists the requests of the signed-in agent's agency, showing key details,
+ * current status, and provides a link to view any associated itinerary proposal. Status changes
+ * (revision requests, approval, cancellation) go through the quotation state machine, and each
+ * request's status history can be opened as a timeline. Quoted requests link to their quote
+ * versions, with PDF downloads and a comparison of what changed between versions.
  */
 "use client";
 
 import * as React from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import type { QuotationRequest, QuotationRequestStatus } from '@/types/quotation';
-import { LayoutDashboard, ClipboardList, Search, FileText, Eye, Edit2, CheckCircle2, MessageSquare } from 'lucide-react';
+import { apiGet, apiPost } from '@/lib/api-client';
+import type { QuotationRequest, QuotationRequestStatus, QuotationStatusChange } from '@/types/quotation';
+import { LayoutDashboard, ClipboardList, Search, FileText, Eye, Edit2, CheckCircle2, MessageSquare, XCircle, GitCompare } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 import { useCountries } from '@/hooks/useCountries';
@@ -22,35 +26,37 @@ import { cn } from '@/lib/utils';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Tooltip, TooltipProvider, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
+import { QuotationStatusHistory } from '@/components/quotation/quotation-status-history';
+import { QuotationBilling } from '@/components/quotation/quotation-billing';
+import { findTransition } from '@/lib/quotation-workflow';
 
-const AGENT_QUOTATION_REQUESTS_KEY = 'itineraryAce_agentQuotationRequests';
-const PLACEHOLDER_AGENT_ID = "agent_default_user"; // Same as in quotation-request-form.tsx
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
 
 export default function MyQuotationRequestsPage() {
   const [myRequests, setMyRequests] = React.useState<QuotationRequest[]>([]);
   const [searchTerm, setSearchTerm] = React.useState('');
+  // A notification links here with `?requestId=`, which opens the list filtered to that request.
+  const requestIdParam = useSearchParams().get('requestId');
+  React.useEffect(() => {
+    if (requestIdParam) setSearchTerm(requestIdParam);
+  }, [requestIdParam]);
   const [isLoading, setIsLoading] = React.useState(true);
   const router = useRouter();
   const { toast } = useToast();
   const { countries, isLoading: isLoadingCountries } = useCountries();
 
-  const [isRevisionModalOpen, setIsRevisionModalOpen] = React.useState(false);
-  const [revisionNotes, setRevisionNotes] = React.useState("");
-  const [currentRequestForRevision, setCurrentRequestForRevision] = React.useState<QuotationRequest | null>(null);
+  // Transitions that need a note (revision request, cancellation) are confirmed in a dialog first.
+  const [noteDialog, setNoteDialog] = React.useState<{ request: QuotationRequest; toStatus: QuotationRequestStatus } | null>(null);
+  const [noteText, setNoteText] = React.useState("");
 
 
-  const loadMyRequests = React.useCallback(() => {
+  const loadMyRequests = React.useCallback(async () => {
     setIsLoading(true);
     try {
-      const storedRequests = localStorage.getItem(AGENT_QUOTATION_REQUESTS_KEY);
-      if (storedRequests) {
-        const parsedRequests: QuotationRequest[] = JSON.parse(storedRequests);
-        const agentSpecificRequests = parsedRequests.filter(req => req.agentId === PLACEHOLDER_AGENT_ID);
-        agentSpecificRequests.sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime());
-        setMyRequests(agentSpecificRequests);
-      } else {
-        setMyRequests([]);
-      }
+      // The API scopes the list to the signed-in agent's agency.
+      const agentSpecificRequests = await apiGet<QuotationRequest[]>(QUOTATION_REQUESTS_API_PATH);
+      agentSpecificRequests.sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime());
+      setMyRequests(agentSpecificRequests);
     } catch (error) {
       console.error("Error loading my quotation requests:", error);
       toast({ title: "Error", description: "Could not load your quotation requests.", variant: "destructive" });
@@ -63,62 +69,45 @@ export default function MyQuotationRequestsPage() {
     loadMyRequests();
   }, [loadMyRequests]);
 
-  const updateRequestInLocalStorage = (updatedRequest: QuotationRequest) => {
-    const updatedRequestsList = myRequests.map(req =>
-      req.id === updatedRequest.id ? updatedRequest : req
-    );
-    // Update the full list in localStorage, not just the agent's
-    const allStoredRequestsString = localStorage.getItem(AGENT_QUOTATION_REQUESTS_KEY);
-    const allStoredRequests: QuotationRequest[] = allStoredRequestsString ? JSON.parse(allStoredRequestsString) : [];
-    const indexInAll = allStoredRequests.findIndex(r => r.id === updatedRequest.id);
-    if (indexInAll > -1) {
-      allStoredRequests[indexInAll] = updatedRequest;
-      localStorage.setItem(AGENT_QUOTATION_REQUESTS_KEY, JSON.stringify(allStoredRequests));
+  const runTransition = async (request: QuotationRequest, toStatus: QuotationRequestStatus, note?: string): Promise<boolean> => {
+    try {
+      const { request: updated } = await apiPost<{ request: QuotationRequest; change: QuotationStatusChange }>(
+        `${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(request.id)}/transitions`,
+        { toStatus, note },
+      );
+      setMyRequests(prev => prev.map(req => req.id === updated.id ? updated : req));
+      return true;
+    } catch (error) {
+      console.error("Error changing quotation request status:", error);
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Could not update the quotation request.", variant: "destructive" });
+      return false;
     }
-    setMyRequests(updatedRequestsList); // Update local state for immediate UI refresh
   };
 
-  const handleRequestRevision = (request: QuotationRequest) => {
-    setCurrentRequestForRevision(request);
-    setRevisionNotes(request.agentRevisionNotes || "");
-    setIsRevisionModalOpen(true);
+  const openNoteDialog = (request: QuotationRequest, toStatus: QuotationRequestStatus) => {
+    setNoteDialog({ request, toStatus });
+    setNoteText(toStatus === "Quoted: Revision Requested" ? request.agentRevisionNotes || "" : "");
   };
 
-  const submitRevisionRequest = () => {
-    if (currentRequestForRevision) {
-      const updatedRequest = {
-        ...currentRequestForRevision,
-        status: "Quoted: Revision Requested" as QuotationRequestStatus,
-        agentRevisionNotes: revisionNotes,
-        version: (currentRequestForRevision.version || 1) + 0.1, // Increment version for revision
-        updatedAt: new Date().toISOString(),
-      };
-      updateRequestInLocalStorage(updatedRequest);
-      toast({ title: "Revision Requested", description: `Your notes for Quotation ID ${currentRequestForRevision.id.slice(-6)} have been sent to the admin.` });
-      setIsRevisionModalOpen(false);
-      setRevisionNotes("");
-      setCurrentRequestForRevision(null);
-    }
+  const submitNoteDialog = async () => {
+    if (!noteDialog) return;
+    const { request, toStatus } = noteDialog;
+    if (!(await runTransition(request, toStatus, noteText))) return;
+    toast(toStatus === "Cancelled"
+      ? { title: "Request Cancelled", description: `Quotation ID ${request.id.slice(-6)} has been cancelled.` }
+      : { title: "Revision Requested", description: `Your notes for Quotation ID ${request.id.slice(-6)} have been sent to the admin.` });
+    setNoteDialog(null);
+    setNoteText("");
   };
 
-  const handleMarkAsReadyForApproval = (request: QuotationRequest) => {
-     const updatedRequest = {
-        ...request,
-        status: "Quoted: Awaiting TA Approval" as QuotationRequestStatus,
-        updatedAt: new Date().toISOString(),
-      };
-      updateRequestInLocalStorage(updatedRequest);
-      toast({ title: "Marked for Approval", description: `Quotation ID ${request.id.slice(-6)} is now awaiting final admin approval.` });
+  const handleMarkAsReadyForApproval = async (request: QuotationRequest) => {
+    if (!(await runTransition(request, "Quoted: Awaiting TA Approval"))) return;
+    toast({ title: "Marked for Approval", description: `Quotation ID ${request.id.slice(-6)} is now awaiting final admin approval.` });
   };
 
-  const handleApproveQuotation = (request: QuotationRequest) => {
-     const updatedRequest = {
-        ...request,
-        status: "Confirmed" as QuotationRequestStatus,
-        updatedAt: new Date().toISOString(),
-      };
-      updateRequestInLocalStorage(updatedRequest);
-      toast({ title: "Quotation Approved!", description: `Quotation ID ${request.id.slice(-6)} has been confirmed.` });
+  const handleApproveQuotation = async (request: QuotationRequest) => {
+    if (!(await runTransition(request, "Confirmed"))) return;
+    toast({ title: "Quotation Approved!", description: `Quotation ID ${request.id.slice(-6)} has been confirmed.` });
   };
 
 
@@ -259,7 +248,7 @@ export default function MyQuotationRequestsPage() {
                                 )}
                                 {req.agentRevisionNotes && ["Quoted: Revision Requested", "Quoted: Revision In Progress"].includes(req.status) && (
                                   <div>
-                                    <p className="font-semibold text-accent">Your Last Revision Request:</p>
+                                    <p className="font-semibold text-accent">Last Revision Request:</p>
                                     <p className="whitespace-pre-wrap text-muted-foreground">{req.agentRevisionNotes}</p>
                                   </div>
                                 )}
@@ -283,7 +272,7 @@ export default function MyQuotationRequestsPage() {
 
                       {(req.status === "Quoted: Waiting for TA Feedback" || req.status === "Quoted: Re-quoted") && (
                         <>
-                          <Button variant="outline" size="xs" onClick={() => handleRequestRevision(req)} className="text-xs h-7 px-2 border-orange-500 text-orange-600 hover:bg-orange-50">
+                          <Button variant="outline" size="xs" onClick={() => openNoteDialog(req, "Quoted: Revision Requested")} className="text-xs h-7 px-2 border-orange-500 text-orange-600 hover:bg-orange-50">
                             <Edit2 className="h-3 w-3 mr-1" /> Request Revision
                           </Button>
                           <Button variant="outline" size="xs" onClick={() => handleMarkAsReadyForApproval(req)} className="text-xs h-7 px-2 border-sky-500 text-sky-600 hover:bg-sky-50">
@@ -296,11 +285,23 @@ export default function MyQuotationRequestsPage() {
                            <Button variant="default" size="xs" onClick={() => handleApproveQuotation(req)} className="text-xs h-7 px-2 bg-green-600 hover:bg-green-700">
                              <CheckCircle2 className="h-3 w-3 mr-1" /> Approve
                            </Button>
-                            <Button variant="outline" size="xs" onClick={() => handleRequestRevision(req)} className="text-xs h-7 px-2 border-orange-500 text-orange-600 hover:bg-orange-50">
+                            <Button variant="outline" size="xs" onClick={() => openNoteDialog(req, "Quoted: Revision Requested")} className="text-xs h-7 px-2 border-orange-500 text-orange-600 hover:bg-orange-50">
                                 <Edit2 className="h-3 w-3 mr-1" /> Further Revision
                             </Button>
                          </>
                        )}
+                      {findTransition(req.status, "Cancelled", 'agent') && (
+                        <Button variant="ghost" size="xs" onClick={() => openNoteDialog(req, "Cancelled")} className="text-xs h-7 px-2 text-destructive hover:bg-destructive/10">
+                          <XCircle className="h-3 w-3 mr-1" /> Cancel
+                        </Button>
+                      )}
+                      <QuotationStatusHistory requestId={req.id} />
+                      <QuotationBilling request={req} canManage={false} />
+                      {(req.version ?? 0) >= 1 && (
+                        <Button variant="ghost" size="icon" className="h-7 w-7" title="Quote Versions & PDFs" onClick={() => router.push(`/itinerary/versions/${req.id}`)}>
+                          <GitCompare className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -309,25 +310,35 @@ export default function MyQuotationRequestsPage() {
           </div>
         )}
       </div>
-      <Dialog open={isRevisionModalOpen} onOpenChange={setIsRevisionModalOpen}>
+      <Dialog open={!!noteDialog} onOpenChange={(open) => { if (!open) setNoteDialog(null); }}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Request Revision for Quotation ID: {currentRequestForRevision?.id.slice(-6)}</DialogTitle>
+            <DialogTitle>
+              {noteDialog?.toStatus === "Cancelled" ? "Cancel" : "Request Revision for"} Quotation ID: {noteDialog?.request.id.slice(-6)}
+            </DialogTitle>
           </DialogHeader>
           <div className="py-4">
-            <Label htmlFor="revision-notes">Your Notes for Admin:</Label>
+            <Label htmlFor="transition-notes">{noteDialog?.toStatus === "Cancelled" ? "Reason for Cancelling:" : "Your Notes for Admin:"}</Label>
             <Textarea
-              id="revision-notes"
-              value={revisionNotes}
-              onChange={(e) => setRevisionNotes(e.target.value)}
-              placeholder="Please specify the changes you'd like, e.g., 'Change hotel in Bangkok to 5-star', 'Add a day trip to Ayutthaya', etc."
+              id="transition-notes"
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+              placeholder={noteDialog?.toStatus === "Cancelled"
+                ? "e.g., 'Client postponed the trip indefinitely.'"
+                : "Please specify the changes you'd like, e.g., 'Change hotel in Bangkok to 5-star', 'Add a day trip to Ayutthaya', etc."}
               rows={5}
               className="mt-1"
             />
           </div>
           <DialogFooter>
-            <DialogClose asChild><Button variant="outline">Cancel</Button></DialogClose>
-            <Button onClick={submitRevisionRequest} disabled={!revisionNotes.trim()}>Send Revision Request</Button>
+            <DialogClose asChild><Button variant="outline">Back</Button></DialogClose>
+            <Button
+              onClick={submitNoteDialog}
+              disabled={!noteText.trim()}
+              variant={noteDialog?.toStatus === "Cancelled" ? "destructive" : "default"}
+            >
+              {noteDialog?.toStatus === "Cancelled" ? "Cancel Request" : "Send Revision Request"}
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -14,9 +14,10 @@
 import Link from 'next/link';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
-import { Briefcase, Route, Users, ListOrdered, LayoutDashboard, UserCog, FilePlus, ClipboardList, Info, FileText } from 'lucide-react';
+import { Briefcase, Route, Users, ListOrdered, UserCog, FilePlus, ClipboardList, Info, FileText } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
+import { AuthButton } from '@/components/auth-button';
 
 interface AgentDashboardCardProps {
   title: string;
@@ -79,10 +80,10 @@ export default function AgentDashboardPage() {
           <AgentDashboardCard
             title="Itinerary Creation Suite"
             description="Craft new itineraries, plan day-by-day activities, and calculate costs for your clients."
-            href="/planner"
+            href="#"
             icon={Route}
-            buttonText="Launch Planner"
             className="lg:col-span-1 bg-accent/5 border-accent/30"
+            disabled
           />
 
           {/* Consolidated Quotation Management Card */}
@@ -136,12 +137,7 @@ export default function AgentDashboardPage() {
         </div>
 
         <div className="mt-10 sm:mt-12 text-center">
-            <Link href="/" passHref>
-                <Button variant="outline">
-                    <LayoutDashboard className="mr-2 h-4 w-4" /> Go to Admin Dashboard (Dev Access)
-                </Button>
-            </Link>
-             <p className="text-xs text-muted-foreground mt-2">Note: In a production app, agents would not typically access the Admin Dashboard.</p>
+            <AuthButton />
         </div>
       </div>
     </main>
@@ -10,6 +10,7 @@
 import * as React from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { Button } from "@/components/ui/button";
 import { AgentUserForm } from '@/components/agent/agent-user-form';
 import type { Agency, AgentProfile } from '@/types/agent';
@@ -21,13 +22,13 @@ import { useAgents } from '@/hooks/useAgents';
 import { useCountries } from '@/hooks/useCountries';
 import { Separator } from '@/components/ui/separator';
 
-const PLACEHOLDER_AGENT_ID = "agent_default_user"; // Placeholder for actual logged-in agent
-
 export default function AgentProfilePage() {
   const router = useRouter();
   const { toast } = useToast();
   const { agents, agencies, isLoading: isLoadingAgentsHook, updateAgent, refreshAgentData } = useAgents();
   const { getCountryById, isLoading: isLoadingCountries } = useCountries();
+  const { data: session } = useSession();
+  const currentAgentId = session?.user?.agentId;
 
   const [currentAgentProfile, setCurrentAgentProfile] = React.useState<AgentProfile | null>(null);
   const [associatedAgency, setAssociatedAgency] = React.useState<Agency | null>(null);
@@ -39,7 +40,7 @@ export default function AgentProfilePage() {
 
   React.useEffect(() => {
     if (!isLoadingAgentsHook && agents.length > 0 && agencies.length > 0) {
-      const agent = agents.find(a => a.id === PLACEHOLDER_AGENT_ID);
+      const agent = agents.find(a => a.id === currentAgentId);
       if (agent) {
         setCurrentAgentProfile(agent);
         const agency = agencies.find(ag => ag.id === agent.agencyId);
@@ -49,7 +50,7 @@ export default function AgentProfilePage() {
         setAssociatedAgency(null);
       }
     }
-  }, [agents, agencies, isLoadingAgentsHook]);
+  }, [agents, agencies, isLoadingAgentsHook, currentAgentId]);
 
   const handleProfileUpdate = (updatedProfileData: AgentProfile) => {
     if (currentAgentProfile) {
@@ -2,52 +2,48 @@
  * @fileoverview This page allows travel agents to submit a new quotation request.
  * It presents a form with fields for client information, trip details (destination, dates,
  * budget), accommodation preferences, activity preferences, and flight requirements.
- * Submitted requests are stored locally using `localStorage`.
+ * Submitted requests are stored in the database through the `/api/quotation-requests` route,
+ * stamped with the signed-in agent and their agency.
  *
  * @bangla এই পৃষ্ঠাটি ট্রাভেল এজেন্টদের একটি নতুন উদ্ধৃতি অনুরোধ জমা দেওয়ার অনুমতি দেয়।
  * এটিতে ক্লায়েন্টের তথ্য, ভ্রমণের বিবরণ (গন্তব্য, তারিখ, বাজেট), আবাসনের পছন্দ,
  * কার্যকলাপের পছন্দ এবং ফ্লাইটের প্রয়োজনীয়তার জন্য ক্ষেত্র সহ একটি ফর্ম উপস্থাপন করা হয়েছে।
- * জমা দেওয়া অনুরোধগুলি স্থানীয়ভাবে `localStorage` ব্যবহার করে সংরক্ষণ করা হয়।
+ * জমা দেওয়া অনুরোধগুলি সাইন-ইন করা এজেন্ট ও তার এজেন্সি সহ `/api/quotation-requests` রুটের
+ * মাধ্যমে ডেটাবেসে সংরক্ষণ করা হয়।
  */
 "use client";
 
 import * as React from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { Button } from "@/components/ui/button";
 import { QuotationRequestForm } from '@/components/agent/quotation-request-form';
 import type { QuotationRequest, Agency } from '@/types/quotation';
 import { generateQuotationIdNumericPart } from '@/types/quotation'; // Import the numeric part generator
 import { useToast } from "@/hooks/use-toast";
+import { apiPost } from '@/lib/api-client';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, FilePlus, LayoutDashboard, Loader2, Ticket } from 'lucide-react';
 import { useAgents } from '@/hooks/useAgents'; 
 
-const AGENT_QUOTATION_REQUESTS_KEY = 'itineraryAce_agentQuotationRequests';
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
 
 export default function AgentQuotationRequestPage() {
   const router = useRouter();
   const { toast } = useToast();
-  const { agents, agencies, isLoading: isLoadingAgentsData, getAgencyById } = useAgents();
-  const placeholderAgentId = "agent_default_user"; 
+  const { agencies, isLoading: isLoadingAgentsData, getAgencyById } = useAgents();
+  const { data: session } = useSession();
+  const currentAgentId = session?.user?.agentId ?? undefined;
+  const currentAgencyId = session?.user?.agencyId ?? undefined;
   const [displayQuotationId, setDisplayQuotationId] = React.useState<string | null>(null);
 
   const getAgencyInitials = React.useCallback((): string => {
     if (isLoadingAgentsData || !agencies.length) {
       return "AGY"; // Default if data is not ready
     }
-    const currentAgent = agents.find(agent => agent.id === placeholderAgentId);
-    let agency: Agency | undefined;
-
-    if (currentAgent && currentAgent.agencyId) {
-      agency = getAgencyById(currentAgent.agencyId);
-    }
-
-    if (!agency && agencies.length > 0) {
-      // Fallback to a known agency or the first one if specific link isn't found
-      agency = agencies.find(a => a.name.includes("Global Travel Experts")) || agencies[0];
-    }
+    const agency: Agency | undefined = currentAgencyId ? getAgencyById(currentAgencyId) : undefined;
 
     if (agency && agency.name) {
         const words = agency.name.split(' ').filter(Boolean);
@@ -55,7 +51,7 @@ export default function AgentQuotationRequestPage() {
         return words.map(word => word[0]).slice(0, 3).join("").toUpperCase();
     }
     return "AGY"; // Final fallback
-  }, [agents, agencies, isLoadingAgentsData, getAgencyById, placeholderAgentId]);
+  }, [agencies, isLoadingAgentsData, getAgencyById, currentAgencyId]);
 
   React.useEffect(() => {
     if (!isLoadingAgentsData && agencies.length > 0 && !displayQuotationId) { 
@@ -66,7 +62,7 @@ export default function AgentQuotationRequestPage() {
   }, [isLoadingAgentsData, agencies, getAgencyInitials, displayQuotationId]);
 
 
-  const handleFormSubmit = (data: Omit<QuotationRequest, 'id'>) => {
+  const handleFormSubmit = async (data: Omit<QuotationRequest, 'id'>) => {
     if (!displayQuotationId) {
       toast({
         title: "Error Generating ID",
@@ -79,7 +75,8 @@ export default function AgentQuotationRequestPage() {
     const newRequest: QuotationRequest = {
       ...data,
       id: displayQuotationId,
-      agentId: placeholderAgentId, 
+      agentId: currentAgentId, // The API stamps the agent and agency from the session regardless
+      agencyId: currentAgencyId,
       requestDate: new Date().toISOString(), 
       updatedAt: new Date().toISOString(), 
       status: data.status || "New Request Submitted", 
@@ -87,10 +84,7 @@ export default function AgentQuotationRequestPage() {
     console.log("Processing quotation request to be sent (saved for admin):", newRequest);
 
     try {
-      const storedRequestsString = localStorage.getItem(AGENT_QUOTATION_REQUESTS_KEY);
-      const existingRequests: QuotationRequest[] = storedRequestsString ? JSON.parse(storedRequestsString) : [];
-      existingRequests.push(newRequest);
-      localStorage.setItem(AGENT_QUOTATION_REQUESTS_KEY, JSON.stringify(existingRequests));
+      await apiPost<QuotationRequest>(QUOTATION_REQUESTS_API_PATH, newRequest);
 
       toast({
         title: "Request Sent to Admin!",
@@ -102,7 +96,7 @@ export default function AgentQuotationRequestPage() {
       console.error("Error saving quotation request:", error);
       toast({
         title: "Submission Error",
-        description: "Could not save your quotation request locally. Please try again.",
+        description: "Could not save your quotation request. Please try again.",
         variant: "destructive",
       });
     }
@@ -163,7 +157,7 @@ export default function AgentQuotationRequestPage() {
             <QuotationRequestForm
               onSubmit={handleFormSubmit}
               onCancel={handleCancel}
-              defaultAgentId={placeholderAgentId}
+              defaultAgentId={currentAgentId}
             />
           </CardContent>
         </Card>
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Route handlers for agencies.
+ * GET returns every agency (agents only get their own); PUT validates the posted array against `AgencySchema`
+ * and replaces the stored list (agents of removed agencies are deleted with them).
+ *
+ * @bangla এজেন্সিগুলির জন্য রুট হ্যান্ডলার।
+ * GET সমস্ত এজেন্সি ফেরত দেয় (এজেন্টরা শুধুমাত্র নিজেরটি পায়); PUT পাঠানো অ্যারেটিকে `AgencySchema`-এর বিপরীতে যাচাই করে
+ * সংরক্ষিত তালিকা প্রতিস্থাপন করে (সরানো এজেন্সির এজেন্টরাও মুছে যায়)।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AgencySchema } from '@/types/agent';
+import { listAgencies, replaceAgencies } from '@/lib/db/agents';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  try {
+    const agencies = await listAgencies();
+    return NextResponse.json(agencies.filter(agency => canAccessAgency(user, agency.id)));
+  } catch (error) {
+    console.error("Failed to list agencies:", error);
+    return NextResponse.json({ error: "Could not load agencies." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  const parsed = z.array(AgencySchema).safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid agency list.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await replaceAgencies(parsed.data));
+  } catch (error) {
+    console.error("Failed to save agencies:", error);
+    return NextResponse.json({ error: "Could not save agencies." }, { status: 500 });
+  }
+}
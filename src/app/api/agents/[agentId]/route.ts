@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Route handlers for a single agent profile: load and save (upsert).
+ * Admins may read and edit any profile; agents may read profiles within their own agency but
+ * only edit their own, and cannot move it to another agency.
+ *
+ * @bangla একটি একক এজেন্ট প্রোফাইলের জন্য রুট হ্যান্ডলার: লোড এবং সংরক্ষণ (আপসার্ট)।
+ * অ্যাডমিনরা যেকোনো প্রোফাইল পড়তে ও সম্পাদনা করতে পারে; এজেন্টরা নিজের এজেন্সির প্রোফাইল পড়তে
+ * পারে কিন্তু শুধুমাত্র নিজেরটি সম্পাদনা করতে পারে, এবং সেটিকে অন্য এজেন্সিতে সরাতে পারে না।
+ */
+import { NextResponse } from 'next/server';
+import { AgentProfileSchema } from '@/types/agent';
+import { getAgentProfile, saveAgentProfile } from '@/lib/db/agents';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+
+type RouteContext = { params: Promise<{ agentId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { agentId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  try {
+    const agent = await getAgentProfile(agentId);
+    // Agents get a 404 rather than a 403 for other agencies, so IDs can't be probed.
+    if (!agent || !canAccessAgency(user, agent.agencyId)) {
+      return NextResponse.json({ error: `Agent ${agentId} not found.` }, { status: 404 });
+    }
+    return NextResponse.json(agent);
+  } catch (error) {
+    console.error(`Failed to load agent ${agentId}:`, error);
+    return NextResponse.json({ error: "Could not load agent." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { agentId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = AgentProfileSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid agent profile.", issues: parsed.error.issues }, { status: 400 });
+  }
+  if (user.role === 'agent' && agentId !== user.agentId) {
+    return NextResponse.json({ error: "You can only edit your own profile." }, { status: 403 });
+  }
+  try {
+    const existing = await getAgentProfile(agentId);
+    if ((existing && !canAccessAgency(user, existing.agencyId)) || !canAccessAgency(user, parsed.data.agencyId)) {
+      return NextResponse.json({ error: "You can only edit agents of your own agency." }, { status: 403 });
+    }
+    return NextResponse.json(await saveAgentProfile({ ...parsed.data, id: agentId }));
+  } catch (error) {
+    console.error(`Failed to save agent ${agentId}:`, error);
+    return NextResponse.json({ error: "Could not save agent." }, { status: 500 });
+  }
+}
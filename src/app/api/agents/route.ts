@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Route handlers for agent profiles.
+ * GET returns agents (optionally filtered by `?agencyId=`; agents only ever get their own
+ * agency's); PUT validates the posted array against `AgentProfileSchema` and replaces the stored list.
+ *
+ * @bangla এজেন্ট প্রোফাইলগুলির জন্য রুট হ্যান্ডলার।
+ * GET এজেন্টদের ফেরত দেয় (ঐচ্ছিকভাবে `?agencyId=` দ্বারা ফিল্টার করা; এজেন্টরা শুধুমাত্র নিজের
+ * এজেন্সির এজেন্টদের পায়); PUT পাঠানো অ্যারেটিকে
+ * `AgentProfileSchema`-এর বিপরীতে যাচাই করে সংরক্ষিত তালিকা প্রতিস্থাপন করে।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AgentProfileSchema } from '@/types/agent';
+import { listAgentProfiles, replaceAgentProfiles } from '@/lib/db/agents';
+import { getSessionUser } from '@/lib/api-auth';
+
+export async function GET(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const requestedAgencyId = new URL(request.url).searchParams.get('agencyId') || undefined;
+  const agencyId = user.role === 'agent' ? user.agencyId ?? undefined : requestedAgencyId;
+  try {
+    return NextResponse.json(await listAgentProfiles({ agencyId }));
+  } catch (error) {
+    console.error("Failed to list agents:", error);
+    return NextResponse.json({ error: "Could not load agents." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  const parsed = z.array(AgentProfileSchema).safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid agent list.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await replaceAgentProfiles(parsed.data));
+  } catch (error) {
+    console.error("Failed to save agents:", error);
+    return NextResponse.json({ error: "Could not save agents. Make sure every agent belongs to an existing agency." }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Admin route handlers for the booking operations dashboard. GET lists the upcoming
+ * trips with items still to book; POST sets one booking status on many items across trips and
+ * answers with the refreshed list.
+ *
+ * @bangla বুকিং অপারেশনস ড্যাশবোর্ডের জন্য অ্যাডমিন রুট হ্যান্ডলার। GET এখনও বুক করার আইটেম থাকা আসন্ন ভ্রমণগুলির
+ * তালিকা দেয়; POST একাধিক ভ্রমণের অনেক আইটেমে একটি বুকিং স্ট্যাটাস সেট করে এবং হালনাগাদ তালিকা ফেরত দেয়।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { BOOKING_STATUSES } from '@/types/itinerary';
+import { listBookingOperations, updateBookingStatuses } from '@/lib/booking-operations';
+
+const BulkStatusUpdateSchema = z.object({
+  items: z.array(z.object({ itineraryId: z.string().min(1), itemId: z.string().min(1) })).min(1).max(500),
+  status: z.enum(BOOKING_STATUSES),
+});
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listBookingOperations());
+  } catch (error) {
+    console.error("Failed to list booking operations:", error);
+    return NextResponse.json({ error: "Could not load the booking operations." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const parsed = BulkStatusUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid booking status update.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    const result = await updateBookingStatuses(parsed.data.items, parsed.data.status);
+    return NextResponse.json({ ...result, trips: await listBookingOperations() });
+  } catch (error) {
+    console.error("Failed to update booking statuses:", error);
+    return NextResponse.json({ error: "Could not update the booking statuses." }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Admin route handler that retries one outbox message. POST gives a pending or
+ * failed message a fresh set of attempts, tries it at once and answers with the updated message.
+ *
+ * @bangla একটি আউটবক্স বার্তা আবার চেষ্টা করার অ্যাডমিন রুট হ্যান্ডলার। POST একটি বাকি বা ব্যর্থ বার্তাকে নতুন
+ * করে চেষ্টার সুযোগ দেয়, সঙ্গে সঙ্গে চেষ্টা করে এবং হালনাগাদ বার্তাটি ফেরত দেয়।
+ */
+import { NextResponse } from 'next/server';
+import { getOutboxEmail } from '@/lib/db/email-outbox';
+import { retryEmail } from '@/lib/email-service';
+
+type RouteContext = { params: Promise<{ emailId: string }> };
+
+export async function POST(_request: Request, { params }: RouteContext) {
+  const { emailId } = await params;
+  try {
+    const email = await getOutboxEmail(emailId);
+    if (!email) {
+      return NextResponse.json({ error: `Email ${emailId} not found.` }, { status: 404 });
+    }
+    if (email.status === 'sent') {
+      return NextResponse.json({ error: "This email has already been sent." }, { status: 409 });
+    }
+    await retryEmail(emailId);
+    return NextResponse.json(await getOutboxEmail(emailId));
+  } catch (error) {
+    console.error(`Failed to retry email ${emailId}:`, error);
+    return NextResponse.json({ error: "Could not retry the email." }, { status: 500 });
+  }
+}
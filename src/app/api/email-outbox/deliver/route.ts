@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Admin route handler that runs one delivery of the email outbox: every pending
+ * message whose next attempt is due is handed to the transport. Meant to be called by a scheduler
+ * every few minutes; answers with how many were sent, will be retried and were given up.
+ *
+ * @bangla ইমেল আউটবক্সের একটি ডেলিভারি চালানোর অ্যাডমিন রুট হ্যান্ডলার: যে বাকি বার্তাগুলির পরবর্তী চেষ্টার সময়
+ * হয়েছে সেগুলি ট্রান্সপোর্টে হস্তান্তর করা হয়। কয়েক মিনিট পরপর একটি শিডিউলার থেকে ডাকার জন্য; কতগুলি পাঠানো হয়েছে,
+ * আবার চেষ্টা করা হবে এবং বাদ দেওয়া হয়েছে তা জানায়।
+ */
+import { NextResponse } from 'next/server';
+import { deliverDueEmails } from '@/lib/email-service';
+
+export async function POST() {
+  try {
+    return NextResponse.json(await deliverDueEmails());
+  } catch (error) {
+    console.error("Failed to deliver outbox emails:", error);
+    return NextResponse.json({ error: "Could not deliver the outbox emails." }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Admin route handler for the email outbox. GET lists the newest messages, optionally
+ * only those with `?status=` pending, sent or failed.
+ *
+ * @bangla ইমেল আউটবক্সের জন্য অ্যাডমিন রুট হ্যান্ডলার। GET সবচেয়ে নতুন বার্তাগুলির তালিকা দেয়, ঐচ্ছিকভাবে শুধুমাত্র
+ * `?status=` pending, sent বা failed থাকা বার্তাগুলি।
+ */
+import { NextResponse } from 'next/server';
+import { EMAIL_STATUSES, type EmailStatus } from '@/types/email';
+import { listOutboxEmails } from '@/lib/db/email-outbox';
+
+export async function GET(request: Request) {
+  const status = new URL(request.url).searchParams.get('status') || undefined;
+  if (status && !EMAIL_STATUSES.includes(status as EmailStatus)) {
+    return NextResponse.json({ error: `Unknown email status "${status}".` }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await listOutboxEmails({ status: status as EmailStatus | undefined }));
+  } catch (error) {
+    console.error("Failed to list outbox emails:", error);
+    return NextResponse.json({ error: "Could not load the email outbox." }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Loads the exchange rates and conversion markups that were in effect on a date
+ * (e.g. `/history/2025-07-01`): the latest table recorded on or before it.
+ *
+ * @bangla একটি তারিখে (যেমন `/history/2025-07-01`) কার্যকর বিনিময় হার ও রূপান্তর মার্কআপ লোড করে:
+ * সেই তারিখে বা তার আগে সংরক্ষিত সর্বশেষ টেবিল।
+ */
+import { NextResponse } from 'next/server';
+import { getExchangeRateTableOn } from '@/lib/db/exchange-rates';
+
+type RouteContext = { params: Promise<{ date: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { date } = await params;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: `"${date}" is not a yyyy-MM-dd date.` }, { status: 400 });
+  }
+  try {
+    const table = await getExchangeRateTableOn(date);
+    if (!table) {
+      return NextResponse.json({ error: `No exchange rates were recorded on or before ${date}.` }, { status: 404 });
+    }
+    return NextResponse.json(table);
+  } catch (error) {
+    console.error(`Failed to load exchange rates for ${date}:`, error);
+    return NextResponse.json({ error: "Could not load exchange rates." }, { status: 500 });
+  }
+}
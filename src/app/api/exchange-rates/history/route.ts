@@ -0,0 +1,16 @@
+/**
+ * @fileoverview Lists the dates a dated exchange-rate table was recorded on, newest first.
+ *
+ * @bangla যে তারিখগুলিতে তারিখযুক্ত বিনিময় হার টেবিল সংরক্ষিত হয়েছে সেগুলির তালিকা দেয়, নতুনটি প্রথমে।
+ */
+import { NextResponse } from 'next/server';
+import { listExchangeRateTableDates } from '@/lib/db/exchange-rates';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listExchangeRateTableDates());
+  } catch (error) {
+    console.error("Failed to list exchange rate tables:", error);
+    return NextResponse.json({ error: "Could not load exchange rate history." }, { status: 500 });
+  }
+}
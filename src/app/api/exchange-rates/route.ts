@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Route handlers for exchange-rate data.
+ * GET returns the rates, specific markups, global markup and last API fetch time in one
+ * payload; PUT persists whichever of those fields are present in the body.
+ *
+ * @bangla বিনিময় হার ডেটার জন্য রুট হ্যান্ডলার।
+ * GET একটি পেলোডে হার, নির্দিষ্ট মার্কআপ, গ্লোবাল মার্কআপ এবং সর্বশেষ API আনার সময় ফেরত দেয়;
+ * PUT বডিতে উপস্থিত ক্ষেত্রগুলি সংরক্ষণ করে।
+ */
+import { NextResponse } from 'next/server';
+import { getExchangeRateState, saveExchangeRateState, type ExchangeRateState } from '@/lib/db/exchange-rates';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getExchangeRateState());
+  } catch (error) {
+    console.error("Failed to load exchange rates:", error);
+    return NextResponse.json({ error: "Could not load exchange rates." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  const update = await request.json().catch(() => null) as Partial<ExchangeRateState> | null;
+  if (!update || typeof update !== 'object'
+      || (update.rates !== undefined && !Array.isArray(update.rates))
+      || (update.specificMarkupRates !== undefined && !Array.isArray(update.specificMarkupRates))
+      || (update.globalMarkupPercentage !== undefined && (typeof update.globalMarkupPercentage !== 'number' || update.globalMarkupPercentage < 0))) {
+    return NextResponse.json({ error: "Invalid exchange rate update." }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await saveExchangeRateState(update));
+  } catch (error) {
+    console.error("Failed to save exchange rates:", error);
+    return NextResponse.json({ error: "Could not save exchange rates." }, { status: 500 });
+  }
+}
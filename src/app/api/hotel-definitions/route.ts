@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Route handlers for master hotel definitions.
+ * GET returns every hotel; PUT replaces the stored list with the posted array.
+ *
+ * @bangla মাস্টার হোটেল সংজ্ঞার জন্য রুট হ্যান্ডলার।
+ * GET সমস্ত হোটেল ফেরত দেয়; PUT সংরক্ষিত তালিকাকে পাঠানো অ্যারে দিয়ে প্রতিস্থাপন করে।
+ */
+import { NextResponse } from 'next/server';
+import type { HotelDefinition } from '@/types/itinerary';
+import { listHotelDefinitions, replaceHotelDefinitions } from '@/lib/db/hotel-definitions';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listHotelDefinitions());
+  } catch (error) {
+    console.error("Failed to list hotel definitions:", error);
+    return NextResponse.json({ error: "Could not load hotel definitions." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  const hotels = await request.json().catch(() => null) as HotelDefinition[] | null;
+  if (!Array.isArray(hotels) || hotels.some(h => !h?.id || !h.name || !h.countryId || !h.province || !Array.isArray(h.roomTypes))) {
+    return NextResponse.json({ error: "Request body must be an array of hotel definitions." }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await replaceHotelDefinitions(hotels));
+  } catch (error) {
+    console.error("Failed to save hotel definitions:", error);
+    return NextResponse.json({ error: "Could not save hotel definitions." }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Admin route handler that downloads an itinerary's booking documents as a zip:
+ * `vouchers/` holds one client voucher per confirmed item, `service-orders/` one order per
+ * supplier. Numbers are assigned on the first download and reused afterwards.
+ *
+ * @bangla অ্যাডমিন রুট হ্যান্ডলার যা একটি ভ্রমণপথের বুকিং ডকুমেন্টগুলি একটি zip হিসাবে ডাউনলোড করে:
+ * `vouchers/`-এ প্রতিটি নিশ্চিত আইটেমের জন্য একটি ক্লায়েন্ট ভাউচার, `service-orders/`-এ প্রতিটি সরবরাহকারীর জন্য
+ * একটি অর্ডার থাকে। প্রথম ডাউনলোডে নম্বর দেওয়া হয় এবং পরে সেগুলিই ব্যবহৃত হয়।
+ */
+import { NextResponse } from 'next/server';
+import { getItinerary } from '@/lib/db/itineraries';
+import { buildBookingDocumentsZip } from '@/lib/booking-documents';
+
+type RouteContext = { params: Promise<{ itineraryId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { itineraryId } = await params;
+  try {
+    const tripData = await getItinerary(itineraryId);
+    if (!tripData) {
+      return NextResponse.json({ error: `Itinerary ${itineraryId} not found.` }, { status: 404 });
+    }
+    const zip = await buildBookingDocumentsZip(tripData);
+    if (!zip) {
+      return NextResponse.json({ error: "No item of this itinerary is confirmed yet." }, { status: 409 });
+    }
+    return new NextResponse(new Uint8Array(zip.content), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${zip.fileName}"`,
+        'Content-Length': String(zip.content.length),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to produce the booking documents of itinerary ${itineraryId}:`, error);
+    return NextResponse.json({ error: "Could not produce the booking documents." }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Admin route handler that downloads the rooming list of one hotel of an itinerary,
+ * `?hotelId=<HOTEL_ID>`, as CSV (`format=csv`, the default) or as a PDF to print (`format=pdf`).
+ *
+ * @bangla অ্যাডমিন রুট হ্যান্ডলার যা একটি ভ্রমণপথের একটি হোটেলের রুমিং তালিকা, `?hotelId=<HOTEL_ID>`, CSV
+ * (`format=csv`, ডিফল্ট) বা মুদ্রণের জন্য PDF (`format=pdf`) হিসাবে ডাউনলোড করে।
+ */
+import { NextResponse } from 'next/server';
+import { getItinerary } from '@/lib/db/itineraries';
+import { listHotelDefinitions } from '@/lib/db/hotel-definitions';
+import { getRoomingLists, roomingListToCsv } from '@/lib/rooming';
+import { renderRoomingListPdf } from '@/lib/booking-pdf';
+import { getBookingReference } from '@/lib/booking-details';
+import { redactTripTravelers } from '@/lib/travelers';
+
+type RouteContext = { params: Promise<{ itineraryId: string }> };
+
+const safeFileName = (name: string) => name.replace(/[^A-Za-z0-9_.-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { itineraryId } = await params;
+  const searchParams = new URL(request.url).searchParams;
+  const hotelId = searchParams.get('hotelId');
+  const format = searchParams.get('format') ?? 'csv';
+  if (!hotelId || (format !== 'csv' && format !== 'pdf')) {
+    return NextResponse.json({ error: "Give a hotelId and a format of csv or pdf." }, { status: 400 });
+  }
+  try {
+    const storedTripData = await getItinerary(itineraryId);
+    if (!storedTripData) {
+      return NextResponse.json({ error: `Itinerary ${itineraryId} not found.` }, { status: 404 });
+    }
+    // The list goes to the hotel, so it carries only what a supplier may see of each guest.
+    const tripData = redactTripTravelers(storedTripData, 'supplier');
+    const list = getRoomingLists(tripData, await listHotelDefinitions()).find(candidate => candidate.hotelId === hotelId);
+    if (!list) {
+      return NextResponse.json({ error: `Itinerary ${itineraryId} has no stay at hotel ${hotelId}.` }, { status: 404 });
+    }
+    const fileName = `Rooming-List-${safeFileName(list.hotelName)}-${safeFileName(getBookingReference(tripData))}.${format}`;
+    const content = format === 'pdf' ? new Uint8Array(await renderRoomingListPdf(tripData, list)) : new TextEncoder().encode(roomingListToCsv(list));
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': format === 'pdf' ? 'application/pdf' : 'text/csv; charset=utf-8',
+        // The PDF opens in the browser, ready to print; the CSV is saved.
+        'Content-Disposition': `${format === 'pdf' ? 'inline' : 'attachment'}; filename="${fileName}"`,
+        'Content-Length': String(content.length),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to produce a rooming list of itinerary ${itineraryId}:`, error);
+    return NextResponse.json({ error: "Could not produce the rooming list." }, { status: 500 });
+  }
+}
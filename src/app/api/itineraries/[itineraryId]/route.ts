@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Route handlers for a single itinerary: load, save (upsert) and delete.
+ * Agents can only load itineraries made for a quotation request of their own agency, and get
+ * the travelers without the details their role may not read (see `@/lib/travelers`).
+ *
+ * @bangla একটি একক ভ্রমণপথের জন্য রুট হ্যান্ডলার: লোড, সংরক্ষণ (আপসার্ট) এবং মুছে ফেলা।
+ * এজেন্টরা শুধুমাত্র নিজের এজেন্সির উদ্ধৃতি অনুরোধের জন্য তৈরি ভ্রমণপথ লোড করতে পারে, এবং ভ্রমণকারীদের
+ * সেই বিবরণ ছাড়া পায় যা তাদের ভূমিকা পড়তে পারে না (`@/lib/travelers` দেখুন)।
+ */
+import { NextResponse } from 'next/server';
+import type { TripData } from '@/types/itinerary';
+import { getItinerary, saveItinerary, deleteItinerary } from '@/lib/db/itineraries';
+import { getQuotationRequest } from '@/lib/db/quotation-requests';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+import { redactTripTravelers } from '@/lib/travelers';
+
+type RouteContext = { params: Promise<{ itineraryId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { itineraryId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  try {
+    const tripData = await getItinerary(itineraryId);
+    // An itinerary belongs to the agency of its quotation request; other agencies get 404, as for the request itself.
+    const quotationRequest = user.role !== 'admin' && tripData?.quotationRequestId ? await getQuotationRequest(tripData.quotationRequestId) : null;
+    if (!tripData || !canAccessAgency(user, quotationRequest?.agencyId)) {
+      return NextResponse.json({ error: `Itinerary ${itineraryId} not found.` }, { status: 404 });
+    }
+    return NextResponse.json(redactTripTravelers(tripData, user.role));
+  } catch (error) {
+    console.error(`Failed to load itinerary ${itineraryId}:`, error);
+    return NextResponse.json({ error: "Could not load itinerary." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { itineraryId } = await params;
+  const tripData = await request.json().catch(() => null) as TripData | null;
+  if (!tripData?.settings || !tripData.pax || !tripData.days) {
+    return NextResponse.json({ error: "Request body must be a complete itinerary." }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await saveItinerary({ ...tripData, id: itineraryId }));
+  } catch (error) {
+    console.error(`Failed to save itinerary ${itineraryId}:`, error);
+    return NextResponse.json({ error: "Could not save itinerary." }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { itineraryId } = await params;
+  try {
+    const deleted = await deleteItinerary(itineraryId);
+    if (!deleted) {
+      return NextResponse.json({ error: `Itinerary ${itineraryId} not found.` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(`Failed to delete itinerary ${itineraryId}:`, error);
+    return NextResponse.json({ error: "Could not delete itinerary." }, { status: 500 });
+  }
+}
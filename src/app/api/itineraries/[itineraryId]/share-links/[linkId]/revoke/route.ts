@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Revokes a client share link. The link stops opening at once, even before it
+ * expires, and stays listed with its open history.
+ *
+ * @bangla একটি ক্লায়েন্ট শেয়ার লিঙ্ক বাতিল করে। মেয়াদ শেষ হওয়ার আগেই লিঙ্কটি সঙ্গে সঙ্গে খোলা বন্ধ হয়ে যায়,
+ * এবং খোলার ইতিহাস সহ তালিকায় থেকে যায়।
+ */
+import { NextResponse } from 'next/server';
+import { getShareLink, revokeShareLink } from '@/lib/db/share-links';
+import { toShareLink } from '@/lib/share-links';
+
+type RouteContext = { params: Promise<{ itineraryId: string; linkId: string }> };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { itineraryId, linkId } = await params;
+  try {
+    const link = await getShareLink(linkId);
+    if (!link || link.itineraryId !== itineraryId) {
+      return NextResponse.json({ error: `Share link ${linkId} not found.` }, { status: 404 });
+    }
+    const revoked = await revokeShareLink(linkId);
+    return NextResponse.json(toShareLink(revoked ?? link, new URL(request.url).origin));
+  } catch (error) {
+    console.error(`Failed to revoke share link ${linkId}:`, error);
+    return NextResponse.json({ error: "Could not revoke the share link." }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Admin route handlers for an itinerary's client share links. GET lists them with
+ * their signed URLs and when each was opened; POST issues a new one. Costs are computed in the
+ * browser, so an itinerary or price link freezes the snapshot the admin's view priced; a quote
+ * version link points at the `QuoteVersion` the agent was sent.
+ *
+ * @bangla একটি ভ্রমণপথের ক্লায়েন্ট শেয়ার লিঙ্কগুলির জন্য অ্যাডমিন রুট হ্যান্ডলার। GET সেগুলিকে স্বাক্ষরিত URL
+ * এবং প্রতিটি কখন খোলা হয়েছে তা সহ তালিকা দেয়; POST একটি নতুন লিঙ্ক দেয়। খরচ ব্রাউজারে গণনা করা হয়, তাই
+ * একটি ভ্রমণপথ বা মূল্যের লিঙ্ক অ্যাডমিনের ভিউ যে স্ন্যাপশটের মূল্য নির্ধারণ করেছে তা স্থির করে; একটি উদ্ধৃতি
+ * সংস্করণের লিঙ্ক এজেন্টকে পাঠানো `QuoteVersion`-কে নির্দেশ করে।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { addDays } from 'date-fns';
+import { MAX_SHARE_LINK_DAYS, SHARE_LINK_SCOPES } from '@/types/sharing';
+import { TripDataSchema, CostSummarySchema } from '@/types/itinerary-schemas';
+import type { CostSummary, TripData } from '@/types/itinerary';
+import { getItinerary } from '@/lib/db/itineraries';
+import { getQuoteVersion } from '@/lib/db/quotation-requests';
+import { createShareLink, listShareLinks } from '@/lib/db/share-links';
+import { getSessionUser } from '@/lib/api-auth';
+import { getBlockingPricingIssues } from '@/lib/pricing-issues';
+import { toShareLink } from '@/lib/share-links';
+import { redactTripTravelers } from '@/lib/travelers';
+
+type RouteContext = { params: Promise<{ itineraryId: string }> };
+
+const CreateShareLinkSchema = z.object({
+  scope: z.enum(SHARE_LINK_SCOPES),
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_LINK_DAYS),
+  quoteVersion: z.number().optional(),
+  countryNames: z.record(z.string()).default({}),
+  snapshot: z.object({ tripData: TripDataSchema, costSummary: CostSummarySchema }).optional(),
+});
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { itineraryId } = await params;
+  try {
+    const links = await listShareLinks(itineraryId);
+    const origin = new URL(request.url).origin;
+    return NextResponse.json(links.map(link => toShareLink(link, origin)));
+  } catch (error) {
+    console.error(`Failed to list share links of itinerary ${itineraryId}:`, error);
+    return NextResponse.json({ error: "Could not load share links." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { itineraryId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = CreateShareLinkSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid share link.", issues: parsed.error.issues }, { status: 400 });
+  }
+  const { scope, expiresInDays, quoteVersion, countryNames } = parsed.data;
+  const snapshot = parsed.data.snapshot as { tripData: TripData; costSummary: CostSummary } | undefined;
+  try {
+    const tripData = await getItinerary(itineraryId);
+    if (!tripData) {
+      return NextResponse.json({ error: `Itinerary ${itineraryId} not found.` }, { status: 404 });
+    }
+
+    if (scope === 'quoteVersion') {
+      const sentVersion = tripData.quotationRequestId && quoteVersion !== undefined
+        ? await getQuoteVersion(tripData.quotationRequestId, quoteVersion)
+        : null;
+      if (!sentVersion || sentVersion.itineraryId !== itineraryId) {
+        return NextResponse.json({ error: "That quote version was not sent for this itinerary." }, { status: 400 });
+      }
+    } else {
+      if (!snapshot || snapshot.tripData.id !== itineraryId) {
+        return NextResponse.json({ error: "A share link needs the priced itinerary being shared." }, { status: 400 });
+      }
+      const blockingIssues = scope === 'withCosts' ? getBlockingPricingIssues(snapshot.costSummary) : [];
+      if (blockingIssues.length > 0) {
+        return NextResponse.json(
+          { error: `The prices have ${blockingIssues.length} pricing error(s). Fix them before sharing prices.`, pricingIssues: blockingIssues },
+          { status: 400 },
+        );
+      }
+    }
+
+    const link = await createShareLink({
+      id: `share_${crypto.randomUUID()}`,
+      itineraryId,
+      scope,
+      quotationRequestId: tripData.quotationRequestId,
+      quoteVersion: scope === 'quoteVersion' ? quoteVersion : undefined,
+      snapshot: scope === 'quoteVersion' || !snapshot ? undefined : { ...snapshot, tripData: redactTripTravelers(snapshot.tripData, 'client') },
+      countryNames,
+      expiresAt: addDays(new Date(), expiresInDays).toISOString(),
+      createdByName: user.name ?? undefined,
+    }, user.id);
+    return NextResponse.json(toShareLink(link, new URL(request.url).origin), { status: 201 });
+  } catch (error) {
+    console.error(`Failed to create a share link for itinerary ${itineraryId}:`, error);
+    return NextResponse.json({ error: "Could not create the share link." }, { status: 500 });
+  }
+}
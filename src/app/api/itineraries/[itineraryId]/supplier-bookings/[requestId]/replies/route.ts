@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Admin route handler that records a supplier's reply to a booking request: each
+ * answered item becomes `Confirmed` (with the supplier's confirmation number) or `Unavailable`.
+ *
+ * @bangla অ্যাডমিন রুট হ্যান্ডলার যা একটি বুকিং অনুরোধে সরবরাহকারীর উত্তর রেকর্ড করে: উত্তর দেওয়া প্রতিটি আইটেম
+ * `Confirmed` (সরবরাহকারীর নিশ্চিতকরণ নম্বর সহ) অথবা `Unavailable` হয়।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SUPPLIER_REPLY_STATUSES } from '@/types/booking';
+import { getItinerary } from '@/lib/db/itineraries';
+import { getSessionUser } from '@/lib/api-auth';
+import { getSupplierBookingGroups, recordSupplierReplies } from '@/lib/supplier-bookings';
+
+type RouteContext = { params: Promise<{ itineraryId: string; requestId: string }> };
+
+const RecordRepliesSchema = z.object({
+  replies: z.array(z.object({
+    itemId: z.string().min(1),
+    status: z.enum(SUPPLIER_REPLY_STATUSES),
+    confirmationRef: z.string().max(200).optional(),
+    note: z.string().max(2000).optional(),
+  })).min(1),
+});
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { itineraryId, requestId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = RecordRepliesSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid supplier reply.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    const tripData = await getItinerary(itineraryId);
+    if (!tripData) {
+      return NextResponse.json({ error: `Itinerary ${itineraryId} not found.` }, { status: 404 });
+    }
+    const result = await recordSupplierReplies(tripData, requestId, parsed.data.replies, user.name ?? undefined);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ tripData: result.tripData, groups: await getSupplierBookingGroups(result.tripData) });
+  } catch (error) {
+    console.error(`Failed to record replies to booking request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not record the supplier's reply." }, { status: 500 });
+  }
+}
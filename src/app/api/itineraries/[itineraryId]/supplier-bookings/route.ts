@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Admin route handlers for booking an itinerary with its suppliers. GET lists the
+ * items grouped by supplier with the requests sent to each; POST emails one supplier a booking
+ * request for their open items and answers with the updated itinerary and groups.
+ *
+ * @bangla একটি ভ্রমণপথ তার সরবরাহকারীদের কাছে বুক করার জন্য অ্যাডমিন রুট হ্যান্ডলার। GET সরবরাহকারী অনুযায়ী
+ * গ্রুপ করা আইটেমগুলি প্রত্যেককে পাঠানো অনুরোধ সহ তালিকা দেয়; POST একজন সরবরাহকারীকে তাদের খোলা আইটেমগুলির
+ * জন্য একটি বুকিং অনুরোধ ইমেল করে এবং হালনাগাদ ভ্রমণপথ ও গ্রুপগুলি ফেরত দেয়।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getItinerary } from '@/lib/db/itineraries';
+import { getSessionUser } from '@/lib/api-auth';
+import { getSupplierBookingGroups, sendSupplierBookingRequest } from '@/lib/supplier-bookings';
+
+type RouteContext = { params: Promise<{ itineraryId: string }> };
+
+const SendBookingRequestSchema = z.object({
+  supplierId: z.string().min(1),
+  message: z.string().trim().max(2000).optional(),
+});
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { itineraryId } = await params;
+  try {
+    const tripData = await getItinerary(itineraryId);
+    if (!tripData) {
+      return NextResponse.json({ error: `Itinerary ${itineraryId} not found.` }, { status: 404 });
+    }
+    return NextResponse.json(await getSupplierBookingGroups(tripData));
+  } catch (error) {
+    console.error(`Failed to load the supplier bookings of itinerary ${itineraryId}:`, error);
+    return NextResponse.json({ error: "Could not load supplier bookings." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { itineraryId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = SendBookingRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid booking request.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    const tripData = await getItinerary(itineraryId);
+    if (!tripData) {
+      return NextResponse.json({ error: `Itinerary ${itineraryId} not found.` }, { status: 404 });
+    }
+    const result = await sendSupplierBookingRequest(tripData, parsed.data.supplierId, user, parsed.data.message || undefined);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(
+      { tripData: result.tripData, groups: await getSupplierBookingGroups(result.tripData) },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error(`Failed to send a booking request for itinerary ${itineraryId}:`, error);
+    return NextResponse.json({ error: "Could not send the booking request." }, { status: 500 });
+  }
+}
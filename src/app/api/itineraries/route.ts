@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Route handlers for the itinerary collection.
+ * GET returns the lightweight `ItineraryMetadata` index; POST saves a complete `TripData`.
+ *
+ * @bangla ভ্রমণপথ সংগ্রহের জন্য রুট হ্যান্ডলার।
+ * GET হালকা `ItineraryMetadata` সূচক ফেরত দেয়; POST একটি সম্পূর্ণ `TripData` সংরক্ষণ করে।
+ */
+import { NextResponse } from 'next/server';
+import type { TripData } from '@/types/itinerary';
+import { listItineraryMetadata, saveItinerary } from '@/lib/db/itineraries';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listItineraryMetadata());
+  } catch (error) {
+    console.error("Failed to list itineraries:", error);
+    return NextResponse.json({ error: "Could not load itineraries." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const tripData = await request.json().catch(() => null) as TripData | null;
+  if (!tripData?.id || !tripData.settings || !tripData.pax || !tripData.days) {
+    return NextResponse.json({ error: "Request body must be a complete itinerary." }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await saveItinerary(tripData), { status: 201 });
+  } catch (error) {
+    console.error("Failed to save itinerary:", error);
+    return NextResponse.json({ error: "Could not save itinerary." }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview Route handler for the one-time localStorage importer.
+ * POST takes the raw `itineraryAce*` values collected in the browser and returns an import
+ * report. With `dryRun: true` nothing is written; otherwise the accepted records are stored.
+ *
+ * @bangla এককালীন localStorage ইম্পোর্টারের জন্য রুট হ্যান্ডলার।
+ * POST ব্রাউজারে সংগৃহীত কাঁচা `itineraryAce*` মানগুলি নেয় এবং একটি ইম্পোর্ট রিপোর্ট ফেরত দেয়।
+ * `dryRun: true` হলে কিছুই লেখা হয় না; অন্যথায় গৃহীত রেকর্ডগুলি সংরক্ষণ করা হয়।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { runLocalStorageImport } from '@/lib/db/local-storage-import';
+
+const ImportRequestSchema = z.object({
+  entries: z.record(z.string()),
+  dryRun: z.boolean(),
+  overwriteConflicts: z.boolean().optional(),
+});
+
+export async function POST(request: Request) {
+  const parsed = ImportRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid import request.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await runLocalStorageImport(parsed.data));
+  } catch (error) {
+    console.error("Failed to import localStorage data:", error);
+    return NextResponse.json({ error: "Could not import the browser data." }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Route handlers for a single markup rule: save and delete.
+ *
+ * @bangla একটি একক মার্কআপ নিয়মের জন্য রুট হ্যান্ডলার: সংরক্ষণ এবং মুছে ফেলা।
+ */
+import { NextResponse } from 'next/server';
+import { MarkupRuleSchema } from '@/types/pricing';
+import { deleteMarkupRule, saveMarkupRule } from '@/lib/db/markup-rules';
+
+type RouteContext = { params: Promise<{ ruleId: string }> };
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { ruleId } = await params;
+  const parsed = MarkupRuleSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid markup rule.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await saveMarkupRule({ ...parsed.data, id: ruleId }));
+  } catch (error) {
+    console.error(`Failed to save markup rule ${ruleId}:`, error);
+    return NextResponse.json({ error: "Could not save markup rule." }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { ruleId } = await params;
+  try {
+    const deleted = await deleteMarkupRule(ruleId);
+    if (!deleted) {
+      return NextResponse.json({ error: `Markup rule ${ruleId} not found.` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(`Failed to delete markup rule ${ruleId}:`, error);
+    return NextResponse.json({ error: "Could not delete markup rule." }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Route handlers for the markup rule collection.
+ * GET lists the rules (agents only receive the rules for everyone and for their own agency, which
+ * their browser needs to show sell prices); POST creates a rule validated against `MarkupRuleSchema`.
+ *
+ * @bangla মার্কআপ নিয়ম সংগ্রহের জন্য রুট হ্যান্ডলার।
+ * GET নিয়মগুলির তালিকা দেয় (এজেন্টরা শুধুমাত্র সবার জন্য এবং নিজের এজেন্সির নিয়মগুলি পায়, যা তাদের
+ * ব্রাউজারে বিক্রয় মূল্য দেখাতে প্রয়োজন); POST `MarkupRuleSchema`-এর বিপরীতে যাচাই করা একটি নিয়ম তৈরি করে।
+ */
+import { NextResponse } from 'next/server';
+import { MarkupRuleSchema } from '@/types/pricing';
+import { listMarkupRules, saveMarkupRule } from '@/lib/db/markup-rules';
+import { getSessionUser } from '@/lib/api-auth';
+
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  if (user.role === 'agent' && !user.agencyId) {
+    return NextResponse.json({ error: "Your account is not linked to an agency." }, { status: 403 });
+  }
+  try {
+    return NextResponse.json(await listMarkupRules({ agencyId: user.role === 'agent' ? user.agencyId ?? undefined : undefined }));
+  } catch (error) {
+    console.error("Failed to list markup rules:", error);
+    return NextResponse.json({ error: "Could not load markup rules." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const parsed = MarkupRuleSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid markup rule.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await saveMarkupRule(parsed.data), { status: 201 });
+  } catch (error) {
+    console.error("Failed to save markup rule:", error);
+    return NextResponse.json({ error: "Could not save markup rule." }, { status: 500 });
+  }
+}
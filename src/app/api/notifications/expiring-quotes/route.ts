@@ -0,0 +1,19 @@
+/**
+ * @fileoverview Admin route handler that reminds agents of sent quotes about to expire. Meant to be
+ * called by a scheduler, e.g. daily; each quote version is only ever reminded of once, so calling
+ * it more often is harmless.
+ *
+ * @bangla মেয়াদ শেষ হতে চলা পাঠানো উদ্ধৃতির কথা এজেন্টদের মনে করিয়ে দেওয়ার অ্যাডমিন রুট হ্যান্ডলার। একটি শিডিউলার
+ * থেকে ডাকার জন্য, যেমন প্রতিদিন; প্রতিটি উদ্ধৃতি সংস্করণের কথা একবারই মনে করানো হয়, তাই বেশি ডাকলে ক্ষতি নেই।
+ */
+import { NextResponse } from 'next/server';
+import { notifyExpiringQuotes } from '@/lib/quotation-notifications';
+
+export async function POST() {
+  try {
+    return NextResponse.json({ expiring: await notifyExpiringQuotes() });
+  } catch (error) {
+    console.error("Failed to check for expiring quotes:", error);
+    return NextResponse.json({ error: "Could not check for expiring quotes." }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Route handlers for the signed-in user's notification preferences: which kinds of
+ * notification are also sent to them by email. GET returns them; PUT replaces them.
+ *
+ * @bangla সাইন-ইন করা ব্যবহারকারীর বিজ্ঞপ্তি পছন্দের রুট হ্যান্ডলার: কোন ধরনের বিজ্ঞপ্তি তাদের ইমেলেও পাঠানো হয়।
+ * GET সেগুলি ফেরত দেয়; PUT সেগুলি প্রতিস্থাপন করে।
+ */
+import { NextResponse } from 'next/server';
+import { NotificationPreferencesSchema } from '@/types/notification';
+import { getSessionUser } from '@/lib/api-auth';
+import { getNotificationPreferences, saveNotificationPreferences } from '@/lib/db/notifications';
+
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  try {
+    return NextResponse.json(await getNotificationPreferences(user.id));
+  } catch (error) {
+    console.error("Failed to load notification preferences:", error);
+    return NextResponse.json({ error: "Could not load your notification preferences." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = NotificationPreferencesSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid notification preferences.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await saveNotificationPreferences(user.id, parsed.data));
+  } catch (error) {
+    console.error("Failed to save notification preferences:", error);
+    return NextResponse.json({ error: "Could not save your notification preferences." }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Route handler that marks the signed-in user's notifications read. POST takes the
+ * `ids` to mark, or marks every unread notification when they are left out, and answers with the
+ * number still unread.
+ *
+ * @bangla সাইন-ইন করা ব্যবহারকারীর বিজ্ঞপ্তিগুলি পড়া হিসাবে চিহ্নিত করার রুট হ্যান্ডলার। POST চিহ্নিত করার
+ * `ids` নেয়, না দিলে প্রতিটি না-পড়া বিজ্ঞপ্তি চিহ্নিত করে, এবং এখনও না-পড়া বিজ্ঞপ্তির সংখ্যা ফেরত দেয়।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser } from '@/lib/api-auth';
+import { countUnreadNotifications, markNotificationsRead } from '@/lib/db/notifications';
+
+const MarkReadSchema = z.object({
+  ids: z.array(z.string().min(1)).max(500).optional(),
+});
+
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = MarkReadSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid notification list.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    const updated = await markNotificationsRead(user.id, parsed.data.ids);
+    return NextResponse.json({ updated, unreadCount: await countUnreadNotifications(user.id) });
+  } catch (error) {
+    console.error("Failed to mark notifications read:", error);
+    return NextResponse.json({ error: "Could not mark the notifications read." }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Route handler for the signed-in user's notifications. GET returns the newest ones
+ * (only unread with `?unread=1`) together with the number still unread.
+ *
+ * @bangla সাইন-ইন করা ব্যবহারকারীর বিজ্ঞপ্তির জন্য রুট হ্যান্ডলার। GET সবচেয়ে নতুনগুলি (`?unread=1` দিলে শুধু
+ * না-পড়া) এবং এখনও না-পড়া বিজ্ঞপ্তির সংখ্যা ফেরত দেয়।
+ */
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/api-auth';
+import { countUnreadNotifications, listNotifications } from '@/lib/db/notifications';
+
+export async function GET(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const unreadOnly = new URL(request.url).searchParams.get('unread') === '1';
+  try {
+    const [notifications, unreadCount] = await Promise.all([
+      listNotifications(user.id, { unreadOnly }),
+      countUnreadNotifications(user.id),
+    ]);
+    return NextResponse.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error("Failed to list notifications:", error);
+    return NextResponse.json({ error: "Could not load your notifications." }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Cancellation charges of a quotation request. GET `?date=yyyy-MM-dd` (default today)
+ * prices cancelling the request's current quote version on that date with the cancellation
+ * policies currently on the hotels and service prices, for admins and the requesting agency.
+ *
+ * @bangla একটি উদ্ধৃতি অনুরোধের বাতিলকরণ চার্জ। GET `?date=yyyy-MM-dd` (ডিফল্ট আজ) হোটেল ও সার্ভিস প্রাইসের
+ * বর্তমান বাতিলকরণ নীতি অনুযায়ী সেই তারিখে অনুরোধের বর্তমান উদ্ধৃতি সংস্করণ বাতিলের মূল্য নির্ণয় করে, অ্যাডমিন ও
+ * অনুরোধকারী এজেন্সির জন্য।
+ */
+import { NextResponse } from 'next/server';
+import { format, isValid, parseISO } from 'date-fns';
+import { getQuotationRequest, getQuoteVersion } from '@/lib/db/quotation-requests';
+import { listHotelDefinitions } from '@/lib/db/hotel-definitions';
+import { listServicePrices } from '@/lib/db/service-prices';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+import { calculateCancellationCharges } from '@/lib/cancellation-charges';
+
+type RouteContext = { params: Promise<{ requestId: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { requestId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const date = new URL(request.url).searchParams.get('date') ?? format(new Date(), 'yyyy-MM-dd');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValid(parseISO(date))) {
+    return NextResponse.json({ error: "Use a yyyy-MM-dd cancellation date." }, { status: 400 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest || !canAccessAgency(user, quotationRequest.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    const quote = quotationRequest.version ? await getQuoteVersion(requestId, quotationRequest.version) : null;
+    if (!quote) {
+      return NextResponse.json({ error: `Quotation request ${requestId} has no quote to cancel.` }, { status: 404 });
+    }
+    const [hotels, servicePrices] = await Promise.all([listHotelDefinitions(), listServicePrices()]);
+    return NextResponse.json(calculateCancellationCharges(quote, { hotels, servicePrices }, date));
+  } catch (error) {
+    console.error(`Failed to calculate the cancellation charges of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not calculate the cancellation charges." }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Admin route handler issuing a credit note against the pro-forma invoice of a
+ * cancelled quotation request, for the part of the invoice that is no longer owed.
+ *
+ * @bangla একটি বাতিল উদ্ধৃতি অনুরোধের প্রো-ফর্মা ইনভয়েসের বিপরীতে ক্রেডিট নোট জারি করার অ্যাডমিন রুট হ্যান্ডলার,
+ * ইনভয়েসের যে অংশ আর পাওনা নয় তার জন্য।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getQuotationRequest } from '@/lib/db/quotation-requests';
+import { getSessionUser } from '@/lib/api-auth';
+import { issueCreditNote } from '@/lib/invoicing';
+
+type RouteContext = { params: Promise<{ requestId: string; invoiceId: string }> };
+
+const CreditNoteSchema = z.object({
+  amount: z.number().positive(),
+  reason: z.string().trim().min(1, "Give the reason for the credit.").max(2000),
+});
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { requestId, invoiceId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = CreditNoteSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid credit note.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    const result = await issueCreditNote(quotationRequest, invoiceId, parsed.data, user);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to issue a credit note on invoice ${invoiceId} of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not issue the credit note." }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Admin route handler recording a payment against a request's pro-forma invoice.
+ * The browser proposes the exchange rate into the invoice currency from the managed rates and the
+ * admin may correct it to the rate the bank actually applied; the stored rate is what counts.
+ *
+ * @bangla একটি অনুরোধের প্রো-ফর্মা ইনভয়েসের বিপরীতে পেমেন্ট রেকর্ড করার অ্যাডমিন রুট হ্যান্ডলার। ব্রাউজার
+ * পরিচালিত হার থেকে ইনভয়েস মুদ্রায় বিনিময় হার প্রস্তাব করে এবং অ্যাডমিন তা ব্যাংকের আসল হারে সংশোধন করতে
+ * পারেন; সংরক্ষিত হারটিই গণ্য হয়।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { PAYMENT_METHODS } from '@/types/invoice';
+import { getQuotationRequest } from '@/lib/db/quotation-requests';
+import { getSessionUser } from '@/lib/api-auth';
+import { recordPayment } from '@/lib/invoicing';
+
+type RouteContext = { params: Promise<{ requestId: string; invoiceId: string }> };
+
+const PaymentSchema = z.object({
+  amount: z.number().positive(),
+  currency: z.string().trim().length(3).transform(code => code.toUpperCase()),
+  exchangeRate: z.number().positive(),
+  method: z.enum(PAYMENT_METHODS),
+  reference: z.string().max(200).optional(),
+  receivedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date."),
+});
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { requestId, invoiceId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = PaymentSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid payment.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    const result = await recordPayment(quotationRequest, invoiceId, parsed.data, user);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to record a payment on invoice ${invoiceId} of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not record the payment." }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Downloads a pro-forma invoice or credit note of a quotation request as a PDF. The
+ * document is rendered on every request, so a pro forma always shows the payments received so far.
+ *
+ * @bangla একটি উদ্ধৃতি অনুরোধের প্রো-ফর্মা ইনভয়েস বা ক্রেডিট নোট PDF হিসাবে ডাউনলোড করে। প্রতিটি অনুরোধে
+ * ডকুমেন্টটি নতুন করে তৈরি হয়, তাই একটি প্রো-ফর্মা সবসময় এ পর্যন্ত প্রাপ্ত পেমেন্টগুলি দেখায়।
+ */
+import { NextResponse } from 'next/server';
+import { getQuotationRequest, getQuoteVersion } from '@/lib/db/quotation-requests';
+import { getInvoice } from '@/lib/db/invoices';
+import { getAgency } from '@/lib/db/agents';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+import { getQuotationInvoicing } from '@/lib/invoicing';
+import { getInvoiceFileName, renderInvoicePdf } from '@/lib/invoice-pdf';
+
+type RouteContext = { params: Promise<{ requestId: string; invoiceId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { requestId, invoiceId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest || !canAccessAgency(user, quotationRequest.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    const invoice = await getInvoice(invoiceId);
+    if (!invoice || invoice.quotationRequestId !== requestId) {
+      return NextResponse.json({ error: `Invoice ${invoiceId} not found for request ${requestId}.` }, { status: 404 });
+    }
+    const quote = await getQuoteVersion(requestId, invoice.quoteVersion);
+    if (!quote) {
+      return NextResponse.json({ error: `Quotation request ${requestId} has no version ${invoice.quoteVersion}.` }, { status: 404 });
+    }
+    const [invoicing, agency] = await Promise.all([
+      getQuotationInvoicing(requestId),
+      quotationRequest.agencyId ? getAgency(quotationRequest.agencyId) : Promise.resolve(null),
+    ]);
+    const content = await renderInvoicePdf({ invoice, invoicing, quote, agency });
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getInvoiceFileName(invoice)}"`,
+        'Content-Length': String(content.byteLength),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to produce the PDF of invoice ${invoiceId} of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not produce the invoice PDF." }, { status: 500 });
+  }
+}
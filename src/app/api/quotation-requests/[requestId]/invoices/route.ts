@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Billing of one quotation request. GET returns its pro-forma invoice, payments,
+ * credit notes and balance, for admins and the agents of the requesting agency; POST (admin only,
+ * see `src/lib/access-control.ts`) issues the pro forma for the accepted quote version.
+ *
+ * @bangla একটি উদ্ধৃতি অনুরোধের বিলিং। GET এর প্রো-ফর্মা ইনভয়েস, পেমেন্ট, ক্রেডিট নোট ও ব্যালেন্স ফেরত দেয়,
+ * অ্যাডমিন ও অনুরোধকারী এজেন্সির এজেন্টদের জন্য; POST (শুধু অ্যাডমিন, `src/lib/access-control.ts` দেখুন) গৃহীত
+ * উদ্ধৃতি সংস্করণের জন্য প্রো-ফর্মা জারি করে।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getQuotationRequest } from '@/lib/db/quotation-requests';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+import { getQuotationInvoicing, issueProFormaInvoice } from '@/lib/invoicing';
+
+type RouteContext = { params: Promise<{ requestId: string }> };
+
+const dateOnly = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date.");
+
+const ProFormaTermsSchema = z.object({
+  depositPercentage: z.number().min(0).max(100),
+  depositDueDate: dateOnly.optional(),
+  balanceDueDate: dateOnly,
+  notes: z.string().max(2000).optional(),
+});
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { requestId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest || !canAccessAgency(user, quotationRequest.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    return NextResponse.json(await getQuotationInvoicing(requestId));
+  } catch (error) {
+    console.error(`Failed to load the invoices of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not load invoices." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { requestId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = ProFormaTermsSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid pro-forma terms.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    const result = await issueProFormaInvoice(quotationRequest, parsed.data, user);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error(`Failed to issue a pro forma for quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not issue the pro-forma invoice." }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Route handlers for a single quotation request: load, save and delete.
+ * Agents can only reach requests of their own agency and cannot change who submitted a request,
+ * its linked itinerary or the admin's revision notes.
+ * PUT edits the request's details only; status changes go through `./transitions`. Travelers are
+ * returned without the details the caller's role may not read, and those details survive a save
+ * by that role unless it enters new ones (see `@/lib/travelers`).
+ *
+ * @bangla একটি একক উদ্ধৃতি অনুরোধের জন্য রুট হ্যান্ডলার: লোড, সংরক্ষণ এবং মুছে ফেলা।
+ * এজেন্টরা শুধুমাত্র নিজের এজেন্সির অনুরোধে পৌঁছাতে পারে এবং কোনো অনুরোধের জমাদানকারী, লিঙ্ক করা ভ্রমণপথ বা
+ * অ্যাডমিনের সংশোধন নোট পরিবর্তন করতে পারে না।
+ * PUT শুধুমাত্র অনুরোধের বিবরণ সম্পাদনা করে; স্ট্যাটাস পরিবর্তন `./transitions`-এর মাধ্যমে হয়। ভ্রমণকারীদের
+ * সেই বিবরণ ছাড়া ফেরত দেওয়া হয় যা কলারের ভূমিকা পড়তে পারে না, এবং সেই ভূমিকা নতুন মান না দিলে সংরক্ষণের
+ * পরেও সেগুলি থেকে যায় (`@/lib/travelers` দেখুন)।
+ */
+import { NextResponse } from 'next/server';
+import { QuotationRequestSchema, type QuotationRequest } from '@/types/quotation';
+import { getQuotationRequest, saveQuotationRequest, deleteQuotationRequest } from '@/lib/db/quotation-requests';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+import { keepHiddenTravelerDetails, redactRequestTravelers } from '@/lib/travelers';
+
+type RouteContext = { params: Promise<{ requestId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { requestId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    // Other agencies' requests answer 404 rather than 403, so IDs can't be probed.
+    if (!quotationRequest || !canAccessAgency(user, quotationRequest.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    return NextResponse.json(redactRequestTravelers(quotationRequest, user.role));
+  } catch (error) {
+    console.error(`Failed to load quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not load quotation request." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { requestId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = QuotationRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid quotation request.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    const existing = await getQuotationRequest(requestId);
+    if (!existing || !canAccessAgency(user, existing.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    if (parsed.data.status !== existing.status) {
+      return NextResponse.json({ error: "Status changes go through the transitions endpoint." }, { status: 409 });
+    }
+    // Status and version are owned by the state machine; agents also cannot reassign a request,
+    // link it to another itinerary or rewrite the admin's notes.
+    let toSave: QuotationRequest = { ...parsed.data, id: requestId, status: existing.status, version: existing.version };
+    if (user.role === 'agent') {
+      toSave = {
+        ...toSave,
+        agentId: existing.agentId,
+        agencyId: existing.agencyId,
+        linkedItineraryId: existing.linkedItineraryId,
+        adminRevisionNotes: existing.adminRevisionNotes,
+      };
+    }
+    if (toSave.clientInfo.travelers && existing.clientInfo.travelers) {
+      toSave = { ...toSave, clientInfo: { ...toSave.clientInfo, travelers: keepHiddenTravelerDetails(toSave.clientInfo.travelers, existing.clientInfo.travelers, user.role) } };
+    }
+    return NextResponse.json(redactRequestTravelers(await saveQuotationRequest(toSave), user.role));
+  } catch (error) {
+    console.error(`Failed to save quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not save quotation request." }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { requestId } = await params;
+  try {
+    const deleted = await deleteQuotationRequest(requestId);
+    if (!deleted) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(`Failed to delete quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not delete quotation request." }, { status: 500 });
+  }
+}
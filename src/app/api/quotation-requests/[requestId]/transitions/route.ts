@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Status transitions of a single quotation request. GET returns the request's status
+ * history (oldest first); POST moves the request to `toStatus` if `QUOTATION_TRANSITIONS` allows the
+ * caller's role to make that move, applies its side effects and appends a history entry. Sending a
+ * quote (a `freezeSnapshot` transition) also needs the itinerary and cost summary the admin sent,
+ * and is refused while the itinerary has pricing errors. Those are recomputed here from the sent
+ * itinerary with the stored service prices, hotels and exchange rates (at the itinerary's frozen
+ * rates), not taken from the summary; the browser only sends the countries, for the currency of
+ * items without a service price. A sent quote is also archived as a PDF.
+ * Moves that require billing (a pro forma before requesting the deposit, the deposit before
+ * booking) are refused until it is in place. The updated request comes back with travelers cut down
+ * to what the caller's role may read (see `@/lib/travelers`).
+ *
+ * @bangla একটি একক উদ্ধৃতি অনুরোধের স্ট্যাটাস ট্রানজিশন। GET অনুরোধের স্ট্যাটাস ইতিহাস ফেরত দেয়
+ * (পুরানোটি প্রথমে); POST অনুরোধটিকে `toStatus`-এ সরায় যদি `QUOTATION_TRANSITIONS` কলারের ভূমিকাকে
+ * সেই পরিবর্তনের অনুমতি দেয়, এর পার্শ্ব প্রতিক্রিয়া প্রয়োগ করে এবং একটি ইতিহাস এন্ট্রি যোগ করে। উদ্ধৃতি
+ * পাঠানোর (একটি `freezeSnapshot` ট্রানজিশন) জন্য অ্যাডমিনের পাঠানো ভ্রমণপথ ও খরচের সারাংশও প্রয়োজন,
+ * এবং ভ্রমণপথে মূল্য নির্ধারণ ত্রুটি থাকলে তা প্রত্যাখ্যাত হয়। সেগুলি সারাংশ থেকে নেওয়া হয় না, বরং
+ * এখানে পাঠানো ভ্রমণপথ থেকে সংরক্ষিত পরিষেবা মূল্য, হোটেল ও বিনিময় হার দিয়ে (ভ্রমণপথের স্থির হারে)
+ * পুনরায় গণনা করা হয়; ব্রাউজার শুধু দেশগুলি পাঠায়, পরিষেবা মূল্য ছাড়া আইটেমের মুদ্রার জন্য। পাঠানো
+ * উদ্ধৃতি একটি PDF হিসাবেও সংরক্ষিত হয়।
+ * যে পরিবর্তনগুলির জন্য বিলিং দরকার (ডিপোজিট চাওয়ার আগে প্রো-ফর্মা, বুকিংয়ের আগে ডিপোজিট) তা প্রস্তুত না হওয়া
+ * পর্যন্ত প্রত্যাখ্যাত হয়। হালনাগাদ অনুরোধটি কলারের ভূমিকা যা পড়তে পারে শুধু সেই ভ্রমণকারীর বিবরণ সহ ফেরত আসে
+ * (`@/lib/travelers` দেখুন)।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { QUOTATION_STATUSES } from '@/types/quotation';
+import type { CountryItem, PricingIssue } from '@/types/itinerary';
+import { TripDataSchema, CostSummarySchema } from '@/types/itinerary-schemas';
+import type { QuoteSnapshot } from '@/lib/db/quotation-requests';
+import { getQuotationRequest, listQuotationStatusChanges, transitionQuotationRequest } from '@/lib/db/quotation-requests';
+import { listServicePrices } from '@/lib/db/service-prices';
+import { listHotelDefinitions } from '@/lib/db/hotel-definitions';
+import { getExchangeRateState } from '@/lib/db/exchange-rates';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+import { applyTransition, findTransition } from '@/lib/quotation-workflow';
+import { getBlockingPricingIssues } from '@/lib/pricing-issues';
+import { calculateAllCosts } from '@/lib/calculation-utils';
+import { createRateLookup } from '@/lib/currency-conversion';
+import { withFrozenRates } from '@/lib/exchange-rate-snapshots';
+import { notifyQuotationTransition } from '@/lib/quotation-notifications';
+import { archiveSentQuote } from '@/lib/quote-documents';
+import { getUnmetRequirement } from '@/lib/invoicing';
+import { redactRequestTravelers } from '@/lib/travelers';
+
+type RouteContext = { params: Promise<{ requestId: string }> };
+
+const TransitionRequestSchema = z.object({
+  toStatus: z.enum(QUOTATION_STATUSES),
+  note: z.string().max(2000).optional(),
+  snapshot: z.object({ tripData: TripDataSchema, costSummary: CostSummarySchema }).optional(),
+  countries: z.array(z.object({ id: z.string(), name: z.string(), defaultCurrency: z.string() })).default([]),
+});
+
+/** The snapshot's pricing issues as the server prices its itinerary, whatever its summary claims. */
+async function recomputePricingIssues(snapshot: QuoteSnapshot, countries: CountryItem[]): Promise<PricingIssue[]> {
+  const [servicePrices, hotelDefinitions, exchangeRates] = await Promise.all([listServicePrices(), listHotelDefinitions(), getExchangeRateState()]);
+  const getRate = withFrozenRates(snapshot.tripData.frozenExchangeRates, createRateLookup(exchangeRates));
+  return calculateAllCosts(snapshot.tripData, countries, servicePrices, hotelDefinitions, getRate).pricingIssues ?? [];
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { requestId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest || !canAccessAgency(user, quotationRequest.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    return NextResponse.json(await listQuotationStatusChanges(requestId));
+  } catch (error) {
+    console.error(`Failed to load status history of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not load status history." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { requestId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const parsed = TransitionRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid status transition.", issues: parsed.error.issues }, { status: 400 });
+  }
+  const { toStatus, note, countries } = parsed.data;
+  const sentSnapshot = parsed.data.snapshot as QuoteSnapshot | undefined;
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest || !canAccessAgency(user, quotationRequest.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    const transition = findTransition(quotationRequest.status, toStatus, user.role);
+    if (!transition) {
+      return NextResponse.json(
+        { error: `You cannot move a request from "${quotationRequest.status}" to "${toStatus}".` },
+        { status: 403 },
+      );
+    }
+    if (transition.note === 'required' && !note?.trim()) {
+      return NextResponse.json({ error: `"${transition.label}" needs a note.` }, { status: 400 });
+    }
+    const freezesSnapshot = transition.effects.includes('freezeSnapshot');
+    if (freezesSnapshot && !sentSnapshot) {
+      return NextResponse.json({ error: `"${transition.label}" needs the itinerary and cost summary being sent.` }, { status: 400 });
+    }
+    if (freezesSnapshot && quotationRequest.linkedItineraryId && sentSnapshot!.tripData.id !== quotationRequest.linkedItineraryId) {
+      return NextResponse.json({ error: `The snapshot is not of itinerary ${quotationRequest.linkedItineraryId}.` }, { status: 400 });
+    }
+    // The frozen version records the issues found here rather than those the browser reported.
+    const snapshot = freezesSnapshot
+      ? { ...sentSnapshot!, costSummary: { ...sentSnapshot!.costSummary, pricingIssues: await recomputePricingIssues(sentSnapshot!, countries) } }
+      : undefined;
+    const blockingIssues = snapshot ? getBlockingPricingIssues(snapshot.costSummary) : [];
+    if (blockingIssues.length > 0) {
+      return NextResponse.json(
+        { error: `The quote has ${blockingIssues.length} pricing error(s). Fix them before sending.`, pricingIssues: blockingIssues },
+        { status: 400 },
+      );
+    }
+    const unmetRequirement = transition.requires ? await getUnmetRequirement(requestId, transition.requires) : null;
+    if (unmetRequirement) {
+      return NextResponse.json({ error: `Cannot "${transition.label}": ${unmetRequirement}` }, { status: 409 });
+    }
+
+    const updated = applyTransition(quotationRequest, transition, note, new Date());
+    const result = await transitionQuotationRequest(
+      updated, quotationRequest.status, { userId: user.id, role: user.role, name: user.name }, note,
+      snapshot,
+    );
+    if (!result) {
+      return NextResponse.json({ error: "The request's status was changed by someone else. Reload and try again." }, { status: 409 });
+    }
+    await notifyQuotationTransition(transition, result.request, result.change);
+    if (freezesSnapshot) await archiveSentQuote(requestId, result.change.version, user.id);
+    return NextResponse.json({ ...result, request: redactRequestTravelers(result.request, user.role) });
+  } catch (error) {
+    console.error(`Failed to change status of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not change the request's status." }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Downloads the PDF of one sent quote version (e.g. `/versions/1.1/pdf`). `variant`
+ * is `withCosts` (default) or `itineraryOnly`; `branding` is `house` (default) or `agency`, the
+ * white-label letterhead of the requesting agency. The PDF is rendered once and stored with the
+ * version.
+ *
+ * @bangla একটি পাঠানো উদ্ধৃতি সংস্করণের PDF ডাউনলোড করে (যেমন `/versions/1.1/pdf`)। `variant` হল
+ * `withCosts` (ডিফল্ট) বা `itineraryOnly`; `branding` হল `house` (ডিফল্ট) বা `agency`, অনুরোধকারী এজেন্সির
+ * হোয়াইট-লেবেল লেটারহেড। PDF একবার তৈরি হয়ে সংস্করণের সাথে সংরক্ষিত থাকে।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { QUOTE_DOCUMENT_BRANDINGS, QUOTE_DOCUMENT_VARIANTS } from '@/types/quotation';
+import { getQuotationRequest, getQuoteVersion } from '@/lib/db/quotation-requests';
+import { getAgency } from '@/lib/db/agents';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+import { getOrCreateQuoteDocument } from '@/lib/quote-documents';
+
+type RouteContext = { params: Promise<{ requestId: string; version: string }> };
+
+const DocumentQuerySchema = z.object({
+  variant: z.enum(QUOTE_DOCUMENT_VARIANTS).default('withCosts'),
+  branding: z.enum(QUOTE_DOCUMENT_BRANDINGS).default('house'),
+});
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { requestId, version } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const versionNumber = Number(version);
+  if (!Number.isFinite(versionNumber) || versionNumber <= 0) {
+    return NextResponse.json({ error: `"${version}" is not a quote version.` }, { status: 400 });
+  }
+  const searchParams = new URL(request.url).searchParams;
+  const parsed = DocumentQuerySchema.safeParse({
+    variant: searchParams.get('variant') ?? undefined,
+    branding: searchParams.get('branding') ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid document options.", issues: parsed.error.issues }, { status: 400 });
+  }
+  const { variant, branding } = parsed.data;
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest || !canAccessAgency(user, quotationRequest.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    const quoteVersion = await getQuoteVersion(requestId, versionNumber);
+    if (!quoteVersion) {
+      return NextResponse.json({ error: `Quotation request ${requestId} has no version ${version}.` }, { status: 404 });
+    }
+    const agency = branding === 'agency' && quotationRequest.agencyId ? await getAgency(quotationRequest.agencyId) : null;
+    if (branding === 'agency' && !agency) {
+      return NextResponse.json({ error: "This request has no agency whose letterhead could be used." }, { status: 400 });
+    }
+    const document = await getOrCreateQuoteDocument(quoteVersion, variant, branding, agency, user.id);
+    return new NextResponse(new Uint8Array(document.content), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${document.fileName}"`,
+        'Content-Length': String(document.byteSize),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to produce the PDF of version ${version} of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not produce the quote PDF." }, { status: 500 });
+  }
+}
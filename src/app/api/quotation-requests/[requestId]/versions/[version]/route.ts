@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Loads one sent quote version (e.g. `/versions/1.1`) with its frozen itinerary and
+ * cost summary. The frozen travelers are cut down to what the caller's role may read (see
+ * `@/lib/travelers`).
+ *
+ * @bangla একটি পাঠানো উদ্ধৃতি সংস্করণ (যেমন `/versions/1.1`) তার স্থির ভ্রমণপথ ও খরচের সারাংশ সহ লোড করে।
+ * স্থির ভ্রমণকারীদের কলারের ভূমিকা যা পড়তে পারে শুধু সেটুকুতে ছাঁটা হয় (`@/lib/travelers` দেখুন)।
+ */
+import { NextResponse } from 'next/server';
+import { getQuotationRequest, getQuoteVersion } from '@/lib/db/quotation-requests';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+import { redactTripTravelers } from '@/lib/travelers';
+
+type RouteContext = { params: Promise<{ requestId: string; version: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { requestId, version } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  const versionNumber = Number(version);
+  if (!Number.isFinite(versionNumber) || versionNumber <= 0) {
+    return NextResponse.json({ error: `"${version}" is not a quote version.` }, { status: 400 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest || !canAccessAgency(user, quotationRequest.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    const quoteVersion = await getQuoteVersion(requestId, versionNumber);
+    if (!quoteVersion) {
+      return NextResponse.json({ error: `Quotation request ${requestId} has no version ${version}.` }, { status: 404 });
+    }
+    return NextResponse.json({ ...quoteVersion, tripData: redactTripTravelers(quoteVersion.tripData, user.role) });
+  } catch (error) {
+    console.error(`Failed to load version ${version} of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not load quote version." }, { status: 500 });
+  }
+}
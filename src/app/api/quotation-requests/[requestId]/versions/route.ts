@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Lists the quote versions sent for a quotation request, oldest first, without
+ * their snapshots. Agents only see versions of their own agency's requests.
+ *
+ * @bangla একটি উদ্ধৃতি অনুরোধের জন্য পাঠানো উদ্ধৃতি সংস্করণগুলির তালিকা দেয়, পুরানোটি প্রথমে,
+ * স্ন্যাপশট ছাড়া। এজেন্টরা শুধুমাত্র নিজের এজেন্সির অনুরোধের সংস্করণ দেখতে পায়।
+ */
+import { NextResponse } from 'next/server';
+import { getQuotationRequest, listQuoteVersions } from '@/lib/db/quotation-requests';
+import { getSessionUser, canAccessAgency } from '@/lib/api-auth';
+
+type RouteContext = { params: Promise<{ requestId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { requestId } = await params;
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  try {
+    const quotationRequest = await getQuotationRequest(requestId);
+    if (!quotationRequest || !canAccessAgency(user, quotationRequest.agencyId)) {
+      return NextResponse.json({ error: `Quotation request ${requestId} not found.` }, { status: 404 });
+    }
+    return NextResponse.json(await listQuoteVersions(requestId));
+  } catch (error) {
+    console.error(`Failed to list quote versions of quotation request ${requestId}:`, error);
+    return NextResponse.json({ error: "Could not load quote versions." }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Route handlers for the quotation request collection.
+ * GET lists requests (optionally filtered by `?agentId=`); agents only ever receive their own
+ * agency's requests. POST validates a new request against `QuotationRequestSchema` and stores it
+ * as "New Request Submitted", stamped with the submitting agent and agency taken from the session
+ * and with the first entry of its status history, and notifies the admins about it. Both return
+ * travelers without the details the caller's role may not read (see `@/lib/travelers`).
+ *
+ * @bangla উদ্ধৃতি অনুরোধ সংগ্রহের জন্য রুট হ্যান্ডলার।
+ * GET অনুরোধগুলির তালিকা দেয় (ঐচ্ছিকভাবে `?agentId=` দ্বারা ফিল্টার করা); এজেন্টরা সবসময়
+ * শুধুমাত্র নিজের এজেন্সির অনুরোধ পায়। POST একটি নতুন অনুরোধকে `QuotationRequestSchema`-এর
+ * বিপরীতে যাচাই করে "New Request Submitted" হিসাবে সংরক্ষণ করে, সেশন থেকে নেওয়া জমাদানকারী এজেন্ট ও
+ * এজেন্সি এবং স্ট্যাটাস ইতিহাসের প্রথম এন্ট্রি সহ, এবং অ্যাডমিনদের এ সম্পর্কে জানায়। উভয়ই ভ্রমণকারীদের
+ * সেই বিবরণ ছাড়া ফেরত দেয় যা কলারের ভূমিকা পড়তে পারে না (`@/lib/travelers` দেখুন)।
+ */
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { QuotationRequestSchema, type QuotationRequest } from '@/types/quotation';
+import { listQuotationRequests, createQuotationRequest } from '@/lib/db/quotation-requests';
+import { getAgentProfile } from '@/lib/db/agents';
+import { getSessionUser, type SessionUser } from '@/lib/api-auth';
+import { notifyNewQuotationRequest } from '@/lib/quotation-notifications';
+import { redactRequestTravelers } from '@/lib/travelers';
+
+/**
+ * Agents always submit as themselves. Admins may file a request on behalf of an agent, in which
+ * case the agency is looked up from that agent's profile.
+ */
+const stampSubmitter = async (request: QuotationRequest, user: SessionUser): Promise<QuotationRequest> => {
+  if (user.role === 'agent') {
+    return { ...request, agentId: user.agentId ?? undefined, agencyId: user.agencyId ?? undefined };
+  }
+  if (!request.agencyId && request.agentId) {
+    const agent = await getAgentProfile(request.agentId);
+    return { ...request, agencyId: agent?.agencyId };
+  }
+  return request;
+};
+
+export async function GET(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  if (user.role === 'agent' && !user.agencyId) {
+    return NextResponse.json({ error: "Your account is not linked to an agency." }, { status: 403 });
+  }
+  const agentId = new URL(request.url).searchParams.get('agentId') || undefined;
+  const agencyId = user.role === 'agent' ? user.agencyId ?? undefined : undefined;
+  try {
+    const requests = await listQuotationRequests({ agentId, agencyId });
+    return NextResponse.json(requests.map(quotationRequest => redactRequestTravelers(quotationRequest, user.role)));
+  } catch (error) {
+    console.error("Failed to list quotation requests:", error);
+    return NextResponse.json({ error: "Could not load quotation requests." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+  }
+  if (user.role === 'agent' && (!user.agentId || !user.agencyId)) {
+    return NextResponse.json({ error: "Your account is not linked to an agent profile." }, { status: 403 });
+  }
+  const parsed = QuotationRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid quotation request.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    const stamped = await stampSubmitter({ ...parsed.data, status: "New Request Submitted", version: 0 }, user);
+    const created = await createQuotationRequest(stamped, { userId: user.id, role: user.role, name: user.name });
+    await notifyNewQuotationRequest(created);
+    return NextResponse.json(redactRequestTravelers(created, user.role), { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: `Quotation request ${parsed.data.id} already exists.` }, { status: 409 });
+    }
+    console.error("Failed to save quotation request:", error);
+    return NextResponse.json({ error: "Could not save quotation request." }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Route handlers for a single service price: load, save (upsert) and delete.
+ *
+ * @bangla একটি একক পরিষেবা মূল্যের জন্য রুট হ্যান্ডলার: লোড, সংরক্ষণ (আপসার্ট) এবং মুছে ফেলা।
+ */
+import { NextResponse } from 'next/server';
+import type { ServicePriceItem } from '@/types/itinerary';
+import { getServicePrice, saveServicePrice, deleteServicePrice } from '@/lib/db/service-prices';
+
+type RouteContext = { params: Promise<{ priceId: string }> };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { priceId } = await params;
+  try {
+    const price = await getServicePrice(priceId);
+    if (!price) {
+      return NextResponse.json({ error: `Service price ${priceId} not found.` }, { status: 404 });
+    }
+    return NextResponse.json(price);
+  } catch (error) {
+    console.error(`Failed to load service price ${priceId}:`, error);
+    return NextResponse.json({ error: "Could not load service price." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { priceId } = await params;
+  const price = await request.json().catch(() => null) as ServicePriceItem | null;
+  if (!price?.name || !price.category || !price.currency) {
+    return NextResponse.json({ error: "Service price requires name, category and currency." }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await saveServicePrice({ ...price, id: priceId }));
+  } catch (error) {
+    console.error(`Failed to save service price ${priceId}:`, error);
+    return NextResponse.json({ error: "Could not save service price." }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { priceId } = await params;
+  try {
+    const deleted = await deleteServicePrice(priceId);
+    if (!deleted) {
+      return NextResponse.json({ error: `Service price ${priceId} not found.` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(`Failed to delete service price ${priceId}:`, error);
+    return NextResponse.json({ error: "Could not delete service price." }, { status: 500 });
+  }
+}
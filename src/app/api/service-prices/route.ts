@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Route handlers for the master service price list.
+ * GET returns every price; PUT replaces the stored list with the posted array
+ * (used by the pricing hook when it seeds or merges demo prices).
+ *
+ * @bangla মাস্টার পরিষেবা মূল্য তালিকার জন্য রুট হ্যান্ডলার।
+ * GET সমস্ত মূল্য ফেরত দেয়; PUT সংরক্ষিত তালিকাকে পাঠানো অ্যারে দিয়ে প্রতিস্থাপন করে
+ * (মূল্য হুক যখন ডেমো মূল্য বীজ বা একত্রিত করে তখন ব্যবহৃত হয়)।
+ */
+import { NextResponse } from 'next/server';
+import type { ServicePriceItem } from '@/types/itinerary';
+import { listServicePrices, replaceServicePrices } from '@/lib/db/service-prices';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listServicePrices());
+  } catch (error) {
+    console.error("Failed to list service prices:", error);
+    return NextResponse.json({ error: "Could not load service prices." }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  const prices = await request.json().catch(() => null) as ServicePriceItem[] | null;
+  if (!Array.isArray(prices) || prices.some(p => !p?.id || !p.name || !p.category || !p.currency)) {
+    return NextResponse.json({ error: "Request body must be an array of service prices with id, name, category and currency." }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await replaceServicePrices(prices));
+  } catch (error) {
+    console.error("Failed to save service prices:", error);
+    return NextResponse.json({ error: "Could not save service prices." }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Public route through which a client answers the quote version a share link shows:
+ * accept it with their name and a typed signature, or ask for changes with notes. Either answer is a
+ * `client` transition of the quotation state machine, so it is refused once the quote has moved on
+ * or a newer version was sent, and it notifies the agent and admins like any other transition.
+ *
+ * @bangla পাবলিক রুট যার মাধ্যমে ক্লায়েন্ট একটি শেয়ার লিঙ্কে দেখানো উদ্ধৃতি সংস্করণের উত্তর দেন: নাম ও টাইপ
+ * করা স্বাক্ষর দিয়ে তা গ্রহণ করা, অথবা নোট দিয়ে পরিবর্তন চাওয়া। যেকোনো উত্তরই উদ্ধৃতি স্টেট মেশিনের একটি
+ * `client` ট্রানজিশন, তাই উদ্ধৃতি এগিয়ে গেলে বা নতুন সংস্করণ পাঠানো হলে তা প্রত্যাখ্যাত হয়, এবং অন্য যেকোনো
+ * ট্রানজিশনের মতো এজেন্ট ও অ্যাডমিনদের বিজ্ঞপ্তি পাঠায়।
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { QuotationRequestStatus } from '@/types/quotation';
+import { getQuotationRequest, getQuoteAcceptance, getQuoteVersion, transitionQuotationRequest } from '@/lib/db/quotation-requests';
+import { applyTransition, findTransition } from '@/lib/quotation-workflow';
+import { notifyQuotationTransition } from '@/lib/quotation-notifications';
+import { getResponseState, openShareLink } from '@/lib/share-links';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+const ClientResponseSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('accept'),
+    signerName: z.string().trim().min(2, "Enter your full name.").max(200),
+    signature: z.string().trim().min(2, "Type your name as your signature.").max(200),
+    agreed: z.literal(true, { errorMap: () => ({ message: "Confirm that you accept the quote." }) }),
+  }),
+  z.object({
+    action: z.literal('requestChanges'),
+    signerName: z.string().trim().min(2, "Enter your full name.").max(200),
+    notes: z.string().trim().min(5, "Describe the changes you would like.").max(2000),
+  }),
+]);
+
+const TARGET_STATUS: Record<z.infer<typeof ClientResponseSchema>['action'], QuotationRequestStatus> = {
+  accept: "Confirmed",
+  requestChanges: "Quoted: Revision Requested",
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { token } = await params;
+  const parsed = ClientResponseSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid answer.", issues: parsed.error.issues }, { status: 400 });
+  }
+  const answer = parsed.data;
+  try {
+    const opened = await openShareLink(token);
+    if ('error' in opened) {
+      return NextResponse.json({ error: opened.error }, { status: opened.status });
+    }
+    const { link } = opened;
+    if (link.scope !== 'quoteVersion' || !link.quotationRequestId || link.quoteVersion === undefined) {
+      return NextResponse.json({ error: "This link cannot be used to answer a quote." }, { status: 400 });
+    }
+
+    const [quotationRequest, acceptance, sentVersion] = await Promise.all([
+      getQuotationRequest(link.quotationRequestId),
+      getQuoteAcceptance(link.quotationRequestId, link.quoteVersion),
+      getQuoteVersion(link.quotationRequestId, link.quoteVersion),
+    ]);
+    const state = getResponseState(link, quotationRequest, acceptance);
+    const transition = quotationRequest && findTransition(quotationRequest.status, TARGET_STATUS[answer.action], 'client');
+    if (!state.canRespond || !quotationRequest || !sentVersion || !transition) {
+      return NextResponse.json({ error: state.reason ?? "This quote is not waiting for an answer any more.", response: state }, { status: 409 });
+    }
+
+    const note = answer.action === 'accept'
+      ? `Accepted v${link.quoteVersion.toFixed(1)} with the signature "${answer.signature}".`
+      : answer.notes;
+    const updated = applyTransition(quotationRequest, transition, note, new Date());
+    const result = await transitionQuotationRequest(
+      updated, quotationRequest.status, { role: 'client', name: answer.signerName }, note, undefined,
+      answer.action === 'accept'
+        ? {
+          quoteVersion: link.quoteVersion,
+          shareLinkId: link.id,
+          signerName: answer.signerName,
+          signature: answer.signature,
+          billingCurrency: sentVersion.billingCurrency,
+          grandTotal: sentVersion.grandTotal,
+          userAgent: request.headers.get('user-agent'),
+        }
+        : undefined,
+    );
+    if (!result) {
+      return NextResponse.json({ error: "The quote was changed in the meantime. Reload the page and try again." }, { status: 409 });
+    }
+    await notifyQuotationTransition(transition, result.request, result.change);
+
+    const newAcceptance = answer.action === 'accept' ? await getQuoteAcceptance(link.quotationRequestId, link.quoteVersion) : null;
+    return NextResponse.json({ status: result.request.status, response: getResponseState(link, result.request, newAcceptance) });
+  } catch (error) {
+    console.error(`Failed to record the client's answer through share link ${token}:`, error);
+    return NextResponse.json({ error: "Could not send your answer. Please try again." }, { status: 500 });
+  }
+}
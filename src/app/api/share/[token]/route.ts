@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Public route behind client share links. It needs no session: the signed token is
+ * the credential. Forged tokens and unknown links get a 404, expired and revoked links a 410. Every
+ * successful open is recorded so admins can see when the client looked at the link. Quote version
+ * links also say whether the client may still accept or ask for changes.
+ *
+ * @bangla ক্লায়েন্ট শেয়ার লিঙ্কের পিছনের পাবলিক রুট। এর কোনো সেশন লাগে না: স্বাক্ষরিত টোকেনই পরিচয়পত্র। জাল
+ * টোকেন এবং অজানা লিঙ্ক 404 পায়, মেয়াদোত্তীর্ণ ও বাতিল লিঙ্ক 410 পায়। প্রতিটি সফল খোলা রেকর্ড করা হয়
+ * যাতে অ্যাডমিনরা দেখতে পারেন ক্লায়েন্ট কখন লিঙ্কটি দেখেছেন। উদ্ধৃতি সংস্করণের লিঙ্কগুলি এটাও জানায় যে
+ * ক্লায়েন্ট এখনও গ্রহণ করতে বা পরিবর্তন চাইতে পারেন কিনা।
+ */
+import { NextResponse } from 'next/server';
+import { getQuotationRequest, getQuoteAcceptance, getQuoteVersion } from '@/lib/db/quotation-requests';
+import { recordShareLinkOpen } from '@/lib/db/share-links';
+import { getResponseState, openShareLink, toSharedItinerary } from '@/lib/share-links';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { token } = await params;
+  try {
+    const opened = await openShareLink(token);
+    if ('error' in opened) {
+      return NextResponse.json({ error: opened.error }, { status: opened.status });
+    }
+    const { link } = opened;
+
+    if (link.scope !== 'quoteVersion') {
+      if (!link.snapshot) {
+        return NextResponse.json({ error: "This itinerary is no longer available." }, { status: 404 });
+      }
+      await recordShareLinkOpen(link.id, request.headers.get('user-agent'));
+      return NextResponse.json(toSharedItinerary(link, link.snapshot));
+    }
+
+    const requestId = link.quotationRequestId;
+    const sentVersion = requestId && link.quoteVersion !== undefined ? await getQuoteVersion(requestId, link.quoteVersion) : null;
+    if (!requestId || !sentVersion) {
+      return NextResponse.json({ error: "This quote is no longer available." }, { status: 404 });
+    }
+    const [quotationRequest, acceptance] = await Promise.all([getQuotationRequest(requestId), getQuoteAcceptance(requestId, sentVersion.version)]);
+
+    await recordShareLinkOpen(link.id, request.headers.get('user-agent'));
+    return NextResponse.json(toSharedItinerary(link, sentVersion, getResponseState(link, quotationRequest, acceptance)));
+  } catch (error) {
+    console.error(`Failed to open share link ${token}:`, error);
+    return NextResponse.json({ error: "Could not load the itinerary." }, { status: 500 });
+  }
+}
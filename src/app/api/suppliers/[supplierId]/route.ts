@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Route handlers for a single supplier: save and delete. A supplier that has been
+ * sent booking requests cannot be deleted (409); it is deactivated instead.
+ *
+ * @bangla একটি একক সরবরাহকারীর জন্য রুট হ্যান্ডলার: সংরক্ষণ এবং মুছে ফেলা। যে সরবরাহকারীকে বুকিং অনুরোধ পাঠানো
+ * হয়েছে তাকে মোছা যায় না (409); তার বদলে তাকে নিষ্ক্রিয় করা হয়।
+ */
+import { NextResponse } from 'next/server';
+import { SupplierSchema } from '@/types/supplier';
+import { deleteSupplier, saveSupplier } from '@/lib/db/suppliers';
+
+type RouteContext = { params: Promise<{ supplierId: string }> };
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { supplierId } = await params;
+  const parsed = SupplierSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid supplier.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await saveSupplier({ ...parsed.data, id: supplierId }));
+  } catch (error) {
+    console.error(`Failed to save supplier ${supplierId}:`, error);
+    return NextResponse.json({ error: "Could not save supplier." }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { supplierId } = await params;
+  try {
+    const result = await deleteSupplier(supplierId);
+    if (result === 'notFound') {
+      return NextResponse.json({ error: `Supplier ${supplierId} not found.` }, { status: 404 });
+    }
+    if (result === 'inUse') {
+      return NextResponse.json({ error: "This supplier has booking requests on record. Deactivate it instead." }, { status: 409 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error(`Failed to delete supplier ${supplierId}:`, error);
+    return NextResponse.json({ error: "Could not delete supplier." }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Route handlers for the supplier collection: GET lists all suppliers, inactive ones
+ * included; POST creates one validated against `SupplierSchema`.
+ *
+ * @bangla সরবরাহকারী সংগ্রহের জন্য রুট হ্যান্ডলার: GET নিষ্ক্রিয়গুলি সহ সব সরবরাহকারীর তালিকা দেয়; POST
+ * `SupplierSchema`-এর বিপরীতে যাচাই করা একটি সরবরাহকারী তৈরি করে।
+ */
+import { NextResponse } from 'next/server';
+import { SupplierSchema } from '@/types/supplier';
+import { listSuppliers, saveSupplier } from '@/lib/db/suppliers';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listSuppliers());
+  } catch (error) {
+    console.error("Failed to list suppliers:", error);
+    return NextResponse.json({ error: "Could not load suppliers." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const parsed = SupplierSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid supplier.", issues: parsed.error.issues }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await saveSupplier(parsed.data), { status: 201 });
+  } catch (error) {
+    console.error("Failed to save supplier:", error);
+    return NextResponse.json({ error: "Could not save supplier." }, { status: 500 });
+  }
+}
@@ -15,7 +15,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter }
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, LogIn, MailQuestion } from "lucide-react";
-import { sendPasswordResetEmail } from '@/lib/email-service'; // Import the placeholder
+import { sendPasswordResetEmail } from '@/lib/password-reset-email';
 import { useToast } from '@/hooks/use-toast';
 
 const loginSchema = z.object({
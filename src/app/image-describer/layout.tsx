@@ -0,0 +1,10 @@
+/**
+ * @fileoverview Layout for the AI image describer, which is available to admins only.
+ *
+ * @bangla AI ইমেজ ডেসক্রাইবারের লেআউট, যা শুধুমাত্র অ্যাডমিনদের জন্য উপলব্ধ।
+ */
+import { RoleGuard } from '@/components/role-guard';
+
+export default function ImageDescriberLayout({ children }: { children: React.ReactNode }) {
+  return <RoleGuard roles={['admin']}>{children}</RoleGuard>;
+}
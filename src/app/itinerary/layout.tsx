@@ -0,0 +1,10 @@
+/**
+ * @fileoverview Layout for itinerary views, which both admins and agents can open.
+ *
+ * @bangla ভ্রমণপথ ভিউয়ের লেআউট, যা অ্যাডমিন এবং এজেন্ট উভয়েই খুলতে পারে।
+ */
+import { RoleGuard } from '@/components/role-guard';
+
+export default function ItineraryLayout({ children }: { children: React.ReactNode }) {
+  return <RoleGuard roles={['admin', 'agent']}>{children}</RoleGuard>;
+}
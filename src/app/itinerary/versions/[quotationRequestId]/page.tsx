@@ -0,0 +1,301 @@
+/**
+ * @fileoverview Side-by-side comparison of two sent quote versions of a quotation request.
+ * Each version is the frozen itinerary and cost summary stored when the quote was sent, so the
+ * comparison shows exactly what changed between what the agent was quoted each time: lines added,
+ * removed and changed per day, with the price delta of every line, day and the grand total.
+ * Lines are rendered with the same rows as the details summary table. Every version can also be
+ * downloaded as a PDF quote or itinerary.
+ *
+ * @bangla একটি উদ্ধৃতি অনুরোধের দুটি পাঠানো উদ্ধৃতি সংস্করণের পাশাপাশি তুলনা। প্রতিটি সংস্করণ হল উদ্ধৃতি
+ * পাঠানোর সময় সংরক্ষিত স্থির ভ্রমণপথ এবং খরচের সারাংশ, তাই তুলনাটি ঠিক দেখায় এজেন্টকে প্রতিবার যা
+ * উদ্ধৃত করা হয়েছিল তার মধ্যে কী বদলেছে: প্রতিদিন যোগ করা, সরানো এবং পরিবর্তিত লাইন, প্রতিটি লাইন,
+ * দিন এবং সর্বমোটের মূল্যের পার্থক্য সহ। লাইনগুলি বিস্তারিত সারাংশ টেবিলের একই সারি দিয়ে দেখানো হয়। প্রতিটি
+ * সংস্করণ PDF উদ্ধৃতি বা ভ্রমণপথ হিসাবেও ডাউনলোড করা যায়।
+ */
+"use client";
+
+import * as React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { addDays, format, parseISO, isValid } from 'date-fns';
+import { Loader2, AlertCircle, ArrowLeft, GitCompare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DetailedSummaryItemRow } from '@/components/itinerary/details-summary-table';
+import { QuoteDocumentsTable } from '@/components/itinerary/quote-documents-table';
+import { apiGet } from '@/lib/api-client';
+import { diffQuoteVersions, type QuoteLineChange, type QuoteLineDiff } from '@/lib/quote-diff';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { CurrencyCode } from '@/types/itinerary';
+import type { QuotationRequest, QuoteVersion, QuoteVersionSummary } from '@/types/quotation';
+
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
+
+const CHANGE_ROW_STYLES: Record<QuoteLineChange, string> = {
+  added: "bg-green-50 dark:bg-green-900/20",
+  removed: "bg-red-50 text-muted-foreground dark:bg-red-900/20",
+  changed: "bg-amber-50 dark:bg-amber-900/20",
+  unchanged: "",
+};
+
+const CHANGE_BADGE_STYLES: Record<QuoteLineChange, string> = {
+  added: "bg-green-100 text-green-800 border-green-300",
+  removed: "bg-red-100 text-red-800 border-red-300",
+  changed: "bg-amber-100 text-amber-800 border-amber-300",
+  unchanged: "text-muted-foreground",
+};
+
+const FIELD_LABELS: Record<QuoteLineDiff['changedFields'][number], string> = {
+  day: "day", type: "type", name: "name", note: "note", countryName: "country", province: "location",
+  configurationDetails: "configuration", excludedTravelers: "travelers", adultCost: "adult cost",
+  childCost: "child cost", totalCost: "total", occupancyDetails: "rooms",
+};
+
+const versionLabel = (version: number) => `v${version.toFixed(1)}`;
+
+const formatDelta = (amount: number, currency: CurrencyCode) =>
+  amount === 0 ? formatCurrency(0, currency) : `${amount > 0 ? '+' : '−'}${formatCurrency(Math.abs(amount), currency)}`;
+
+const deltaClassName = (amount: number) =>
+  amount > 0 ? "text-red-600" : amount < 0 ? "text-green-600" : "text-muted-foreground";
+
+function ChangeCell({ line, currency }: { line: QuoteLineDiff; currency: CurrencyCode }) {
+  return (
+    <TableCell className="align-top text-right text-xs">
+      <Badge variant="outline" className={cn("text-xs capitalize", CHANGE_BADGE_STYLES[line.change])}>{line.change}</Badge>
+      <div className={cn("font-code font-semibold mt-1", deltaClassName(line.priceDelta))}>{formatDelta(line.priceDelta, currency)}</div>
+      {line.change === 'changed' && (
+        <div className="text-muted-foreground mt-1">
+          {line.changedFields.map(field => FIELD_LABELS[field]).join(', ')}
+          {line.changedFields.includes('totalCost') && line.before && (
+            <div>was {formatCurrency(line.before.totalCost, currency)}</div>
+          )}
+        </div>
+      )}
+    </TableCell>
+  );
+}
+
+export default function QuoteVersionsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const quotationRequestId = params.quotationRequestId as string;
+  const versionsPath = `${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(quotationRequestId)}/versions`;
+
+  const [versions, setVersions] = React.useState<QuoteVersionSummary[]>([]);
+  const [hasAgency, setHasAgency] = React.useState(false);
+  const [fromVersion, setFromVersion] = React.useState<number | null>(null);
+  const [toVersion, setToVersion] = React.useState<number | null>(null);
+  const [fromQuote, setFromQuote] = React.useState<QuoteVersion | null>(null);
+  const [toQuote, setToQuote] = React.useState<QuoteVersion | null>(null);
+  const [showUnchanged, setShowUnchanged] = React.useState(false);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        const [loaded, quotationRequest] = await Promise.all([
+          apiGet<QuoteVersionSummary[]>(versionsPath),
+          apiGet<QuotationRequest>(`${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(quotationRequestId)}`),
+        ]);
+        setVersions(loaded);
+        setHasAgency(!!quotationRequest.agencyId);
+        // Start with the two most recent quotes.
+        if (loaded.length >= 2) {
+          setFromVersion(loaded[loaded.length - 2].version);
+          setToVersion(loaded[loaded.length - 1].version);
+        }
+      } catch (e: any) {
+        console.error(`Error loading quote versions of ${quotationRequestId}:`, e);
+        setError(e.message || "Could not load the quote versions.");
+      }
+      setIsLoading(false);
+    };
+    loadVersions();
+  }, [versionsPath, quotationRequestId]);
+
+  React.useEffect(() => {
+    if (fromVersion === null || toVersion === null) return;
+    let cancelled = false;
+    const loadPair = async () => {
+      try {
+        const [from, to] = await Promise.all([
+          apiGet<QuoteVersion>(`${versionsPath}/${fromVersion}`),
+          apiGet<QuoteVersion>(`${versionsPath}/${toVersion}`),
+        ]);
+        if (cancelled) return;
+        setFromQuote(from);
+        setToQuote(to);
+      } catch (e: any) {
+        console.error(`Error loading quote versions ${fromVersion} and ${toVersion}:`, e);
+        if (!cancelled) setError(e.message || "Could not load the selected quote versions.");
+      }
+    };
+    loadPair();
+    return () => { cancelled = true; };
+  }, [versionsPath, fromVersion, toVersion]);
+
+  const diff = React.useMemo(
+    () => (fromQuote && toQuote ? diffQuoteVersions(fromQuote.costSummary, toQuote.costSummary) : null),
+    [fromQuote, toQuote],
+  );
+
+  const getDayHeading = (dayNum: number): string => {
+    const startDate = toQuote?.tripData.settings.startDate;
+    if (!startDate || !isValid(parseISO(startDate))) return `Day ${dayNum}`;
+    return `Day ${dayNum} - ${format(addDays(parseISO(startDate), dayNum - 1), "MMMM d, yyyy (EEEE)")}`;
+  };
+
+  const renderVersionSelect = (value: number | null, onChange: (version: number) => void, label: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select value={value !== null ? String(value) : undefined} onValueChange={v => onChange(Number(v))}>
+        <SelectTrigger className="w-[220px] h-9 text-sm"><SelectValue placeholder="Select version" /></SelectTrigger>
+        <SelectContent>
+          {versions.map(v => (
+            <SelectItem key={v.id} value={String(v.version)}>
+              {versionLabel(v.version)} · {format(parseISO(v.createdAt), 'dd MMM yyyy')} · {formatCurrency(v.grandTotal, v.billingCurrency)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col justify-center items-center min-h-screen bg-background p-4">
+        <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
+        <p className="text-lg text-muted-foreground">Loading Quote Versions...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col justify-center items-center min-h-screen bg-background p-4">
+        <AlertCircle className="h-12 w-12 text-destructive mb-4" />
+        <h1 className="text-xl font-semibold text-destructive mb-2">Error Loading Quote Versions</h1>
+        <p className="text-muted-foreground mb-4 text-center">{error}</p>
+        <Button onClick={() => router.back()} variant="outline">Go Back</Button>
+      </div>
+    );
+  }
+
+  const currency = toQuote?.billingCurrency ?? 'USD';
+
+  return (
+    <div className="min-h-screen bg-muted/20 dark:bg-muted/5 p-2 sm:p-4 md:p-6 lg:p-8">
+      <Card className="max-w-6xl mx-auto shadow-xl">
+        <CardHeader className="border-b bg-primary/5 dark:bg-primary/10">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+            <div>
+              <CardTitle className="text-2xl text-primary flex items-center"><GitCompare className="mr-2 h-6 w-6" /> Compare Quote Versions</CardTitle>
+              <CardDescription>Quotation request {quotationRequestId}</CardDescription>
+            </div>
+            <Button onClick={() => router.back()} variant="outline" size="sm" className="h-8 text-xs">
+              <ArrowLeft className="mr-1.5 h-3.5 w-3.5" /> Back
+            </Button>
+          </div>
+          {versions.length >= 2 && (
+            <div className="flex flex-wrap items-end gap-4 mt-4">
+              {renderVersionSelect(fromVersion, setFromVersion, "Compare")}
+              {renderVersionSelect(toVersion, setToVersion, "With")}
+              <div className="flex items-center gap-2 pb-2">
+                <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                <Label htmlFor="show-unchanged" className="text-sm">Show unchanged lines</Label>
+              </div>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 space-y-6">
+          {versions.length > 0 && (
+            <QuoteDocumentsTable quotationRequestId={quotationRequestId} versions={versions} hasAgency={hasAgency} />
+          )}
+          {versions.length < 2 ? (
+            <p className="text-center text-muted-foreground py-10">
+              {versions.length === 0
+                ? "No quote has been sent for this request yet."
+                : `Only ${versionLabel(versions[0].version)} has been sent so far; there is nothing to compare it with.`}
+            </p>
+          ) : !diff || !fromQuote || !toQuote ? (
+            <div className="flex justify-center py-10"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+          ) : (
+            <>
+              {fromQuote.billingCurrency !== toQuote.billingCurrency && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Different billing currencies</AlertTitle>
+                  <AlertDescription>
+                    {versionLabel(fromQuote.version)} was quoted in {fromQuote.billingCurrency} and {versionLabel(toQuote.version)} in {toQuote.billingCurrency}; price deltas mix both currencies.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <span>{versionLabel(fromQuote.version)}: <strong className="font-code">{formatCurrency(fromQuote.grandTotal, fromQuote.billingCurrency)}</strong></span>
+                <span>{versionLabel(toQuote.version)}: <strong className="font-code">{formatCurrency(toQuote.grandTotal, toQuote.billingCurrency)}</strong></span>
+                <span>Difference: <strong className={cn("font-code", deltaClassName(diff.grandTotalDelta))}>{formatDelta(diff.grandTotalDelta, currency)}</strong></span>
+                <span className="flex gap-1.5">
+                  {(['added', 'removed', 'changed'] as const).map(change => (
+                    <Badge key={change} variant="outline" className={cn("text-xs capitalize", CHANGE_BADGE_STYLES[change])}>{diff.counts[change]} {change}</Badge>
+                  ))}
+                </span>
+              </div>
+
+              {diff.days.map(dayDiff => {
+                const visibleLines = showUnchanged ? dayDiff.lines : dayDiff.lines.filter(line => line.change !== 'unchanged');
+                if (visibleLines.length === 0) return null;
+                return (
+                  <section key={dayDiff.day}>
+                    <h2 className="flex justify-between items-baseline text-lg font-semibold text-primary border-b-2 border-primary/30 pb-1.5 mb-3">
+                      <span>{getDayHeading(dayDiff.day)}</span>
+                      <span className={cn("text-sm font-code", deltaClassName(dayDiff.priceDelta))}>{formatDelta(dayDiff.priceDelta, currency)}</span>
+                    </h2>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[100px]">Type</TableHead>
+                          <TableHead className="min-w-[200px]">Name/Description</TableHead>
+                          <TableHead className="min-w-[150px]">Note</TableHead>
+                          <TableHead className="min-w-[250px]">Configuration Details</TableHead>
+                          <TableHead className="w-[120px]">Excluded Travelers</TableHead>
+                          <TableHead className="text-right w-[100px]">Adult Cost</TableHead>
+                          <TableHead className="text-right w-[100px]">Child Cost</TableHead>
+                          <TableHead className="text-right w-[120px]">Total Cost</TableHead>
+                          <TableHead className="text-right w-[140px]">Change</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {visibleLines.map(line => (
+                          <DetailedSummaryItemRow
+                            key={`${line.id}-${line.change}`}
+                            item={(line.after ?? line.before)!}
+                            currency={line.after ? toQuote.billingCurrency : fromQuote.billingCurrency}
+                            showCosts={true}
+                            className={CHANGE_ROW_STYLES[line.change]}
+                            trailingCell={<ChangeCell line={line} currency={currency} />}
+                          />
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </section>
+                );
+              })}
+              {diff.counts.added + diff.counts.removed + diff.counts.changed === 0 && (
+                <p className="text-center text-muted-foreground py-6">
+                  {versionLabel(fromQuote.version)} and {versionLabel(toQuote.version)} quote the same lines at the same prices.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
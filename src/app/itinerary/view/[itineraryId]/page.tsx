@@ -2,58 +2,43 @@
 "use client";
 
 import * as React from 'react';
-import { useParams, useRouter, useSearchParams } from 'next/navigation';
-import type { TripData, ItineraryItem, CostSummary, DetailedSummaryItem, HotelOccupancyDetail, CurrencyCode, Traveler, CountryItem } from '@/types/itinerary';
-import type { QuotationRequest, QuotationRequestStatus } from '@/types/quotation';
+import { useParams, useRouter } from 'next/navigation';
+import type { TripData, CostSummary, HotelOccupancyDetail, CurrencyCode, Traveler, CountryItem } from '@/types/itinerary';
+import type { QuotationRequest, QuotationStatusChange } from '@/types/quotation';
 import { calculateAllCosts } from '@/lib/calculation-utils';
+import { applySellPricing, toSellPriceCostSummary } from '@/lib/sell-pricing';
+import { useSellPricingContext } from '@/hooks/useMarkupRules';
 import { useServicePrices } from '@/hooks/useServicePrices';
 import { useHotelDefinitions } from '@/hooks/useHotelDefinitions';
 import { useCountries } from '@/hooks/useCountries';
 import { useExchangeRates } from '@/hooks/useExchangeRates';
-import { addDays, format, parseISO, isValid } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Badge } from '@/components/ui/badge';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
-import {
-  Loader2, AlertCircle, CalendarDays, Users, MapPin,
-  Hotel, Car, Ticket, Utensils, ShoppingBag, FileText,
-  ArrowLeft, Globe, Printer, Coins, PackageIcon, MessageSquare, Send, Edit3
-} from 'lucide-react';
-import { formatCurrency, cn, generateGUID } from '@/lib/utils';
-import { CostBreakdownTable } from '@/components/itinerary/cost-breakdown-table';
+import { Loader2, AlertCircle, FileText, ArrowLeft, Printer, Send, Edit3, FileArchive, BedDouble } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { generateGUID } from '@/lib/utils';
 import { DetailsSummaryTable } from '@/components/itinerary/details-summary-table';
 import { useToast } from "@/hooks/use-toast";
+import { apiGet, apiPost, apiPut, ApiError } from '@/lib/api-client';
+import { getSendQuoteStatus } from '@/lib/quotation-workflow';
+import { getBlockingPricingIssues } from '@/lib/pricing-issues';
+import { freezeExchangeRates, withFrozenRates } from '@/lib/exchange-rate-snapshots';
+import { PricingIssuesList } from '@/components/itinerary/pricing-issues-list';
+import { ClientItineraryView } from '@/components/itinerary/client-itinerary-view';
+import { ShareLinksDialog } from '@/components/itinerary/share-links-dialog';
+import { SupplierBookingsDialog } from '@/components/itinerary/supplier-bookings-dialog';
+import { getRoomingLists } from '@/lib/rooming';
 import { useSession } from "next-auth/react"; 
 
-const ITINERARY_DATA_PREFIX = 'itineraryAce_data_';
-const AGENT_QUOTATION_REQUESTS_KEY = 'itineraryAce_agentQuotationRequests';
-const VIEW_MODE_TOKEN = 'full_details_v1';
-const ITINERARY_INDEX_KEY = 'itineraryAce_index';
-
-
-const ITEM_TYPE_ICONS: { [key in ItineraryItem['type']]: React.ElementType } = {
-  transfer: Car,
-  hotel: Hotel,
-  activity: Ticket,
-  meal: Utensils,
-  misc: ShoppingBag,
-};
-
-const BOOKING_STATUS_STYLES: Record<DetailedSummaryItem['bookingStatus'] & string, string> = {
-  Pending: "bg-yellow-100 text-yellow-800 border-yellow-300 dark:bg-yellow-700/20 dark:text-yellow-300 dark:border-yellow-600",
-  Requested: "bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-700/20 dark:text-blue-300 dark:border-blue-600",
-  Confirmed: "bg-green-100 text-green-800 border-green-300 dark:bg-green-700/20 dark:text-green-300 dark:border-green-600",
-  Unavailable: "bg-red-100 text-red-800 border-red-300 dark:bg-red-700/20 dark:text-red-300 dark:border-red-600",
-  Cancelled: "bg-gray-100 text-gray-800 border-gray-300 dark:bg-gray-600/20 dark:text-gray-300 dark:border-gray-500",
-};
+const ITINERARIES_API_PATH = '/api/itineraries';
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
 
 
 export default function ItineraryClientViewPage() {
   const params = useParams();
   const router = useRouter();
-  const searchParams = useSearchParams();
   const itineraryId = params.itineraryId as string;
   const { toast } = useToast();
   const { data: session, status: sessionStatus } = useSession(); 
@@ -63,69 +48,39 @@ export default function ItineraryClientViewPage() {
   const [isLoading, setIsLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
   
-  const viewModeTokenParam = searchParams.get('viewMode');
-  const showCosts = viewModeTokenParam === VIEW_MODE_TOKEN;
-
 
   const { allServicePrices, isLoading: isLoadingServices } = useServicePrices();
   const { allHotelDefinitions, isLoading: isLoadingHotelDefs } = useHotelDefinitions();
   const { countries, isLoading: isLoadingCountries, getCountryById } = useCountries();
   const { getRate, isLoading: isLoadingExchangeRates } = useExchangeRates();
-
-  const saveCurrentItineraryToStorage = React.useCallback((itineraryToSave: TripData) => {
-    try {
-        const now = new Date().toISOString();
-        const dataWithTimestamps: TripData = {
-            ...itineraryToSave,
-            createdAt: itineraryToSave.createdAt || now,
-            updatedAt: now,
-        };
-        localStorage.setItem(`${ITINERARY_DATA_PREFIX}${dataWithTimestamps.id}`, JSON.stringify(dataWithTimestamps));
-        const indexString = localStorage.getItem(ITINERARY_INDEX_KEY);
-        let index: any[] = indexString ? JSON.parse(indexString) : [];
-        const existingEntryIndex = index.findIndex(entry => entry.id === dataWithTimestamps.id);
-        const newEntry = {
-            id: dataWithTimestamps.id,
-            itineraryName: dataWithTimestamps.itineraryName,
-            clientName: dataWithTimestamps.clientName,
-            createdAt: dataWithTimestamps.createdAt,
-            updatedAt: dataWithTimestamps.updatedAt,
-        };
-        if (existingEntryIndex > -1) {
-            index[existingEntryIndex] = newEntry;
-        } else {
-            index.push(newEntry);
-        }
-        localStorage.setItem(ITINERARY_INDEX_KEY, JSON.stringify(index));
-        return dataWithTimestamps;
-    } catch (saveError: any) {
-        console.error("Failed to save itinerary from view page to storage:", saveError);
-        toast({ title: "Save Error", description: `Could not save itinerary: ${saveError.message}`, variant: "destructive" });
-        return itineraryToSave;
-    }
-  }, [toast]);
+  const { context: sellPricingContext, isLoading: isLoadingSellPricing } = useSellPricingContext(tripData?.quotationRequestId);
+  const countryNames = React.useMemo(() => Object.fromEntries(countries.map(country => [country.id, country.name])), [countries]);
+  const roomingLists = React.useMemo(() => (tripData ? getRoomingLists(tripData, allHotelDefinitions) : []), [tripData, allHotelDefinitions]);
 
   React.useEffect(() => {
-    if (itineraryId) {
+    if (!itineraryId) return;
+    const loadItinerary = async () => {
       try {
-        const storedData = localStorage.getItem(`${ITINERARY_DATA_PREFIX}${itineraryId}`);
-        if (storedData) {
-          setTripData(JSON.parse(storedData));
-        } else {
+        setTripData(await apiGet<TripData>(`${ITINERARIES_API_PATH}/${encodeURIComponent(itineraryId)}`));
+      } catch (e) {
+        if (e instanceof ApiError && e.status === 404) {
           setError("Itinerary not found. Please check the ID or link.");
+        } else {
+          console.error("Error loading itinerary from the API:", e);
+          setError("Failed to load itinerary data due to a server error.");
         }
-      } catch (e) {
-        console.error("Error loading itinerary from localStorage:", e);
-        setError("Failed to load itinerary data due to a storage error.");
       }
-    }
+    };
+    loadItinerary();
   }, [itineraryId]);
 
   React.useEffect(() => {
-    if (tripData && !isLoadingServices && !isLoadingHotelDefs && !isLoadingCountries && !isLoadingExchangeRates) {
+    if (tripData && !isLoadingServices && !isLoadingHotelDefs && !isLoadingCountries && !isLoadingExchangeRates && !isLoadingSellPricing) {
       try {
-        const summary = calculateAllCosts(tripData, countries, allServicePrices, allHotelDefinitions, getRate, showCosts);
-        setCostSummary(summary);
+        // Always without costs: they would put net unit prices into the configuration details,
+        // and this page only ever shows sell prices. A sent quote keeps the rates it was sent at.
+        const summary = calculateAllCosts(tripData, countries, allServicePrices, allHotelDefinitions, withFrozenRates(tripData.frozenExchangeRates, getRate), false);
+        setCostSummary(toSellPriceCostSummary(summary, applySellPricing(summary, tripData, sellPricingContext)));
       } catch (calcError: any) {
         console.error("Error calculating costs:", calcError);
         setError(`Failed to calculate itinerary costs: ${calcError.message}`);
@@ -137,73 +92,52 @@ export default function ItineraryClientViewPage() {
          setIsLoading(false);
       }
     }
-  }, [tripData, isLoadingServices, isLoadingHotelDefs, isLoadingCountries, isLoadingExchangeRates, countries, allServicePrices, allHotelDefinitions, getRate, isLoading, error, showCosts]);
+  }, [tripData, isLoadingServices, isLoadingHotelDefs, isLoadingCountries, isLoadingExchangeRates, isLoadingSellPricing, countries, allServicePrices, allHotelDefinitions, getRate, sellPricingContext, isLoading, error]);
 
-  const handleSendQuotationToAgentFromViewPage = React.useCallback(() => {
+  const handleSendQuotationToAgentFromViewPage = React.useCallback(async () => {
     if (!tripData || !tripData.quotationRequestId) {
       toast({ title: "Error", description: "This itinerary is not linked to a quotation request.", variant: "destructive" });
       return;
     }
+    if (!costSummary) {
+      toast({ title: "Error", description: "Prices are still being calculated. Please try again in a moment.", variant: "destructive" });
+      return;
+    }
+    const blockingIssues = getBlockingPricingIssues(costSummary);
+    if (blockingIssues.length > 0) {
+      toast({ title: "Cannot Send Quotation", description: `Fix ${blockingIssues.length} pricing error(s) in the planner first.`, variant: "destructive" });
+      return;
+    }
   
     try {
-      const requestsString = localStorage.getItem(AGENT_QUOTATION_REQUESTS_KEY);
-      if (requestsString) {
-        let allRequests: QuotationRequest[] = JSON.parse(requestsString);
-        const requestIndex = allRequests.findIndex(q => q.id === tripData.quotationRequestId);
-  
-        if (requestIndex > -1) {
-          const currentRequest = allRequests[requestIndex];
-          let newStatus: QuotationRequestStatus = "Quoted: Waiting for TA Feedback";
-          let newVersion = currentRequest.version || 0;
-  
-          if (["New Request Submitted", "Quoted: Revision In Progress"].includes(currentRequest.status)) {
-            newVersion = Math.max(1.0, newVersion); // Ensure version is at least 1.0
-            newStatus = "Quoted: Waiting for TA Feedback";
-          } else if (currentRequest.status === "Quoted: Revision Requested") {
-            newVersion = parseFloat((newVersion + 0.1).toFixed(1));
-            newStatus = "Quoted: Re-quoted";
-          } else { // Subsequent sends or if status is already some form of "quoted"
-            newVersion = parseFloat(((newVersion || tripData.version || 0) + 0.1).toFixed(1));
-            newStatus = "Quoted: Re-quoted";
-          }
-          
-          currentRequest.status = newStatus;
-          currentRequest.linkedItineraryId = tripData.id;
-          currentRequest.adminRevisionNotes = tripData.adminRevisionNotes || undefined; // Take from current tripData
-          currentRequest.version = newVersion;
-          currentRequest.updatedAt = new Date().toISOString();
-          currentRequest.agentRevisionNotes = undefined; // Clear agent notes as admin is sending a new version
-  
-          allRequests[requestIndex] = currentRequest;
-          localStorage.setItem(AGENT_QUOTATION_REQUESTS_KEY, JSON.stringify(allRequests));
-          
-          const updatedTripData = { ...tripData, version: newVersion, updatedAt: new Date().toISOString() };
-          saveCurrentItineraryToStorage(updatedTripData);
-          setTripData(updatedTripData); // Update local state
-          
-          toast({ title: "Quotation Sent", description: `Proposal for Quotation ID ${tripData.quotationRequestId.split('-').pop()} (v${newVersion.toFixed(1)}) marked as ready for agent (Status: ${newStatus}).`, variant: "default" });
-        } else {
-          toast({ title: "Error", description: "Associated quotation request not found in storage.", variant: "destructive" });
-        }
-      } else {
-        toast({ title: "Error", description: "Quotation request data not found in storage.", variant: "destructive" });
+      const currentRequest = await apiGet<QuotationRequest>(`${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(tripData.quotationRequestId)}`);
+      if (currentRequest.linkedItineraryId !== tripData.id) {
+        await apiPut<QuotationRequest>(`${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(currentRequest.id)}`, { ...currentRequest, linkedItineraryId: tripData.id });
       }
+      // The transition bumps the version, freezes this itinerary, its exchange rates and its sell-price
+      // summary as that version, stores the admin notes and clears the agent's revision notes.
+      const newStatus = getSendQuoteStatus(currentRequest);
+      const sentTripData = freezeExchangeRates(tripData, costSummary);
+      const { request: sentRequest } = await apiPost<{ request: QuotationRequest; change: QuotationStatusChange }>(
+        `${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(currentRequest.id)}/transitions`,
+        { toStatus: newStatus, note: tripData.adminRevisionNotes || undefined, snapshot: { tripData: sentTripData, costSummary }, countries },
+      );
+      const newVersion = sentRequest.version || 0;
+
+      const updatedTripData = { ...sentTripData, version: newVersion, updatedAt: new Date().toISOString() };
+      await apiPut<TripData>(`${ITINERARIES_API_PATH}/${encodeURIComponent(updatedTripData.id)}`, updatedTripData);
+      setTripData(updatedTripData); // Update local state
+      
+      toast({ title: "Quotation Sent", description: `Proposal for Quotation ID ${tripData.quotationRequestId.split('-').pop()} (v${newVersion.toFixed(1)}) marked as ready for agent (Status: ${newStatus}).`, variant: "default" });
     } catch (e: any) {
+      if (e instanceof ApiError && e.status === 404) {
+        toast({ title: "Error", description: "Associated quotation request not found.", variant: "destructive" });
+        return;
+      }
       console.error("Error sending quotation from client view:", e);
       toast({ title: "Error", description: `Could not update quotation status: ${e.message}`, variant: "destructive" });
     }
-  }, [tripData, toast, saveCurrentItineraryToStorage]);
-
-
-  const getFormattedDateForDay = (dayNum: number): string => {
-    if (!tripData?.settings.startDate) return `Day ${dayNum}`;
-    try {
-      const date = addDays(parseISO(tripData.settings.startDate), dayNum - 1);
-      return `Day ${dayNum} - ${format(date, "MMMM d, yyyy (EEEE)")}`;
-    } catch (e) {
-      return `Day ${dayNum}`;
-    }
-  };
+  }, [tripData, costSummary, countries, toast]);
 
 
   if (isLoading || sessionStatus === 'loading') {
@@ -237,182 +171,96 @@ export default function ItineraryClientViewPage() {
     );
   }
 
-  const { settings, pax, travelers, days } = tripData;
-  const displayStartDate = settings.startDate && isValid(parseISO(settings.startDate))
-    ? format(parseISO(settings.startDate), "MMMM d, yyyy")
-    : 'N/A';
-  
   const isAdmin = session?.user && (session.user as any).role === 'admin';
+  const blockingIssueCount = getBlockingPricingIssues(costSummary).length;
   const isAgent = session?.user && (session.user as any).role === 'agent';
+  const hasConfirmedItems = Object.values(tripData.days).some(day => day.items.some(item => item.bookingStatus === 'Confirmed'));
 
 
   return (
-    <div className="min-h-screen bg-muted/20 dark:bg-muted/5 p-2 sm:p-4 md:p-6 lg:p-8 print:p-0 print:bg-white">
-      <div className="max-w-4xl mx-auto bg-card shadow-2xl rounded-lg print:shadow-none print:border-none">
-        <CardHeader className="p-4 sm:p-6 border-b print:border-b-2 print:border-black bg-primary/5 dark:bg-primary/10">
-          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
-            <div className="flex-grow">
-              <h1 className="text-2xl sm:text-3xl font-bold text-primary print:text-black">{tripData.itineraryName}</h1>
-              {tripData.clientName && <p className="text-sm sm:text-md text-muted-foreground print:text-gray-700">For: {tripData.clientName}</p>}
-            </div>
-            <div className="flex gap-2 self-start sm:self-center no-print">
-                <Button onClick={() => router.back()} variant="outline" size="sm" className="h-8 text-xs">
-                    <ArrowLeft className="mr-1.5 h-3.5 w-3.5" /> Back
-                </Button>
-            </div>
-          </div>
-          <div className="mt-3 sm:mt-4 grid grid-cols-2 sm:grid-cols-3 gap-x-3 sm:gap-x-4 gap-y-1.5 text-xs sm:text-sm print:text-xs">
-            <div className="flex items-center"><CalendarDays className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Dates:</strong><span className="ml-1.5">{displayStartDate} ({settings.numDays} days)</span></div>
-            <div className="flex items-center"><Users className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Guests:</strong><span className="ml-1.5">{pax.adults} Adult(s){pax.children > 0 && `, ${pax.children} Child(ren)`}</span></div>
-            <div className="flex items-center"><Coins className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Currency:</strong><span className="ml-1.5">{pax.currency}</span></div>
-            {settings.selectedCountries.length > 0 && (
-              <div className="flex items-center col-span-full sm:col-span-1"><Globe className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Countries:</strong><span className="ml-1.5">{settings.selectedCountries.map(id => countries.find(c=>c.id === id)?.name || id).join(', ')}</span></div>
-            )}
-            {settings.selectedProvinces.length > 0 && (
-              <div className="flex items-center col-span-full sm:col-span-2"><MapPin className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Provinces:</strong><span className="ml-1.5">{settings.selectedProvinces.join(', ')}</span></div>
-            )}
-          </div>
-           {tripData.overallBookingStatus && (
-            <div className="mt-2 pt-2 border-t border-primary/10">
-              <Badge variant="outline" className={cn("text-sm font-medium", BOOKING_STATUS_STYLES[tripData.overallBookingStatus] || 'border-gray-300 text-gray-700')}>
-                Overall Status: {tripData.overallBookingStatus}
-              </Badge>
-            </div>
-          )}
-        </CardHeader>
-
-        <CardContent className="p-4 sm:p-6 space-y-6 md:space-y-8 print:p-3 sm:print:p-4">
-          {Object.entries(days)
-            .sort(([dayNumA], [dayNumB]) => parseInt(dayNumA) - parseInt(dayNumB))
-            .map(([dayNumStr, dayItinerary]) => {
-            const dayNum = parseInt(dayNumStr);
-            return (
-              <section key={dayNum} className="mb-5 last:mb-0 print:mb-3 page-break-inside-avoid">
-                <h2 className="text-xl sm:text-2xl font-semibold text-primary border-b-2 border-primary/30 pb-2 mb-4 sm:mb-5 print:text-lg print:border-gray-400 print:pb-1.5 print:mb-3">
-                  {getFormattedDateForDay(dayNum)}
-                </h2>
-                {dayItinerary.items.length === 0 ? (
-                  <div className="text-center py-6 text-muted-foreground bg-muted/20 dark:bg-muted/10 rounded-md border border-dashed print:py-3">
-                    <PackageIcon className="mx-auto h-10 w-10 text-gray-400 dark:text-gray-500 mb-2 print:h-8 print:w-8" />
-                    <p className="text-sm sm:text-md print:text-sm">No activities or services planned for this day.</p>
-                  </div>
-                ) : (
-                  <div className="space-y-4 sm:space-y-5 print:space-y-3">
-                    {dayItinerary.items.map(item => {
-                      const IconComponent = ITEM_TYPE_ICONS[item.type] || FileText;
-                      const detailedItemInfo = costSummary.detailedItems.find(di => di.id === item.id);
-                      const locationDisplay = [detailedItemInfo?.province, detailedItemInfo?.countryName].filter(Boolean).join(', ');
+    <ClientItineraryView
+      tripData={tripData}
+      costSummary={costSummary}
+      showCosts={true}
+      getCountryName={id => countryNames[id] || id}
+      headerActions={
+        <Button onClick={() => router.back()} variant="outline" size="sm" className="h-8 text-xs">
+          <ArrowLeft className="mr-1.5 h-3.5 w-3.5" /> Back
+        </Button>
+      }
+      costSummaryNotice={isAdmin && <PricingIssuesList issues={costSummary.pricingIssues} className="mb-4" />}
+      footer={
+        <>
+          <Button onClick={() => window.print()} variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
+            <Printer className="mr-2 h-4 w-4"/> Print Current View
+          </Button>
 
+          {/* Admin Specific Actions */}
+          {isAdmin && (
+            <>
+              {tripData.quotationRequestId && (
+                <Button
+                  onClick={handleSendQuotationToAgentFromViewPage}
+                  disabled={blockingIssueCount > 0}
+                  title={blockingIssueCount > 0 ? "Fix the pricing errors before sending." : undefined}
+                  size="sm"
+                  className="h-9 text-sm w-full sm:w-auto bg-green-600 hover:bg-green-700 text-white"
+                >
+                  <Send className="mr-2 h-4 w-4"/> Send Quotation to Agent
+                </Button>
+              )}
+              <ShareLinksDialog tripData={tripData} costSummary={costSummary} countryNames={countryNames} disablePriceLinks={blockingIssueCount > 0} />
+              <SupplierBookingsDialog tripData={tripData} onTripDataChange={setTripData} />
+              {hasConfirmedItems && (
+                <Button asChild variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
+                  <a href={`${ITINERARIES_API_PATH}/${encodeURIComponent(itineraryId)}/booking-documents`} download>
+                    <FileArchive className="mr-2 h-4 w-4"/> Vouchers & Service Orders
+                  </a>
+                </Button>
+              )}
+              {roomingLists.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
+                      <BedDouble className="mr-2 h-4 w-4"/> Rooming Lists
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-64">
+                    {roomingLists.map((list, index) => {
+                      const href = `${ITINERARIES_API_PATH}/${encodeURIComponent(itineraryId)}/rooming-lists?hotelId=${encodeURIComponent(list.hotelId)}`;
                       return (
-                        <Card key={item.id} className="shadow-md hover:shadow-lg transition-shadow duration-200 print:shadow-none print:border-gray-300 page-break-inside-avoid overflow-hidden">
-                          <CardHeader className="flex flex-row items-start gap-3 p-3 sm:p-4 bg-muted/30 dark:bg-muted/15 print:bg-gray-50 print:p-2.5 border-b print:border-gray-200">
-                            <IconComponent className="h-5 w-5 sm:h-6 sm:w-6 text-accent mt-0.5 sm:mt-1 flex-shrink-0 print:h-4 print:w-4" />
-                            <div className="flex-grow min-w-0">
-                              <h3 className="text-md sm:text-lg font-semibold text-primary/90 dark:text-primary/80 print:text-base">{item.name}</h3>
-                              {locationDisplay && <p className="text-xs text-muted-foreground print:text-gray-600"><MapPin className="inline-block h-3 w-3 mr-1 -mt-px"/>{locationDisplay}</p>}
-                            </div>
-                          </CardHeader>
-                          <CardContent className="p-3 sm:p-4 space-y-2 text-xs sm:text-sm print:p-2.5 print:text-xs">
-                            {item.note && (
-                              <div className="flex items-start">
-                                <MessageSquare className="h-3.5 w-3.5 mr-2 mt-px text-muted-foreground flex-shrink-0 print:h-3 print:w-3"/>
-                                <p className="whitespace-pre-wrap text-muted-foreground print:text-gray-700">{item.note}</p>
-                              </div>
-                            )}
-                            {detailedItemInfo?.configurationDetails && (
-                              <div>
-                                <strong className="text-foreground/80 print:font-normal">Details:</strong>
-                                <ul className="list-disc list-inside pl-2 mt-0.5 space-y-0.5 text-xs text-muted-foreground print:text-gray-700">
-                                  {detailedItemInfo.configurationDetails.split(';').map(d => d.trim()).filter(Boolean).map((detail, idx) => (
-                                    <li key={idx} className="whitespace-normal break-words">{detail}</li>
-                                  ))}
-                                </ul>
-                              </div>
+                        <React.Fragment key={list.hotelId}>
+                          {index > 0 && <DropdownMenuSeparator />}
+                          <DropdownMenuLabel className="text-xs">
+                            {list.hotelName}
+                            {list.issues.length > 0 && (
+                              <span className="block font-normal text-amber-600" title={list.issues.map(issue => issue.reason).join('\n')}>
+                                {list.issues.length} rooming {list.issues.length === 1 ? 'issue' : 'issues'}: check the room assignments first
+                              </span>
                             )}
-                             {item.type === 'hotel' && detailedItemInfo?.occupancyDetails && detailedItemInfo.occupancyDetails.length > 0 && (
-                                <div className="mt-2 pt-2 border-t border-border/50 dark:border-border/20">
-                                <strong className="text-xs text-foreground/80 print:font-normal">Rooming Configuration:</strong>
-                                <ul className="list-disc list-inside pl-2 mt-0.5 space-y-1 text-xs">
-                                    {detailedItemInfo.occupancyDetails.map((occ, idx) => (
-                                    <li key={idx}>
-                                        <strong>{occ.roomTypeName}</strong> ({occ.numRooms} room{occ.numRooms > 1 ? 's' : ''} x {occ.nights} night{occ.nights > 1 ? 's' : ''})
-                                        {occ.extraBedAdded && " (incl. Extra Bed)"}.
-                                        {occ.assignedTravelerLabels && <span className="block text-muted-foreground print:text-gray-600">Guests: {occ.assignedTravelerLabels}</span>}
-                                        {occ.characteristics && <span className="block text-muted-foreground print:text-gray-600">Details: {occ.characteristics}</span>}
-                                        {showCosts && <span className="block text-muted-foreground print:text-gray-600">Cost: {formatCurrency(occ.totalRoomBlockCost, tripData.pax.currency)}</span>}
-                                    </li>
-                                    ))}
-                                </ul>
-                                </div>
-                            )}
-                            {detailedItemInfo?.bookingStatus && (
-                              <p className="mt-2 pt-2 border-t border-border/50 dark:border-border/20"><strong className="text-foreground/80 print:font-normal">Status:</strong> <Badge variant="outline" className={cn("text-xs", BOOKING_STATUS_STYLES[detailedItemInfo.bookingStatus] || 'border-gray-300 text-gray-700')}>{detailedItemInfo.bookingStatus}</Badge>
-                                {detailedItemInfo.confirmationRef && <span className="ml-2 text-muted-foreground print:text-gray-600">(Ref: {detailedItemInfo.confirmationRef})</span>}
-                              </p>
-                            )}
-                            {detailedItemInfo?.excludedTravelers && detailedItemInfo.excludedTravelers !== "None" && (
-                              <p className="text-xs text-amber-700 dark:text-amber-500 print:text-gray-600 mt-1.5">Excludes: {detailedItemInfo.excludedTravelers}</p>
-                            )}
-                          </CardContent>
-                        </Card>
+                          </DropdownMenuLabel>
+                          <DropdownMenuItem asChild><a href={`${href}&format=csv`} download>Download CSV</a></DropdownMenuItem>
+                          <DropdownMenuItem asChild><a href={`${href}&format=pdf`} target="_blank" rel="noopener noreferrer">Open to Print</a></DropdownMenuItem>
+                        </React.Fragment>
                       );
                     })}
-                  </div>
-                )}
-              </section>
-            );
-          })}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              <Button onClick={() => router.push(`/planner?itineraryId=${itineraryId}`)} variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
+                <Edit3 className="mr-2 h-4 w-4"/> Edit in Planner
+              </Button>
+            </>
+          )}
 
-          <section className="mt-6 pt-5 border-t print:mt-4 print:pt-3 print:border-gray-300 page-break-before-avoid">
-            <h2 className="text-lg sm:text-xl font-semibold text-primary mb-3 sm:mb-4 print:text-base">Cost Summary</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
-              <div className="bg-muted/20 dark:bg-muted/10 p-3 sm:p-4 rounded-md border">
-                <h3 className="text-sm sm:text-md font-semibold mb-1.5 print:text-sm text-foreground/90">Per Person Total:</h3>
-                <CostBreakdownTable summary={costSummary} currency={pax.currency} travelers={travelers} showCosts={true} />
-              </div>
-              <div className="text-left md:text-right bg-muted/20 dark:bg-muted/10 p-3 sm:p-4 rounded-md border">
-                <h3 className="text-sm sm:text-md font-semibold mb-0.5 print:text-sm text-foreground/90">Grand Total:</h3>
-                <p className="text-xl sm:text-2xl font-bold text-accent print:text-lg">{formatCurrency(costSummary.grandTotal, pax.currency)}</p>
-                {settings.budget && (
-                  <p className="text-xs text-muted-foreground print:text-gray-600">
-                    Budget: {formatCurrency(settings.budget, pax.currency)}
-                    {costSummary.grandTotal > settings.budget && <Badge variant="destructive" className="ml-1.5 text-xs">Over Budget</Badge>}
-                  </p>
-                )}
-              </div>
-            </div>
-            {!showCosts && <p className="text-sm text-muted-foreground text-center mt-4 print:block hidden">Detailed individual service costs are hidden in this view.</p>}
-          </section>
-          
-        </CardContent>
-         <div className="p-4 sm:p-6 pt-0 text-center no-print flex flex-col sm:flex-row justify-center items-center gap-3">
-            <Button onClick={() => window.print()} variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
-                <Printer className="mr-2 h-4 w-4"/> Print Current View
+          {/* Agent Specific Actions */}
+          {isAgent && (
+            <Button onClick={() => router.push('/agent/my-quotation-requests')} variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
+              <ArrowLeft className="mr-2 h-4 w-4"/> Back to My Requests
             </Button>
-            
-            {/* Admin Specific Actions */}
-            {isAdmin && (
-              <>
-                {tripData.quotationRequestId && (
-                  <Button onClick={handleSendQuotationToAgentFromViewPage} size="sm" className="h-9 text-sm w-full sm:w-auto bg-green-600 hover:bg-green-700 text-white">
-                    <Send className="mr-2 h-4 w-4"/> Send Quotation to Agent
-                  </Button>
-                )}
-                <Button onClick={() => router.push(`/planner?itineraryId=${itineraryId}`)} variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
-                  <Edit3 className="mr-2 h-4 w-4"/> Edit in Planner
-                </Button>
-              </>
-            )}
-
-            {/* Agent Specific Actions */}
-            {isAgent && (
-              <Button onClick={() => router.push('/agent/my-quotation-requests')} variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
-                <ArrowLeft className="mr-2 h-4 w-4"/> Back to My Requests
-              </Button>
-            )}
-        </div>
-      </div>
-    </div>
+          )}
+        </>
+      }
+    />
   );
 }
-
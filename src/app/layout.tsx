@@ -1,18 +1,19 @@
 
 /**
  * @fileoverview This file defines the root layout for the Next.js application.
- * It wraps all pages, sets up global styles, and includes components like the Toaster
- * and AuthProvider that need to be present on every page. It also defines global metadata for the application.
+ * It wraps all pages, sets up global styles, and includes components like the Toaster,
+ * AuthProvider and the notification bell that need to be present on every page. It also defines global metadata for the application.
  *
  * @bangla এই ফাইলটি Next.js অ্যাপ্লিকেশনের রুট লেআউট নির্ধারণ করে।
  * এটি সমস্ত পৃষ্ঠাগুলিকে আবৃত করে, গ্লোবাল স্টাইল সেট আপ করে এবং টোস্টার ও AuthProvider-এর মতো
- * কম্পোনেন্টগুলি অন্তর্ভুক্ত করে যা প্রতিটি পৃষ্ঠায় উপস্থিত থাকা প্রয়োজন। এটি অ্যাপ্লিকেশনের
+ * কম্পোনেন্টগুলি এবং নোটিফিকেশন বেল অন্তর্ভুক্ত করে যা প্রতিটি পৃষ্ঠায় উপস্থিত থাকা প্রয়োজন। এটি অ্যাপ্লিকেশনের
  * জন্য গ্লোবাল মেটাডেটাও নির্ধারণ করে।
  */
 import type { Metadata } from 'next';
 import './globals.css';
 import { Toaster } from "@/components/ui/toaster"; // Assuming this is correct path
 import { AuthProvider } from '@/components/auth-provider'; // Import the named export
+import { NotificationBell } from '@/components/notification-bell';
 import { Inter } from 'next/font/google';
 
 const inter = Inter({ subsets: ['latin'], variable: '--font-inter' });
@@ -33,6 +34,7 @@ export default function RootLayout({
       <body className="font-body antialiased bg-background text-foreground" suppressHydrationWarning>
         <AuthProvider>
           {children}
+          <NotificationBell />
           <Toaster /> {/* Assuming this is correct placement */}
         </AuthProvider>
       </body>
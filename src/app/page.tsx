@@ -15,9 +15,11 @@
 import Link from 'next/link';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
-import { LayoutDashboard, Route, ListOrdered, DollarSign, Wand2, Briefcase, Map, Users, BadgeDollarSign, ListChecks, FileLock2 } from 'lucide-react';
+import { LayoutDashboard, Route, ListOrdered, DollarSign, Wand2, Map, Users, BadgeDollarSign, ListChecks, FileLock2, DatabaseZap, Percent, Truck, ClipboardList, Mail } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import React from 'react';
+import { RoleGuard } from '@/components/role-guard';
+import { AuthButton } from '@/components/auth-button';
 
 interface DashboardCardProps {
   title: string;
@@ -53,97 +55,126 @@ function DashboardCard({ title, description, href, icon: Icon, buttonText = "Man
 
 export default function AdminDashboardPage() {
   return (
-    <main className="min-h-screen bg-background flex flex-col items-center p-4 md:p-6 lg:p-8">
-      <div className="w-full max-w-6xl">
-        <header className="mb-8 sm:mb-10 text-center">
-          <div className="flex justify-between items-center w-full mb-4">
-            <div></div> {/* Spacer */}
-            <div className="inline-block p-3 sm:p-4 bg-primary/10 rounded-full">
-              <LayoutDashboard className="h-10 w-10 sm:h-12 sm:w-12 text-primary" />
+    <RoleGuard roles={['admin']}>
+      <main className="min-h-screen bg-background flex flex-col items-center p-4 md:p-6 lg:p-8">
+        <div className="w-full max-w-6xl">
+          <header className="mb-8 sm:mb-10 text-center">
+            <div className="flex justify-between items-center w-full mb-4">
+              <div></div> {/* Spacer */}
+              <div className="inline-block p-3 sm:p-4 bg-primary/10 rounded-full">
+                <LayoutDashboard className="h-10 w-10 sm:h-12 sm:w-12 text-primary" />
+              </div>
+              <div className="self-start"><AuthButton /></div>
             </div>
-            <div className="self-start"> {/* Placeholder for potential future buttons like login/logout */} </div>
-          </div>
-          <h1 className="text-3xl sm:text-4xl font-bold text-primary tracking-tight">Admin Dashboard</h1>
-          <p className="mt-2 text-md sm:text-lg text-muted-foreground">
-            Oversee and manage all aspects of your Itinerary Ace application.
-          </p>
-        </header>
+            <h1 className="text-3xl sm:text-4xl font-bold text-primary tracking-tight">Admin Dashboard</h1>
+            <p className="mt-2 text-md sm:text-lg text-muted-foreground">
+              Oversee and manage all aspects of your Itinerary Ace application.
+            </p>
+          </header>
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
-           <DashboardCard
-            title="Itinerary Creation Suite"
-            description="Craft new itineraries, plan day-by-day activities, and calculate costs with our powerful planner."
-            href="/planner"
-            icon={Route}
-            buttonText="Launch Planner"
-            className="lg:col-span-1 bg-accent/5 border-accent/30"
-          />
-          <DashboardCard
-            title="Manage Quotation Requests"
-            description="View and process new quotation requests from agents. Create itinerary proposals."
-            href="/admin/quotation-requests"
-            icon={ListChecks}
-            buttonText="View Requests"
-          />
-          <DashboardCard
-            title="Manage Saved Itineraries"
-            description="View, edit, and organize all client itineraries. Track progress and manage details."
-            href="/admin/itineraries"
-            icon={ListOrdered}
-            buttonText="View Itineraries"
-          />
-          <DashboardCard
-            title="Manage Service Prices"
-            description="Set and adjust pricing for all services: hotels, activities, transfers, meals, and miscellaneous items."
-            href="/admin/pricing"
-            icon={DollarSign}
-            buttonText="Update Prices"
-          />
-          <DashboardCard
-            title="Location Management"
-            description="Define and manage countries and their associated provinces/cities for tour operations and pricing."
-            href="/admin/locations"
-            icon={Map}
-            buttonText="Manage Locations"
-          />
-          <DashboardCard
-            title="Currency Management"
-            description="Manage currency codes, exchange rates, conversion markups, and perform currency conversions."
-            href="/admin/currencies-management"
-            icon={BadgeDollarSign}
-            buttonText="Manage Currencies & Rates"
-          />
-           <DashboardCard
-            title="AI Image Describer"
-            description="Upload an image and let AI provide a detailed description. Useful for content creation."
-            href="/image-describer"
-            icon={Wand2}
-            buttonText="Describe Image"
-          />
-          <DashboardCard
-            title="Manage Agencies & Agents"
-            description="Administer travel agencies and their affiliated agents."
-            href="/admin/agencies"
-            icon={Users}
-            buttonText="Manage Agencies"
-          />
-           <DashboardCard
-            title="Secure Documents"
-            description="Access confidential documents and resources (password protected)."
-            href="/admin/documents"
-            icon={FileLock2}
-            buttonText="Access Documents"
-          />
-           <DashboardCard
-            title="Agent Tools & Portal"
-            description="Access the dashboard designed for travel agents to manage their specific tasks and clients."
-            href="/agent"
-            icon={Briefcase}
-            buttonText="Go to Agent Portal"
-            className="border-secondary"
-          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
+             <DashboardCard
+              title="Itinerary Creation Suite"
+              description="Craft new itineraries, plan day-by-day activities, and calculate costs with our powerful planner."
+              href="/planner"
+              icon={Route}
+              buttonText="Launch Planner"
+              className="lg:col-span-1 bg-accent/5 border-accent/30"
+            />
+            <DashboardCard
+              title="Manage Quotation Requests"
+              description="View and process new quotation requests from agents. Create itinerary proposals."
+              href="/admin/quotation-requests"
+              icon={ListChecks}
+              buttonText="View Requests"
+            />
+            <DashboardCard
+              title="Manage Saved Itineraries"
+              description="View, edit, and organize all client itineraries. Track progress and manage details."
+              href="/admin/itineraries"
+              icon={ListOrdered}
+              buttonText="View Itineraries"
+            />
+            <DashboardCard
+              title="Manage Service Prices"
+              description="Set and adjust pricing for all services: hotels, activities, transfers, meals, and miscellaneous items."
+              href="/admin/pricing"
+              icon={DollarSign}
+              buttonText="Update Prices"
+            />
+            <DashboardCard
+              title="Markup Rules"
+              description="Set the markups that turn net cost into sell prices, by agency, service category, country and season."
+              href="/admin/markup-rules"
+              icon={Percent}
+              buttonText="Manage Markups"
+            />
+            <DashboardCard
+              title="Suppliers"
+              description="Keep the hotels, transfer companies and tour operators you book with, their contacts and terms."
+              href="/admin/suppliers"
+              icon={Truck}
+              buttonText="Manage Suppliers"
+            />
+            <DashboardCard
+              title="Booking Operations"
+              description="Work through the pending, requested and unavailable services of upcoming trips, soonest departure first."
+              href="/admin/operations"
+              icon={ClipboardList}
+              buttonText="Open Operations"
+            />
+            <DashboardCard
+              title="Email Outbox"
+              description="Follow the delivery of every email sent to agents, admins and suppliers, and retry those that did not go out."
+              href="/admin/email-outbox"
+              icon={Mail}
+              buttonText="Open Outbox"
+            />
+            <DashboardCard
+              title="Location Management"
+              description="Define and manage countries and their associated provinces/cities for tour operations and pricing."
+              href="/admin/locations"
+              icon={Map}
+              buttonText="Manage Locations"
+            />
+            <DashboardCard
+              title="Currency Management"
+              description="Manage currency codes, exchange rates, conversion markups, and perform currency conversions."
+              href="/admin/currencies-management"
+              icon={BadgeDollarSign}
+              buttonText="Manage Currencies & Rates"
+            />
+             <DashboardCard
+              title="AI Image Describer"
+              description="Upload an image and let AI provide a detailed description. Useful for content creation."
+              href="/image-describer"
+              icon={Wand2}
+              buttonText="Describe Image"
+            />
+            <DashboardCard
+              title="Manage Agencies & Agents"
+              description="Administer travel agencies and their affiliated agents."
+              href="/admin/agencies"
+              icon={Users}
+              buttonText="Manage Agencies"
+            />
+            <DashboardCard
+              title="Import Browser Data"
+              description="One-time migration of itineraries, requests and master data saved in this browser's local storage into the database."
+              href="/admin/local-storage-import"
+              icon={DatabaseZap}
+              buttonText="Start Import"
+            />
+             <DashboardCard
+              title="Software Documentation"
+              description="Internal documentation of features, roles and integration notes for administrators."
+              href="/admin/documents"
+              icon={FileLock2}
+              buttonText="Read Documents"
+            />
+          </div>
         </div>
-      </div>
-    </main>
+      </main>
+    </RoleGuard>
   );
 }
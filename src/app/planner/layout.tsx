@@ -0,0 +1,10 @@
+/**
+ * @fileoverview Layout for the itinerary planner, which is an admin tool.
+ *
+ * @bangla ভ্রমণপথ প্ল্যানারের লেআউট, যা একটি অ্যাডমিন টুল।
+ */
+import { RoleGuard } from '@/components/role-guard';
+
+export default function PlannerLayout({ children }: { children: React.ReactNode }) {
+  return <RoleGuard roles={['admin']}>{children}</RoleGuard>;
+}
@@ -26,6 +26,7 @@ export default function PlannerPage() {
     handleUpdateTripData,
     handleUpdateSettings,
     handleUpdatePax,
+    handleUpdateTravelers,
     handleManualSave,
     handleSendQuotationToAgent,
   } = useItineraryManager();
@@ -49,6 +50,7 @@ export default function PlannerPage() {
           onUpdateTripData={handleUpdateTripData}
           onUpdateSettings={handleUpdateSettings}
           onUpdatePax={handleUpdatePax}
+          onUpdateTravelers={handleUpdateTravelers}
           onManualSave={handleManualSave}
           quotationRequestDetails={currentQuotationRequest} // Pass it to the planner
         />
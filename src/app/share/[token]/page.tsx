@@ -0,0 +1,96 @@
+/**
+ * @fileoverview The page a client opens from a share link. It needs no account: the token in the
+ * URL is checked by `/api/share/[token]`, which returns the itinerary cut down to the link's scope.
+ * Quote version links let the client accept the quote or ask for changes. Expired, revoked and
+ * invalid links show the reason instead.
+ *
+ * @bangla শেয়ার লিঙ্ক থেকে ক্লায়েন্ট যে পৃষ্ঠাটি খোলেন। এর কোনো অ্যাকাউন্ট লাগে না: URL-এর টোকেনটি
+ * `/api/share/[token]` যাচাই করে, যা লিঙ্কের স্কোপ অনুযায়ী ছাঁটা ভ্রমণপথ ফেরত দেয়। উদ্ধৃতি সংস্করণের লিঙ্কে
+ * ক্লায়েন্ট উদ্ধৃতি গ্রহণ করতে বা পরিবর্তন চাইতে পারেন। মেয়াদোত্তীর্ণ, বাতিল এবং অবৈধ লিঙ্কগুলি এর পরিবর্তে
+ * কারণটি দেখায়।
+ */
+"use client";
+
+import * as React from 'react';
+import { useParams } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import type { SharedItinerary } from '@/types/sharing';
+import { Button } from '@/components/ui/button';
+import { Loader2, AlertCircle, Printer } from 'lucide-react';
+import { ClientItineraryView } from '@/components/itinerary/client-itinerary-view';
+import { QuoteResponsePanel } from '@/components/itinerary/quote-response-panel';
+import { apiGet } from '@/lib/api-client';
+
+const SHARE_API_PATH = '/api/share';
+
+export default function SharedItineraryPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const [shared, setShared] = React.useState<SharedItinerary | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!token) return;
+    const loadSharedItinerary = async () => {
+      try {
+        setShared(await apiGet<SharedItinerary>(`${SHARE_API_PATH}/${encodeURIComponent(token)}`));
+      } catch (e: any) {
+        console.error("Error opening share link:", e);
+        setError(e.message || "The itinerary could not be loaded.");
+      }
+    };
+    loadSharedItinerary();
+  }, [token]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col justify-center items-center min-h-screen bg-background p-4">
+        <AlertCircle className="h-12 w-12 text-destructive mb-4" />
+        <h1 className="text-xl font-semibold text-destructive mb-2">Itinerary Unavailable</h1>
+        <p className="text-muted-foreground text-center">{error}</p>
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="flex flex-col justify-center items-center min-h-screen bg-background p-4">
+        <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
+        <p className="text-lg text-muted-foreground">Loading Itinerary...</p>
+      </div>
+    );
+  }
+
+  return (
+    <ClientItineraryView
+      tripData={shared.tripData}
+      costSummary={shared.costSummary}
+      showCosts={shared.showCosts}
+      getCountryName={id => shared.countryNames[id] || id}
+      headerActions={
+        <Button onClick={() => window.print()} variant="outline" size="sm" className="h-8 text-xs">
+          <Printer className="mr-1.5 h-3.5 w-3.5" /> Print
+        </Button>
+      }
+      footer={
+        <div className="flex flex-col items-center gap-3 w-full">
+          {shared.response && shared.quoteVersion !== undefined && (
+            <div className="flex flex-col sm:flex-row justify-center items-center gap-3 w-full">
+              <QuoteResponsePanel
+                token={token}
+                quoteVersion={shared.quoteVersion}
+                grandTotal={shared.costSummary.grandTotal}
+                currency={shared.tripData.pax.currency}
+                response={shared.response}
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {shared.quoteVersion !== undefined && `Quote v${shared.quoteVersion.toFixed(1)} · `}
+            This link is valid until {format(parseISO(shared.expiresAt), "MMMM d, yyyy")}.
+          </p>
+        </div>
+      }
+    />
+  );
+}
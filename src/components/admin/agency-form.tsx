@@ -1,12 +1,13 @@
 /**
  * @fileoverview This component provides a form for creating or editing agency details.
  * It includes fields for agency name, address (street, city, postal code, country),
- * contact email, and phone number. The form uses Zod for validation and interacts
- * with submit/cancel handlers provided by its parent component.
+ * contact email, phone number, and the brand colour and signature of the agency's emails. The
+ * form uses Zod for validation and interacts with submit/cancel handlers provided by its parent
+ * component.
  *
  * @bangla এই কম্পোনেন্টটি এজেন্সি বিবরণ তৈরি বা সম্পাদনা করার জন্য একটি ফর্ম সরবরাহ করে।
- * এটিতে এজেন্সির নাম, ঠিকানা (রাস্তা, শহর, পোস্টাল কোড, দেশ), যোগাযোগের ইমেল এবং ফোন
- * নম্বরের জন্য ক্ষেত্র অন্তর্ভুক্ত রয়েছে। ফর্মটি বৈধতা যাচাইয়ের জন্য Zod ব্যবহার করে
+ * এটিতে এজেন্সির নাম, ঠিকানা (রাস্তা, শহর, পোস্টাল কোড, দেশ), যোগাযোগের ইমেল, ফোন
+ * নম্বর এবং এজেন্সির ইমেলের ব্র্যান্ড রঙ ও স্বাক্ষরের জন্য ক্ষেত্র অন্তর্ভুক্ত রয়েছে। ফর্মটি বৈধতা যাচাইয়ের জন্য Zod ব্যবহার করে
  * এবং এর প্যারেন্ট কম্পোনেন্ট দ্বারা সরবরাহ করা সাবমিট/বাতিল হ্যান্ডলারগুলির সাথে ইন্টারঅ্যাক্ট করে।
  */
 "use client";
@@ -28,6 +29,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useCountries } from '@/hooks/useCountries';
 import { Loader2 } from 'lucide-react';
@@ -52,6 +54,7 @@ export function AgencyForm({ initialData, onSubmit, onCancel }: AgencyFormProps)
       contactEmail: initialData?.contactEmail || "",
       contactPhone: initialData?.contactPhone || "",
       preferredCurrency: initialData?.preferredCurrency || ("USD" as CurrencyCode),
+      commissionPercentage: initialData?.commissionPercentage ?? 0,
     },
   });
 
@@ -61,6 +64,7 @@ export function AgencyForm({ initialData, onSubmit, onCancel }: AgencyFormProps)
         ...initialData,
         mainAddress: initialData.mainAddress || { street: "", city: "", postalCode: "", countryId: "" },
         preferredCurrency: initialData.preferredCurrency || ("USD" as CurrencyCode),
+        commissionPercentage: initialData.commissionPercentage ?? 0,
       });
     } else if (!isLoadingCountries && countries.length > 0 && !form.getValues('mainAddress.countryId') && !initialData) {
         form.setValue('mainAddress.countryId', countries[0].id);
@@ -125,7 +129,7 @@ export function AgencyForm({ initialData, onSubmit, onCancel }: AgencyFormProps)
             />
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <FormField
                 control={form.control}
                 name="contactEmail"
@@ -164,8 +168,47 @@ export function AgencyForm({ initialData, onSubmit, onCancel }: AgencyFormProps)
                     </FormItem>
                 )}
             />
+            <FormField
+                control={form.control}
+                name="commissionPercentage"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Commission (%)</FormLabel>
+                    <FormControl><Input type="number" min={0} max={100} step="0.1" placeholder="10" {...field} value={field.value ?? ''} /></FormControl>
+                    <FormDescription>Share of the sell price paid to the agency.</FormDescription>
+                    <FormMessage />
+                    </FormItem>
+                )}
+            />
         </div>
 
+        <FormField
+          control={form.control}
+          name="brandColor"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email Brand Colour (Optional)</FormLabel>
+              <div className="flex items-center gap-2">
+                <FormControl><Input placeholder="#1d4ed8" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value.trim() || undefined)} className="max-w-[10rem]" /></FormControl>
+                {field.value && <span className="h-6 w-6 rounded border" style={{ backgroundColor: field.value }} />}
+              </div>
+              <FormDescription>Accent of the emails the agency's agents receive about their requests.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="emailSignature"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email Signature (Optional)</FormLabel>
+              <FormControl><Textarea rows={3} placeholder={"Kind regards,\nThe Sunshine Travel team"} {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value || undefined)} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="flex justify-end space-x-3 pt-4">
           <Button type="button" variant="outline" onClick={onCancel} disabled={form.formState.isSubmitting}>
             Cancel
@@ -143,6 +143,7 @@ export function AgencyManager() {
                     {agency.contactEmail && <p className="flex items-center"><Mail className="h-3 w-3 mr-1.5 flex-shrink-0" /> {agency.contactEmail}</p>}
                     {agency.contactPhone && <p className="flex items-center"><Phone className="h-3 w-3 mr-1.5 flex-shrink-0" /> {agency.contactPhone}</p>}
                     {agency.preferredCurrency && <p className="flex items-center"><BadgeDollarSign className="h-3 w-3 mr-1.5 flex-shrink-0 text-green-600" /> Default Billing: <Badge variant="outline" className="ml-1 border-green-500/50 text-green-700">{agency.preferredCurrency}</Badge></p>}
+                    {!!agency.commissionPercentage && <p className="flex items-center"><BadgeDollarSign className="h-3 w-3 mr-1.5 flex-shrink-0 text-green-600" /> Commission: <Badge variant="outline" className="ml-1">{agency.commissionPercentage}%</Badge></p>}
 
                     <Separator className="my-2.5" />
                     <h4 className="text-sm font-medium text-foreground/90 flex items-center"><UsersIcon className="mr-1.5 h-4 w-4"/>Affiliated Agents ({affiliatedAgents.length})</h4>
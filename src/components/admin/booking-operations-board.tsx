@@ -0,0 +1,193 @@
+/**
+ * @fileoverview This component is the booking operations dashboard: every upcoming trip with items
+ * that are still pending, requested or unavailable, soonest departure first. Items can be picked
+ * one by one or per trip and moved to another booking status together; supplier requests and
+ * confirmation numbers stay on each itinerary's own page.
+ *
+ * @bangla এই কম্পোনেন্টটি বুকিং অপারেশনস ড্যাশবোর্ড: যে আসন্ন ভ্রমণগুলির আইটেম এখনও পেন্ডিং, অনুরোধকৃত বা অনুপলব্ধ,
+ * সবচেয়ে কাছের যাত্রা আগে। আইটেমগুলি একে একে বা ভ্রমণ ধরে বেছে একসাথে অন্য বুকিং স্ট্যাটাসে নেওয়া যায়; সরবরাহকারী
+ * অনুরোধ ও নিশ্চিতকরণ নম্বর প্রতিটি ভ্রমণপথের নিজস্ব পৃষ্ঠায় থাকে।
+ */
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { BOOKING_STATUSES, type BookingStatus } from '@/types/itinerary';
+import { OUTSTANDING_BOOKING_STATUSES, OVERALL_BOOKING_STATUS_LABELS, type OutstandingBookingStatus } from '@/types/booking';
+import { Button } from "@/components/ui/button";
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardList, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { BOOKING_STATUS_STYLES } from '@/components/itinerary/client-itinerary-view';
+import { ITEM_TYPE_LABELS } from '@/lib/client-item-details';
+import { useBookingOperations, type BookingItemRef } from '@/hooks/useBookingOperations';
+import { useToast } from "@/hooks/use-toast";
+import { cn } from '@/lib/utils';
+
+const ALL_STATUSES = "all";
+const URGENT_DAYS = 7;
+
+const itemKey = ({ itineraryId, itemId }: BookingItemRef) => `${itineraryId}:${itemId}`;
+
+const departureLabel = (days: number) => (days === 0 ? "Departs today" : days === 1 ? "Tomorrow" : `In ${days} days`);
+
+export function BookingOperationsBoard() {
+  const { trips, isLoading, reload, updateStatuses } = useBookingOperations();
+  const [statusFilter, setStatusFilter] = React.useState<OutstandingBookingStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [selected, setSelected] = React.useState<Map<string, BookingItemRef>>(new Map());
+  const [targetStatus, setTargetStatus] = React.useState<BookingStatus>('Requested');
+  const [isUpdating, setIsUpdating] = React.useState(false);
+  const { toast } = useToast();
+
+  const visibleTrips = React.useMemo(() => trips
+    .map(trip => ({ ...trip, items: trip.items.filter(item => statusFilter === ALL_STATUSES || item.bookingStatus === statusFilter) }))
+    .filter(trip => trip.items.length > 0), [trips, statusFilter]);
+
+  // Drop selections that are no longer listed after a reload or a filter change.
+  React.useEffect(() => {
+    const listed = new Set(visibleTrips.flatMap(trip => trip.items.map(item => itemKey({ itineraryId: trip.itineraryId, itemId: item.itemId }))));
+    setSelected(prev => new Map([...prev].filter(([key]) => listed.has(key))));
+  }, [visibleTrips]);
+
+  const toggle = (refs: BookingItemRef[], checked: boolean) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      refs.forEach(ref => (checked ? next.set(itemKey(ref), ref) : next.delete(itemKey(ref))));
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    setIsUpdating(true);
+    try {
+      const { updated, skipped } = await updateStatuses([...selected.values()], targetStatus);
+      setSelected(new Map());
+      toast({
+        title: "Booking Statuses Updated",
+        description: `${updated} item${updated === 1 ? '' : 's'} set to ${targetStatus}.${skipped > 0 ? ` ${skipped} no longer existed.` : ''}`,
+      });
+    } catch (error: any) {
+      console.error("Failed to update booking statuses:", error);
+      toast({ title: "Error", description: `Could not update the booking statuses: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const outstandingCount = trips.reduce((count, trip) => count + trip.items.length, 0);
+
+  return (
+    <div className="py-4 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {isLoading ? "Loading..." : `${outstandingCount} item${outstandingCount === 1 ? '' : 's'} to book across ${trips.length} upcoming trip${trips.length === 1 ? '' : 's'}.`}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={statusFilter} onValueChange={value => setStatusFilter(value as typeof statusFilter)}>
+            <SelectTrigger className="h-9 w-44 text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All outstanding</SelectItem>
+              {OUTSTANDING_BOOKING_STATUSES.map(status => <SelectItem key={status} value={status}>{status} only</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="h-9" onClick={reload} disabled={isLoading}>
+            <RefreshCw className={cn("mr-2 h-4 w-4", isLoading && "animate-spin")} /> Refresh
+          </Button>
+        </div>
+      </div>
+
+      {selected.size > 0 && (
+        <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 rounded-md border bg-muted/60 p-2 backdrop-blur">
+          <span className="text-sm font-medium mr-2">{selected.size} selected</span>
+          <Select value={targetStatus} onValueChange={value => setTargetStatus(value as BookingStatus)}>
+            <SelectTrigger className="h-8 w-40 text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {BOOKING_STATUSES.map(status => <SelectItem key={status} value={status}>Set to {status}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="h-8 bg-accent hover:bg-accent/90 text-accent-foreground" onClick={handleApply} disabled={isUpdating}>
+            {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Apply
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8" onClick={() => setSelected(new Map())} disabled={isUpdating}>Clear</Button>
+        </div>
+      )}
+
+      {isLoading && trips.length === 0 ? (
+        <p className="text-center py-10 text-muted-foreground">Loading booking operations...</p>
+      ) : visibleTrips.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-muted-foreground/30 rounded-lg">
+          <ClipboardList className="mx-auto h-12 w-12 text-muted-foreground" />
+          <p className="mt-4 text-muted-foreground text-lg">Nothing left to book.</p>
+          <p className="text-sm text-muted-foreground mt-2">Every item of the upcoming trips is confirmed or cancelled.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10" />
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleTrips.map(trip => {
+              const refs = trip.items.map(item => ({ itineraryId: trip.itineraryId, itemId: item.itemId }));
+              const selectedInTrip = refs.filter(ref => selected.has(itemKey(ref))).length;
+              return (
+                <React.Fragment key={trip.itineraryId}>
+                  <TableRow className="bg-muted/40 hover:bg-muted/40">
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedInTrip === refs.length ? true : selectedInTrip > 0 ? 'indeterminate' : false}
+                        onCheckedChange={checked => toggle(refs, checked === true)}
+                        aria-label={`Select all items of ${trip.itineraryName}`}
+                      />
+                    </TableCell>
+                    <TableCell colSpan={4}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={trip.daysToDeparture <= URGENT_DAYS ? 'destructive' : 'outline'} className="text-xs">
+                          {departureLabel(trip.daysToDeparture)}
+                        </Badge>
+                        <Link href={`/itinerary/view/${trip.itineraryId}`} className="font-semibold hover:underline inline-flex items-center">
+                          {trip.itineraryName} <ExternalLink className="ml-1 h-3 w-3" />
+                        </Link>
+                        <span className="text-sm text-muted-foreground">
+                          {trip.clientName || "No client name"} · departs {format(parseISO(trip.startDate), 'd MMM yyyy')}
+                          {trip.quotationRequestId && ` · ${trip.quotationRequestId}`}
+                        </span>
+                        <Badge variant="secondary" className="text-xs ml-auto">{OVERALL_BOOKING_STATUS_LABELS[trip.overallBookingStatus]}</Badge>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {trip.items.map(item => {
+                    const ref = { itineraryId: trip.itineraryId, itemId: item.itemId };
+                    return (
+                      <TableRow key={itemKey(ref)}>
+                        <TableCell>
+                          <Checkbox checked={selected.has(itemKey(ref))} onCheckedChange={checked => toggle([ref], checked === true)} aria-label={`Select ${item.name}`} />
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {item.date ? format(parseISO(item.date), 'EEE, d MMM') : `Day ${item.day}`}
+                        </TableCell>
+                        <TableCell className="text-xs">{ITEM_TYPE_LABELS[item.type]}</TableCell>
+                        <TableCell className="text-sm">{item.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={cn("text-xs", BOOKING_STATUS_STYLES[item.bookingStatus])}>{item.bookingStatus}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </React.Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
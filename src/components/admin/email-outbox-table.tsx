@@ -0,0 +1,144 @@
+/**
+ * @fileoverview This component lists the email outbox, newest first: each message's template,
+ * recipient, subject and delivery state with its attempts and last error. A pending or failed
+ * message can be retried at once, and a delivery of everything due can be run by hand.
+ *
+ * @bangla এই কম্পোনেন্টটি ইমেল আউটবক্সের তালিকা দেখায়, সবচেয়ে নতুনটি আগে: প্রতিটি বার্তার টেমপ্লেট, প্রাপক, বিষয়
+ * এবং চেষ্টার সংখ্যা ও শেষ ত্রুটি সহ ডেলিভারির অবস্থা। একটি বাকি বা ব্যর্থ বার্তা সঙ্গে সঙ্গে আবার চেষ্টা করা যায়,
+ * এবং সময় হওয়া সবকিছুর একটি ডেলিভারি হাতে চালানো যায়।
+ */
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { EMAIL_STATUSES, EMAIL_TEMPLATE_LABELS, type EmailStatus } from '@/types/email';
+import { Button } from "@/components/ui/button";
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Mail, RefreshCw, RotateCcw, Send } from 'lucide-react';
+import { useEmailOutbox } from '@/hooks/useEmailOutbox';
+import { useToast } from "@/hooks/use-toast";
+import { cn } from '@/lib/utils';
+
+const ALL_STATUSES = "all";
+
+const STATUS_STYLES: Record<EmailStatus, string> = {
+  pending: "border-amber-400 text-amber-700 bg-amber-50",
+  sent: "border-green-500 text-green-700 bg-green-50",
+  failed: "border-red-500 text-red-700 bg-red-50",
+};
+
+const formatTime = (value: string) => format(parseISO(value), 'd MMM yyyy, HH:mm');
+
+export function EmailOutboxTable() {
+  const [statusFilter, setStatusFilter] = React.useState<EmailStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const { emails, isLoading, reload, retry, deliverDue } = useEmailOutbox(statusFilter === ALL_STATUSES ? undefined : statusFilter);
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+  const [isDelivering, setIsDelivering] = React.useState(false);
+  const { toast } = useToast();
+
+  const handleRetry = async (emailId: string) => {
+    setBusyId(emailId);
+    try {
+      const updated = await retry(emailId);
+      toast(updated.status === 'sent'
+        ? { title: "Email Sent", description: `Delivered to ${updated.to}.` }
+        : { title: "Email Not Sent", description: updated.lastError ?? "It will be retried.", variant: "destructive" });
+    } catch (error: any) {
+      console.error("Failed to retry email:", error);
+      toast({ title: "Error", description: `Could not retry the email: ${error.message}`, variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeliverDue = async () => {
+    setIsDelivering(true);
+    try {
+      const { sent, retrying, failed } = await deliverDue();
+      toast({ title: "Outbox Delivered", description: `${sent} sent, ${retrying} to retry, ${failed} given up.` });
+    } catch (error: any) {
+      console.error("Failed to deliver the outbox:", error);
+      toast({ title: "Error", description: `Could not deliver the outbox: ${error.message}`, variant: "destructive" });
+    } finally {
+      setIsDelivering(false);
+    }
+  };
+
+  return (
+    <div className="py-4 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {isLoading ? "Loading..." : `${emails.length} message${emails.length === 1 ? '' : 's'}, newest first.`}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={statusFilter} onValueChange={value => setStatusFilter(value as typeof statusFilter)}>
+            <SelectTrigger className="h-9 w-36 text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All messages</SelectItem>
+              {EMAIL_STATUSES.map(status => <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="h-9" onClick={handleDeliverDue} disabled={isDelivering}>
+            {isDelivering ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />} Deliver Due
+          </Button>
+          <Button variant="outline" size="sm" className="h-9" onClick={reload} disabled={isLoading}>
+            <RefreshCw className={cn("mr-2 h-4 w-4", isLoading && "animate-spin")} /> Refresh
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && emails.length === 0 ? (
+        <p className="text-center py-10 text-muted-foreground">Loading the outbox...</p>
+      ) : emails.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-muted-foreground/30 rounded-lg">
+          <Mail className="mx-auto h-12 w-12 text-muted-foreground" />
+          <p className="mt-4 text-muted-foreground text-lg">No emails here.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Queued</TableHead>
+              <TableHead>Template</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Subject</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {emails.map(email => (
+              <TableRow key={email.id}>
+                <TableCell className="text-xs whitespace-nowrap">{formatTime(email.createdAt)}</TableCell>
+                <TableCell className="text-xs">{EMAIL_TEMPLATE_LABELS[email.template] ?? email.template}</TableCell>
+                <TableCell className="text-sm">{email.to}</TableCell>
+                <TableCell className="text-sm">
+                  {email.subject}
+                  {email.quotationRequestId && <span className="block text-xs text-muted-foreground">{email.quotationRequestId}</span>}
+                </TableCell>
+                <TableCell className="text-xs">
+                  <Badge variant="outline" className={cn("text-xs capitalize", STATUS_STYLES[email.status])}>{email.status}</Badge>
+                  <div className="mt-1 text-muted-foreground">
+                    {email.status === 'sent' && email.sentAt
+                      ? `${formatTime(email.sentAt)} via ${email.transport}`
+                      : `${email.attempts} attempt${email.attempts === 1 ? '' : 's'}${email.status === 'pending' && email.attempts > 0 ? `, next ${formatTime(email.nextAttemptAt)}` : ''}`}
+                  </div>
+                  {email.status !== 'sent' && email.lastError && <div className="mt-1 text-destructive max-w-xs break-words">{email.lastError}</div>}
+                </TableCell>
+                <TableCell>
+                  {email.status !== 'sent' && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRetry(email.id)} disabled={busyId === email.id} title="Retry now">
+                      {busyId === email.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
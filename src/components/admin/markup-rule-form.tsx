@@ -0,0 +1,190 @@
+/**
+ * @fileoverview This component provides a form for creating or editing a markup rule. A rule names
+ * the markup percentage and, optionally, the agency, service category, country and date range it
+ * is limited to; criteria left on "Any" match everything.
+ *
+ * @bangla এই কম্পোনেন্টটি একটি মার্কআপ নিয়ম তৈরি বা সম্পাদনা করার জন্য একটি ফর্ম সরবরাহ করে। একটি নিয়ম
+ * মার্কআপ শতাংশ এবং ঐচ্ছিকভাবে এজেন্সি, পরিষেবা বিভাগ, দেশ ও তারিখের পরিসর নির্ধারণ করে যেখানে এটি
+ * সীমাবদ্ধ; "Any" রাখা মানদণ্ড সবকিছুর সাথে মেলে।
+ */
+"use client";
+
+import * as React from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { MarkupRuleSchema, MARKUP_CATEGORIES, type MarkupRule } from '@/types/pricing';
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAgents } from '@/hooks/useAgents';
+import { useCountries } from '@/hooks/useCountries';
+import { Loader2 } from 'lucide-react';
+
+interface MarkupRuleFormProps {
+  initialData?: MarkupRule;
+  onSubmit: (data: MarkupRule) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Select cannot hold an empty value, so "any" stands in for an unset criterion.
+const ANY_VALUE = "any";
+const fromSelect = (value: string) => (value === ANY_VALUE ? undefined : value);
+
+export function MarkupRuleForm({ initialData, onSubmit, onCancel }: MarkupRuleFormProps) {
+  const { agencies, isLoading: isLoadingAgencies } = useAgents();
+  const { countries, isLoading: isLoadingCountries } = useCountries();
+
+  const form = useForm<MarkupRule>({
+    resolver: zodResolver(MarkupRuleSchema),
+    defaultValues: initialData || {
+      id: `markup_${crypto.randomUUID()}`,
+      name: "",
+      markupPercentage: 0,
+      isActive: true,
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Rule Name</FormLabel>
+                <FormControl><Input placeholder="e.g., Hotels in Thailand, high season" {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="markupPercentage"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Markup (%)</FormLabel>
+                <FormControl><Input type="number" min={0} step="0.1" placeholder="15" {...field} value={field.value ?? ''} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="agencyId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Agency</FormLabel>
+                <Select onValueChange={value => field.onChange(fromSelect(value))} value={field.value || ANY_VALUE} disabled={isLoadingAgencies}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value={ANY_VALUE}>Any agency</SelectItem>
+                    {agencies.map(agency => <SelectItem key={agency.id} value={agency.id}>{agency.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Service Category</FormLabel>
+                <Select onValueChange={value => field.onChange(fromSelect(value))} value={field.value || ANY_VALUE}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value={ANY_VALUE}>Any category</SelectItem>
+                    {MARKUP_CATEGORIES.map(category => <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="countryId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Country</FormLabel>
+                <Select onValueChange={value => field.onChange(fromSelect(value))} value={field.value || ANY_VALUE} disabled={isLoadingCountries}>
+                  <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                  <SelectContent>
+                    <SelectItem value={ANY_VALUE}>Any country</SelectItem>
+                    {countries.map(country => <SelectItem key={country.id} value={country.id}>{country.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="validFrom"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Valid From</FormLabel>
+                <FormControl><Input type="date" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value || undefined)} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="validTo"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Valid To</FormLabel>
+                <FormControl><Input type="date" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value || undefined)} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-md border p-3">
+              <div>
+                <FormLabel>Active</FormLabel>
+                <FormDescription>Inactive rules are ignored when pricing.</FormDescription>
+              </div>
+              <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={form.formState.isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" className="bg-accent hover:bg-accent/90 text-accent-foreground" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {initialData ? 'Update Rule' : 'Create Rule'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview This component lists the markup rules used to turn net cost into sell prices and
+ * lets admins add, edit and delete them. Each row shows the criteria a rule is limited to; when
+ * several rules match a service, the most specific one applies.
+ *
+ * @bangla এই কম্পোনেন্টটি নেট খরচকে বিক্রয় মূল্যে পরিণত করার মার্কআপ নিয়মগুলির তালিকা দেখায় এবং
+ * অ্যাডমিনদের সেগুলি যোগ, সম্পাদনা ও মুছে ফেলার সুযোগ দেয়। প্রতিটি সারি দেখায় নিয়মটি কোন মানদণ্ডে
+ * সীমাবদ্ধ; একাধিক নিয়ম একটি পরিষেবার সাথে মিললে সবচেয়ে নির্দিষ্টটি প্রযোজ্য হয়।
+ */
+"use client";
+
+import * as React from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { PlusCircle, Percent, Edit, Trash2 } from 'lucide-react';
+import type { MarkupRule } from '@/types/pricing';
+import { MarkupRuleForm } from './markup-rule-form';
+import { useMarkupRules } from '@/hooks/useMarkupRules';
+import { useAgents } from '@/hooks/useAgents';
+import { useCountries } from '@/hooks/useCountries';
+import { useToast } from "@/hooks/use-toast";
+
+export function MarkupRuleManager() {
+  const { markupRules, isLoading, saveMarkupRule, deleteMarkupRule } = useMarkupRules();
+  const { agencies } = useAgents();
+  const { getCountryById } = useCountries();
+  const [isFormOpen, setIsFormOpen] = React.useState(false);
+  const [editingRule, setEditingRule] = React.useState<MarkupRule | undefined>(undefined);
+  const { toast } = useToast();
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingRule(undefined);
+  };
+
+  const handleFormSubmit = async (data: MarkupRule) => {
+    try {
+      const saved = await saveMarkupRule(data, !editingRule);
+      toast({ title: "Markup Rule Saved", description: `"${saved.name}" now applies at ${saved.markupPercentage}%.` });
+      closeForm();
+    } catch (error: any) {
+      console.error("Failed to save markup rule:", error);
+      toast({ title: "Error", description: `Could not save the markup rule: ${error.message}`, variant: "destructive" });
+    }
+  };
+
+  const handleDeleteConfirm = async (rule: MarkupRule) => {
+    try {
+      await deleteMarkupRule(rule.id);
+      toast({ title: "Markup Rule Deleted", description: `"${rule.name}" was removed.` });
+    } catch (error: any) {
+      console.error("Failed to delete markup rule:", error);
+      toast({ title: "Error", description: `Could not delete the markup rule: ${error.message}`, variant: "destructive" });
+    }
+  };
+
+  const getAgencyName = (agencyId?: string) => (agencyId ? agencies.find(a => a.id === agencyId)?.name || 'Unknown agency' : 'Any');
+
+  if (isLoading) {
+    return <p className="text-center py-10 text-muted-foreground">Loading markup rules...</p>;
+  }
+
+  return (
+    <div className="py-4">
+      <div className="flex justify-between items-center mb-6 gap-4">
+        <p className="text-sm text-muted-foreground">
+          Sell price = net cost + markup. When several rules match a service, an agency rule beats a category rule, which beats a country rule, which beats a date range.
+        </p>
+        <Dialog open={isFormOpen} onOpenChange={(open) => { if (open) setIsFormOpen(true); else closeForm(); }}>
+          <DialogTrigger asChild>
+            <Button className="bg-primary hover:bg-primary/90 text-primary-foreground flex-shrink-0">
+              <PlusCircle className="mr-2 h-5 w-5" /> Add Markup Rule
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-2xl">
+            <DialogHeader>
+              <DialogTitle className="flex items-center">
+                <Percent className="mr-2 h-5 w-5"/>{editingRule ? 'Edit' : 'Add'} Markup Rule
+              </DialogTitle>
+            </DialogHeader>
+            <MarkupRuleForm
+              key={editingRule?.id || 'new-markup-rule'}
+              initialData={editingRule}
+              onSubmit={handleFormSubmit}
+              onCancel={closeForm}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {markupRules.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-muted-foreground/30 rounded-lg">
+          <Percent className="mx-auto h-12 w-12 text-muted-foreground" />
+          <p className="mt-4 text-muted-foreground text-lg">No markup rules yet.</p>
+          <p className="text-sm text-muted-foreground mt-2">Without rules, quotes are sold at net cost.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Agency</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Country</TableHead>
+              <TableHead>Valid</TableHead>
+              <TableHead className="text-right">Markup</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {markupRules.map(rule => (
+              <TableRow key={rule.id} className={rule.isActive ? undefined : "opacity-60"}>
+                <TableCell className="font-medium">
+                  {rule.name}
+                  {!rule.isActive && <Badge variant="outline" className="ml-2 text-xs">Inactive</Badge>}
+                </TableCell>
+                <TableCell>{getAgencyName(rule.agencyId)}</TableCell>
+                <TableCell className="capitalize">{rule.category || 'Any'}</TableCell>
+                <TableCell>{rule.countryId ? getCountryById(rule.countryId)?.name || rule.countryId : 'Any'}</TableCell>
+                <TableCell className="text-xs">
+                  {rule.validFrom || rule.validTo ? `${rule.validFrom || '…'} – ${rule.validTo || '…'}` : 'Always'}
+                </TableCell>
+                <TableCell className="text-right font-code">{rule.markupPercentage}%</TableCell>
+                <TableCell className="text-right space-x-1">
+                  <Button variant="ghost" size="icon" onClick={() => { setEditingRule(rule); setIsFormOpen(true); }} className="h-7 w-7 text-primary/80 hover:bg-primary/10">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive/80 hover:bg-destructive/10">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Delete markup rule "{rule.name}"? Quotes priced from now on will no longer use it.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDeleteConfirm(rule)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
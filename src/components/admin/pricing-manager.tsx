@@ -35,7 +35,6 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useCountries } from '@/hooks/useCountries'; 
 import { Checkbox } from '@/components/ui/checkbox';
 
-const SERVICE_PRICES_STORAGE_KEY = 'itineraryAceServicePrices';
 const TEMP_PREFILL_DATA_KEY = 'tempServicePricePrefillData';
 
 const TABS_CONFIG: Array<{ value: ItineraryItemType | 'all', label: string, shortLabel?: string }> = [
@@ -48,7 +47,7 @@ const TABS_CONFIG: Array<{ value: ItineraryItemType | 'all', label: string, shor
 ];
 
 export function PricingManager() {
-  const { allServicePrices, isLoading: isLoadingServices, toggleFavoriteServicePrice } = useServicePrices();
+  const { allServicePrices, isLoading: isLoadingServices, toggleFavoriteServicePrice, deleteServicePrice } = useServicePrices();
   const { countries, isLoading: isLoadingCountries, getCountryByName } = useCountries();
   const router = useRouter();
 
@@ -63,38 +62,17 @@ export function PricingManager() {
 
   const { toast } = useToast();
 
-  const savePricesToLocalStorage = (prices: ServicePriceItem[]) => {
-    try {
-      localStorage.setItem(SERVICE_PRICES_STORAGE_KEY, JSON.stringify(prices));
-    } catch (error) {
-      console.error("Failed to save service prices to localStorage:", error);
-      toast({ title: "Error", description: "Could not save service prices.", variant: "destructive" });
-    }
-  };
-
   const handleEditNavigation = (serviceId: string) => {
     router.push(`/admin/pricing/edit/${serviceId}`);
   };
 
-  const handleDelete = (serviceId: string) => {
+  const handleDelete = async (serviceId: string) => {
     const serviceToDelete = allServicePrices.find(sp => sp.id === serviceId);
-    const updatedPrices = allServicePrices.filter(sp => sp.id !== serviceId);
-    // setAllServicePrices is not available from the hook, this logic should be in the hook
-    // For now, to make it work, we'll update localStorage directly, but this is not ideal.
-    savePricesToLocalStorage(updatedPrices);
-    // Ideally, useServicePrices would provide a deleteServicePrice function.
-    // For this example, we'll manually refresh the list from localStorage if not.
-    // This is a temporary workaround:
-    const hookCanDelete = false; // Assume hook doesn't have delete
-    if (!hookCanDelete) {
-        const newPrices = JSON.parse(localStorage.getItem(SERVICE_PRICES_STORAGE_KEY) || '[]') as ServicePriceItem[];
-        // setAllServicePrices(newPrices) - This would require setAllServicePrices from hook.
-        // The UI will re-render due to state change of allServicePrices if the hook supports it or
-        // the component re-renders causing the hook to re-fetch if it's designed that way.
-        // For now, we rely on the fact that allServicePrices is state in the hook and this action
-        // would ideally trigger a re-fetch or update within the hook.
+    if (await deleteServicePrice(serviceId)) {
+      toast({ title: "Success", description: `Service price "${serviceToDelete?.name || 'Item'}" deleted.` });
+    } else {
+      toast({ title: "Error", description: "Could not delete service price.", variant: "destructive" });
     }
-    toast({ title: "Success", description: `Service price "${serviceToDelete?.name || 'Item'}" deleted.` });
   };
 
   const resetImportDialogState = () => {
@@ -1,11 +1,12 @@
 
 /**
  * @fileoverview This component renders the common input fields shared across various
- * service price forms, such as country, province, category, name, currency, and notes.
+ * service price forms, such as country, province, category, name, supplier, currency, notes, and
+ * the service's cancellation policy.
  * It helps in centralizing the logic for these basic details to avoid repetition.
  *
  * @bangla এই কম্পোনেন্টটি বিভিন্ন পরিষেবা মূল্য ফর্ম জুড়ে ব্যবহৃত সাধারণ ইনপুট ক্ষেত্রগুলি
- * (যেমন দেশ, প্রদেশ, বিভাগ, নাম, মুদ্রা এবং নোট) রেন্ডার করে। এটিতে পুনরাবৃত্তি এড়াতে
+ * (যেমন দেশ, প্রদেশ, বিভাগ, নাম, সরবরাহকারী, মুদ্রা, নোট এবং পরিষেবার বাতিলকরণ নীতি) রেন্ডার করে। এটিতে পুনরাবৃত্তি এড়াতে
  * এই মৌলিক বিবরণগুলির জন্য যুক্তিকে কেন্দ্রীভূত করতে সহায়তা করে।
  */
 "use client";
@@ -25,8 +26,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { useProvinces } from '@/hooks/useProvinces';
 import { useCountries } from '@/hooks/useCountries';
+import { useSuppliers } from '@/hooks/useSuppliers';
 import { CURRENCIES, SERVICE_CATEGORIES, type CountryItem, type ProvinceItem, type CurrencyCode, ItineraryItemType } from '@/types/itinerary';
 import type { ServicePriceFormValues } from './ServicePriceFormRouter';
+import { CancellationRulesSection } from './partials/CancellationRulesSection';
 import { Loader2, Star } from 'lucide-react';
 
 interface CommonPriceFieldsProps {
@@ -36,6 +39,7 @@ interface CommonPriceFieldsProps {
 export function CommonPriceFields({ form }: CommonPriceFieldsProps) {
   const { countries, isLoading: isLoadingCountries, getCountryById } = useCountries();
   const { provinces, isLoading: isLoadingProvinces, getProvincesByCountry } = useProvinces();
+  const { suppliers, isLoading: isLoadingSuppliers } = useSuppliers();
 
   const selectedCountryId = useWatch({ control: form.control, name: "countryId" });
   const [filteredProvinces, setFilteredProvinces] = React.useState<ProvinceItem[]>([]);
@@ -196,6 +200,29 @@ export function CommonPriceFields({ form }: CommonPriceFieldsProps) {
             </FormItem>
           )}
         />
+        <FormField
+          control={form.control}
+          name="supplierId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs sm:text-sm">Supplier</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value || "none"} disabled={isLoadingSuppliers}>
+                <FormControl>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue placeholder={isLoadingSuppliers ? "Loading suppliers..." : "Select supplier"} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="none">No supplier</SelectItem>
+                  {suppliers.filter(supplier => supplier.isActive || supplier.id === field.value).map(supplier => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}{supplier.isActive ? '' : ' (inactive)'}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4">
             <FormField
             control={form.control}
@@ -252,6 +279,14 @@ export function CommonPriceFields({ form }: CommonPriceFieldsProps) {
             </FormItem>
           )}
         />
+        <CancellationRulesSection
+          name="cancellationRules"
+          legend={selectedCategory === 'hotel' ? "Hotel Cancellation Policy" : "Cancellation Policy"}
+          allowNights={selectedCategory === 'hotel'}
+          hint={selectedCategory === 'hotel' || selectedCategory === 'activity'
+            ? "No tiers: room types and packages without their own policy cancel free of charge."
+            : "No tiers: cancelling this service is free of charge."}
+        />
       </div>
     </div>
   );
@@ -1,13 +1,14 @@
 /**
  * @fileoverview This component provides a specialized form for defining and editing
  * hotel service prices. It includes fields for hotel-specific details like star ratings,
- * and allows managing multiple room types, each with its own seasonal pricing periods,
- * rates, and extra bed options. It is used within the `ServicePriceFormRouter`.
+ * and allows managing multiple room types, each with its occupancy limits and its own seasonal
+ * pricing periods, rates, surcharges, minimum stays, and extra bed and child-sharing-bed options.
+ * It is used within the `ServicePriceFormRouter`.
  *
  * @bangla এই কম্পোনেন্টটি হোটেল পরিষেবা মূল্যের সংজ্ঞা এবং সম্পাদনার জন্য একটি বিশেষায়িত
  * ফর্ম সরবরাহ করে। এতে তারকা রেটিংয়ের মতো হোটেল-নির্দিষ্ট বিবরণের জন্য ক্ষেত্র রয়েছে
- * এবং একাধিক রুমের প্রকার পরিচালনা করার অনুমতি দেয়, যার প্রতিটির নিজস্ব মরশুমি মূল্য নির্ধারণের
- * সময়কাল, হার এবং অতিরিক্ত বিছানার বিকল্প রয়েছে। এটি `ServicePriceFormRouter`-এর মধ্যে ব্যবহৃত হয়।
+ * এবং একাধিক রুমের প্রকার পরিচালনা করার অনুমতি দেয়, যার প্রতিটির অতিথি সীমা এবং নিজস্ব মরশুমি মূল্য
+ * নির্ধারণের সময়কাল, হার, সারচার্জ, ন্যূনতম থাকা, এবং অতিরিক্ত বিছানা ও শিশুদের বিছানা ভাগের বিকল্প রয়েছে। এটি `ServicePriceFormRouter`-এর মধ্যে ব্যবহৃত হয়।
  */
 "use client";
 
@@ -32,6 +33,7 @@ import { Label } from "@/components/ui/label";
 import { generateGUID } from '@/lib/utils';
 import { addDays, isValid, parseISO, isWithinInterval, areIntervalsOverlapping, format } from 'date-fns';
 import type { ServicePriceFormValues } from './ServicePriceFormRouter';
+import { CancellationRulesSection } from './partials/CancellationRulesSection';
 import type { CurrencyCode, RoomTypeSeasonalPrice } from '@/types/itinerary';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -254,6 +256,27 @@ function RoomTypeCard({ form, roomIndex, currency, removeRoomType, canRemoveRoom
             </FormItem>
           )}
         />
+        <div className="grid grid-cols-3 gap-2 sm:gap-3">
+          {([
+            ['maxAdults', 'Max Adults / Room'],
+            ['maxChildren', 'Max Children / Room'],
+            ['maxChildrenSharingBed', 'Children Sharing Bed'],
+          ] as const).map(([fieldName, label]) => (
+            <ShadcnFormField
+              key={fieldName}
+              control={form.control}
+              name={`hotelDetails.roomTypes.${roomIndex}.${fieldName}`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs sm:text-sm">{label}</FormLabel>
+                  <FormControl><Input type="number" min={0} step={1} placeholder="No limit" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} className="h-9 text-sm" /></FormControl>
+                  <FormMessage className="text-xs" />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground -mt-1">Children sharing bed use existing bedding on top of the limits and are charged the season's child sharing rate.</p>
         <ShadcnFormField
           control={form.control}
           name={`hotelDetails.roomTypes.${roomIndex}.notes`}
@@ -265,6 +288,12 @@ function RoomTypeCard({ form, roomIndex, currency, removeRoomType, canRemoveRoom
             </FormItem>
           )}
         />
+        <CancellationRulesSection
+          name={`hotelDetails.roomTypes.${roomIndex}.cancellationRules`}
+          legend={`Cancellation Policy for ${roomLegend}`}
+          allowNights
+          hint="No tiers: the hotel's cancellation policy applies."
+        />
       </div>
       <SeasonalRatesTableForRoomType form={form} roomIndex={roomIndex} currency={currency} />
     </Card>
@@ -285,6 +314,7 @@ function SeasonalRatesTableForRoomType({ form, roomIndex, currency }: SeasonalRa
   });
 
   const roomExtraBedAllowed = form.watch(`hotelDetails.roomTypes.${roomIndex}.extraBedAllowed`);
+  const roomAllowsChildSharing = (form.watch(`hotelDetails.roomTypes.${roomIndex}.maxChildrenSharingBed`) || 0) > 0;
 
   React.useEffect(() => {
     if (seasonFields.length === 0) {
@@ -332,14 +362,17 @@ function SeasonalRatesTableForRoomType({ form, roomIndex, currency }: SeasonalRa
     <div className="space-y-1 mt-3 sm:mt-4">
       <Label className="text-xs sm:text-sm font-medium text-muted-foreground mb-1 block">Seasonal Pricing Periods</Label>
       <div className="overflow-x-auto">
-        <Table className="mb-1 border min-w-[550px] sm:min-w-[600px]">
+        <Table className="mb-1 border min-w-[750px] sm:min-w-[800px]">
           <TableHeader className="bg-muted/30">
             <TableRow>
               <TableHead className="w-[130px] sm:w-[150px] px-1.5 sm:px-2 py-1 text-xs">Season Name</TableHead>
               <TableHead className="w-[140px] sm:w-[160px] px-1.5 sm:px-2 py-1 text-xs">Start Date</TableHead>
               <TableHead className="w-[140px] sm:w-[160px] px-1.5 sm:px-2 py-1 text-xs">End Date</TableHead>
               <TableHead className="w-[100px] sm:w-[120px] px-1.5 sm:px-2 py-1 text-xs">Rate ({currency})</TableHead>
+              <TableHead className="w-[100px] sm:w-[110px] px-1.5 sm:px-2 py-1 text-xs">Surcharge</TableHead>
+              <TableHead className="w-[80px] sm:w-[90px] px-1.5 sm:px-2 py-1 text-xs">Min Nights</TableHead>
               {roomExtraBedAllowed && <TableHead className="w-[110px] sm:w-[130px] px-1.5 sm:px-2 py-1 text-xs">Extra Bed</TableHead>}
+              {roomAllowsChildSharing && <TableHead className="w-[110px] sm:w-[130px] px-1.5 sm:px-2 py-1 text-xs">Child Sharing</TableHead>}
               <TableHead className="w-[35px] sm:w-[40px] px-1 py-1 text-center text-xs">Del</TableHead>
             </TableRow>
           </TableHeader>
@@ -394,6 +427,30 @@ function SeasonalRatesTableForRoomType({ form, roomIndex, currency }: SeasonalRa
                     )}
                   />
                 </TableCell>
+                <TableCell className="px-1.5 sm:px-2 py-1">
+                  <ShadcnFormField
+                    control={form.control}
+                    name={`hotelDetails.roomTypes.${roomIndex}.seasonalPrices.${seasonIndex}.surcharge`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl><Input type="number" placeholder="0.00" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} className="h-8 sm:h-9 text-xs sm:text-sm" /></FormControl>
+                        <FormMessage className="text-xs" />
+                      </FormItem>
+                    )}
+                  />
+                </TableCell>
+                <TableCell className="px-1.5 sm:px-2 py-1">
+                  <ShadcnFormField
+                    control={form.control}
+                    name={`hotelDetails.roomTypes.${roomIndex}.seasonalPrices.${seasonIndex}.minimumStay`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl><Input type="number" min={1} step={1} placeholder="1" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} className="h-8 sm:h-9 text-xs sm:text-sm" /></FormControl>
+                        <FormMessage className="text-xs" />
+                      </FormItem>
+                    )}
+                  />
+                </TableCell>
                 {roomExtraBedAllowed && (
                   <TableCell className="px-1.5 sm:px-2 py-1">
                     <ShadcnFormField
@@ -408,6 +465,20 @@ function SeasonalRatesTableForRoomType({ form, roomIndex, currency }: SeasonalRa
                     />
                   </TableCell>
                 )}
+                {roomAllowsChildSharing && (
+                  <TableCell className="px-1.5 sm:px-2 py-1">
+                    <ShadcnFormField
+                      control={form.control}
+                      name={`hotelDetails.roomTypes.${roomIndex}.seasonalPrices.${seasonIndex}.childSharingBedRate`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl><Input type="number" placeholder="0.00" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} className="h-8 sm:h-9 text-xs sm:text-sm" /></FormControl>
+                          <FormMessage className="text-xs" />
+                        </FormItem>
+                      )}
+                    />
+                  </TableCell>
+                )}
                 <TableCell className="text-center px-1 py-1 align-middle">
                   <Button
                     type="button"
@@ -22,7 +22,7 @@ import { Button } from "@/components/ui/button";
 import { Form } from "@/components/ui/form";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { ServicePriceItem, CurrencyCode, ItineraryItemType, VehicleType, HotelDefinition, HotelRoomTypeDefinition, RoomTypeSeasonalPrice, ActivityPackageDefinition, SurchargePeriod, VehicleOption, CountryItem } from '@/types/itinerary';
-import { CURRENCIES, SERVICE_CATEGORIES, VEHICLE_TYPES } from '@/types/itinerary';
+import { CANCELLATION_CHARGE_TYPES, CURRENCIES, SERVICE_CATEGORIES, VEHICLE_TYPES } from '@/types/itinerary';
 import { generateGUID } from '@/lib/utils';
 import { CommonPriceFields } from './CommonPriceFields';
 import { HotelPriceForm } from './HotelPriceForm';
@@ -35,12 +35,26 @@ import { useCountries } from '@/hooks/useCountries';
 import { Loader2 } from 'lucide-react'; 
 
 // --- Zod Schemas ---
+const cancellationRuleSchema = z.object({
+  id: z.string().min(1, "Cancellation rule ID is required."),
+  daysBefore: z.coerce.number().int().min(0, "Days before must be 0 or more."),
+  chargeType: z.enum(CANCELLATION_CHARGE_TYPES),
+  amount: z.coerce.number().min(0, "Charge must be non-negative."),
+}).refine(rule => rule.chargeType !== 'percentage' || rule.amount <= 100, { message: "A percentage charge cannot exceed 100%.", path: ["amount"] });
+
+const cancellationRulesSchema = z.array(cancellationRuleSchema)
+  .refine(rules => new Set(rules.map(rule => rule.daysBefore)).size === rules.length, { message: "Each cancellation tier needs its own number of days." })
+  .optional();
+
 const hotelRoomSeasonalPriceSchema = z.object({
   id: z.string().min(1, "Seasonal price ID is required."),
   startDate: z.date({ required_error: "Start date is required." }),
   endDate: z.date({ required_error: "End date is required." }),
   rate: z.coerce.number().min(0, "Nightly rate must be non-negative."),
   extraBedRate: z.coerce.number().min(0, "Extra bed rate must be non-negative.").optional().nullable(),
+  surcharge: z.coerce.number().min(0, "Surcharge must be non-negative.").optional().nullable(),
+  minimumStay: z.coerce.number().int().min(1, "Minimum stay must be at least 1 night.").optional().nullable(),
+  childSharingBedRate: z.coerce.number().min(0, "Child sharing bed rate must be non-negative.").optional().nullable(),
   seasonName: z.string().optional().nullable(),
 }).refine(data => data.endDate >= data.startDate, {
   message: "End date cannot be before start date.",
@@ -51,7 +65,11 @@ const hotelRoomTypeSchema = z.object({
   id: z.string().min(1, "Room type ID is required."),
   name: z.string().min(1, "Room type name is required."),
   extraBedAllowed: z.boolean().optional().default(false),
+  maxAdults: z.coerce.number().int().min(1, "A room must take at least 1 adult.").optional().nullable(),
+  maxChildren: z.coerce.number().int().min(0).optional().nullable(),
+  maxChildrenSharingBed: z.coerce.number().int().min(0).optional().nullable(),
   notes: z.string().optional().nullable(),
+  cancellationRules: cancellationRulesSchema,
   seasonalPrices: z.array(hotelRoomSeasonalPriceSchema)
     .min(1, "Each room type must have at least one seasonal price period.")
     .refine(
@@ -108,6 +126,8 @@ const activityPackageSchema = z.object({
   validityEndDate: z.string().refine(val => !val || isValid(parseISO(val)), {message: "Invalid end date format."}).optional().nullable(),
   closedWeekdays: z.array(z.number().min(0).max(6)).optional(),
   specificClosedDates: z.array(z.string().refine(val => !val || isValid(parseISO(val)), {message: "Invalid specific closed date format."})).optional(),
+  cancellationRules: cancellationRulesSchema,
+  durationMinutes: z.number().int("Duration must be whole minutes").positive("Duration must be positive").optional().nullable(),
 }).refine(data => {
     if (data.validityStartDate && data.validityEndDate) {
         try {
@@ -149,6 +169,7 @@ const servicePriceSchema = z.object({
   notes: z.string().optional().nullable(),
   selectedServicePriceId: z.string().optional().nullable(),
   isFavorite: z.boolean().optional(),
+  supplierId: z.string().optional().nullable(),
   
   transferMode: z.enum(['ticket', 'vehicle']).optional(),
   vehicleOptions: z.array(vehicleOptionSchema).optional(),
@@ -156,6 +177,7 @@ const servicePriceSchema = z.object({
   hotelDetails: hotelDetailsSchema.optional(),
   activityPackages: z.array(activityPackageSchema).optional(),
   surchargePeriods: z.array(surchargePeriodSchema).optional(),
+  cancellationRules: cancellationRulesSchema,
 }).superRefine((data, ctx) => {
   if (data.category === 'hotel') {
     if (!data.countryId) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Country is required for hotel services.", path: ["countryId"] });
@@ -244,6 +266,8 @@ const transformInitialDataToFormValues = (initialData?: Partial<ServicePriceItem
     notes: initialData?.notes || "",
     selectedServicePriceId: initialData?.selectedServicePriceId || undefined,
     isFavorite: initialData?.isFavorite || false,
+    supplierId: initialData?.supplierId || undefined,
+    cancellationRules: initialData?.cancellationRules || [],
   };
   
   if ((!initialData || Object.keys(initialData).length === 0 || !initialData.category) && baseTransformed.category === 'hotel' && !baseTransformed.countryId) {
@@ -410,11 +434,14 @@ export function ServicePriceFormRouter({ initialData, onSubmit, onCancel }: Serv
             ...ap,
             validityStartDate: ap.validityStartDate || undefined,
             validityEndDate: ap.validityEndDate || undefined,
+            durationMinutes: ap.durationMinutes || undefined,
         }));
     }
 
     if (dataToSubmit.countryId === "none") dataToSubmit.countryId = undefined;
     if (dataToSubmit.province === "none") dataToSubmit.province = undefined;
+    if (dataToSubmit.supplierId === "none" || !dataToSubmit.supplierId) dataToSubmit.supplierId = undefined;
+    if (dataToSubmit.hotelDetails) dataToSubmit.hotelDetails.supplierId = dataToSubmit.supplierId;
     onSubmit({ ...dataToSubmit } as Omit<ServicePriceItem, 'id'>);
   };
 
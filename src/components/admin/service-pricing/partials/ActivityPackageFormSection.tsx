@@ -2,12 +2,12 @@
 /**
  * @fileoverview This component renders a section for managing multiple activity packages
  * within the activity service price form. It allows users to add, edit, and remove
- * individual packages, each with its own name, pricing (adult/child), notes, and
+ * individual packages, each with its own name, pricing (adult/child), duration, notes, and
  * scheduling details (validity, closures) via the `ActivityPackageScheduler`.
  *
  * @bangla এই কম্পোনেন্টটি কার্যকলাপ পরিষেবা মূল্য ফর্মের মধ্যে একাধিক কার্যকলাপ প্যাকেজ
  * পরিচালনার জন্য একটি বিভাগ রেন্ডার করে। এটি ব্যবহারকারীদের স্বতন্ত্র প্যাকেজ যোগ, সম্পাদনা
- * এবং অপসারণ করতে দেয়, যার প্রতিটির নিজস্ব নাম, মূল্য (প্রাপ্তবয়স্ক/শিশু), নোট এবং
+ * এবং অপসারণ করতে দেয়, যার প্রতিটির নিজস্ব নাম, মূল্য (প্রাপ্তবয়স্ক/শিশু), সময়কাল, নোট এবং
  * সময়সূচী বিবরণ (`ActivityPackageScheduler` এর মাধ্যমে) থাকে।
  */
 "use client";
@@ -23,6 +23,7 @@ import { Label } from "@/components/ui/label";
 import { FormField as ShadcnFormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { PlusCircle, XIcon, Package as PackageIcon } from 'lucide-react';
 import { generateGUID } from '@/lib/utils';
+import { CancellationRulesSection } from './CancellationRulesSection';
 import { ActivityPackageScheduler } from '@/components/itinerary/items/activity-package-scheduler'; // Assuming this path is correct
 
 interface ActivityPackageFormSectionProps {
@@ -71,6 +72,7 @@ export function ActivityPackageFormSection({ currency, activityNameForLegend }:
                   <ShadcnFormField control={control} name={`activityPackages.${packageIndex}.price1`} render={({ field }) => ( <FormItem><FormLabel className="text-xs sm:text-sm">Adult Price ({currency})</FormLabel><FormControl><Input type="number" placeholder="0.00" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} className="h-9 text-sm" /></FormControl><FormMessage /></FormItem> )} />
                   <ShadcnFormField control={control} name={`activityPackages.${packageIndex}.price2`} render={({ field }) => ( <FormItem><FormLabel className="text-xs sm:text-sm">Child Price ({currency}) (Opt)</FormLabel><FormControl><Input type="number" placeholder="0.00" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} className="h-9 text-sm" /></FormControl><FormMessage /></FormItem> )} />
                 </div>
+                <ShadcnFormField control={control} name={`activityPackages.${packageIndex}.durationMinutes`} render={({ field }) => ( <FormItem><FormLabel className="text-xs sm:text-sm">Duration in Minutes (Opt)</FormLabel><FormControl><Input type="number" min={1} step={15} placeholder="Read from the notes if empty, e.g. 'Approx 4 hours'" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseInt(e.target.value, 10) || undefined)} className="h-9 text-sm" /></FormControl><FormMessage /></FormItem> )} />
                 <ShadcnFormField control={control} name={`activityPackages.${packageIndex}.notes`} render={({ field }) => ( <FormItem><FormLabel className="text-xs sm:text-sm">Package Notes/Details</FormLabel><FormControl><Textarea placeholder="Inclusions, duration, etc." {...field} value={field.value || ''} rows={2} className="text-sm min-h-[2.25rem]" /></FormControl><FormMessage /></FormItem> )} />
                 <Controller
                   control={control}
@@ -88,6 +90,11 @@ export function ActivityPackageFormSection({ currency, activityNameForLegend }:
                     />
                   )}
                 />
+                <CancellationRulesSection
+                  name={`activityPackages.${packageIndex}.cancellationRules`}
+                  legend={`Cancellation Policy for ${packageLegend}`}
+                  hint="No tiers: the activity's cancellation policy applies."
+                />
               </div>
             </div>
           );
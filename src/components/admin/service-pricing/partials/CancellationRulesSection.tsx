@@ -0,0 +1,75 @@
+/**
+ * @fileoverview This component renders the tiers of a cancellation policy within the service
+ * price form. It is used for the service as a whole, for each hotel room type and for each
+ * activity package; each tier charges a percentage (or, for hotels, a number of nights) when
+ * cancelling that many days or fewer before the service date.
+ *
+ * @bangla এই কম্পোনেন্টটি পরিষেবা মূল্য ফর্মের মধ্যে একটি বাতিলকরণ নীতির স্তরগুলি রেন্ডার করে। এটি সম্পূর্ণ
+ * পরিষেবা, প্রতিটি হোটেল রুমের প্রকার এবং প্রতিটি কার্যকলাপ প্যাকেজের জন্য ব্যবহৃত হয়; প্রতিটি স্তর পরিষেবার
+ * তারিখের ততদিন বা তার কম আগে বাতিল করলে একটি শতাংশ (বা, হোটেলের জন্য, কয়েক রাত) চার্জ করে।
+ */
+"use client";
+
+import * as React from 'react';
+import { useFormContext, useFieldArray } from "react-hook-form";
+import type { ServicePriceFormValues } from '../ServicePriceFormRouter';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormField as ShadcnFormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
+import { PlusCircle, XIcon, CalendarX } from 'lucide-react';
+import { generateGUID } from '@/lib/utils';
+
+type CancellationRulesPath =
+  | 'cancellationRules'
+  | `hotelDetails.roomTypes.${number}.cancellationRules`
+  | `activityPackages.${number}.cancellationRules`;
+
+interface CancellationRulesSectionProps {
+  name: CancellationRulesPath;
+  legend: string;
+  allowNights?: boolean;
+  /** Shown under the tiers, e.g. what applies when there are none. */
+  hint?: string;
+}
+
+export function CancellationRulesSection({ name, legend, allowNights, hint }: CancellationRulesSectionProps) {
+  const { control, getFieldState, formState } = useFormContext<ServicePriceFormValues>();
+  const { fields, append, remove } = useFieldArray({ control, name: name as 'cancellationRules', keyName: "ruleFieldId" });
+  const rulesError = getFieldState(name, formState).error;
+
+  const addTier = () => {
+    const isFirst = fields.length === 0;
+    append({ id: generateGUID(), daysBefore: isFirst ? 30 : 0, chargeType: 'percentage', amount: isFirst ? 50 : 100 }, { shouldFocus: false });
+  };
+
+  return (
+    <div className="border border-dashed border-border rounded-md p-2 sm:p-3 mt-3 space-y-2">
+      <p className="text-xs sm:text-sm font-medium flex items-center"><CalendarX className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 text-rose-500" /> {legend}</p>
+      {fields.map((ruleField, ruleIndex) => (
+        <div key={ruleField.ruleFieldId} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+          <ShadcnFormField control={control} name={`${name}.${ruleIndex}.daysBefore` as `cancellationRules.${number}.daysBefore`} render={({ field }) => ( <FormItem><FormLabel className="text-xs">Within (days before)</FormLabel><FormControl><Input type="number" min={0} step={1} {...field} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} className="h-8 sm:h-9 text-xs sm:text-sm" /></FormControl><FormMessage className="text-xs" /></FormItem> )} />
+          <ShadcnFormField control={control} name={`${name}.${ruleIndex}.chargeType` as `cancellationRules.${number}.chargeType`} render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-xs">Charge</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value} disabled={!allowNights}>
+                <FormControl><SelectTrigger className="h-8 sm:h-9 text-xs sm:text-sm"><SelectValue /></SelectTrigger></FormControl>
+                <SelectContent>
+                  <SelectItem value="percentage">% of the price</SelectItem>
+                  {allowNights && <SelectItem value="nights">Nights</SelectItem>}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )} />
+          <ShadcnFormField control={control} name={`${name}.${ruleIndex}.amount` as `cancellationRules.${number}.amount`} render={({ field }) => ( <FormItem><FormLabel className="text-xs">Amount</FormLabel><FormControl><Input type="number" min={0} step="any" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} className="h-8 sm:h-9 text-xs sm:text-sm" /></FormControl><FormMessage className="text-xs" /></FormItem> )} />
+          <Button type="button" variant="ghost" size="icon" onClick={() => remove(ruleIndex)} className="h-8 w-8 text-destructive hover:bg-destructive/10"><XIcon size={14} /></Button>
+        </div>
+      ))}
+      {fields.length === 0 && hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+      <Button type="button" variant="outline" size="sm" onClick={addTier} className="border-rose-400 text-rose-600 hover:bg-rose-500/10 text-xs h-7 sm:h-8">
+        <PlusCircle className="mr-1.5 h-3.5 w-3.5" /> Add Cancellation Tier
+      </Button>
+      {rulesError?.message && <FormMessage className="text-xs text-destructive">{rulesError.message}</FormMessage>}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview This component provides a form for creating or editing a supplier: its name, who
+ * and where to contact for bookings, and the payment and cancellation terms agreed with it.
+ *
+ * @bangla এই কম্পোনেন্টটি একটি সরবরাহকারী তৈরি বা সম্পাদনা করার জন্য একটি ফর্ম সরবরাহ করে: এর নাম, বুকিংয়ের
+ * জন্য কার সাথে ও কোথায় যোগাযোগ করতে হবে, এবং এর সাথে সম্মত পেমেন্ট ও বাতিলকরণের শর্ত।
+ */
+"use client";
+
+import * as React from 'react';
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { SupplierSchema, type Supplier } from '@/types/supplier';
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from 'lucide-react';
+
+interface SupplierFormProps {
+  initialData?: Supplier;
+  onSubmit: (data: Supplier) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function SupplierForm({ initialData, onSubmit, onCancel }: SupplierFormProps) {
+  const form = useForm<Supplier>({
+    resolver: zodResolver(SupplierSchema),
+    defaultValues: initialData || {
+      id: `supplier_${crypto.randomUUID()}`,
+      name: "",
+      isActive: true,
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Supplier Name</FormLabel>
+                <FormControl><Input placeholder="e.g., Andaman Transfers Co." {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="contactName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Contact Person</FormLabel>
+                <FormControl><Input placeholder="e.g., Reservations desk" {...field} value={field.value ?? ''} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Booking Email</FormLabel>
+                <FormControl><Input type="email" placeholder="reservations@example.com" {...field} value={field.value ?? ''} /></FormControl>
+                <FormDescription>Booking requests are sent here.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone</FormLabel>
+                <FormControl><Input placeholder="+66 ..." {...field} value={field.value ?? ''} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Address</FormLabel>
+              <FormControl><Input {...field} value={field.value ?? ''} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="paymentTerms"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payment Terms</FormLabel>
+                <FormControl><Textarea rows={2} placeholder="e.g., Full payment 14 days before arrival" {...field} value={field.value ?? ''} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="cancellationPolicy"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Cancellation Policy</FormLabel>
+                <FormControl><Textarea rows={2} placeholder="e.g., Free until 7 days before, then 100%" {...field} value={field.value ?? ''} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl><Textarea rows={2} {...field} value={field.value ?? ''} /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-md border p-3">
+              <div>
+                <FormLabel>Active</FormLabel>
+                <FormDescription>Inactive suppliers keep their history but receive no new booking requests.</FormDescription>
+              </div>
+              <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={form.formState.isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" className="bg-accent hover:bg-accent/90 text-accent-foreground" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {initialData ? 'Update Supplier' : 'Create Supplier'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
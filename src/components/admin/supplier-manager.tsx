@@ -0,0 +1,148 @@
+/**
+ * @fileoverview This component lists the suppliers and lets admins add, edit and delete them.
+ * Service prices and hotels are linked to a supplier on their own forms; a supplier that has been
+ * sent booking requests can only be deactivated.
+ *
+ * @bangla এই কম্পোনেন্টটি সরবরাহকারীদের তালিকা দেখায় এবং অ্যাডমিনদের সেগুলি যোগ, সম্পাদনা ও মুছে ফেলার সুযোগ দেয়।
+ * পরিষেবা মূল্য ও হোটেলগুলি তাদের নিজস্ব ফর্মে একজন সরবরাহকারীর সাথে সংযুক্ত হয়; যে সরবরাহকারীকে বুকিং অনুরোধ
+ * পাঠানো হয়েছে তাকে শুধু নিষ্ক্রিয় করা যায়।
+ */
+"use client";
+
+import * as React from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { PlusCircle, Truck, Edit, Trash2 } from 'lucide-react';
+import type { Supplier } from '@/types/supplier';
+import { SupplierForm } from './supplier-form';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import { useToast } from "@/hooks/use-toast";
+
+export function SupplierManager() {
+  const { suppliers, isLoading, saveSupplier, deleteSupplier } = useSuppliers();
+  const [isFormOpen, setIsFormOpen] = React.useState(false);
+  const [editingSupplier, setEditingSupplier] = React.useState<Supplier | undefined>(undefined);
+  const { toast } = useToast();
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingSupplier(undefined);
+  };
+
+  const handleFormSubmit = async (data: Supplier) => {
+    try {
+      const saved = await saveSupplier(data, !editingSupplier);
+      toast({ title: "Supplier Saved", description: `"${saved.name}" has been saved.` });
+      closeForm();
+    } catch (error: any) {
+      console.error("Failed to save supplier:", error);
+      toast({ title: "Error", description: `Could not save the supplier: ${error.message}`, variant: "destructive" });
+    }
+  };
+
+  const handleDeleteConfirm = async (supplier: Supplier) => {
+    try {
+      await deleteSupplier(supplier.id);
+      toast({ title: "Supplier Deleted", description: `"${supplier.name}" was removed.` });
+    } catch (error: any) {
+      console.error("Failed to delete supplier:", error);
+      toast({ title: "Error", description: `Could not delete the supplier: ${error.message}`, variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-center py-10 text-muted-foreground">Loading suppliers...</p>;
+  }
+
+  return (
+    <div className="py-4">
+      <div className="flex justify-between items-center mb-6 gap-4">
+        <p className="text-sm text-muted-foreground">
+          Link service prices and hotels to their supplier so booking requests and service orders go to the right place.
+        </p>
+        <Dialog open={isFormOpen} onOpenChange={(open) => { if (open) setIsFormOpen(true); else closeForm(); }}>
+          <DialogTrigger asChild>
+            <Button className="bg-primary hover:bg-primary/90 text-primary-foreground flex-shrink-0">
+              <PlusCircle className="mr-2 h-5 w-5" /> Add Supplier
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="flex items-center">
+                <Truck className="mr-2 h-5 w-5"/>{editingSupplier ? 'Edit' : 'Add'} Supplier
+              </DialogTitle>
+            </DialogHeader>
+            <SupplierForm
+              key={editingSupplier?.id || 'new-supplier'}
+              initialData={editingSupplier}
+              onSubmit={handleFormSubmit}
+              onCancel={closeForm}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {suppliers.length === 0 ? (
+        <div className="text-center py-10 border-2 border-dashed border-muted-foreground/30 rounded-lg">
+          <Truck className="mx-auto h-12 w-12 text-muted-foreground" />
+          <p className="mt-4 text-muted-foreground text-lg">No suppliers yet.</p>
+          <p className="text-sm text-muted-foreground mt-2">Add the hotels, transfer companies and tour operators you book with.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead>Payment Terms</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {suppliers.map(supplier => (
+              <TableRow key={supplier.id} className={supplier.isActive ? undefined : "opacity-60"}>
+                <TableCell className="font-medium">
+                  {supplier.name}
+                  {!supplier.isActive && <Badge variant="outline" className="ml-2 text-xs">Inactive</Badge>}
+                </TableCell>
+                <TableCell>{supplier.contactName || '—'}</TableCell>
+                <TableCell>{supplier.email || <span className="text-destructive text-xs">No email</span>}</TableCell>
+                <TableCell>{supplier.phone || '—'}</TableCell>
+                <TableCell className="text-xs max-w-[16rem] truncate" title={supplier.paymentTerms}>{supplier.paymentTerms || '—'}</TableCell>
+                <TableCell className="text-right space-x-1">
+                  <Button variant="ghost" size="icon" onClick={() => { setEditingSupplier(supplier); setIsFormOpen(true); }} className="h-7 w-7 text-primary/80 hover:bg-primary/10">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive/80 hover:bg-destructive/10">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Delete supplier "{supplier.name}"? Its service prices and hotels will no longer be linked to a supplier.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDeleteConfirm(supplier)} className="bg-destructive hover:bg-destructive/90">Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,12 @@
 /**
  * @fileoverview This component provides a comprehensive form for travel agents to submit
- * new quotation requests. It captures client information, detailed trip preferences
- * (destinations, dates, duration, type, budget), accommodation choices, activity interests,
- * and flight requirements. The form utilizes Zod for validation and is designed to collect
+ * new quotation requests. It captures client information and optional traveler details,
+ * detailed trip preferences (destinations, dates, duration, type, budget), accommodation
+ * choices, activity interests, and flight requirements. The form utilizes Zod for validation and is designed to collect
  * all necessary data for an admin to prepare a travel proposal.
  *
  * @bangla এই কম্পোনেন্টটি ট্রাভেল এজেন্টদের নতুন উদ্ধৃতি অনুরোধ জমা দেওয়ার জন্য একটি
- * ব্যাপক ফর্ম সরবরাহ করে। এটি ক্লায়েন্টের তথ্য, বিস্তারিত ভ্রমণ পছন্দ (গন্তব্য, তারিখ,
+ * ব্যাপক ফর্ম সরবরাহ করে। এটি ক্লায়েন্টের তথ্য ও ঐচ্ছিক ভ্রমণকারীর বিবরণ, বিস্তারিত ভ্রমণ পছন্দ (গন্তব্য, তারিখ,
  * সময়কাল, প্রকার, বাজেট), আবাসনের পছন্দ, কার্যকলাপের আগ্রহ এবং ফ্লাইটের প্রয়োজনীয়তা
  * ক্যাপচার করে। ফর্মটি বৈধতা যাচাইয়ের জন্য Zod ব্যবহার করে এবং একটি অ্যাডমিনকে ভ্রমণের
  * প্রস্তাবনা প্রস্তুত করার জন্য সমস্ত প্রয়োজনীয় ডেটা সংগ্রহ করার জন্য ডিজাইন করা হয়েছে।
@@ -15,7 +15,7 @@
 
 import * as React from 'react';
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm, Controller, type FieldErrors, type FieldPath } from "react-hook-form";
+import { useForm, useFieldArray, Controller, type FieldErrors, type FieldPath } from "react-hook-form";
 import {
   QuotationRequestSchema,
   type QuotationRequest,
@@ -43,7 +43,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Separator } from '@/components/ui/separator';
 import { CURRENCIES, type CurrencyCode, type CountryItem, type ProvinceItem } from '@/types/itinerary';
 import { parseISO, format, differenceInDays, isValid } from 'date-fns';
-import { Loader2, MapPin, Globe, AlertCircle } from 'lucide-react';
+import { Loader2, MapPin, Globe, AlertCircle, Plus, Trash2 } from 'lucide-react';
 import { useCountries } from '@/hooks/useCountries';
 import { useProvinces } from '@/hooks/useProvinces';
 import { cn } from '@/lib/utils';
@@ -60,20 +60,18 @@ interface QuotationRequestFormProps {
 export function QuotationRequestForm({ onSubmit, onCancel, defaultAgentId }: QuotationRequestFormProps) {
   const { countries, isLoading: isLoadingCountries, getCountryById } = useCountries();
   const { provinces: allProvinces, isLoading: isLoadingProvinces, getProvincesByCountry } = useProvinces();
-  const { getAgencyById, isLoading: isLoadingAgentsData } = useAgents(); // Use useAgents hook
+  const { agents, getAgencyById, isLoading: isLoadingAgentsData } = useAgents(); // Use useAgents hook
   const [countrySelectionError, setCountrySelectionError] = React.useState<string | null>(null);
 
   const agentAgencyPreferredCurrency = React.useMemo(() => {
     if (!defaultAgentId || isLoadingAgentsData) return undefined;
-    // In a real app, you'd fetch the agent profile here
-    // For demo, we assume the agent is linked to an agency whose ID might be derivable or stored
-    const agentProfile = JSON.parse(localStorage.getItem('itineraryAceAgents') || '[]').find((a: any) => a.id === defaultAgentId);
+    const agentProfile = agents.find(a => a.id === defaultAgentId);
     if (agentProfile?.agencyId) {
       const agency = getAgencyById(agentProfile.agencyId);
       return agency?.preferredCurrency;
     }
     return undefined;
-  }, [defaultAgentId, isLoadingAgentsData, getAgencyById]);
+  }, [defaultAgentId, isLoadingAgentsData, agents, getAgencyById]);
 
   const form = useForm<QuotationRequest>({
     resolver: zodResolver(QuotationRequestSchema),
@@ -83,6 +81,7 @@ export function QuotationRequestForm({ onSubmit, onCancel, defaultAgentId }: Quo
         adults: 1,
         children: 0,
         childAges: "",
+        travelers: [],
       },
       tripDetails: {
         budgetCurrency: agentAgencyPreferredCurrency || 'USD', // Default to agency's preferred currency or USD
@@ -117,6 +116,8 @@ export function QuotationRequestForm({ onSubmit, onCancel, defaultAgentId }: Quo
     }
   }, [agentAgencyPreferredCurrency, form]);
 
+  const { fields: travelerFields, append: appendTraveler, remove: removeTraveler } = useFieldArray({ control: form.control, name: "clientInfo.travelers" });
+
   const watchStartDate = form.watch("tripDetails.preferredStartDate");
   const watchEndDate = form.watch("tripDetails.preferredEndDate");
   const watchChildren = form.watch("clientInfo.children");
@@ -272,6 +273,36 @@ export function QuotationRequestForm({ onSubmit, onCancel, defaultAgentId }: Quo
                 <FormField control={form.control} name="clientInfo.children" render={({ field }) => (<FormItem data-form-item-container><FormLabel>Children</FormLabel><FormControl><Input type="number" min="0" {...field} /></FormControl><FormMessage /></FormItem>)} />
                   <FormField control={form.control} name="clientInfo.childAges" render={({ field }) => (<FormItem data-form-item-container><FormLabel>Child Ages {watchChildren > 0 && "*"}</FormLabel><FormControl><Input placeholder="e.g., 5, 8, 12" {...field} value={field.value || ''} disabled={!(watchChildren > 0)} /></FormControl><FormDescription className="text-xs">Comma-separated if multiple.</FormDescription><FormMessage /></FormItem>)} />
               </div>
+              <Separator />
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium">Traveler Details (Optional)</p>
+                    <p className="text-xs text-muted-foreground">Names as in the passport. A child&apos;s date of birth can replace their age above.</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => appendTraveler({ type: 'adult', fullName: '' })}><Plus className="mr-1.5 h-4 w-4" /> Adult</Button>
+                    <Button type="button" variant="outline" size="sm" onClick={() => appendTraveler({ type: 'child', fullName: '' })}><Plus className="mr-1.5 h-4 w-4" /> Child</Button>
+                  </div>
+                </div>
+                {travelerFields.map((travelerField, index) => (
+                  <div key={travelerField.id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-semibold">{travelerField.type === 'adult' ? 'Adult' : 'Child'}</span>
+                      <Button type="button" variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:bg-destructive/10" onClick={() => removeTraveler(index)} aria-label="Remove traveler"><Trash2 className="h-4 w-4" /></Button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <FormField control={form.control} name={`clientInfo.travelers.${index}.fullName`} render={({ field }) => (<FormItem data-form-item-container><FormLabel>Full Name</FormLabel><FormControl><Input {...field} value={field.value || ''} /></FormControl><FormMessage /></FormItem>)} />
+                      <FormField control={form.control} name={`clientInfo.travelers.${index}.dateOfBirth`} render={({ field }) => (<FormItem data-form-item-container><FormLabel>Date of Birth</FormLabel><FormControl><Input type="date" {...field} value={field.value || ''} onChange={(e) => field.onChange(e.target.value || undefined)} /></FormControl><FormMessage /></FormItem>)} />
+                      <FormField control={form.control} name={`clientInfo.travelers.${index}.nationality`} render={({ field }) => (<FormItem data-form-item-container><FormLabel>Nationality</FormLabel><FormControl><Input {...field} value={field.value || ''} /></FormControl><FormMessage /></FormItem>)} />
+                      <FormField control={form.control} name={`clientInfo.travelers.${index}.passportNumber`} render={({ field }) => (<FormItem data-form-item-container><FormLabel>Passport Number</FormLabel><FormControl><Input {...field} value={field.value || ''} /></FormControl><FormMessage /></FormItem>)} />
+                      <FormField control={form.control} name={`clientInfo.travelers.${index}.passportExpiry`} render={({ field }) => (<FormItem data-form-item-container><FormLabel>Passport Expiry</FormLabel><FormControl><Input type="date" {...field} value={field.value || ''} onChange={(e) => field.onChange(e.target.value || undefined)} /></FormControl><FormMessage /></FormItem>)} />
+                      <FormField control={form.control} name={`clientInfo.travelers.${index}.dietaryNeeds`} render={({ field }) => (<FormItem data-form-item-container><FormLabel>Dietary Needs</FormLabel><FormControl><Input placeholder="e.g., Vegetarian" {...field} value={field.value || ''} /></FormControl><FormMessage /></FormItem>)} />
+                      <FormField control={form.control} name={`clientInfo.travelers.${index}.mobilityNeeds`} render={({ field }) => (<FormItem data-form-item-container className="md:col-span-3"><FormLabel>Mobility Needs</FormLabel><FormControl><Input placeholder="e.g., Wheelchair user" {...field} value={field.value || ''} /></FormControl><FormMessage /></FormItem>)} />
+                    </div>
+                  </div>
+                ))}
+              </div>
             </CardContent>
           </Card>
 
@@ -1,71 +1,12 @@
 'use client';
 
-import {
-  createContext,
-  useContext,
-  useEffect,
-  useState,
-  ReactNode,
-} from 'react';
-import { User } from '@supabase/supabase-js';
-import { getCurrentUser, getUserRole, supabase } from '../lib/auth'; // Adjust the import path if necessary
-
-interface AuthContextType {
-  user: User | null;
-  role: string | null;
-  loading: boolean;
-}
-
-const AuthContext = createContext<AuthContextType | undefined>(undefined);
+import type { ReactNode } from 'react';
+import { SessionProvider } from 'next-auth/react';
 
+/**
+ * Makes the NextAuth session (user id, role and agency) available to `useSession`
+ * and `useRequireRole` throughout the app.
+ */
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [role, setRole] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    const fetchUserAndRole = async () => {
-      const currentUser = await getCurrentUser();
-      setUser(currentUser);
-      if (currentUser) {
-        const userRole = await getUserRole(currentUser.id);
-        setRole(userRole);
-      }
-      setLoading(false);
-    };
-
-    fetchUserAndRole();
-
-    const { data: authListener } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
-        const currentUser = session?.user ?? null;
-        setUser(currentUser);
-        if (currentUser) {
-          const userRole = await getUserRole(currentUser.id);
-          setRole(userRole);
-        } else {
-          setRole(null); // Clear role if user logs out
-        }
-        setLoading(false); // Set loading to false after state change
-      }
-    );
-
-    return () => {
-      authListener?.unsubscribe();
-    };
-  }, []);
-
-  return (
-    <AuthContext.Provider value={{ user, role, loading }}>
-      {children}
-    </AuthContext.Provider>
-  );
-};
-
-export const useAuth = () => {
-  const context = useContext(AuthContext);
-  if (context === undefined) {
-    throw new Error('useAuth must be used within an AuthProvider');
-  }
-  return context;
+  return <SessionProvider>{children}</SessionProvider>;
 };
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview This component draws the trip's accommodation as a strip of nights across the
+ * planner. Every stay is a bar over the nights it covers, naming the hotel, its rooms and the
+ * travelers in them. Nights on which someone has no bed are marked in red and nights on which
+ * someone is booked twice in amber. Dragging either end of a bar, or pressing the arrow keys on it,
+ * moves the stay's check-in or check-out day; clicking a night opens that day.
+ *
+ * @bangla এই কম্পোনেন্টটি ভ্রমণের আবাসনকে প্ল্যানার জুড়ে রাতের একটি স্ট্রিপ হিসাবে আঁকে। প্রতিটি থাকা
+ * তার ঢাকা রাতগুলির উপর একটি বার, যা হোটেল, তার রুম এবং সেগুলিতে থাকা ভ্রমণকারীদের নাম দেখায়। যে রাতে
+ * কারো বিছানা নেই তা লাল রঙে এবং যে রাতে কেউ দুবার বুক করা তা অ্যাম্বার রঙে চিহ্নিত হয়। একটি বারের যেকোনো
+ * প্রান্ত টেনে, বা তার উপর অ্যারো কী চেপে, থাকার চেক-ইন বা চেক-আউট দিন সরানো যায়; একটি রাতে ক্লিক করলে সেই দিনটি খোলে।
+ */
+"use client";
+
+import * as React from 'react';
+import type { HotelDefinition, TripData } from '@/types/itinerary';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BedDouble } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getAccommodationNights, getHotelStays, type HotelStay } from '@/lib/accommodation-nights';
+import { travelerName } from '@/lib/travelers';
+import { addDays, format, isValid, parseISO } from 'date-fns';
+
+interface AccommodationTimelineProps {
+  tripData: TripData;
+  allHotelDefinitions: HotelDefinition[];
+  currentDay: number;
+  onSelectDay: (day: number) => void;
+  onResizeStay: (fromDay: number, itemId: string, checkInDay: number, checkoutDay: number) => void;
+}
+
+type StayEdge = 'checkIn' | 'checkout';
+
+interface StayDrag {
+  itemId: string;
+  edge: StayEdge;
+  checkInDay: number;
+  checkoutDay: number;
+}
+
+/** Lays stays out in rows so that no two in a row share a night. */
+function assignLanes(stays: HotelStay[]): HotelStay[][] {
+  const lanes: HotelStay[][] = [];
+  for (const stay of stays) {
+    const lane = lanes.find(row => row[row.length - 1].item.checkoutDay <= stay.item.day);
+    if (lane) lane.push(stay);
+    else lanes.push([stay]);
+  }
+  return lanes;
+}
+
+export function AccommodationTimeline({ tripData, allHotelDefinitions, currentDay, onSelectDay, onResizeStay }: AccommodationTimelineProps) {
+  const numNights = Math.max(0, tripData.settings.numDays - 1);
+  const nights = React.useMemo(() => getAccommodationNights(tripData, allHotelDefinitions), [tripData, allHotelDefinitions]);
+  const lanes = React.useMemo(() => assignLanes(getHotelStays(tripData, allHotelDefinitions)), [tripData, allHotelDefinitions]);
+  const nightsRef = React.useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = React.useState<StayDrag | null>(null);
+
+  if (numNights === 0) return null;
+
+  const startDate = tripData.settings.startDate ? parseISO(tripData.settings.startDate) : undefined;
+  const nightDate = (night: number) => (startDate && isValid(startDate) ? format(addDays(startDate, night - 1), 'EEE d MMM') : undefined);
+  const travelerNames = (ids: string[]) => ids.map(id => {
+    const traveler = tripData.travelers.find(candidate => candidate.id === id);
+    return traveler ? travelerName(traveler) : id;
+  }).join(', ');
+  const gridStyle = { gridTemplateColumns: `repeat(${numNights}, minmax(4.5rem, 1fr))` };
+
+  // The stay as it would be with `edge` moved to `boundary`; a stay always keeps at least one night.
+  const resized = (stay: HotelStay, edge: StayEdge, boundary: number) => edge === 'checkIn'
+    ? { checkInDay: Math.min(Math.max(1, boundary), stay.item.checkoutDay - 1), checkoutDay: stay.item.checkoutDay }
+    : { checkInDay: stay.item.day, checkoutDay: Math.max(stay.item.day + 1, Math.min(boundary, tripData.settings.numDays)) };
+
+  // The day whose start is nearest `clientX`: 1 at the left edge of the strip, `numDays` at the right.
+  const boundaryAt = (clientX: number) => {
+    const rect = nightsRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 1;
+    return Math.round(((clientX - rect.left) / rect.width) * numNights) + 1;
+  };
+
+  const commit = (stay: HotelStay, next: { checkInDay: number; checkoutDay: number }) => {
+    if (next.checkInDay !== stay.item.day || next.checkoutDay !== stay.item.checkoutDay) {
+      onResizeStay(stay.item.day, stay.item.id, next.checkInDay, next.checkoutDay);
+    }
+  };
+
+  const renderHandle = (stay: HotelStay, edge: StayEdge) => (
+    <span
+      role="slider"
+      tabIndex={0}
+      aria-label={`${edge === 'checkIn' ? 'Check-in' : 'Check-out'} day of ${stay.hotelName}: drag, or use the arrow keys`}
+      aria-valuenow={edge === 'checkIn' ? stay.item.day : stay.item.checkoutDay}
+      aria-valuemin={1}
+      aria-valuemax={tripData.settings.numDays}
+      title={`Drag to change the ${edge === 'checkIn' ? 'check-in' : 'check-out'} day`}
+      className={cn(
+        "absolute inset-y-0 w-2 cursor-ew-resize touch-none bg-primary/40 hover:bg-primary focus-visible:bg-primary focus-visible:outline-none",
+        edge === 'checkIn' ? 'left-0 rounded-l-md' : 'right-0 rounded-r-md',
+      )}
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDrag({ itemId: stay.item.id, edge, checkInDay: stay.item.day, checkoutDay: stay.item.checkoutDay });
+      }}
+      onPointerMove={(e) => {
+        if (drag?.itemId !== stay.item.id || drag.edge !== edge) return;
+        setDrag({ ...drag, ...resized(stay, edge, boundaryAt(e.clientX)) });
+      }}
+      onPointerUp={(e) => {
+        if (drag?.itemId !== stay.item.id || drag.edge !== edge) return;
+        commit(stay, resized(stay, edge, boundaryAt(e.clientX)));
+        setDrag(null);
+      }}
+      onPointerCancel={() => setDrag(null)}
+      onKeyDown={(e) => {
+        if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+        e.preventDefault();
+        const current = edge === 'checkIn' ? stay.item.day : stay.item.checkoutDay;
+        commit(stay, resized(stay, edge, current + (e.key === 'ArrowLeft' ? -1 : 1)));
+      }}
+    />
+  );
+
+  return (
+    <Card className="mb-6 shadow-sm no-print">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <BedDouble className="h-4 w-4 text-primary" /> Accommodation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <div ref={nightsRef} className="min-w-max space-y-1 select-none">
+          <div className="grid gap-px" style={gridStyle}>
+            {nights.map(({ night, stays, uncoveredTravelerIds, doubleBookedTravelerIds }) => {
+              const isGap = stays.length === 0 || uncoveredTravelerIds.length > 0;
+              const isDoubleBooked = doubleBookedTravelerIds.length > 0;
+              const problems = [
+                isGap ? (stays.length === 0 ? "No accommodation booked." : `No bed for ${travelerNames(uncoveredTravelerIds)}.`) : '',
+                isDoubleBooked ? `Booked twice: ${travelerNames(doubleBookedTravelerIds)}.` : '',
+              ].filter(Boolean);
+              return (
+                <button
+                  key={night}
+                  type="button"
+                  onClick={() => onSelectDay(night)}
+                  title={[`Night ${night}${nightDate(night) ? ` (${nightDate(night)})` : ''}`, ...problems].join('\n')}
+                  className={cn(
+                    "rounded-md border px-1.5 py-1 text-left text-xs",
+                    isGap ? "border-destructive/50 bg-destructive/10 text-destructive"
+                      : isDoubleBooked ? "border-amber-500/50 bg-amber-500/10 text-amber-700 dark:text-amber-500"
+                      : "bg-muted/40",
+                    night === currentDay && "ring-2 ring-primary/50",
+                  )}
+                >
+                  <div className="font-medium">Night {night}</div>
+                  <div className="text-muted-foreground">{nightDate(night) ?? `Day ${night}–${night + 1}`}</div>
+                  {isGap && <div className="font-semibold">{stays.length === 0 ? "No hotel" : `${uncoveredTravelerIds.length} without a bed`}</div>}
+                  {isDoubleBooked && <div className="font-semibold">{doubleBookedTravelerIds.length} booked twice</div>}
+                </button>
+              );
+            })}
+          </div>
+
+          {lanes.map((lane, laneIndex) => (
+            <div key={laneIndex} className="grid gap-px" style={gridStyle}>
+              {lane.map(stay => {
+                const shown = drag?.itemId === stay.item.id ? drag : { checkInDay: stay.item.day, checkoutDay: stay.item.checkoutDay };
+                const firstNight = Math.min(Math.max(1, shown.checkInDay), numNights);
+                const endNight = Math.min(Math.max(firstNight + 1, shown.checkoutDay), numNights + 1);
+                const roomsText = stay.rooms.map(room => `${room.numRooms} × ${room.name}${room.travelerIds.length > 0 ? ` (${travelerNames(room.travelerIds)})` : ''}`).join('; ');
+                return (
+                  <div
+                    key={stay.item.id}
+                    role="button"
+                    tabIndex={-1}
+                    onClick={() => onSelectDay(stay.item.day)}
+                    style={{ gridColumn: `${firstNight} / ${endNight}` }}
+                    title={[
+                      `${stay.hotelName}: check-in Day ${shown.checkInDay}, check-out Day ${shown.checkoutDay}`,
+                      roomsText || "No rooms selected",
+                      `Travelers: ${travelerNames(stay.travelerIds) || 'none'}`,
+                    ].join('\n')}
+                    className={cn(
+                      "relative cursor-pointer overflow-hidden rounded-md border border-primary/40 bg-primary/10 px-3 py-1 text-xs",
+                      drag?.itemId === stay.item.id && "ring-2 ring-primary",
+                    )}
+                  >
+                    {renderHandle(stay, 'checkIn')}
+                    <div className="truncate font-medium">{stay.hotelName}</div>
+                    <div className="truncate text-muted-foreground">{roomsText || "No rooms selected"}</div>
+                    {renderHandle(stay, 'checkout')}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+          {lanes.length === 0 && <p className="text-xs text-muted-foreground">No hotel stays yet. Add a hotel on the day of check-in.</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
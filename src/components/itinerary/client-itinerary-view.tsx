@@ -0,0 +1,220 @@
+/**
+ * @fileoverview The client-facing rendering of an itinerary: header, day-by-day services and the
+ * sell-price cost summary. Used by the signed-in itinerary view and by public share links, so a
+ * client opening a link sees the same page the admin previewed. Without `showCosts` no amount is
+ * rendered at all. Page-specific actions are passed in as slots.
+ *
+ * @bangla একটি ভ্রমণপথের ক্লায়েন্ট-মুখী রূপ: হেডার, দিন-ভিত্তিক পরিষেবা এবং বিক্রয়-মূল্যের খরচের সারাংশ।
+ * সাইন-ইন করা ভ্রমণপথ ভিউ এবং পাবলিক শেয়ার লিঙ্ক উভয়ই এটি ব্যবহার করে, তাই লিঙ্ক খোলা ক্লায়েন্ট ঠিক সেই
+ * পৃষ্ঠাটিই দেখে যা অ্যাডমিন প্রিভিউ করেছিলেন। `showCosts` ছাড়া কোনো পরিমাণই দেখানো হয় না। পৃষ্ঠা-নির্দিষ্ট
+ * কাজগুলি স্লট হিসাবে দেওয়া হয়।
+ */
+"use client";
+
+import * as React from 'react';
+import type { TripData, ItineraryItem, CostSummary, DetailedSummaryItem } from '@/types/itinerary';
+import { addDays, format, parseISO, isValid } from 'date-fns';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  CalendarDays, Users, MapPin, Hotel, Car, Ticket, Utensils, ShoppingBag, FileText,
+  Globe, Coins, PackageIcon, MessageSquare,
+} from 'lucide-react';
+import { formatCurrency, cn } from '@/lib/utils';
+import { CostBreakdownTable } from '@/components/itinerary/cost-breakdown-table';
+
+const ITEM_TYPE_ICONS: { [key in ItineraryItem['type']]: React.ElementType } = {
+  transfer: Car,
+  hotel: Hotel,
+  activity: Ticket,
+  meal: Utensils,
+  misc: ShoppingBag,
+};
+
+export const BOOKING_STATUS_STYLES: Record<DetailedSummaryItem['bookingStatus'] & string, string> = {
+  Pending: "bg-yellow-100 text-yellow-800 border-yellow-300 dark:bg-yellow-700/20 dark:text-yellow-300 dark:border-yellow-600",
+  Requested: "bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-700/20 dark:text-blue-300 dark:border-blue-600",
+  Confirmed: "bg-green-100 text-green-800 border-green-300 dark:bg-green-700/20 dark:text-green-300 dark:border-green-600",
+  Unavailable: "bg-red-100 text-red-800 border-red-300 dark:bg-red-700/20 dark:text-red-300 dark:border-red-600",
+  Cancelled: "bg-gray-100 text-gray-800 border-gray-300 dark:bg-gray-600/20 dark:text-gray-300 dark:border-gray-500",
+};
+
+interface ClientItineraryViewProps {
+  tripData: TripData;
+  costSummary: CostSummary; // Sell prices only (see `toSellPriceCostSummary`)
+  showCosts: boolean;
+  getCountryName: (countryId: string) => string;
+  headerActions?: React.ReactNode;
+  costSummaryNotice?: React.ReactNode; // Shown above the totals, e.g. pricing issues for admins
+  footer?: React.ReactNode;
+}
+
+export function ClientItineraryView({ tripData, costSummary, showCosts, getCountryName, headerActions, costSummaryNotice, footer }: ClientItineraryViewProps) {
+  const { settings, pax, travelers, days } = tripData;
+  const displayStartDate = settings.startDate && isValid(parseISO(settings.startDate))
+    ? format(parseISO(settings.startDate), "MMMM d, yyyy")
+    : 'N/A';
+
+  const getFormattedDateForDay = (dayNum: number): string => {
+    if (!settings.startDate) return `Day ${dayNum}`;
+    try {
+      const date = addDays(parseISO(settings.startDate), dayNum - 1);
+      return `Day ${dayNum} - ${format(date, "MMMM d, yyyy (EEEE)")}`;
+    } catch (e) {
+      return `Day ${dayNum}`;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/20 dark:bg-muted/5 p-2 sm:p-4 md:p-6 lg:p-8 print:p-0 print:bg-white">
+      <div className="max-w-4xl mx-auto bg-card shadow-2xl rounded-lg print:shadow-none print:border-none">
+        <CardHeader className="p-4 sm:p-6 border-b print:border-b-2 print:border-black bg-primary/5 dark:bg-primary/10">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+            <div className="flex-grow">
+              <h1 className="text-2xl sm:text-3xl font-bold text-primary print:text-black">{tripData.itineraryName}</h1>
+              {tripData.clientName && <p className="text-sm sm:text-md text-muted-foreground print:text-gray-700">For: {tripData.clientName}</p>}
+            </div>
+            {headerActions && <div className="flex gap-2 self-start sm:self-center no-print">{headerActions}</div>}
+          </div>
+          <div className="mt-3 sm:mt-4 grid grid-cols-2 sm:grid-cols-3 gap-x-3 sm:gap-x-4 gap-y-1.5 text-xs sm:text-sm print:text-xs">
+            <div className="flex items-center"><CalendarDays className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Dates:</strong><span className="ml-1.5">{displayStartDate} ({settings.numDays} days)</span></div>
+            <div className="flex items-center"><Users className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Guests:</strong><span className="ml-1.5">{pax.adults} Adult(s){pax.children > 0 && `, ${pax.children} Child(ren)`}</span></div>
+            {showCosts && <div className="flex items-center"><Coins className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Currency:</strong><span className="ml-1.5">{pax.currency}</span></div>}
+            {settings.selectedCountries.length > 0 && (
+              <div className="flex items-center col-span-full sm:col-span-1"><Globe className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Countries:</strong><span className="ml-1.5">{settings.selectedCountries.map(getCountryName).join(', ')}</span></div>
+            )}
+            {settings.selectedProvinces.length > 0 && (
+              <div className="flex items-center col-span-full sm:col-span-2"><MapPin className="mr-1.5 h-4 w-4 text-primary print:text-gray-600" /> <strong>Provinces:</strong><span className="ml-1.5">{settings.selectedProvinces.join(', ')}</span></div>
+            )}
+          </div>
+           {tripData.overallBookingStatus && (
+            <div className="mt-2 pt-2 border-t border-primary/10">
+              <Badge variant="outline" className="text-sm font-medium border-gray-300 text-gray-700">
+                Overall Status: {tripData.overallBookingStatus}
+              </Badge>
+            </div>
+          )}
+        </CardHeader>
+
+        <CardContent className="p-4 sm:p-6 space-y-6 md:space-y-8 print:p-3 sm:print:p-4">
+          {Object.entries(days)
+            .sort(([dayNumA], [dayNumB]) => parseInt(dayNumA) - parseInt(dayNumB))
+            .map(([dayNumStr, dayItinerary]) => {
+            const dayNum = parseInt(dayNumStr);
+            return (
+              <section key={dayNum} className="mb-5 last:mb-0 print:mb-3 page-break-inside-avoid">
+                <h2 className="text-xl sm:text-2xl font-semibold text-primary border-b-2 border-primary/30 pb-2 mb-4 sm:mb-5 print:text-lg print:border-gray-400 print:pb-1.5 print:mb-3">
+                  {getFormattedDateForDay(dayNum)}
+                </h2>
+                {dayItinerary.items.length === 0 ? (
+                  <div className="text-center py-6 text-muted-foreground bg-muted/20 dark:bg-muted/10 rounded-md border border-dashed print:py-3">
+                    <PackageIcon className="mx-auto h-10 w-10 text-gray-400 dark:text-gray-500 mb-2 print:h-8 print:w-8" />
+                    <p className="text-sm sm:text-md print:text-sm">No activities or services planned for this day.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4 sm:space-y-5 print:space-y-3">
+                    {dayItinerary.items.map(item => {
+                      const IconComponent = ITEM_TYPE_ICONS[item.type] || FileText;
+                      const detailedItemInfo = costSummary.detailedItems.find(di => di.id === item.id);
+                      const locationDisplay = [detailedItemInfo?.province, detailedItemInfo?.countryName].filter(Boolean).join(', ');
+
+                      return (
+                        <Card key={item.id} className="shadow-md hover:shadow-lg transition-shadow duration-200 print:shadow-none print:border-gray-300 page-break-inside-avoid overflow-hidden">
+                          <CardHeader className="flex flex-row items-start gap-3 p-3 sm:p-4 bg-muted/30 dark:bg-muted/15 print:bg-gray-50 print:p-2.5 border-b print:border-gray-200">
+                            <IconComponent className="h-5 w-5 sm:h-6 sm:w-6 text-accent mt-0.5 sm:mt-1 flex-shrink-0 print:h-4 print:w-4" />
+                            <div className="flex-grow min-w-0">
+                              <h3 className="text-md sm:text-lg font-semibold text-primary/90 dark:text-primary/80 print:text-base">{item.name}</h3>
+                              {locationDisplay && <p className="text-xs text-muted-foreground print:text-gray-600"><MapPin className="inline-block h-3 w-3 mr-1 -mt-px"/>{locationDisplay}</p>}
+                            </div>
+                          </CardHeader>
+                          <CardContent className="p-3 sm:p-4 space-y-2 text-xs sm:text-sm print:p-2.5 print:text-xs">
+                            {item.note && (
+                              <div className="flex items-start">
+                                <MessageSquare className="h-3.5 w-3.5 mr-2 mt-px text-muted-foreground flex-shrink-0 print:h-3 print:w-3"/>
+                                <p className="whitespace-pre-wrap text-muted-foreground print:text-gray-700">{item.note}</p>
+                              </div>
+                            )}
+                            {detailedItemInfo?.configurationDetails && (
+                              <div>
+                                <strong className="text-foreground/80 print:font-normal">Details:</strong>
+                                <ul className="list-disc list-inside pl-2 mt-0.5 space-y-0.5 text-xs text-muted-foreground print:text-gray-700">
+                                  {detailedItemInfo.configurationDetails.split(';').map(d => d.trim()).filter(Boolean).map((detail, idx) => (
+                                    <li key={idx} className="whitespace-normal break-words">{detail}</li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                             {item.type === 'hotel' && detailedItemInfo?.occupancyDetails && detailedItemInfo.occupancyDetails.length > 0 && (
+                                <div className="mt-2 pt-2 border-t border-border/50 dark:border-border/20">
+                                <strong className="text-xs text-foreground/80 print:font-normal">Rooming Configuration:</strong>
+                                <ul className="list-disc list-inside pl-2 mt-0.5 space-y-1 text-xs">
+                                    {detailedItemInfo.occupancyDetails.map((occ, idx) => (
+                                    <li key={idx}>
+                                        <strong>{occ.roomTypeName}</strong> ({occ.numRooms} room{occ.numRooms > 1 ? 's' : ''} x {occ.nights} night{occ.nights > 1 ? 's' : ''})
+                                        {occ.extraBedAdded && " (incl. Extra Bed)"}.
+                                        {occ.assignedTravelerLabels && <span className="block text-muted-foreground print:text-gray-600">Guests: {occ.assignedTravelerLabels}</span>}
+                                        {occ.characteristics && <span className="block text-muted-foreground print:text-gray-600">Details: {occ.characteristics}</span>}
+                                        {showCosts && <span className="block text-muted-foreground print:text-gray-600">Price: {formatCurrency(occ.totalRoomBlockCost, pax.currency)}</span>}
+                                    </li>
+                                    ))}
+                                </ul>
+                                </div>
+                            )}
+                            {detailedItemInfo?.bookingStatus && (
+                              <p className="mt-2 pt-2 border-t border-border/50 dark:border-border/20"><strong className="text-foreground/80 print:font-normal">Status:</strong> <Badge variant="outline" className={cn("text-xs", BOOKING_STATUS_STYLES[detailedItemInfo.bookingStatus] || 'border-gray-300 text-gray-700')}>{detailedItemInfo.bookingStatus}</Badge>
+                                {detailedItemInfo.confirmationRef && <span className="ml-2 text-muted-foreground print:text-gray-600">(Ref: {detailedItemInfo.confirmationRef})</span>}
+                              </p>
+                            )}
+                            {detailedItemInfo?.excludedTravelers && detailedItemInfo.excludedTravelers !== "None" && (
+                              <p className="text-xs text-amber-700 dark:text-amber-500 print:text-gray-600 mt-1.5">Excludes: {detailedItemInfo.excludedTravelers}</p>
+                            )}
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                )}
+              </section>
+            );
+          })}
+
+          {showCosts ? (
+            <section className="mt-6 pt-5 border-t print:mt-4 print:pt-3 print:border-gray-300 page-break-before-avoid">
+              <h2 className="text-lg sm:text-xl font-semibold text-primary mb-3 sm:mb-4 print:text-base">Cost Summary</h2>
+              {costSummaryNotice}
+              {tripData.frozenExchangeRates && Object.keys(tripData.frozenExchangeRates.conversions).length > 0 && (
+                <p className="text-xs text-muted-foreground mb-3 print:text-gray-600">
+                  Prices use the exchange rates of {format(parseISO(tripData.frozenExchangeRates.frozenAt), "MMMM d, yyyy")}.
+                </p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+                <div className="bg-muted/20 dark:bg-muted/10 p-3 sm:p-4 rounded-md border">
+                  <h3 className="text-sm sm:text-md font-semibold mb-1.5 print:text-sm text-foreground/90">Per Person Total:</h3>
+                  <CostBreakdownTable summary={costSummary} currency={pax.currency} travelers={travelers} showCosts={true} />
+                </div>
+                <div className="text-left md:text-right bg-muted/20 dark:bg-muted/10 p-3 sm:p-4 rounded-md border">
+                  <h3 className="text-sm sm:text-md font-semibold mb-0.5 print:text-sm text-foreground/90">Grand Total:</h3>
+                  <p className="text-xl sm:text-2xl font-bold text-accent print:text-lg">{formatCurrency(costSummary.grandTotal, pax.currency)}</p>
+                  {settings.budget && (
+                    <p className="text-xs text-muted-foreground print:text-gray-600">
+                      Budget: {formatCurrency(settings.budget, pax.currency)}
+                      {costSummary.grandTotal > settings.budget && <Badge variant="destructive" className="ml-1.5 text-xs">Over Budget</Badge>}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </section>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center mt-4">Prices are not included in this view.</p>
+          )}
+
+        </CardContent>
+        {footer && (
+          <div className="p-4 sm:p-6 pt-0 text-center no-print flex flex-col sm:flex-row justify-center items-center gap-3">
+            {footer}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
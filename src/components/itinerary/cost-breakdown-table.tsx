@@ -2,19 +2,22 @@
  * @fileoverview This component renders a table displaying the cost breakdown
  * per traveler for an itinerary. It takes the cost summary, currency, and list
  * of travelers as props, and shows individual totals and the grand total.
- * It also has an option to hide/show cost details.
+ * It also has an option to hide/show cost details. When the summary has pricing issues, a
+ * banner above the table says so, and warns that the totals are incomplete if any are errors.
  *
  * @bangla এই কম্পোনেন্টটি একটি ভ্রমণপথের জন্য প্রতি ভ্রমণকারীর খরচ ভাঙ্গন প্রদর্শনকারী
  * একটি টেবিল রেন্ডার করে। এটি খরচের সারাংশ, মুদ্রা এবং ভ্রমণকারীদের তালিকা props
  * হিসেবে গ্রহণ করে এবং ব্যক্তিগত মোট এবং গ্র্যান্ড টোটাল দেখায়। এটিতে খরচের বিবরণ
- * লুকানো/দেখানোর একটি বিকল্পও রয়েছে।
+ * লুকানো/দেখানোর একটি বিকল্পও রয়েছে। সারাংশে মূল্য নির্ধারণ সমস্যা থাকলে টেবিলের উপরে একটি ব্যানার তা
+ * জানায়, এবং কোনোটি ত্রুটি হলে সতর্ক করে যে মোট খরচ অসম্পূর্ণ।
  */
 "use client";
 
 import * as React from 'react';
 import type { CostSummary, CurrencyCode, Traveler } from '@/types/itinerary';
 import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { formatCurrency } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
+import { AlertTriangle } from 'lucide-react';
 
 interface CostBreakdownTableProps {
   summary: CostSummary;
@@ -24,7 +27,28 @@ interface CostBreakdownTableProps {
 }
 
 function CostBreakdownTableComponent({ summary, currency, travelers, showCosts }: CostBreakdownTableProps) {
+  const issues = summary.pricingIssues ?? [];
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
   return (
+    <>
+    {issues.length > 0 && (
+      <div
+        role="alert"
+        className={cn(
+          "flex items-start gap-2 rounded-md border px-3 py-2 mb-2 text-xs font-medium",
+          errorCount > 0 ? "border-destructive/50 bg-destructive/10 text-destructive" : "border-amber-500/50 bg-amber-50 text-amber-800 dark:bg-amber-950/30 dark:text-amber-400",
+        )}
+      >
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        <span>
+          {errorCount > 0
+            ? `Totals are incomplete: ${errorCount} pricing error${errorCount === 1 ? '' : 's'}${warningCount > 0 ? ` and ${warningCount} warning${warningCount === 1 ? '' : 's'}` : ''}.`
+            : `${warningCount} pricing warning${warningCount === 1 ? '' : 's'} to check.`}
+        </span>
+      </div>
+    )}
     <Table>
       <TableHeader>
         <TableRow>
@@ -61,6 +85,7 @@ function CostBreakdownTableComponent({ summary, currency, travelers, showCosts }
         </TableFooter>
       )}
     </Table>
+    </>
   );
 }
 
@@ -2,29 +2,33 @@
 /**
  * @fileoverview This component renders the view for a single day in the itinerary.
  * It displays all the itinerary items (transfers, activities, hotels, etc.) planned
- * for that specific day and provides controls to add new items or modify existing ones.
- * It utilizes various specific item form components to handle the details of each service type.
+ * for that specific day in running order and provides controls to add new items, modify existing
+ * ones and reorder them by dragging or by start time. The day's schedule issues are listed above
+ * the items. It utilizes various specific item form components to handle the details of each service type.
  *
  * @bangla এই কম্পোনেন্টটি ভ্রমণপথের একটি নির্দিষ্ট দিনের ভিউ রেন্ডার করে।
  * এটি সেই নির্দিষ্ট দিনের জন্য পরিকল্পিত সমস্ত ভ্রমণপথের আইটেমগুলি (ট্রান্সফার, কার্যকলাপ,
- * হোটেল ইত্যাদি) প্রদর্শন করে এবং নতুন আইটেম যুক্ত করতে বা বিদ্যমান আইটেমগুলি সংশোধন
- * করার জন্য নিয়ন্ত্রণ সরবরাহ করে। এটি প্রতিটি পরিষেবা প্রকারের বিবরণ পরিচালনা করার
+ * হোটেল ইত্যাদি) চলার ক্রমে প্রদর্শন করে এবং নতুন আইটেম যুক্ত করতে, বিদ্যমান আইটেমগুলি সংশোধন
+ * করতে এবং টেনে বা শুরুর সময় অনুযায়ী পুনর্বিন্যাস করার জন্য নিয়ন্ত্রণ সরবরাহ করে। দিনের সময়সূচী
+ * সমস্যাগুলি আইটেমগুলির উপরে তালিকাভুক্ত হয়। এটি প্রতিটি পরিষেবা প্রকারের বিবরণ পরিচালনা করার
  * জন্য বিভিন্ন নির্দিষ্ট আইটেম ফর্ম কম্পোনেন্ট ব্যবহার করে।
  */
 "use client";
 
 import * as React from 'react';
-import type { ItineraryItem, Traveler, CurrencyCode, TripSettings, HotelDefinition, ServicePriceItem, TransferItem, HotelItem, ActivityItem, MealItem, MiscItem } from '@/types/itinerary';
+import type { ItineraryItem, Traveler, CurrencyCode, TripSettings, HotelDefinition, ServicePriceItem, TransferItem, HotelItem, ActivityItem, MealItem, MiscItem, ScheduleIssue } from '@/types/itinerary';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { PlusCircle, Hotel, Utensils, Car, Ticket, ShoppingBag, PackagePlus } from 'lucide-react';
+import { PlusCircle, Hotel, Utensils, Car, Ticket, ShoppingBag, PackagePlus, GripVertical, ArrowDownUp } from 'lucide-react';
 import { TransferItemForm } from './items/transfer-item-form';
 import { ActivityItemForm } from './items/activity-item-form';
 import { HotelItemForm } from './items/hotel-item-form';
 import { MealItemForm } from './items/meal-item-form';
 import { MiscItemForm } from './items/misc-item-form';
 import { Separator } from '@/components/ui/separator';
-import { formatCurrency } from '@/lib/utils';
+import { ScheduleIssuesList } from './schedule-issues-list';
+import { cn, formatCurrency } from '@/lib/utils';
+import { formatItemTimeRange, sortItemsByTime } from '@/lib/day-schedule';
 import { addDays, format, parseISO } from 'date-fns';
 
 interface DayViewProps {
@@ -36,8 +40,11 @@ interface DayViewProps {
   onAddItem: (day: number, itemType: ItineraryItem['type']) => void;
   onUpdateItem: (day: number, updatedItem: ItineraryItem) => void;
   onDeleteItem: (day: number, itemId: string) => void;
+  onReorderItems: (day: number, itemIds: string[]) => void;
+  onMoveItem: (fromDay: number, itemId: string, toDay: number) => void;
   allHotelDefinitions: HotelDefinition[];
   allServicePrices: ServicePriceItem[];
+  scheduleIssues?: ScheduleIssue[];
 }
 
 const SERVICE_TYPES_CONFIG: Array<{ type: ItineraryItem['type'], label: string, icon: React.ElementType }> = [
@@ -50,7 +57,7 @@ const SERVICE_TYPES_CONFIG: Array<{ type: ItineraryItem['type'], label: string,
 
 function DayViewComponent({
   dayNumber, items, travelers, currency, tripSettings,
-  onAddItem, onUpdateItem, onDeleteItem, allHotelDefinitions, allServicePrices
+  onAddItem, onUpdateItem, onDeleteItem, onReorderItems, onMoveItem, allHotelDefinitions, allServicePrices, scheduleIssues
 }: DayViewProps) {
 
   const [expandedItemId, setExpandedItemId] = React.useState<string | null>(null);
@@ -70,7 +77,33 @@ function DayViewComponent({
     setExpandedItemId(prevId => (prevId === itemId ? null : itemId));
   };
 
+  const [draggedItemId, setDraggedItemId] = React.useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = React.useState<string | null>(null);
+
+  const moveItem = (itemId: string, toIndex: number) => {
+    const itemIds = items.map(item => item.id);
+    const fromIndex = itemIds.indexOf(itemId);
+    if (fromIndex < 0 || toIndex < 0 || toIndex >= itemIds.length || fromIndex === toIndex) return;
+    itemIds.splice(fromIndex, 1);
+    itemIds.splice(toIndex, 0, itemId);
+    onReorderItems(dayNumber, itemIds);
+  };
+
+  const endDrag = () => {
+    setDraggedItemId(null);
+    setDropTargetId(null);
+  };
+
+  const timeOrderedIds = sortItemsByTime(items, allServicePrices).map(item => item.id);
+  const canSortByTime = items.filter(item => item.startTime).length > 1 && timeOrderedIds.some((id, index) => items[index].id !== id);
+
   const getItemSummaryLine = (item: ItineraryItem): React.ReactNode => {
+    const timeRange = formatItemTimeRange(item, allServicePrices);
+    const details = getItemDetailsLine(item);
+    return timeRange ? <>{timeRange}{details && <> · {details}</>}</> : details;
+  };
+
+  const getItemDetailsLine = (item: ItineraryItem): React.ReactNode => {
     switch (item.type) {
       case 'transfer':
         const transfer = item as TransferItem;
@@ -121,7 +154,7 @@ function DayViewComponent({
       case 'transfer':
         return <TransferItemForm key={itemKey} {...commonProps} />;
       case 'activity':
-        return <ActivityItemForm key={itemKey} {...commonProps} />;
+        return <ActivityItemForm key={itemKey} {...commonProps} onMoveToDay={(toDay) => onMoveItem(dayNumber, item.id, toDay)} />;
       case 'hotel':
         return <HotelItemForm key={itemKey} {...commonProps} allHotelDefinitions={allHotelDefinitions} />;
       case 'meal':
@@ -136,9 +169,55 @@ function DayViewComponent({
   return (
     <Card className="mb-6 shadow-md border-primary/20 w-full bg-card">
       <CardContent className="px-2 sm:px-4 py-3 md:py-4">
+        <ScheduleIssuesList issues={scheduleIssues} className="mb-3" />
+        {canSortByTime && (
+          <div className="flex justify-end mb-2">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onReorderItems(dayNumber, timeOrderedIds)}>
+              <ArrowDownUp className="mr-1 h-3.5 w-3.5" /> Sort by Time
+            </Button>
+          </div>
+        )}
         <div className="space-y-3 md:space-y-4">
           {items.length > 0 ? (
-            items.map(item => renderItemForm(item))
+            items.map((item, index) => (
+              <div
+                key={item.id}
+                className={cn("flex items-start gap-1 rounded-md", draggedItemId === item.id && "opacity-50", dropTargetId === item.id && draggedItemId !== item.id && "ring-2 ring-primary/40")}
+                onDragOver={(e) => {
+                  if (!draggedItemId) return;
+                  e.preventDefault();
+                  setDropTargetId(item.id);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (draggedItemId) moveItem(draggedItemId, index);
+                  endDrag();
+                }}
+              >
+                <button
+                  type="button"
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', item.id);
+                    if (e.currentTarget.parentElement) e.dataTransfer.setDragImage(e.currentTarget.parentElement, 16, 16);
+                    setDraggedItemId(item.id);
+                  }}
+                  onDragEnd={endDrag}
+                  onKeyDown={(e) => {
+                    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+                    e.preventDefault();
+                    moveItem(item.id, index + (e.key === 'ArrowUp' ? -1 : 1));
+                  }}
+                  className="mt-3 p-0.5 rounded text-muted-foreground hover:text-primary cursor-grab active:cursor-grabbing focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  aria-label={`Move ${item.name}: drag, or use the arrow keys`}
+                  title="Drag to reorder"
+                >
+                  <GripVertical className="h-4 w-4" />
+                </button>
+                <div className="flex-1 min-w-0">{renderItemForm(item)}</div>
+              </div>
+            ))
           ) : (
             <div className="text-center py-10 text-muted-foreground">
               <PackagePlus className="mx-auto h-12 w-12 mb-2 text-gray-400" />
@@ -2,19 +2,22 @@
  * @fileoverview This component renders a detailed table summarizing all items in an itinerary.
  * It groups items by category (e.g., Hotels, Activities, Transfers) and displays key details
  * for each item, including name, notes, configuration, excluded travelers, and costs (if shown).
- * It is designed to provide a comprehensive overview for both screen and print views.
+ * It is designed to provide a comprehensive overview for both screen and print views. Pricing issues
+ * are shown under the item they concern, on screen and in print.
  *
  * @bangla এই কম্পোনেন্টটি একটি ভ্রমণপথের সমস্ত আইটেমের সারসংক্ষেপ একটি বিস্তারিত টেবিল রেন্ডার করে।
  * এটি আইটেমগুলিকে বিভাগ অনুসারে (যেমন, হোটেল, কার্যকলাপ, ট্রান্সফার) গ্রুপ করে এবং প্রতিটি
  * আইটেমের জন্য মূল বিবরণ প্রদর্শন করে, যার মধ্যে নাম, নোট, কনফিগারেশন, বাদ দেওয়া ভ্রমণকারী
  * এবং খরচ (যদি দেখানো হয়) অন্তর্ভুক্ত। এটি স্ক্রিন এবং প্রিন্ট উভয় ভিউয়ের জন্য একটি
- * ব্যাপক ওভারভিউ প্রদানের জন্য ডিজাইন করা হয়েছে।
+ * ব্যাপক ওভারভিউ প্রদানের জন্য ডিজাইন করা হয়েছে। মূল্য নির্ধারণ সমস্যাগুলি সংশ্লিষ্ট আইটেমের নিচে, স্ক্রিন ও
+ * প্রিন্ট উভয়তেই দেখানো হয়।
  */
 "use client";
 import React from 'react';
-import type { CostSummary, CurrencyCode, DetailedSummaryItem, HotelOccupancyDetail } from '@/types/itinerary';
+import type { CostSummary, CurrencyCode, DetailedSummaryItem, HotelOccupancyDetail, PricingIssue } from '@/types/itinerary';
 import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { formatCurrency } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
+import { getItemPricingIssues } from '@/lib/pricing-issues';
 
 interface DetailsSummaryTableProps {
   summary: CostSummary;
@@ -22,67 +25,103 @@ interface DetailsSummaryTableProps {
   showCosts: boolean;
 }
 
-function DetailsSummaryTableComponent({ summary, currency, showCosts }: DetailsSummaryTableProps) {
-  const renderItemRow = (item: DetailedSummaryItem, isPrintContext: boolean = false) => {
-    const configDetailsArray = item.configurationDetails?.split(';').map(d => d.trim()).filter(Boolean) || [];
+interface DetailedSummaryItemRowProps {
+  item: DetailedSummaryItem;
+  currency: CurrencyCode;
+  showCosts: boolean;
+  isPrintContext?: boolean;
+  /** The summary's pricing issues for this item. */
+  issues?: PricingIssue[];
+  className?: string;
+  /** An extra last column, e.g. the change and price delta in the quote version diff. */
+  trailingCell?: React.ReactNode;
+}
 
-    return (
-      <React.Fragment key={`${item.id}-${isPrintContext ? 'print' : 'screen'}-${showCosts ? 'costs' : 'no-costs'}`}>
-        <TableRow className={isPrintContext ? 'print-details-item' : ''}>
-          <TableCell className="font-medium align-top">{item.type}</TableCell>
-          <TableCell className="align-top">
-            {item.day && !isPrintContext ? `(Day ${item.day}) ` : ''}
-            {item.name}
-            {item.province && <div className="text-xs text-muted-foreground">Loc: {item.province}{item.countryName ? `, ${item.countryName}` : ''}</div>}
-          </TableCell>
-          <TableCell className="text-xs text-muted-foreground align-top">{item.note || '-'}</TableCell>
-          <TableCell className="text-xs font-code align-top">
-            {configDetailsArray.length > 0 ? (
-              configDetailsArray.map((detail, idx) => (
-                <div key={idx} className="whitespace-normal break-words">{detail}</div>
-              ))
-            ) : '-'}
-          </TableCell>
-          {!isPrintContext && <TableCell className="text-xs align-top">{item.excludedTravelers || 'All Included'}</TableCell>}
-          {showCosts && !isPrintContext && <TableCell className="text-right font-code align-top">{formatCurrency(item.adultCost, currency)}</TableCell>}
-          {showCosts && !isPrintContext && <TableCell className="text-right font-code align-top">{formatCurrency(item.childCost, currency)}</TableCell>}
-          {showCosts && <TableCell className="text-right font-semibold font-code align-top">{formatCurrency(item.totalCost, currency)}</TableCell>}
-        </TableRow>
-        {item.occupancyDetails && item.occupancyDetails.map((occDetail: HotelOccupancyDetail, index) => {
-          const characteristicsArray = occDetail.characteristics?.split(';').map(d => d.trim()).filter(Boolean) || [];
-          return (
-            <TableRow 
-                key={`${item.id}-occ-${index}-${isPrintContext ? 'print' : 'screen'}-${showCosts ? 'costs' : 'no-costs'}`} 
-                className={`bg-muted/30 text-xs ${isPrintContext ? 'print-hotel-occupancy-detail-item' : 'hotel-occupancy-detail-item'}`}
-            >
-              <TableCell className="py-1 pl-4 align-top"></TableCell> {/* Indent for sub-item */}
-              <TableCell className="py-1 pl-4 align-top italic">└ Room: {occDetail.roomTypeName}</TableCell>
-              <TableCell className="py-1 align-top">#Rooms: {occDetail.numRooms}, Nights: {occDetail.nights} {occDetail.extraBedAdded ? '(Incl. Extra Bed)' : ''}</TableCell>
-              <TableCell className="py-1 font-code align-top">
-                {characteristicsArray.length > 0 && (
-                  <div>
-                    <span className="font-medium">Details:</span>
-                    {characteristicsArray.map((char, idx) => (
-                      <div key={idx} className="ml-2 whitespace-normal break-words">{char}</div>
-                    ))}
-                  </div>
-                )}
-                {occDetail.assignedTravelerLabels && (
-                  <div className="mt-1">
-                    <span className="font-medium">Assigned:</span> {occDetail.assignedTravelerLabels}
-                  </div>
-                )}
-              </TableCell>
-              {!isPrintContext && <TableCell className="py-1 align-top"></TableCell>}
-              {showCosts && !isPrintContext && <TableCell className="py-1 align-top"></TableCell>}
-              {showCosts && !isPrintContext && <TableCell className="py-1 align-top"></TableCell>}
-              {showCosts && <TableCell className="text-right font-code py-1 align-top">{formatCurrency(occDetail.totalRoomBlockCost, currency)}</TableCell>}
-            </TableRow>
-          );
-        })}
-      </React.Fragment>
-    );
-  };
+/** One summary line plus its hotel occupancy sub-rows. Shared by the summary table and the quote version diff. */
+export function DetailedSummaryItemRow({ item, currency, showCosts, isPrintContext = false, issues, className, trailingCell }: DetailedSummaryItemRowProps) {
+  const configDetailsArray = item.configurationDetails?.split(';').map(d => d.trim()).filter(Boolean) || [];
+
+  return (
+    <>
+      <TableRow className={cn(isPrintContext && 'print-details-item', className)}>
+        <TableCell className="font-medium align-top">{item.type}</TableCell>
+        <TableCell className="align-top">
+          {item.day && !isPrintContext ? `(Day ${item.day}) ` : ''}
+          {item.name}
+          {item.province && <div className="text-xs text-muted-foreground">Loc: {item.province}{item.countryName ? `, ${item.countryName}` : ''}</div>}
+          {issues?.map((issue, idx) => (
+            <div key={idx} className={cn("text-xs whitespace-normal", issue.severity === 'error' ? "text-destructive" : "text-amber-700 dark:text-amber-500")}>
+              Pricing {issue.severity}: {issue.reason}
+            </div>
+          ))}
+        </TableCell>
+        <TableCell className="text-xs text-muted-foreground align-top">{item.note || '-'}</TableCell>
+        <TableCell className="text-xs font-code align-top">
+          {configDetailsArray.length > 0 ? (
+            configDetailsArray.map((detail, idx) => (
+              <div key={idx} className="whitespace-normal break-words">{detail}</div>
+            ))
+          ) : '-'}
+        </TableCell>
+        {!isPrintContext && <TableCell className="text-xs align-top">{item.excludedTravelers || 'All Included'}</TableCell>}
+        {showCosts && !isPrintContext && <TableCell className="text-right font-code align-top">{formatCurrency(item.adultCost, currency)}</TableCell>}
+        {showCosts && !isPrintContext && <TableCell className="text-right font-code align-top">{formatCurrency(item.childCost, currency)}</TableCell>}
+        {showCosts && <TableCell className="text-right font-semibold font-code align-top">{formatCurrency(item.totalCost, currency)}</TableCell>}
+        {trailingCell}
+      </TableRow>
+      {item.occupancyDetails && item.occupancyDetails.map((occDetail: HotelOccupancyDetail, index) => {
+        const characteristicsArray = occDetail.characteristics?.split(';').map(d => d.trim()).filter(Boolean) || [];
+        return (
+          <TableRow 
+              key={`${item.id}-occ-${index}-${isPrintContext ? 'print' : 'screen'}-${showCosts ? 'costs' : 'no-costs'}`} 
+              className={`bg-muted/30 text-xs ${isPrintContext ? 'print-hotel-occupancy-detail-item' : 'hotel-occupancy-detail-item'}`}
+          >
+            <TableCell className="py-1 pl-4 align-top"></TableCell> {/* Indent for sub-item */}
+            <TableCell className="py-1 pl-4 align-top italic">└ Room: {occDetail.roomTypeName}</TableCell>
+            <TableCell className="py-1 align-top">#Rooms: {occDetail.numRooms}, Nights: {occDetail.nights} {occDetail.extraBedAdded ? '(Incl. Extra Bed)' : ''}</TableCell>
+            <TableCell className="py-1 font-code align-top">
+              {characteristicsArray.length > 0 && (
+                <div>
+                  <span className="font-medium">Details:</span>
+                  {characteristicsArray.map((char, idx) => (
+                    <div key={idx} className="ml-2 whitespace-normal break-words">{char}</div>
+                  ))}
+                </div>
+              )}
+              {occDetail.assignedTravelerLabels && (
+                <div className="mt-1">
+                  <span className="font-medium">Assigned:</span> {occDetail.assignedTravelerLabels}
+                </div>
+              )}
+              {occDetail.childrenSharingBedLabels && (
+                <div>
+                  <span className="font-medium">Sharing bed:</span> {occDetail.childrenSharingBedLabels}
+                </div>
+              )}
+            </TableCell>
+            {!isPrintContext && <TableCell className="py-1 align-top"></TableCell>}
+            {showCosts && !isPrintContext && <TableCell className="py-1 align-top"></TableCell>}
+            {showCosts && !isPrintContext && <TableCell className="py-1 align-top"></TableCell>}
+            {showCosts && <TableCell className="text-right font-code py-1 align-top">{formatCurrency(occDetail.totalRoomBlockCost, currency)}</TableCell>}
+            {trailingCell && <TableCell className="py-1 align-top"></TableCell>}
+          </TableRow>
+        );
+      })}
+    </>
+  );
+}
+
+function DetailsSummaryTableComponent({ summary, currency, showCosts }: DetailsSummaryTableProps) {
+  const renderItemRow = (item: DetailedSummaryItem, isPrintContext: boolean = false) => (
+    <DetailedSummaryItemRow
+      key={`${item.id}-${isPrintContext ? 'print' : 'screen'}-${showCosts ? 'costs' : 'no-costs'}`}
+      item={item}
+      currency={currency}
+      showCosts={showCosts}
+      isPrintContext={isPrintContext}
+      issues={getItemPricingIssues(summary, item.id)}
+    />
+  );
 
   const groupedItems: { [type: string]: DetailedSummaryItem[] } = {};
   summary.detailedItems.forEach(item => {
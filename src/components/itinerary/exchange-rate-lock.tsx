@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Planner notice for a quote whose exchange rates are frozen, with the admin's
+ * "re-price at today's rates" action. Before anything changes, the dialog lists each locked
+ * conversion next to today's rate and the totals before and after.
+ *
+ * @bangla যে উদ্ধৃতির বিনিময় হার স্থির করা হয়েছে তার জন্য প্ল্যানারের বিজ্ঞপ্তি, অ্যাডমিনের "আজকের হারে
+ * পুনর্মূল্যায়ন" কাজ সহ। কিছু বদলানোর আগে ডায়ালগটি প্রতিটি স্থির রূপান্তর আজকের হারের পাশে এবং আগে ও
+ * পরের মোট দেখায়।
+ */
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import type { CurrencyCode, FrozenExchangeRates } from '@/types/itinerary';
+import type { ConversionRateChange } from '@/lib/exchange-rate-snapshots';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lock, RefreshCw } from 'lucide-react';
+import { cn, formatCurrency } from '@/lib/utils';
+
+export interface RepriceTotals {
+  net: number;
+  sell?: number;
+}
+
+interface ExchangeRateLockProps {
+  frozen: FrozenExchangeRates;
+  currency: CurrencyCode;
+  currentTotals: RepriceTotals;
+  /** Today's conversions and the totals they would give; only computed once the dialog opens. */
+  previewReprice: () => { changes: ConversionRateChange[]; totals: RepriceTotals };
+  onReprice: () => void;
+}
+
+const formatRate = (rate: number) => rate.toFixed(6).replace(/0+$/, '').replace(/\.$/, '');
+
+function TotalDifference({ label, before, after, currency }: { label: string; before: number; after: number; currency: CurrencyCode }) {
+  const difference = after - before;
+  return (
+    <p>
+      {label}: <span className="font-code">{formatCurrency(before, currency)}</span> → <span className="font-code font-semibold">{formatCurrency(after, currency)}</span>{' '}
+      <span className={cn("font-code", difference > 0 ? "text-destructive" : difference < 0 ? "text-green-600" : "text-muted-foreground")}>
+        ({difference >= 0 ? '+' : ''}{formatCurrency(difference, currency)})
+      </span>
+    </p>
+  );
+}
+
+export function ExchangeRateLock({ frozen, currency, currentTotals, previewReprice, onReprice }: ExchangeRateLockProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const preview = React.useMemo(() => (isOpen ? previewReprice() : null), [isOpen, previewReprice]);
+  const pairCount = Object.keys(frozen.conversions).length;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border bg-muted/30 px-3 py-2 mb-3 text-xs">
+      <span className="flex items-center text-muted-foreground">
+        <Lock className="mr-1.5 h-3.5 w-3.5" />
+        {pairCount > 0
+          ? `Exchange rates locked on ${format(parseISO(frozen.frozenAt), 'dd MMM yyyy')} (${pairCount} pair${pairCount === 1 ? '' : 's'}).`
+          : `Sent on ${format(parseISO(frozen.frozenAt), 'dd MMM yyyy')} without currency conversions.`}
+      </span>
+      {pairCount > 0 && (
+        <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" className="h-7 text-xs">
+              <RefreshCw className="mr-1.5 h-3.5 w-3.5" /> Re-price at Today&apos;s Rates
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent className="sm:max-w-xl">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Re-price at Today&apos;s Rates?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The quote stops using the rates locked on {format(parseISO(frozen.frozenAt), 'dd MMM yyyy')}. The agent sees the new prices once the quote is sent again.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            {preview && (
+              <div className="space-y-3 text-sm">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pair</TableHead>
+                      <TableHead className="text-right">Locked</TableHead>
+                      <TableHead className="text-right">Today</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.changes.map(change => {
+                      const changePercentage = change.today ? ((change.today.finalRate - change.frozen.finalRate) / change.frozen.finalRate) * 100 : null;
+                      return (
+                        <TableRow key={change.pairKey}>
+                          <TableCell className="font-code">{change.pairKey.replace('-', ' → ')}</TableCell>
+                          <TableCell className="text-right font-code">{formatRate(change.frozen.finalRate)}</TableCell>
+                          <TableCell className="text-right font-code">{change.today ? formatRate(change.today.finalRate) : <span className="text-destructive">No rate</span>}</TableCell>
+                          <TableCell className="text-right font-code">{changePercentage === null ? '-' : `${changePercentage >= 0 ? '+' : ''}${changePercentage.toFixed(2)}%`}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                <div className="space-y-1">
+                  <TotalDifference label="Net total" before={currentTotals.net} after={preview.totals.net} currency={currency} />
+                  {currentTotals.sell !== undefined && preview.totals.sell !== undefined && (
+                    <TotalDifference label="Sell total" before={currentTotals.sell} after={preview.totals.sell} currency={currency} />
+                  )}
+                </div>
+              </div>
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Locked Rates</AlertDialogCancel>
+              <AlertDialogAction onClick={onReprice}>Re-price</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,14 @@
 /**
  * @fileoverview This component provides a form for adding or editing activity items
  * within an itinerary. It allows selection of predefined activity services, management
- * of activity packages (if applicable), and setting prices. It utilizes the
+ * of activity packages (if applicable), and setting prices. It warns when the package is closed on
+ * the activity's days and offers to move it to the nearest open day. It utilizes the
  * `BaseItemForm` for common structure and traveler exclusion logic.
  *
  * @bangla এই কম্পোনেন্টটি একটি ভ্রমণপথের মধ্যে কার্যকলাপ আইটেম যোগ বা সম্পাদনা করার
  * জন্য একটি ফর্ম সরবরাহ করে। এটি পূর্বনির্ধারিত কার্যকলাপ পরিষেবা নির্বাচন, কার্যকলাপ
- * প্যাকেজ পরিচালনা (যদি প্রযোজ্য হয়) এবং মূল্য নির্ধারণের অনুমতি দেয়। এটি সাধারণ
+ * প্যাকেজ পরিচালনা (যদি প্রযোজ্য হয়) এবং মূল্য নির্ধারণের অনুমতি দেয়। কার্যকলাপের দিনগুলিতে প্যাকেজ বন্ধ থাকলে
+ * এটি সতর্ক করে এবং নিকটতম খোলা দিনে সরানোর প্রস্তাব দেয়। এটি সাধারণ
  * কাঠামো এবং ভ্রমণকারী বাদ দেওয়ার যুক্তির জন্য `BaseItemForm` ব্যবহার করে।
  */
 "use client";
@@ -20,13 +22,16 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from '@/components/ui/badge';
 import { format as formatDateFns, parseISO, isValid } from 'date-fns';
-import { CalendarDays, Info, Tag, AlertCircle, Loader2, Star } from 'lucide-react';
+import { CalendarDays, Clock, Info, Tag, AlertCircle, Loader2, Star } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { useServicePrices } from '@/hooks/useServicePrices';
 import { useCountries } from '@/hooks/useCountries';
 import { useExchangeRates } from '@/hooks/useExchangeRates';
 import { formatCurrency, cn } from '@/lib/utils';
+import { getPackageDurationMinutes } from '@/lib/day-schedule';
+import { describeClosedDays, findNearestOpenDay, getClosedActivityDays } from '@/lib/activity-availability';
+import { Button } from '@/components/ui/button';
 
 interface ActivityItemFormProps {
   item: ActivityItemType;
@@ -40,6 +45,7 @@ interface ActivityItemFormProps {
   itemSummaryLine: React.ReactNode;
   isCurrentlyExpanded: boolean;
   onToggleExpand: () => void;
+  onMoveToDay: (day: number) => void;
 }
 
 const WEEKDAYS_MAP = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -55,7 +61,8 @@ function ActivityItemFormComponent({
   allServicePrices: passedInAllServicePrices,
   itemSummaryLine,
   isCurrentlyExpanded,
-  onToggleExpand
+  onToggleExpand,
+  onMoveToDay,
 }: ActivityItemFormProps) {
   const { allServicePrices: hookServicePrices, isLoading: isLoadingServicesHook } = useServicePrices();
   const currentAllServicePrices = passedInAllServicePrices || hookServicePrices;
@@ -99,6 +106,10 @@ function ActivityItemFormComponent({
     return undefined;
   }, [selectedActivityService, item.selectedPackageId]);
 
+  const packageDurationMinutes = getPackageDurationMinutes(selectedPackage);
+  const closedDays = getClosedActivityDays(item, selectedPackage, tripSettings.startDate);
+  const nearestOpenDay = closedDays.length > 0 ? findNearestOpenDay(item, selectedPackage, tripSettings.startDate, tripSettings.numDays) : undefined;
+
   const isLoadingServices = passedInAllServicePrices ? false : isLoadingServicesHook;
 
   React.useEffect(() => {
@@ -261,6 +272,7 @@ function ActivityItemFormComponent({
       itemSummaryLine={itemSummaryLine}
       isCurrentlyExpanded={isCurrentlyExpanded}
       onToggleExpand={onToggleExpand}
+      suggestedDurationMinutes={packageDurationMinutes}
     >
         {(activityServices.length > 0 || item.selectedServicePriceId || isLoadingServices) && (
             <div className="mb-4">
@@ -315,6 +327,7 @@ function ActivityItemFormComponent({
                     <SelectItem key={pkg.id} value={pkg.id}>
                     {pkg.name} - {itemSourceCurrency} {pkg.price1}
                     {pkg.price2 !== undefined ? ` / Ch: ${pkg.price2}` : ''}
+                    {getClosedActivityDays(item, pkg, tripSettings.startDate).length > 0 ? ' (closed on these dates)' : ''}
                     </SelectItem>
                 ))}
                 </SelectContent>
@@ -323,6 +336,22 @@ function ActivityItemFormComponent({
         </div>
         )}
 
+      {closedDays.length > 0 && (
+        <Alert variant="destructive" className="my-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Not Available on These Dates</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>{describeClosedDays(closedDays)} It is left out of the totals, and the quote cannot be sent until it is moved or another package is picked.</p>
+            {nearestOpenDay ? (
+              <Button type="button" size="sm" variant="outline" className="h-8 text-foreground" onClick={() => onMoveToDay(nearestOpenDay)}>
+                <CalendarDays className="mr-1.5 h-4 w-4" /> Move to Day {nearestOpenDay}, the nearest open day
+              </Button>
+            ) : (
+              <p>The package is not open on any day of this trip.</p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
       {serviceDefinitionNotFound && (
         <Alert variant="destructive" className="my-4">
           <AlertCircle className="h-4 w-4" />
@@ -368,6 +397,12 @@ function ActivityItemFormComponent({
               <p className="text-muted-foreground text-xs whitespace-pre-wrap">{selectedPackage.notes}</p>
             </div>
           )}
+          {packageDurationMinutes && (
+            <div className="flex items-center text-xs text-muted-foreground">
+              <Clock className="h-4 w-4 mr-2 flex-shrink-0"/>
+              Duration: {Math.floor(packageDurationMinutes / 60) > 0 && `${Math.floor(packageDurationMinutes / 60)} h `}{packageDurationMinutes % 60 > 0 && `${packageDurationMinutes % 60} min`}
+            </div>
+          )}
           {(selectedPackage.validityStartDate || selectedPackage.validityEndDate || selectedPackage.closedWeekdays?.length || selectedPackage.specificClosedDates?.length) && (
             <div className="flex items-start">
               <CalendarDays className="h-4 w-4 mr-2 mt-0.5 text-muted-foreground flex-shrink-0"/>
@@ -3,13 +3,13 @@
  * @fileoverview This component serves as a foundational building block for all specific
  * itinerary item forms (e.g., Transfer, Activity, Hotel). It provides a common structure
  * including a collapsible header with item type, name, and action buttons (expand/collapse, delete).
- * It also includes a section for excluding specific travelers and handles the rendering of
- * item-specific fields passed as children.
+ * It also includes the item's start and end times, a section for excluding specific travelers,
+ * and handles the rendering of item-specific fields passed as children.
  *
  * @bangla এই কম্পোনেন্টটি সমস্ত নির্দিষ্ট ভ্রমণপথের আইটেম ফর্মগুলির (যেমন, ট্রান্সফার,
  * কার্যকলাপ, হোটেল) জন্য একটি ভিত্তি হিসেবে কাজ করে। এটি একটি সাধারণ কাঠামো সরবরাহ করে,
  * যার মধ্যে আইটেমের প্রকার, নাম এবং অ্যাকশন বোতাম (প্রসারণ/সংকোচন, মুছে ফেলা) সহ একটি
- * সংকোচনযোগ্য হেডার রয়েছে। এটি নির্দিষ্ট ভ্রমণকারীদের বাদ দেওয়ার জন্য একটি বিভাগও অন্তর্ভুক্ত
+ * সংকোচনযোগ্য হেডার রয়েছে। এটি আইটেমের শুরু ও শেষের সময়, নির্দিষ্ট ভ্রমণকারীদের বাদ দেওয়ার জন্য একটি বিভাগও অন্তর্ভুক্ত
  * এবং চিলড্রেন হিসেবে পাস করা আইটেম-নির্দিষ্ট ক্ষেত্রগুলির রেন্ডারিং পরিচালনা করে।
  */
 "use client";
@@ -27,6 +27,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useProvinces } from '@/hooks/useProvinces';
 import { useCountries } from '@/hooks/useCountries';
 import { cn } from '@/lib/utils';
+import { formatTimeOfDay, parseTimeOfDay } from '@/lib/day-schedule';
 
 export interface BaseItemFormProps<T extends ItineraryItem> {
   item: T;
@@ -41,6 +42,7 @@ export interface BaseItemFormProps<T extends ItineraryItem> {
   itemSummaryLine: React.ReactNode;
   isCurrentlyExpanded: boolean;
   onToggleExpand: () => void;
+  suggestedDurationMinutes?: number; // How long the item lasts when no end time is set, e.g. an activity package's duration
 }
 
 export function FormField({label, id, children, className}: {label: string, id: string, children: React.ReactNode, className?: string}) {
@@ -81,6 +83,7 @@ function BaseItemFormComponent<T extends ItineraryItem>({
   itemSummaryLine,
   isCurrentlyExpanded,
   onToggleExpand,
+  suggestedDurationMinutes,
 }: BaseItemFormProps<T>) {
   const [isOptOutOpen, setIsOptOutOpen] = React.useState(item.excludedTravelerIds.length > 0);
   const { countries: allAvailableCountriesHook, isLoading: isLoadingCountries } = useCountries();
@@ -271,6 +274,15 @@ function BaseItemFormComponent<T extends ItineraryItem>({
     onUpdate({ ...item, confirmationRef: event.target.value || undefined });
   };
 
+  const handleTimeChange = (field: 'startTime' | 'endTime', value: string) => {
+    onUpdate({ ...item, [field]: value || undefined });
+  };
+
+  const startMinutes = parseTimeOfDay(item.startTime);
+  const suggestedEndTime = !item.endTime && startMinutes !== undefined && suggestedDurationMinutes
+    ? formatTimeOfDay(startMinutes + suggestedDurationMinutes)
+    : undefined;
+
   const IconComponent = ITEM_TYPE_ICONS[item.type] || AlertCircle;
   const BookingStatusIcon = item.bookingStatus ? BOOKING_STATUS_ICONS[item.bookingStatus] : FileQuestion;
   const itemNameDisplay = item.name || `New ${itemTypeLabel}`;
@@ -371,6 +383,32 @@ function BaseItemFormComponent<T extends ItineraryItem>({
             </FormField>
           </div>
 
+          {item.type !== 'hotel' && (
+            <div className="grid grid-cols-2 gap-3 sm:gap-4">
+              <FormField label="Start Time (Optional)" id={`startTime-${item.id}`}>
+                <Input
+                  id={`startTime-${item.id}`}
+                  type="time"
+                  value={item.startTime || ""}
+                  onChange={(e) => handleTimeChange('startTime', e.target.value)}
+                  className="h-9 text-sm"
+                />
+              </FormField>
+              <FormField label="End Time (Optional)" id={`endTime-${item.id}`}>
+                <Input
+                  id={`endTime-${item.id}`}
+                  type="time"
+                  value={item.endTime || ""}
+                  onChange={(e) => handleTimeChange('endTime', e.target.value)}
+                  className="h-9 text-sm"
+                />
+                {suggestedEndTime && (
+                  <p className="text-xs text-muted-foreground">Ends around {suggestedEndTime} going by the package's duration.</p>
+                )}
+              </FormField>
+            </div>
+          )}
+
           {children}
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4 pt-2 border-t mt-3">
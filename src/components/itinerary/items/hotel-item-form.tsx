@@ -3,13 +3,15 @@
  * @fileoverview This component provides a form for adding or editing hotel stay items
  * within an itinerary. It allows selection of predefined hotel definitions,
  * configuration of multiple room bookings (each with its own type, number of rooms,
- * and traveler assignments), and setting check-in/checkout days. It uses the
- * `BaseItemForm` for common structure and traveler exclusion logic.
+ * and traveler assignments), and setting check-in/checkout days. Traveler assignments can be
+ * filled in automatically by room capacity, and problems with them are listed above the rooms.
+ * It uses the `BaseItemForm` for common structure and traveler exclusion logic.
  *
  * @bangla এই কম্পোনেন্টটি একটি ভ্রমণপথের মধ্যে হোটেল থাকার আইটেম যোগ বা সম্পাদনা করার
  * জন্য একটি ফর্ম সরবরাহ করে। এটি পূর্বনির্ধারিত হোটেল সংজ্ঞা নির্বাচন, একাধিক রুম বুকিং
  * (প্রতিটির নিজস্ব প্রকার, রুমের সংখ্যা এবং ভ্রমণকারী বরাদ্দ সহ) কনফিগারেশন এবং
- * চেক-ইন/চেকআউট দিন নির্ধারণের অনুমতি দেয়। এটি সাধারণ কাঠামো এবং ভ্রমণকারী বাদ
+ * চেক-ইন/চেকআউট দিন নির্ধারণের অনুমতি দেয়। ভ্রমণকারী বরাদ্দ রুমের ধারণক্ষমতা অনুযায়ী স্বয়ংক্রিয়ভাবে
+ * পূরণ করা যায়, এবং সেগুলির সমস্যাগুলি রুমগুলির উপরে তালিকাভুক্ত হয়। এটি সাধারণ কাঠামো এবং ভ্রমণকারী বাদ
  * দেওয়ার যুক্তির জন্য `BaseItemForm` ব্যবহার করে।
  */
 "use client";
@@ -23,14 +25,16 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
-import { PlusCircle, Trash2, ChevronDown, ChevronUp, Users, BedDouble, Info, AlertCircle, Loader2, Star, DollarSign } from 'lucide-react';
+import { PlusCircle, Trash2, ChevronDown, ChevronUp, Users, BedDouble, Info, AlertCircle, Loader2, Star, DollarSign, Wand2 } from 'lucide-react';
 import { generateGUID, formatCurrency } from '@/lib/utils';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { useHotelDefinitions } from '@/hooks/useHotelDefinitions';
 import { useCountries } from '@/hooks/useCountries';
 import { useExchangeRates } from '@/hooks/useExchangeRates';
-import { addDays, format, parseISO, isValid, startOfDay, isWithinInterval } from 'date-fns';
+import { addDays, format, parseISO, isValid, startOfDay } from 'date-fns';
+import { checkRoomOccupancy, findSeasonalPrice } from '@/lib/hotel-pricing';
+import { autoAssignRooms, getRoomingIssues } from '@/lib/rooming';
 import { cn } from '@/lib/utils';
 
 interface HotelItemFormProps {
@@ -253,8 +257,14 @@ function HotelItemFormComponent({
     handleUpdateRoomBooking({ ...roomBooking, addExtraBed: checked });
   };
 
+  const handleAutoAssignTravelers = () => {
+    onUpdate({ ...item, selectedRooms: autoAssignRooms(item, selectedHotelDef, travelers).selectedRooms });
+  };
+
   const calculatedNights = Math.max(0, (item.checkoutDay || (dayNumber + 1)) - dayNumber);
   const currentSelectedRoomsForRender = item.selectedRooms || [];
+  // An over-full block is already shown on its own card.
+  const roomingIssues = getRoomingIssues(item, selectedHotelDef, travelers).filter(issue => issue.code !== 'overCapacity');
   const hotelDefinitionNotFound = item.hotelDefinitionId && !selectedHotelDef && !isLoadingHotelDefs;
   const locationDisplay = item.countryName ? (item.province ? `${item.province}, ${item.countryName}` : item.countryName)
                         : (item.province || (tripSettings.selectedProvinces.length > 0 ? tripSettings.selectedProvinces.join('/') : (tripSettings.selectedCountries.length > 0 ? (tripSettings.selectedCountries.map(cid => countries.find(c=>c.id === cid)?.name).filter(Boolean).join('/')) : 'Any Location')));
@@ -334,12 +344,17 @@ function HotelItemFormComponent({
             </div>
         </FormField>
       </div>
+      <div className="flex items-center space-x-2 mt-3">
+        <Checkbox id={`children-sharing-bed-${item.id}`} checked={item.childrenSharingBed !== false} onCheckedChange={(checked) => onUpdate({ ...item, childrenSharingBed: !!checked })} />
+        <Label htmlFor={`children-sharing-bed-${item.id}`} className="text-xs font-normal cursor-pointer">Children may share existing bedding where the room type allows it</Label>
+      </div>
       {!item.hotelDefinitionId && (<Alert variant="default" className="mt-4 bg-blue-50 border-blue-200"><Info className="h-4 w-4 text-blue-600" /><AlertTitle className="text-blue-700">Configure Hotel</AlertTitle><AlertDescription className="text-blue-600 text-xs">Please select a hotel from the dropdown above to configure room bookings.</AlertDescription></Alert>)}
       {hotelDefinitionNotFound && (<Alert variant="destructive" className="mt-4"><AlertCircle className="h-4 w-4" /><AlertTitle>Hotel Definition Error</AlertTitle><AlertDescription className="text-xs">The selected hotel definition (ID: {item.hotelDefinitionId}) could not be found. Please re-select a hotel.</AlertDescription></Alert>)}
       {item.hotelDefinitionId && selectedHotelDef && (<>
         <Separator className="my-4" />
         <div className="space-y-4">
-          <div className="flex justify-between items-center"><Label className="text-lg font-semibold">Room Bookings for {selectedHotelDef.name}</Label><Button variant="outline" size="sm" onClick={handleAddRoomBooking} className="border-primary text-primary hover:bg-primary/10 h-8 text-xs"><PlusCircle className="mr-1.5 h-3.5 w-3.5" /> Add Room Booking</Button></div>
+          <div className="flex justify-between items-center"><Label className="text-lg font-semibold">Room Bookings for {selectedHotelDef.name}</Label><div className="flex gap-2"><Button variant="outline" size="sm" onClick={handleAutoAssignTravelers} disabled={currentSelectedRoomsForRender.length === 0 || travelers.length === 0} title="Spread the stay's travelers over its rooms by room capacity, replacing the current assignment" className="h-8 text-xs"><Wand2 className="mr-1.5 h-3.5 w-3.5" /> Auto-assign Travelers</Button><Button variant="outline" size="sm" onClick={handleAddRoomBooking} className="border-primary text-primary hover:bg-primary/10 h-8 text-xs"><PlusCircle className="mr-1.5 h-3.5 w-3.5" /> Add Room Booking</Button></div></div>
+          {roomingIssues.length > 0 && (<Alert className="border-amber-500/50 [&>svg]:text-amber-600"><Users className="h-4 w-4" /><AlertTitle className="text-sm">Check the Rooming: {roomingIssues.length} {roomingIssues.length === 1 ? 'issue' : 'issues'}</AlertTitle><AlertDescription className="text-xs"><ul className="list-disc list-inside space-y-0.5 text-amber-700 dark:text-amber-500">{roomingIssues.map((issue, issueIndex) => (<li key={`${issue.code}-${issue.roomBlockId ?? ''}-${issueIndex}`}>{issue.reason}</li>))}</ul></AlertDescription></Alert>)}
           {currentSelectedRoomsForRender.length === 0 && (<p className="text-sm text-muted-foreground text-center py-4">No room types booked for this hotel yet. Click "Add Room Booking".</p>)}
           {currentSelectedRoomsForRender.map((roomBooking, index) => {
             const currentRoomTypeDef = selectedHotelDef.roomTypes.find(rt => rt.id === roomBooking.roomTypeDefinitionId);
@@ -349,24 +364,10 @@ function HotelItemFormComponent({
             if (currentRoomTypeDef && tripSettings.startDate && isValid(parseISO(tripSettings.startDate))) {
               try {
                 const checkInDateOfStay = startOfDay(addDays(parseISO(tripSettings.startDate as string), item.day - 1));
-                let foundRate: number | undefined = undefined;
-                let foundExtraBedRate: number | undefined = undefined;
-                let seasonName: string | undefined = undefined;
-
-                for (const seasonalPrice of currentRoomTypeDef.seasonalPrices) {
-                   if (seasonalPrice.startDate && seasonalPrice.endDate && typeof seasonalPrice.startDate === 'string' && typeof seasonalPrice.endDate === 'string') {
-                    const seasonStartDate = startOfDay(parseISO(seasonalPrice.startDate));
-                    const seasonEndDate = startOfDay(parseISO(seasonalPrice.endDate));
-                    if (isValid(seasonStartDate) && isValid(seasonEndDate) && isWithinInterval(checkInDateOfStay, { start: seasonStartDate, end: seasonEndDate })) {
-                      foundRate = seasonalPrice.rate;
-                      if (currentRoomTypeDef.extraBedAllowed && seasonalPrice.extraBedRate !== undefined) {
-                        foundExtraBedRate = seasonalPrice.extraBedRate;
-                      }
-                      seasonName = seasonalPrice.seasonName;
-                      break;
-                    }
-                  }
-                }
+                const checkInSeason = findSeasonalPrice(currentRoomTypeDef, checkInDateOfStay);
+                const foundRate = checkInSeason ? checkInSeason.rate + (checkInSeason.surcharge ?? 0) : undefined;
+                const foundExtraBedRate = currentRoomTypeDef.extraBedAllowed ? checkInSeason?.extraBedRate ?? undefined : undefined;
+                const seasonName = checkInSeason?.seasonName;
                 if (foundRate !== undefined) {
                     let rateDisplay = formatCurrency(foundRate, itemSourceCurrency);
                     let extraBedRateDisplay = foundExtraBedRate !== undefined ? formatCurrency(foundExtraBedRate, itemSourceCurrency) : null;
@@ -392,6 +393,8 @@ function HotelItemFormComponent({
               } catch (e) { console.error("Error calculating effective rate for display:", e); effectiveRateDisplay = <div className="mt-2 text-xs text-red-500">Error displaying rate.</div>; }
             }
 
+            const occupancy = checkRoomOccupancy(currentRoomTypeDef, roomBooking, travelers, item.childrenSharingBed !== false);
+
             return (
             <Card key={roomBooking.id} className="bg-background/70 border border-primary/20 shadow-inner">
               <CardHeader className="py-2 px-3 bg-muted/40 rounded-t-md flex flex-row justify-between items-center">
@@ -403,8 +406,9 @@ function HotelItemFormComponent({
                   <FormField label="Room Type" id={`room-type-${roomBooking.id}`}><Select value={roomBooking.roomTypeDefinitionId} onValueChange={(rtId) => handleRoomTypeChangeForBooking(roomBooking.id, rtId)}><SelectTrigger className="h-9 text-xs"><SelectValue placeholder="Select room type..." /></SelectTrigger><SelectContent>{selectedHotelDef.roomTypes.map(rtDef => (<SelectItem key={rtDef.id} value={rtDef.id}>{rtDef.name}</SelectItem>))}</SelectContent></Select></FormField>
                   <FormField label="# of these Rooms" id={`num-rooms-${roomBooking.id}`}><Input type="number" min="1" value={roomBooking.numRooms} onChange={(e) => handleNumRoomsChangeForBooking(roomBooking.id, e.target.value)} className="h-9 text-sm"/></FormField>
                 </div>
-                {currentRoomTypeDef && (<div className="mt-1.5 p-1.5 border rounded-md bg-muted/20 text-xs"><p className="font-medium mb-0.5">About {currentRoomTypeDef.name}:</p>{currentRoomTypeDef.notes && <p className="italic">"{currentRoomTypeDef.notes}"</p>}<ul className="list-disc list-inside pl-1 space-y-0 mt-0.5">{currentRoomTypeDef.characteristics && currentRoomTypeDef.characteristics.map(char => (<li key={char.id}><strong>{char.key}:</strong> {char.value}</li>))}<li><strong>Extra Bed:</strong> {currentRoomTypeDef.extraBedAllowed ? 'Allowed' : 'Not Allowed'}</li></ul></div>)}
+                {currentRoomTypeDef && (<div className="mt-1.5 p-1.5 border rounded-md bg-muted/20 text-xs"><p className="font-medium mb-0.5">About {currentRoomTypeDef.name}:</p>{currentRoomTypeDef.notes && <p className="italic">"{currentRoomTypeDef.notes}"</p>}<ul className="list-disc list-inside pl-1 space-y-0 mt-0.5">{currentRoomTypeDef.characteristics && currentRoomTypeDef.characteristics.map(char => (<li key={char.id}><strong>{char.key}:</strong> {char.value}</li>))}<li><strong>Extra Bed:</strong> {currentRoomTypeDef.extraBedAllowed ? 'Allowed' : 'Not Allowed'}</li>{(currentRoomTypeDef.maxAdults != null || currentRoomTypeDef.maxChildren != null) && <li><strong>Occupancy:</strong> {currentRoomTypeDef.maxAdults ?? 'Any'} adult(s), {currentRoomTypeDef.maxChildren ?? 'any'} child(ren){currentRoomTypeDef.maxChildrenSharingBed ? `, +${currentRoomTypeDef.maxChildrenSharingBed} sharing bed` : ''} per room</li>}</ul></div>)}
                 {effectiveRateDisplay}
+                {occupancy.error && (<div className="mt-2 text-xs text-destructive bg-destructive/10 border border-destructive/30 p-2 rounded-md flex items-start"><AlertCircle className="h-3.5 w-3.5 mr-1.5 mt-px flex-shrink-0" />{occupancy.error}</div>)}
                 {currentRoomTypeDef?.extraBedAllowed && (
                     <div className="flex items-center space-x-2 mt-2">
                         <Checkbox
@@ -2,18 +2,20 @@
 /**
  * @fileoverview This component is the core user interface for planning an itinerary.
  * It orchestrates various sub-components like the `PlannerHeader` for global settings,
- * `DayNavigation` for moving between days, and `DayView` for managing items within
- * a specific day. It also displays cost summaries and detailed breakdowns.
+ * `DayNavigation` for moving between days, the `AccommodationTimeline` of who sleeps where
+ * each night, and `DayView` for managing items within a specific day. It also displays cost summaries, detailed breakdowns and the margin report
+ * that sets net cost against the sell price from the markup rules.
  *
  * @bangla এই কম্পোনেন্টটি একটি ভ্রমণপথ পরিকল্পনা করার প্রধান ব্যবহারকারী ইন্টারফেস।
  * এটি বিভিন্ন সাব-কম্পোনেন্ট যেমন গ্লোবাল সেটিংসের জন্য `PlannerHeader`, দিনগুলির মধ্যে
- * নেভিগেট করার জন্য `DayNavigation`, এবং একটি নির্দিষ্ট দিনের মধ্যে আইটেমগুলি পরিচালনা
+ * নেভিগেট করার জন্য `DayNavigation`, প্রতি রাতে কে কোথায় থাকেন তার `AccommodationTimeline`, এবং একটি নির্দিষ্ট দিনের মধ্যে আইটেমগুলি পরিচালনা
  * করার জন্য `DayView` সমন্বিত করে। এটি ব্যয়ের সারাংশ এবং বিস্তারিত ভাঙ্গনও প্রদর্শন করে।
  */
 "use client";
 
 import * as React from 'react';
-import type { TripData, ItineraryItem, CostSummary, TripSettings, PaxDetails, QuotationRequest } from '@/types/itinerary';
+import type { QuotationRequestTraveler } from '@/types/quotation';
+import type { TripData, ItineraryItem, HotelItem, CostSummary, TripSettings, PaxDetails, Traveler, QuotationRequest, ScheduleIssue } from '@/types/itinerary';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
@@ -23,6 +25,13 @@ import { DayView } from '../itinerary/day-view';
 import { CostBreakdownTable } from '../itinerary/cost-breakdown-table';
 import { DetailsSummaryTable } from '../itinerary/details-summary-table';
 import { calculateAllCosts } from '@/lib/calculation-utils';
+import { getScheduleIssues } from '@/lib/day-schedule';
+import { applySellPricing } from '@/lib/sell-pricing';
+import { useSellPricingContext } from '@/hooks/useMarkupRules';
+import { MarginReport } from './margin-report';
+import { PricingIssuesList } from './pricing-issues-list';
+import { ExchangeRateLock } from './exchange-rate-lock';
+import { compareWithTodaysRates, repriceAtTodaysRates, withFrozenRates } from '@/lib/exchange-rate-snapshots';
 import { useServicePrices } from '@/hooks/useServicePrices';
 import { useHotelDefinitions } from '@/hooks/useHotelDefinitions';
 import { useExchangeRates } from '@/hooks/useExchangeRates';
@@ -30,21 +39,21 @@ import { useCountries } from '@/hooks/useCountries';
 import { addDays, format, parseISO, isValid } from 'date-fns';
 import { PlannerHeader } from './planner-header';
 import { DayNavigation } from './day-navigation';
+import { AccommodationTimeline } from './accommodation-timeline';
 import { useRouter } from 'next/navigation';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 
 
-const SHOW_DETAILS_TOKEN = 'full_details_v1'; 
-
 interface ItineraryPlannerProps {
   tripData: TripData;
   onReset: () => void;
   onUpdateTripData: (updateFn: (currentTripData: TripData | null) => Partial<TripData> | TripData) => void;
   onUpdateSettings: (updatedSettings: Partial<TripSettings>) => void;
   onUpdatePax: (updatedPax: Partial<PaxDetails>) => void;
-  onManualSave: () => void;
+  onUpdateTravelers: (travelers: Traveler[]) => void;
+  onManualSave: () => Promise<void>;
   quotationRequestDetails?: QuotationRequest | null;
 }
 
@@ -54,6 +63,7 @@ export function ItineraryPlanner({
   onUpdateTripData,
   onUpdateSettings,
   onUpdatePax,
+  onUpdateTravelers,
   onManualSave,
   quotationRequestDetails,
 }: ItineraryPlannerProps) {
@@ -65,16 +75,47 @@ export function ItineraryPlanner({
   const { allHotelDefinitions, isLoading: isLoadingHotelDefinitions } = useHotelDefinitions();
   const { getRate, isLoading: isLoadingExchangeRates, exchangeRates, globalMarkupPercentage, specificMarkupRates } = useExchangeRates();
   const { countries, isLoading: isLoadingCountries } = useCountries();
+  const { context: sellPricingContext, isLoading: isLoadingSellPricing } = useSellPricingContext(tripData.quotationRequestId);
+  const requestTravelerNames = ((quotationRequestDetails?.clientInfo.travelers ?? []) as QuotationRequestTraveler[])
+    .map(traveler => traveler.fullName?.trim()).filter((name): name is string => !!name);
+
+  const sellPricing = React.useMemo(
+    () => (costSummary && !isLoadingSellPricing ? applySellPricing(costSummary, tripData, sellPricingContext) : null),
+    [costSummary, tripData, sellPricingContext, isLoadingSellPricing],
+  );
 
   React.useEffect(() => {
     if (tripData && !isLoadingServices && !isLoadingHotelDefinitions && !isLoadingExchangeRates && !isLoadingCountries) {
-      const summary = calculateAllCosts(tripData, countries, allServicePrices, allHotelDefinitions, getRate, true);
+      // Once sent, the quote keeps the rates it was sent at until it is re-priced.
+      const summary = calculateAllCosts(tripData, countries, allServicePrices, allHotelDefinitions, withFrozenRates(tripData.frozenExchangeRates, getRate), true);
       setCostSummary(summary);
     } else {
       setCostSummary(null);
     }
   }, [tripData, isLoadingServices, isLoadingHotelDefinitions, isLoadingExchangeRates, isLoadingCountries, allServicePrices, allHotelDefinitions, getRate, countries, exchangeRates, globalMarkupPercentage, specificMarkupRates]);
 
+  const previewReprice = React.useCallback(() => {
+    const repriced = calculateAllCosts(tripData, countries, allServicePrices, allHotelDefinitions, getRate, true);
+    return {
+      changes: tripData.frozenExchangeRates ? compareWithTodaysRates(tripData.frozenExchangeRates, getRate) : [],
+      totals: { net: repriced.grandTotal, sell: isLoadingSellPricing ? undefined : applySellPricing(repriced, tripData, sellPricingContext).totals.sell },
+    };
+  }, [tripData, countries, allServicePrices, allHotelDefinitions, getRate, sellPricingContext, isLoadingSellPricing]);
+
+  const handleRepriceAtTodaysRates = React.useCallback(() => {
+    onUpdateTripData(currentTripData => (
+      currentTripData?.frozenExchangeRates ? { frozenExchangeRates: repriceAtTodaysRates(currentTripData.frozenExchangeRates, getRate) } : {}
+    ));
+  }, [onUpdateTripData, getRate]);
+
+  const scheduleIssuesByDay = React.useMemo(() => {
+    const byDay: Record<number, ScheduleIssue[]> = {};
+    for (const issue of getScheduleIssues(tripData, allHotelDefinitions, allServicePrices)) {
+      byDay[issue.day] = [...(byDay[issue.day] || []), issue];
+    }
+    return byDay;
+  }, [tripData, allHotelDefinitions, allServicePrices]);
+
   React.useEffect(() => {
     if (tripData.settings.numDays < currentDayView) {
       setCurrentDayView(Math.max(1, tripData.settings.numDays));
@@ -142,6 +183,55 @@ export function ItineraryPlanner({
     });
   }, [onUpdateTripData]);
 
+  const handleReorderItems = React.useCallback((day: number, itemIds: string[]) => {
+    onUpdateTripData(currentTripData => {
+      if (!currentTripData) return {};
+      const newDays = { ...currentTripData.days };
+      const dayItems = newDays[day]?.items || [];
+      const position = (item: ItineraryItem) => {
+        const index = itemIds.indexOf(item.id);
+        return index < 0 ? itemIds.length : index;
+      };
+      newDays[day] = { items: [...dayItems].sort((a, b) => position(a) - position(b)) };
+      return { days: newDays };
+    });
+  }, [onUpdateTripData]);
+
+  // Moves an item to another day, shifting a multi-day activity's last day with it, and follows it there.
+  const handleMoveItem = React.useCallback((fromDay: number, itemId: string, toDay: number) => {
+    onUpdateTripData(currentTripData => {
+      if (!currentTripData) return {};
+      const item = currentTripData.days[fromDay]?.items.find(dayItem => dayItem.id === itemId);
+      if (!item || fromDay === toDay) return {};
+      const movedItem: ItineraryItem = item.type === 'activity' && item.endDay
+        ? { ...item, day: toDay, endDay: item.endDay + toDay - fromDay }
+        : { ...item, day: toDay };
+      const newDays = { ...currentTripData.days };
+      newDays[fromDay] = { items: newDays[fromDay].items.filter(dayItem => dayItem.id !== itemId) };
+      newDays[toDay] = { items: [...(newDays[toDay]?.items || []), movedItem] };
+      return { days: newDays };
+    });
+    setCurrentDayView(toDay);
+  }, [onUpdateTripData]);
+
+  // Moves a stay's check-in and check-out days; a new check-in day takes the stay to that day's list.
+  const handleResizeStay = React.useCallback((fromDay: number, itemId: string, checkInDay: number, checkoutDay: number) => {
+    onUpdateTripData(currentTripData => {
+      if (!currentTripData) return {};
+      const item = currentTripData.days[fromDay]?.items.find(dayItem => dayItem.id === itemId);
+      if (!item || item.type !== 'hotel' || checkoutDay <= checkInDay) return {};
+      const resizedItem: HotelItem = { ...item, day: checkInDay, checkoutDay };
+      const newDays = { ...currentTripData.days };
+      if (checkInDay === fromDay) {
+        newDays[fromDay] = { items: newDays[fromDay].items.map(dayItem => (dayItem.id === itemId ? resizedItem : dayItem)) };
+      } else {
+        newDays[fromDay] = { items: newDays[fromDay].items.filter(dayItem => dayItem.id !== itemId) };
+        newDays[checkInDay] = { items: [...(newDays[checkInDay]?.items || []), resizedItem] };
+      }
+      return { days: newDays };
+    });
+  }, [onUpdateTripData]);
+
   const handleDeleteItem = React.useCallback((day: number, itemId: string) => {
     onUpdateTripData(currentTripData => {
       if (!currentTripData) return {};
@@ -152,14 +242,10 @@ export function ItineraryPlanner({
     });
   }, [onUpdateTripData]);
 
-  const handleGoToView = React.useCallback((withDetailedCosts: boolean) => {
-    onManualSave(); 
+  const handleGoToView = React.useCallback(async () => {
+    await onManualSave(); 
     if (tripData?.id) {
-      let url = `/itinerary/view/${tripData.id}`;
-      if (withDetailedCosts) {
-        url += `?viewMode=${SHOW_DETAILS_TOKEN}`;
-      }
-      router.push(url);
+      router.push(`/itinerary/view/${tripData.id}`);
     }
   }, [tripData?.id, router, onManualSave]);
   
@@ -201,6 +287,9 @@ export function ItineraryPlanner({
                 {quotationRequestDetails.clientInfo.children > 0 && `, ${quotationRequestDetails.clientInfo.children} Child(ren)`}
                 {quotationRequestDetails.clientInfo.children > 0 && quotationRequestDetails.clientInfo.childAges && ` (Ages: ${quotationRequestDetails.clientInfo.childAges})`}
                 </p>
+                {requestTravelerNames.length > 0 && (
+                  <p className="break-words"><strong>Travelers:</strong> {requestTravelerNames.join(', ')}</p>
+                )}
                 <div>
                 <p className="font-medium">Destinations:</p>
                 <ul className="list-disc pl-4 sm:pl-5 text-xs">
@@ -277,6 +366,7 @@ export function ItineraryPlanner({
         onUpdateTripData={onUpdateTripData}
         onUpdateSettings={onUpdateSettings}
         onUpdatePax={onUpdatePax}
+        onUpdateTravelers={onUpdateTravelers}
         onManualSave={onManualSave}
         onReset={onReset}
         showCosts={plannerShowCosts}
@@ -290,6 +380,14 @@ export function ItineraryPlanner({
         getFormattedDateForDay={getFormattedDateForDay}
       />
 
+      <AccommodationTimeline
+        tripData={tripData}
+        allHotelDefinitions={allHotelDefinitions}
+        currentDay={currentDayView}
+        onSelectDay={setCurrentDayView}
+        onResizeStay={handleResizeStay}
+      />
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 md:gap-6">
         <div className="lg:col-span-8 flex flex-col">
           {isLoadingAnything && !tripData.days[currentDayView] ? (
@@ -309,9 +407,12 @@ export function ItineraryPlanner({
                     onAddItem={handleAddItem}
                     onUpdateItem={handleUpdateItem}
                     onDeleteItem={handleDeleteItem}
+                    onReorderItems={handleReorderItems}
+                    onMoveItem={handleMoveItem}
                     tripSettings={tripData.settings}
                     allHotelDefinitions={allHotelDefinitions}
                     allServicePrices={allServicePrices}
+                    scheduleIssues={scheduleIssuesByDay[dayNum]}
                   />
                 </div>
               ))}
@@ -332,6 +433,16 @@ export function ItineraryPlanner({
                 </div>
               ) : costSummary ? (
                 <>
+                  <PricingIssuesList issues={costSummary.pricingIssues} className="mb-3" />
+                  {tripData.frozenExchangeRates && (
+                    <ExchangeRateLock
+                      frozen={tripData.frozenExchangeRates}
+                      currency={tripData.pax.currency}
+                      currentTotals={{ net: costSummary.grandTotal, sell: sellPricing?.totals.sell }}
+                      previewReprice={previewReprice}
+                      onReprice={handleRepriceAtTodaysRates}
+                    />
+                  )}
                   <CostBreakdownTable summary={costSummary} currency={tripData.pax.currency} travelers={tripData.travelers} showCosts={plannerShowCosts} />
                   {plannerShowCosts && (
                     <>
@@ -341,6 +452,11 @@ export function ItineraryPlanner({
                         <p className="text-xl sm:text-2xl font-bold text-accent font-code">
                           {formatCurrency(costSummary.grandTotal, tripData.pax.currency)}
                         </p>
+                        {sellPricing && (
+                          <p className="text-sm text-muted-foreground font-code">
+                            Sell: {formatCurrency(sellPricing.totals.sell, tripData.pax.currency)} · Margin: {formatCurrency(sellPricing.totals.margin, tripData.pax.currency)}
+                          </p>
+                        )}
                       </div>
                     </>
                   )}
@@ -376,12 +492,27 @@ export function ItineraryPlanner({
         </CardContent>
       </Card>
 
+      {plannerShowCosts && costSummary && sellPricing && (
+        <Card className="mt-6 md:mt-8 shadow-lg no-print">
+          <CardHeader>
+            <CardTitle className="text-xl sm:text-2xl font-headline text-primary">Margin Report</CardTitle>
+            <CardDescription>Net cost against the sell price clients see, after the agency's commission.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MarginReport
+              summary={costSummary}
+              pricing={sellPricing}
+              currency={tripData.pax.currency}
+              travelers={tripData.travelers}
+              markupRules={sellPricingContext.rules}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       <div className="mt-6 md:mt-8 py-4 md:py-6 border-t border-border flex flex-col sm:flex-row justify-center items-center gap-3 sm:gap-4 no-print">
-         <Button onClick={() => handleGoToView(true)} className="w-full sm:w-auto bg-primary hover:bg-primary/90 text-primary-foreground">
-          <Share2 className="mr-2 h-4 w-4" /> View with Price Details
-        </Button>
-        <Button onClick={() => handleGoToView(false)} className="w-full sm:w-auto bg-secondary hover:bg-secondary/80 text-secondary-foreground">
-          <EyeOff className="mr-2 h-4 w-4" /> View without Price Details
+         <Button onClick={handleGoToView} className="w-full sm:w-auto bg-primary hover:bg-primary/90 text-primary-foreground">
+          <Share2 className="mr-2 h-4 w-4" /> Client View &amp; Share Links
         </Button>
          <div className="mt-2 sm:mt-0 text-xs text-muted-foreground text-center sm:text-left">
             <Info className="inline h-3 w-3 mr-1 -mt-px" /> All actions save the current itinerary before navigating.
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Internal margin report for the planner: cost, markup, sell price, agency commission
+ * and margin of every summary line and every traveler, with trip totals. Admin-only; clients are
+ * shown the sell prices alone.
+ *
+ * @bangla প্ল্যানারের জন্য অভ্যন্তরীণ মার্জিন রিপোর্ট: প্রতিটি সারাংশ লাইন ও প্রতিটি ভ্রমণকারীর খরচ,
+ * মার্কআপ, বিক্রয় মূল্য, এজেন্সি কমিশন এবং মার্জিন, ভ্রমণের মোট সহ। শুধুমাত্র অ্যাডমিনের জন্য;
+ * ক্লায়েন্টদের শুধু বিক্রয় মূল্য দেখানো হয়।
+ */
+"use client";
+
+import * as React from 'react';
+import type { CostSummary, CurrencyCode, Traveler } from '@/types/itinerary';
+import type { MarkupRule, PriceBreakdown, SellPriceSummary } from '@/types/pricing';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn, formatCurrency } from '@/lib/utils';
+
+interface MarginReportProps {
+  summary: CostSummary;
+  pricing: SellPriceSummary;
+  currency: CurrencyCode;
+  travelers: Traveler[];
+  markupRules: MarkupRule[];
+}
+
+const marginPercentage = (breakdown: PriceBreakdown) =>
+  breakdown.sell > 0 ? `${((breakdown.margin / breakdown.sell) * 100).toFixed(1)}%` : '-';
+
+function BreakdownCells({ breakdown, currency }: { breakdown: PriceBreakdown; currency: CurrencyCode }) {
+  return (
+    <>
+      <TableCell className="text-right font-code">{formatCurrency(breakdown.cost, currency)}</TableCell>
+      <TableCell className="text-right font-code font-semibold">{formatCurrency(breakdown.sell, currency)}</TableCell>
+      <TableCell className="text-right font-code">{formatCurrency(breakdown.commission, currency)}</TableCell>
+      <TableCell className={cn("text-right font-code", breakdown.margin < 0 && "text-destructive")}>
+        {formatCurrency(breakdown.margin, currency)} <span className="text-xs text-muted-foreground">({marginPercentage(breakdown)})</span>
+      </TableCell>
+    </>
+  );
+}
+
+const BREAKDOWN_HEADS = (
+  <>
+    <TableHead className="text-right">Cost</TableHead>
+    <TableHead className="text-right">Sell</TableHead>
+    <TableHead className="text-right">Commission</TableHead>
+    <TableHead className="text-right">Margin</TableHead>
+  </>
+);
+
+function MarginReportComponent({ summary, pricing, currency, travelers, markupRules }: MarginReportProps) {
+  const itemsById = new Map(summary.detailedItems.map(item => [item.id, item]));
+  const ruleNames = new Map(markupRules.map(rule => [rule.id, rule.name]));
+
+  return (
+    <div className="space-y-6">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-[200px]">Line</TableHead>
+            <TableHead>Markup</TableHead>
+            {BREAKDOWN_HEADS}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pricing.items.map(priced => {
+            const item = itemsById.get(priced.itemId);
+            return (
+              <TableRow key={priced.itemId}>
+                <TableCell>
+                  <span className="text-xs text-muted-foreground">{item?.type}{item?.day ? ` · Day ${item.day}` : ''}</span>
+                  <div>{item?.name ?? priced.itemId}</div>
+                </TableCell>
+                <TableCell className="text-xs">
+                  {priced.markupPercentage}%
+                  <div className="text-muted-foreground">{priced.markupRuleId ? ruleNames.get(priced.markupRuleId) ?? 'Rule' : 'No rule'}</div>
+                </TableCell>
+                <BreakdownCells breakdown={priced} currency={currency} />
+              </TableRow>
+            );
+          })}
+        </TableBody>
+        <TableFooter>
+          <TableRow className="bg-muted/80 font-bold">
+            <TableCell colSpan={2} className="text-right">
+              Totals <span className="font-normal text-xs text-muted-foreground">(commission {pricing.commissionPercentage}%)</span>
+            </TableCell>
+            <BreakdownCells breakdown={pricing.totals} currency={currency} />
+          </TableRow>
+        </TableFooter>
+      </Table>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Traveler</TableHead>
+            {BREAKDOWN_HEADS}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {travelers.map(traveler => (
+            <TableRow key={traveler.id}>
+              <TableCell className="font-medium">{traveler.label}</TableCell>
+              <BreakdownCells breakdown={pricing.perTraveler[traveler.id] ?? { cost: 0, sell: 0, commission: 0, margin: 0 }} currency={currency} />
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export const MarginReport = React.memo(MarginReportComponent);
@@ -2,20 +2,21 @@
 /**
  * @fileoverview This component renders the header section of the itinerary planner.
  * It includes fields for setting the itinerary name, client name, start date, number of days,
- * number of adults/children, preferred currency, global budget, and selection of
- * countries/provinces to focus the itinerary on. It also provides buttons for saving
+ * number of adults/children and the travelers' personal details, preferred currency, global budget,
+ * and selection of countries/provinces to focus the itinerary on. It also provides buttons for saving
  * and resetting the itinerary.
  *
  * @bangla এই কম্পোনেন্টটি ভ্রমণপথ পরিকল্পনাকারীর হেডার অংশ রেন্ডার করে।
  * এটিতে ভ্রমণপথের নাম, ক্লায়েন্টের নাম, শুরুর তারিখ, দিনের সংখ্যা, প্রাপ্তবয়স্ক/শিশুর
- * সংখ্যা, পছন্দের মুদ্রা, গ্লোবাল বাজেট এবং ভ্রমণপথকে কেন্দ্র করে দেশ/প্রদেশ নির্বাচনের
+ * সংখ্যা ও ভ্রমণকারীদের ব্যক্তিগত বিবরণ, পছন্দের মুদ্রা, গ্লোবাল বাজেট এবং ভ্রমণপথকে কেন্দ্র করে দেশ/প্রদেশ নির্বাচনের
  * জন্য ক্ষেত্র অন্তর্ভুক্ত রয়েছে। এটি ভ্রমণপথ সংরক্ষণ এবং রিসেট করার জন্য বোতামও সরবরাহ করে।
  */
 "use client";
 
 import * as React from 'react';
-import type { TripData, TripSettings, PaxDetails, ProvinceItem, CurrencyCode, CountryItem, QuotationRequest } from '@/types/itinerary';
+import type { TripData, TripSettings, PaxDetails, Traveler, ProvinceItem, CurrencyCode, CountryItem, QuotationRequest } from '@/types/itinerary';
 import { CURRENCIES } from '@/types/itinerary';
+import { OVERALL_BOOKING_STATUS_LABELS } from '@/types/booking';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -34,13 +35,15 @@ import { useProvinces } from '@/hooks/useProvinces';
 import { useCountries } from '@/hooks/useCountries';
 import Link from 'next/link';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { TravelersDialog } from './travelers-dialog';
 
 interface PlannerHeaderProps {
   tripData: TripData;
   onUpdateTripData: (updateFn: (currentTripData: TripData | null) => Partial<TripData> | TripData) => void;
   onUpdateSettings: (updatedSettings: Partial<TripSettings>) => void;
   onUpdatePax: (updatedPax: Partial<PaxDetails>) => void;
-  onManualSave: () => void;
+  onUpdateTravelers: (travelers: Traveler[]) => void;
+  onManualSave: () => Promise<void>;
   onReset: () => void;
   showCosts: boolean;
   quotationRequestDetails?: QuotationRequest | null;
@@ -51,6 +54,7 @@ function PlannerHeaderComponent({
   onUpdateTripData,
   onUpdateSettings,
   onUpdatePax,
+  onUpdateTravelers,
   onManualSave,
   onReset,
   showCosts,
@@ -215,6 +219,9 @@ function PlannerHeaderComponent({
                 {tripData.version !== undefined && tripData.version > 0 && (
                     <span className="ml-2">Ver: <Badge variant="outline" className="text-xs">{tripData.version.toFixed(1)}</Badge></span>
                 )}
+                {tripData.overallBookingStatus && tripData.overallBookingStatus !== 'NotStarted' && (
+                    <span className="ml-2">Booking: <Badge variant={tripData.overallBookingStatus === 'Issues' ? 'destructive' : 'outline'} className="text-xs">{OVERALL_BOOKING_STATUS_LABELS[tripData.overallBookingStatus]}</Badge></span>
+                )}
               </p>
             )}
           </div>
@@ -354,6 +361,10 @@ function PlannerHeaderComponent({
             <Label htmlFor="budget" className="text-sm font-medium text-muted-foreground flex items-center"><DollarSign className="h-4 w-4 mr-1.5" />Budget (Optional)</Label>
             <Input id="budget" type="number" value={tripData.settings.budget || ''} onChange={(e) => onUpdateSettings({ budget: e.target.value ? parseFloat(e.target.value) : undefined })} min="0" placeholder="e.g., 1000" className="h-10 mt-1" />
           </div>
+          <div>
+            <Label className="text-sm font-medium text-muted-foreground flex items-center"><Users className="h-4 w-4 mr-1.5" />Travelers</Label>
+            <TravelersDialog tripData={tripData} onUpdateTravelers={onUpdateTravelers} />
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6 border-t pt-4 mt-4">
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview This component lists the pricing issues of a cost summary: what could not be priced
+ * or was priced on a doubtful basis, on which day, and how to fix it. Errors are shown in red,
+ * since they leave the totals incomplete and stop the quote from being sent, and warnings in amber.
+ * It renders nothing when there are no issues.
+ *
+ * @bangla এই কম্পোনেন্টটি একটি খরচের সারাংশের মূল্য নির্ধারণ সমস্যাগুলির তালিকা দেখায়: কী মূল্য নির্ধারণ
+ * করা যায়নি বা সন্দেহজনক ভিত্তিতে করা হয়েছে, কোন দিনে, এবং কীভাবে ঠিক করতে হবে। ত্রুটিগুলি লাল রঙে
+ * দেখানো হয়, কারণ সেগুলি মোট খরচ অসম্পূর্ণ রাখে এবং উদ্ধৃতি পাঠানো আটকায়, আর সতর্কতাগুলি অ্যাম্বার রঙে।
+ * কোনো সমস্যা না থাকলে এটি কিছুই দেখায় না।
+ */
+"use client";
+
+import * as React from 'react';
+import type { PricingIssue } from '@/types/itinerary';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PricingIssuesListProps {
+  issues: PricingIssue[] | undefined;
+  className?: string;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export function PricingIssuesList({ issues, className }: PricingIssuesListProps) {
+  if (!issues || issues.length === 0) return null;
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <Alert
+      variant={errorCount > 0 ? 'destructive' : 'default'}
+      className={cn(errorCount === 0 && 'border-amber-500/50 [&>svg]:text-amber-600', 'print:break-inside-avoid', className)}
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle className="text-sm">
+        {errorCount > 0 ? 'Incomplete Prices' : 'Check Prices'}: {[errorCount > 0 && plural(errorCount, 'error'), warningCount > 0 && plural(warningCount, 'warning')].filter(Boolean).join(', ')}
+      </AlertTitle>
+      <AlertDescription className="text-xs">
+        {errorCount > 0 && <p className="mb-1">The totals leave out what could not be priced, and the quote cannot be sent until the errors are fixed.</p>}
+        <ul className="space-y-1.5">
+          {issues.map((issue, index) => (
+            <li key={`${issue.itemId}-${issue.code}-${index}`} className={cn(issue.severity === 'warning' && 'text-amber-700 dark:text-amber-500')}>
+              <span className="font-semibold">Day {issue.day} · {issue.itemName}:</span> {issue.reason}
+              <div className="text-muted-foreground">Fix: {issue.suggestedFix}</div>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,12 +1,12 @@
 /**
  * @fileoverview This component defines the layout for the print view of an itinerary.
  * It structures the itinerary data, including a header with company details,
- * the main content (cost breakdown and detailed summary), and a footer.
+ * the main content (pricing issues, cost breakdown and detailed summary), and a footer.
  * This layout is specifically styled for printing using CSS print media queries.
  *
  * @bangla এই কম্পোনেন্টটি একটি ভ্রমণপথের প্রিন্ট ভিউয়ের জন্য লেআউট নির্ধারণ করে।
  * এটি ভ্রমণপথের ডেটা কাঠামোবদ্ধ করে, যার মধ্যে কোম্পানির বিবরণ সহ একটি হেডার,
- * মূল বিষয়বস্তু (খরচ ভাঙ্গন এবং বিস্তারিত সারাংশ) এবং একটি ফুটার অন্তর্ভুক্ত।
+ * মূল বিষয়বস্তু (মূল্য নির্ধারণ সমস্যা, খরচ ভাঙ্গন এবং বিস্তারিত সারাংশ) এবং একটি ফুটার অন্তর্ভুক্ত।
  * এই লেআউটটি CSS প্রিন্ট মিডিয়া কোয়েরি ব্যবহার করে প্রিন্টিংয়ের জন্য বিশেষভাবে স্টাইল করা হয়েছে।
  */
 "use client";
@@ -14,7 +14,9 @@
 import type { TripData, CostSummary } from '@/types/itinerary';
 import { DetailsSummaryTable } from './details-summary-table';
 import { CostBreakdownTable } from './cost-breakdown-table';
+import { PricingIssuesList } from './pricing-issues-list';
 import { formatCurrency } from '@/lib/utils';
+import { HOUSE_LETTERHEAD } from '@/lib/branding';
 import { CalendarDays, Users, MapPin } from 'lucide-react';
 
 interface PrintLayoutProps {
@@ -37,11 +39,9 @@ export function PrintLayout({ tripData, costSummary, showCosts }: PrintLayoutPro
     <div className="print-container p-4 md:p-0"> {/* Ensure no padding on print */}
       {/* Print Header - hidden by default, shown by print CSS */}
       <div className="print-header-display hidden">
-        <div className="text-3xl font-bold font-headline text-primary mb-2">TRAVEL PRO</div>
+        <div className="text-3xl font-bold font-headline text-primary mb-2 uppercase">{HOUSE_LETTERHEAD.name}</div>
         <div className="text-xs text-muted-foreground">
-          123 Travel Street, Bangkok 10100, Thailand<br />
-          Tel: +66 2 123 4567 | Email: info@travelpro.com<br />
-          Website: www.travelpro.com | Tax ID: 1234567890
+          {HOUSE_LETTERHEAD.lines.map(line => <div key={line}>{line}</div>)}
         </div>
         <div className="text-right text-xs text-muted-foreground mt-4">
           Generated on: {currentDate}
@@ -63,6 +63,8 @@ export function PrintLayout({ tripData, costSummary, showCosts }: PrintLayoutPro
             </div>
         </div>
 
+        <PricingIssuesList issues={costSummary.pricingIssues} className="mb-6" />
+
         {showCosts && (
           <section className="mb-8">
             <h2 className="text-xl font-semibold mb-3 border-b pb-2 text-primary">Per-Person Cost Breakdown</h2>
@@ -78,9 +80,9 @@ export function PrintLayout({ tripData, costSummary, showCosts }: PrintLayoutPro
 
       {/* Print Footer - hidden by default, shown by print CSS */}
       <div className="print-footer-display hidden">
-        <div>Thank you for choosing Travel Pro for your travel needs.</div>
+        <div>Thank you for choosing {HOUSE_LETTERHEAD.name} for your travel needs.</div>
         <div>This is a computer-generated document and does not require a signature.</div>
-        <div>&copy; {new Date().getFullYear()} Travel Pro. All rights reserved.</div>
+        <div>&copy; {new Date().getFullYear()} {HOUSE_LETTERHEAD.name}. All rights reserved.</div>
       </div>
     </div>
   );
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview PDF downloads for every sent version of a quotation request: the priced quote or
+ * the itinerary without prices, on our letterhead or, for requests from an agency, on the agency's
+ * own. Files are produced by the server and kept with the version they were rendered from.
+ *
+ * @bangla একটি উদ্ধৃতি অনুরোধের প্রতিটি পাঠানো সংস্করণের PDF ডাউনলোড: মূল্যসহ উদ্ধৃতি বা মূল্য ছাড়া ভ্রমণপথ,
+ * আমাদের লেটারহেডে অথবা, এজেন্সির অনুরোধের ক্ষেত্রে, এজেন্সির নিজস্ব লেটারহেডে। ফাইলগুলি সার্ভার তৈরি করে এবং
+ * যে সংস্করণ থেকে তৈরি হয়েছে তার সাথে রাখে।
+ */
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency } from '@/lib/utils';
+import {
+  QUOTE_DOCUMENT_VARIANTS, QUOTE_DOCUMENT_VARIANT_LABELS, type QuoteDocumentBranding, type QuoteVersionSummary,
+} from '@/types/quotation';
+
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
+
+interface QuoteDocumentsTableProps {
+  quotationRequestId: string;
+  versions: QuoteVersionSummary[];
+  /** Whether the request belongs to an agency, whose letterhead can then be used. */
+  hasAgency: boolean;
+}
+
+export function QuoteDocumentsTable({ quotationRequestId, versions, hasAgency }: QuoteDocumentsTableProps) {
+  const [branding, setBranding] = React.useState<QuoteDocumentBranding>('house');
+  const newestFirst = React.useMemo(() => [...versions].reverse(), [versions]);
+
+  const documentUrl = (version: number, variant: string) =>
+    `${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(quotationRequestId)}/versions/${version}/pdf?${new URLSearchParams({ variant, branding })}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-primary">Quote Documents</h2>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="agency-letterhead"
+            checked={branding === 'agency'}
+            onCheckedChange={checked => setBranding(checked ? 'agency' : 'house')}
+            disabled={!hasAgency}
+          />
+          <Label htmlFor="agency-letterhead" className="text-sm">Agency letterhead</Label>
+        </div>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Version</TableHead>
+            <TableHead>Sent</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead className="text-right">PDF</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {newestFirst.map(v => (
+            <TableRow key={v.id}>
+              <TableCell className="font-medium">v{v.version.toFixed(1)}</TableCell>
+              <TableCell className="text-sm">{format(parseISO(v.createdAt), 'dd MMM yyyy, HH:mm')}{v.createdByName ? ` by ${v.createdByName}` : ''}</TableCell>
+              <TableCell className="text-right font-code">{formatCurrency(v.grandTotal, v.billingCurrency)}</TableCell>
+              <TableCell className="text-right space-x-2 whitespace-nowrap">
+                {QUOTE_DOCUMENT_VARIANTS.map(variant => (
+                  <Button key={variant} asChild variant="outline" size="sm" className="h-8 text-xs">
+                    <a href={documentUrl(v.version, variant)} download>
+                      <FileDown className="mr-1.5 h-3.5 w-3.5" /> {QUOTE_DOCUMENT_VARIANT_LABELS[variant]}
+                    </a>
+                  </Button>
+                ))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Accept / Request changes actions under a shared quote version. Accepting asks for
+ * the client's full name, a typed signature and an explicit confirmation of the total; requesting
+ * changes asks for notes, like the agent's revision request. Once answered, the panel shows the
+ * outcome instead of the actions.
+ *
+ * @bangla একটি শেয়ার করা উদ্ধৃতি সংস্করণের নিচে গ্রহণ / পরিবর্তন চাওয়ার কাজ। গ্রহণ করতে ক্লায়েন্টের পুরো নাম,
+ * একটি টাইপ করা স্বাক্ষর এবং মোট মূল্যের স্পষ্ট নিশ্চিতকরণ লাগে; পরিবর্তন চাইতে নোট লাগে, এজেন্টের সংশোধনী
+ * অনুরোধের মতো। উত্তর দেওয়ার পরে প্যানেলটি কাজগুলির পরিবর্তে ফলাফল দেখায়।
+ */
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import type { CurrencyCode } from '@/types/itinerary';
+import type { QuotationRequestStatus } from '@/types/quotation';
+import type { ShareLinkResponseState } from '@/types/sharing';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CheckCircle2, Edit2, Loader2, PenLine } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { apiPost } from '@/lib/api-client';
+import { formatCurrency } from '@/lib/utils';
+
+const SHARE_API_PATH = '/api/share';
+
+type ResponseAction = 'accept' | 'requestChanges';
+
+interface QuoteResponsePanelProps {
+  token: string;
+  quoteVersion: number;
+  grandTotal: number;
+  currency: CurrencyCode;
+  response: ShareLinkResponseState;
+}
+
+export function QuoteResponsePanel({ token, quoteVersion, grandTotal, currency, response: initialResponse }: QuoteResponsePanelProps) {
+  const { toast } = useToast();
+  const [response, setResponse] = React.useState(initialResponse);
+  const [dialog, setDialog] = React.useState<ResponseAction | null>(null);
+  const [changesRequested, setChangesRequested] = React.useState(false);
+  const [signerName, setSignerName] = React.useState('');
+  const [signature, setSignature] = React.useState('');
+  const [agreed, setAgreed] = React.useState(false);
+  const [notes, setNotes] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const versionLabel = `v${quoteVersion.toFixed(1)}`;
+
+  const submit = React.useCallback(async () => {
+    if (!dialog) return;
+    setIsSubmitting(true);
+    try {
+      const body = dialog === 'accept' ? { action: dialog, signerName, signature, agreed } : { action: dialog, signerName, notes };
+      const result = await apiPost<{ status: QuotationRequestStatus; response: ShareLinkResponseState }>(
+        `${SHARE_API_PATH}/${encodeURIComponent(token)}/response`, body,
+      );
+      setResponse(result.response);
+      setChangesRequested(dialog === 'requestChanges');
+      setDialog(null);
+      toast(dialog === 'accept'
+        ? { title: "Quote Accepted", description: "Thank you. Your travel agent has been told and will be in touch about the next steps." }
+        : { title: "Changes Requested", description: "Your notes have been sent to your travel agent." });
+    } catch (e: any) {
+      console.error("Error sending the answer to the quote:", e);
+      toast({ title: "Could Not Send", description: e.message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [dialog, token, signerName, signature, agreed, notes, toast]);
+
+  if (response.acceptance) {
+    return (
+      <Alert className="border-green-500/50 text-left [&>svg]:text-green-600">
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertTitle>Quote {versionLabel} Accepted</AlertTitle>
+        <AlertDescription>
+          Accepted by {response.acceptance.signerName} on {format(parseISO(response.acceptance.acceptedAt), "MMMM d, yyyy 'at' HH:mm")}.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+  if (changesRequested) {
+    return <p className="text-sm text-muted-foreground">Your change request has been sent. You will receive a new quote once it has been revised.</p>;
+  }
+  if (!response.canRespond) {
+    return response.reason ? <p className="text-sm text-muted-foreground">{response.reason}</p> : null;
+  }
+
+  const canSubmit = signerName.trim().length >= 2 && (dialog === 'accept' ? signature.trim().length >= 2 && agreed : notes.trim().length >= 5);
+
+  return (
+    <>
+      <Button onClick={() => setDialog('accept')} className="h-9 text-sm w-full sm:w-auto bg-green-600 hover:bg-green-700 text-white">
+        <PenLine className="mr-2 h-4 w-4" /> Accept Quote
+      </Button>
+      <Button onClick={() => setDialog('requestChanges')} variant="outline" className="h-9 text-sm w-full sm:w-auto border-orange-500 text-orange-600 hover:bg-orange-50">
+        <Edit2 className="mr-2 h-4 w-4" /> Request Changes
+      </Button>
+
+      <Dialog open={!!dialog} onOpenChange={open => { if (!open) setDialog(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog === 'accept' ? `Accept Quote ${versionLabel}` : `Request Changes to Quote ${versionLabel}`}</DialogTitle>
+            <DialogDescription>
+              {dialog === 'accept'
+                ? `By signing you accept this itinerary at a total of ${formatCurrency(grandTotal, currency)}.`
+                : "Tell us what you would like to change; your travel agent will send a revised quote."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2 text-left">
+            <div className="space-y-1">
+              <Label htmlFor="response-name">Your Full Name</Label>
+              <Input id="response-name" value={signerName} onChange={e => setSignerName(e.target.value)} autoComplete="name" />
+            </div>
+            {dialog === 'accept' ? (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="response-signature">Signature (type your name)</Label>
+                  <Input id="response-signature" value={signature} onChange={e => setSignature(e.target.value)} className="italic font-serif text-lg" />
+                </div>
+                <div className="flex items-start gap-2">
+                  <Checkbox id="response-agreed" checked={agreed} onCheckedChange={checked => setAgreed(checked === true)} className="mt-0.5" />
+                  <Label htmlFor="response-agreed" className="text-sm font-normal leading-snug">
+                    I accept quote {versionLabel} for {formatCurrency(grandTotal, currency)} and understand that my name, signature and the time are recorded.
+                  </Label>
+                </div>
+              </>
+            ) : (
+              <div className="space-y-1">
+                <Label htmlFor="response-notes">Requested Changes</Label>
+                <Textarea
+                  id="response-notes"
+                  value={notes}
+                  onChange={e => setNotes(e.target.value)}
+                  placeholder="e.g., 'A sea-view room in Phuket', 'One more night in Chiang Mai'."
+                  rows={5}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <DialogClose asChild><Button variant="outline">Back</Button></DialogClose>
+            <Button onClick={submit} disabled={!canSubmit || isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {dialog === 'accept' ? "Sign and Accept" : "Send Request"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
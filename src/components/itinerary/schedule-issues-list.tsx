@@ -0,0 +1,43 @@
+/**
+ * @fileoverview This component lists a day's schedule issues: overlapping times, activities away
+ * from the night's hotel and moves between provinces without a transfer, each with a suggested fix.
+ * They are advice only, so it is shown in amber and never blocks the quote. It renders nothing
+ * when there are no issues.
+ *
+ * @bangla এই কম্পোনেন্টটি একটি দিনের সময়সূচী সমস্যাগুলির তালিকা দেখায়: মিলে যাওয়া সময়, রাতের হোটেল থেকে দূরের
+ * কার্যকলাপ এবং ট্রান্সফার ছাড়া এক প্রদেশ থেকে অন্য প্রদেশে যাওয়া, প্রতিটির সাথে একটি প্রস্তাবিত সমাধান। এগুলি
+ * শুধুই পরামর্শ, তাই অ্যাম্বার রঙে দেখানো হয় এবং কখনো উদ্ধৃতি আটকায় না। কোনো সমস্যা না থাকলে এটি কিছুই দেখায় না।
+ */
+"use client";
+
+import * as React from 'react';
+import type { ScheduleIssue } from '@/types/itinerary';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { CalendarClock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ScheduleIssuesListProps {
+  issues: ScheduleIssue[] | undefined;
+  className?: string;
+}
+
+export function ScheduleIssuesList({ issues, className }: ScheduleIssuesListProps) {
+  if (!issues || issues.length === 0) return null;
+
+  return (
+    <Alert className={cn('border-amber-500/50 [&>svg]:text-amber-600', className)}>
+      <CalendarClock className="h-4 w-4" />
+      <AlertTitle className="text-sm">Check the Schedule: {issues.length} {issues.length === 1 ? 'issue' : 'issues'}</AlertTitle>
+      <AlertDescription className="text-xs">
+        <ul className="space-y-1.5">
+          {issues.map((issue, index) => (
+            <li key={`${issue.itemId}-${issue.code}-${index}`} className="text-amber-700 dark:text-amber-500">
+              <span className="font-semibold">{issue.itemName}:</span> {issue.reason}
+              <div className="text-muted-foreground">Fix: {issue.suggestedFix}</div>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
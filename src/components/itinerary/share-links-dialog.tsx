@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Admin dialog for an itinerary's client share links: issue a link with a scope and
+ * an expiry, copy it, revoke it, and see when each link was opened. Itinerary and price links
+ * freeze the itinerary and sell prices currently on screen; quote version links show a sent version.
+ *
+ * @bangla একটি ভ্রমণপথের ক্লায়েন্ট শেয়ার লিঙ্কগুলির জন্য অ্যাডমিন ডায়ালগ: স্কোপ ও মেয়াদ সহ একটি লিঙ্ক তৈরি
+ * করা, কপি করা, বাতিল করা এবং প্রতিটি লিঙ্ক কখন খোলা হয়েছে তা দেখা। ভ্রমণপথ ও মূল্যের লিঙ্কগুলি বর্তমানে
+ * পর্দায় থাকা ভ্রমণপথ ও বিক্রয় মূল্য স্থির করে; উদ্ধৃতি সংস্করণের লিঙ্কগুলি একটি পাঠানো সংস্করণ দেখায়।
+ */
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import type { CostSummary, TripData } from '@/types/itinerary';
+import type { QuoteVersionSummary } from '@/types/quotation';
+import { MAX_SHARE_LINK_DAYS, SHARE_LINK_SCOPE_LABELS, SHARE_LINK_SCOPES, type ShareLink, type ShareLinkScope } from '@/types/sharing';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Ban, Copy, Link2, Loader2, Share2 } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { apiGet, apiPost } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+
+const ITINERARIES_API_PATH = '/api/itineraries';
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
+const DEFAULT_EXPIRY_DAYS = 14;
+
+interface ShareLinksDialogProps {
+  tripData: TripData;
+  costSummary: CostSummary; // Sell prices, as shown on the client view
+  countryNames: { [countryId: string]: string };
+  disablePriceLinks?: boolean; // True while the prices have errors
+}
+
+type LinkStatus = 'Active' | 'Expired' | 'Revoked';
+
+const getLinkStatus = (link: ShareLink, now: Date): LinkStatus =>
+  link.revokedAt ? 'Revoked' : parseISO(link.expiresAt) <= now ? 'Expired' : 'Active';
+
+const LINK_STATUS_STYLES: Record<LinkStatus, string> = {
+  Active: "bg-green-100 text-green-800 border-green-300",
+  Expired: "text-muted-foreground",
+  Revoked: "bg-red-100 text-red-800 border-red-300",
+};
+
+const formatMoment = (iso: string) => format(parseISO(iso), 'dd MMM yyyy, HH:mm');
+
+export function ShareLinksDialog({ tripData, costSummary, countryNames, disablePriceLinks }: ShareLinksDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [links, setLinks] = React.useState<ShareLink[]>([]);
+  const [versions, setVersions] = React.useState<QuoteVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isCreating, setIsCreating] = React.useState(false);
+  const [scope, setScope] = React.useState<ShareLinkScope>('withCosts');
+  const [expiresInDays, setExpiresInDays] = React.useState(DEFAULT_EXPIRY_DAYS);
+  const [quoteVersion, setQuoteVersion] = React.useState<string>('');
+  const linksPath = `${ITINERARIES_API_PATH}/${encodeURIComponent(tripData.id)}/share-links`;
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const [loadedLinks, loadedVersions] = await Promise.all([
+          apiGet<ShareLink[]>(linksPath),
+          tripData.quotationRequestId
+            ? apiGet<QuoteVersionSummary[]>(`${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(tripData.quotationRequestId)}/versions`)
+            : Promise.resolve([]),
+        ]);
+        const sentVersions = loadedVersions.filter(version => version.itineraryId === tripData.id);
+        setLinks(loadedLinks);
+        setVersions(sentVersions);
+        setQuoteVersion(current => current || (sentVersions.length > 0 ? String(sentVersions[sentVersions.length - 1].version) : ''));
+      } catch (e: any) {
+        console.error("Error loading share links:", e);
+        toast({ title: "Error", description: `Could not load share links: ${e.message}`, variant: "destructive" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [isOpen, linksPath, tripData.id, tripData.quotationRequestId, toast]);
+
+  const copyLink = React.useCallback(async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      toast({ title: "Link Copied", description: "Send it to your client; it opens without an account." });
+    } catch (e) {
+      toast({ title: "Copy Failed", description: link.url, variant: "destructive" });
+    }
+  }, [toast]);
+
+  const handleCreate = React.useCallback(async () => {
+    setIsCreating(true);
+    try {
+      const link = await apiPost<ShareLink>(linksPath, {
+        scope,
+        expiresInDays,
+        quoteVersion: scope === 'quoteVersion' ? Number(quoteVersion) : undefined,
+        countryNames,
+        snapshot: scope === 'quoteVersion' ? undefined : { tripData, costSummary },
+      });
+      setLinks(prev => [link, ...prev]);
+      await copyLink(link);
+    } catch (e: any) {
+      console.error("Error creating share link:", e);
+      toast({ title: "Error", description: `Could not create the share link: ${e.message}`, variant: "destructive" });
+    } finally {
+      setIsCreating(false);
+    }
+  }, [linksPath, scope, expiresInDays, quoteVersion, countryNames, tripData, costSummary, copyLink, toast]);
+
+  const handleRevoke = React.useCallback(async (link: ShareLink) => {
+    try {
+      const revoked = await apiPost<ShareLink>(`${linksPath}/${encodeURIComponent(link.id)}/revoke`, {});
+      setLinks(prev => prev.map(existing => (existing.id === revoked.id ? revoked : existing)));
+      toast({ title: "Link Revoked", description: "The link no longer opens." });
+    } catch (e: any) {
+      console.error("Error revoking share link:", e);
+      toast({ title: "Error", description: `Could not revoke the link: ${e.message}`, variant: "destructive" });
+    }
+  }, [linksPath, toast]);
+
+  const now = new Date();
+  const isScopeUnavailable = (option: ShareLinkScope) =>
+    (option === 'withCosts' && !!disablePriceLinks) || (option === 'quoteVersion' && versions.length === 0);
+  const canCreate = !isCreating && !isScopeUnavailable(scope) && expiresInDays >= 1 && expiresInDays <= MAX_SHARE_LINK_DAYS;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
+          <Share2 className="mr-2 h-4 w-4"/> Share with Client
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Client Share Links</DialogTitle>
+          <DialogDescription>
+            Links open without an account until they expire or are revoked. Itinerary and price links show the itinerary as it is now; later edits need a new link.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="share-scope">Shows</Label>
+            <Select value={scope} onValueChange={value => setScope(value as ShareLinkScope)}>
+              <SelectTrigger id="share-scope"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {SHARE_LINK_SCOPES.map(option => (
+                  <SelectItem key={option} value={option} disabled={isScopeUnavailable(option)}>{SHARE_LINK_SCOPE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {scope === 'quoteVersion' && (
+            <div className="space-y-1">
+              <Label htmlFor="share-version">Version</Label>
+              <Select value={quoteVersion} onValueChange={setQuoteVersion}>
+                <SelectTrigger id="share-version" className="w-28"><SelectValue placeholder="Version" /></SelectTrigger>
+                <SelectContent>
+                  {versions.map(version => (
+                    <SelectItem key={version.id} value={String(version.version)}>v{version.version.toFixed(1)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="share-expiry">Expires after (days)</Label>
+            <Input id="share-expiry" type="number" min={1} max={MAX_SHARE_LINK_DAYS} className="w-28" value={expiresInDays} onChange={e => setExpiresInDays(Number(e.target.value))} />
+          </div>
+          <Button onClick={handleCreate} disabled={!canCreate}>
+            {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />} Create &amp; Copy
+          </Button>
+        </div>
+        {disablePriceLinks && <p className="text-xs text-destructive">Price links are unavailable until the pricing errors are fixed.</p>}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No share links yet.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Shows</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Opened</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {links.map(link => {
+                  const status = getLinkStatus(link, now);
+                  return (
+                    <TableRow key={link.id}>
+                      <TableCell className="text-xs">
+                        {SHARE_LINK_SCOPE_LABELS[link.scope]}{link.quoteVersion !== undefined && ` v${link.quoteVersion.toFixed(1)}`}
+                        <div className="text-muted-foreground">Created {formatMoment(link.createdAt)}{link.createdByName && ` by ${link.createdByName}`}</div>
+                      </TableCell>
+                      <TableCell><Badge variant="outline" className={cn("text-xs", LINK_STATUS_STYLES[status])}>{status}</Badge></TableCell>
+                      <TableCell className="text-xs">{link.revokedAt ? `Revoked ${formatMoment(link.revokedAt)}` : formatMoment(link.expiresAt)}</TableCell>
+                      <TableCell className="text-xs" title={link.opens.map(open => formatMoment(open.openedAt)).join('\n') || undefined}>
+                        {link.opens.length === 0 ? <span className="text-muted-foreground">Never</span> : (
+                          <>
+                            {link.opens.length} time{link.opens.length === 1 ? '' : 's'}
+                            <div className="text-muted-foreground">Last {formatMoment(link.opens[0].openedAt)}</div>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(link)} disabled={status !== 'Active'} title="Copy link">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" disabled={status !== 'Active'} title="Revoke link">
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Revoke this link?</AlertDialogTitle>
+                              <AlertDialogDescription>Anyone opening it from now on is told the link was withdrawn. This cannot be undone.</AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRevoke(link)} className="bg-destructive hover:bg-destructive/90">Revoke</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,291 @@
+/**
+ * @fileoverview Admin dialog for booking an itinerary with its suppliers. Items are grouped by
+ * supplier with their booking status; each supplier can be sent a booking request for its open
+ * items, and the supplier's answer is recorded against the request item by item. Items whose
+ * service is not linked to a supplier are listed so the link can be added on the service price.
+ *
+ * @bangla একটি ভ্রমণপথ তার সরবরাহকারীদের কাছে বুক করার জন্য অ্যাডমিন ডায়ালগ। আইটেমগুলি তাদের বুকিং স্ট্যাটাস সহ
+ * সরবরাহকারী অনুযায়ী গ্রুপ করা থাকে; প্রতিটি সরবরাহকারীকে তার খোলা আইটেমগুলির জন্য বুকিং অনুরোধ পাঠানো যায়, এবং
+ * সরবরাহকারীর উত্তর অনুরোধের বিপরীতে আইটেম ধরে রেকর্ড করা হয়। যে আইটেমগুলির পরিষেবা কোনো সরবরাহকারীর সাথে
+ * সংযুক্ত নয় সেগুলিও তালিকাভুক্ত থাকে যাতে সার্ভিস প্রাইসে সংযোগটি যোগ করা যায়।
+ */
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import type { ItineraryItem, TripData } from '@/types/itinerary';
+import { SUPPLIER_REPLY_STATUSES, type SupplierBookingGroup, type SupplierBookingRequest, type SupplierReplyStatus } from '@/types/booking';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardCheck, Loader2, Mail, MessageSquareReply, Truck } from 'lucide-react';
+import { BOOKING_STATUS_STYLES } from '@/components/itinerary/client-itinerary-view';
+import { useToast } from "@/hooks/use-toast";
+import { apiGet, apiPost } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+
+const ITINERARIES_API_PATH = '/api/itineraries';
+
+interface SupplierBookingsDialogProps {
+  tripData: TripData;
+  onTripDataChange: (tripData: TripData) => void;
+}
+
+type ReplyDraft = { status: SupplierReplyStatus | ''; confirmationRef: string };
+
+const formatMoment = (iso: string) => format(parseISO(iso), 'dd MMM yyyy, HH:mm');
+
+const needsBooking = (item: ItineraryItem) => item.bookingStatus !== 'Confirmed' && item.bookingStatus !== 'Cancelled';
+
+function StatusBadge({ item }: { item: ItineraryItem }) {
+  const status = item.bookingStatus || 'Pending';
+  return <Badge variant="outline" className={cn("text-xs", BOOKING_STATUS_STYLES[status])}>{status}</Badge>;
+}
+
+export function SupplierBookingsDialog({ tripData, onTripDataChange }: SupplierBookingsDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [groups, setGroups] = React.useState<SupplierBookingGroup[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [messages, setMessages] = React.useState<Record<string, string>>({});
+  const [sendingSupplierId, setSendingSupplierId] = React.useState<string | null>(null);
+  const [replyRequestId, setReplyRequestId] = React.useState<string | null>(null);
+  const [replyDrafts, setReplyDrafts] = React.useState<Record<string, ReplyDraft>>({});
+  const [isSavingReply, setIsSavingReply] = React.useState(false);
+  const bookingsPath = `${ITINERARIES_API_PATH}/${encodeURIComponent(tripData.id)}/supplier-bookings`;
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        setGroups(await apiGet<SupplierBookingGroup[]>(bookingsPath));
+      } catch (e: any) {
+        console.error("Error loading supplier bookings:", e);
+        toast({ title: "Error", description: `Could not load supplier bookings: ${e.message}`, variant: "destructive" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [isOpen, bookingsPath, toast]);
+
+  const applyResult = React.useCallback((result: { tripData: TripData; groups: SupplierBookingGroup[] }) => {
+    setGroups(result.groups);
+    onTripDataChange(result.tripData);
+  }, [onTripDataChange]);
+
+  const handleSendRequest = React.useCallback(async (supplierId: string, supplierName: string) => {
+    setSendingSupplierId(supplierId);
+    try {
+      applyResult(await apiPost<{ tripData: TripData; groups: SupplierBookingGroup[] }>(bookingsPath, {
+        supplierId,
+        message: messages[supplierId]?.trim() || undefined,
+      }));
+      setMessages(prev => ({ ...prev, [supplierId]: '' }));
+      toast({ title: "Booking Request Sent", description: `${supplierName} was asked to confirm the open items.` });
+    } catch (e: any) {
+      console.error("Error sending booking request:", e);
+      toast({ title: "Error", description: `Could not send the booking request: ${e.message}`, variant: "destructive" });
+    } finally {
+      setSendingSupplierId(null);
+    }
+  }, [bookingsPath, messages, applyResult, toast]);
+
+  const startReply = (request: SupplierBookingRequest) => {
+    setReplyRequestId(request.id);
+    setReplyDrafts(Object.fromEntries(request.itemIds.map(itemId => [itemId, { status: '', confirmationRef: '' }])));
+  };
+
+  const handleSaveReply = React.useCallback(async (request: SupplierBookingRequest) => {
+    const replies = Object.entries(replyDrafts)
+      .filter(([, draft]) => draft.status !== '')
+      .map(([itemId, draft]) => ({ itemId, status: draft.status, confirmationRef: draft.confirmationRef.trim() || undefined }));
+    setIsSavingReply(true);
+    try {
+      applyResult(await apiPost<{ tripData: TripData; groups: SupplierBookingGroup[] }>(
+        `${bookingsPath}/${encodeURIComponent(request.id)}/replies`, { replies },
+      ));
+      setReplyRequestId(null);
+      toast({ title: "Reply Recorded", description: `${replies.length} item${replies.length === 1 ? '' : 's'} updated.` });
+    } catch (e: any) {
+      console.error("Error recording supplier reply:", e);
+      toast({ title: "Error", description: `Could not record the reply: ${e.message}`, variant: "destructive" });
+    } finally {
+      setIsSavingReply(false);
+    }
+  }, [bookingsPath, replyDrafts, applyResult, toast]);
+
+  const itemsById = new Map(groups.flatMap(group => group.items.map(item => [item.id, item])));
+  const updateDraft = (itemId: string, change: Partial<ReplyDraft>) =>
+    setReplyDrafts(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...change } }));
+
+  const renderRequest = (request: SupplierBookingRequest) => {
+    const isReplying = replyRequestId === request.id;
+    const repliesByItem = new Map(request.replies.map(reply => [reply.itemId, reply]));
+    return (
+      <div key={request.id} className="rounded-md border bg-muted/30 p-2 text-xs space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span>
+            Sent {formatMoment(request.sentAt)} to {request.sentTo}{request.sentByName && ` by ${request.sentByName}`}
+            {' · '}{request.replies.length} of {request.itemIds.length} answered
+            {request.repliedAt && <span className="text-muted-foreground"> (last {formatMoment(request.repliedAt)})</span>}
+          </span>
+          {!isReplying && (
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => startReply(request)}>
+              <MessageSquareReply className="mr-1.5 h-3.5 w-3.5" /> Record Reply
+            </Button>
+          )}
+        </div>
+        {request.message && <p className="text-muted-foreground italic">“{request.message}”</p>}
+        {isReplying ? (
+          <div className="space-y-2">
+            {request.itemIds.map(itemId => {
+              const draft = replyDrafts[itemId] ?? { status: '', confirmationRef: '' };
+              return (
+                <div key={itemId} className="grid grid-cols-1 sm:grid-cols-[1fr_9rem_10rem] gap-2 items-center">
+                  <span className="font-medium">{itemsById.get(itemId)?.name ?? "Item no longer in the itinerary"}</span>
+                  <Select value={draft.status || 'none'} onValueChange={value => updateDraft(itemId, { status: value === 'none' ? '' : value as SupplierReplyStatus })}>
+                    <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No answer</SelectItem>
+                      {SUPPLIER_REPLY_STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="h-8 text-xs"
+                    placeholder="Confirmation no."
+                    value={draft.confirmationRef}
+                    disabled={draft.status !== 'Confirmed'}
+                    onChange={e => updateDraft(itemId, { confirmationRef: e.target.value })}
+                  />
+                </div>
+              );
+            })}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setReplyRequestId(null)} disabled={isSavingReply}>Cancel</Button>
+              <Button
+                size="sm"
+                className="h-7 text-xs bg-accent hover:bg-accent/90 text-accent-foreground"
+                onClick={() => handleSaveReply(request)}
+                disabled={isSavingReply || Object.values(replyDrafts).every(draft => draft.status === '')}
+              >
+                {isSavingReply && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />} Save Reply
+              </Button>
+            </div>
+          </div>
+        ) : request.replies.length > 0 && (
+          <ul className="space-y-0.5">
+            {request.itemIds.filter(itemId => repliesByItem.has(itemId)).map(itemId => {
+              const reply = repliesByItem.get(itemId)!;
+              return (
+                <li key={itemId}>
+                  {itemsById.get(itemId)?.name ?? itemId}: <strong>{reply.status}</strong>
+                  {reply.confirmationRef && ` (${reply.confirmationRef})`}
+                  {reply.recordedByName && <span className="text-muted-foreground"> — recorded by {reply.recordedByName}</span>}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9 text-sm w-full sm:w-auto">
+          <ClipboardCheck className="mr-2 h-4 w-4"/> Supplier Bookings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Supplier Bookings</DialogTitle>
+          <DialogDescription>
+            A booking request asks a supplier for all their items that are not confirmed yet. Record their answer to update each item; the overall status follows.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">This itinerary has no items yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => {
+              const { supplier } = group;
+              const openCount = group.items.filter(needsBooking).length;
+              const cannotSend = !supplier ? undefined
+                : !supplier.isActive ? "This supplier is inactive."
+                : !supplier.email ? "Add an email address to this supplier first."
+                : openCount === 0 ? "Every item is confirmed or cancelled." : undefined;
+              return (
+                <section key={group.key} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="font-semibold flex items-center">
+                      <Truck className="mr-2 h-4 w-4 text-primary" /> {group.name}
+                      {supplier && !supplier.isActive && <Badge variant="outline" className="ml-2 text-xs">Inactive</Badge>}
+                    </h3>
+                    <span className="text-xs text-muted-foreground">
+                      {supplier ? supplier.email || "No email" : "Not linked to a supplier — link its service price or hotel to one."}
+                    </span>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Day</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Confirmation</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...group.items].sort((a, b) => a.day - b.day).map(item => (
+                        <TableRow key={item.id}>
+                          <TableCell className="text-xs font-medium">{item.name}</TableCell>
+                          <TableCell className="text-xs">Day {item.day}</TableCell>
+                          <TableCell><StatusBadge item={item} /></TableCell>
+                          <TableCell className="text-xs font-code">{item.confirmationRef || '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  {supplier && (
+                    <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-2 items-end">
+                      <Textarea
+                        rows={1}
+                        className="text-xs min-h-[2.25rem]"
+                        placeholder="Message to the supplier (optional)"
+                        value={messages[supplier.id] ?? ''}
+                        onChange={e => setMessages(prev => ({ ...prev, [supplier.id]: e.target.value }))}
+                        disabled={!!cannotSend}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleSendRequest(supplier.id, supplier.name)}
+                        disabled={!!cannotSend || sendingSupplierId !== null}
+                        title={cannotSend}
+                      >
+                        {sendingSupplierId === supplier.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+                        Send Booking Request{openCount > 0 && ` (${openCount})`}
+                      </Button>
+                    </div>
+                  )}
+
+                  {group.requests.length > 0 && <div className="space-y-2">{group.requests.map(renderRequest)}</div>}
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
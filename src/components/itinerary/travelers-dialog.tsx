@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Planner dialog for the travelers' names and personal details: date of birth,
+ * nationality, passport and any dietary or mobility needs. A traveler with a date of birth is an
+ * adult or a child by their age on the start date, so the type cannot be chosen for them. Passports
+ * that expire too soon after the trip are flagged. Nothing changes until the dialog is saved.
+ *
+ * @bangla ভ্রমণকারীদের নাম ও ব্যক্তিগত বিবরণের জন্য প্ল্যানার ডায়ালগ: জন্ম তারিখ, জাতীয়তা, পাসপোর্ট এবং
+ * যেকোনো খাদ্য বা চলাচলের প্রয়োজন। জন্ম তারিখ থাকা একজন ভ্রমণকারী শুরুর তারিখে তার বয়স অনুযায়ী প্রাপ্তবয়স্ক
+ * বা শিশু, তাই তার প্রকার বাছাই করা যায় না। ভ্রমণের পরে খুব শীঘ্রই মেয়াদ শেষ হওয়া পাসপোর্ট চিহ্নিত করা হয়।
+ * ডায়ালগ সংরক্ষণ না করা পর্যন্ত কিছুই বদলায় না।
+ */
+"use client";
+
+import * as React from 'react';
+import { addDays, formatISO, isValid, parseISO } from 'date-fns';
+import type { Traveler, TripData } from '@/types/itinerary';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { AlertTriangle, Plus, Trash2, UserRound } from 'lucide-react';
+import { generateGUID } from '@/lib/utils';
+import { CHILD_AGE_LIMIT, getAgeOn, getTravelerDocumentWarnings, travelerName } from '@/lib/travelers';
+
+interface TravelersDialogProps {
+  tripData: TripData;
+  onUpdateTravelers: (travelers: Traveler[]) => void;
+}
+
+type TravelerTextField = 'fullName' | 'nationality' | 'passportNumber' | 'dietaryNeeds' | 'mobilityNeeds' | 'dateOfBirth' | 'passportExpiry';
+
+export function TravelersDialog({ tripData, onUpdateTravelers }: TravelersDialogProps) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [draft, setDraft] = React.useState<Traveler[]>(tripData.travelers);
+  const { startDate, numDays } = tripData.settings;
+  const endDate = React.useMemo(() => {
+    const start = parseISO(startDate);
+    return isValid(start) ? formatISO(addDays(start, Math.max(0, numDays - 1)), { representation: 'date' }) : startDate;
+  }, [startDate, numDays]);
+  const namedCount = tripData.travelers.filter(traveler => traveler.fullName?.trim()).length;
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setDraft(tripData.travelers);
+    setIsOpen(open);
+  };
+
+  const updateTraveler = React.useCallback((id: string, changes: Partial<Traveler>) => {
+    setDraft(current => current.map(traveler => (traveler.id === id ? { ...traveler, ...changes } : traveler)));
+  }, []);
+
+  const handleTextChange = (id: string, field: TravelerTextField, value: string) => {
+    updateTraveler(id, { [field]: value.trim() === '' ? undefined : value });
+  };
+
+  const handleAddTraveler = (type: Traveler['type']) => {
+    setDraft(current => [...current, { id: `${type === 'adult' ? 'A' : 'C'}${generateGUID()}`, label: type === 'adult' ? 'New adult' : 'New child', type }]);
+  };
+
+  const handleSave = () => {
+    onUpdateTravelers(draft.map(traveler => ({ ...traveler, fullName: traveler.fullName?.trim() || undefined })));
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-10 mt-1 w-full">
+          <UserRound className="mr-1.5 h-4 w-4" /> Traveler Details
+          <Badge variant="secondary" className="ml-2 text-xs font-normal">{namedCount}/{tripData.travelers.length} named</Badge>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Traveler Details</DialogTitle>
+          <DialogDescription>
+            Names as in the passport. Anyone with a date of birth is a child while under {CHILD_AGE_LIMIT} on the start date. Suppliers get names, nationality and needs; client links get names and needs only.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-3">
+            {draft.map(traveler => {
+              const age = getAgeOn(traveler, startDate);
+              const warnings = getTravelerDocumentWarnings(traveler, startDate, endDate);
+              const fieldId = (field: string) => `traveler-${traveler.id}-${field}`;
+              return (
+                <div key={traveler.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold">
+                      {travelerName(traveler)}
+                      {age !== undefined && <span className="ml-2 text-xs font-normal text-muted-foreground">{age} on the start date</span>}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:bg-destructive/10"
+                      onClick={() => setDraft(current => current.filter(other => other.id !== traveler.id))}
+                      disabled={draft.length <= 1}
+                      aria-label={`Remove ${travelerName(traveler)}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+                    <div className="sm:col-span-2">
+                      <Label htmlFor={fieldId('fullName')} className="text-xs">Full Name</Label>
+                      <Input id={fieldId('fullName')} value={traveler.fullName ?? ''} onChange={(e) => handleTextChange(traveler.id, 'fullName', e.target.value)} placeholder={traveler.label} className="h-9 text-sm" />
+                    </div>
+                    <div>
+                      <Label htmlFor={fieldId('type')} className="text-xs">Type</Label>
+                      <Select value={traveler.type} onValueChange={(value) => updateTraveler(traveler.id, { type: value as Traveler['type'] })} disabled={age !== undefined}>
+                        <SelectTrigger id={fieldId('type')} className="h-9 text-sm"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="adult">Adult</SelectItem>
+                          <SelectItem value="child">Child</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor={fieldId('dateOfBirth')} className="text-xs">Date of Birth</Label>
+                      <Input id={fieldId('dateOfBirth')} type="date" value={traveler.dateOfBirth ?? ''} onChange={(e) => handleTextChange(traveler.id, 'dateOfBirth', e.target.value)} className="h-9 text-sm" />
+                    </div>
+                    <div>
+                      <Label htmlFor={fieldId('nationality')} className="text-xs">Nationality</Label>
+                      <Input id={fieldId('nationality')} value={traveler.nationality ?? ''} onChange={(e) => handleTextChange(traveler.id, 'nationality', e.target.value)} className="h-9 text-sm" />
+                    </div>
+                    <div>
+                      <Label htmlFor={fieldId('passportNumber')} className="text-xs">Passport Number</Label>
+                      <Input id={fieldId('passportNumber')} value={traveler.passportNumber ?? ''} onChange={(e) => handleTextChange(traveler.id, 'passportNumber', e.target.value)} className="h-9 text-sm font-code" />
+                    </div>
+                    <div>
+                      <Label htmlFor={fieldId('passportExpiry')} className="text-xs">Passport Expiry</Label>
+                      <Input id={fieldId('passportExpiry')} type="date" value={traveler.passportExpiry ?? ''} onChange={(e) => handleTextChange(traveler.id, 'passportExpiry', e.target.value)} className="h-9 text-sm" />
+                    </div>
+                    <div className="hidden lg:block" />
+                    <div className="sm:col-span-2">
+                      <Label htmlFor={fieldId('dietaryNeeds')} className="text-xs">Dietary Needs</Label>
+                      <Input id={fieldId('dietaryNeeds')} value={traveler.dietaryNeeds ?? ''} onChange={(e) => handleTextChange(traveler.id, 'dietaryNeeds', e.target.value)} placeholder="e.g., Vegetarian, nut allergy" className="h-9 text-sm" />
+                    </div>
+                    <div className="sm:col-span-2">
+                      <Label htmlFor={fieldId('mobilityNeeds')} className="text-xs">Mobility Needs</Label>
+                      <Input id={fieldId('mobilityNeeds')} value={traveler.mobilityNeeds ?? ''} onChange={(e) => handleTextChange(traveler.id, 'mobilityNeeds', e.target.value)} placeholder="e.g., Wheelchair user, no stairs" className="h-9 text-sm" />
+                    </div>
+                  </div>
+                  {warnings.map(warning => (
+                    <p key={warning} className="flex items-center text-xs text-amber-700 dark:text-amber-500">
+                      <AlertTriangle className="mr-1.5 h-3.5 w-3.5 shrink-0" /> {warning}
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+        <DialogFooter className="flex-col-reverse gap-2 sm:flex-row sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleAddTraveler('adult')}><Plus className="mr-1.5 h-4 w-4" /> Adult</Button>
+            <Button variant="outline" size="sm" onClick={() => handleAddTraveler('child')}><Plus className="mr-1.5 h-4 w-4" /> Child</Button>
+          </div>
+          <Button size="sm" onClick={handleSave}>Save Travelers</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview The notification bell shown in the corner of every page for signed-in admins and
+ * agents. Its badge counts unread notifications; the panel lists the newest ones, each linking to
+ * its quotation request and, when there is one, the itinerary. Opening a notification marks it
+ * read. The settings view chooses which kinds are also emailed.
+ *
+ * @bangla প্রতিটি পৃষ্ঠার কোণে সাইন-ইন করা অ্যাডমিন ও এজেন্টদের জন্য দেখানো নোটিফিকেশন বেল। এর ব্যাজ না-পড়া
+ * বিজ্ঞপ্তি গণনা করে; প্যানেলে সবচেয়ে নতুনগুলি থাকে, প্রতিটি তার উদ্ধৃতি অনুরোধ এবং, থাকলে, ভ্রমণপথের লিঙ্ক দেয়।
+ * একটি বিজ্ঞপ্তি খুললে তা পড়া হিসাবে চিহ্নিত হয়। সেটিংস ভিউতে কোন ধরনগুলি ইমেলেও পাঠানো হবে তা বেছে নেওয়া যায়।
+ */
+"use client";
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { NOTIFICATION_KINDS, NOTIFICATION_KIND_LABELS, type AppNotification, type NotificationPreferences } from '@/types/notification';
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Bell, CheckCheck, ExternalLink, Loader2, Settings, ArrowLeft } from 'lucide-react';
+import { useNotifications } from '@/hooks/useNotifications';
+import { useToast } from "@/hooks/use-toast";
+import { cn } from '@/lib/utils';
+
+type Role = 'admin' | 'agent';
+
+/** Where a notification leads: the request in the role's request list, and the itinerary. */
+function getNotificationLinks(notification: AppNotification, role: Role): { request?: string; itinerary?: string } {
+  const { quotationRequestId: requestId, itineraryId } = notification;
+  if (role === 'admin') {
+    return {
+      request: requestId && `/admin/quotation-requests?requestId=${encodeURIComponent(requestId)}`,
+      itinerary: itineraryId && `/planner?${requestId ? `quotationRequestId=${encodeURIComponent(requestId)}&` : ''}itineraryId=${encodeURIComponent(itineraryId)}`,
+    };
+  }
+  return {
+    request: requestId && `/agent/my-quotation-requests?requestId=${encodeURIComponent(requestId)}`,
+    itinerary: itineraryId && `/itinerary/view/${encodeURIComponent(itineraryId)}`,
+  };
+}
+
+function PreferencesView({ onBack, load, save }: {
+  onBack: () => void;
+  load: () => Promise<NotificationPreferences>;
+  save: (preferences: NotificationPreferences) => Promise<NotificationPreferences>;
+}) {
+  const [preferences, setPreferences] = React.useState<NotificationPreferences | null>(null);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    load().then(setPreferences).catch(error => {
+      console.error("Failed to load notification preferences:", error);
+      toast({ title: "Error", description: "Could not load your notification preferences.", variant: "destructive" });
+    });
+  }, [load, toast]);
+
+  const handleToggle = async (kind: typeof NOTIFICATION_KINDS[number], email: boolean) => {
+    if (!preferences) return;
+    const next = { ...preferences, email: { ...preferences.email, [kind]: email } };
+    setPreferences(next);
+    try {
+      setPreferences(await save(next));
+    } catch (error: any) {
+      console.error("Failed to save notification preferences:", error);
+      setPreferences(preferences);
+      toast({ title: "Error", description: `Could not save your preferences: ${error.message}`, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onBack}><ArrowLeft className="h-4 w-4" /></Button>
+        <p className="text-sm font-semibold">Also email me about</p>
+      </div>
+      {!preferences ? (
+        <p className="text-xs text-muted-foreground flex items-center"><Loader2 className="mr-2 h-3 w-3 animate-spin" /> Loading...</p>
+      ) : NOTIFICATION_KINDS.map(kind => (
+        <div key={kind} className="flex items-center justify-between">
+          <Label htmlFor={`notify-email-${kind}`} className="text-sm font-normal">{NOTIFICATION_KIND_LABELS[kind]}</Label>
+          <Switch id={`notify-email-${kind}`} checked={preferences.email[kind] !== false} onCheckedChange={checked => handleToggle(kind, checked)} />
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">Notifications always appear here; these only choose what is emailed too.</p>
+    </div>
+  );
+}
+
+export function NotificationBell() {
+  const { data: session } = useSession();
+  const role = session?.user?.role === 'admin' || session?.user?.role === 'agent' ? session.user.role as Role : null;
+  const { notifications, unreadCount, isLoading, markRead, loadPreferences, savePreferences } = useNotifications(!!role);
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [showPreferences, setShowPreferences] = React.useState(false);
+  const router = useRouter();
+
+  if (!role) return null;
+
+  const open = (notification: AppNotification, href: string | undefined) => {
+    if (!notification.readAt) markRead([notification.id]).catch(error => console.error("Failed to mark notification read:", error));
+    setIsOpen(false);
+    if (href) router.push(href);
+  };
+
+  return (
+    <div className="fixed top-3 right-3 z-40 print:hidden">
+      <Popover open={isOpen} onOpenChange={next => { setIsOpen(next); if (!next) setShowPreferences(false); }}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="icon" className="relative h-9 w-9 rounded-full bg-background shadow-md" aria-label={`Notifications, ${unreadCount} unread`}>
+            <Bell className="h-4 w-4" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-[1.1rem] text-center">
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 sm:w-96 p-0">
+          {showPreferences ? (
+            <PreferencesView onBack={() => setShowPreferences(false)} load={loadPreferences} save={savePreferences} />
+          ) : (
+            <>
+              <div className="flex items-center justify-between border-b px-3 py-2">
+                <p className="text-sm font-semibold">Notifications</p>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => markRead()} disabled={unreadCount === 0}>
+                    <CheckCheck className="mr-1 h-3.5 w-3.5" /> Mark all read
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setShowPreferences(true)} title="Email preferences">
+                    <Settings className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+              <div className="max-h-[60vh] overflow-y-auto">
+                {notifications.length === 0 ? (
+                  <p className="p-6 text-center text-sm text-muted-foreground">{isLoading ? "Loading..." : "You're all caught up."}</p>
+                ) : notifications.map(notification => {
+                  const links = getNotificationLinks(notification, role);
+                  return (
+                    <div key={notification.id} className={cn("border-b last:border-b-0 px-3 py-2 text-sm", !notification.readAt && "bg-primary/5")}>
+                      <button type="button" className="w-full text-left" onClick={() => open(notification, links.request)}>
+                        <div className="flex items-start gap-2">
+                          {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                          <div className="min-w-0">
+                            <p className={cn("truncate", !notification.readAt && "font-semibold")}>{notification.title}</p>
+                            <p className="text-xs text-muted-foreground whitespace-pre-line line-clamp-3">{notification.body}</p>
+                            <p className="text-[11px] text-muted-foreground mt-0.5">
+                              {NOTIFICATION_KIND_LABELS[notification.kind]} · {formatDistanceToNow(parseISO(notification.createdAt), { addSuffix: true })}
+                            </p>
+                          </div>
+                        </div>
+                      </button>
+                      {links.itinerary && (
+                        <Button variant="link" size="sm" className="h-6 px-0 text-xs" onClick={() => open(notification, links.itinerary)}>
+                          <ExternalLink className="mr-1 h-3 w-3" /> Open itinerary
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,469 @@
+/**
+ * @fileoverview A "Billing" button that opens the pro-forma invoice of a confirmed quotation request:
+ * its deposit and balance, the payments received and any credit notes, each printable as a PDF.
+ * Admins also issue the pro forma here, record payments in any currency (the rate into the invoice
+ * currency is proposed from the managed exchange rates and can be corrected to the bank's) and
+ * issue credit notes once the request is cancelled, sized from the cancellation charges worked out
+ * for a chosen cancellation date. Agents see the same figures read-only.
+ *
+ * @bangla একটি "Billing" বোতাম যা একটি নিশ্চিত উদ্ধৃতি অনুরোধের প্রো-ফর্মা ইনভয়েস খোলে: এর ডিপোজিট ও ব্যালেন্স,
+ * প্রাপ্ত পেমেন্ট এবং যেকোনো ক্রেডিট নোট, প্রতিটি PDF হিসাবে প্রিন্টযোগ্য। অ্যাডমিনরা এখানে প্রো-ফর্মা জারি করেন,
+ * যেকোনো মুদ্রায় পেমেন্ট রেকর্ড করেন (ইনভয়েস মুদ্রায় হার পরিচালিত বিনিময় হার থেকে প্রস্তাবিত হয় এবং ব্যাংকের হারে
+ * সংশোধন করা যায়) এবং অনুরোধ বাতিল হলে ক্রেডিট নোট জারি করেন, যার পরিমাণ একটি বাছাই করা বাতিলের তারিখের
+ * বাতিলকরণ চার্জ থেকে নির্ধারিত হয়। এজেন্টরা একই পরিসংখ্যান শুধু দেখতে পান।
+ */
+"use client";
+
+import * as React from 'react';
+import { addDays, format, isValid, parseISO, subDays } from 'date-fns';
+import { FileDown, Loader2, Receipt } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { apiGet, apiPost } from '@/lib/api-client';
+import { toInvoiceCurrency } from '@/lib/invoice-balance';
+import { formatCurrency } from '@/lib/utils';
+import { QUOTATION_STATUSES, type QuotationRequest } from '@/types/quotation';
+import {
+  DEFAULT_DEPOSIT_PERCENTAGE, PAYMENT_METHODS, PAYMENT_METHOD_LABELS,
+  type CancellationChargeSummary, type Invoice, type PaymentMethod, type QuotationInvoicing,
+} from '@/types/invoice';
+
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
+
+// Billing starts once the quote is confirmed; cancelled requests keep theirs for credit notes.
+const FIRST_BILLABLE_STATUS_INDEX = QUOTATION_STATUSES.indexOf("Confirmed");
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+const formatDay = (value: string) => format(parseISO(value), 'dd MMM yyyy');
+
+interface QuotationBillingProps {
+  request: QuotationRequest;
+  /** Admins issue invoices and record payments; agents only view them. */
+  canManage: boolean;
+}
+
+function IssueProFormaForm({ request, onIssue }: { request: QuotationRequest; onIssue: (terms: object) => Promise<boolean> }) {
+  const today = new Date();
+  const travelStart = request.tripDetails.preferredStartDate ? parseISO(request.tripDetails.preferredStartDate) : null;
+  const [depositPercentage, setDepositPercentage] = React.useState(String(DEFAULT_DEPOSIT_PERCENTAGE));
+  const [depositDueDate, setDepositDueDate] = React.useState(toDateInput(addDays(today, 7)));
+  const [balanceDueDate, setBalanceDueDate] = React.useState(() => {
+    const beforeTravel = travelStart && isValid(travelStart) ? subDays(travelStart, 30) : null;
+    return toDateInput(beforeTravel && beforeTravel > addDays(today, 7) ? beforeTravel : addDays(today, 7));
+  });
+  const [notes, setNotes] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const percentage = Number(depositPercentage);
+  const isValidTerms = depositPercentage !== '' && percentage >= 0 && percentage <= 100 && !!balanceDueDate;
+
+  const submit = async () => {
+    setIsSaving(true);
+    await onIssue({ depositPercentage: percentage, depositDueDate: depositDueDate || undefined, balanceDueDate, notes: notes.trim() || undefined });
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <p className="text-sm text-muted-foreground">
+        No pro-forma invoice yet. It will bill the total of quote v{(request.version ?? 0).toFixed(1)}.
+      </p>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="deposit-percentage" className="text-xs">Deposit %</Label>
+          <Input id="deposit-percentage" type="number" min={0} max={100} value={depositPercentage} onChange={e => setDepositPercentage(e.target.value)} className="h-9" />
+        </div>
+        <div>
+          <Label htmlFor="deposit-due" className="text-xs">Deposit due</Label>
+          <Input id="deposit-due" type="date" value={depositDueDate} onChange={e => setDepositDueDate(e.target.value)} className="h-9" />
+        </div>
+        <div>
+          <Label htmlFor="balance-due" className="text-xs">Balance due</Label>
+          <Input id="balance-due" type="date" value={balanceDueDate} onChange={e => setBalanceDueDate(e.target.value)} className="h-9" />
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="invoice-notes" className="text-xs">Notes printed on the invoice (optional)</Label>
+        <Textarea id="invoice-notes" value={notes} onChange={e => setNotes(e.target.value)} rows={2} placeholder="Bank details, payment instructions..." />
+      </div>
+      <Button size="sm" onClick={submit} disabled={!isValidTerms || isSaving}>
+        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Issue Pro Forma
+      </Button>
+    </div>
+  );
+}
+
+function PaymentForm({ invoice, onRecord }: { invoice: Invoice; onRecord: (payment: object) => Promise<boolean> }) {
+  const { getRate, isLoading: isLoadingRates } = useExchangeRates();
+  const [amount, setAmount] = React.useState("");
+  const [currency, setCurrency] = React.useState(invoice.currency);
+  const [exchangeRate, setExchangeRate] = React.useState("1");
+  const [method, setMethod] = React.useState<PaymentMethod>('bankTransfer');
+  const [reference, setReference] = React.useState("");
+  const [receivedAt, setReceivedAt] = React.useState(toDateInput(new Date()));
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  // Propose today's rate without markup whenever the currency changes; the admin can overwrite it.
+  React.useEffect(() => {
+    if (isLoadingRates) return;
+    const rate = getRate(currency, invoice.currency);
+    setExchangeRate(rate ? String(rate.baseRate) : "");
+  }, [currency, invoice.currency, getRate, isLoadingRates]);
+
+  const sameCurrency = currency.toUpperCase() === invoice.currency;
+  const amountValue = Number(amount);
+  const rateValue = sameCurrency ? 1 : Number(exchangeRate);
+  const isValidPayment = amountValue > 0 && rateValue > 0 && currency.trim().length === 3 && !!receivedAt;
+
+  const submit = async () => {
+    setIsSaving(true);
+    const saved = await onRecord({
+      amount: amountValue, currency: currency.toUpperCase(), exchangeRate: rateValue, method, reference: reference.trim() || undefined, receivedAt,
+    });
+    setIsSaving(false);
+    if (saved) {
+      setAmount("");
+      setReference("");
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <p className="text-sm font-medium">Record a payment</p>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="payment-amount" className="text-xs">Amount</Label>
+          <Input id="payment-amount" type="number" min={0} step="0.01" value={amount} onChange={e => setAmount(e.target.value)} className="h-9" />
+        </div>
+        <div>
+          <Label htmlFor="payment-currency" className="text-xs">Currency</Label>
+          <Input id="payment-currency" value={currency} maxLength={3} onChange={e => setCurrency(e.target.value.toUpperCase())} className="h-9 uppercase" />
+        </div>
+        <div>
+          <Label htmlFor="payment-rate" className="text-xs">Rate to {invoice.currency}</Label>
+          <Input id="payment-rate" type="number" min={0} step="any" value={sameCurrency ? "1" : exchangeRate} disabled={sameCurrency}
+            onChange={e => setExchangeRate(e.target.value)} className="h-9" />
+        </div>
+        <div>
+          <Label className="text-xs">Method</Label>
+          <Select value={method} onValueChange={value => setMethod(value as PaymentMethod)}>
+            <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PAYMENT_METHODS.map(option => <SelectItem key={option} value={option}>{PAYMENT_METHOD_LABELS[option]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="payment-reference" className="text-xs">Reference</Label>
+          <Input id="payment-reference" value={reference} onChange={e => setReference(e.target.value)} className="h-9" />
+        </div>
+        <div>
+          <Label htmlFor="payment-date" className="text-xs">Received</Label>
+          <Input id="payment-date" type="date" value={receivedAt} onChange={e => setReceivedAt(e.target.value)} className="h-9" />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-muted-foreground">
+          {isValidPayment && !sameCurrency && `Counts as ${formatCurrency(toInvoiceCurrency(amountValue, rateValue), invoice.currency)}`}
+          {!sameCurrency && !isLoadingRates && !exchangeRate && `No exchange rate from ${currency} to ${invoice.currency}; enter the bank's rate.`}
+        </span>
+        <Button size="sm" onClick={submit} disabled={!isValidPayment || isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Record Payment
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+type CreditSuggestion = { amount: number; reason: string };
+
+function CancellationChargesPanel({ request, invoice, netTotal, onSuggest }: {
+  request: QuotationRequest; invoice: Invoice; netTotal: number; onSuggest?: (suggestion: CreditSuggestion) => void;
+}) {
+  const [cancellationDate, setCancellationDate] = React.useState(toDateInput(new Date()));
+  const [summary, setSummary] = React.useState<CancellationChargeSummary | null>(null);
+  const [isCalculating, setIsCalculating] = React.useState(false);
+  const { toast } = useToast();
+
+  const calculate = async () => {
+    setIsCalculating(true);
+    try {
+      const path = `${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(request.id)}/cancellation-charges?date=${cancellationDate}`;
+      setSummary(await apiGet<CancellationChargeSummary>(path));
+    } catch (e: any) {
+      console.error(`Error calculating the cancellation charges of ${request.id}:`, e);
+      toast({ title: "Error", description: `Could not calculate the cancellation charges: ${e.message}`, variant: "destructive" });
+    }
+    setIsCalculating(false);
+  };
+
+  const canSuggest = !!onSuggest && !!summary && summary.currency === invoice.currency;
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <p className="text-sm font-medium">Cancellation charges</p>
+      <div className="flex items-end gap-3">
+        <div>
+          <Label htmlFor="cancellation-date" className="text-xs">Cancelled on</Label>
+          <Input id="cancellation-date" type="date" value={cancellationDate} onChange={e => { setCancellationDate(e.target.value); setSummary(null); }} className="h-9" />
+        </div>
+        <Button size="sm" variant="outline" onClick={calculate} disabled={!cancellationDate || isCalculating}>
+          {isCalculating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Calculate
+        </Button>
+      </div>
+      {summary && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Policy</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Charge</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.items.map(item => (
+                <TableRow key={item.itemId} className="text-sm">
+                  <TableCell>
+                    {item.itemName}
+                    {item.serviceDate && (
+                      <span className="text-xs text-muted-foreground block">
+                        {formatDay(item.serviceDate)}{item.daysBefore !== undefined && item.daysBefore >= 0 && ` · ${item.daysBefore} days' notice`}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className={`text-xs ${item.policySource === 'none' ? 'text-amber-600' : ''}`}>{item.basis}</TableCell>
+                  <TableCell className="text-right font-code">{formatCurrency(item.itemTotal, summary.currency)}</TableCell>
+                  <TableCell className="text-right font-code">{formatCurrency(item.charge, summary.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <span className="font-semibold">Total charge {formatCurrency(summary.totalCharge, summary.currency)}</span>
+            {canSuggest && (
+              <Button size="sm" variant="secondary" onClick={() => onSuggest({
+                amount: Math.max(0, Math.round((netTotal - summary.totalCharge) * 100) / 100),
+                reason: `Cancelled on ${formatDay(summary.cancellationDate)}; cancellation charges of ${formatCurrency(summary.totalCharge, summary.currency)} retained`,
+              })}>
+                Credit the rest
+              </Button>
+            )}
+          </div>
+          {summary.items.some(item => item.policySource === 'none') && (
+            <p className="text-xs text-muted-foreground">Services without a cancellation policy are not charged; adjust the credit if the supplier charges for them.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function CreditNoteForm({ invoice, maxAmount, suggestion, onIssue }: {
+  invoice: Invoice; maxAmount: number; suggestion?: CreditSuggestion; onIssue: (credit: object) => Promise<boolean>;
+}) {
+  const [amount, setAmount] = React.useState(String(suggestion ? Math.min(suggestion.amount, maxAmount) : maxAmount));
+  const [reason, setReason] = React.useState(suggestion?.reason ?? "");
+  const [isSaving, setIsSaving] = React.useState(false);
+  const amountValue = Number(amount);
+
+  const submit = async () => {
+    setIsSaving(true);
+    if (await onIssue({ amount: amountValue, reason: reason.trim() })) setReason("");
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <p className="text-sm font-medium">Issue a credit note</p>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="credit-amount" className="text-xs">Amount ({invoice.currency})</Label>
+          <Input id="credit-amount" type="number" min={0} max={maxAmount} step="0.01" value={amount} onChange={e => setAmount(e.target.value)} className="h-9" />
+        </div>
+        <div className="col-span-2">
+          <Label htmlFor="credit-reason" className="text-xs">Reason</Label>
+          <Input id="credit-reason" value={reason} onChange={e => setReason(e.target.value)} placeholder="e.g., Cancelled 45 days before travel" className="h-9" />
+        </div>
+      </div>
+      <Button size="sm" variant="outline" onClick={submit} disabled={!(amountValue > 0 && amountValue <= maxAmount) || !reason.trim() || isSaving}>
+        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Issue Credit Note
+      </Button>
+    </div>
+  );
+}
+
+export function QuotationBilling({ request, canManage }: QuotationBillingProps) {
+  const [open, setOpen] = React.useState(false);
+  const [invoicing, setInvoicing] = React.useState<QuotationInvoicing | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [creditSuggestion, setCreditSuggestion] = React.useState<CreditSuggestion>();
+  const { toast } = useToast();
+  const invoicesPath = `${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(request.id)}/invoices`;
+
+  const loadInvoicing = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setInvoicing(await apiGet<QuotationInvoicing>(invoicesPath));
+    } catch (e: any) {
+      console.error(`Error loading the invoices of ${request.id}:`, e);
+      toast({ title: "Error", description: `Could not load the invoices: ${e.message}`, variant: "destructive" });
+    }
+    setIsLoading(false);
+  }, [invoicesPath, request.id, toast]);
+
+  React.useEffect(() => {
+    if (open) loadInvoicing();
+  }, [open, loadInvoicing]);
+
+  const post = React.useCallback(async (path: string, body: object, success: string): Promise<boolean> => {
+    try {
+      setInvoicing(await apiPost<QuotationInvoicing>(path, body));
+      toast({ title: success });
+      return true;
+    } catch (e: any) {
+      console.error(`Error updating the invoices of ${request.id}:`, e);
+      toast({ title: "Error", description: e.message, variant: "destructive" });
+      return false;
+    }
+  }, [request.id, toast]);
+
+  if (QUOTATION_STATUSES.indexOf(request.status) < FIRST_BILLABLE_STATUS_INDEX) return null;
+
+  const invoice = invoicing?.invoice;
+  const balance = invoicing?.balance;
+  const pdfUrl = (invoiceId: string) => `${invoicesPath}/${encodeURIComponent(invoiceId)}/pdf`;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Billing">
+          <Receipt className="h-3.5 w-3.5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Billing</DialogTitle>
+          <DialogDescription>Quotation request {request.id} · {request.status}</DialogDescription>
+        </DialogHeader>
+        {isLoading && !invoicing ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : !invoice || !balance ? (
+          canManage && request.status !== "Cancelled" && request.status !== "Completed" ? (
+            <IssueProFormaForm request={request} onIssue={terms => post(invoicesPath, terms, "Pro Forma Issued")} />
+          ) : (
+            <p className="text-sm text-muted-foreground py-4">No pro-forma invoice has been issued for this request.</p>
+          )
+        ) : (
+          <ScrollArea className="max-h-[70vh] pr-3">
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-3 rounded-md border bg-muted/30 p-3 text-sm">
+                <div className="space-y-1">
+                  <p className="font-semibold">
+                    Pro forma {invoice.number} · quote v{invoice.quoteVersion.toFixed(1)}
+                  </p>
+                  <p className="text-muted-foreground text-xs">
+                    Issued {formatDay(invoice.issuedAt)}{invoice.issuedByName && ` by ${invoice.issuedByName}`}
+                  </p>
+                  <p>
+                    Deposit {invoice.depositPercentage ?? 0}%: {formatCurrency(balance.depositAmount, invoice.currency)}
+                    {invoice.depositDueDate && ` by ${formatDay(invoice.depositDueDate)}`}
+                    {invoice.balanceDueDate && ` · balance by ${formatDay(invoice.balanceDueDate)}`}
+                  </p>
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    <Badge variant={balance.isDepositReceived ? 'secondary' : 'destructive'} className="text-xs">
+                      {balance.isDepositReceived ? "Deposit received" : `Deposit outstanding: ${formatCurrency(balance.depositOutstanding, invoice.currency)}`}
+                    </Badge>
+                    {balance.isSettled && <Badge variant="secondary" className="text-xs">Settled</Badge>}
+                  </div>
+                </div>
+                <div className="text-right space-y-0.5 font-code text-sm">
+                  <p>Total {formatCurrency(balance.total, invoice.currency)}</p>
+                  {balance.credited > 0 && <p>Credited −{formatCurrency(balance.credited, invoice.currency)}</p>}
+                  <p>Paid −{formatCurrency(balance.paid, invoice.currency)}</p>
+                  <p className="font-semibold">
+                    {balance.balance < 0 ? "Due to agency" : "Outstanding"} {formatCurrency(Math.abs(balance.balance), invoice.currency)}
+                  </p>
+                  <Button asChild variant="outline" size="sm" className="h-8 text-xs mt-1">
+                    <a href={pdfUrl(invoice.id)} download><FileDown className="mr-1.5 h-3.5 w-3.5" /> Pro Forma PDF</a>
+                  </Button>
+                </div>
+              </div>
+
+              {invoicing.payments.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Received</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead className="text-right">Paid</TableHead>
+                      <TableHead className="text-right">In {invoice.currency}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invoicing.payments.map(payment => (
+                      <TableRow key={payment.id} className="text-sm">
+                        <TableCell>{formatDay(payment.receivedAt)}</TableCell>
+                        <TableCell>
+                          {PAYMENT_METHOD_LABELS[payment.method]}
+                          {payment.reference && <span className="text-xs text-muted-foreground block">{payment.reference}</span>}
+                        </TableCell>
+                        <TableCell className="text-right font-code">
+                          {formatCurrency(payment.amount, payment.currency)}
+                          {payment.currency !== invoice.currency && <span className="text-xs text-muted-foreground block">at {payment.exchangeRate}</span>}
+                        </TableCell>
+                        <TableCell className="text-right font-code">{formatCurrency(payment.invoiceCurrencyAmount, invoice.currency)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {invoicing.creditNotes.length > 0 && (
+                <div className="space-y-1">
+                  {invoicing.creditNotes.map(note => (
+                    <div key={note.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                      <span>
+                        Credit note {note.number} · {formatDay(note.issuedAt)} · {formatCurrency(note.total, note.currency)}
+                        {note.notes && <span className="text-xs text-muted-foreground block">{note.notes}</span>}
+                      </span>
+                      <Button asChild variant="outline" size="sm" className="h-8 text-xs">
+                        <a href={pdfUrl(note.id)} download><FileDown className="mr-1.5 h-3.5 w-3.5" /> PDF</a>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {canManage && (
+                <PaymentForm invoice={invoice} onRecord={payment => post(`${invoicesPath}/${encodeURIComponent(invoice.id)}/payments`, payment, "Payment Recorded")} />
+              )}
+              {request.status === "Cancelled" && balance.netTotal > 0 && (
+                <CancellationChargesPanel request={request} invoice={invoice} netTotal={balance.netTotal} onSuggest={canManage ? setCreditSuggestion : undefined} />
+              )}
+              {canManage && request.status === "Cancelled" && balance.netTotal > 0 && (
+                <CreditNoteForm
+                  key={`${balance.netTotal}:${creditSuggestion?.reason ?? ''}`}
+                  invoice={invoice}
+                  maxAmount={balance.netTotal}
+                  suggestion={creditSuggestion}
+                  onIssue={credit => post(`${invoicesPath}/${encodeURIComponent(invoice.id)}/credit-notes`, credit, "Credit Note Issued")}
+                />
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview A "History" button that opens the status timeline of one quotation request:
+ * every transition with who made it, when, the move itself, the quote version and any note.
+ * Used on both the admin and the agent quotation request pages.
+ *
+ * @bangla একটি "History" বোতাম যা একটি উদ্ধৃতি অনুরোধের স্ট্যাটাস টাইমলাইন খোলে: প্রতিটি
+ * ট্রানজিশন, কে করেছে, কখন, পরিবর্তনটি নিজে, উদ্ধৃতির সংস্করণ এবং যেকোনো নোট সহ।
+ * অ্যাডমিন এবং এজেন্ট উভয় উদ্ধৃতি অনুরোধ পৃষ্ঠায় ব্যবহৃত হয়।
+ */
+"use client";
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { History, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { apiGet } from '@/lib/api-client';
+import type { QuotationStatusChange } from '@/types/quotation';
+
+interface QuotationStatusHistoryProps {
+  requestId: string;
+}
+
+export function QuotationStatusHistory({ requestId }: QuotationStatusHistoryProps) {
+  const [open, setOpen] = React.useState(false);
+  const [changes, setChanges] = React.useState<QuotationStatusChange[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const loadHistory = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setChanges(await apiGet<QuotationStatusChange[]>(`/api/quotation-requests/${encodeURIComponent(requestId)}/transitions`));
+    } catch (e) {
+      console.error(`Error loading status history of ${requestId}:`, e);
+      setError("Could not load the status history.");
+    }
+    setIsLoading(false);
+  }, [requestId]);
+
+  // Reload on every open so the timeline includes moves made since it was last shown.
+  React.useEffect(() => {
+    if (open) loadHistory();
+  }, [open, loadHistory]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Status History">
+          <History className="h-3.5 w-3.5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Status History</DialogTitle>
+          <DialogDescription>Quotation request {requestId}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : error ? (
+          <p className="text-sm text-destructive py-4">{error}</p>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No status changes recorded yet.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <ol className="relative border-l border-muted-foreground/30 ml-2 space-y-4 py-1">
+              {changes.map(change => (
+                <li key={change.id} className="ml-4">
+                  <span className="absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                  <p className="text-xs text-muted-foreground">
+                    {format(parseISO(change.createdAt), 'dd MMM yyyy, HH:mm')} · {change.changedByName || change.changedByRole}
+                    {' '}<span className="capitalize">({change.changedByRole})</span>
+                  </p>
+                  <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+                    {change.fromStatus ? (
+                      <>
+                        <Badge variant="outline" className="text-xs">{change.fromStatus}</Badge>
+                        <span>→</span>
+                      </>
+                    ) : null}
+                    <Badge variant="secondary" className="text-xs">{change.toStatus}</Badge>
+                    {change.version > 0 && <span className="text-muted-foreground">v{change.version.toFixed(1)}</span>}
+                  </div>
+                  {change.note && <p className="mt-1 text-sm whitespace-pre-wrap">{change.note}</p>}
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import * as React from 'react';
+import { Loader2 } from 'lucide-react';
+import { useRequireRole } from '@/hooks/useRequireRole';
+import type { UserRole } from '@/lib/access-control';
+
+interface RoleGuardProps {
+  roles: readonly UserRole[];
+  children: React.ReactNode;
+}
+
+/** Renders `children` only once the signed-in user has one of `roles`; see `useRequireRole`. */
+export function RoleGuard({ roles, children }: RoleGuardProps) {
+  const { isAuthorized } = useRequireRole(roles);
+
+  if (!isAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -1,18 +1,20 @@
 
 /**
  * @fileoverview This custom React hook manages agency and agent data for the application.
- * It loads information from localStorage, seeds default demo data if none exists,
- * and provides functions to retrieve, add, update, and delete agency and agent items.
+ * It loads information from the `/api/agencies` and `/api/agents` routes, seeds default demo data if none exists
+ * (admins only; agents just see their own agency's data), and provides functions to retrieve, add, update, and delete agency and agent items.
  */
 import * as React from 'react';
+import { useSession } from 'next-auth/react';
 import type { Agency, AgentProfile, AgentAddress } from '@/types/agent';
 import { generateGUID } from '@/lib/utils';
+import { apiGet, apiPut } from '@/lib/api-client';
 import { useCountries, DEFAULT_THAILAND_ID, DEFAULT_MALAYSIA_ID, DEFAULT_BANGLADESH_ID } from './useCountries';
 import { useToast } from './use-toast';
 import type { CurrencyCode } from '@/types/itinerary';
 
-const AGENCIES_STORAGE_KEY = 'itineraryAceAgencies';
-const AGENTS_STORAGE_KEY = 'itineraryAceAgents';
+const AGENCIES_API_PATH = '/api/agencies';
+const AGENTS_API_PATH = '/api/agents';
 
 // --- Default Demo Data ---
 const DEFAULT_AGENCIES_DATA_SEED: Omit<Agency, 'id'>[] = [
@@ -47,7 +49,8 @@ export const AGENT_ID_JOHN_DOE_GTE = `agent_fixed_john_doe`;
 export const AGENT_ID_ALICE_SMITH_GTE = `agent_fixed_alice_smith`;
 export const AGENT_ID_BOB_JOHNSON_LAI = `agent_fixed_bob_johnson`;
 export const AGENT_ID_FATIMA_AHMED_BV = `agent_fixed_fatima_ahmed`;
-const PLACEHOLDER_DEFAULT_USER_AGENT_ID = "agent_default_user";
+// Profile of the demo sign-in account agent@example.com; prisma/seed.ts links it to that user.
+const DEMO_USER_AGENT_ID = "agent_default_user";
 
 
 const DEFAULT_AGENTS_DATA_SEED: Omit<AgentProfile, 'id' | 'agencyId'>[] = [
@@ -84,7 +87,7 @@ const DEFAULT_AGENTS_DATA_SEED: Omit<AgentProfile, 'id' | 'agencyId'>[] = [
     yearsOfExperience: 8,
     bio: "Discover the rich history and vibrant culture of Bangladesh with expertly crafted tours."
   },
-  { // Placeholder default user for /agent/profile if no specific user is loaded
+  { // Demo agent signing in as agent@example.com
     fullName: "Default Agent User",
     email: "agent@example.com", // Matches login credentials
     phoneNumber: "+1 000 000 0000",
@@ -112,7 +115,7 @@ const assignFixedIdsAndMapAgents = (agencySeedData: Omit<Agency, 'id'>[], agentS
     else if (agent.fullName.includes("Alice Smith (GTE)")) { agencyIdToLink = AGENCY_ID_GLOBAL_TRAVEL; agentId = AGENT_ID_ALICE_SMITH_GTE; }
     else if (agent.fullName.includes("Bob Johnson (LAI)")) { agencyIdToLink = AGENCY_ID_LOCAL_ADVENTURES; agentId = AGENT_ID_BOB_JOHNSON_LAI; }
     else if (agent.fullName.includes("Fatima Ahmed (BV)")) { agencyIdToLink = AGENCY_ID_BENGAL_VOYAGER; agentId = AGENT_ID_FATIMA_AHMED_BV; }
-    else if (agent.fullName === "Default Agent User") { agencyIdToLink = finalAgencies[0]?.id; agentId = PLACEHOLDER_DEFAULT_USER_AGENT_ID; }
+    else if (agent.fullName === "Default Agent User") { agencyIdToLink = finalAgencies[0]?.id; agentId = DEMO_USER_AGENT_ID; }
 
     return { ...agent, id: agentId, agencyId: agencyIdToLink! };
   });
@@ -120,29 +123,21 @@ const assignFixedIdsAndMapAgents = (agencySeedData: Omit<Agency, 'id'>[], agentS
   return { agencies: finalAgencies, agents: finalAgents };
 };
 
-// --- Helper functions for localStorage ---
-const loadDataFromStorage = <T>(key: string): T[] | null => {
-  try {
-    const storedData = localStorage.getItem(key);
-    if (storedData) {
-      return JSON.parse(storedData) as T[];
-    }
-  } catch (e) {
-    console.warn(`Error reading ${key} from localStorage:`, e);
-    localStorage.removeItem(key); // Clear corrupted data
-  }
-  return null;
+// --- Helper functions for the agencies/agents API ---
+const loadDataFromApi = async <T>(path: string): Promise<T[] | null> => {
+  const storedData = await apiGet<T[]>(path);
+  return storedData.length > 0 ? storedData : null;
 };
 
-const saveDataToStorage = <T extends { name?: string }>(key: string, dataToSave: T[]): void => {
+const saveDataToApi = async <T extends { name?: string }>(path: string, dataToSave: T[]): Promise<void> => {
   try {
     // Sort by name if available, otherwise keep current order (might be an issue if IDs are expected sorted)
     if (dataToSave.length > 0 && typeof dataToSave[0].name === 'string') {
       dataToSave.sort((a, b) => (a.name as string).localeCompare(b.name as string));
     }
-    localStorage.setItem(key, JSON.stringify(dataToSave));
+    await apiPut<T[]>(path, dataToSave);
   } catch (e) {
-    console.error(`Error saving ${key} to localStorage:`, e);
+    console.error(`Error saving ${path}:`, e);
     // Optionally notify user
   }
 };
@@ -155,24 +150,37 @@ export function useAgents() {
   const [isLoading, setIsLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
   const { toast } = useToast();
+  const { data: session, status: sessionStatus } = useSession();
+  const isAdmin = session?.user?.role === 'admin';
 
   const fetchAndSeedData = React.useCallback(async () => {
-    if (isLoadingCountries) return;
+    if (isLoadingCountries || sessionStatus === 'loading') return;
     setIsLoading(true);
     setError(null);
 
     try {
+      if (!isAdmin) {
+        // Agents only receive their own agency from the API and may not write the lists.
+        setAgenciesState(await apiGet<Agency[]>(AGENCIES_API_PATH));
+        setAgentsState(await apiGet<AgentProfile[]>(AGENTS_API_PATH));
+        setIsLoading(false);
+        return;
+      }
+
       const { agencies: seededAgencies, agents: seededAgents } = assignFixedIdsAndMapAgents(DEFAULT_AGENCIES_DATA_SEED, DEFAULT_AGENTS_DATA_SEED);
       
-      let agenciesToSet = loadDataFromStorage<Agency>(AGENCIES_STORAGE_KEY) || [...seededAgencies];
+      const storedAgencies = await loadDataFromApi<Agency>(AGENCIES_API_PATH);
+      let agenciesToSet = storedAgencies ? [...storedAgencies] : [...seededAgencies];
       seededAgencies.forEach(sa => { if (!agenciesToSet.find(a => a.id === sa.id)) agenciesToSet.push(sa); });
       agenciesToSet.forEach(agency => { if (!agency.preferredCurrency) agency.preferredCurrency = "USD" as CurrencyCode});
-      saveDataToStorage<Agency>(AGENCIES_STORAGE_KEY, agenciesToSet);
+      if (agenciesToSet.length !== storedAgencies?.length) await saveDataToApi<Agency>(AGENCIES_API_PATH, agenciesToSet);
       setAgenciesState(agenciesToSet);
 
-      let agentsToSet = loadDataFromStorage<AgentProfile>(AGENTS_STORAGE_KEY) || [...seededAgents];
+      // Agents reference agencies by foreign key, so they are only saved once the agencies exist.
+      const storedAgents = await loadDataFromApi<AgentProfile>(AGENTS_API_PATH);
+      let agentsToSet = storedAgents ? [...storedAgents] : [...seededAgents];
       seededAgents.forEach(sa => { if (!agentsToSet.find(a => a.id === sa.id)) agentsToSet.push(sa); });
-      saveDataToStorage<AgentProfile>(AGENTS_STORAGE_KEY, agentsToSet);
+      if (agentsToSet.length !== storedAgents?.length) await saveDataToApi<AgentProfile>(AGENTS_API_PATH, agentsToSet);
       setAgentsState(agentsToSet);
 
     } catch (e: any) {
@@ -180,13 +188,12 @@ export function useAgents() {
       setError("Failed to load agent/agency data.");
       const { agencies: defaultAgencies, agents: defaultAgents } = assignFixedIdsAndMapAgents(DEFAULT_AGENCIES_DATA_SEED, DEFAULT_AGENTS_DATA_SEED);
       defaultAgencies.forEach(agency => { if (!agency.preferredCurrency) agency.preferredCurrency = "USD" as CurrencyCode});
-      saveDataToStorage<Agency>(AGENCIES_STORAGE_KEY, defaultAgencies);
+      // Show the demo data without writing it back, so an unreachable API can't wipe stored agencies.
       setAgenciesState(defaultAgencies);
-      saveDataToStorage<AgentProfile>(AGENTS_STORAGE_KEY, defaultAgents);
       setAgentsState(defaultAgents);
     }
     setIsLoading(false);
-  }, [isLoadingCountries, countries]);
+  }, [isLoadingCountries, countries, sessionStatus, isAdmin]);
 
   React.useEffect(() => {
     fetchAndSeedData();
@@ -200,7 +207,7 @@ export function useAgents() {
     const newAgency: Agency = { ...agencyData, id: generateGUID(), preferredCurrency: agencyData.preferredCurrency || ("USD" as CurrencyCode) };
     setAgenciesState(prev => {
         const updated = [...prev, newAgency];
-        saveDataToStorage<Agency>(AGENCIES_STORAGE_KEY, updated);
+        saveDataToApi<Agency>(AGENCIES_API_PATH, updated);
         return updated;
     });
     toast({ title: "Agency Added", description: `Agency "${newAgency.name}" created.` });
@@ -210,7 +217,7 @@ export function useAgents() {
     const finalAgencyData = { ...updatedAgencyData, preferredCurrency: updatedAgencyData.preferredCurrency || ("USD" as CurrencyCode) };
     setAgenciesState(prev => {
         const updated = prev.map(agency => agency.id === finalAgencyData.id ? finalAgencyData : agency);
-        saveDataToStorage<Agency>(AGENCIES_STORAGE_KEY, updated);
+        saveDataToApi<Agency>(AGENCIES_API_PATH, updated);
         return updated;
     });
     toast({ title: "Agency Updated", description: `Agency "${finalAgencyData.name}" updated.` });
@@ -220,12 +227,12 @@ export function useAgents() {
     const agencyToDelete = agencies.find(a => a.id === agencyId);
     setAgenciesState(prev => {
         const updated = prev.filter(agency => agency.id !== agencyId);
-        saveDataToStorage<Agency>(AGENCIES_STORAGE_KEY, updated);
+        saveDataToApi<Agency>(AGENCIES_API_PATH, updated);
         return updated;
     });
     setAgentsState(prev => {
         const updated = prev.filter(agent => agent.agencyId !== agencyId);
-        saveDataToStorage<AgentProfile>(AGENTS_STORAGE_KEY, updated);
+        saveDataToApi<AgentProfile>(AGENTS_API_PATH, updated);
         return updated;
     });
     if (agencyToDelete) {
@@ -241,18 +248,17 @@ export function useAgents() {
     const newAgent: AgentProfile = { ...agentData, id: generateGUID() };
     setAgentsState(prev => {
         const updated = [...prev, newAgent];
-        saveDataToStorage<AgentProfile>(AGENTS_STORAGE_KEY, updated);
+        saveDataToApi<AgentProfile>(AGENTS_API_PATH, updated);
         return updated;
     });
     toast({ title: "User Added", description: `User "${newAgent.fullName}" added.` });
   }, [toast]);
 
   const updateAgent = React.useCallback((updatedAgentData: AgentProfile) => {
-    setAgentsState(prev => {
-        const updated = prev.map(agent => agent.id === updatedAgentData.id ? updatedAgentData : agent);
-        saveDataToStorage<AgentProfile>(AGENTS_STORAGE_KEY, updated);
-        return updated;
-    });
+    setAgentsState(prev => prev.map(agent => agent.id === updatedAgentData.id ? updatedAgentData : agent));
+    // Saved on its own so agents, who may not replace the whole list, can update their profile.
+    apiPut<AgentProfile>(`${AGENTS_API_PATH}/${encodeURIComponent(updatedAgentData.id)}`, updatedAgentData)
+      .catch(e => console.error(`Error saving agent ${updatedAgentData.id}:`, e));
     toast({ title: "User Updated", description: `User "${updatedAgentData.fullName}" updated.` });
   }, [toast]);
 
@@ -260,7 +266,7 @@ export function useAgents() {
     const agentToDelete = agents.find(a => a.id === agentId);
     setAgentsState(prev => {
         const updated = prev.filter(agent => agent.id !== agentId);
-        saveDataToStorage<AgentProfile>(AGENTS_STORAGE_KEY, updated);
+        saveDataToApi<AgentProfile>(AGENTS_API_PATH, updated);
         return updated;
     });
     if (agentToDelete) {
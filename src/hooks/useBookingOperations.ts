@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Custom React hook for the booking operations dashboard. Loads the upcoming trips
+ * with items still to book from `/api/booking-operations` and applies bulk status changes, which
+ * answer with the refreshed list.
+ *
+ * @bangla বুকিং অপারেশনস ড্যাশবোর্ডের জন্য কাস্টম রিঅ্যাক্ট হুক। `/api/booking-operations` থেকে এখনও বুক করার
+ * আইটেম থাকা আসন্ন ভ্রমণগুলি লোড করে এবং একসাথে স্ট্যাটাস পরিবর্তন প্রয়োগ করে, যা হালনাগাদ তালিকা ফেরত দেয়।
+ */
+import * as React from 'react';
+import type { BookingStatus } from '@/types/itinerary';
+import type { BookingOperationsTrip } from '@/types/booking';
+import { apiGet, apiPost } from '@/lib/api-client';
+
+const BOOKING_OPERATIONS_API_PATH = '/api/booking-operations';
+
+export type BookingItemRef = { itineraryId: string; itemId: string };
+
+export function useBookingOperations() {
+  const [trips, setTrips] = React.useState<BookingOperationsTrip[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  const reload = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setTrips(await apiGet<BookingOperationsTrip[]>(BOOKING_OPERATIONS_API_PATH));
+    } catch (error) {
+      console.error("Failed to load booking operations:", error);
+    }
+    setIsLoading(false);
+  }, []);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const updateStatuses = React.useCallback(async (items: BookingItemRef[], status: BookingStatus) => {
+    const result = await apiPost<{ updated: number; skipped: number; trips: BookingOperationsTrip[] }>(
+      BOOKING_OPERATIONS_API_PATH, { items, status },
+    );
+    setTrips(result.trips);
+    return { updated: result.updated, skipped: result.skipped };
+  }, []);
+
+  return { trips, isLoading, reload, updateStatuses };
+}
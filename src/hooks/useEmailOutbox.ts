@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Custom React hook for the email outbox page. Loads the newest messages from
+ * `/api/email-outbox`, optionally of one status, and retries a message or runs a delivery of
+ * everything that is due.
+ *
+ * @bangla ইমেল আউটবক্স পৃষ্ঠার জন্য কাস্টম রিঅ্যাক্ট হুক। `/api/email-outbox` থেকে সবচেয়ে নতুন বার্তাগুলি লোড করে,
+ * ঐচ্ছিকভাবে একটি স্ট্যাটাসের, এবং একটি বার্তা আবার চেষ্টা করে বা সময় হওয়া সবকিছুর একটি ডেলিভারি চালায়।
+ */
+import * as React from 'react';
+import type { EmailStatus, OutboxEmail } from '@/types/email';
+import { apiGet, apiPost } from '@/lib/api-client';
+
+const EMAIL_OUTBOX_API_PATH = '/api/email-outbox';
+
+export function useEmailOutbox(status?: EmailStatus) {
+  const [emails, setEmails] = React.useState<OutboxEmail[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  const reload = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEmails(await apiGet<OutboxEmail[]>(status ? `${EMAIL_OUTBOX_API_PATH}?status=${status}` : EMAIL_OUTBOX_API_PATH));
+    } catch (error) {
+      console.error("Failed to load the email outbox:", error);
+    }
+    setIsLoading(false);
+  }, [status]);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const retry = React.useCallback(async (emailId: string) => {
+    const updated = await apiPost<OutboxEmail>(`${EMAIL_OUTBOX_API_PATH}/${encodeURIComponent(emailId)}/retry`, {});
+    setEmails(prev => prev.map(email => (email.id === emailId ? updated : email)));
+    return updated;
+  }, []);
+
+  const deliverDue = React.useCallback(async () => {
+    const report = await apiPost<{ sent: number; retrying: number; failed: number }>(`${EMAIL_OUTBOX_API_PATH}/deliver`, {});
+    await reload();
+    return report;
+  }, [reload]);
+
+  return { emails, isLoading, reload, retry, deliverDue };
+}
@@ -1,31 +1,30 @@
 
 /**
  * @fileoverview This custom React hook manages exchange rates for currency conversion.
- * It loads rates from localStorage, attempts to fetch fresh rates from ExchangeRate-API
+ * It loads rates from the `/api/exchange-rates` route, attempts to fetch fresh rates from ExchangeRate-API
  * (once daily or on manual trigger), saves API-fetched rates, falls back to last saved
  * rates or default USD-centric rates if API fails, and provides functions to add, update,
- * delete, and retrieve exchange rates. It includes logic for applying a configurable markup
- * (global or specific to a currency pair) when converting.
+ * delete, and retrieve exchange rates. Conversions, including the configurable markup (global or
+ * specific to a currency pair), follow `getConversionRate` in `@/lib/currency-conversion`.
  *
  * @bangla এই কাস্টম রিঅ্যাক্ট হুক মুদ্রা রূপান্তরের জন্য বিনিময় হার পরিচালনা করে।
- * এটি localStorage থেকে হার লোড করে, ExchangeRate-API থেকে নতুন হার আনার চেষ্টা করে
+ * এটি `/api/exchange-rates` রুট থেকে হার লোড করে, ExchangeRate-API থেকে নতুন হার আনার চেষ্টা করে
  * (தினமும் একবার বা ম্যানুয়াল ট্রিগারে), API-থেকে আনা হারগুলি সংরক্ষণ করে, API ব্যর্থ হলে
  * সর্বশেষ সংরক্ষিত হার বা ডিফল্ট USD-কেন্দ্রিক হারে ফিরে যায়, এবং বিনিময় হার যোগ, আপডেট,
- * মুছে ফেলা এবং পুনরুদ্ধার করার জন্য ফাংশন সরবরাহ করে। এটি বিভিন্ন মুদ্রার মধ্যে রূপান্তর
- * করার সময় একটি কনফিগারযোগ্য মার্কআপ (গ্লোবাল বা নির্দিষ্ট মুদ্রা জোড়ার জন্য) প্রয়োগ করার
- * যুক্তি অন্তর্ভুক্ত করে।
+ * মুছে ফেলা এবং পুনরুদ্ধার করার জন্য ফাংশন সরবরাহ করে। কনফিগারযোগ্য মার্কআপ (গ্লোবাল বা নির্দিষ্ট
+ * মুদ্রা জোড়ার জন্য) সহ রূপান্তরগুলি `@/lib/currency-conversion`-এর `getConversionRate` অনুসরণ করে।
  */
 import * as React from 'react';
-import type { ExchangeRate, CurrencyCode, SpecificMarkupRate } from '@/types/itinerary';
+import type { ExchangeRate, CurrencyCode, SpecificMarkupRate, ConversionRateDetails } from '@/types/itinerary';
 import { CURRENCIES as SYSTEM_DEFAULT_CURRENCIES, REFERENCE_CURRENCY } from '@/types/itinerary';
 import { generateGUID } from '@/lib/utils';
+import { apiGet, apiPut } from '@/lib/api-client';
+import { getConversionRate } from '@/lib/currency-conversion';
+import type { ExchangeRateState } from '@/lib/db/exchange-rates';
 import { useToast } from './use-toast';
 import { useCustomCurrencies } from './useCustomCurrencies';
 
-const EXCHANGE_RATES_STORAGE_KEY = 'itineraryAceExchangeRates';
-const GLOBAL_MARKUP_STORAGE_KEY = 'itineraryAceGlobalExchangeMarkup';
-const SPECIFIC_MARKUP_RATES_STORAGE_KEY = 'itineraryAceSpecificMarkupRates';
-const API_RATES_LAST_FETCHED_KEY = 'itineraryAceApiRatesLastFetched';
+const EXCHANGE_RATES_API_PATH = '/api/exchange-rates';
 const AUTO_REFRESH_INTERVAL_HOURS = 23; // Fetch new rates if last fetch was more than 23 hours ago
 
 const DEFAULT_RATES_DATA: Omit<ExchangeRate, 'id' | 'updatedAt' | 'source'>[] = [
@@ -37,35 +36,14 @@ const DEFAULT_RATES_DATA: Omit<ExchangeRate, 'id' | 'updatedAt' | 'source'>[] =
   { fromCurrency: "MYR", toCurrency: "BDT", rate: 25.75 }, // MYR to BDT
 ];
 
+export type { ConversionRateDetails };
 
-export interface ConversionRateDetails {
-  baseRate: number;
-  finalRate: number;
-  markupApplied: number; // The percentage actually applied
-  markupType: 'global' | 'specific' | 'none';
-}
-
-// --- Helper functions for localStorage ---
-const loadDataFromStorage = <T>(key: string, defaultValue: T): T => {
-  try {
-    const storedData = localStorage.getItem(key);
-    if (storedData) {
-      if (key === GLOBAL_MARKUP_STORAGE_KEY) return parseFloat(storedData) as T;
-      return JSON.parse(storedData) as T;
-    }
-  } catch (e) {
-    console.warn(`Error reading ${key} from localStorage, using default. Error:`, e);
-    localStorage.removeItem(key); // Clear corrupted data
-  }
-  return defaultValue;
-};
-
-const saveDataToStorage = <T>(key: string, dataToSave: T): void => {
+// --- Helper functions for the exchange rates API ---
+const saveExchangeRateStateToApi = async (update: Partial<ExchangeRateState>): Promise<void> => {
   try {
-    let dataString = typeof dataToSave === 'string' ? dataToSave : JSON.stringify(dataToSave);
-    localStorage.setItem(key, dataString);
+    await apiPut<ExchangeRateState>(EXCHANGE_RATES_API_PATH, update);
   } catch (e) {
-    console.error(`Error saving ${key} to localStorage:`, e);
+    console.error(`Error saving ${Object.keys(update).join(', ')} to the API:`, e);
     // Optionally notify user
   }
 };
@@ -123,13 +101,13 @@ export function useExchangeRates() {
 
   const internalSaveRates = React.useCallback((rates: ExchangeRate[]) => {
     rates.sort((a,b) => `${a.fromCurrency}-${a.toCurrency}`.localeCompare(`${b.fromCurrency}-${b.toCurrency}`));
-    saveDataToStorage<ExchangeRate[]>(EXCHANGE_RATES_STORAGE_KEY, rates);
+    saveExchangeRateStateToApi({ rates });
     setExchangeRates(rates);
   }, []);
 
   const internalSaveSpecificMarkups = React.useCallback((markups: SpecificMarkupRate[]) => {
     markups.sort((a,b) => `${a.fromCurrency}-${a.toCurrency}`.localeCompare(`${b.fromCurrency}-${b.toCurrency}`));
-    saveDataToStorage<SpecificMarkupRate[]>(SPECIFIC_MARKUP_RATES_STORAGE_KEY, markups);
+    saveExchangeRateStateToApi({ specificMarkupRates: markups });
     setSpecificMarkupRates(markups);
   }, []);
 
@@ -139,8 +117,9 @@ export function useExchangeRates() {
     const forceApiFetch = options?.forceApiFetch ?? false;
 
     try {
-      let localRates: ExchangeRate[] = loadDataFromStorage<ExchangeRate[]>(EXCHANGE_RATES_STORAGE_KEY, []);
-      let localApiTimestampString: string | null = loadDataFromStorage<string | null>(API_RATES_LAST_FETCHED_KEY, null);
+      const storedState = await apiGet<ExchangeRateState>(EXCHANGE_RATES_API_PATH);
+      let localRates: ExchangeRate[] = storedState.rates;
+      let localApiTimestampString: string | null = storedState.apiRatesLastFetched;
       
       let ratesToSet = [...localRates];
       let finalTimestampForState = localApiTimestampString;
@@ -160,7 +139,7 @@ export function useExchangeRates() {
             }
           } catch (dateParseError) {
             shouldAttemptApiFetch = true;
-            saveDataToStorage<string | null>(API_RATES_LAST_FETCHED_KEY, null); // Clear invalid timestamp
+            saveExchangeRateStateToApi({ apiRatesLastFetched: null }); // Clear invalid timestamp
           }
         }
       }
@@ -190,7 +169,7 @@ export function useExchangeRates() {
           });
           ratesToSet = Array.from(updatedRatesMap.values());
           finalTimestampForState = apiTimestampFromFunc;
-          saveDataToStorage<string | null>(API_RATES_LAST_FETCHED_KEY, apiTimestampFromFunc);
+          saveExchangeRateStateToApi({ apiRatesLastFetched: apiTimestampFromFunc });
           if (forceApiFetch) toast({ title: "Rates Updated", description: "Successfully fetched latest exchange rates from API.", variant: "default" });
         } else {
           if (forceApiFetch) {
@@ -204,7 +183,7 @@ export function useExchangeRates() {
           ratesToSet.push({ ...defaultRate, id: generateGUID(), updatedAt: new Date().toISOString(), source: 'manual' });
         });
         finalTimestampForState = null;
-        if (loadDataFromStorage<string | null>(API_RATES_LAST_FETCHED_KEY, null)) saveDataToStorage<string | null>(API_RATES_LAST_FETCHED_KEY, null);
+        if (localApiTimestampString) saveExchangeRateStateToApi({ apiRatesLastFetched: null });
         
         if (shouldAttemptApiFetch && !fetchedFromApiSuccessfully) {
           toast({ title: "Using Default Rates", description: "API fetch failed and no saved rates found. Using default rates.", variant: "default" });
@@ -213,16 +192,23 @@ export function useExchangeRates() {
         }
       }
 
-      internalSaveRates(ratesToSet.map(r => ({ ...r, source: r.source || 'manual' })));
+      const byPair = (a: ExchangeRate, b: ExchangeRate) => `${a.fromCurrency}-${a.toCurrency}`.localeCompare(`${b.fromCurrency}-${b.toCurrency}`);
+      const normalizedRates = ratesToSet.map(r => ({ ...r, source: r.source || 'manual' as const })).sort(byPair);
+      if (JSON.stringify(normalizedRates) !== JSON.stringify([...localRates].sort(byPair))) {
+        internalSaveRates(normalizedRates);
+      } else {
+        setExchangeRates(normalizedRates);
+      }
       setLastApiFetchTimestampState(finalTimestampForState);
 
-      setGlobalMarkupPercentageState(loadDataFromStorage<number>(GLOBAL_MARKUP_STORAGE_KEY, 0));
-      setSpecificMarkupRates(loadDataFromStorage<SpecificMarkupRate[]>(SPECIFIC_MARKUP_RATES_STORAGE_KEY, []));
+      setGlobalMarkupPercentageState(storedState.globalMarkupPercentage);
+      setSpecificMarkupRates(storedState.specificMarkupRates);
 
     } catch (criticalError: any) {
       console.error("Critical error in fetchAndSeedData:", criticalError);
       setError("An unexpected critical error occurred while loading rate data.");
-      internalSaveRates(DEFAULT_RATES_DATA.map(dr => ({...dr, id: generateGUID(), updatedAt: new Date().toISOString(), source: 'manual'})));
+      // Fall back to defaults in memory only; saving them here could overwrite stored rates.
+      setExchangeRates(DEFAULT_RATES_DATA.map(dr => ({...dr, id: generateGUID(), updatedAt: new Date().toISOString(), source: 'manual' as const})));
       setLastApiFetchTimestampState(null);
       setGlobalMarkupPercentageState(0);
       setSpecificMarkupRates([]);
@@ -241,7 +227,7 @@ export function useExchangeRates() {
     if (isNaN(newMarkup) || newMarkup < 0) {
       toast({ title: "Invalid Markup", description: "Global markup must be non-negative.", variant: "destructive"}); return;
     }
-    saveDataToStorage<number>(GLOBAL_MARKUP_STORAGE_KEY, newMarkup);
+    saveExchangeRateStateToApi({ globalMarkupPercentage: newMarkup });
     setGlobalMarkupPercentageState(newMarkup);
     toast({ title: "Success", description: `Global conversion markup set to ${newMarkup}%.` });
   }, [toast]);
@@ -288,48 +274,11 @@ export function useExchangeRates() {
     if (markupToDelete) toast({ title: "Success", description: `Specific markup for ${markupToDelete.fromCurrency}-${markupToDelete.toCurrency} deleted.` });
   }, [specificMarkupRates, internalSaveSpecificMarkups, toast]);
 
-  const findBaseRate = React.useCallback((from: CurrencyCode, to: CurrencyCode): number | null => {
-    if (from === to) return 1;
-    const directRate = exchangeRates.find(r => r.fromCurrency === from && r.toCurrency === to);
-    if (directRate) return directRate.rate;
-    const inverseRate = exchangeRates.find(r => r.fromCurrency === to && r.toCurrency === from);
-    if (inverseRate && inverseRate.rate !== 0) return 1 / inverseRate.rate;
-    return null;
-  }, [exchangeRates]);
-
-  const getRate = React.useCallback((fromCurrency: CurrencyCode, toCurrency: CurrencyCode): ConversionRateDetails | null => {
-    if (isLoadingCustomCurrencies) {}
-    if (!allManagedCurrencyCodes.includes(fromCurrency as any) || !allManagedCurrencyCodes.includes(toCurrency as any)) {}
-
-    if (fromCurrency === toCurrency) return { baseRate: 1, finalRate: 1, markupApplied: 0, markupType: 'none' };
-
-    let rateFromToRef: number | null = fromCurrency === REFERENCE_CURRENCY ? 1 : findBaseRate(fromCurrency, REFERENCE_CURRENCY);
-    if (rateFromToRef === null) { return null; }
-
-    let rateRefToTo: number | null = toCurrency === REFERENCE_CURRENCY ? 1 : findBaseRate(REFERENCE_CURRENCY, toCurrency);
-    if (rateRefToTo === null) { return null; }
-
-    const baseCombinedRate = Math.max(0.000001, rateFromToRef * rateRefToTo);
-    let finalCombinedRate = baseCombinedRate;
-    let actualMarkupApplied = 0;
-    let markupType: ConversionRateDetails['markupType'] = 'none';
-
-    if (fromCurrency !== toCurrency) {
-      const specificMarkup = specificMarkupRates.find(sm => sm.fromCurrency === fromCurrency && sm.toCurrency === toCurrency);
-      if (specificMarkup && specificMarkup.markupPercentage >= 0) {
-        finalCombinedRate = baseCombinedRate * (1 + (specificMarkup.markupPercentage / 100));
-        actualMarkupApplied = specificMarkup.markupPercentage;
-        markupType = 'specific';
-      } else if (globalMarkupPercentage > 0) {
-        finalCombinedRate = baseCombinedRate * (1 + (globalMarkupPercentage / 100));
-        actualMarkupApplied = globalMarkupPercentage;
-        markupType = 'global';
-      }
-    }
-    finalCombinedRate = Math.max(0.000001, finalCombinedRate);
-
-    return { baseRate: baseCombinedRate, finalRate: finalCombinedRate, markupApplied: actualMarkupApplied, markupType };
-  }, [findBaseRate, globalMarkupPercentage, specificMarkupRates, allManagedCurrencyCodes, isLoadingCustomCurrencies]);
+  const getRate = React.useCallback(
+    (fromCurrency: CurrencyCode, toCurrency: CurrencyCode): ConversionRateDetails | null =>
+      getConversionRate({ rates: exchangeRates, specificMarkupRates, globalMarkupPercentage }, fromCurrency, toCurrency),
+    [exchangeRates, globalMarkupPercentage, specificMarkupRates],
+  );
 
   return {
     exchangeRates,
@@ -1,22 +1,23 @@
 
 /**
  * @fileoverview This custom React hook manages master hotel definitions.
- * It loads hotel data from localStorage, seeds default/demo hotel definitions if none exist,
+ * It loads hotel data from the `/api/hotel-definitions` route, seeds default/demo hotel definitions if none exist,
  * and provides functions to retrieve hotel definitions, potentially filtered by location.
  * This data is used to populate hotel selection options in the itinerary planner and pricing forms.
  *
  * @bangla এই কাস্টম রিঅ্যাক্ট হুক মাস্টার হোটেল সংজ্ঞা পরিচালনা করে।
- * এটি localStorage থেকে হোটেল ডেটা লোড করে, কোনোটি না থাকলে ডিফল্ট/ডেমো হোটেল সংজ্ঞা বীজ করে
+ * এটি `/api/hotel-definitions` রুট থেকে হোটেল ডেটা লোড করে, কোনোটি না থাকলে ডিফল্ট/ডেমো হোটেল সংজ্ঞা বীজ করে
  * এবং হোটেলের সংজ্ঞা পুনরুদ্ধার করার জন্য ফাংশন সরবরাহ করে, যা অবস্থান অনুসারে ফিল্টার করা যেতে পারে।
  * এই ডেটা ভ্রমণপথ পরিকল্পনাকারী এবং মূল্য নির্ধারণ ফর্মগুলিতে হোটেল নির্বাচন বিকল্পগুলি পূরণ করতে ব্যবহৃত হয়।
  */
 import * as React from 'react';
 import type { HotelDefinition, CountryItem, HotelRoomTypeDefinition, RoomTypeSeasonalPrice } from '@/types/itinerary';
 import { generateGUID } from '@/lib/utils';
+import { apiGet, apiPut } from '@/lib/api-client';
 import { useCountries, DEFAULT_THAILAND_ID, DEFAULT_MALAYSIA_ID, DEFAULT_BANGLADESH_ID } from './useCountries';
 import { addDays, format, getYear, setYear } from 'date-fns';
 
-const HOTEL_DEFINITIONS_STORAGE_KEY = 'itineraryAceHotelDefinitions';
+const HOTEL_DEFINITIONS_API_PATH = '/api/hotel-definitions';
 
 const createGenericSeasonalPrices = (baseRate: number, baseExtraBed: number | undefined, prefix: string): RoomTypeSeasonalPrice[] => {
   const currentActualYear = getYear(new Date());
@@ -127,25 +128,18 @@ const createDemoHotelDefinitions = (countries: CountryItem[]): HotelDefinition[]
   return demoHotels;
 };
 
-// --- Helper functions for localStorage ---
-const loadHotelDefinitionsFromStorage = (): HotelDefinition[] | null => {
-  try {
-    const storedDefinitionsString = localStorage.getItem(HOTEL_DEFINITIONS_STORAGE_KEY);
-    if (storedDefinitionsString) {
-      return JSON.parse(storedDefinitionsString) as HotelDefinition[];
-    }
-  } catch (e) {
-    console.warn("Error reading hotel definitions from localStorage:", e);
-    localStorage.removeItem(HOTEL_DEFINITIONS_STORAGE_KEY); // Clear corrupted data
-  }
-  return null;
+// --- Helper functions for the hotel definitions API ---
+// null = no hotels stored yet (seed demo data); fetch errors are thrown to the caller.
+const loadHotelDefinitionsFromApi = async (): Promise<HotelDefinition[] | null> => {
+  const stored = await apiGet<HotelDefinition[]>(HOTEL_DEFINITIONS_API_PATH);
+  return stored.length > 0 ? stored : null;
 };
 
-const saveHotelDefinitionsToStorage = (definitionsToSave: HotelDefinition[]): void => {
+const saveHotelDefinitionsToApi = async (definitionsToSave: HotelDefinition[]): Promise<void> => {
   try {
-    localStorage.setItem(HOTEL_DEFINITIONS_STORAGE_KEY, JSON.stringify(definitionsToSave));
+    await apiPut<HotelDefinition[]>(HOTEL_DEFINITIONS_API_PATH, definitionsToSave);
   } catch (e) {
-    console.error("Error saving hotel definitions to localStorage:", e);
+    console.error("Error saving hotel definitions to the API:", e);
     // Optionally notify user
   }
 };
@@ -158,51 +152,61 @@ export function useHotelDefinitions() {
 
   React.useEffect(() => {
     if (isLoadingCountries) return;
-
-    let definitionsToSet: HotelDefinition[] = [];
-    const DEMO_HOTELS = createDemoHotelDefinitions(countries);
-
-    try {
-      const storedDefinitions = loadHotelDefinitionsFromStorage();
-      if (storedDefinitions) {
-        const validatedDefinitions = storedDefinitions.filter(
-          h => h.id && h.name && h.countryId && h.province && Array.isArray(h.roomTypes) &&
-               (h.starRating === undefined || h.starRating === null || (typeof h.starRating === 'number' && h.starRating >= 1 && h.starRating <= 5)) &&
-               h.roomTypes.every((rt: any) => rt.id && rt.name && Array.isArray(rt.seasonalPrices) && rt.seasonalPrices.every((sp: any) => sp.id && sp.startDate && sp.endDate && typeof sp.rate === 'number'))
-        );
-        definitionsToSet = validatedDefinitions;
+    let isCancelled = false;
+
+    const loadDefinitions = async () => {
+      let definitionsToSet: HotelDefinition[] = [];
+      const DEMO_HOTELS = createDemoHotelDefinitions(countries);
+
+      try {
+        const storedDefinitions = await loadHotelDefinitionsFromApi();
+        if (storedDefinitions) {
+          const validatedDefinitions = storedDefinitions.filter(
+            h => h.id && h.name && h.countryId && h.province && Array.isArray(h.roomTypes) &&
+                 (h.starRating === undefined || h.starRating === null || (typeof h.starRating === 'number' && h.starRating >= 1 && h.starRating <= 5)) &&
+                 h.roomTypes.every((rt: any) => rt.id && rt.name && Array.isArray(rt.seasonalPrices) && rt.seasonalPrices.every((sp: any) => sp.id && sp.startDate && sp.endDate && typeof sp.rate === 'number'))
+          );
+          definitionsToSet = validatedDefinitions;
         
-        DEMO_HOTELS.forEach(demoHotel => {
-          const existingDemoHotelIndex = definitionsToSet.findIndex(def => def.id === demoHotel.id);
-          if (existingDemoHotelIndex !== -1) {
-             definitionsToSet[existingDemoHotelIndex] = {
-               ...demoHotel,
-               name: definitionsToSet[existingDemoHotelIndex].name, 
-               province: definitionsToSet[existingDemoHotelIndex].province,
-               countryId: definitionsToSet[existingDemoHotelIndex].countryId,
-               starRating: definitionsToSet[existingDemoHotelIndex].starRating,
-             };
-          } else {
-            const existingByName = definitionsToSet.find(def => def.name === demoHotel.name && def.province === demoHotel.province && def.countryId === demoHotel.countryId);
-            if (!existingByName) {
-                definitionsToSet.push(demoHotel); 
-            } else if (existingByName.id !== demoHotel.id && demoHotel.id && demoHotel.id.includes("-demo")) {
-                definitionsToSet = definitionsToSet.filter(d => d.id !== existingByName.id);
-                definitionsToSet.push(demoHotel);
+          DEMO_HOTELS.forEach(demoHotel => {
+            const existingDemoHotelIndex = definitionsToSet.findIndex(def => def.id === demoHotel.id);
+            if (existingDemoHotelIndex !== -1) {
+               definitionsToSet[existingDemoHotelIndex] = {
+                 ...demoHotel,
+                 name: definitionsToSet[existingDemoHotelIndex].name, 
+                 province: definitionsToSet[existingDemoHotelIndex].province,
+                 countryId: definitionsToSet[existingDemoHotelIndex].countryId,
+                 starRating: definitionsToSet[existingDemoHotelIndex].starRating,
+               };
+            } else {
+              const existingByName = definitionsToSet.find(def => def.name === demoHotel.name && def.province === demoHotel.province && def.countryId === demoHotel.countryId);
+              if (!existingByName) {
+                  definitionsToSet.push(demoHotel); 
+              } else if (existingByName.id !== demoHotel.id && demoHotel.id && demoHotel.id.includes("-demo")) {
+                  definitionsToSet = definitionsToSet.filter(d => d.id !== existingByName.id);
+                  definitionsToSet.push(demoHotel);
+              }
             }
-          }
-        });
-      } else {
-        definitionsToSet = DEMO_HOTELS;
+          });
+        } else {
+          definitionsToSet = DEMO_HOTELS;
+        }
+        // Only write back when seeding/merging actually changed something, so every mounted
+        // consumer of this hook doesn't re-save the full list.
+        if (JSON.stringify(definitionsToSet) !== JSON.stringify(storedDefinitions)) {
+          await saveHotelDefinitionsToApi(definitionsToSet);
+        }
+      } catch (error) {
+        console.error("Failed to load or initialize hotel definitions:", error);
+        definitionsToSet = DEMO_HOTELS; // Work from defaults in memory; don't overwrite stored hotels
       }
-      saveHotelDefinitionsToStorage(definitionsToSet);
-    } catch (error) {
-      console.error("Failed to load or initialize hotel definitions:", error);
-      definitionsToSet = DEMO_HOTELS; 
-      saveHotelDefinitionsToStorage(definitionsToSet);
-    }
-    setAllHotelDefinitions(definitionsToSet.sort((a,b) => a.name.localeCompare(b.name)));
-    setIsLoading(false);
+      if (isCancelled) return;
+      setAllHotelDefinitions(definitionsToSet.sort((a,b) => a.name.localeCompare(b.name)));
+      setIsLoading(false);
+    };
+
+    loadDefinitions();
+    return () => { isCancelled = true; };
   }, [isLoadingCountries, countries]);
 
   const getHotelDefinitionsByLocation = React.useCallback(
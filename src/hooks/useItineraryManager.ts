@@ -1,63 +1,124 @@
 
 /**
  * @fileoverview This custom React hook manages the state and core logic for an itinerary.
- * It handles loading existing itineraries from localStorage or creating new ones,
- * updating itinerary data (settings, passenger details, day-to-day items),
- * and saving changes back to localStorage. It also manages the overall page
- * status (e.g., 'loading', 'planner').
+ * It handles loading existing itineraries through the `/api/itineraries` routes or creating
+ * new ones, updating itinerary data (settings, passenger details, day-to-day items),
+ * and saving changes back to the database. Linked quotation requests are read and updated
+ * through `/api/quotation-requests`; their status only moves through the quotation state machine's
+ * transitions endpoint. It also manages the overall page status
+ * (e.g., 'loading', 'planner'). Only the last active itinerary ID is kept in localStorage,
+ * as it is a per-browser preference.
  *
  * @bangla এই কাস্টম রিঅ্যাক্ট হুক একটি ভ্রমণপথের অবস্থা এবং মূল যুক্তি পরিচালনা করে।
- * এটি localStorage থেকে বিদ্যমান ভ্রমণপথ লোড করা বা নতুন তৈরি করা, ভ্রমণপথের ডেটা
- * (সেটিংস, যাত্রী বিবরণ, প্রতিদিনের আইটেম) আপডেট করা এবং পরিবর্তনগুলি localStorage-এ
- * সংরক্ষণ করা পরিচালনা করে। এটি পৃষ্ঠার সামগ্রিক অবস্থা (যেমন, 'লোডিং', 'প্ল্যানার')
- * পরিচালনা করে।
+ * এটি `/api/itineraries` রুটের মাধ্যমে বিদ্যমান ভ্রমণপথ লোড করা বা নতুন তৈরি করা, ভ্রমণপথের ডেটা
+ * (সেটিংস, যাত্রী বিবরণ, প্রতিদিনের আইটেম) আপডেট করা এবং পরিবর্তনগুলি ডেটাবেসে সংরক্ষণ
+ * করা পরিচালনা করে। সংযুক্ত উদ্ধৃতি অনুরোধগুলি `/api/quotation-requests` এর মাধ্যমে পড়া ও
+ * আপডেট করা হয়। এটি পৃষ্ঠার সামগ্রিক অবস্থা (যেমন, 'লোডিং', 'প্ল্যানার') পরিচালনা করে। শুধুমাত্র
+ * সর্বশেষ সক্রিয় ভ্রমণপথের আইডি localStorage-এ রাখা হয়, কারণ এটি ব্রাউজার-নির্দিষ্ট পছন্দ।
  */
 "use client";
 
 import * as React from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import type { TripData, ItineraryMetadata, TripSettings, PaxDetails, Traveler, OverallBookingStatus, BookingStatus, Agency, AgentProfile, CurrencyCode } from '@/types/itinerary';
-import { OVERALL_BOOKING_STATUSES, BOOKING_STATUSES, DEFAULT_THAILAND_ID, DEFAULT_MALAYSIA_ID, DEFAULT_BANGLADESH_ID } from '@/types/itinerary';
-import type { QuotationRequest, QuotationRequestStatus } from '@/types/quotation';
-import { QUOTATION_STATUSES, generateQuotationIdNumericPart } from '@/types/quotation';
+import type { TripData, TripSettings, PaxDetails, Traveler, CurrencyCode, CostSummary, CountryItem } from '@/types/itinerary';
+import type { Agency, AgentProfile } from '@/types/agent';
+import { DEFAULT_THAILAND_ID, DEFAULT_MALAYSIA_ID, DEFAULT_BANGLADESH_ID } from '@/types/itinerary';
+import type { QuotationRequest, QuotationRequestClientInfo, QuotationRequestStatus, QuotationStatusChange } from '@/types/quotation';
+import { generateQuotationIdNumericPart } from '@/types/quotation';
+import { getSendQuoteStatus } from '@/lib/quotation-workflow';
+import { getBlockingPricingIssues } from '@/lib/pricing-issues';
+import { freezeExchangeRates } from '@/lib/exchange-rate-snapshots';
+import { computeOverallBookingStatus } from '@/lib/booking-status';
+import { applyAgeBasedTypes } from '@/lib/travelers';
 import { generateGUID } from '@/lib/utils';
+import { apiGet, apiPost, apiPut, ApiError } from '@/lib/api-client';
 import { useToast } from "@/hooks/use-toast";
 import { AGENT_ID_JOHN_DOE_GTE, AGENT_ID_BOB_JOHNSON_LAI, AGENT_ID_FATIMA_AHMED_BV, AGENCY_ID_GLOBAL_TRAVEL, AGENCY_ID_LOCAL_ADVENTURES, AGENCY_ID_BENGAL_VOYAGER } from './useAgents';
 import { addDays, subDays, formatISO } from 'date-fns';
 
 
-const ITINERARY_INDEX_KEY = 'itineraryAce_index';
-const ITINERARY_DATA_PREFIX = 'itineraryAce_data_';
-const AGENT_QUOTATION_REQUESTS_KEY = 'itineraryAce_agentQuotationRequests';
-const AGENCIES_STORAGE_KEY = 'itineraryAceAgencies';
-const AGENTS_STORAGE_KEY = 'itineraryAceAgents';
+const ITINERARIES_API_PATH = '/api/itineraries';
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
+const AGENCIES_API_PATH = '/api/agencies';
+const AGENTS_API_PATH = '/api/agents';
 const LAST_ACTIVE_ITINERARY_ID_KEY = 'lastActiveItineraryId';
 
 
-// --- Helper functions for localStorage ---
-const loadDataFromStorage = <T>(key: string): T | null => {
+// --- Helper functions for the last active itinerary (per-browser, kept in localStorage) ---
+const loadLastActiveItineraryId = (): string | null => {
   try {
-    const storedData = localStorage.getItem(key);
+    const storedData = localStorage.getItem(LAST_ACTIVE_ITINERARY_ID_KEY);
     if (storedData) {
-      return JSON.parse(storedData) as T;
+      return JSON.parse(storedData) as string | null;
     }
   } catch (e) {
-    console.warn(`Error reading ${key} from localStorage:`, e);
-    localStorage.removeItem(key);
+    console.warn(`Error reading ${LAST_ACTIVE_ITINERARY_ID_KEY} from localStorage:`, e);
+    localStorage.removeItem(LAST_ACTIVE_ITINERARY_ID_KEY);
   }
   return null;
 };
 
-const saveDataToStorage = <T>(key: string, dataToSave: T): void => {
+const saveLastActiveItineraryId = (itineraryId: string | null): void => {
   try {
-    localStorage.setItem(key, JSON.stringify(dataToSave));
+    localStorage.setItem(LAST_ACTIVE_ITINERARY_ID_KEY, JSON.stringify(itineraryId));
   } catch (e) {
-    console.error(`Error saving ${key} to localStorage:`, e);
+    console.error(`Error saving ${LAST_ACTIVE_ITINERARY_ID_KEY} to localStorage:`, e);
   }
 };
 // --- End helper functions ---
 
 
+// --- Helper functions for the API ---
+/** Resolves to null when the record does not exist (404); any other failure is thrown. */
+const loadFromApiOrNull = async <T>(path: string): Promise<T | null> => {
+  try {
+    return await apiGet<T>(path);
+  } catch (e) {
+    if (e instanceof ApiError && e.status === 404) return null;
+    throw e;
+  }
+};
+
+const saveItineraryToApi = (tripData: TripData): Promise<TripData> =>
+  apiPut<TripData>(`${ITINERARIES_API_PATH}/${encodeURIComponent(tripData.id)}`, tripData);
+
+const saveQuotationRequestToApi = (request: QuotationRequest): Promise<QuotationRequest> =>
+  apiPut<QuotationRequest>(`${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(request.id)}`, request);
+
+const transitionQuotationRequestViaApi = async (
+  requestId: string, toStatus: QuotationRequestStatus, note?: string, snapshot?: { tripData: TripData; costSummary: CostSummary }, countries?: CountryItem[],
+): Promise<QuotationRequest> => {
+  const { request } = await apiPost<{ request: QuotationRequest; change: QuotationStatusChange }>(
+    `${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(requestId)}/transitions`, { toStatus, note, snapshot, countries },
+  );
+  return request;
+};
+// --- End helper functions ---
+
+
+/** Data needed to derive the client name and currency of a new itinerary from a quotation. */
+interface TripDefaultsContext {
+  agents: AgentProfile[];
+  agencies: Agency[];
+  quotationRequests: QuotationRequest[];
+}
+
+const EMPTY_TRIP_DEFAULTS_CONTEXT: TripDefaultsContext = { agents: [], agencies: [], quotationRequests: [] };
+
+const loadAgentsAndAgenciesFromApi = async (): Promise<Pick<TripDefaultsContext, 'agents' | 'agencies'>> => {
+  try {
+    const [agents, agencies] = await Promise.all([
+      apiGet<AgentProfile[]>(AGENTS_API_PATH),
+      apiGet<Agency[]>(AGENCIES_API_PATH),
+    ]);
+    return { agents, agencies };
+  } catch (e) {
+    console.error("Error fetching agents/agencies:", e);
+    return { agents: [], agencies: [] };
+  }
+};
+
+
 const generateItineraryId = (): string => {
   const now = new Date();
   const year = String(now.getFullYear());
@@ -78,29 +139,45 @@ const createDefaultTravelers = (adults: number, children: number): Traveler[] =>
   return newTravelers;
 };
 
-const getAgencyAndAgentNameFromLocalStorage = (agentId: string): string | undefined => {
-  try {
-    const allAgents = loadDataFromStorage<AgentProfile[]>(AGENTS_STORAGE_KEY);
-    const allAgencies = loadDataFromStorage<Agency[]>(AGENCIES_STORAGE_KEY);
-
-    if (allAgents && allAgencies) {
-      const agent = allAgents.find(a => a.id === agentId);
-      if (agent) {
-        const agency = allAgencies.find(ag => ag.id === agent.agencyId);
-        if (agency) {
-          return `${agency.name} - ${agent.fullName}`;
-        }
-        return `Agent: ${agent.fullName} (Agency ID: ${agent.agencyId})`;
-      }
+// Keeps the travelers already entered, so that their names and details survive a change of counts.
+const resizeTravelers = (travelers: Traveler[], adults: number, children: number): Traveler[] => {
+  const ofType = (type: Traveler['type'], count: number, prefix: string) => {
+    const kept = travelers.filter(traveler => traveler.type === type).slice(0, count);
+    while (kept.length < count) kept.push({ id: `${prefix}${generateGUID()}`, label: '', type });
+    return kept.map((traveler, index) => ({ ...traveler, label: `${type === 'adult' ? 'Adult' : 'Child'} ${index + 1}` }));
+  };
+  return [...ofType('adult', adults, 'A'), ...ofType('child', children, 'C')];
+};
+
+// The travelers named in the quotation request, or numbered placeholders when it names none.
+const createRequestTravelers = (clientInfo: QuotationRequestClientInfo, startDate: string): Traveler[] => {
+  const named = (clientInfo.travelers ?? []).map(({ type, ...details }) => ({
+    ...details, id: `${type === 'adult' ? 'A' : 'C'}${generateGUID()}`, label: '', type,
+  }));
+  const { travelers } = applyAgeBasedTypes(named, startDate);
+  const adults = travelers.filter(traveler => traveler.type === 'adult').length;
+  const children = travelers.length - adults;
+  return resizeTravelers(travelers, Math.max(adults, clientInfo.adults), Math.max(children, clientInfo.children));
+};
+
+const getAgencyAndAgentName = (agentId: string, context: TripDefaultsContext): string | undefined => {
+  const agent = context.agents.find(a => a.id === agentId);
+  if (agent) {
+    const agency = context.agencies.find(ag => ag.id === agent.agencyId);
+    if (agency) {
+      return `${agency.name} - ${agent.fullName}`;
     }
-  } catch (e) {
-    console.error("Error fetching agent/agency for clientName:", e);
+    return `Agent: ${agent.fullName} (Agency ID: ${agent.agencyId})`;
   }
   return agentId ? `Agent ID: ${agentId}` : undefined;
 };
 
 
-const createDefaultTripData = (quotationRequestId?: string, quotationRequest?: QuotationRequest | null): TripData => {
+const createDefaultTripData = (
+  quotationRequestId?: string,
+  quotationRequest?: QuotationRequest | null,
+  context: TripDefaultsContext = EMPTY_TRIP_DEFAULTS_CONTEXT
+): TripData => {
   const newId = generateItineraryId();
   const now = new Date().toISOString();
 
@@ -110,54 +187,16 @@ const createDefaultTripData = (quotationRequestId?: string, quotationRequest?: Q
   let clientNameForTrip: string | undefined = undefined;
   let paxCurrency: CurrencyCode = 'THB'; 
 
-  if (quotationRequest?.agentId) {
-    clientNameForTrip = getAgencyAndAgentNameFromLocalStorage(quotationRequest.agentId);
-    try {
-        const allAgents = loadDataFromStorage<AgentProfile[]>(AGENTS_STORAGE_KEY);
-        const allAgencies = loadDataFromStorage<Agency[]>(AGENCIES_STORAGE_KEY);
-        if (allAgents && allAgencies) {
-            const agent = allAgents.find(a => a.id === quotationRequest.agentId);
-            if (agent?.agencyId) {
-                const agency = allAgencies.find(ag => ag.id === agent.agencyId);
-                if (agency?.preferredCurrency) {
-                    paxCurrency = agency.preferredCurrency;
-                } else if (quotationRequest.tripDetails.budgetCurrency) {
-                  paxCurrency = quotationRequest.tripDetails.budgetCurrency;
-                }
-            } else if (quotationRequest.tripDetails.budgetCurrency) {
-              paxCurrency = quotationRequest.tripDetails.budgetCurrency;
-            }
-        } else if (quotationRequest.tripDetails.budgetCurrency) {
-           paxCurrency = quotationRequest.tripDetails.budgetCurrency;
-        }
-    } catch(e) { console.error("Error fetching agent/agency currency:", e); }
-  } else if (quotationRequestId && !quotationRequest) {
-    try {
-        const allRequests = loadDataFromStorage<QuotationRequest[]>(AGENT_QUOTATION_REQUESTS_KEY);
-        if (allRequests) {
-            const foundQuote = allRequests.find(q => q.id === quotationRequestId);
-            if (foundQuote?.agentId) {
-                clientNameForTrip = getAgencyAndAgentNameFromLocalStorage(foundQuote.agentId);
-                const allAgents = loadDataFromStorage<AgentProfile[]>(AGENTS_STORAGE_KEY);
-                const allAgencies = loadDataFromStorage<Agency[]>(AGENCIES_STORAGE_KEY);
-                if (allAgents && allAgencies) {
-                    const agent = allAgents.find(a => a.id === foundQuote.agentId);
-                    if (agent?.agencyId) {
-                        const agency = allAgencies.find(ag => ag.id === agent.agencyId);
-                        if (agency?.preferredCurrency) {
-                            paxCurrency = agency.preferredCurrency;
-                        } else if (foundQuote.tripDetails.budgetCurrency) {
-                           paxCurrency = foundQuote.tripDetails.budgetCurrency;
-                        }
-                    } else if (foundQuote.tripDetails.budgetCurrency) {
-                      paxCurrency = foundQuote.tripDetails.budgetCurrency;
-                    }
-                } else if (foundQuote.tripDetails.budgetCurrency) {
-                  paxCurrency = foundQuote.tripDetails.budgetCurrency;
-                }
-            }
-        }
-    } catch (e) { console.error("Error fetching quote for client name/currency in createDefaultTripData:", e); }
+  const quoteForClient = quotationRequest || (quotationRequestId ? context.quotationRequests.find(q => q.id === quotationRequestId) : undefined);
+  if (quoteForClient?.agentId) {
+    clientNameForTrip = getAgencyAndAgentName(quoteForClient.agentId, context);
+    const agent = context.agents.find(a => a.id === quoteForClient.agentId);
+    const agency = agent?.agencyId ? context.agencies.find(ag => ag.id === agent.agencyId) : undefined;
+    if (agency?.preferredCurrency) {
+      paxCurrency = agency.preferredCurrency;
+    } else if (quoteForClient.tripDetails.budgetCurrency) {
+      paxCurrency = quoteForClient.tripDetails.budgetCurrency;
+    }
   }
 
 
@@ -168,12 +207,14 @@ const createDefaultTripData = (quotationRequestId?: string, quotationRequest?: Q
     selectedProvinces: quotationRequest?.tripDetails.preferredProvinceNames || [],
     budget: quotationRequest?.tripDetails.budgetAmount,
   };
+  const travelers = quotationRequest
+    ? createRequestTravelers(quotationRequest.clientInfo, settings.startDate)
+    : createDefaultTravelers(2, 0);
   const pax: PaxDetails = {
-    adults: quotationRequest?.clientInfo.adults ?? 2,
-    children: quotationRequest?.clientInfo.children ?? 0,
+    adults: travelers.filter(traveler => traveler.type === 'adult').length,
+    children: travelers.filter(traveler => traveler.type === 'child').length,
     currency: paxCurrency
   };
-  const travelers = createDefaultTravelers(pax.adults, pax.children);
   const days: { [dayNumber: number]: { items: [] } } = {};
   for (let i = 1; i <= settings.numDays; i++) {
       days[i] = { items: [] };
@@ -209,6 +250,7 @@ export function useItineraryManager() {
 
   const [tripData, setTripData] = React.useState<TripData | null>(null);
   const tripDataInternalRef = React.useRef<TripData | null>(null);
+  const tripDefaultsContextRef = React.useRef<TripDefaultsContext>(EMPTY_TRIP_DEFAULTS_CONTEXT);
   const [currentItineraryId, setCurrentItineraryId] = React.useState<string | null>(null);
   const [pageStatus, setPageStatus] = React.useState<PageStatus>('loading');
   const [currentQuotationRequest, setCurrentQuotationRequest] = React.useState<QuotationRequest | null>(null);
@@ -221,36 +263,20 @@ export function useItineraryManager() {
   const itineraryIdFromUrl = searchParams.get('itineraryId');
   const quotationRequestIdFromUrl = searchParams.get('quotationRequestId');
 
-  const saveNewItineraryToStorage = React.useCallback((itineraryToSave: TripData): TripData => {
+  const saveNewItinerary = React.useCallback(async (itineraryToSave: TripData): Promise<TripData> => {
     try {
         const now = new Date().toISOString();
         const dataWithTimestamps: TripData = {
             ...itineraryToSave,
             createdAt: itineraryToSave.createdAt || now,
             updatedAt: now,
+            tags: itineraryToSave.tags || [],
         };
-        saveDataToStorage<TripData>(`${ITINERARY_DATA_PREFIX}${dataWithTimestamps.id}`, dataWithTimestamps);
-        
-        let index = loadDataFromStorage<ItineraryMetadata[]>(ITINERARY_INDEX_KEY) || [];
-        const existingEntryIndex = index.findIndex(entry => entry.id === dataWithTimestamps.id);
-        const newEntry: ItineraryMetadata = {
-            id: dataWithTimestamps.id,
-            itineraryName: dataWithTimestamps.itineraryName,
-            clientName: dataWithTimestamps.clientName,
-            createdAt: dataWithTimestamps.createdAt,
-            updatedAt: dataWithTimestamps.updatedAt,
-            tags: dataWithTimestamps.tags || [], // Ensure tags are saved to metadata
-        };
-        if (existingEntryIndex > -1) {
-            index[existingEntryIndex] = newEntry;
-        } else {
-            index.push(newEntry);
-        }
-        saveDataToStorage<ItineraryMetadata[]>(ITINERARY_INDEX_KEY, index);
+        await saveItineraryToApi(dataWithTimestamps);
         return dataWithTimestamps;
     } catch (saveError) {
-        console.error("Failed to save new itinerary to storage:", saveError);
-        toast({ title: "Save Error", description: "Could not save new itinerary to local storage.", variant: "destructive" });
+        console.error("Failed to save new itinerary:", saveError);
+        toast({ title: "Save Error", description: "Could not save new itinerary to the database.", variant: "destructive" });
         return itineraryToSave;
     }
   }, [toast]);
@@ -260,182 +286,209 @@ export function useItineraryManager() {
     if (typeof window === "undefined" || window.location.pathname !== '/planner') {
       return;
     }
-
-    let allQuotationRequests = loadDataFromStorage<QuotationRequest[]>(AGENT_QUOTATION_REQUESTS_KEY) || [];
-    if (allQuotationRequests.length === 0) {
-      // Minimal seeding if quotations are empty, assuming agents/agencies might be needed for defaults.
-      const demoAgents = loadDataFromStorage<AgentProfile[]>(AGENTS_STORAGE_KEY) || [];
-      const demoAgencies = loadDataFromStorage<Agency[]>(AGENCIES_STORAGE_KEY) || [];
-
-      const getAgencyInitials = (agencyId?: string): string => {
-        if (!agencyId) return "AGY";
-        const agency = demoAgencies.find(a => a.id === agencyId);
-        if (agency?.name) {
-          const words = agency.name.split(' ').filter(Boolean);
-          if (words.length === 1) return words[0].substring(0, Math.min(3, words[0].length)).toUpperCase();
-          return words.map(word => word[0]).slice(0, 3).join("").toUpperCase();
+    let isCancelled = false;
+
+    const loadPlannerState = async () => {
+      let allQuotationRequests: QuotationRequest[] = [];
+      let quotationRequestsLoaded = false;
+      try {
+        allQuotationRequests = await apiGet<QuotationRequest[]>(QUOTATION_REQUESTS_API_PATH);
+        quotationRequestsLoaded = true;
+      } catch (e) {
+        console.error("Error fetching quotation requests:", e);
+      }
+      const { agents: demoAgents, agencies: demoAgencies } = await loadAgentsAndAgenciesFromApi();
+
+      // Seed only when the list was loaded and is genuinely empty, never after a failed fetch.
+      if (quotationRequestsLoaded && allQuotationRequests.length === 0) {
+        const getAgencyInitials = (agencyId?: string): string => {
+          if (!agencyId) return "AGY";
+          const agency = demoAgencies.find(a => a.id === agencyId);
+          if (agency?.name) {
+            const words = agency.name.split(' ').filter(Boolean);
+            if (words.length === 1) return words[0].substring(0, Math.min(3, words[0].length)).toUpperCase();
+            return words.map(word => word[0]).slice(0, 3).join("").toUpperCase();
+          }
+          return "AGY";
+        };
+        const generateFullQuotationId = (agencyId?: string): string => {
+            const numericPart = generateQuotationIdNumericPart();
+            const initials = getAgencyInitials(agencyId);
+            return `${initials}-${numericPart}`;
+        };
+        const now = new Date();
+        const demoQuotationData: Omit<QuotationRequest, 'id' | 'requestDate' | 'updatedAt' | 'status' | 'version'>[] = [
+          { agentId: AGENT_ID_JOHN_DOE_GTE, clientInfo: { adults: 2, children: 1, childAges: "3" }, tripDetails: { preferredCountryIds: [DEFAULT_THAILAND_ID, DEFAULT_MALAYSIA_ID], preferredProvinceNames: ["Kuala Lumpur", "Bangkok"], preferredStartDate: formatISO(addDays(now, 10), { representation: 'date' }), durationDays: 5, tripType: "Business", budgetRange: "Mid-Range/Comfort", budgetCurrency: "THB" }, accommodationPrefs: {hotelStarRating: "3 Stars", roomPreferences:"double", specificHotelRequests:"sukhumvit area"}, activityPrefs: { requestedActivities: "safari world"}, flightPrefs: { airportTransfersRequired: true, activityTransfersRequired: true}, mealPrefs: { mealPlan: "Breakfast Only" }, otherRequirements: "non veg" },
+          { agentId: AGENT_ID_BOB_JOHNSON_LAI, clientInfo: { adults: 2, children: 2, childAges: "6,10" }, tripDetails: { preferredCountryIds: [DEFAULT_THAILAND_ID, DEFAULT_MALAYSIA_ID], preferredProvinceNames: ["Krabi", "Langkawi", "Kuala Lumpur"], preferredStartDate: formatISO(addDays(now, 60), { representation: 'date' }), durationDays: 10, tripType: "Family", budgetRange: "Specific Amount (see notes)", budgetAmount: 5000, budgetCurrency: "USD", }, accommodationPrefs: { hotelStarRating: "4 Stars", roomPreferences: "Family room or connecting rooms, kids club a plus" }, activityPrefs: { requestedActivities: "Island hopping in Krabi, Cable car in Langkawi, Petronas Towers in KL, Elephant sanctuary if ethical." }, flightPrefs: { airportTransfersRequired: true, activityTransfersRequired: true }, otherRequirements: "Need child-friendly activities. One child is a fussy eater." },
+          { agentId: AGENT_ID_FATIMA_AHMED_BV, clientInfo: { adults: 1, children: 0, childAges: "" }, tripDetails: { preferredCountryIds: [DEFAULT_BANGLADESH_ID], preferredProvinceNames: ["Dhaka", "Sylhet"], preferredStartDate: formatISO(addDays(now, 45), { representation: 'date' }), durationDays: 5, tripType: "Cultural", budgetRange: "Economy/Budget", budgetCurrency: "BDT", }, accommodationPrefs: { hotelStarRating: "3 Stars", roomPreferences: "Clean and centrally located, good Wi-Fi." }, activityPrefs: { requestedActivities: "Explore Old Dhaka, visit tea gardens in Sylhet, historical sites." }, mealPrefs: {mealPlan: "Breakfast Only"}, otherRequirements: "Solo female traveler, safety is a priority. Interested in local markets." },
+        ];
+        const seededQuotations: QuotationRequest[] = demoQuotationData.map((q, index) => {
+          const agent = demoAgents.find(a => a.id === q.agentId);
+          let agencyIdToUse = agent?.agencyId;
+          if (!agencyIdToUse) { if (q.agentId === AGENT_ID_JOHN_DOE_GTE) agencyIdToUse = AGENCY_ID_GLOBAL_TRAVEL; else if (q.agentId === AGENT_ID_BOB_JOHNSON_LAI) agencyIdToUse = AGENCY_ID_LOCAL_ADVENTURES; else if (q.agentId === AGENT_ID_FATIMA_AHMED_BV) agencyIdToUse = AGENCY_ID_BENGAL_VOYAGER; else agencyIdToUse = demoAgencies.length > 0 ? demoAgencies[0].id : AGENCY_ID_GLOBAL_TRAVEL; }
+          return { ...q, id: generateFullQuotationId(agencyIdToUse), requestDate: subDays(now, (demoQuotationData.length - index) * 10).toISOString(), updatedAt: subDays(now, (demoQuotationData.length - index) * 10).toISOString(), status: "New Request Submitted" as QuotationRequestStatus, version: 0 };
+        });
+        try {
+          await Promise.all(seededQuotations.map(q => apiPost<QuotationRequest>(QUOTATION_REQUESTS_API_PATH, q)));
+        } catch (e) {
+          console.error("Error seeding demo quotation requests:", e);
         }
-        return "AGY";
-      };
-      const generateFullQuotationId = (agencyId?: string): string => {
-          const numericPart = generateQuotationIdNumericPart();
-          const initials = getAgencyInitials(agencyId);
-          return `${initials}-${numericPart}`;
-      };
-      const now = new Date();
-      const demoQuotationData: Omit<QuotationRequest, 'id' | 'requestDate' | 'updatedAt' | 'status' | 'version'>[] = [
-        { agentId: AGENT_ID_JOHN_DOE_GTE, clientInfo: { adults: 2, children: 1, childAges: "3" }, tripDetails: { preferredCountryIds: [DEFAULT_THAILAND_ID, DEFAULT_MALAYSIA_ID], preferredProvinceNames: ["Kuala Lumpur", "Bangkok"], preferredStartDate: formatISO(addDays(now, 10), { representation: 'date' }), durationDays: 5, tripType: "Business", budgetRange: "Mid-Range/Comfort", budgetCurrency: "THB" }, accommodationPrefs: {hotelStarRating: "3 Stars", roomPreferences:"double", specificHotelRequests:"sukhumvit area"}, activityPrefs: { requestedActivities: "safari world"}, flightPrefs: { airportTransfersRequired: true, activityTransfersRequired: true}, mealPrefs: { mealPlan: "Breakfast Only" }, otherRequirements: "non veg" },
-        { agentId: AGENT_ID_BOB_JOHNSON_LAI, clientInfo: { adults: 2, children: 2, childAges: "6,10" }, tripDetails: { preferredCountryIds: [DEFAULT_THAILAND_ID, DEFAULT_MALAYSIA_ID], preferredProvinceNames: ["Krabi", "Langkawi", "Kuala Lumpur"], preferredStartDate: formatISO(addDays(now, 60), { representation: 'date' }), durationDays: 10, tripType: "Family", budgetRange: "Specific Amount (see notes)", budgetAmount: 5000, budgetCurrency: "USD", }, accommodationPrefs: { hotelStarRating: "4 Stars", roomPreferences: "Family room or connecting rooms, kids club a plus" }, activityPrefs: { requestedActivities: "Island hopping in Krabi, Cable car in Langkawi, Petronas Towers in KL, Elephant sanctuary if ethical." }, flightPrefs: { airportTransfersRequired: true, activityTransfersRequired: true }, otherRequirements: "Need child-friendly activities. One child is a fussy eater." },
-        { agentId: AGENT_ID_FATIMA_AHMED_BV, clientInfo: { adults: 1, children: 0, childAges: "" }, tripDetails: { preferredCountryIds: [DEFAULT_BANGLADESH_ID], preferredProvinceNames: ["Dhaka", "Sylhet"], preferredStartDate: formatISO(addDays(now, 45), { representation: 'date' }), durationDays: 5, tripType: "Cultural", budgetRange: "Economy/Budget", budgetCurrency: "BDT", }, accommodationPrefs: { hotelStarRating: "3 Stars", roomPreferences: "Clean and centrally located, good Wi-Fi." }, activityPrefs: { requestedActivities: "Explore Old Dhaka, visit tea gardens in Sylhet, historical sites." }, mealPrefs: {mealPlan: "Breakfast Only"}, otherRequirements: "Solo female traveler, safety is a priority. Interested in local markets." },
-      ];
-      const seededQuotations: QuotationRequest[] = demoQuotationData.map((q, index) => {
-        const agent = demoAgents.find(a => a.id === q.agentId);
-        let agencyIdToUse = agent?.agencyId;
-        if (!agencyIdToUse) { if (q.agentId === AGENT_ID_JOHN_DOE_GTE) agencyIdToUse = AGENCY_ID_GLOBAL_TRAVEL; else if (q.agentId === AGENT_ID_BOB_JOHNSON_LAI) agencyIdToUse = AGENCY_ID_LOCAL_ADVENTURES; else if (q.agentId === AGENT_ID_FATIMA_AHMED_BV) agencyIdToUse = AGENCY_ID_BENGAL_VOYAGER; else agencyIdToUse = demoAgencies.length > 0 ? demoAgencies[0].id : AGENCY_ID_GLOBAL_TRAVEL; }
-        return { ...q, id: generateFullQuotationId(agencyIdToUse), requestDate: subDays(now, (demoQuotationData.length - index) * 10).toISOString(), updatedAt: subDays(now, (demoQuotationData.length - index) * 10).toISOString(), status: "New Request Submitted" as QuotationRequestStatus, version: 0 };
-      });
-      saveDataToStorage<QuotationRequest[]>(AGENT_QUOTATION_REQUESTS_KEY, seededQuotations);
-      allQuotationRequests = seededQuotations;
-    }
-
-
-    let targetItineraryIdFromLogic = itineraryIdFromUrl;
-    let createFromQuotationIdLogic = quotationRequestIdFromUrl;
-    let associatedQuotationRequestLogic: QuotationRequest | null = null;
-
-    if (createFromQuotationIdLogic) {
-      associatedQuotationRequestLogic = allQuotationRequests.find(q => q.id === createFromQuotationIdLogic) || null;
-      if (associatedQuotationRequestLogic?.linkedItineraryId && !targetItineraryIdFromLogic) {
-        targetItineraryIdFromLogic = associatedQuotationRequestLogic.linkedItineraryId;
+        allQuotationRequests = seededQuotations;
       }
-    }
-    if (!targetItineraryIdFromLogic && !createFromQuotationIdLogic) {
-      targetItineraryIdFromLogic = loadDataFromStorage<string | null>(LAST_ACTIVE_ITINERARY_ID_KEY);
-    }
+      if (isCancelled) return;
 
-    const currentTripIdInState = tripDataInternalRef.current?.id;
+      const tripDefaultsContext: TripDefaultsContext = { agents: demoAgents, agencies: demoAgencies, quotationRequests: allQuotationRequests };
+      tripDefaultsContextRef.current = tripDefaultsContext;
 
-    const needsToLoadOrRecreate =
-      !tripDataInternalRef.current ||
-      (targetItineraryIdFromLogic && targetItineraryIdFromLogic !== currentTripIdInState) ||
-      (createFromQuotationIdLogic &&
-        (createFromQuotationIdLogic !== tripDataInternalRef.current?.quotationRequestId ||
-         (targetItineraryIdFromLogic && targetItineraryIdFromLogic !== currentTripIdInState) ||
-         (!targetItineraryIdFromLogic && associatedQuotationRequestLogic?.linkedItineraryId && associatedQuotationRequestLogic.linkedItineraryId !== currentTripIdInState)
-        )
-      );
+      let targetItineraryIdFromLogic = itineraryIdFromUrl;
+      let createFromQuotationIdLogic = quotationRequestIdFromUrl;
+      let associatedQuotationRequestLogic: QuotationRequest | null = null;
 
-    if (needsToLoadOrRecreate) {
-        setPageStatus('loading');
-      let newTripToSet: TripData | null = null;
-      let newCurrentIdForState: string | null = null;
-
-      if (targetItineraryIdFromLogic) {
-        try {
-          const savedData = loadDataFromStorage<Partial<TripData>>(`${ITINERARY_DATA_PREFIX}${targetItineraryIdFromLogic}`);
-          if (savedData) {
-            const defaultForContext = createDefaultTripData(savedData.quotationRequestId || createFromQuotationIdLogic || undefined, associatedQuotationRequestLogic);
-            let finalItineraryName;
-            if (savedData.itineraryName !== undefined && savedData.itineraryName !== null) { finalItineraryName = savedData.itineraryName;
-            } else if (associatedQuotationRequestLogic && associatedQuotationRequestLogic.id === (savedData.quotationRequestId || createFromQuotationIdLogic)) { finalItineraryName = `Proposal for Quotation ${associatedQuotationRequestLogic.id.split('-').pop()}`;
-            } else if (savedData.quotationRequestId) { const linkedQuoteForParsedData = allQuotationRequests.find(q => q.id === savedData.quotationRequestId); if (linkedQuoteForParsedData) { finalItineraryName = `Proposal for Quotation ${linkedQuoteForParsedData.id.split('-').pop()}`; } else { finalItineraryName = `New Itinerary ${targetItineraryIdFromLogic.split('-').pop()}`; }
-            } else { finalItineraryName = `New Itinerary ${targetItineraryIdFromLogic.split('-').pop()}`; }
-
-            let finalClientName = savedData.clientName;
-            if (finalClientName === undefined || finalClientName === null || finalClientName.trim() === "") { finalClientName = defaultForContext.clientName; }
-
-            const adminNotesToUse = associatedQuotationRequestLogic?.id === (savedData.quotationRequestId || createFromQuotationIdLogic) ? associatedQuotationRequestLogic?.adminRevisionNotes : savedData.adminRevisionNotes;
-
-            newTripToSet = {
-                id: targetItineraryIdFromLogic, itineraryName: finalItineraryName, clientName: finalClientName,
-                createdAt: savedData.createdAt || defaultForContext.createdAt, updatedAt: savedData.updatedAt || defaultForContext.updatedAt,
-                settings: { ...defaultForContext.settings, ...savedData.settings }, pax: { ...defaultForContext.pax, ...savedData.pax },
-                travelers: savedData.travelers && savedData.travelers.length > 0 ? savedData.travelers : createDefaultTravelers(savedData.pax?.adults ?? defaultForContext.pax.adults, savedData.pax?.children ?? defaultForContext.pax.children),
-                days: savedData.days && Object.keys(savedData.days).length > 0 ? savedData.days : defaultForContext.days,
-                quotationRequestId: savedData.quotationRequestId || createFromQuotationIdLogic || undefined,
-                version: savedData.version || 0, overallBookingStatus: savedData.overallBookingStatus || "NotStarted",
-                adminRevisionNotes: adminNotesToUse || undefined,
-                tags: savedData.tags || [], // Load tags or default to empty array
-            };
-            newCurrentIdForState = targetItineraryIdFromLogic;
-          } else {
-            if (loadDataFromStorage<string | null>(LAST_ACTIVE_ITINERARY_ID_KEY) === targetItineraryIdFromLogic) saveDataToStorage<string | null>(LAST_ACTIVE_ITINERARY_ID_KEY, null);
-            newTripToSet = createDefaultTripData(createFromQuotationIdLogic, associatedQuotationRequestLogic);
-            newTripToSet.id = targetItineraryIdFromLogic; 
-            newCurrentIdForState = targetItineraryIdFromLogic;
-            newTripToSet = saveNewItineraryToStorage(newTripToSet);
-          }
-        } catch (error) {
-          console.error("Failed to load or create data for ID:", targetItineraryIdFromLogic, error);
-          newTripToSet = createDefaultTripData(createFromQuotationIdLogic, associatedQuotationRequestLogic);
-          if(targetItineraryIdFromLogic) newTripToSet.id = targetItineraryIdFromLogic;
-          else newTripToSet.id = generateItineraryId(); 
-          newCurrentIdForState = newTripToSet.id;
-          newTripToSet = saveNewItineraryToStorage(newTripToSet);
+      if (createFromQuotationIdLogic) {
+        associatedQuotationRequestLogic = allQuotationRequests.find(q => q.id === createFromQuotationIdLogic) || null;
+        if (associatedQuotationRequestLogic?.linkedItineraryId && !targetItineraryIdFromLogic) {
+          targetItineraryIdFromLogic = associatedQuotationRequestLogic.linkedItineraryId;
         }
-      } else {
-        if (createFromQuotationIdLogic && associatedQuotationRequestLogic) {
-          newTripToSet = createDefaultTripData(createFromQuotationIdLogic, associatedQuotationRequestLogic);
-          newCurrentIdForState = newTripToSet.id;
-          newTripToSet = saveNewItineraryToStorage(newTripToSet);
-
-          const reqIdx = allQuotationRequests.findIndex(q => q.id === createFromQuotationIdLogic);
-          if (reqIdx > -1 && allQuotationRequests[reqIdx].status === "New Request Submitted") {
-             allQuotationRequests[reqIdx].linkedItineraryId = newCurrentIdForState;
-             allQuotationRequests[reqIdx].status = "Quoted: Revision In Progress";
-             allQuotationRequests[reqIdx].updatedAt = new Date().toISOString();
-             allQuotationRequests[reqIdx].version = (allQuotationRequests[reqIdx].version || 0);
-             saveDataToStorage<QuotationRequest[]>(AGENT_QUOTATION_REQUESTS_KEY, allQuotationRequests);
-             associatedQuotationRequestLogic = allQuotationRequests[reqIdx];
+      }
+      if (!targetItineraryIdFromLogic && !createFromQuotationIdLogic) {
+        targetItineraryIdFromLogic = loadLastActiveItineraryId();
+      }
+
+      const currentTripIdInState = tripDataInternalRef.current?.id;
+
+      const needsToLoadOrRecreate =
+        !tripDataInternalRef.current ||
+        (targetItineraryIdFromLogic && targetItineraryIdFromLogic !== currentTripIdInState) ||
+        (createFromQuotationIdLogic &&
+          (createFromQuotationIdLogic !== tripDataInternalRef.current?.quotationRequestId ||
+           (targetItineraryIdFromLogic && targetItineraryIdFromLogic !== currentTripIdInState) ||
+           (!targetItineraryIdFromLogic && associatedQuotationRequestLogic?.linkedItineraryId && associatedQuotationRequestLogic.linkedItineraryId !== currentTripIdInState)
+          )
+        );
+
+      if (needsToLoadOrRecreate) {
+          setPageStatus('loading');
+        let newTripToSet: TripData | null = null;
+        let newCurrentIdForState: string | null = null;
+
+        if (targetItineraryIdFromLogic) {
+          try {
+            const savedData = await loadFromApiOrNull<Partial<TripData>>(`${ITINERARIES_API_PATH}/${encodeURIComponent(targetItineraryIdFromLogic)}`);
+            if (savedData) {
+              const defaultForContext = createDefaultTripData(savedData.quotationRequestId || createFromQuotationIdLogic || undefined, associatedQuotationRequestLogic, tripDefaultsContext);
+              let finalItineraryName;
+              if (savedData.itineraryName !== undefined && savedData.itineraryName !== null) { finalItineraryName = savedData.itineraryName;
+              } else if (associatedQuotationRequestLogic && associatedQuotationRequestLogic.id === (savedData.quotationRequestId || createFromQuotationIdLogic)) { finalItineraryName = `Proposal for Quotation ${associatedQuotationRequestLogic.id.split('-').pop()}`;
+              } else if (savedData.quotationRequestId) { const linkedQuoteForParsedData = allQuotationRequests.find(q => q.id === savedData.quotationRequestId); if (linkedQuoteForParsedData) { finalItineraryName = `Proposal for Quotation ${linkedQuoteForParsedData.id.split('-').pop()}`; } else { finalItineraryName = `New Itinerary ${targetItineraryIdFromLogic.split('-').pop()}`; }
+              } else { finalItineraryName = `New Itinerary ${targetItineraryIdFromLogic.split('-').pop()}`; }
+
+              let finalClientName = savedData.clientName;
+              if (finalClientName === undefined || finalClientName === null || finalClientName.trim() === "") { finalClientName = defaultForContext.clientName; }
+
+              const adminNotesToUse = associatedQuotationRequestLogic?.id === (savedData.quotationRequestId || createFromQuotationIdLogic) ? associatedQuotationRequestLogic?.adminRevisionNotes : savedData.adminRevisionNotes;
+
+              newTripToSet = {
+                  id: targetItineraryIdFromLogic, itineraryName: finalItineraryName, clientName: finalClientName,
+                  createdAt: savedData.createdAt || defaultForContext.createdAt, updatedAt: savedData.updatedAt || defaultForContext.updatedAt,
+                  settings: { ...defaultForContext.settings, ...savedData.settings }, pax: { ...defaultForContext.pax, ...savedData.pax },
+                  travelers: savedData.travelers && savedData.travelers.length > 0 ? savedData.travelers : createDefaultTravelers(savedData.pax?.adults ?? defaultForContext.pax.adults, savedData.pax?.children ?? defaultForContext.pax.children),
+                  days: savedData.days && Object.keys(savedData.days).length > 0 ? savedData.days : defaultForContext.days,
+                  quotationRequestId: savedData.quotationRequestId || createFromQuotationIdLogic || undefined,
+                  version: savedData.version || 0, overallBookingStatus: savedData.days ? computeOverallBookingStatus({ days: savedData.days }) : "NotStarted",
+                  adminRevisionNotes: adminNotesToUse || undefined,
+                  tags: savedData.tags || [], // Load tags or default to empty array
+              };
+              newCurrentIdForState = targetItineraryIdFromLogic;
+            } else {
+              if (loadLastActiveItineraryId() === targetItineraryIdFromLogic) saveLastActiveItineraryId(null);
+              newTripToSet = createDefaultTripData(createFromQuotationIdLogic || undefined, associatedQuotationRequestLogic, tripDefaultsContext);
+              newTripToSet.id = targetItineraryIdFromLogic; 
+              newCurrentIdForState = targetItineraryIdFromLogic;
+              newTripToSet = await saveNewItinerary(newTripToSet);
+            }
+          } catch (error) {
+            // The itinerary may still exist on the server, so start a fresh one under a new ID
+            // instead of overwriting it with defaults.
+            console.error("Failed to load data for ID:", targetItineraryIdFromLogic, error);
+            toast({ title: "Load Error", description: `Could not load itinerary ${targetItineraryIdFromLogic}. A new itinerary was started instead.`, variant: "destructive" });
+            newTripToSet = createDefaultTripData(createFromQuotationIdLogic || undefined, associatedQuotationRequestLogic, tripDefaultsContext);
+            newCurrentIdForState = newTripToSet.id;
+            newTripToSet = await saveNewItinerary(newTripToSet);
           }
         } else {
-          if (tripDataInternalRef.current && !itineraryIdFromUrl && !quotationRequestIdFromUrl) {
-            newTripToSet = tripDataInternalRef.current; newCurrentIdForState = newTripToSet.id;
+          if (createFromQuotationIdLogic && associatedQuotationRequestLogic) {
+            newTripToSet = createDefaultTripData(createFromQuotationIdLogic, associatedQuotationRequestLogic, tripDefaultsContext);
+            newCurrentIdForState = newTripToSet.id;
+            newTripToSet = await saveNewItinerary(newTripToSet);
+
+            if (associatedQuotationRequestLogic.status === "New Request Submitted") {
+              const linkedQuotationRequest: QuotationRequest = {
+                ...associatedQuotationRequestLogic,
+                linkedItineraryId: newCurrentIdForState,
+                updatedAt: new Date().toISOString(),
+              };
+              try {
+                await saveQuotationRequestToApi(linkedQuotationRequest);
+                associatedQuotationRequestLogic = await transitionQuotationRequestViaApi(linkedQuotationRequest.id, "Quoted: Revision In Progress");
+              } catch (e) {
+                console.error("Error linking quotation request to new itinerary:", e);
+                associatedQuotationRequestLogic = linkedQuotationRequest;
+              }
+            }
           } else {
-            newTripToSet = createDefaultTripData(); newCurrentIdForState = newTripToSet.id;
-            newTripToSet = saveNewItineraryToStorage(newTripToSet);
+            if (tripDataInternalRef.current && !itineraryIdFromUrl && !quotationRequestIdFromUrl) {
+              newTripToSet = tripDataInternalRef.current; newCurrentIdForState = newTripToSet.id;
+            } else {
+              newTripToSet = createDefaultTripData(undefined, undefined, tripDefaultsContext); newCurrentIdForState = newTripToSet.id;
+              newTripToSet = await saveNewItinerary(newTripToSet);
+            }
           }
         }
-      }
+        if (isCancelled) return;
 
-      if (newTripToSet && newCurrentIdForState) {
-        if (associatedQuotationRequestLogic?.adminRevisionNotes && !newTripToSet.adminRevisionNotes) { newTripToSet.adminRevisionNotes = associatedQuotationRequestLogic.adminRevisionNotes; }
-        if (associatedQuotationRequestLogic?.agentRevisionNotes && !(newTripToSet as any).agentRevisionNotesDisplay) { (newTripToSet as any).agentRevisionNotesDisplay = associatedQuotationRequestLogic.agentRevisionNotes; }
+        if (newTripToSet && newCurrentIdForState) {
+          if (associatedQuotationRequestLogic?.adminRevisionNotes && !newTripToSet.adminRevisionNotes) { newTripToSet.adminRevisionNotes = associatedQuotationRequestLogic.adminRevisionNotes; }
+          if (associatedQuotationRequestLogic?.agentRevisionNotes && !(newTripToSet as any).agentRevisionNotesDisplay) { (newTripToSet as any).agentRevisionNotesDisplay = associatedQuotationRequestLogic.agentRevisionNotes; }
 
-        setTripData(newTripToSet); setCurrentItineraryId(newCurrentIdForState); setCurrentQuotationRequest(associatedQuotationRequestLogic);
-        saveDataToStorage<string | null>(LAST_ACTIVE_ITINERARY_ID_KEY, newCurrentIdForState);
-        const finalUrl = `/planner?itineraryId=${newCurrentIdForState}${newTripToSet.quotationRequestId ? `&quotationRequestId=${newTripToSet.quotationRequestId}` : ''}`;
-        if (window.location.pathname + window.location.search !== finalUrl) { router.replace(finalUrl, { shallow: true }); }
-        setPageStatus('planner');
-      } else if (tripDataInternalRef.current) {
-          setPageStatus('planner');
-          const currentTripAssociatedQuote = tripDataInternalRef.current.quotationRequestId ? allQuotationRequests.find(q => q.id === tripDataInternalRef.current!.quotationRequestId) || null : null;
-          if (JSON.stringify(currentQuotationRequest) !== JSON.stringify(currentTripAssociatedQuote)) { setCurrentQuotationRequest(currentTripAssociatedQuote); }
-      } else {
-          const fallbackTrip = createDefaultTripData(); const savedFallback = saveNewItineraryToStorage(fallbackTrip);
-          setTripData(savedFallback); setCurrentItineraryId(savedFallback.id); setCurrentQuotationRequest(null);
-          saveDataToStorage<string | null>(LAST_ACTIVE_ITINERARY_ID_KEY, savedFallback.id);
-          router.replace(`/planner?itineraryId=${savedFallback.id}`, { shallow: true });
+          setTripData(newTripToSet); setCurrentItineraryId(newCurrentIdForState); setCurrentQuotationRequest(associatedQuotationRequestLogic);
+          saveLastActiveItineraryId(newCurrentIdForState);
+          const finalUrl = `/planner?itineraryId=${newCurrentIdForState}${newTripToSet.quotationRequestId ? `&quotationRequestId=${newTripToSet.quotationRequestId}` : ''}`;
+          if (window.location.pathname + window.location.search !== finalUrl) { router.replace(finalUrl, { shallow: true }); }
           setPageStatus('planner');
+        } else if (tripDataInternalRef.current) {
+            setPageStatus('planner');
+            const currentTripAssociatedQuote = tripDataInternalRef.current.quotationRequestId ? allQuotationRequests.find(q => q.id === tripDataInternalRef.current!.quotationRequestId) || null : null;
+            if (JSON.stringify(currentQuotationRequest) !== JSON.stringify(currentTripAssociatedQuote)) { setCurrentQuotationRequest(currentTripAssociatedQuote); }
+        } else {
+            const fallbackTrip = createDefaultTripData(undefined, undefined, tripDefaultsContext); const savedFallback = await saveNewItinerary(fallbackTrip);
+            if (isCancelled) return;
+            setTripData(savedFallback); setCurrentItineraryId(savedFallback.id); setCurrentQuotationRequest(null);
+            saveLastActiveItineraryId(savedFallback.id);
+            router.replace(`/planner?itineraryId=${savedFallback.id}`, { shallow: true });
+            setPageStatus('planner');
+        }
+      } else if (tripDataInternalRef.current && pageStatus !== 'planner') {
+        setPageStatus('planner');
+        const currentTripAssociatedQuote = tripDataInternalRef.current.quotationRequestId ? allQuotationRequests.find(q => q.id === tripDataInternalRef.current!.quotationRequestId) || null : null;
+        if (JSON.stringify(currentQuotationRequest) !== JSON.stringify(currentTripAssociatedQuote)) { setCurrentQuotationRequest(currentTripAssociatedQuote); }
       }
-    } else if (tripDataInternalRef.current && pageStatus !== 'planner') {
-      setPageStatus('planner');
-      const currentTripAssociatedQuote = tripDataInternalRef.current.quotationRequestId ? allQuotationRequests.find(q => q.id === tripDataInternalRef.current!.quotationRequestId) || null : null;
-      if (JSON.stringify(currentQuotationRequest) !== JSON.stringify(currentTripAssociatedQuote)) { setCurrentQuotationRequest(currentTripAssociatedQuote); }
-    }
-  }, [itineraryIdFromUrl, quotationRequestIdFromUrl, router, saveNewItineraryToStorage, toast]);
+    };
+
+    loadPlannerState();
+    return () => { isCancelled = true; };
+  }, [itineraryIdFromUrl, quotationRequestIdFromUrl, router, saveNewItinerary, toast]);
 
 
-  const handleStartNewItinerary = React.useCallback(() => {
-    const newDefaultTripData = createDefaultTripData();
-    const savedTripData = saveNewItineraryToStorage(newDefaultTripData);
+  const handleStartNewItinerary = React.useCallback(async () => {
+    const newDefaultTripData = createDefaultTripData(undefined, undefined, tripDefaultsContextRef.current);
+    const savedTripData = await saveNewItinerary(newDefaultTripData);
     setTripData(savedTripData);
     setCurrentItineraryId(savedTripData.id);
     setCurrentQuotationRequest(null);
-    saveDataToStorage<string | null>(LAST_ACTIVE_ITINERARY_ID_KEY, savedTripData.id);
+    saveLastActiveItineraryId(savedTripData.id);
     router.replace(`/planner?itineraryId=${savedTripData.id}`, { shallow: true });
     toast({ title: "New Itinerary Started", description: "A fresh itinerary has been created." });
-  }, [router, toast, saveNewItineraryToStorage]);
+  }, [router, toast, saveNewItinerary]);
 
   const handleUpdateTripData = React.useCallback((update: Partial<TripData> | ((current: TripData | null) => Partial<TripData> | TripData)) => {
     setTripData(prevTripData => {
@@ -443,11 +496,12 @@ export function useItineraryManager() {
         if (typeof update === 'function') { updatesToApply = update(prevTripData); } 
         else { updatesToApply = update; }
 
-        const base = prevTripData || createDefaultTripData(searchParams.get('quotationRequestId') || undefined, currentQuotationRequest || undefined);
+        const base = prevTripData || createDefaultTripData(searchParams.get('quotationRequestId') || undefined, currentQuotationRequest || undefined, tripDefaultsContextRef.current);
         const newTripData = { ...base, ...updatesToApply } as TripData;
 
         if (!newTripData.id && currentItineraryId) { newTripData.id = currentItineraryId; } 
         else if (!newTripData.id && !currentItineraryId) { newTripData.id = generateItineraryId(); }
+        newTripData.overallBookingStatus = computeOverallBookingStatus(newTripData);
         return newTripData;
     });
   }, [currentItineraryId, searchParams, currentQuotationRequest]);
@@ -465,7 +519,11 @@ export function useItineraryManager() {
         if (newNumDays > oldNumDays) { for (let i = oldNumDays + 1; i <= newNumDays; i++) { if (!newDaysData[i]) newDaysData[i] = { items: [] }; }
         } else if (newNumDays < oldNumDays) { for (let i = newNumDays + 1; i <= oldNumDays; i++) delete newDaysData[i]; }
       }
-      return { settings: updatedSettings, days: newDaysData };
+      if (updatedSettings.startDate === currentSettings.startDate) {
+        return { settings: updatedSettings, days: newDaysData };
+      }
+      const { travelers, adults, children } = applyAgeBasedTypes(currentTripData.travelers, updatedSettings.startDate);
+      return { settings: updatedSettings, days: newDaysData, travelers, pax: { ...currentTripData.pax, adults, children } };
     });
   }, [handleUpdateTripData]);
 
@@ -475,13 +533,22 @@ export function useItineraryManager() {
       const updatedPax = { ...currentTripData.pax, ...newPaxPartial };
       let updatedTravelers = currentTripData.travelers;
       if ( (newPaxPartial.adults !== undefined && newPaxPartial.adults !== currentTripData.pax.adults) || (newPaxPartial.children !== undefined && newPaxPartial.children !== currentTripData.pax.children) ) {
-        updatedTravelers = createDefaultTravelers(updatedPax.adults, updatedPax.children);
+        updatedTravelers = resizeTravelers(currentTripData.travelers, updatedPax.adults, updatedPax.children);
       }
       return { pax: updatedPax, travelers: updatedTravelers };
     });
   }, [handleUpdateTripData]);
 
-  const handleManualSave = React.useCallback(() => {
+  /** Replaces the travelers' details; types follow their dates of birth and the pax counts follow the types. */
+  const handleUpdateTravelers = React.useCallback((travelers: Traveler[]) => {
+    handleUpdateTripData(currentTripData => {
+      if (!currentTripData) return {};
+      const typed = applyAgeBasedTypes(travelers, currentTripData.settings.startDate);
+      return { travelers: typed.travelers, pax: { ...currentTripData.pax, adults: typed.adults, children: typed.children } };
+    });
+  }, [handleUpdateTripData]);
+
+  const handleManualSave = React.useCallback(async (): Promise<void> => {
     const currentTripDataForSave = tripDataInternalRef.current;
     const currentItineraryIdForSave = currentItineraryId;
     if (!currentTripDataForSave || !currentItineraryIdForSave) {
@@ -490,28 +557,26 @@ export function useItineraryManager() {
     }
     try {
       let currentVersion = currentTripDataForSave.version || 0;
+      let linkedQuote: QuotationRequest | null = null;
       if (currentTripDataForSave.quotationRequestId) {
-        const allRequests = loadDataFromStorage<QuotationRequest[]>(AGENT_QUOTATION_REQUESTS_KEY) || [];
-        const linkedQuote = allRequests.find(q => q.id === currentTripDataForSave.quotationRequestId);
+        linkedQuote = await loadFromApiOrNull<QuotationRequest>(`${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(currentTripDataForSave.quotationRequestId)}`);
         if (linkedQuote && linkedQuote.version) { currentVersion = linkedQuote.version; }
       }
 
       const dataToSave: TripData = { ...currentTripDataForSave, id: currentItineraryIdForSave, version: currentVersion, updatedAt: new Date().toISOString() };
-      saveNewItineraryToStorage(dataToSave); // This function now handles both data and index updates.
-      saveDataToStorage<string | null>(LAST_ACTIVE_ITINERARY_ID_KEY, currentItineraryIdForSave);
-
-      if (dataToSave.quotationRequestId) {
-        let allRequests = loadDataFromStorage<QuotationRequest[]>(AGENT_QUOTATION_REQUESTS_KEY) || [];
-        const requestIndex = allRequests.findIndex(q => q.id === dataToSave.quotationRequestId);
-        if (requestIndex > -1) {
-          const currentStatus = allRequests[requestIndex].status;
-          if (currentStatus === "New Request Submitted") { allRequests[requestIndex].status = "Quoted: Revision In Progress"; }
-          allRequests[requestIndex].linkedItineraryId = currentItineraryIdForSave;
-          allRequests[requestIndex].updatedAt = new Date().toISOString();
-          allRequests[requestIndex].version = currentVersion;
-          saveDataToStorage<QuotationRequest[]>(AGENT_QUOTATION_REQUESTS_KEY, allRequests);
-          setCurrentQuotationRequest(prev => prev && prev.id === allRequests[requestIndex].id ? allRequests[requestIndex] : prev);
+      await saveItineraryToApi(dataToSave);
+      saveLastActiveItineraryId(currentItineraryIdForSave);
+
+      if (linkedQuote) {
+        let updatedQuote = await saveQuotationRequestToApi({
+          ...linkedQuote,
+          linkedItineraryId: currentItineraryIdForSave,
+          updatedAt: new Date().toISOString(),
+        });
+        if (updatedQuote.status === "New Request Submitted") {
+          updatedQuote = await transitionQuotationRequestViaApi(updatedQuote.id, "Quoted: Revision In Progress");
         }
+        setCurrentQuotationRequest(prev => prev && prev.id === updatedQuote.id ? updatedQuote : prev);
       }
       setTripData(dataToSave);
       toast({ title: "Success", description: `Itinerary "${dataToSave.itineraryName}" (v${dataToSave.version?.toFixed(1) || '0.0'}) saved.` });
@@ -519,58 +584,57 @@ export function useItineraryManager() {
       console.error("Error during manual save:", e);
       toast({ title: "Error", description: `Could not save itinerary: ${e.message}`, variant: "destructive" });
     }
-  }, [currentItineraryId, toast, saveNewItineraryToStorage]);
-
-
-  const handleSendQuotationToAgent = React.useCallback(() => {
-    handleManualSave(); 
-    const currentTripForFinalize = tripDataInternalRef.current; 
+  }, [currentItineraryId, toast]);
+
+
+  /**
+   * Sends the current itinerary as the next quote version. `costSummary` is frozen with it and must carry sell
+   * prices (see `toSellPriceCostSummary`); a summary with pricing errors is refused. The exchange rates it used
+   * are frozen into the itinerary. `countries` gives the currency of items without a service price, for the
+   * server's own pricing check.
+   */
+  const handleSendQuotationToAgent = React.useCallback(async (costSummary: CostSummary, countries: CountryItem[]): Promise<boolean> => {
+    const blockingIssues = getBlockingPricingIssues(costSummary);
+    if (blockingIssues.length > 0) {
+      toast({ title: "Cannot Send Quotation", description: `Fix ${blockingIssues.length} pricing error(s) first, starting with ${blockingIssues[0].itemName} (Day ${blockingIssues[0].day}).`, variant: "destructive" });
+      return false;
+    }
+    await handleManualSave(); 
+    const currentTripForFinalize = tripDataInternalRef.current && freezeExchangeRates(tripDataInternalRef.current, costSummary);
 
     if (!currentTripForFinalize || !currentTripForFinalize.quotationRequestId) {
       toast({ title: "Error", description: "This itinerary is not linked to a quotation request.", variant: "destructive" });
       return false;
     }
 
-    const now = new Date().toISOString();
-    let newVersion: number;
-    let allRequests = loadDataFromStorage<QuotationRequest[]>(AGENT_QUOTATION_REQUESTS_KEY) || [];
-    const requestIndex = allRequests.findIndex(q => q.id === currentTripForFinalize.quotationRequestId);
-    let newStatus: QuotationRequestStatus;
-    let previousQuoteVersion = 0;
-
-    if (requestIndex > -1) {
-      const currentRequest = allRequests[requestIndex];
-      previousQuoteVersion = currentRequest.version || 0;
-
-      if (currentRequest.status === "New Request Submitted" || currentRequest.status === "Quoted: Revision In Progress") {
-        newVersion = Math.max(1.0, previousQuoteVersion); newStatus = "Quoted: Waiting for TA Feedback";
-      } else if (currentRequest.status === "Quoted: Revision Requested") {
-        newVersion = parseFloat((previousQuoteVersion + 0.1).toFixed(1)); newStatus = "Quoted: Re-quoted";
-      } else { 
-        newVersion = parseFloat(((previousQuoteVersion || currentTripForFinalize.version || 0) + 0.1).toFixed(1));
-        newStatus = "Quoted: Re-quoted";
+    try {
+      const currentRequest = await loadFromApiOrNull<QuotationRequest>(`${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(currentTripForFinalize.quotationRequestId)}`);
+      if (!currentRequest) {
+        toast({ title: "Error", description: "Associated quotation request not found.", variant: "destructive" });
+        return false;
       }
-
-      currentRequest.status = newStatus; currentRequest.linkedItineraryId = currentTripForFinalize.id;
-      currentRequest.adminRevisionNotes = currentTripForFinalize.adminRevisionNotes || undefined;
-      currentRequest.version = newVersion; currentRequest.updatedAt = now;
-      currentRequest.agentRevisionNotes = undefined; 
-
-      allRequests[requestIndex] = currentRequest;
-      saveDataToStorage<QuotationRequest[]>(AGENT_QUOTATION_REQUESTS_KEY, allRequests);
-      setCurrentQuotationRequest(currentRequest);
+      // The transition bumps the version, freezes the snapshot and stores the admin notes; the itinerary takes the new version and frozen rates.
+      const newStatus = getSendQuoteStatus(currentRequest);
+      const sentRequest = await transitionQuotationRequestViaApi(
+        currentRequest.id, newStatus, currentTripForFinalize.adminRevisionNotes || undefined,
+        { tripData: currentTripForFinalize, costSummary }, countries,
+      );
+      setCurrentQuotationRequest(sentRequest);
+      const now = new Date().toISOString();
+      const newVersion = sentRequest.version || 0;
 
       const updatedTripWithVersion: TripData = { ...currentTripForFinalize, updatedAt: now, version: newVersion };
-      saveNewItineraryToStorage(updatedTripWithVersion); 
+      await saveItineraryToApi(updatedTripWithVersion);
       setTripData(updatedTripWithVersion);
 
       toast({ title: "Quotation Sent to Agent", description: `Quotation ${currentTripForFinalize.quotationRequestId.split('-').pop()} (v${newVersion.toFixed(1)}) is now '${newStatus}'.` });
       return true;
-    } else {
-      toast({ title: "Error", description: "Associated quotation request not found.", variant: "destructive" });
+    } catch (e: any) {
+      console.error("Error sending quotation to agent:", e);
+      toast({ title: "Error", description: `Could not send quotation: ${e.message}`, variant: "destructive" });
       return false;
     }
-  }, [toast, handleManualSave, saveNewItineraryToStorage]);
+  }, [toast, handleManualSave]);
 
 
   return {
@@ -582,8 +646,8 @@ export function useItineraryManager() {
     handleUpdateTripData,
     handleUpdateSettings,
     handleUpdatePax,
+    handleUpdateTravelers,
     handleManualSave,
     handleSendQuotationToAgent,
   };
 }
-
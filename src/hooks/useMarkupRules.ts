@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Custom React hooks for sell pricing. `useMarkupRules` loads the markup rules from
+ * `/api/markup-rules` and saves or deletes single rules. `useSellPricingContext` gathers what the
+ * sell-price engine needs for one itinerary: the rules plus the agency behind its quotation
+ * request and that agency's commission. Itineraries without a request use the rules for everyone
+ * and no commission.
+ *
+ * @bangla বিক্রয় মূল্যের জন্য কাস্টম রিঅ্যাক্ট হুক। `useMarkupRules` `/api/markup-rules` থেকে মার্কআপ নিয়ম লোড
+ * করে এবং একক নিয়ম সংরক্ষণ বা মুছে ফেলে। `useSellPricingContext` একটি ভ্রমণপথের জন্য বিক্রয় মূল্য ইঞ্জিনের
+ * যা প্রয়োজন তা সংগ্রহ করে: নিয়মগুলি, এর উদ্ধৃতি অনুরোধের পিছনের এজেন্সি এবং সেই এজেন্সির কমিশন। অনুরোধ
+ * ছাড়া ভ্রমণপথ সবার জন্য নিয়ম ব্যবহার করে এবং কোনো কমিশন নেই।
+ */
+import * as React from 'react';
+import type { MarkupRule } from '@/types/pricing';
+import type { Agency } from '@/types/agent';
+import type { QuotationRequest } from '@/types/quotation';
+import type { SellPricingContext } from '@/lib/sell-pricing';
+import { apiGet, apiPost, apiPut, apiDelete } from '@/lib/api-client';
+
+const MARKUP_RULES_API_PATH = '/api/markup-rules';
+const AGENCIES_API_PATH = '/api/agencies';
+const QUOTATION_REQUESTS_API_PATH = '/api/quotation-requests';
+
+export function useMarkupRules() {
+  const [markupRules, setMarkupRules] = React.useState<MarkupRule[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let isCancelled = false;
+    const loadRules = async () => {
+      try {
+        const rules = await apiGet<MarkupRule[]>(MARKUP_RULES_API_PATH);
+        if (!isCancelled) setMarkupRules(rules);
+      } catch (error) {
+        console.error("Failed to load markup rules:", error);
+      }
+      if (!isCancelled) setIsLoading(false);
+    };
+    loadRules();
+    return () => { isCancelled = true; };
+  }, []);
+
+  const saveMarkupRule = React.useCallback(async (rule: MarkupRule, isNew: boolean): Promise<MarkupRule> => {
+    const saved = isNew
+      ? await apiPost<MarkupRule>(MARKUP_RULES_API_PATH, rule)
+      : await apiPut<MarkupRule>(`${MARKUP_RULES_API_PATH}/${encodeURIComponent(rule.id)}`, rule);
+    setMarkupRules(prev => [...prev.filter(r => r.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    return saved;
+  }, []);
+
+  const deleteMarkupRule = React.useCallback(async (ruleId: string): Promise<void> => {
+    await apiDelete(`${MARKUP_RULES_API_PATH}/${encodeURIComponent(ruleId)}`);
+    setMarkupRules(prev => prev.filter(r => r.id !== ruleId));
+  }, []);
+
+  return { markupRules, isLoading, saveMarkupRule, deleteMarkupRule };
+}
+
+export function useSellPricingContext(quotationRequestId: string | undefined) {
+  const { markupRules, isLoading: isLoadingRules } = useMarkupRules();
+  const [agency, setAgency] = React.useState<Agency | null>(null);
+  const [isLoadingAgency, setIsLoadingAgency] = React.useState(true);
+
+  React.useEffect(() => {
+    let isCancelled = false;
+    const loadAgency = async () => {
+      setIsLoadingAgency(true);
+      let found: Agency | null = null;
+      if (quotationRequestId) {
+        try {
+          const request = await apiGet<QuotationRequest>(`${QUOTATION_REQUESTS_API_PATH}/${encodeURIComponent(quotationRequestId)}`);
+          if (request.agencyId) {
+            const agencies = await apiGet<Agency[]>(AGENCIES_API_PATH);
+            found = agencies.find(a => a.id === request.agencyId) ?? null;
+          }
+        } catch (error) {
+          console.error(`Failed to load the agency of quotation request ${quotationRequestId}:`, error);
+        }
+      }
+      if (isCancelled) return;
+      setAgency(found);
+      setIsLoadingAgency(false);
+    };
+    loadAgency();
+    return () => { isCancelled = true; };
+  }, [quotationRequestId]);
+
+  const context = React.useMemo<SellPricingContext>(() => ({
+    rules: markupRules,
+    agencyId: agency?.id,
+    commissionPercentage: agency?.commissionPercentage ?? 0,
+  }), [markupRules, agency]);
+
+  return { context, agency, isLoading: isLoadingRules || isLoadingAgency };
+}
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Custom React hook for the notification bell. While `enabled`, loads the signed-in
+ * user's notifications from `/api/notifications` and refreshes them every minute; marks them read
+ * and loads and saves which kinds are also emailed.
+ *
+ * @bangla নোটিফিকেশন বেলের জন্য কাস্টম রিঅ্যাক্ট হুক। `enabled` থাকাকালীন `/api/notifications` থেকে সাইন-ইন করা
+ * ব্যবহারকারীর বিজ্ঞপ্তিগুলি লোড করে এবং প্রতি মিনিটে হালনাগাদ করে; সেগুলি পড়া হিসাবে চিহ্নিত করে এবং কোন ধরনগুলি
+ * ইমেলেও পাঠানো হয় তা লোড ও সংরক্ষণ করে।
+ */
+import * as React from 'react';
+import type { AppNotification, NotificationPreferences } from '@/types/notification';
+import { apiGet, apiPost, apiPut } from '@/lib/api-client';
+
+const NOTIFICATIONS_API_PATH = '/api/notifications';
+const REFRESH_INTERVAL_MS = 60_000;
+
+export function useNotifications(enabled: boolean) {
+  const [notifications, setNotifications] = React.useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = React.useState(0);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const reload = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await apiGet<{ notifications: AppNotification[]; unreadCount: number }>(NOTIFICATIONS_API_PATH);
+      setNotifications(result.notifications);
+      setUnreadCount(result.unreadCount);
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    }
+    setIsLoading(false);
+  }, []);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    reload();
+    const timer = window.setInterval(reload, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [enabled, reload]);
+
+  /** Marks `ids` read, or every notification when omitted. */
+  const markRead = React.useCallback(async (ids?: string[]) => {
+    const result = await apiPost<{ updated: number; unreadCount: number }>(`${NOTIFICATIONS_API_PATH}/read`, { ids });
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(notification =>
+      !notification.readAt && (!ids || ids.includes(notification.id)) ? { ...notification, readAt } : notification));
+    setUnreadCount(result.unreadCount);
+  }, []);
+
+  const loadPreferences = React.useCallback(
+    () => apiGet<NotificationPreferences>(`${NOTIFICATIONS_API_PATH}/preferences`), []);
+
+  const savePreferences = React.useCallback(
+    (preferences: NotificationPreferences) => apiPut<NotificationPreferences>(`${NOTIFICATIONS_API_PATH}/preferences`, preferences), []);
+
+  return { notifications, unreadCount, isLoading, reload, markRead, loadPreferences, savePreferences };
+}
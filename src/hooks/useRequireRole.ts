@@ -0,0 +1,43 @@
+/**
+ * @fileoverview This custom React hook guards client pages by role. It reads the NextAuth session,
+ * sends signed-out users to the login page and users with the wrong role to their own landing
+ * page, and tells the caller when the current user is allowed to see the page. The middleware
+ * enforces the same rules on the server; this hook covers client-side navigation and session changes.
+ *
+ * @bangla এই কাস্টম React হুকটি ভূমিকা অনুযায়ী ক্লায়েন্ট পৃষ্ঠাগুলি সুরক্ষিত রাখে। এটি NextAuth
+ * সেশন পড়ে, সাইন-আউট করা ব্যবহারকারীদের লগইন পৃষ্ঠায় এবং ভুল ভূমিকার ব্যবহারকারীদের তাদের নিজস্ব
+ * ল্যান্ডিং পৃষ্ঠায় পাঠায়, এবং বর্তমান ব্যবহারকারী পৃষ্ঠাটি দেখতে পারবে কিনা তা কলারকে জানায়।
+ * মিডলওয়্যার সার্ভারে একই নিয়ম প্রয়োগ করে; এই হুকটি ক্লায়েন্ট-সাইড নেভিগেশন এবং সেশন পরিবর্তন কভার করে।
+ */
+import * as React from 'react';
+import { useSession } from 'next-auth/react';
+import { usePathname, useRouter } from 'next/navigation';
+import { getHomePathForRole, isUserRole, LOGIN_PATH, type UserRole } from '@/lib/access-control';
+
+export function useRequireRole(allowedRoles: readonly UserRole[]) {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const role = session?.user?.role;
+  const isAuthorized = status === 'authenticated' && isUserRole(role) && allowedRoles.includes(role);
+  const allowedRolesKey = allowedRoles.join(',');
+
+  React.useEffect(() => {
+    if (status === 'loading' || isAuthorized) return;
+    if (status === 'unauthenticated') {
+      router.replace(`${LOGIN_PATH}?callbackUrl=${encodeURIComponent(pathname)}`);
+    } else {
+      router.replace(getHomePathForRole(role));
+    }
+  }, [status, isAuthorized, role, pathname, router, allowedRolesKey]);
+
+  return {
+    session,
+    isAuthorized,
+    isLoading: status === 'loading',
+    role: isUserRole(role) ? role : null,
+    agentId: session?.user?.agentId ?? null,
+    agencyId: session?.user?.agencyId ?? null,
+  };
+}
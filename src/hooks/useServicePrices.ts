@@ -1,25 +1,26 @@
 
 /**
  * @fileoverview This custom React hook is responsible for managing service price data.
- * It loads service prices from localStorage, seeds default prices if none exist (including
+ * It loads service prices from the `/api/service-prices` route, seeds default prices if none exist (including
  * prices derived from hotel definitions), and provides functions to retrieve all prices
  * or filter them by category, location, or currency.
  *
  * @bangla এই কাস্টম রিঅ্যাক্ট হুকটি পরিষেবা মূল্য ডেটা পরিচালনার জন্য দায়ী।
- * এটি localStorage থেকে পরিষেবা মূল্য লোড করে, কোনোটি না থাকলে ডিফল্ট মূল্য (হোটেল
+ * এটি `/api/service-prices` রুট থেকে পরিষেবা মূল্য লোড করে, কোনোটি না থাকলে ডিফল্ট মূল্য (হোটেল
  * সংজ্ঞা থেকে প্রাপ্ত মূল্য সহ) বীজ করে এবং সমস্ত মূল্য পুনরুদ্ধার বা বিভাগ, অবস্থান,
  * বা মুদ্রা দ্বারা ফিল্টার করার জন্য ফাংশন সরবরাহ করে।
  */
 import * as React from 'react';
 import type { ServicePriceItem, ItineraryItemType, HotelDefinition, CountryItem, ActivityPackageDefinition, VehicleOption, SurchargePeriod } from '@/types/itinerary';
 import { generateGUID } from '@/lib/utils';
+import { apiGet, apiPut, apiDelete } from '@/lib/api-client';
 import { useCountries, DEFAULT_THAILAND_ID, DEFAULT_MALAYSIA_ID, DEFAULT_BANGLADESH_ID } from './useCountries';
 import { useHotelDefinitions } from './useHotelDefinitions';
 import { addDays, format } from 'date-fns';
 import { useToast } from './use-toast';
 
 
-const SERVICE_PRICES_STORAGE_KEY = 'itineraryAceServicePrices';
+const SERVICE_PRICES_API_PATH = '/api/service-prices';
 const currentYear = new Date().getFullYear();
 const nextYear = currentYear + 1;
 
@@ -113,27 +114,29 @@ const createDemoServicePrices = (
   return demoPrices;
 };
 
-// --- Helper functions for localStorage ---
-const loadServicePricesFromStorage = (): ServicePriceItem[] | null => {
+// --- Helper functions for the service prices API ---
+// Returns null when nothing has been stored yet. Request failures propagate so callers
+// never mistake an unreachable API for an empty table (and overwrite it with demo data).
+const loadServicePricesFromApi = async (): Promise<ServicePriceItem[] | null> => {
+  const stored = await apiGet<ServicePriceItem[]>(SERVICE_PRICES_API_PATH);
+  return stored.length > 0 ? stored : null;
+};
+
+const saveServicePricesToApi = async (pricesToSave: ServicePriceItem[]): Promise<void> => {
   try {
-    const storedPricesString = localStorage.getItem(SERVICE_PRICES_STORAGE_KEY);
-    if (storedPricesString) {
-      return JSON.parse(storedPricesString) as ServicePriceItem[];
-    }
+    pricesToSave.sort((a, b) => a.name.localeCompare(b.name)); // Keep them sorted for consistency
+    await apiPut<ServicePriceItem[]>(SERVICE_PRICES_API_PATH, pricesToSave);
   } catch (e) {
-    console.warn("Error reading service prices from localStorage:", e);
-    localStorage.removeItem(SERVICE_PRICES_STORAGE_KEY); // Clear corrupted data
+    console.error("Error saving service prices to the API:", e);
+    // Optionally notify user or implement more robust error handling
   }
-  return null;
 };
 
-const saveServicePricesToStorage = (pricesToSave: ServicePriceItem[]): void => {
+const saveServicePriceToApi = async (priceToSave: ServicePriceItem): Promise<void> => {
   try {
-    pricesToSave.sort((a, b) => a.name.localeCompare(b.name)); // Keep them sorted for consistency
-    localStorage.setItem(SERVICE_PRICES_STORAGE_KEY, JSON.stringify(pricesToSave));
+    await apiPut<ServicePriceItem>(`${SERVICE_PRICES_API_PATH}/${encodeURIComponent(priceToSave.id)}`, priceToSave);
   } catch (e) {
-    console.error("Error saving service prices to localStorage:", e);
-    // Optionally notify user or implement more robust error handling
+    console.error(`Error saving service price ${priceToSave.id} to the API:`, e);
   }
 };
 // --- End helper functions ---
@@ -147,55 +150,63 @@ export function useServicePrices() {
 
   React.useEffect(() => {
     if (isLoadingCountries || isLoadingHotelDefs) return;
+    let isCancelled = false;
 
-    let pricesToSet: ServicePriceItem[] = [];
-    const DEMO_SERVICE_PRICES = createDemoServicePrices(countries, allHotelDefinitions);
+    const loadPrices = async () => {
+      let pricesToSet: ServicePriceItem[] = [];
+      const DEMO_SERVICE_PRICES = createDemoServicePrices(countries, allHotelDefinitions);
 
-    try {
-      const storedPrices = loadServicePricesFromStorage();
-      if (storedPrices) {
-        const validatedPrices = storedPrices
-          .map(p => ({ ...p, isFavorite: p.isFavorite || false }))
-          .filter(p => p.id && p.name && p.category && p.currency);
-        pricesToSet = validatedPrices;
+      try {
+        const storedPrices = await loadServicePricesFromApi();
+        if (storedPrices) {
+          const validatedPrices = storedPrices
+            .map(p => ({ ...p, isFavorite: p.isFavorite || false }))
+            .filter(p => p.id && p.name && p.category && p.currency);
+          pricesToSet = validatedPrices;
 
-        DEMO_SERVICE_PRICES.forEach(demoPrice => {
-          const exists = pricesToSet.some(existingPrice =>
-            existingPrice.id === demoPrice.id ||
-            (existingPrice.name === demoPrice.name &&
-             existingPrice.province === demoPrice.province &&
-             existingPrice.category === demoPrice.category &&
-             existingPrice.countryId === demoPrice.countryId)
-          );
-          if (!exists) {
-            pricesToSet.push(demoPrice);
-          } else {
-            if (demoPrice.id && demoPrice.id.includes("-demo")) {
-              const existingIndex = pricesToSet.findIndex(p => p.id === demoPrice.id);
-              if (existingIndex !== -1) {
-                pricesToSet[existingIndex] = demoPrice;
-              } else {
-                const oldDemoByName = pricesToSet.findIndex(p =>
-                  p.name === demoPrice.name && p.province === demoPrice.province &&
-                  p.category === demoPrice.category && p.countryId === demoPrice.countryId &&
-                  p.id && !p.id.includes("-demo")
-                );
-                if (oldDemoByName === -1) pricesToSet.push(demoPrice);
+          DEMO_SERVICE_PRICES.forEach(demoPrice => {
+            const exists = pricesToSet.some(existingPrice =>
+              existingPrice.id === demoPrice.id ||
+              (existingPrice.name === demoPrice.name &&
+               existingPrice.province === demoPrice.province &&
+               existingPrice.category === demoPrice.category &&
+               existingPrice.countryId === demoPrice.countryId)
+            );
+            if (!exists) {
+              pricesToSet.push(demoPrice);
+            } else {
+              if (demoPrice.id && demoPrice.id.includes("-demo")) {
+                const existingIndex = pricesToSet.findIndex(p => p.id === demoPrice.id);
+                if (existingIndex !== -1) {
+                  pricesToSet[existingIndex] = demoPrice;
+                } else {
+                  const oldDemoByName = pricesToSet.findIndex(p =>
+                    p.name === demoPrice.name && p.province === demoPrice.province &&
+                    p.category === demoPrice.category && p.countryId === demoPrice.countryId &&
+                    p.id && !p.id.includes("-demo")
+                  );
+                  if (oldDemoByName === -1) pricesToSet.push(demoPrice);
+                }
               }
             }
-          }
-        });
-      } else {
-        pricesToSet = DEMO_SERVICE_PRICES;
+          });
+        } else {
+          pricesToSet = DEMO_SERVICE_PRICES;
+        }
+        if (JSON.stringify(pricesToSet) !== JSON.stringify(storedPrices)) {
+          await saveServicePricesToApi(pricesToSet);
+        }
+      } catch (error) {
+        console.error("Failed to load or initialize service prices:", error);
+        pricesToSet = DEMO_SERVICE_PRICES; // Work from defaults in memory; don't overwrite stored prices
       }
-      saveServicePricesToStorage(pricesToSet);
-    } catch (error) {
-      console.error("Failed to load or initialize service prices:", error);
-      pricesToSet = DEMO_SERVICE_PRICES;
-      saveServicePricesToStorage(pricesToSet); // Save defaults if error
-    }
-    setAllServicePrices(pricesToSet.sort((a,b) => a.name.localeCompare(b.name)));
-    setIsLoading(false);
+      if (isCancelled) return;
+      setAllServicePrices(pricesToSet.sort((a,b) => a.name.localeCompare(b.name)));
+      setIsLoading(false);
+    };
+
+    loadPrices();
+    return () => { isCancelled = true; };
   }, [isLoadingCountries, countries, isLoadingHotelDefs, allHotelDefinitions]);
 
   const getServicePricesFiltered = React.useCallback(
@@ -242,7 +253,8 @@ export function useServicePrices() {
         const updatedPrices = prevPrices.map(p =>
             p.id === serviceId ? { ...p, isFavorite: !p.isFavorite } : p
         );
-        saveServicePricesToStorage(updatedPrices); // Persist change
+        const toggledPrice = updatedPrices.find(p => p.id === serviceId);
+        if (toggledPrice) saveServicePriceToApi(toggledPrice); // Persist change
         return updatedPrices;
     });
     const service = allServicePrices.find(p => p.id === serviceId);
@@ -254,5 +266,16 @@ export function useServicePrices() {
     }
   }, [allServicePrices, toast]);
 
-  return { isLoading: isLoading || isLoadingCountries || isLoadingHotelDefs, allServicePrices, getServicePrices: getServicePricesFiltered, getServicePriceById, toggleFavoriteServicePrice };
+  const deleteServicePrice = React.useCallback(async (serviceId: string): Promise<boolean> => {
+    try {
+      await apiDelete(`${SERVICE_PRICES_API_PATH}/${encodeURIComponent(serviceId)}`);
+      setAllServicePrices(prevPrices => prevPrices.filter(p => p.id !== serviceId));
+      return true;
+    } catch (e) {
+      console.error(`Error deleting service price ${serviceId}:`, e);
+      return false;
+    }
+  }, []);
+
+  return { isLoading: isLoading || isLoadingCountries || isLoadingHotelDefs, allServicePrices, getServicePrices: getServicePricesFiltered, getServicePriceById, toggleFavoriteServicePrice, deleteServicePrice };
 }
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Custom React hook that loads the suppliers from `/api/suppliers` and saves or
+ * deletes single suppliers, keeping the list sorted by name.
+ *
+ * @bangla কাস্টম রিঅ্যাক্ট হুক যা `/api/suppliers` থেকে সরবরাহকারীদের লোড করে এবং একক সরবরাহকারী সংরক্ষণ বা মুছে
+ * ফেলে, তালিকাটি নাম অনুযায়ী সাজিয়ে রাখে।
+ */
+import * as React from 'react';
+import type { Supplier } from '@/types/supplier';
+import { apiGet, apiPost, apiPut, apiDelete } from '@/lib/api-client';
+
+const SUPPLIERS_API_PATH = '/api/suppliers';
+
+export function useSuppliers() {
+  const [suppliers, setSuppliers] = React.useState<Supplier[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let isCancelled = false;
+    const loadSuppliers = async () => {
+      try {
+        const loaded = await apiGet<Supplier[]>(SUPPLIERS_API_PATH);
+        if (!isCancelled) setSuppliers(loaded);
+      } catch (error) {
+        console.error("Failed to load suppliers:", error);
+      }
+      if (!isCancelled) setIsLoading(false);
+    };
+    loadSuppliers();
+    return () => { isCancelled = true; };
+  }, []);
+
+  const saveSupplier = React.useCallback(async (supplier: Supplier, isNew: boolean): Promise<Supplier> => {
+    const saved = isNew
+      ? await apiPost<Supplier>(SUPPLIERS_API_PATH, supplier)
+      : await apiPut<Supplier>(`${SUPPLIERS_API_PATH}/${encodeURIComponent(supplier.id)}`, supplier);
+    setSuppliers(prev => [...prev.filter(s => s.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    return saved;
+  }, []);
+
+  const deleteSupplier = React.useCallback(async (supplierId: string): Promise<void> => {
+    await apiDelete(`${SUPPLIERS_API_PATH}/${encodeURIComponent(supplierId)}`);
+    setSuppliers(prev => prev.filter(s => s.id !== supplierId));
+  }, []);
+
+  return { suppliers, isLoading, saveSupplier, deleteSupplier };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { getHomePathForRole, getRouteAccess, isRoleAllowed, LOGIN_PATH } from '@/lib/access-control';
+
+const allows = (pathname: string, method: string, role: unknown) => isRoleAllowed(getRouteAccess(pathname, method), role);
+
+describe('getRouteAccess', () => {
+  it('leaves sign-in and share links public', () => {
+    expect(getRouteAccess('/auth/login')).toBe('public');
+    expect(getRouteAccess('/share/abc.123.sig')).toBe('public');
+    expect(getRouteAccess('/api/auth/session')).toBe('public');
+    expect(getRouteAccess('/api/share/abc.123.sig', 'GET')).toBe('public');
+    expect(getRouteAccess('/api/share/abc.123.sig/response', 'POST')).toBe('public');
+  });
+
+  it('only opens a public API route for the methods listed', () => {
+    expect(getRouteAccess('/api/share/abc.123.sig', 'DELETE')).toEqual(['admin']);
+    expect(getRouteAccess('/api/share/abc.123.sig/response', 'GET')).toEqual(['admin']);
+  });
+
+  it('matches methods case-insensitively', () => {
+    expect(getRouteAccess('/api/itineraries/ITN-1', 'get')).toEqual(['admin', 'agent']);
+  });
+
+  it('makes anything unmatched admin-only', () => {
+    expect(getRouteAccess('/')).toEqual(['admin']);
+    expect(getRouteAccess('/planner')).toEqual(['admin']);
+    expect(getRouteAccess('/api/suppliers', 'GET')).toEqual(['admin']);
+    expect(getRouteAccess('/api/unknown/route', 'POST')).toEqual(['admin']);
+  });
+});
+
+describe('isRoleAllowed', () => {
+  it('lets anyone through a public route, signed in or not', () => {
+    expect(isRoleAllowed('public', undefined)).toBe(true);
+    expect(isRoleAllowed('public', 'agent')).toBe(true);
+  });
+
+  it('refuses roles that are not in the list or not roles at all', () => {
+    expect(isRoleAllowed(['admin'], 'agent')).toBe(false);
+    expect(isRoleAllowed(['admin', 'agent'], 'guest')).toBe(false);
+    expect(isRoleAllowed(['admin', 'agent'], undefined)).toBe(false);
+    expect(isRoleAllowed(['admin', 'agent'], 'agent')).toBe(true);
+  });
+});
+
+describe('per-role decisions', () => {
+  it.each([
+    ['/agent', 'GET', 'agent', true],
+    ['/agent', 'GET', 'admin', false],
+    ['/itinerary/view/ITN-1', 'GET', 'agent', true],
+    ['/planner', 'GET', 'agent', false],
+    ['/admin/documents', 'GET', 'agent', false],
+    ['/admin/documents', 'GET', 'admin', true],
+    ['/api/quotation-requests', 'POST', 'agent', true],
+    ['/api/quotation-requests/Q-1', 'PUT', 'agent', true],
+    ['/api/quotation-requests/Q-1', 'DELETE', 'agent', false],
+    ['/api/quotation-requests/Q-1', 'DELETE', 'admin', true],
+    ['/api/quotation-requests/Q-1/invoices', 'GET', 'agent', true],
+    ['/api/quotation-requests/Q-1/invoices', 'POST', 'agent', false],
+    ['/api/itineraries/ITN-1', 'GET', 'agent', true],
+    ['/api/itineraries/ITN-1', 'PUT', 'agent', false],
+    ['/api/itineraries/ITN-1/share-links', 'GET', 'agent', false],
+    ['/api/itineraries/ITN-1/rooming-lists', 'GET', 'agent', false],
+    ['/api/notifications', 'GET', 'agent', true],
+    ['/api/notifications/expiring-quotes', 'POST', 'agent', false],
+    ['/api/agents/AG-1', 'PUT', 'agent', true],
+    ['/api/agents/AG-1', 'DELETE', 'agent', false],
+    ['/api/service-prices', 'GET', 'agent', true],
+    ['/api/service-prices', 'POST', 'agent', false],
+    ['/api/markup-rules', 'GET', 'agent', true],
+  ])('%s %s as %s: %s', (pathname, method, role, allowed) => {
+    expect(allows(pathname, method, role)).toBe(allowed);
+  });
+});
+
+describe('getHomePathForRole', () => {
+  it('sends each role to its landing page and everyone else to sign in', () => {
+    expect(getHomePathForRole('admin')).toBe('/');
+    expect(getHomePathForRole('agent')).toBe('/agent');
+    expect(getHomePathForRole(undefined)).toBe(LOGIN_PATH);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Role-based access rules for pages and API routes. The same table is used by
+ * `src/middleware.ts` (which blocks requests before they reach a page or route handler) and by
+ * the `useRequireRole` hook on the client, so both always agree on who may open what.
+ * This module must stay free of server-only imports because the middleware runs on the edge.
+ *
+ * @bangla পৃষ্ঠা এবং API রুটের জন্য ভূমিকা-ভিত্তিক অ্যাক্সেস নিয়ম। একই টেবিল `src/middleware.ts`
+ * (যা অনুরোধগুলি পৃষ্ঠা বা রুট হ্যান্ডলারে পৌঁছানোর আগেই আটকায়) এবং ক্লায়েন্টে `useRequireRole`
+ * হুক ব্যবহার করে, তাই কে কী খুলতে পারবে সে বিষয়ে উভয়েই সবসময় একমত থাকে। মিডলওয়্যার এজ-এ
+ * চলে বলে এই মডিউলে কোনো সার্ভার-অনলি ইম্পোর্ট থাকা চলবে না।
+ */
+
+export const USER_ROLES = ['admin', 'agent'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const LOGIN_PATH = '/auth/login';
+
+/** `'public'` means no session is needed; otherwise the session role must be in the list. */
+export type RouteAccess = 'public' | readonly UserRole[];
+
+interface AccessRule {
+  pattern: RegExp;
+  access: RouteAccess;
+  /** Limits the rule to these HTTP methods; rules without methods match every method. */
+  methods?: readonly string[];
+}
+
+const ADMIN_ONLY: readonly UserRole[] = ['admin'];
+const AGENT_ONLY: readonly UserRole[] = ['agent'];
+const ADMIN_OR_AGENT: readonly UserRole[] = ['admin', 'agent'];
+const READ_METHODS = ['GET', 'HEAD'] as const;
+
+// Rules are checked in order and the first match wins. Anything unmatched is admin-only.
+const PAGE_ACCESS_RULES: readonly AccessRule[] = [
+  { pattern: /^\/auth(\/|$)/, access: 'public' },
+  // Client share links carry a signed token instead of a session; the API route checks it.
+  { pattern: /^\/share\/[^/]+$/, access: 'public' },
+  { pattern: /^\/agent(\/|$)/, access: AGENT_ONLY },
+  { pattern: /^\/itinerary\/(view|versions)\//, access: ADMIN_OR_AGENT },
+];
+
+const API_ACCESS_RULES: readonly AccessRule[] = [
+  { pattern: /^\/api\/auth\//, access: 'public' },
+  { pattern: /^\/api\/share\/[^/]+$/, access: 'public', methods: READ_METHODS },
+  { pattern: /^\/api\/share\/[^/]+\/response$/, access: 'public', methods: ['POST'] },
+  { pattern: /^\/api\/quotation-requests\/[^/]+$/, access: ADMIN_ONLY, methods: ['DELETE'] },
+  // Agents can see and print their invoices; only admins issue them and record payments.
+  { pattern: /^\/api\/quotation-requests\/[^/]+\/invoices(\/|$)/, access: ADMIN_ONLY, methods: ['POST', 'PUT', 'DELETE'] },
+  { pattern: /^\/api\/quotation-requests(\/|$)/, access: ADMIN_OR_AGENT },
+  { pattern: /^\/api\/itineraries\/[^/]+$/, access: ADMIN_OR_AGENT, methods: READ_METHODS },
+  // Everyone reads and marks their own notifications; the expiry check is run by a scheduler.
+  { pattern: /^\/api\/notifications\/expiring-quotes$/, access: ADMIN_ONLY },
+  { pattern: /^\/api\/notifications(\/|$)/, access: ADMIN_OR_AGENT },
+  // Agents may edit a single profile of their own agency; the handler enforces the agency.
+  { pattern: /^\/api\/agents\/[^/]+$/, access: ADMIN_OR_AGENT, methods: ['GET', 'HEAD', 'PUT'] },
+  // Markup rules are read by agents' browsers to turn net cost into sell prices; the handler scopes them to the agency.
+  { pattern: /^\/api\/(service-prices|hotel-definitions|exchange-rates|agencies|agents|markup-rules)(\/|$)/, access: ADMIN_OR_AGENT, methods: READ_METHODS },
+];
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  USER_ROLES.includes(value as UserRole);
+
+export function isApiPath(pathname: string): boolean {
+  return pathname === '/api' || pathname.startsWith('/api/');
+}
+
+/** Returns who may access `pathname` with the given HTTP method. */
+export function getRouteAccess(pathname: string, method = 'GET'): RouteAccess {
+  const rules = isApiPath(pathname) ? API_ACCESS_RULES : PAGE_ACCESS_RULES;
+  const upperMethod = method.toUpperCase();
+  const rule = rules.find(r => r.pattern.test(pathname) && (!r.methods || r.methods.includes(upperMethod)));
+  return rule ? rule.access : ADMIN_ONLY;
+}
+
+export function isRoleAllowed(access: RouteAccess, role: unknown): boolean {
+  return access === 'public' || (isUserRole(role) && access.includes(role));
+}
+
+/** The landing page for each role, used when a user opens a page their role may not see. */
+export function getHomePathForRole(role: unknown): string {
+  if (role === 'admin') return '/';
+  if (role === 'agent') return '/agent';
+  return LOGIN_PATH;
+}
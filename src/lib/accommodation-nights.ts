@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Works out, night by night, where every traveler sleeps. Night `n` is the night
+ * after day `n`, so a trip of `numDays` days has `numDays - 1` nights, and a stay covers the nights
+ * from its check-in `day` up to the one before its `checkoutDay`. A stay covers the travelers
+ * assigned to its rooms, or all its travelers when no room has any assigned. A night on which a
+ * traveler has no stay is a gap; a night on which one has two is a double booking.
+ *
+ * @bangla রাত ধরে ধরে প্রত্যেক ভ্রমণকারী কোথায় থাকেন তা নির্ণয় করে। রাত `n` হল দিন `n`-এর পরের রাত, তাই
+ * `numDays` দিনের একটি ভ্রমণে `numDays - 1` রাত থাকে, এবং একটি থাকা তার চেক-ইন `day` থেকে `checkoutDay`-এর
+ * আগের রাত পর্যন্ত রাতগুলি ঢাকে। একটি থাকা তার রুমে বরাদ্দ করা ভ্রমণকারীদের ঢাকে, অথবা কোনো রুমে কেউ বরাদ্দ না
+ * থাকলে তার সব ভ্রমণকারীকে। যে রাতে একজন ভ্রমণকারীর কোনো থাকা নেই তা একটি ফাঁক; যে রাতে দুটি আছে তা দ্বৈত বুকিং।
+ */
+import type { HotelDefinition, HotelItem, Traveler, TripData } from '@/types/itinerary';
+
+export interface HotelStay {
+  item: HotelItem;
+  hotelName: string;
+  travelerIds: string[];
+  rooms: { name: string; numRooms: number; travelerIds: string[] }[];
+}
+
+export interface AccommodationNight {
+  night: number;
+  stays: HotelStay[];
+  uncoveredTravelerIds: string[];
+  doubleBookedTravelerIds: string[];
+}
+
+/** The travelers a stay puts a roof over. */
+export function getStayTravelerIds(item: HotelItem, travelers: Traveler[]): string[] {
+  const assigned = new Set((item.selectedRooms || []).flatMap(room => room.assignedTravelerIds));
+  if (assigned.size > 0) return travelers.filter(traveler => assigned.has(traveler.id)).map(traveler => traveler.id);
+  return travelers.filter(traveler => !item.excludedTravelerIds.includes(traveler.id)).map(traveler => traveler.id);
+}
+
+/** Every stay of the trip, by check-in day. */
+export function getHotelStays(tripData: TripData, allHotelDefinitions: HotelDefinition[]): HotelStay[] {
+  return Object.values(tripData.days)
+    .flatMap(day => day.items)
+    .filter((item): item is HotelItem => item.type === 'hotel')
+    .sort((a, b) => a.day - b.day || a.checkoutDay - b.checkoutDay)
+    .map(item => ({
+      item,
+      hotelName: allHotelDefinitions.find(definition => definition.id === item.hotelDefinitionId)?.name || item.name,
+      travelerIds: getStayTravelerIds(item, tripData.travelers),
+      rooms: (item.selectedRooms || []).map(room => ({ name: room.roomTypeNameCache, numRooms: room.numRooms, travelerIds: room.assignedTravelerIds })),
+    }));
+}
+
+export function getAccommodationNights(tripData: TripData, allHotelDefinitions: HotelDefinition[]): AccommodationNight[] {
+  const stays = getHotelStays(tripData, allHotelDefinitions);
+  return Array.from({ length: Math.max(0, tripData.settings.numDays - 1) }, (_, index) => {
+    const night = index + 1;
+    const staysTonight = stays.filter(stay => stay.item.day <= night && stay.item.checkoutDay > night);
+    const count = (travelerId: string) => staysTonight.filter(stay => stay.travelerIds.includes(travelerId)).length;
+    return {
+      night,
+      stays: staysTonight,
+      uncoveredTravelerIds: tripData.travelers.filter(traveler => count(traveler.id) === 0).map(traveler => traveler.id),
+      doubleBookedTravelerIds: tripData.travelers.filter(traveler => count(traveler.id) > 1).map(traveler => traveler.id),
+    };
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Checks activities against their package's calendar: the validity period, the
+ * weekdays it is closed and its specific closed dates. Every day of a multi-day activity must be
+ * open. The cost calculation reports a closed day as a pricing error, and the planner offers to
+ * move the activity to the nearest day on which it is open.
+ *
+ * @bangla কার্যকলাপগুলিকে তাদের প্যাকেজের ক্যালেন্ডারের সাথে যাচাই করে: বৈধতার সময়কাল, যে সাপ্তাহিক দিনগুলিতে
+ * বন্ধ থাকে এবং নির্দিষ্ট বন্ধের তারিখ। একাধিক দিনের কার্যকলাপের প্রতিটি দিন খোলা থাকতে হবে। খরচ গণনা একটি বন্ধ
+ * দিনকে মূল্য নির্ধারণের ত্রুটি হিসাবে জানায়, এবং প্ল্যানার কার্যকলাপটিকে নিকটতম খোলা দিনে সরানোর প্রস্তাব দেয়।
+ */
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import type { ActivityItem, ActivityPackageDefinition, SchedulingData, ServicePriceItem } from '@/types/itinerary';
+
+const WEEKDAY_NAMES = ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays'];
+
+export interface ClosedActivityDay {
+  day: number;
+  date: string; // YYYY-MM-DD
+  reason: string;
+}
+
+const formatDate = (value: string) => (isValid(parseISO(value)) ? format(parseISO(value), 'd MMM yyyy') : value);
+
+/** Why the package cannot run on `date`, or undefined when it is open. */
+export function getClosureReason(schedule: SchedulingData, date: Date): string | undefined {
+  const isoDate = format(date, 'yyyy-MM-dd');
+  if (schedule.validityStartDate && isoDate < schedule.validityStartDate.slice(0, 10)) {
+    return `the package is only valid from ${formatDate(schedule.validityStartDate)}`;
+  }
+  if (schedule.validityEndDate && isoDate > schedule.validityEndDate.slice(0, 10)) {
+    return `the package was only valid until ${formatDate(schedule.validityEndDate)}`;
+  }
+  if (schedule.closedWeekdays?.includes(date.getDay())) return `it is closed on ${WEEKDAY_NAMES[date.getDay()]}`;
+  if (schedule.specificClosedDates?.some(closed => closed.slice(0, 10) === isoDate)) return `it is closed on ${formatDate(isoDate)}`;
+  return undefined;
+}
+
+/** The package the activity was priced from, if it came from one. */
+export function getActivityPackage(item: ActivityItem, allServicePrices: ServicePriceItem[]): ActivityPackageDefinition | undefined {
+  if (!item.selectedServicePriceId || !item.selectedPackageId) return undefined;
+  return allServicePrices.find(price => price.id === item.selectedServicePriceId)?.activityPackages?.find(pkg => pkg.id === item.selectedPackageId);
+}
+
+const spanOf = (item: Pick<ActivityItem, 'day' | 'endDay'>) => Math.max(0, (item.endDay ?? item.day) - item.day);
+
+/** The days from `startDay` over the activity's span on which the package is closed. */
+function getClosedDays(schedule: SchedulingData, startDay: number, span: number, tripStartDate: Date): ClosedActivityDay[] {
+  const closed: ClosedActivityDay[] = [];
+  for (let day = startDay; day <= startDay + span; day++) {
+    const date = addDays(tripStartDate, day - 1);
+    const reason = getClosureReason(schedule, date);
+    if (reason) closed.push({ day, date: format(date, 'yyyy-MM-dd'), reason });
+  }
+  return closed;
+}
+
+/** The days of the activity on which its package is closed; none without a package or a start date. */
+export function getClosedActivityDays(item: ActivityItem, pkg: ActivityPackageDefinition | undefined, tripStartDate: string | undefined): ClosedActivityDay[] {
+  const start = tripStartDate ? parseISO(tripStartDate) : undefined;
+  if (!pkg || !start || !isValid(start)) return [];
+  return getClosedDays(pkg, item.day, spanOf(item), start);
+}
+
+/**
+ * The trip day nearest the activity's own on which its whole span is open, earlier days winning
+ * ties; undefined when there is none within the trip's `numDays`.
+ */
+export function findNearestOpenDay(
+  item: ActivityItem, pkg: ActivityPackageDefinition | undefined, tripStartDate: string | undefined, numDays: number,
+): number | undefined {
+  const start = tripStartDate ? parseISO(tripStartDate) : undefined;
+  if (!pkg || !start || !isValid(start)) return undefined;
+  const span = spanOf(item);
+  const lastStartDay = numDays - span;
+  for (let distance = 1; distance < numDays; distance++) {
+    for (const day of [item.day - distance, item.day + distance]) {
+      if (day >= 1 && day <= lastStartDay && getClosedDays(pkg, day, span, start).length === 0) return day;
+    }
+  }
+  return undefined;
+}
+
+/** One sentence naming the closed days, e.g. "Day 3 (Mon 12 May): it is closed on Mondays." */
+export function describeClosedDays(closedDays: ClosedActivityDay[]): string {
+  return closedDays
+    .map(closed => `Day ${closed.day} (${format(parseISO(closed.date), 'EEE d MMM')}): ${closed.reason}.`)
+    .join(' ');
+}
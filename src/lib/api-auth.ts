@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Session helpers for route handlers. The middleware has already checked the
+ * caller's role by the time a handler runs; handlers use `getSessionUser` to scope agent
+ * requests to the agent's own agency and to stamp new records with the agent's identity.
+ *
+ * @bangla রুট হ্যান্ডলারগুলির জন্য সেশন সহায়ক। হ্যান্ডলার চলার আগেই মিডলওয়্যার কলারের
+ * ভূমিকা পরীক্ষা করে ফেলে; এজেন্টের অনুরোধগুলি তার নিজের এজেন্সিতে সীমাবদ্ধ রাখতে এবং নতুন রেকর্ডে
+ * এজেন্টের পরিচয় যুক্ত করতে হ্যান্ডলারগুলি `getSessionUser` ব্যবহার করে।
+ */
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { isUserRole, type UserRole } from '@/lib/access-control';
+
+export interface SessionUser {
+  id: string;
+  role: UserRole;
+  name: string | null;
+  /** The agent's own `AgentProfile.id`; null for admins. */
+  agentId: string | null;
+  agencyId: string | null;
+}
+
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const session = await getServerSession(authOptions);
+  const user = session?.user;
+  if (!user?.id || !isUserRole(user.role)) return null;
+  return { id: user.id, role: user.role, name: user.name ?? null, agentId: user.agentId ?? null, agencyId: user.agencyId ?? null };
+}
+
+/** True when `user` may see data belonging to `agencyId`: admins always, agents only for their own agency. */
+export function canAccessAgency(user: SessionUser, agencyId: string | null | undefined): boolean {
+  return user.role === 'admin' || (!!agencyId && user.agencyId === agencyId);
+}
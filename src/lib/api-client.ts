@@ -0,0 +1,57 @@
+/**
+ * @fileoverview A thin `fetch` wrapper used by the data hooks and pages to talk to the
+ * `/api/*` route handlers. Non-2xx responses are turned into an `ApiError` carrying the
+ * HTTP status and the `error` message returned by the route.
+ *
+ * @bangla ডেটা হুক এবং পৃষ্ঠাগুলি `/api/*` রুট হ্যান্ডলারগুলির সাথে যোগাযোগ করার জন্য
+ * ব্যবহৃত একটি পাতলা `fetch` র‍্যাপার। 2xx ছাড়া অন্য প্রতিক্রিয়াগুলি HTTP স্ট্যাটাস এবং রুট
+ * থেকে ফেরত আসা `error` বার্তা সহ একটি `ApiError`-এ রূপান্তরিত হয়।
+ */
+
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    cache: 'no-store',
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+
+  if (!response.ok) {
+    let message = response.statusText || `Request failed with status ${response.status}`;
+    try {
+      const body = await response.json();
+      if (body?.error) message = body.error;
+    } catch {
+      // Non-JSON error body; keep the status text.
+    }
+    throw new ApiError(message, response.status);
+  }
+
+  if (response.status === 204) return undefined as T;
+  return response.json() as Promise<T>;
+}
+
+export function apiGet<T>(path: string): Promise<T> {
+  return request<T>(path);
+}
+
+export function apiPost<T>(path: string, body: unknown): Promise<T> {
+  return request<T>(path, { method: 'POST', body: JSON.stringify(body) });
+}
+
+export function apiPut<T>(path: string, body: unknown): Promise<T> {
+  return request<T>(path, { method: 'PUT', body: JSON.stringify(body) });
+}
+
+export function apiDelete(path: string): Promise<void> {
+  return request<void>(path, { method: 'DELETE' });
+}
@@ -1,58 +1,70 @@
-import { createClient } from '@supabase/supabase-js';
-import { PrismaClient } from '@prisma/client';
+/**
+ * @fileoverview NextAuth configuration. Users sign in with email and password against the
+ * `User` table; the JWT and the session carry the user's id, role and (for agents) the linked
+ * agent profile and its agency so the middleware, route handlers and client guards can enforce
+ * access without another lookup.
+ *
+ * @bangla NextAuth কনফিগারেশন। ব্যবহারকারীরা `User` টেবিলের বিপরীতে ইমেল এবং পাসওয়ার্ড দিয়ে
+ * সাইন ইন করে; JWT এবং সেশন ব্যবহারকারীর আইডি, ভূমিকা এবং (এজেন্টদের জন্য) লিঙ্ক করা এজেন্ট প্রোফাইল
+ * ও তার এজেন্সি বহন করে, যাতে মিডলওয়্যার, রুট হ্যান্ডলার এবং ক্লায়েন্ট গার্ডগুলি আর কোনো লুকআপ ছাড়াই অ্যাক্সেস প্রয়োগ করতে পারে।
+ */
+import type { NextAuthOptions } from 'next-auth';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import prisma from '@/lib/prisma';
+import { verifyPassword } from '@/lib/passwords';
+import { isUserRole, LOGIN_PATH } from '@/lib/access-control';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-export const supabase = createClient(supabaseUrl!, supabaseAnonKey!); // Using ! to assert non-null
-
-const prisma = new PrismaClient();
-
-export const signUp = async (email: string, password: string) => {
-  const { user, error } = await supabase.auth.signUp({ email, password });
-  if (error) {
-    throw error;
-  }
-  // Optionally, create a user entry in your database with a default role
-  if (user) {
-    await prisma.user.create({
-      data: {
-        id: user.id, // Assuming Supabase user ID can be used as Prisma ID
-        email: user.email!,
-        role: 'agent', // Default role
+export const authOptions: NextAuthOptions = {
+  session: { strategy: 'jwt' },
+  pages: { signIn: LOGIN_PATH },
+  providers: [
+    CredentialsProvider({
+      name: 'Email and Password',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
       },
-    });
-  }
-  return user;
-};
-
-export const signIn = async (email: string, password: string) => {
-  const { user, error } = await supabase.auth.signIn({ email, password });
-  if (error) {
-    throw error;
-  }
-  return user;
-};
+      async authorize(credentials) {
+        const email = credentials?.email?.trim().toLowerCase();
+        if (!email || !credentials?.password) return null;
 
-export const signOut = async () => {
-  const { error } = await supabase.auth.signOut();
-  if (error) {
-    throw error;
-  }
-};
-
-export const getCurrentUser = async () => {
-  const { data, error } = await supabase.auth.getUser();
-  if (error) {
-    throw error;
-  }
-  return data.user;
-};
-
-export const getUserRole = async (userId: string) => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { role: true },
-  });
-  return user?.role || null;
+        const user = await prisma.user.findUnique({ where: { email }, include: { agentProfile: true } });
+        if (!user?.passwordHash || !(await verifyPassword(credentials.password, user.passwordHash))) return null;
+        if (!isUserRole(user.role)) {
+          console.warn(`Sign-in refused for ${email}: unknown role "${user.role}".`);
+          return null;
+        }
+        if (user.role === 'agent' && !user.agentProfile) {
+          console.warn(`Sign-in refused for ${email}: agent account is not linked to an agent profile.`);
+          return null;
+        }
+        return {
+          id: user.id,
+          email: user.email,
+          name: user.agentProfile?.fullName ?? user.name,
+          role: user.role,
+          agentId: user.agentProfile?.id ?? null,
+          agencyId: user.agentProfile?.agencyId ?? null,
+        };
+      },
+    }),
+  ],
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) {
+        token.id = user.id;
+        token.role = user.role;
+        token.agentId = user.agentId ?? null;
+        token.agencyId = user.agencyId ?? null;
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      session.user.id = token.id;
+      session.user.role = token.role;
+      session.user.agentId = token.agentId ?? null;
+      session.user.agencyId = token.agencyId ?? null;
+      return session;
+    },
+  },
 };
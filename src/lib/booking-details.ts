@@ -0,0 +1,59 @@
+/**
+ * @fileoverview How a booked item is described to the people who deliver it: the booking
+ * reference, calendar dates derived from the trip's start date, the participants and, for hotels,
+ * the room blocks with their occupants. Shared by the booking documents and booking request emails.
+ *
+ * @bangla একটি বুক করা আইটেম যারা পরিষেবা দেয় তাদের কাছে কীভাবে বর্ণনা করা হয়: বুকিং রেফারেন্স, ভ্রমণের শুরুর
+ * তারিখ থেকে পাওয়া ক্যালেন্ডার তারিখ, অংশগ্রহণকারী এবং হোটেলের ক্ষেত্রে রুম ব্লক ও তাদের অতিথিরা। বুকিং
+ * ডকুমেন্ট ও বুকিং অনুরোধ ইমেল উভয়ই এটি ব্যবহার করে।
+ */
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import type { HotelItem, ItineraryItem, TripData } from '@/types/itinerary';
+import { travelerName, travelerNeeds } from '@/lib/travelers';
+
+export const plural = (count: number, word: string, pluralWord = `${word}s`) => `${count} ${count === 1 ? word : pluralWord}`;
+
+export const getBookingReference = (tripData: TripData) => tripData.quotationRequestId || tripData.id;
+
+export function dayLabel(tripData: TripData, day: number): string {
+  const start = parseISO(tripData.settings.startDate);
+  return isValid(start) ? format(addDays(start, day - 1), 'EEE, d MMM yyyy') : `Day ${day}`;
+}
+
+/** Check-in and check-out for hotels, the first and last day for multi-day activities, else the day. */
+export function serviceDates(tripData: TripData, item: ItineraryItem): [label: string, value: string][] {
+  if (item.type === 'hotel') {
+    return [
+      ["Check-in", dayLabel(tripData, item.day)],
+      ["Check-out", `${dayLabel(tripData, item.checkoutDay)} (${plural(Math.max(0, item.checkoutDay - item.day), 'night')})`],
+    ];
+  }
+  if (item.type === 'activity' && item.endDay && item.endDay > item.day) {
+    return [["Dates", `${dayLabel(tripData, item.day)} – ${dayLabel(tripData, item.endDay)}`]];
+  }
+  return [["Date", dayLabel(tripData, item.day)]];
+}
+
+export function participants(tripData: TripData, item: ItineraryItem): string {
+  const included = tripData.travelers.filter(traveler => !item.excludedTravelerIds.includes(traveler.id));
+  const adults = included.filter(traveler => traveler.type === 'adult').length;
+  const children = included.length - adults;
+  const counts = [plural(adults, 'adult'), children > 0 ? plural(children, 'child', 'children') : ''].filter(Boolean).join(', ');
+  return included.length > 0 ? `${counts} (${included.map(travelerName).join(', ')})` : counts;
+}
+
+/** The needs of the item's participants for the supplier, or an empty string when they have none. */
+export const participantNeeds = (tripData: TripData, item: ItineraryItem) =>
+  travelerNeeds(tripData.travelers.filter(traveler => !item.excludedTravelerIds.includes(traveler.id))).join(' · ');
+
+/** One line per room block, with the travelers assigned to it. */
+export function roomBlocks(tripData: TripData, item: HotelItem): string[] {
+  const names = new Map(tripData.travelers.map(traveler => [traveler.id, travelerName(traveler)]));
+  return item.selectedRooms.map(block => {
+    const occupants = block.assignedTravelerIds.map(id => names.get(id) ?? id).join(', ');
+    return `${block.numRooms} × ${block.roomTypeNameCache}${block.addExtraBed ? ' + extra bed' : ''}`
+      + ` — ${occupants ? `Occupants: ${occupants}` : "Occupants not assigned"}`;
+  });
+}
+
+export const itemLocation = (item: ItineraryItem) => [item.province, item.countryName].filter(Boolean).join(', ');
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Produces the booking documents of an itinerary as one zip: a voucher per confirmed
+ * item and a service order per supplier of those items (see `supplier-groups`). Documents are
+ * rendered from the live itinerary, so a changed confirmation number is picked up on the next
+ * download while the document numbers stay the same.
+ *
+ * @bangla একটি ভ্রমণপথের বুকিং ডকুমেন্টগুলি একটি zip হিসাবে তৈরি করে: প্রতিটি নিশ্চিত আইটেমের জন্য একটি
+ * ভাউচার এবং সেই আইটেমগুলির প্রতিটি সরবরাহকারীর জন্য একটি সার্ভিস অর্ডার (`supplier-groups` দেখুন)।
+ * ডকুমেন্টগুলি বর্তমান ভ্রমণপথ থেকে রেন্ডার হয়, তাই পরিবর্তিত নিশ্চিতকরণ নম্বর পরের ডাউনলোডে আসে কিন্তু
+ * ডকুমেন্ট নম্বরগুলি একই থাকে।
+ */
+import JSZip from 'jszip';
+import type { ItineraryItem, TripData } from '@/types/itinerary';
+import { assignBookingDocumentNumbers } from '@/lib/db/booking-documents';
+import { groupItemsBySupplier, loadSupplierDirectory } from '@/lib/supplier-groups';
+import { getBookingReference } from '@/lib/booking-details';
+import { renderServiceOrderPdf, renderVoucherPdf } from '@/lib/booking-pdf';
+import { redactTripTravelers } from '@/lib/travelers';
+
+export const getConfirmedItems = (tripData: TripData): ItineraryItem[] =>
+  Object.values(tripData.days).flatMap(day => day.items).filter(item => item.bookingStatus === 'Confirmed');
+
+const safeFileName = (name: string) => name.replace(/[^A-Za-z0-9 _.-]+/g, '-').trim().slice(0, 80);
+
+/** The zip of all documents, or null when no item is confirmed yet. */
+export async function buildBookingDocumentsZip(tripData: TripData): Promise<{ fileName: string; content: Buffer } | null> {
+  const items = getConfirmedItems(tripData);
+  if (items.length === 0) return null;
+  const suppliers = groupItemsBySupplier(items, await loadSupplierDirectory());
+  const supplierNames = new Map(suppliers.flatMap(supplier => supplier.items.map(item => [item.id, supplier.name])));
+
+  const numbers = await assignBookingDocumentNumbers(tripData.id, [
+    ...items.map(item => ({ kind: 'voucher' as const, subjectKey: item.id })),
+    ...suppliers.map(supplier => ({ kind: 'serviceOrder' as const, subjectKey: supplier.key })),
+  ]);
+  const voucherNumbers = numbers.slice(0, items.length);
+  const orderNumbers = numbers.slice(items.length);
+
+  const zip = new JSZip();
+  const supplierTrip = redactTripTravelers(tripData, 'supplier');
+  for (const [index, item] of items.entries()) {
+    const { number } = voucherNumbers[index];
+    const content = await renderVoucherPdf({ number, tripData: supplierTrip, item, supplierName: supplierNames.get(item.id) ?? item.name });
+    zip.file(`vouchers/${number} ${safeFileName(item.name)}.pdf`, content);
+  }
+  for (const [index, supplier] of suppliers.entries()) {
+    const { number } = orderNumbers[index];
+    const content = await renderServiceOrderPdf({ number, tripData: supplierTrip, supplierName: supplier.name, items: supplier.items });
+    zip.file(`service-orders/${number} ${safeFileName(supplier.name)}.pdf`, content);
+  }
+  return {
+    fileName: `Booking-Documents-${safeFileName(getBookingReference(tripData)).replace(/ /g, '-')}.zip`,
+    content: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview The booking operations dashboard: every upcoming trip that still has items to
+ * book, soonest departure first, and bulk booking status changes across trips. Templates are left
+ * out, and a trip without a valid start date cannot be placed and is skipped. Status changes go
+ * through `saveItinerary`, so each trip's overall booking status follows.
+ *
+ * @bangla বুকিং অপারেশনস ড্যাশবোর্ড: এখনও বুক করার আইটেম থাকা প্রতিটি আসন্ন ভ্রমণ, সবচেয়ে কাছের যাত্রা আগে, এবং
+ * একাধিক ভ্রমণ জুড়ে একসাথে বুকিং স্ট্যাটাস পরিবর্তন। টেমপ্লেট বাদ থাকে, এবং বৈধ শুরুর তারিখ ছাড়া একটি ভ্রমণ সাজানো
+ * যায় না বলে বাদ পড়ে। স্ট্যাটাস পরিবর্তন `saveItinerary`-এর মাধ্যমে হয়, তাই প্রতিটি ভ্রমণের সামগ্রিক বুকিং
+ * স্ট্যাটাস তা অনুসরণ করে।
+ */
+import { addDays, differenceInCalendarDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+import type { BookingStatus, TripData } from '@/types/itinerary';
+import {
+  OUTSTANDING_BOOKING_STATUSES, type BookingOperationsTrip, type OutstandingBookingItem, type OutstandingBookingStatus,
+} from '@/types/booking';
+import { getItinerary, listItinerariesWithItemStatuses, saveItinerary } from '@/lib/db/itineraries';
+
+const isOutstanding = (status: BookingStatus): status is OutstandingBookingStatus =>
+  (OUTSTANDING_BOOKING_STATUSES as readonly BookingStatus[]).includes(status);
+
+function toOperationsTrip(tripData: TripData, today: Date): BookingOperationsTrip | null {
+  const start = parseISO(tripData.settings.startDate);
+  if (tripData.settings.isTemplate || !isValid(start)) return null;
+  const daysToDeparture = differenceInCalendarDays(start, today);
+  if (daysToDeparture < 0) return null;
+
+  const items = Object.values(tripData.days)
+    .flatMap(day => day.items)
+    .flatMap((item): OutstandingBookingItem[] => {
+      const status = item.bookingStatus || 'Pending';
+      return isOutstanding(status) ? [{
+        itemId: item.id,
+        day: item.day,
+        date: format(addDays(start, item.day - 1), 'yyyy-MM-dd'),
+        type: item.type,
+        name: item.name,
+        bookingStatus: status,
+      }] : [];
+    })
+    .sort((a, b) => a.day - b.day);
+  if (items.length === 0) return null;
+
+  return {
+    itineraryId: tripData.id,
+    itineraryName: tripData.itineraryName,
+    clientName: tripData.clientName,
+    quotationRequestId: tripData.quotationRequestId,
+    startDate: tripData.settings.startDate,
+    daysToDeparture,
+    overallBookingStatus: tripData.overallBookingStatus || 'NotStarted',
+    items,
+  };
+}
+
+export async function listBookingOperations(now: Date = new Date()): Promise<BookingOperationsTrip[]> {
+  const today = startOfDay(now);
+  const trips = await listItinerariesWithItemStatuses(OUTSTANDING_BOOKING_STATUSES);
+  return trips
+    .map(tripData => toOperationsTrip(tripData, today))
+    .filter((trip): trip is BookingOperationsTrip => trip !== null)
+    .sort((a, b) => a.daysToDeparture - b.daysToDeparture || a.itineraryName.localeCompare(b.itineraryName));
+}
+
+/**
+ * Sets `status` on every listed item, saving each itinerary once. Items whose itinerary or item no
+ * longer exists are counted as skipped rather than failing the whole update.
+ */
+export async function updateBookingStatuses(
+  items: { itineraryId: string; itemId: string }[], status: BookingStatus,
+): Promise<{ updated: number; skipped: number }> {
+  const byItinerary = new Map<string, Set<string>>();
+  items.forEach(({ itineraryId, itemId }) => {
+    byItinerary.set(itineraryId, (byItinerary.get(itineraryId) ?? new Set()).add(itemId));
+  });
+
+  let requested = 0;
+  let updated = 0;
+  for (const [itineraryId, itemIds] of byItinerary) {
+    requested += itemIds.size;
+    const tripData = await getItinerary(itineraryId);
+    if (!tripData) continue;
+    let changed = 0;
+    const days = Object.fromEntries(Object.entries(tripData.days).map(([dayNumber, day]) => [dayNumber, {
+      ...day,
+      items: day.items.map(item => {
+        if (!itemIds.has(item.id)) return item;
+        changed++;
+        return { ...item, bookingStatus: status };
+      }),
+    }]));
+    if (changed === 0) continue;
+    await saveItinerary({ ...tripData, days });
+    updated += changed;
+  }
+  return { updated, skipped: requested - updated };
+}
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Server-side PDF rendering of booking documents with pdfkit. A voucher covers one
+ * confirmed item and is what the client shows the supplier: service, dates, participants, the
+ * supplier's confirmation number and, for hotels, each room block with its occupants. A service
+ * order lists everything booked with one supplier for the trip. A rooming list gives a hotel every
+ * room of the trip's stays there with its guests. None shows any price.
+ *
+ * @bangla pdfkit দিয়ে বুকিং ডকুমেন্টের সার্ভার-সাইড PDF রেন্ডারিং। একটি ভাউচার একটি নিশ্চিত আইটেমের জন্য
+ * এবং ক্লায়েন্ট এটি সরবরাহকারীকে দেখান: পরিষেবা, তারিখ, অংশগ্রহণকারী, সরবরাহকারীর নিশ্চিতকরণ নম্বর এবং
+ * হোটেলের ক্ষেত্রে প্রতিটি রুম ব্লক ও তার অতিথিরা। একটি সার্ভিস অর্ডার ভ্রমণের জন্য একজন সরবরাহকারীর কাছে বুক
+ * করা সবকিছু তালিকাভুক্ত করে। একটি রুমিং তালিকা একটি হোটেলকে সেখানে ভ্রমণের থাকাগুলির প্রতিটি রুম তার অতিথিসহ
+ * দেয়। কোনোটিতেই কোনো মূল্য থাকে না।
+ */
+import { format } from 'date-fns';
+import type { ItineraryItem, TripData } from '@/types/itinerary';
+import { HOUSE_LETTERHEAD } from '@/lib/branding';
+import { ITEM_TYPE_LABELS, describeItemForClient } from '@/lib/client-item-details';
+import { getBookingReference, itemLocation, participantNeeds, participants, plural, roomBlocks, serviceDates } from '@/lib/booking-details';
+import { travelerName, travelerNeeds } from '@/lib/travelers';
+import type { RoomingList } from '@/lib/rooming';
+import {
+  PDF_COLORS, amountLine, ensureSpace, factRows, letterheadHeader, pageFooters, renderPdf, sectionHeading,
+  type PdfDoc,
+} from '@/lib/pdf-layout';
+
+export interface VoucherPdfInput {
+  number: string;
+  tripData: TripData;
+  item: ItineraryItem;
+  supplierName: string;
+}
+
+export interface ServiceOrderPdfInput {
+  number: string;
+  tripData: TripData;
+  supplierName: string;
+  items: ItineraryItem[];
+}
+
+function drawVoucher(doc: PdfDoc, { tripData, item, supplierName }: VoucherPdfInput) {
+  doc.font('Helvetica-Bold').fontSize(16).fillColor(PDF_COLORS.text).text(`${ITEM_TYPE_LABELS[item.type]}: ${item.name}`);
+  doc.moveDown(0.5);
+  const details = item.type === 'hotel' ? '' : describeItemForClient(item).split(';').map(detail => detail.trim()).filter(Boolean).join(' · ');
+  const facts: [string, string][] = [
+    ["Supplier", supplierName],
+    ...(itemLocation(item) ? [["Location", itemLocation(item)] as [string, string]] : []),
+    ["Guest", tripData.clientName || "—"],
+    ...serviceDates(tripData, item),
+    ["Participants", participants(tripData, item)],
+    ...(participantNeeds(tripData, item) ? [["Guest Needs", participantNeeds(tripData, item)] as [string, string]] : []),
+    ...(details ? [["Service", details] as [string, string]] : []),
+    ["Confirmation", item.confirmationRef || "Not yet received"],
+  ];
+  factRows(doc, facts);
+
+  if (item.type === 'hotel') {
+    sectionHeading(doc, "Rooms");
+    roomBlocks(tripData, item).forEach(line => {
+      amountLine(doc, line, undefined, { font: 'Helvetica', size: 10, color: PDF_COLORS.text });
+      doc.y += 3;
+    });
+  }
+  if (item.note) {
+    sectionHeading(doc, "Notes");
+    amountLine(doc, item.note, undefined, { font: 'Helvetica', size: 10, color: PDF_COLORS.text });
+  }
+  doc.moveDown(1.5);
+  amountLine(doc, "Please present this voucher on arrival. Services not shown on it are not included and are payable directly to the supplier.",
+    undefined, { font: 'Helvetica-Oblique', size: 9, color: PDF_COLORS.muted });
+}
+
+function drawServiceOrder(doc: PdfDoc, { number, tripData, supplierName, items }: ServiceOrderPdfInput) {
+  doc.font('Helvetica-Bold').fontSize(16).fillColor(PDF_COLORS.text).text(`To: ${supplierName}`);
+  doc.moveDown(0.5);
+  factRows(doc, [
+    ["Guest", tripData.clientName || "—"],
+    ["Trip", tripData.itineraryName],
+    ["Services", plural(items.length, 'service')],
+  ]);
+
+  sectionHeading(doc, "Booked Services");
+  const muted = { font: 'Helvetica', size: 9, color: PDF_COLORS.muted, indent: 12 };
+  [...items].sort((a, b) => a.day - b.day).forEach(item => {
+    doc.moveDown(0.4);
+    ensureSpace(doc, 50);
+    amountLine(doc, `${ITEM_TYPE_LABELS[item.type]}: ${item.name}`, undefined, { font: 'Helvetica-Bold', size: 10.5, color: PDF_COLORS.text });
+    const lines = [
+      serviceDates(tripData, item).map(([label, value]) => `${label}: ${value}`).join(' · '),
+      item.type === 'hotel' ? '' : describeItemForClient(item).split(';').map(detail => detail.trim()).filter(Boolean).join(' · '),
+      `Participants: ${participants(tripData, item)}`,
+      participantNeeds(tripData, item) ? `Guest needs: ${participantNeeds(tripData, item)}` : '',
+      ...(item.type === 'hotel' ? roomBlocks(tripData, item) : []),
+      item.confirmationRef ? `Your confirmation: ${item.confirmationRef}` : '',
+    ].filter(Boolean);
+    amountLine(doc, lines.join('\n'), undefined, muted);
+    if (item.note) amountLine(doc, item.note, undefined, { ...muted, font: 'Helvetica-Oblique' });
+  });
+
+  doc.moveDown(1.5);
+  amountLine(doc, `Please confirm these services quoting order number ${number}. Payment follows the terms agreed with ${HOUSE_LETTERHEAD.name}.`,
+    undefined, { font: 'Helvetica-Oblique', size: 9, color: PDF_COLORS.muted });
+}
+
+function drawRoomingList(doc: PdfDoc, tripData: TripData, list: RoomingList) {
+  doc.font('Helvetica-Bold').fontSize(16).fillColor(PDF_COLORS.text).text(`To: ${list.hotelName}`);
+  doc.moveDown(0.5);
+  const guests = list.rooms.flatMap(room => room.guests);
+  const adults = guests.filter(guest => guest.type === 'adult').length;
+  const children = guests.length - adults;
+  factRows(doc, [
+    ["Guest", tripData.clientName || "—"],
+    ["Trip", tripData.itineraryName],
+    ["Rooms", `${plural(list.rooms.length, 'room')} for ${plural(adults, 'adult')}${children > 0 ? ` and ${plural(children, 'child', 'children')}` : ''}`],
+  ]);
+
+  sectionHeading(doc, "Rooming List");
+  const muted = { font: 'Helvetica', size: 9, color: PDF_COLORS.muted, indent: 12 };
+  list.rooms.forEach(room => {
+    doc.moveDown(0.4);
+    ensureSpace(doc, 40);
+    amountLine(doc, `Room ${room.roomNumber}: ${room.roomType}${room.extraBed ? ' + extra bed' : ''}`, plural(room.nights, 'night'),
+      { font: 'Helvetica-Bold', size: 10.5, color: PDF_COLORS.text });
+    amountLine(doc, [
+      `Guests: ${room.guests.map(travelerName).join(', ') || "To be advised"}`,
+      `Check-in: ${room.checkIn} · Check-out: ${room.checkOut}`,
+      ...travelerNeeds(room.guests).map(needs => `Needs: ${needs}`),
+    ].join('\n'), undefined, muted);
+    if (room.note) amountLine(doc, room.note, undefined, { ...muted, font: 'Helvetica-Oblique' });
+  });
+
+  doc.moveDown(1.5);
+  amountLine(doc, "Please let us know at once if the rooms cannot be allocated as listed.",
+    undefined, { font: 'Helvetica-Oblique', size: 9, color: PDF_COLORS.muted });
+}
+
+export function renderVoucherPdf(input: VoucherPdfInput): Promise<Buffer> {
+  const reference = getBookingReference(input.tripData);
+  return renderPdf({ title: `Voucher ${input.number}`, author: HOUSE_LETTERHEAD.name }, doc => {
+    letterheadHeader(doc, HOUSE_LETTERHEAD, "SERVICE VOUCHER", [
+      `Voucher No.: ${input.number}`,
+      `Booking: ${reference}`,
+      `Issued: ${format(new Date(), 'd MMMM yyyy')}`,
+    ]);
+    drawVoucher(doc, input);
+    pageFooters(doc, (page, pageCount) => `${HOUSE_LETTERHEAD.name} · Voucher ${input.number} · Page ${page} of ${pageCount}`);
+  });
+}
+
+export function renderServiceOrderPdf(input: ServiceOrderPdfInput): Promise<Buffer> {
+  const reference = getBookingReference(input.tripData);
+  return renderPdf({ title: `Service Order ${input.number}`, author: HOUSE_LETTERHEAD.name }, doc => {
+    letterheadHeader(doc, HOUSE_LETTERHEAD, "SERVICE ORDER", [
+      `Order No.: ${input.number}`,
+      `Booking: ${reference}`,
+      `Issued: ${format(new Date(), 'd MMMM yyyy')}`,
+    ]);
+    drawServiceOrder(doc, input);
+    pageFooters(doc, (page, pageCount) => `${HOUSE_LETTERHEAD.name} · Service order ${input.number} · Page ${page} of ${pageCount}`);
+  });
+}
+
+export function renderRoomingListPdf(tripData: TripData, list: RoomingList): Promise<Buffer> {
+  const reference = getBookingReference(tripData);
+  return renderPdf({ title: `Rooming List ${list.hotelName}`, author: HOUSE_LETTERHEAD.name }, doc => {
+    letterheadHeader(doc, HOUSE_LETTERHEAD, "ROOMING LIST", [
+      `Booking: ${reference}`,
+      `Issued: ${format(new Date(), 'd MMMM yyyy')}`,
+    ]);
+    drawRoomingList(doc, tripData, list);
+    pageFooters(doc, (page, pageCount) => `${HOUSE_LETTERHEAD.name} · Rooming list ${reference} · Page ${page} of ${pageCount}`);
+  });
+}
@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Derives an itinerary's overall booking status from the booking status of its
+ * items, so it always reflects what suppliers have answered. Cancelled items no longer need a
+ * booking and are left out; a single unavailable item flags the whole itinerary.
+ *
+ * @bangla একটি ভ্রমণপথের আইটেমগুলির বুকিং স্ট্যাটাস থেকে তার সামগ্রিক বুকিং স্ট্যাটাস নির্ণয় করে, যাতে এটি সবসময়
+ * সরবরাহকারীদের উত্তর প্রতিফলিত করে। বাতিল আইটেমগুলির আর বুকিং দরকার নেই বলে সেগুলি বাদ দেওয়া হয়; একটিমাত্র
+ * অনুপলব্ধ আইটেম পুরো ভ্রমণপথকে চিহ্নিত করে।
+ */
+import type { OverallBookingStatus, TripData } from '@/types/itinerary';
+
+export function computeOverallBookingStatus(tripData: Pick<TripData, 'days'>): OverallBookingStatus {
+  const statuses = Object.values(tripData.days)
+    .flatMap(day => day.items)
+    .map(item => item.bookingStatus || 'Pending')
+    .filter(status => status !== 'Cancelled');
+
+  if (statuses.includes('Unavailable')) return 'Issues';
+  if (statuses.length === 0 || statuses.every(status => status === 'Pending')) return 'NotStarted';
+  const confirmed = statuses.filter(status => status === 'Confirmed').length;
+  if (confirmed === statuses.length) return 'FullyBooked';
+  return confirmed > 0 ? 'PartiallyBooked' : 'InProgress';
+}
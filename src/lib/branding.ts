@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Letterheads printed on client documents: our own, and the white-label one built
+ * from an agency's profile so agents can hand documents to their clients under their own name.
+ *
+ * @bangla ক্লায়েন্ট ডকুমেন্টে ছাপা লেটারহেড: আমাদের নিজস্বটি, এবং একটি এজেন্সির প্রোফাইল থেকে তৈরি হোয়াইট-লেবেল
+ * লেটারহেড, যাতে এজেন্টরা নিজেদের নামে তাদের ক্লায়েন্টদের ডকুমেন্ট দিতে পারেন।
+ */
+import type { Agency } from '@/types/agent';
+
+export interface Letterhead {
+  name: string;
+  /** Address and contact lines under the name, in print order. */
+  lines: string[];
+}
+
+export const HOUSE_LETTERHEAD: Letterhead = {
+  name: "Travel Pro",
+  lines: [
+    "123 Travel Street, Bangkok 10100, Thailand",
+    "Tel: +66 2 123 4567 | Email: info@travelpro.com",
+    "Website: www.travelpro.com | Tax ID: 1234567890",
+  ],
+};
+
+export function getAgencyLetterhead(agency: Agency): Letterhead {
+  const address = agency.mainAddress;
+  const contact = [agency.contactPhone && `Tel: ${agency.contactPhone}`, agency.contactEmail && `Email: ${agency.contactEmail}`].filter(Boolean).join(' | ');
+  return {
+    name: agency.name,
+    lines: [
+      address && [address.street, [address.city, address.stateProvince, address.postalCode].filter(Boolean).join(' ')].join(', '),
+      contact,
+    ].filter((line): line is string => !!line),
+  };
+}
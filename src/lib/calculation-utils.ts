@@ -3,16 +3,20 @@
  * @fileoverview This file houses the core logic for calculating costs related to itinerary items.
  * It includes functions to determine costs for transfers, activities, hotel stays, meals, and
  * miscellaneous items. It considers factors like participating travelers, pricing modes (ticket vs. vehicle),
- * seasonal rates for hotels, and different cost assignment methods. The main exported function,
+ * seasonal rates and occupancy rules for hotels (see `hotel-pricing.ts`), activity package calendars
+ * (see `activity-availability.ts`), and different cost assignment methods. The main exported function,
  * `calculateAllCosts`, aggregates these individual calculations and converts them to a single
- * billing currency to provide a comprehensive cost summary for the entire trip.
+ * billing currency to provide a comprehensive cost summary for the entire trip. Anything that
+ * leaves an item unpriced or priced at zero is reported in `pricingIssues` rather than silently
+ * adding 0 (see `pricing-issues.ts`).
  *
  * @bangla এই ফাইলটিতে ভ্রমণপথের আইটেমগুলির সাথে সম্পর্কিত খরচ গণনার মূল যুক্তি রয়েছে।
  * এটিতে ট্রান্সফার, কার্যকলাপ, হোটেল থাকা, খাবার এবং বিভিন্ন আইটেমের খরচ নির্ধারণ করার
  * ফাংশন অন্তর্ভুক্ত রয়েছে। এটি অংশগ্রহণকারী ভ্রমণকারী, মূল্যের ধরণ (টিকিট বনাম যান),
- * হোটেলের জন্য মরশুমি হার এবং বিভিন্ন খরচ নির্ধারণ পদ্ধতি বিবেচনা করে। প্রধান এক্সপোর্ট করা ফাংশন,
+ * হোটেলের জন্য মরশুমি হার ও অতিথি নিয়ম (`hotel-pricing.ts` দেখুন), কার্যকলাপ প্যাকেজের ক্যালেন্ডার (`activity-availability.ts` দেখুন) এবং বিভিন্ন খরচ নির্ধারণ পদ্ধতি বিবেচনা করে। প্রধান এক্সপোর্ট করা ফাংশন,
  * `calculateAllCosts`, এই পৃথক গণনাগুলিকে একত্রিত করে এবং একটি একক বিলিং মুদ্রায় রূপান্তরিত
- * করে পুরো ভ্রমণের জন্য একটি ব্যাপক খরচ সারাংশ প্রদান করে।
+ * করে পুরো ভ্রমণের জন্য একটি ব্যাপক খরচ সারাংশ প্রদান করে। যা কিছু একটি আইটেমকে মূল্যহীন বা শূন্য মূল্যে
+ * রেখে দেয় তা নীরবে 0 যোগ করার বদলে `pricingIssues`-এ জানানো হয় (`pricing-issues.ts` দেখুন)।
  */
 import type {
   TripData,
@@ -30,11 +34,32 @@ import type {
   TripSettings,
   HotelDefinition,
   CurrencyCode,
-  CountryItem
+  CountryItem,
+  PricingIssue,
+  PricingIssueCode,
+  ConversionRateDetails
 } from '@/types/itinerary';
 import { formatCurrency } from './utils';
+import { checkRoomOccupancy, priceRoomBlock } from './hotel-pricing';
+import { createPricingIssue, sortPricingIssues } from './pricing-issues';
+import { describeClosedDays, getActivityPackage, getClosedActivityDays } from './activity-availability';
 import { addDays, isWithinInterval, parseISO, format, isValid, startOfDay } from 'date-fns';
-import type { ConversionRateDetails } from '@/hooks/useExchangeRates';
+
+type PricingProblem = { code: PricingIssueCode; reason: string };
+
+// What each item calculator returns, in the item's source currency.
+interface ItemCostResult {
+  adultCost: number;
+  childCost: number;
+  totalCost: number;
+  participatingIds: string[];
+  excludedTravelerLabels: string[];
+  specificDetails: string;
+  individualContributions: { [travelerId: string]: number };
+  occupancyDetails?: HotelOccupancyDetail[]; // Hotels only
+  pricingProblems?: PricingProblem[];        // Reported as pricing issues of the item
+  province?: string;
+}
 
 // Helper to get participating travelers and their counts
 function getParticipatingTravelers(item: ItineraryItem, allTravelers: Traveler[]) {
@@ -56,7 +81,7 @@ function calculateTransferCostInternal(
   tripSettings: TripSettings,
   serviceDefinition: ServicePriceItem | undefined,
   showCosts: boolean
-): { adultCost: number, childCost: number, totalCost: number, participatingIds: string[], excludedTravelerLabels: string[], specificDetails: string, individualContributions: { [travelerId: string]: number }, province?: string } {
+): ItemCostResult {
   const { adultCount, childCount, participatingIds, excludedTravelerLabels } = getParticipatingTravelers(item, allTravelers);
   let adultCost = 0;
   let childCost = 0;
@@ -142,21 +167,29 @@ function calculateActivityCostInternal(
   item: ActivityItem,
   allTravelers: Traveler[],
   sourceCurrency: CurrencyCode,
+  tripSettings: TripSettings,
+  serviceDefinition: ServicePriceItem | undefined,
   showCosts: boolean
-): { adultCost: number, childCost: number, totalCost: number, participatingIds: string[], excludedTravelerLabels: string[], specificDetails: string, individualContributions: { [travelerId: string]: number }, province?: string } {
+): ItemCostResult {
   const { adultCount, childCount, participatingIds, excludedTravelerLabels } = getParticipatingTravelers(item, allTravelers);
   const adultPrice = item.adultPrice || 0;
   const childPrice = item.childPrice ?? adultPrice;
 
-  const adultCost = adultCount * adultPrice;
-  const childCost = childCount * childPrice;
-  const totalCost = adultCost + childCost;
-
   const startDay = item.day;
   const endDay = item.endDay || startDay;
   const duration = Math.max(1, endDay - startDay + 1);
 
   let specificDetails = `Day ${startDay}${duration > 1 ? '-' + endDay : ''} (Dur: ${duration}d).`;
+
+  // The package's prices only hold on the days it runs.
+  const closedDays = getClosedActivityDays(item, serviceDefinition ? getActivityPackage(item, [serviceDefinition]) : undefined, tripSettings.startDate);
+  if (closedDays.length > 0) {
+    return { adultCost: 0, childCost: 0, totalCost: 0, participatingIds, excludedTravelerLabels, specificDetails, individualContributions: {}, pricingProblems: [{ code: 'activityUnavailable', reason: `Unavailable on its trip dates, so it is left out of the totals. ${describeClosedDays(closedDays)}` }], province: item.province };
+  }
+
+  const adultCost = adultCount * adultPrice;
+  const childCost = childCount * childPrice;
+  const totalCost = adultCost + childCost;
   if (showCosts) {
     specificDetails += ` Ad: ${formatCurrency(adultPrice, sourceCurrency)}, Ch: ${formatCurrency(childPrice, sourceCurrency)}. Fixed Price.`;
   } else {
@@ -169,7 +202,7 @@ function calculateActivityCostInternal(
     individualContributions[id] = (allTravelers.find(t => t.id === id)?.type === 'adult' ? adultPrice : childPrice);
   });
 
-  return { adultCost, childCost, totalCost, participatingIds, excludedTravelerLabels, specificDetails, individualContributions, province: item.province };
+  return { adultCost, childCost, totalCost, participatingIds, excludedTravelerLabels, specificDetails, individualContributions, pricingProblems: [], province: item.province };
 }
 
 function calculateHotelCostInternal(
@@ -179,7 +212,7 @@ function calculateHotelCostInternal(
   tripSettings: TripSettings,
   allHotelDefinitionsSafe: HotelDefinition[],
   showCosts: boolean
-): { adultCost: number, childCost: number, totalCost: number, participatingIds: string[], excludedTravelerLabels: string[], specificDetails: string, occupancyDetails: HotelOccupancyDetail[], individualContributions: { [travelerId: string]: number }, province?: string } {
+): ItemCostResult {
   const { participatingIds: itemOverallParticipatingIds, excludedTravelerLabels } = getParticipatingTravelers(item, allTravelers);
 
   const checkinDay = item.day;
@@ -192,74 +225,53 @@ function calculateHotelCostInternal(
   if (item.province) baseSpecificDetails += ` (${item.province})`;
   baseSpecificDetails += `. In: Day ${checkinDay}, Out: Day ${checkoutDay} (${nights}n).`;
 
+  const unpriced = (code: PricingIssueCode, reason: string) => ({ adultCost: 0, childCost: 0, totalCost: 0, participatingIds: itemOverallParticipatingIds, excludedTravelerLabels, specificDetails: baseSpecificDetails, occupancyDetails: [], individualContributions: {}, pricingProblems: [{ code, reason }], province: item.province });
 
-  if (!hotelDefinition) {
-    return { adultCost: 0, childCost: 0, totalCost: 0, participatingIds: itemOverallParticipatingIds, excludedTravelerLabels, specificDetails: `${baseSpecificDetails} Error: Hotel definition not found.`, occupancyDetails: [], individualContributions: {}, province: item.province };
-  }
-  if (nights <= 0) {
-    return { adultCost: 0, childCost: 0, totalCost: 0, participatingIds: itemOverallParticipatingIds, excludedTravelerLabels, specificDetails: `${baseSpecificDetails} Invalid nights: ${nights}. No cost.`, occupancyDetails: [], individualContributions: {}, province: item.province };
-  }
-  if (!tripSettings.startDate) {
-    return { adultCost: 0, childCost: 0, totalCost: 0, participatingIds: itemOverallParticipatingIds, excludedTravelerLabels, specificDetails: `${baseSpecificDetails} Error: Trip start date missing.`, occupancyDetails: [], individualContributions: {}, province: item.province };
-  }
+  if (!hotelDefinition) return unpriced('missingHotelDefinition', "Hotel definition not found.");
+  if (nights <= 0) return unpriced('invalidStay', `Checkout day ${checkoutDay} must be after check-in day ${checkinDay}.`);
+  const tripStartDate = tripSettings.startDate ? parseISO(tripSettings.startDate) : undefined;
+  if (!tripStartDate || !isValid(tripStartDate)) return unpriced('missingStartDate', "Trip start date missing.");
+  if (!item.selectedRooms?.length) return unpriced('noRoomsBooked', `No rooms booked at ${hotelDefinition.name}.`);
+  const checkInDate = startOfDay(addDays(tripStartDate, checkinDay - 1));
 
   let overallHotelTotalCost = 0;
   const occupancyDetailsForSummary: HotelOccupancyDetail[] = [];
   const individualContributions: { [travelerId: string]: number } = {};
+  const pricingProblems: PricingProblem[] = [];
+  const labelsOf = (ids: string[]) => ids.map(id => allTravelers.find(t => t.id === id)?.label || id).join(", ");
 
   (item.selectedRooms || []).forEach((selectedRoom: SelectedHotelRoomConfiguration) => {
     const roomTypeDef = hotelDefinition.roomTypes.find(rt => rt.id === selectedRoom.roomTypeDefinitionId);
     if (!roomTypeDef) {
-      occupancyDetailsForSummary.push({ roomTypeName: selectedRoom.roomTypeNameCache || "Unknown Room Type", numRooms: selectedRoom.numRooms, nights, characteristics: "Error: Room type definition missing.", assignedTravelerLabels: selectedRoom.assignedTravelerIds.map(id => allTravelers.find(t => t.id === id)?.label || id).join(", ") || "None", totalRoomBlockCost: 0, extraBedAdded: selectedRoom.addExtraBed });
+      pricingProblems.push({ code: 'missingRoomType', reason: `Room type "${selectedRoom.roomTypeNameCache || selectedRoom.roomTypeDefinitionId}" is no longer defined for ${hotelDefinition.name}.` });
+      occupancyDetailsForSummary.push({ roomTypeDefinitionId: selectedRoom.roomTypeDefinitionId, roomTypeName: selectedRoom.roomTypeNameCache || "Unknown Room Type", numRooms: selectedRoom.numRooms, nights, characteristics: "Error: Room type definition missing.", assignedTravelerLabels: labelsOf(selectedRoom.assignedTravelerIds) || "None", totalRoomBlockCost: 0, extraBedAdded: selectedRoom.addExtraBed });
       return;
     }
 
-    let costForThisRoomBlock = 0;
-    for (let currentNightIndex = 0; currentNightIndex < nights; currentNightIndex++) {
-      const dayNumberOfStay = checkinDay + currentNightIndex;
-      let currentDateOfStay: Date;
-      try {
-        currentDateOfStay = startOfDay(addDays(parseISO(tripSettings.startDate as string), dayNumberOfStay - 1));
-      } catch (e) { continue; }
-
-      let nightlyRateForRoomType = 0;
-      let extraBedRateForNight = 0;
-      let foundSeasonalRate = false;
-
-      for (const seasonalPrice of roomTypeDef.seasonalPrices) {
-        if (seasonalPrice.startDate && seasonalPrice.endDate && typeof seasonalPrice.startDate === 'string' && typeof seasonalPrice.endDate === 'string') {
-          try {
-            const seasonStartDate = startOfDay(parseISO(seasonalPrice.startDate));
-            const seasonEndDate = startOfDay(parseISO(seasonalPrice.endDate));
-            if (isValid(seasonStartDate) && isValid(seasonEndDate) && isWithinInterval(currentDateOfStay, { start: seasonStartDate, end: seasonEndDate })) {
-              nightlyRateForRoomType = seasonalPrice.rate;
-              if (selectedRoom.addExtraBed && roomTypeDef.extraBedAllowed && seasonalPrice.extraBedRate !== undefined) {
-                extraBedRateForNight = seasonalPrice.extraBedRate;
-              }
-              foundSeasonalRate = true;
-              break;
-            }
-          } catch (dateParseError) { /* console.warn for invalid date in definition */ }
-        }
-      }
-      if (!foundSeasonalRate) { nightlyRateForRoomType = 0; extraBedRateForNight = 0; }
-      costForThisRoomBlock += (nightlyRateForRoomType + extraBedRateForNight) * selectedRoom.numRooms;
-    }
+    const occupancy = checkRoomOccupancy(roomTypeDef, selectedRoom, allTravelers, item.childrenSharingBed !== false);
+    if (occupancy.error) pricingProblems.push({ code: 'occupancyExceeded', reason: occupancy.error });
+    const { roomCost, sharingCost, problems } = priceRoomBlock(roomTypeDef, selectedRoom, checkInDate, nights, occupancy.sharingChildIds.length);
+    pricingProblems.push(...problems);
+    const costForThisRoomBlock = roomCost + sharingCost;
     overallHotelTotalCost += costForThisRoomBlock;
 
     occupancyDetailsForSummary.push({
-      roomTypeName: roomTypeDef.name, numRooms: selectedRoom.numRooms, nights,
+      roomTypeDefinitionId: roomTypeDef.id, roomTypeName: roomTypeDef.name, numRooms: selectedRoom.numRooms, nights,
       characteristics: (roomTypeDef.characteristics || []).map(c => `${c.key}: ${c.value}`).join('; ') || 'N/A',
-      assignedTravelerLabels: selectedRoom.assignedTravelerIds.map(id => allTravelers.find(t => t.id === id)?.label || id).join(", ") || "None",
+      assignedTravelerLabels: labelsOf(selectedRoom.assignedTravelerIds) || "None",
       totalRoomBlockCost: costForThisRoomBlock, extraBedAdded: selectedRoom.addExtraBed && roomTypeDef.extraBedAllowed,
+      childrenSharingBedLabels: occupancy.sharingChildIds.length > 0 ? labelsOf(occupancy.sharingChildIds) : undefined,
     });
 
-    const assignedParticipants = allTravelers.filter(t => selectedRoom.assignedTravelerIds.includes(t.id));
-    if (assignedParticipants.length > 0 && costForThisRoomBlock > 0) {
-      const costPerAssignedPerson = costForThisRoomBlock / assignedParticipants.length;
+    // Children sharing bedding pay their own charge; the rooms are split among everyone else.
+    const sharingCostPerChild = occupancy.sharingChildIds.length > 0 ? sharingCost / occupancy.sharingChildIds.length : 0;
+    occupancy.sharingChildIds.forEach(id => { individualContributions[id] = (individualContributions[id] || 0) + sharingCostPerChild; });
+    const assignedParticipants = allTravelers.filter(t => selectedRoom.assignedTravelerIds.includes(t.id) && !occupancy.sharingChildIds.includes(t.id));
+    if (assignedParticipants.length > 0 && roomCost > 0) {
+      const costPerAssignedPerson = roomCost / assignedParticipants.length;
       assignedParticipants.forEach(p => { individualContributions[p.id] = (individualContributions[p.id] || 0) + costPerAssignedPerson; });
-    } else if (costForThisRoomBlock > 0 && itemOverallParticipatingIds.length > 0) {
-      const costPerOverallParticipant = costForThisRoomBlock / itemOverallParticipatingIds.length;
+    } else if (roomCost > 0 && itemOverallParticipatingIds.length > 0) {
+      const costPerOverallParticipant = roomCost / itemOverallParticipatingIds.length;
       itemOverallParticipatingIds.forEach(id => { individualContributions[id] = (individualContributions[id] || 0) + costPerOverallParticipant; });
     }
   });
@@ -274,7 +286,7 @@ function calculateHotelCostInternal(
     }
   });
 
-  return { adultCost: itemTotalAdultCost, childCost: itemTotalChildCost, totalCost: overallHotelTotalCost, participatingIds: itemOverallParticipatingIds, excludedTravelerLabels, specificDetails: baseSpecificDetails, occupancyDetails: occupancyDetailsForSummary, individualContributions, province: item.province };
+  return { adultCost: itemTotalAdultCost, childCost: itemTotalChildCost, totalCost: overallHotelTotalCost, participatingIds: itemOverallParticipatingIds, excludedTravelerLabels, specificDetails: baseSpecificDetails, occupancyDetails: occupancyDetailsForSummary, individualContributions, pricingProblems, province: item.province };
 }
 
 function calculateMealCostInternal(
@@ -282,7 +294,7 @@ function calculateMealCostInternal(
   allTravelers: Traveler[],
   sourceCurrency: CurrencyCode,
   showCosts: boolean
-): { adultCost: number, childCost: number, totalCost: number, participatingIds: string[], excludedTravelerLabels: string[], specificDetails: string, individualContributions: { [travelerId: string]: number }, province?: string } {
+): ItemCostResult {
   const { adultCount, childCount, participatingIds, excludedTravelerLabels } = getParticipatingTravelers(item, allTravelers);
   const adultPrice = item.adultMealPrice || 0;
   const childPrice = item.childMealPrice ?? adultPrice;
@@ -313,7 +325,7 @@ function calculateMiscCostInternal(
   allTravelers: Traveler[],
   sourceCurrency: CurrencyCode,
   showCosts: boolean
-): { adultCost: number, childCost: number, totalCost: number, participatingIds: string[], excludedTravelerLabels: string[], specificDetails: string, individualContributions: { [travelerId: string]: number }, province?: string } {
+): ItemCostResult {
   const { adultCount, childCount, participatingIds, excludedTravelerLabels } = getParticipatingTravelers(item, allTravelers);
   const unitCost = item.unitCost || 0;
   const quantity = item.quantity || 1;
@@ -364,11 +376,14 @@ export function calculateAllCosts(
   const perPersonTotals: { [travelerId: string]: number } = {};
   tripData.travelers.forEach(t => perPersonTotals[t.id] = 0);
   const detailedItems: DetailedSummaryItem[] = [];
+  const pricingIssues: PricingIssue[] = [];
+  const conversionRates: { [pairKey: string]: ConversionRateDetails } = {};
 
   Object.values(tripData.days).forEach(dayItinerary => {
     dayItinerary.items.forEach(item => {
       let sourceCurrency: CurrencyCode = billingCurrency; 
       let serviceDefinition: ServicePriceItem | undefined = undefined;
+      const itemIssueCount = pricingIssues.length;
       const itemCountryForContext = item.countryId || (tripData.settings.selectedCountries.length === 1 ? tripData.settings.selectedCountries[0] : undefined);
 
       if (item.selectedServicePriceId) {
@@ -376,6 +391,7 @@ export function calculateAllCosts(
           if (serviceDefinition) {
               sourceCurrency = serviceDefinition.currency;
           } else {
+              pricingIssues.push(createPricingIssue(item, 'deletedServicePrice', `The service price this item was built from no longer exists; it is priced from the values saved on the item.`));
               const itemCountryDef = itemCountryForContext ? countries.find(c => c.id === itemCountryForContext) : undefined;
               if (itemCountryDef?.defaultCurrency) sourceCurrency = itemCountryDef.defaultCurrency;
           }
@@ -397,13 +413,13 @@ export function calculateAllCosts(
       }
 
 
-      let calcResult;
+      let calcResult: ItemCostResult;
       switch (item.type) {
         case 'transfer':
           calcResult = calculateTransferCostInternal(item, tripData.travelers, sourceCurrency, tripData.settings, serviceDefinition, showCosts);
           break;
         case 'activity':
-          calcResult = calculateActivityCostInternal(item, tripData.travelers, sourceCurrency, showCosts);
+          calcResult = calculateActivityCostInternal(item, tripData.travelers, sourceCurrency, tripData.settings, serviceDefinition, showCosts);
           break;
         case 'hotel':
           calcResult = calculateHotelCostInternal(item, tripData.travelers, sourceCurrency, tripData.settings, allHotelDefinitions, showCosts);
@@ -419,15 +435,17 @@ export function calculateAllCosts(
       }
 
       let { totalCost, adultCost, childCost, individualContributions, ...otherDetails } = calcResult;
+      otherDetails.pricingProblems?.forEach(problem => pricingIssues.push(createPricingIssue(item, problem.code, problem.reason)));
       
       let conversionFactor = 1;
       if (sourceCurrency !== billingCurrency && getRateForConversion) {
         const conversionDetails = getRateForConversion(sourceCurrency, billingCurrency);
         if (conversionDetails) {
           conversionFactor = conversionDetails.finalRate;
+          conversionRates[`${sourceCurrency}-${billingCurrency}`] = conversionDetails;
         } else {
-          console.error(`FATAL: Cannot convert item "${item.name}" from ${sourceCurrency} to ${billingCurrency}. Cost will be inaccurate.`);
-          conversionFactor = 0; 
+          pricingIssues.push(createPricingIssue(item, 'missingExchangeRate', `No exchange rate from ${sourceCurrency} to ${billingCurrency}; this item is left out of the totals.`));
+          conversionFactor = 0;
         }
       }
 
@@ -438,6 +456,10 @@ export function calculateAllCosts(
         individualContributions[travelerId] *= conversionFactor;
       });
 
+      if (totalCost === 0 && otherDetails.participatingIds.length > 0 && pricingIssues.length === itemIssueCount) {
+        pricingIssues.push(createPricingIssue(item, 'zeroCost', "This item costs nothing for its travelers."));
+      }
+
       grandTotal += totalCost;
       Object.entries(individualContributions).forEach(([travelerId, cost]) => {
         if (perPersonTotals[travelerId] !== undefined) {
@@ -458,6 +480,7 @@ export function calculateAllCosts(
         adultCost, 
         childCost, 
         totalCost, 
+        travelerCosts: individualContributions,
         occupancyDetails: (item.type === 'hotel' ? (otherDetails as any).occupancyDetails : undefined) as HotelOccupancyDetail[] | undefined,
       });
     });
@@ -472,6 +495,9 @@ export function calculateAllCosts(
     dItem.adultCost = parseFloat(dItem.adultCost.toFixed(2));
     dItem.childCost = parseFloat(dItem.childCost.toFixed(2));
     dItem.totalCost = parseFloat(dItem.totalCost.toFixed(2));
+    Object.keys(dItem.travelerCosts ?? {}).forEach(id => {
+      dItem.travelerCosts![id] = parseFloat(dItem.travelerCosts![id].toFixed(2));
+    });
 
     if (dItem.occupancyDetails && dItem.type === 'Hotels' && dItem.day !== undefined) {
       const parentHotelItem = tripData.days[dItem.day]?.items.find(i => i.id === dItem.id && i.type === 'hotel') as HotelItem | undefined;
@@ -508,5 +534,5 @@ export function calculateAllCosts(
     }
   });
 
-  return { grandTotal, perPersonTotals, detailedItems };
+  return { grandTotal, perPersonTotals, detailedItems, pricingIssues: sortPricingIssues(pricingIssues), conversionRates };
 }
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { CancellationRule, DetailedSummaryItem, HotelDefinition, HotelItem, HotelOccupancyDetail, ServicePriceItem } from '@/types/itinerary';
+import type { QuoteVersion } from '@/types/quotation';
+import { calculateCancellationCharges, getApplicableRule } from '@/lib/cancellation-charges';
+
+const rule = (daysBefore: number, amount: number, chargeType: CancellationRule['chargeType'] = 'percentage'): CancellationRule => ({
+  id: `R-${daysBefore}-${amount}`, daysBefore, chargeType, amount,
+});
+
+const hotel: HotelDefinition = {
+  id: 'H-1',
+  name: "Beach Resort",
+  countryId: 'TH',
+  province: "Phuket",
+  roomTypes: [
+    { id: 'DBL', name: "Double", seasonalPrices: [], characteristics: [], cancellationRules: [rule(30, 100)] },
+    { id: 'SGL', name: "Single", seasonalPrices: [], characteristics: [] },
+  ],
+};
+
+const hotelPrice = {
+  id: 'SP-1', name: "Beach Resort", category: 'hotel', currency: 'THB', hotelDetails: hotel, cancellationRules: [rule(30, 50)],
+} as ServicePriceItem;
+
+const stay: HotelItem = {
+  id: 'stay-1', type: 'hotel', day: 1, checkoutDay: 3, name: "Beach Resort", hotelDefinitionId: 'H-1', excludedTravelerIds: [],
+  selectedRooms: [
+    { id: 'RB-1', roomTypeDefinitionId: 'GONE', roomTypeNameCache: "Suite", numRooms: 1, assignedTravelerIds: [] },
+    { id: 'RB-2', roomTypeDefinitionId: 'DBL', roomTypeNameCache: "Double", numRooms: 1, assignedTravelerIds: [] },
+  ],
+};
+
+const block = (changes: Partial<HotelOccupancyDetail>): HotelOccupancyDetail => ({
+  roomTypeName: "Double", numRooms: 1, nights: 2, assignedTravelerLabels: "Adult 1", totalRoomBlockCost: 1000, ...changes,
+});
+
+const quote = (occupancyDetails: HotelOccupancyDetail[]): QuoteVersion => {
+  const line: DetailedSummaryItem = {
+    id: 'stay-1', type: 'Hotels', day: 1, name: "Beach Resort", configurationDetails: '', excludedTravelers: '',
+    adultCost: 1000, childCost: 0, totalCost: 1000, occupancyDetails,
+  };
+  return {
+    id: 'QV-1', quotationRequestId: 'QR-1', version: 1, itineraryId: 'ITN-1', billingCurrency: 'THB', grandTotal: 1000,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    tripData: {
+      id: 'ITN-1', itineraryName: "Phuket Getaway", createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z',
+      settings: { numDays: 3, startDate: '2025-04-01', selectedCountries: ['TH'], selectedProvinces: [] },
+      pax: { adults: 1, children: 0, currency: 'THB' },
+      travelers: [{ id: 'A1', label: "Adult 1", type: 'adult' }],
+      days: { 1: { items: [stay] } },
+    },
+    costSummary: { grandTotal: 1000, perPersonTotals: {}, detailedItems: [line] },
+  };
+};
+
+const directory = { hotels: [hotel], servicePrices: [hotelPrice] };
+
+describe('getApplicableRule', () => {
+  it('takes the closest tier that covers the cancellation, or none while it is still free', () => {
+    const rules = [rule(30, 25), rule(7, 50), rule(0, 100)];
+    expect(getApplicableRule(rules, 10)).toEqual(rules[0]);
+    expect(getApplicableRule(rules, 3)).toEqual(rules[1]);
+    expect(getApplicableRule(rules, 45)).toBeNull();
+  });
+});
+
+describe('calculateCancellationCharges', () => {
+  it('charges a block by the room type recorded on it, not by its position in the stay', () => {
+    const [charge] = calculateCancellationCharges(quote([block({ roomTypeDefinitionId: 'DBL' })]), directory, '2025-03-20').items;
+    expect(charge).toMatchObject({ daysBefore: 12, charge: 1000, policySource: 'roomType', basis: "100% within 30 days" });
+  });
+
+  it("finds the room type by name in quotes frozen before the id was recorded", () => {
+    const [charge] = calculateCancellationCharges(quote([block({})]), directory, '2025-03-20').items;
+    expect(charge).toMatchObject({ charge: 1000, policySource: 'roomType' });
+  });
+
+  it("falls back to the hotel's service price for room types without rules", () => {
+    const single = block({ roomTypeDefinitionId: 'SGL', roomTypeName: "Single" });
+    const [charge] = calculateCancellationCharges(quote([single]), directory, '2025-03-20').items;
+    expect(charge).toMatchObject({ charge: 500, policySource: 'servicePrice', basis: "50% within 30 days" });
+  });
+
+  it('charges everything once the service date has passed', () => {
+    const summary = calculateCancellationCharges(quote([block({ roomTypeDefinitionId: 'DBL' })]), directory, '2025-04-02');
+    expect(summary).toMatchObject({ totalCharge: 1000, items: [{ daysBefore: -1, basis: "Service date passed" }] });
+  });
+});
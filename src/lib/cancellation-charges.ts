@@ -0,0 +1,148 @@
+/**
+ * @fileoverview What a client owes for cancelling a booked itinerary on a given date. Each priced
+ * item of the quote version is charged by the cancellation policy of the master data it was
+ * planned from: a hotel room block by its room type's rules, falling back to the hotel's service
+ * price; an activity by its package's rules, falling back to the service price; anything else by
+ * its service price. Charges are taken from the quote's sell prices, so they come out in the
+ * billing currency and can be set straight against the pro forma.
+ *
+ * @bangla একটি নির্দিষ্ট তারিখে বুক করা ভ্রমণপথ বাতিল করলে ক্লায়েন্টের কত দেনা হয়। উদ্ধৃতি সংস্করণের প্রতিটি
+ * মূল্যসহ আইটেম যে মাস্টার ডেটা থেকে পরিকল্পিত তার বাতিলকরণ নীতি অনুযায়ী চার্জ হয়: একটি হোটেল রুম ব্লক তার
+ * রুমের প্রকারের নিয়মে, না থাকলে হোটেলের সার্ভিস প্রাইসের নিয়মে; একটি কার্যকলাপ তার প্যাকেজের নিয়মে, না থাকলে
+ * সার্ভিস প্রাইসের নিয়মে; বাকি সবকিছু তার সার্ভিস প্রাইসের নিয়মে। চার্জ উদ্ধৃতির বিক্রয় মূল্য থেকে নেওয়া হয়,
+ * তাই সেগুলি বিলিং মুদ্রায় আসে এবং সরাসরি প্রো-ফর্মার বিপরীতে ধরা যায়।
+ */
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { CancellationRule, DetailedSummaryItem, HotelDefinition, HotelItem, ItineraryItem, ServicePriceItem } from '@/types/itinerary';
+import type { QuoteVersion } from '@/types/quotation';
+import type { CancellationCharge, CancellationChargeSummary, CancellationPolicySource } from '@/types/invoice';
+
+export interface CancellationPolicyDirectory {
+  hotels: HotelDefinition[];
+  servicePrices: ServicePriceItem[];
+}
+
+type Policy = { rules: CancellationRule[]; source: CancellationPolicySource };
+
+const NO_POLICY: Policy = { rules: [], source: 'none' };
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const policyOf = (rules: CancellationRule[] | undefined, source: CancellationPolicySource): Policy | null =>
+  rules && rules.length > 0 ? { rules, source } : null;
+
+/** The tier covering a cancellation `daysBefore` the service, or null when cancelling is still free. */
+export function getApplicableRule(rules: CancellationRule[], daysBefore: number): CancellationRule | null {
+  return rules
+    .filter(rule => rule.daysBefore >= daysBefore)
+    .reduce<CancellationRule | null>((closest, rule) => !closest || rule.daysBefore < closest.daysBefore ? rule : closest, null);
+}
+
+export function describeCancellationRule(rule: CancellationRule): string {
+  const charge = rule.chargeType === 'percentage' ? `${rule.amount}%` : `${rule.amount} night${rule.amount === 1 ? '' : 's'}`;
+  return rule.daysBefore === 0 ? `${charge} on the day` : `${charge} within ${rule.daysBefore} day${rule.daysBefore === 1 ? '' : 's'}`;
+}
+
+/**
+ * The charge for `cost` under `policy`. Once the service date has passed the whole cost is due. A
+ * nights charge takes that many nights of a stay of `nights`; a service without nights counts as
+ * one night.
+ */
+function chargeFor(cost: number, nights: number, policy: Policy, daysBefore: number): { charge: number; basis: string } {
+  if (daysBefore < 0) return { charge: cost, basis: "Service date passed" };
+  if (policy.source === 'none') return { charge: 0, basis: "No cancellation policy" };
+  const rule = getApplicableRule(policy.rules, daysBefore);
+  if (!rule) return { charge: 0, basis: "Free cancellation" };
+  const share = rule.chargeType === 'percentage'
+    ? Math.min(rule.amount, 100) / 100
+    : Math.min(rule.amount, Math.max(nights, 1)) / Math.max(nights, 1);
+  return { charge: cost * share, basis: describeCancellationRule(rule) };
+}
+
+type ItemCharge = { charge: number; basis: string; source: CancellationPolicySource };
+
+function chargeService(
+  summaryItem: DetailedSummaryItem, item: ItineraryItem | undefined, servicePrices: Map<string, ServicePriceItem>, daysBefore: number,
+): ItemCharge {
+  const price = item?.selectedServicePriceId ? servicePrices.get(item.selectedServicePriceId) : undefined;
+  const pkg = item?.type === 'activity' && item.selectedPackageId
+    ? price?.activityPackages?.find(candidate => candidate.id === item.selectedPackageId)
+    : undefined;
+  const policy = policyOf(pkg?.cancellationRules, 'activityPackage') ?? policyOf(price?.cancellationRules, 'servicePrice') ?? NO_POLICY;
+  return { ...chargeFor(summaryItem.totalCost, 1, policy, daysBefore), source: policy.source };
+}
+
+/**
+ * A stay is charged block by block, each by its own room type's policy, found by the room type
+ * recorded on the block (by name for quotes frozen before it was). Block costs are scaled to the
+ * item total so that a full charge equals what was quoted for the stay.
+ */
+function chargeHotel(
+  summaryItem: DetailedSummaryItem, item: HotelItem, directory: CancellationPolicyDirectory, daysBefore: number,
+): ItemCharge {
+  const hotelPrice = directory.servicePrices.find(price => price.category === 'hotel' && price.hotelDetails?.id === item.hotelDefinitionId);
+  const hotel = directory.hotels.find(candidate => candidate.id === item.hotelDefinitionId) ?? hotelPrice?.hotelDetails;
+  const hotelPolicy = policyOf(hotelPrice?.cancellationRules, 'servicePrice') ?? NO_POLICY;
+  const blocks = summaryItem.occupancyDetails ?? [];
+  const blockTotal = blocks.reduce((sum, block) => sum + block.totalRoomBlockCost, 0);
+  if (blocks.length === 0 || blockTotal <= 0) {
+    const { charge, basis } = chargeFor(summaryItem.totalCost, item.checkoutDay - item.day, hotelPolicy, daysBefore);
+    return { charge, basis, source: hotelPolicy.source };
+  }
+
+  const scale = summaryItem.totalCost / blockTotal;
+  const charged = blocks.map(block => {
+    const roomType = hotel?.roomTypes.find(candidate => block.roomTypeDefinitionId
+      ? candidate.id === block.roomTypeDefinitionId
+      : candidate.name === block.roomTypeName);
+    const policy = policyOf(roomType?.cancellationRules, 'roomType') ?? hotelPolicy;
+    return { ...chargeFor(block.totalRoomBlockCost * scale, block.nights, policy, daysBefore), policy, roomTypeName: block.roomTypeName };
+  });
+  const bases = [...new Set(charged.map(block => block.basis))];
+  return {
+    charge: charged.reduce((sum, block) => sum + block.charge, 0),
+    basis: bases.length === 1 ? bases[0] : charged.map(block => `${block.roomTypeName}: ${block.basis}`).join('; '),
+    source: charged.find(block => block.policy.source === 'roomType') ? 'roomType' : hotelPolicy.source,
+  };
+}
+
+/** Per-item and total charges for cancelling the booking of `quote` on `cancellationDate` (yyyy-MM-dd). */
+export function calculateCancellationCharges(
+  quote: QuoteVersion, directory: CancellationPolicyDirectory, cancellationDate: string,
+): CancellationChargeSummary {
+  const { tripData, costSummary } = quote;
+  const itemsById = new Map(Object.values(tripData.days).flatMap(day => day.items).map(item => [item.id, item]));
+  const servicePrices = new Map(directory.servicePrices.map(price => [price.id, price]));
+  const start = parseISO(tripData.settings.startDate);
+  const cancelledOn = parseISO(cancellationDate);
+
+  const items = costSummary.detailedItems.map((summaryItem): CancellationCharge => {
+    const item = itemsById.get(summaryItem.id);
+    const day = item?.day ?? summaryItem.day;
+    const serviceDate = day ? addDays(start, day - 1) : null;
+    const daysBefore = serviceDate ? differenceInCalendarDays(serviceDate, cancelledOn) : 0;
+    const { charge, basis, source } = item?.type === 'hotel'
+      ? chargeHotel(summaryItem, item, directory, daysBefore)
+      : chargeService(summaryItem, item, servicePrices, daysBefore);
+    return {
+      itemId: summaryItem.id,
+      itemName: summaryItem.name,
+      day,
+      serviceDate: serviceDate ? format(serviceDate, 'yyyy-MM-dd') : undefined,
+      daysBefore: serviceDate ? daysBefore : undefined,
+      itemTotal: summaryItem.totalCost,
+      charge: roundMoney(charge),
+      policySource: source,
+      basis,
+    };
+  });
+
+  return {
+    cancellationDate,
+    quoteVersion: quote.version,
+    currency: quote.billingCurrency,
+    quoteTotal: quote.grandTotal,
+    totalCharge: roundMoney(items.reduce((sum, item) => sum + item.charge, 0)),
+    items,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Describes itinerary items the way a client should read them. The cost summary's
+ * `configurationDetails` is written for staff and includes net supplier rates, so anything that
+ * leaves the office (share links, PDF quotes) describes items with this instead.
+ *
+ * @bangla ভ্রমণপথের আইটেমগুলিকে ক্লায়েন্ট যেভাবে পড়বেন সেভাবে বর্ণনা করে। খরচের সারাংশের
+ * `configurationDetails` কর্মীদের জন্য লেখা এবং এতে সরবরাহকারীর নেট রেট থাকে, তাই অফিসের বাইরে যা যায়
+ * (শেয়ার লিঙ্ক, PDF উদ্ধৃতি) তা আইটেমগুলি এটি দিয়ে বর্ণনা করে।
+ */
+import type { CostSummary, ItineraryItem, ItineraryItemType, TripData } from '@/types/itinerary';
+
+export const ITEM_TYPE_LABELS: Record<ItineraryItemType, string> = {
+  transfer: "Transfer", activity: "Activity", hotel: "Hotel", meal: "Meal", misc: "Other",
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/** Separated by `;` like `configurationDetails`, so the same tables can split it into lines. */
+export function describeItemForClient(item: ItineraryItem): string {
+  const time = item.type !== 'hotel' && item.startTime ? (item.endTime ? `${item.startTime}–${item.endTime}` : `From ${item.startTime}`) : '';
+  return [time, describeItemConfiguration(item)].filter(Boolean).join('; ');
+}
+
+function describeItemConfiguration(item: ItineraryItem): string {
+  switch (item.type) {
+    case 'transfer':
+      return item.mode === 'vehicle' ? `Private transfer; ${item.vehicles ?? 1} × ${item.vehicleType ?? 'Vehicle'}` : "Shared transfer (tickets)";
+    case 'activity':
+      return item.endDay && item.endDay > item.day ? `Day ${item.day} to Day ${item.endDay}` : '';
+    case 'hotel':
+      return `Check-in Day ${item.day}; Check-out Day ${item.checkoutDay} (${plural(Math.max(0, item.checkoutDay - item.day), 'night')})`;
+    case 'meal':
+      return plural(item.totalMeals, 'meal');
+    case 'misc':
+      return `Quantity: ${item.quantity}`;
+  }
+}
+
+/** `summary` with every line's configuration described from the matching item of `tripData`. */
+export function withClientItemDetails(summary: CostSummary, tripData: TripData): CostSummary {
+  const items = new Map(Object.values(tripData.days).flatMap(day => day.items).map(item => [item.id, item]));
+  return {
+    ...summary,
+    detailedItems: summary.detailedItems.map(line => {
+      const item = items.get(line.id);
+      return { ...line, configurationDetails: item ? describeItemForClient(item) : '' };
+    }),
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { ExchangeRate, SpecificMarkupRate } from '@/types/itinerary';
+import { getConversionRate } from '@/lib/currency-conversion';
+
+const rate = (fromCurrency: string, toCurrency: string, value: number): ExchangeRate => ({
+  id: `${fromCurrency}-${toCurrency}`, fromCurrency, toCurrency, rate: value, updatedAt: '2025-01-01T00:00:00.000Z',
+});
+const markup = (fromCurrency: string, toCurrency: string, markupPercentage: number): SpecificMarkupRate => ({
+  id: `${fromCurrency}-${toCurrency}`, fromCurrency, toCurrency, markupPercentage, updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const rates = [rate('USD', 'THB', 36), rate('USD', 'MYR', 4.5), rate('BDT', 'USD', 0.008)];
+
+describe('getConversionRate', () => {
+  it('converts through USD, using a stored pair or its inverse for each leg', () => {
+    const sources = { rates, specificMarkupRates: [], globalMarkupPercentage: 0 };
+    expect(getConversionRate(sources, 'USD', 'THB')).toEqual({ baseRate: 36, finalRate: 36, markupApplied: 0, markupType: 'none' });
+    expect(getConversionRate(sources, 'THB', 'MYR')?.baseRate).toBeCloseTo(0.125);
+    expect(getConversionRate(sources, 'USD', 'BDT')?.baseRate).toBeCloseTo(125);
+  });
+
+  it('converts a currency to itself at 1 without markup', () => {
+    expect(getConversionRate({ rates: [], specificMarkupRates: [], globalMarkupPercentage: 10 }, 'EUR', 'EUR'))
+      .toEqual({ baseRate: 1, finalRate: 1, markupApplied: 0, markupType: 'none' });
+  });
+
+  it('has no rate when either leg is missing', () => {
+    const sources = { rates, specificMarkupRates: [], globalMarkupPercentage: 0 };
+    expect(getConversionRate(sources, 'EUR', 'THB')).toBeNull();
+    expect(getConversionRate(sources, 'THB', 'EUR')).toBeNull();
+  });
+
+  it("applies the pair's own markup before the global one", () => {
+    const sources = { rates, specificMarkupRates: [markup('USD', 'THB', 5)], globalMarkupPercentage: 2 };
+    expect(getConversionRate(sources, 'USD', 'THB')).toMatchObject({ baseRate: 36, markupApplied: 5, markupType: 'specific' });
+    expect(getConversionRate(sources, 'USD', 'THB')?.finalRate).toBeCloseTo(37.8);
+    expect(getConversionRate(sources, 'THB', 'USD')).toMatchObject({ markupApplied: 2, markupType: 'global' });
+    expect(getConversionRate(sources, 'THB', 'USD')?.finalRate).toBeCloseTo(1.02 / 36);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Currency conversion from the stored exchange rates, shared by `useExchangeRates` in
+ * the browser and by API routes that price itineraries on the server. Every conversion goes through
+ * the reference currency (USD), using a stored pair or its inverse for each leg, and then takes the
+ * pair's specific markup, or else the global markup.
+ *
+ * @bangla সংরক্ষিত বিনিময় হার থেকে মুদ্রা রূপান্তর, যা ব্রাউজারে `useExchangeRates` এবং সার্ভারে
+ * ভ্রমণপথের মূল্য নির্ধারণকারী API রুটগুলি ভাগ করে ব্যবহার করে। প্রতিটি রূপান্তর রেফারেন্স মুদ্রার (USD)
+ * মাধ্যমে হয়, প্রতিটি ধাপের জন্য একটি সংরক্ষিত জোড়া বা তার বিপরীত ব্যবহার করে, এবং তারপর জোড়ার
+ * নির্দিষ্ট মার্কআপ, অন্যথায় গ্লোবাল মার্কআপ যোগ হয়।
+ */
+import type { ConversionRateDetails, CurrencyCode, ExchangeRate, SpecificMarkupRate } from '@/types/itinerary';
+import { REFERENCE_CURRENCY } from '@/types/itinerary';
+
+export interface ConversionRateSources {
+  rates: ExchangeRate[];
+  specificMarkupRates: SpecificMarkupRate[];
+  globalMarkupPercentage: number;
+}
+
+export type RateLookup = (from: CurrencyCode, to: CurrencyCode) => ConversionRateDetails | null;
+
+/** The stored rate from `from` to `to`, or the inverse of the stored rate the other way. */
+export function findBaseRate(rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode): number | null {
+  if (from === to) return 1;
+  const directRate = rates.find(r => r.fromCurrency === from && r.toCurrency === to);
+  if (directRate) return directRate.rate;
+  const inverseRate = rates.find(r => r.fromCurrency === to && r.toCurrency === from);
+  if (inverseRate && inverseRate.rate !== 0) return 1 / inverseRate.rate;
+  return null;
+}
+
+/** Null when either leg through the reference currency has no rate. */
+export function getConversionRate(sources: ConversionRateSources, fromCurrency: CurrencyCode, toCurrency: CurrencyCode): ConversionRateDetails | null {
+  if (fromCurrency === toCurrency) return { baseRate: 1, finalRate: 1, markupApplied: 0, markupType: 'none' };
+
+  const rateFromToRef = fromCurrency === REFERENCE_CURRENCY ? 1 : findBaseRate(sources.rates, fromCurrency, REFERENCE_CURRENCY);
+  if (rateFromToRef === null) return null;
+  const rateRefToTo = toCurrency === REFERENCE_CURRENCY ? 1 : findBaseRate(sources.rates, REFERENCE_CURRENCY, toCurrency);
+  if (rateRefToTo === null) return null;
+
+  const baseRate = Math.max(0.000001, rateFromToRef * rateRefToTo);
+  const specificMarkup = sources.specificMarkupRates.find(sm => sm.fromCurrency === fromCurrency && sm.toCurrency === toCurrency);
+  if (specificMarkup && specificMarkup.markupPercentage >= 0) {
+    return { baseRate, finalRate: Math.max(0.000001, baseRate * (1 + specificMarkup.markupPercentage / 100)), markupApplied: specificMarkup.markupPercentage, markupType: 'specific' };
+  }
+  if (sources.globalMarkupPercentage > 0) {
+    return { baseRate, finalRate: Math.max(0.000001, baseRate * (1 + sources.globalMarkupPercentage / 100)), markupApplied: sources.globalMarkupPercentage, markupType: 'global' };
+  }
+  return { baseRate, finalRate: baseRate, markupApplied: 0, markupType: 'none' };
+}
+
+export const createRateLookup = (sources: ConversionRateSources): RateLookup => (from, to) => getConversionRate(sources, from, to);
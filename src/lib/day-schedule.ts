@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Times of day within an itinerary day, and the schedule checks the planner shows for
+ * each day: timed items that overlap, an activity away from the province of the night's hotel, and
+ * a move between provinces with no transfer in between. Times are "HH:mm" on the item's own day; an
+ * activity without an end time lasts its package's duration when that is known. A day runs in the
+ * order of its items, which the planner lets the admin drag or sort by time.
+ *
+ * @bangla একটি ভ্রমণপথ দিনের মধ্যে দিনের সময়, এবং প্ল্যানার প্রতিটি দিনের জন্য যে সময়সূচী যাচাইগুলি দেখায়:
+ * সময় দেওয়া আইটেম যা একে অপরের সাথে মিলে যায়, রাতের হোটেলের প্রদেশ থেকে দূরের কার্যকলাপ, এবং মাঝে কোনো
+ * ট্রান্সফার ছাড়া এক প্রদেশ থেকে অন্য প্রদেশে যাওয়া। সময়গুলি আইটেমের নিজের দিনে "HH:mm"; শেষ সময় ছাড়া একটি
+ * কার্যকলাপ তার প্যাকেজের সময়কাল পর্যন্ত চলে, যদি তা জানা থাকে। একটি দিন তার আইটেমগুলির ক্রমে চলে, যা
+ * প্ল্যানারে অ্যাডমিন টেনে বা সময় অনুযায়ী সাজাতে পারেন।
+ */
+import type {
+  ActivityPackageDefinition, HotelDefinition, ItineraryItem, ScheduleIssue, ScheduleIssueCode, ServicePriceItem, TripData,
+} from '@/types/itinerary';
+
+const ISSUE_FIXES: Record<ScheduleIssueCode, string> = {
+  invalidTimeRange: "Set an end time after the start time, or clear the end time.",
+  timeOverlap: "Move one of the items to another time, or exclude the travelers who are not taking part.",
+  awayFromHotel: "Check the activity's province, or add a transfer there and back if this is a day trip.",
+  missingTransfer: "Add a transfer between the two places, or check the items' provinces.",
+};
+
+function createScheduleIssue(item: ItineraryItem, code: ScheduleIssueCode, reason: string): ScheduleIssue {
+  return { itemId: item.id, itemName: item.name, day: item.day, code, reason, suggestedFix: ISSUE_FIXES[code] };
+}
+
+/** Minutes after midnight, or undefined for anything but "HH:mm". */
+export function parseTimeOfDay(value: string | undefined): number | undefined {
+  const match = value?.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+/** "HH:mm"; times past midnight are marked "+1". */
+export function formatTimeOfDay(minutes: number): string {
+  const inDay = minutes % 1440;
+  const time = `${String(Math.floor(inDay / 60)).padStart(2, '0')}:${String(inDay % 60).padStart(2, '0')}`;
+  return minutes >= 1440 ? `${time} (+1)` : time;
+}
+
+/** `durationMinutes`, or a duration such as "4 hours", "2h 30min" or "90 minutes" written in the notes. */
+export function getPackageDurationMinutes(pkg: ActivityPackageDefinition | undefined): number | undefined {
+  if (!pkg) return undefined;
+  if (pkg.durationMinutes && pkg.durationMinutes > 0) return pkg.durationMinutes;
+  const hours = pkg.notes?.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\b/i);
+  const minutes = pkg.notes?.match(/(\d+)\s*(?:minutes?|mins?)\b/i);
+  const total = (hours ? Math.round(parseFloat(hours[1]) * 60) : 0) + (minutes ? Number(minutes[1]) : 0);
+  return total > 0 ? total : undefined;
+}
+
+function getItemDurationMinutes(item: ItineraryItem, allServicePrices: ServicePriceItem[]): number | undefined {
+  if (item.type !== 'activity' || !item.selectedServicePriceId || !item.selectedPackageId) return undefined;
+  const service = allServicePrices.find(price => price.id === item.selectedServicePriceId);
+  return getPackageDurationMinutes(service?.activityPackages?.find(pkg => pkg.id === item.selectedPackageId));
+}
+
+/** When the item starts and, if known, ends, in minutes after midnight. Stays are never timed. */
+export function getItemTimeRange(item: ItineraryItem, allServicePrices: ServicePriceItem[]): { start: number; end?: number } | undefined {
+  const start = parseTimeOfDay(item.startTime);
+  if (item.type === 'hotel' || start === undefined) return undefined;
+  const end = parseTimeOfDay(item.endTime);
+  if (end !== undefined) return { start, end };
+  const duration = getItemDurationMinutes(item, allServicePrices);
+  return { start, end: duration !== undefined ? start + duration : undefined };
+}
+
+/** "09:00–13:00", or just "09:00" when the end is unknown. */
+export function formatItemTimeRange(item: ItineraryItem, allServicePrices: ServicePriceItem[]): string | undefined {
+  const range = getItemTimeRange(item, allServicePrices);
+  if (!range) return undefined;
+  return range.end !== undefined && range.end > range.start
+    ? `${formatTimeOfDay(range.start)}–${formatTimeOfDay(range.end)}`
+    : formatTimeOfDay(range.start);
+}
+
+/** Timed items by start time, followed by the untimed ones in their current order. */
+export function sortItemsByTime<T extends ItineraryItem>(items: T[], allServicePrices: ServicePriceItem[]): T[] {
+  const startOf = (item: T) => getItemTimeRange(item, allServicePrices)?.start ?? Infinity;
+  return items.map((item, index) => ({ item, index, start: startOf(item) }))
+    .sort((a, b) => (a.start === b.start ? a.index - b.index : a.start - b.start))
+    .map(({ item }) => item);
+}
+
+/** Provinces of the hotels the travelers sleep in on `night` (the night after that day). */
+function getNightProvinces(tripData: TripData, night: number, allHotelDefinitions: HotelDefinition[]): string[] {
+  const provinces = new Set<string>();
+  for (const day of Object.values(tripData.days)) {
+    for (const item of day.items) {
+      if (item.type !== 'hotel' || item.day > night || item.checkoutDay <= night) continue;
+      const province = item.province || allHotelDefinitions.find(definition => definition.id === item.hotelDefinitionId)?.province;
+      if (province) provinces.add(province);
+    }
+  }
+  return [...provinces];
+}
+
+const sharesTravelers = (a: ItineraryItem, b: ItineraryItem, travelerIds: string[]) =>
+  travelerIds.length === 0 || travelerIds.some(id => !a.excludedTravelerIds.includes(id) && !b.excludedTravelerIds.includes(id));
+
+function getTimeIssues(items: ItineraryItem[], travelerIds: string[], allServicePrices: ServicePriceItem[]): ScheduleIssue[] {
+  const issues: ScheduleIssue[] = [];
+  const timed: { item: ItineraryItem; start: number; end: number }[] = [];
+  for (const item of items) {
+    if (item.type !== 'hotel' && item.endTime && !item.startTime) {
+      issues.push(createScheduleIssue(item, 'invalidTimeRange', "It has an end time but no start time."));
+      continue;
+    }
+    const range = getItemTimeRange(item, allServicePrices);
+    if (!range) continue;
+    if (range.end !== undefined && range.end <= range.start) {
+      issues.push(createScheduleIssue(item, 'invalidTimeRange', `It ends at ${formatTimeOfDay(range.end)}, before it starts at ${formatTimeOfDay(range.start)}.`));
+      continue;
+    }
+    timed.push({ item, start: range.start, end: range.end ?? range.start });
+  }
+
+  timed.sort((a, b) => a.start - b.start);
+  timed.forEach((later, index) => {
+    const clash = timed.slice(0, index).find(earlier =>
+      (earlier.start === later.start || later.start < earlier.end) && sharesTravelers(earlier.item, later.item, travelerIds));
+    if (clash) {
+      const clashTime = clash.end > clash.start ? `${formatTimeOfDay(clash.start)}–${formatTimeOfDay(clash.end)}` : formatTimeOfDay(clash.start);
+      issues.push(createScheduleIssue(later.item, 'timeOverlap', `It starts at ${formatTimeOfDay(later.start)}, while "${clash.item.name}" (${clashTime}) is still going.`));
+    }
+  });
+  return issues;
+}
+
+/**
+ * Walks the day from the last night's hotel, through every item with a province in running order,
+ * to tonight's hotel. Arriving somewhere new needs a transfer since the last place.
+ */
+function getTransferIssues(items: ItineraryItem[], startProvinces: string[], endProvinces: string[], endHotel: ItineraryItem | undefined): ScheduleIssue[] {
+  const issues: ScheduleIssue[] = [];
+  let location = startProvinces.length === 1 ? startProvinces[0] : undefined;
+  let transferred = false;
+  const arrive = (item: ItineraryItem, province: string) => {
+    if (location && province !== location && !transferred) {
+      issues.push(createScheduleIssue(item, 'missingTransfer', `The day moves from ${location} to ${province} without a transfer.`));
+    }
+    location = province;
+    transferred = false;
+  };
+  for (const item of items) {
+    if (item.type === 'transfer') transferred = true;
+    else if (item.type !== 'hotel' && item.province) arrive(item, item.province);
+  }
+  if (endHotel && endProvinces.length === 1) arrive(endHotel, endProvinces[0]);
+  return issues;
+}
+
+/** Every day's schedule issues, by day. */
+export function getScheduleIssues(tripData: TripData, allHotelDefinitions: HotelDefinition[], allServicePrices: ServicePriceItem[]): ScheduleIssue[] {
+  const travelerIds = tripData.travelers.map(traveler => traveler.id);
+  const hotels = Object.values(tripData.days).flatMap(day => day.items).filter(item => item.type === 'hotel');
+  const issues: ScheduleIssue[] = [];
+
+  for (let day = 1; day <= tripData.settings.numDays; day++) {
+    const items = tripData.days[day]?.items ?? [];
+    const lastNight = getNightProvinces(tripData, day - 1, allHotelDefinitions);
+    const tonight = getNightProvinces(tripData, day, allHotelDefinitions);
+    // On the day of departure the travelers are still near the last hotel.
+    const sleepingIn = tonight.length > 0 ? tonight : lastNight;
+
+    issues.push(...getTimeIssues(items, travelerIds, allServicePrices));
+    for (const item of items) {
+      if (item.type === 'activity' && item.province && sleepingIn.length > 0 && !sleepingIn.includes(item.province)) {
+        issues.push(createScheduleIssue(item, 'awayFromHotel', `It is in ${item.province}, but the night's hotel is in ${sleepingIn.join(' / ')}.`));
+      }
+    }
+    const tonightsHotel = hotels.find(hotel => hotel.type === 'hotel' && hotel.day <= day && hotel.checkoutDay > day);
+    // Tonight's hotel may have been checked into on an earlier day; its issue belongs to this one.
+    issues.push(...getTransferIssues(items, lastNight, tonight, tonightsHotel).map(issue => ({ ...issue, day })));
+  }
+  return issues;
+}
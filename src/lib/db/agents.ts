@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Server-side persistence for agencies and their agent profiles.
+ * Deleting an agency cascades to its agents at the database level.
+ *
+ * @bangla এজেন্সি এবং তাদের এজেন্ট প্রোফাইলগুলির জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ।
+ * একটি এজেন্সি মুছে ফেলা হলে ডেটাবেস স্তরে তার এজেন্টরাও মুছে যায়।
+ */
+import prisma from '@/lib/prisma';
+import type { Agency as AgencyRow, AgentProfile as AgentProfileRow } from '@prisma/client';
+import type { Agency, AgentProfile, AgentAddress } from '@/types/agent';
+import type { CurrencyCode } from '@/types/itinerary';
+import { toOptionalJson, fromJson, nullToUndefined } from './json';
+
+const mapRowToAgency = (row: AgencyRow): Agency => ({
+  id: row.id,
+  name: row.name,
+  mainAddress: fromJson<AgentAddress | undefined>(row.mainAddress, undefined),
+  contactEmail: nullToUndefined(row.contactEmail),
+  contactPhone: nullToUndefined(row.contactPhone),
+  preferredCurrency: row.preferredCurrency as CurrencyCode,
+  commissionPercentage: row.commissionPercentage,
+  brandColor: nullToUndefined(row.brandColor),
+  emailSignature: nullToUndefined(row.emailSignature),
+});
+
+const mapAgencyToColumns = (agency: Agency) => ({
+  name: agency.name,
+  mainAddress: toOptionalJson(agency.mainAddress),
+  contactEmail: agency.contactEmail ?? null,
+  contactPhone: agency.contactPhone ?? null,
+  preferredCurrency: agency.preferredCurrency || "USD",
+  commissionPercentage: agency.commissionPercentage ?? 0,
+  brandColor: agency.brandColor || null,
+  emailSignature: agency.emailSignature || null,
+});
+
+const mapRowToAgentProfile = (row: AgentProfileRow): AgentProfile => ({
+  id: row.id,
+  agencyId: row.agencyId,
+  fullName: row.fullName,
+  email: row.email,
+  phoneNumber: nullToUndefined(row.phoneNumber),
+  agencyName: nullToUndefined(row.agencyName),
+  specializations: nullToUndefined(row.specializations),
+  yearsOfExperience: nullToUndefined(row.yearsOfExperience),
+  bio: nullToUndefined(row.bio),
+  profilePictureUrl: row.profilePictureUrl,
+});
+
+const mapAgentProfileToColumns = (agent: AgentProfile) => ({
+  agencyId: agent.agencyId,
+  fullName: agent.fullName,
+  email: agent.email,
+  phoneNumber: agent.phoneNumber ?? null,
+  agencyName: agent.agencyName ?? null,
+  specializations: agent.specializations ?? null,
+  yearsOfExperience: agent.yearsOfExperience ?? null,
+  bio: agent.bio ?? null,
+  profilePictureUrl: agent.profilePictureUrl ?? null,
+});
+
+export async function listAgencies(): Promise<Agency[]> {
+  const rows = await prisma.agency.findMany({ orderBy: { name: 'asc' } });
+  return rows.map(mapRowToAgency);
+}
+
+export async function getAgency(agencyId: string): Promise<Agency | null> {
+  const row = await prisma.agency.findUnique({ where: { id: agencyId } });
+  return row ? mapRowToAgency(row) : null;
+}
+
+export async function saveAgency(agency: Agency): Promise<Agency> {
+  const columns = mapAgencyToColumns(agency);
+  const row = await prisma.agency.upsert({ where: { id: agency.id }, create: { id: agency.id, ...columns }, update: columns });
+  return mapRowToAgency(row);
+}
+
+/** Replaces the whole agency list. Agents of removed agencies are cascaded away. */
+export async function replaceAgencies(agencies: Agency[]): Promise<Agency[]> {
+  await prisma.$transaction([
+    prisma.agency.deleteMany({ where: { id: { notIn: agencies.map(a => a.id) } } }),
+    ...agencies.map(agency => {
+      const columns = mapAgencyToColumns(agency);
+      return prisma.agency.upsert({ where: { id: agency.id }, create: { id: agency.id, ...columns }, update: columns });
+    }),
+  ]);
+  return listAgencies();
+}
+
+export async function listAgentProfiles(filters: { agencyId?: string } = {}): Promise<AgentProfile[]> {
+  const rows = await prisma.agentProfile.findMany({
+    where: filters.agencyId ? { agencyId: filters.agencyId } : undefined,
+    orderBy: { fullName: 'asc' },
+  });
+  return rows.map(mapRowToAgentProfile);
+}
+
+export async function getAgentProfile(agentId: string): Promise<AgentProfile | null> {
+  const row = await prisma.agentProfile.findUnique({ where: { id: agentId } });
+  return row ? mapRowToAgentProfile(row) : null;
+}
+
+/** Creates or updates a single agent. The referenced agency must already exist. */
+export async function saveAgentProfile(agent: AgentProfile): Promise<AgentProfile> {
+  const columns = mapAgentProfileToColumns(agent);
+  const row = await prisma.agentProfile.upsert({ where: { id: agent.id }, create: { id: agent.id, ...columns }, update: columns });
+  return mapRowToAgentProfile(row);
+}
+
+/** Replaces the whole agent list. Every agent must reference an existing agency. */
+export async function replaceAgentProfiles(agents: AgentProfile[]): Promise<AgentProfile[]> {
+  await prisma.$transaction([
+    prisma.agentProfile.deleteMany({ where: { id: { notIn: agents.map(a => a.id) } } }),
+    ...agents.map(agent => {
+      const columns = mapAgentProfileToColumns(agent);
+      return prisma.agentProfile.upsert({ where: { id: agent.id }, create: { id: agent.id, ...columns }, update: columns });
+    }),
+  ]);
+  return listAgentProfiles();
+}
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Server-side persistence for booking document numbers. A number is taken from one
+ * sequence shared by all kinds the first time a voucher or service order is produced and is read
+ * back from then on; the documents themselves are not stored.
+ *
+ * @bangla বুকিং ডকুমেন্ট নম্বরগুলির জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ। কোনো ভাউচার বা সার্ভিস অর্ডার প্রথমবার
+ * তৈরি হলে সব ধরনের জন্য শেয়ার করা একটি ক্রম থেকে নম্বর নেওয়া হয় এবং তারপর থেকে সেটিই পড়া হয়; ডকুমেন্টগুলি
+ * নিজেরা সংরক্ষিত হয় না।
+ */
+import prisma from '@/lib/prisma';
+import type { BookingDocument as BookingDocumentRow } from '@prisma/client';
+import { BOOKING_DOCUMENT_PREFIXES, type BookingDocumentKind, type BookingDocumentNumber } from '@/types/booking';
+
+const mapRowToBookingDocumentNumber = (row: BookingDocumentRow): BookingDocumentNumber => {
+  const kind = row.kind as BookingDocumentKind;
+  return {
+    id: row.id,
+    itineraryId: row.itineraryId,
+    kind,
+    subjectKey: row.subjectKey,
+    number: `${BOOKING_DOCUMENT_PREFIXES[kind]}-${String(row.sequence).padStart(6, '0')}`,
+    createdAt: row.createdAt.toISOString(),
+  };
+};
+
+/** The numbers of `subjects` in the same order, assigning one to each subject that has none yet. */
+export async function assignBookingDocumentNumbers(
+  itineraryId: string, subjects: { kind: BookingDocumentKind; subjectKey: string }[],
+): Promise<BookingDocumentNumber[]> {
+  const rows = await prisma.$transaction(subjects.map(({ kind, subjectKey }) => prisma.bookingDocument.upsert({
+    where: { itineraryId_kind_subjectKey: { itineraryId, kind, subjectKey } },
+    create: { itineraryId, kind, subjectKey },
+    update: {},
+  })));
+  return rows.map(mapRowToBookingDocumentNumber);
+}
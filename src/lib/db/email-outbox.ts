@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Server-side persistence for the email outbox. Messages are stored before they are
+ * delivered; a delivery run claims due messages by pushing their next attempt out, so two runs at
+ * the same time do not send one message twice.
+ *
+ * @bangla ইমেল আউটবক্সের জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ। বার্তাগুলি পাঠানোর আগে সংরক্ষিত হয়; একটি ডেলিভারি
+ * রান বাকি বার্তাগুলির পরবর্তী চেষ্টা পিছিয়ে দিয়ে সেগুলি দাবি করে, যাতে একই সময়ে দুটি রান একটি বার্তা দুবার না পাঠায়।
+ */
+import prisma from '@/lib/prisma';
+import type { EmailMessage as EmailMessageRow } from '@prisma/client';
+import type { EmailStatus, EmailTemplate, OutboxEmail } from '@/types/email';
+import { nullToUndefined } from './json';
+
+const mapRowToEmail = (row: EmailMessageRow): OutboxEmail => ({
+  id: row.id,
+  template: row.template as EmailTemplate,
+  to: row.toAddress,
+  subject: row.subject,
+  text: row.text,
+  html: row.html,
+  quotationRequestId: nullToUndefined(row.quotationRequestId),
+  agencyId: nullToUndefined(row.agencyId),
+  status: row.status as EmailStatus,
+  attempts: row.attempts,
+  nextAttemptAt: row.nextAttemptAt.toISOString(),
+  lastError: nullToUndefined(row.lastError),
+  transport: nullToUndefined(row.transport),
+  providerMessageId: nullToUndefined(row.providerMessageId),
+  sentAt: row.sentAt?.toISOString(),
+  createdAt: row.createdAt.toISOString(),
+});
+
+export type NewOutboxEmail = Pick<OutboxEmail, 'template' | 'to' | 'subject' | 'text' | 'html' | 'quotationRequestId' | 'agencyId'>;
+
+export async function createOutboxEmails(emails: NewOutboxEmail[]): Promise<OutboxEmail[]> {
+  const rows = await prisma.$transaction(emails.map(email => prisma.emailMessage.create({
+    data: {
+      template: email.template,
+      toAddress: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      quotationRequestId: email.quotationRequestId ?? null,
+      agencyId: email.agencyId ?? null,
+    },
+  })));
+  return rows.map(mapRowToEmail);
+}
+
+/** Newest first. */
+export async function listOutboxEmails(filter: { status?: EmailStatus; quotationRequestId?: string; take?: number } = {}): Promise<OutboxEmail[]> {
+  const rows = await prisma.emailMessage.findMany({
+    where: { status: filter.status, quotationRequestId: filter.quotationRequestId },
+    orderBy: { createdAt: 'desc' },
+    take: filter.take ?? 200,
+  });
+  return rows.map(mapRowToEmail);
+}
+
+export async function getOutboxEmail(emailId: string): Promise<OutboxEmail | null> {
+  const row = await prisma.emailMessage.findUnique({ where: { id: emailId } });
+  return row ? mapRowToEmail(row) : null;
+}
+
+/**
+ * Pending messages due by `now` (all of `ids` when given), oldest first. Each is claimed for
+ * `leaseMs`: a message another run claimed in the meantime is left out.
+ */
+export async function claimDueEmails(now: Date, leaseMs: number, limit: number, ids?: string[]): Promise<OutboxEmail[]> {
+  const due = await prisma.emailMessage.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now }, ...(ids ? { id: { in: ids } } : {}) },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+  });
+  const claimed: OutboxEmail[] = [];
+  for (const row of due) {
+    const leaseUntil = new Date(now.getTime() + leaseMs);
+    const { count } = await prisma.emailMessage.updateMany({
+      where: { id: row.id, status: 'pending', nextAttemptAt: row.nextAttemptAt },
+      data: { nextAttemptAt: leaseUntil },
+    });
+    if (count === 1) claimed.push(mapRowToEmail({ ...row, nextAttemptAt: leaseUntil }));
+  }
+  return claimed;
+}
+
+export async function markEmailSent(emailId: string, delivery: { transport: string; providerMessageId?: string }): Promise<void> {
+  await prisma.emailMessage.update({
+    where: { id: emailId },
+    data: {
+      status: 'sent',
+      attempts: { increment: 1 },
+      transport: delivery.transport,
+      providerMessageId: delivery.providerMessageId ?? null,
+      lastError: null,
+      sentAt: new Date(),
+    },
+  });
+}
+
+/** Records a failed attempt; without `retryAt` the message is given up as `failed`. */
+export async function markEmailAttemptFailed(emailId: string, failure: { transport: string; error: string; retryAt: Date | null }): Promise<void> {
+  await prisma.emailMessage.update({
+    where: { id: emailId },
+    data: {
+      status: failure.retryAt ? 'pending' : 'failed',
+      attempts: { increment: 1 },
+      transport: failure.transport,
+      lastError: failure.error.slice(0, 2000),
+      ...(failure.retryAt ? { nextAttemptAt: failure.retryAt } : {}),
+    },
+  });
+}
+
+/** Puts a message back in line with a fresh set of attempts. Sent messages are left alone. */
+export async function requeueEmail(emailId: string): Promise<OutboxEmail | null> {
+  const { count } = await prisma.emailMessage.updateMany({
+    where: { id: emailId, status: { not: 'sent' } },
+    data: { status: 'pending', attempts: 0, nextAttemptAt: new Date() },
+  });
+  return count === 1 ? getOutboxEmail(emailId) : null;
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Server-side persistence for exchange rates, currency-pair specific markups,
+ * the global conversion markup and the timestamp of the last ExchangeRate-API fetch.
+ * The last two are singletons kept in the `AppSetting` key/value table. Every save also writes the
+ * day's `ExchangeRateTable`, so the rates in effect on any past date can be looked up after the
+ * live rates have moved on.
+ *
+ * @bangla বিনিময় হার, মুদ্রা-জোড়া নির্দিষ্ট মার্কআপ, গ্লোবাল রূপান্তর মার্কআপ এবং সর্বশেষ
+ * ExchangeRate-API থেকে আনার সময়ের জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ। শেষ দুটি একক মান যা
+ * `AppSetting` কী/ভ্যালু টেবিলে রাখা হয়। প্রতিটি সংরক্ষণ সেই দিনের `ExchangeRateTable`-ও লেখে, যাতে
+ * বর্তমান হার বদলে যাওয়ার পরেও অতীতের যেকোনো তারিখে কার্যকর হারগুলি খুঁজে পাওয়া যায়।
+ */
+import prisma from '@/lib/prisma';
+import type { Prisma, ExchangeRate as ExchangeRateRow, SpecificMarkupRate as SpecificMarkupRateRow, ExchangeRateTable as ExchangeRateTableRow } from '@prisma/client';
+import type { ExchangeRate, SpecificMarkupRate } from '@/types/itinerary';
+import { format } from 'date-fns';
+import { toJson, fromJson } from './json';
+
+const GLOBAL_MARKUP_SETTING_KEY = 'exchange.globalMarkupPercentage';
+const API_RATES_LAST_FETCHED_SETTING_KEY = 'exchange.apiRatesLastFetched';
+
+export interface ExchangeRateState {
+  rates: ExchangeRate[];
+  specificMarkupRates: SpecificMarkupRate[];
+  globalMarkupPercentage: number;
+  apiRatesLastFetched: string | null;
+}
+
+/** The rates and conversion markups in effect from `effectiveDate` (yyyy-MM-dd) until the next table. */
+export interface ExchangeRateTable {
+  effectiveDate: string;
+  rates: ExchangeRate[];
+  specificMarkupRates: SpecificMarkupRate[];
+  globalMarkupPercentage: number;
+  updatedAt: string;
+}
+
+const mapRowToExchangeRate = (row: ExchangeRateRow): ExchangeRate => ({
+  id: row.id,
+  fromCurrency: row.fromCurrency,
+  toCurrency: row.toCurrency,
+  rate: row.rate,
+  updatedAt: row.updatedAt.toISOString(),
+  source: row.source === 'api' ? 'api' : 'manual',
+});
+
+const mapRowToSpecificMarkupRate = (row: SpecificMarkupRateRow): SpecificMarkupRate => ({
+  id: row.id,
+  fromCurrency: row.fromCurrency,
+  toCurrency: row.toCurrency,
+  markupPercentage: row.markupPercentage,
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+const mapRowToExchangeRateTable = (row: ExchangeRateTableRow): ExchangeRateTable => ({
+  effectiveDate: row.effectiveDate,
+  rates: fromJson<ExchangeRate[]>(row.rates, []),
+  specificMarkupRates: fromJson<SpecificMarkupRate[]>(row.specificMarkupRates, []),
+  globalMarkupPercentage: row.globalMarkupPercentage,
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+const upsertSetting = (key: string, value: string) =>
+  prisma.appSetting.upsert({ where: { key }, create: { key, value }, update: { value } });
+
+export async function getExchangeRateState(): Promise<ExchangeRateState> {
+  const [rateRows, markupRows, settings] = await Promise.all([
+    prisma.exchangeRate.findMany({ orderBy: [{ fromCurrency: 'asc' }, { toCurrency: 'asc' }] }),
+    prisma.specificMarkupRate.findMany({ orderBy: [{ fromCurrency: 'asc' }, { toCurrency: 'asc' }] }),
+    prisma.appSetting.findMany({ where: { key: { in: [GLOBAL_MARKUP_SETTING_KEY, API_RATES_LAST_FETCHED_SETTING_KEY] } } }),
+  ]);
+  const settingValue = (key: string) => settings.find(s => s.key === key)?.value;
+  const globalMarkup = parseFloat(settingValue(GLOBAL_MARKUP_SETTING_KEY) ?? '0');
+
+  return {
+    rates: rateRows.map(mapRowToExchangeRate),
+    specificMarkupRates: markupRows.map(mapRowToSpecificMarkupRate),
+    globalMarkupPercentage: isNaN(globalMarkup) ? 0 : globalMarkup,
+    apiRatesLastFetched: settingValue(API_RATES_LAST_FETCHED_SETTING_KEY) || null,
+  };
+}
+
+/**
+ * Persists whichever parts of the exchange-rate state are provided. `rates` and
+ * `specificMarkupRates` replace their stored lists entirely.
+ */
+export async function saveExchangeRateState(update: Partial<ExchangeRateState>): Promise<ExchangeRateState> {
+  const operations: Prisma.PrismaPromise<unknown>[] = [];
+
+  if (update.rates) {
+    const rates = update.rates;
+    operations.push(prisma.exchangeRate.deleteMany({ where: { id: { notIn: rates.map(r => r.id) } } }));
+    rates.forEach(rate => {
+      const columns = { fromCurrency: rate.fromCurrency, toCurrency: rate.toCurrency, rate: rate.rate, source: rate.source || 'manual', updatedAt: new Date(rate.updatedAt) };
+      operations.push(prisma.exchangeRate.upsert({ where: { id: rate.id }, create: { id: rate.id, ...columns }, update: columns }));
+    });
+  }
+  if (update.specificMarkupRates) {
+    const markups = update.specificMarkupRates;
+    operations.push(prisma.specificMarkupRate.deleteMany({ where: { id: { notIn: markups.map(m => m.id) } } }));
+    markups.forEach(markup => {
+      const columns = { fromCurrency: markup.fromCurrency, toCurrency: markup.toCurrency, markupPercentage: markup.markupPercentage, updatedAt: new Date(markup.updatedAt) };
+      operations.push(prisma.specificMarkupRate.upsert({ where: { id: markup.id }, create: { id: markup.id, ...columns }, update: columns }));
+    });
+  }
+  if (update.globalMarkupPercentage !== undefined) {
+    operations.push(upsertSetting(GLOBAL_MARKUP_SETTING_KEY, String(update.globalMarkupPercentage)));
+  }
+  if (update.apiRatesLastFetched !== undefined) {
+    operations.push(update.apiRatesLastFetched === null
+      ? prisma.appSetting.deleteMany({ where: { key: API_RATES_LAST_FETCHED_SETTING_KEY } })
+      : upsertSetting(API_RATES_LAST_FETCHED_SETTING_KEY, update.apiRatesLastFetched));
+  }
+
+  await prisma.$transaction(operations);
+  const state = await getExchangeRateState();
+  if (update.rates || update.specificMarkupRates || update.globalMarkupPercentage !== undefined) {
+    const effectiveDate = format(new Date(), 'yyyy-MM-dd');
+    const columns = { rates: toJson(state.rates), specificMarkupRates: toJson(state.specificMarkupRates), globalMarkupPercentage: state.globalMarkupPercentage };
+    await prisma.exchangeRateTable.upsert({ where: { effectiveDate }, create: { effectiveDate, ...columns }, update: columns });
+  }
+  return state;
+}
+
+/** Dates a rate table was recorded on, newest first. */
+export async function listExchangeRateTableDates(): Promise<string[]> {
+  const rows = await prisma.exchangeRateTable.findMany({ select: { effectiveDate: true }, orderBy: { effectiveDate: 'desc' } });
+  return rows.map(row => row.effectiveDate);
+}
+
+/** The rate table in effect on `date` (yyyy-MM-dd): the latest one recorded on or before it. */
+export async function getExchangeRateTableOn(date: string): Promise<ExchangeRateTable | null> {
+  const row = await prisma.exchangeRateTable.findFirst({ where: { effectiveDate: { lte: date } }, orderBy: { effectiveDate: 'desc' } });
+  return row ? mapRowToExchangeRateTable(row) : null;
+}
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Server-side persistence for master hotel definitions.
+ * Room types (with their seasonal prices and characteristics) are stored as a JSON column.
+ *
+ * @bangla মাস্টার হোটেল সংজ্ঞার জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ।
+ * রুমের প্রকারগুলি (তাদের মরশুমি মূল্য এবং বৈশিষ্ট্য সহ) একটি JSON কলাম হিসাবে সংরক্ষিত হয়।
+ */
+import prisma from '@/lib/prisma';
+import type { HotelDefinition as HotelDefinitionRow } from '@prisma/client';
+import type { HotelDefinition, HotelRoomTypeDefinition } from '@/types/itinerary';
+import { toJson, fromJson, nullToUndefined } from './json';
+
+const mapRowToHotelDefinition = (row: HotelDefinitionRow): HotelDefinition => ({
+  id: row.id,
+  name: row.name,
+  countryId: row.countryId,
+  province: row.province,
+  starRating: row.starRating,
+  supplierId: nullToUndefined(row.supplierId),
+  roomTypes: fromJson<HotelRoomTypeDefinition[]>(row.roomTypes, []),
+});
+
+const mapHotelDefinitionToColumns = (hotel: HotelDefinition) => ({
+  name: hotel.name,
+  countryId: hotel.countryId,
+  province: hotel.province,
+  starRating: hotel.starRating ?? null,
+  supplierId: hotel.supplierId || null,
+  roomTypes: toJson(hotel.roomTypes || []),
+});
+
+export async function listHotelDefinitions(): Promise<HotelDefinition[]> {
+  const rows = await prisma.hotelDefinition.findMany({ orderBy: { name: 'asc' } });
+  return rows.map(mapRowToHotelDefinition);
+}
+
+export async function saveHotelDefinition(hotel: HotelDefinition): Promise<HotelDefinition> {
+  const columns = mapHotelDefinitionToColumns(hotel);
+  const row = await prisma.hotelDefinition.upsert({
+    where: { id: hotel.id },
+    create: { id: hotel.id, ...columns },
+    update: columns,
+  });
+  return mapRowToHotelDefinition(row);
+}
+
+/** Replaces the whole hotel list, deleting any stored hotel that is not in `hotels`. */
+export async function replaceHotelDefinitions(hotels: HotelDefinition[]): Promise<HotelDefinition[]> {
+  await prisma.$transaction([
+    prisma.hotelDefinition.deleteMany({ where: { id: { notIn: hotels.map(h => h.id) } } }),
+    ...hotels.map(hotel => {
+      const columns = mapHotelDefinitionToColumns(hotel);
+      return prisma.hotelDefinition.upsert({ where: { id: hotel.id }, create: { id: hotel.id, ...columns }, update: columns });
+    }),
+  ]);
+  return listHotelDefinitions();
+}
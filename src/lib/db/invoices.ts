@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Server-side persistence for invoices and payments. Every invoice takes its number
+ * from one sequence shared by pro formas and credit notes. Nothing here updates an issued invoice
+ * or a recorded payment; corrections are made with credit notes.
+ *
+ * @bangla ইনভয়েস ও পেমেন্টের জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ। প্রতিটি ইনভয়েস প্রো-ফর্মা ও ক্রেডিট নোটের
+ * একটি সাধারণ ক্রম থেকে নম্বর পায়। এখানে কিছুই জারি করা ইনভয়েস বা রেকর্ড করা পেমেন্ট আপডেট করে না; সংশোধন
+ * ক্রেডিট নোট দিয়ে করা হয়।
+ */
+import prisma from '@/lib/prisma';
+import type { Invoice as InvoiceRow, Payment as PaymentRow } from '@prisma/client';
+import { INVOICE_PREFIXES, type Invoice, type InvoiceKind, type Payment, type PaymentMethod } from '@/types/invoice';
+import { nullToUndefined } from './json';
+
+const toDateOnly = (value: Date | null) => value ? value.toISOString().slice(0, 10) : undefined;
+
+const mapRowToInvoice = (row: InvoiceRow): Invoice => {
+  const kind = row.kind as InvoiceKind;
+  return {
+    id: row.id,
+    number: `${INVOICE_PREFIXES[kind]}-${String(row.sequence).padStart(6, '0')}`,
+    kind,
+    quotationRequestId: row.quotationRequestId,
+    quoteVersion: row.quoteVersion,
+    currency: row.currency,
+    total: row.total,
+    depositPercentage: nullToUndefined(row.depositPercentage),
+    depositDueDate: toDateOnly(row.depositDueDate),
+    balanceDueDate: toDateOnly(row.balanceDueDate),
+    creditedInvoiceId: nullToUndefined(row.creditedInvoiceId),
+    notes: nullToUndefined(row.notes),
+    issuedByName: nullToUndefined(row.issuedByName),
+    issuedAt: row.issuedAt.toISOString(),
+  };
+};
+
+const mapRowToPayment = (row: PaymentRow): Payment => ({
+  id: row.id,
+  invoiceId: row.invoiceId,
+  amount: row.amount,
+  currency: row.currency,
+  exchangeRate: row.exchangeRate,
+  invoiceCurrencyAmount: row.invoiceCurrencyAmount,
+  method: row.method as PaymentMethod,
+  reference: nullToUndefined(row.reference),
+  receivedAt: row.receivedAt.toISOString().slice(0, 10),
+  recordedByName: nullToUndefined(row.recordedByName),
+  createdAt: row.createdAt.toISOString(),
+});
+
+/** Pro formas and credit notes of a request, oldest first. */
+export async function listInvoices(quotationRequestId: string): Promise<Invoice[]> {
+  const rows = await prisma.invoice.findMany({ where: { quotationRequestId }, orderBy: { sequence: 'asc' } });
+  return rows.map(mapRowToInvoice);
+}
+
+export async function getInvoice(invoiceId: string): Promise<Invoice | null> {
+  const row = await prisma.invoice.findUnique({ where: { id: invoiceId } });
+  return row ? mapRowToInvoice(row) : null;
+}
+
+export type NewInvoice = Omit<Invoice, 'id' | 'number' | 'issuedAt'> & { issuedByUserId?: string };
+
+export async function createInvoice(invoice: NewInvoice): Promise<Invoice> {
+  const row = await prisma.invoice.create({
+    data: {
+      quotationRequestId: invoice.quotationRequestId,
+      quoteVersion: invoice.quoteVersion,
+      kind: invoice.kind,
+      currency: invoice.currency,
+      total: invoice.total,
+      depositPercentage: invoice.depositPercentage ?? null,
+      depositDueDate: invoice.depositDueDate ? new Date(invoice.depositDueDate) : null,
+      balanceDueDate: invoice.balanceDueDate ? new Date(invoice.balanceDueDate) : null,
+      creditedInvoiceId: invoice.creditedInvoiceId ?? null,
+      notes: invoice.notes || null,
+      issuedByUserId: invoice.issuedByUserId ?? null,
+      issuedByName: invoice.issuedByName ?? null,
+    },
+  });
+  return mapRowToInvoice(row);
+}
+
+/** Payments of an invoice in the order they were received. */
+export async function listPayments(invoiceId: string): Promise<Payment[]> {
+  const rows = await prisma.payment.findMany({ where: { invoiceId }, orderBy: [{ receivedAt: 'asc' }, { createdAt: 'asc' }] });
+  return rows.map(mapRowToPayment);
+}
+
+export type NewPayment = Omit<Payment, 'id' | 'createdAt'> & { recordedByUserId?: string };
+
+export async function createPayment(payment: NewPayment): Promise<Payment> {
+  const row = await prisma.payment.create({
+    data: {
+      invoiceId: payment.invoiceId,
+      amount: payment.amount,
+      currency: payment.currency,
+      exchangeRate: payment.exchangeRate,
+      invoiceCurrencyAmount: payment.invoiceCurrencyAmount,
+      method: payment.method,
+      reference: payment.reference || null,
+      receivedAt: new Date(payment.receivedAt),
+      recordedByUserId: payment.recordedByUserId ?? null,
+      recordedByName: payment.recordedByName ?? null,
+    },
+  });
+  return mapRowToPayment(row);
+}
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Server-side persistence for itineraries (`TripData`).
+ * An itinerary is stored as an `Itinerary` row plus one `ItineraryDay` per day and one
+ * `ItineraryItem` row per planned service. Saving replaces the day/item rows wholesale,
+ * mirroring how the planner always works on a complete `TripData` object. The overall booking
+ * status is recomputed from the items on every save rather than taken from the caller.
+ *
+ * @bangla ভ্রমণপথের (`TripData`) জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ।
+ * একটি ভ্রমণপথ একটি `Itinerary` সারি, প্রতিটি দিনের জন্য একটি `ItineraryDay` এবং প্রতিটি
+ * পরিকল্পিত পরিষেবার জন্য একটি `ItineraryItem` সারি হিসাবে সংরক্ষিত হয়। সংরক্ষণ করার সময়
+ * দিন/আইটেম সারিগুলি সম্পূর্ণরূপে প্রতিস্থাপিত হয়, কারণ প্ল্যানার সর্বদা একটি সম্পূর্ণ
+ * `TripData` অবজেক্ট নিয়ে কাজ করে। সামগ্রিক বুকিং স্ট্যাটাস কলারের কাছ থেকে না নিয়ে প্রতিটি সংরক্ষণে
+ * আইটেমগুলি থেকে আবার গণনা করা হয়।
+ */
+import prisma from '@/lib/prisma';
+import type { Itinerary as ItineraryRow, ItineraryDay as ItineraryDayRow, ItineraryItem as ItineraryItemRow } from '@prisma/client';
+import type { TripData, ItineraryMetadata, ItineraryItem, TripSettings, PaxDetails, Traveler, BookingStatus, OverallBookingStatus, DayItinerary, FrozenExchangeRates } from '@/types/itinerary';
+import { computeOverallBookingStatus } from '@/lib/booking-status';
+import { toJson, toOptionalJson, fromJson, nullToUndefined } from './json';
+
+type ItineraryWithDays = ItineraryRow & { days: (ItineraryDayRow & { items: ItineraryItemRow[] })[] };
+
+const mapRowToMetadata = (row: ItineraryRow): ItineraryMetadata => ({
+  id: row.id,
+  itineraryName: row.itineraryName,
+  clientName: nullToUndefined(row.clientName),
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+  tags: fromJson<string[]>(row.tags, []),
+});
+
+const mapRowToTripData = (row: ItineraryWithDays): TripData => {
+  const days: { [dayNumber: number]: DayItinerary } = {};
+  row.days.forEach(day => {
+    days[day.dayNumber] = {
+      items: [...day.items]
+        .sort((a, b) => a.position - b.position)
+        .map(item => fromJson<ItineraryItem | null>(item.data, null))
+        .filter((item): item is ItineraryItem => item !== null),
+    };
+  });
+
+  return {
+    id: row.id,
+    itineraryName: row.itineraryName,
+    clientName: nullToUndefined(row.clientName),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    settings: fromJson<TripSettings>(row.settings, { numDays: 1, startDate: '', selectedCountries: [], selectedProvinces: [] }),
+    pax: fromJson<PaxDetails>(row.pax, { adults: 1, children: 0, currency: 'THB' }),
+    travelers: fromJson<Traveler[]>(row.travelers, []),
+    days,
+    quotationRequestId: nullToUndefined(row.quotationRequestId),
+    version: row.version,
+    overallBookingStatus: row.overallBookingStatus as OverallBookingStatus,
+    adminRevisionNotes: nullToUndefined(row.adminRevisionNotes),
+    tags: fromJson<string[]>(row.tags, []),
+    frozenExchangeRates: fromJson<FrozenExchangeRates | undefined>(row.frozenExchangeRates, undefined),
+  };
+};
+
+export async function listItineraryMetadata(): Promise<ItineraryMetadata[]> {
+  const rows = await prisma.itinerary.findMany({ orderBy: { updatedAt: 'desc' } });
+  return rows.map(mapRowToMetadata);
+}
+
+export async function getItinerary(itineraryId: string): Promise<TripData | null> {
+  const row = await prisma.itinerary.findUnique({
+    where: { id: itineraryId },
+    include: { days: { include: { items: true } } },
+  });
+  return row ? mapRowToTripData(row) : null;
+}
+
+/** Itineraries with at least one item in one of `statuses`; `Pending` also matches items that have no status yet. */
+export async function listItinerariesWithItemStatuses(statuses: readonly BookingStatus[]): Promise<TripData[]> {
+  const rows = await prisma.itinerary.findMany({
+    where: {
+      days: { some: { items: { some: {
+        OR: [{ bookingStatus: { in: [...statuses] } }, ...(statuses.includes('Pending') ? [{ bookingStatus: null }] : [])],
+      } } } },
+    },
+    include: { days: { include: { items: true } } },
+  });
+  return rows.map(mapRowToTripData);
+}
+
+export async function saveItinerary(tripData: TripData): Promise<TripData> {
+  const now = new Date();
+  const header = {
+    itineraryName: tripData.itineraryName,
+    clientName: tripData.clientName ?? null,
+    settings: toJson(tripData.settings),
+    pax: toJson(tripData.pax),
+    travelers: toJson(tripData.travelers),
+    tags: toJson(tripData.tags || []),
+    quotationRequestId: tripData.quotationRequestId ?? null,
+    version: tripData.version ?? 0,
+    overallBookingStatus: computeOverallBookingStatus(tripData),
+    adminRevisionNotes: tripData.adminRevisionNotes ?? null,
+    frozenExchangeRates: toOptionalJson(tripData.frozenExchangeRates),
+    updatedAt: tripData.updatedAt ? new Date(tripData.updatedAt) : now,
+  };
+
+  const dayCreates = Object.entries(tripData.days || {}).map(([dayKey, day]) =>
+    prisma.itineraryDay.create({
+      data: {
+        itineraryId: tripData.id,
+        dayNumber: Number(dayKey),
+        items: {
+          create: (day.items || []).map((item, position) => ({
+            itemId: item.id,
+            position,
+            type: item.type,
+            name: item.name,
+            bookingStatus: item.bookingStatus ?? null,
+            confirmationRef: item.confirmationRef ?? null,
+            data: toJson(item),
+          })),
+        },
+      },
+    })
+  );
+
+  await prisma.$transaction([
+    prisma.itinerary.upsert({
+      where: { id: tripData.id },
+      create: { id: tripData.id, createdAt: tripData.createdAt ? new Date(tripData.createdAt) : now, ...header },
+      update: header,
+    }),
+    prisma.itineraryDay.deleteMany({ where: { itineraryId: tripData.id } }),
+    ...dayCreates,
+  ]);
+
+  const saved = await getItinerary(tripData.id);
+  if (!saved) throw new Error(`Itinerary ${tripData.id} could not be read back after saving.`);
+  return saved;
+}
+
+export async function deleteItinerary(itineraryId: string): Promise<boolean> {
+  const result = await prisma.itinerary.deleteMany({ where: { id: itineraryId } });
+  return result.count > 0;
+}
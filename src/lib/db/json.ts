@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Helpers for the JSON-encoded TEXT columns used by the Prisma schema.
+ * Nested structures are stored as strings so the same schema works on SQLite and Postgres;
+ * these helpers keep the encode/decode (and corrupted-value fallback) in one place.
+ *
+ * @bangla Prisma স্কিমায় ব্যবহৃত JSON-এনকোড করা TEXT কলামগুলির জন্য সহায়ক ফাংশন।
+ * নেস্টেড কাঠামোগুলি স্ট্রিং হিসাবে সংরক্ষণ করা হয় যাতে একই স্কিমা SQLite এবং Postgres
+ * উভয়তেই কাজ করে; এই সহায়কগুলি এনকোড/ডিকোড (এবং নষ্ট মানের ক্ষেত্রে ফলব্যাক) এক জায়গায় রাখে।
+ */
+
+export function toJson(value: unknown): string {
+  return JSON.stringify(value ?? null);
+}
+
+export function toOptionalJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+export function fromJson<T>(value: string | null | undefined, fallback: T): T {
+  if (value === null || value === undefined || value === '') return fallback;
+  try {
+    const parsed = JSON.parse(value);
+    return (parsed ?? fallback) as T;
+  } catch (e) {
+    console.warn("Could not parse JSON column value, using fallback:", e);
+    return fallback;
+  }
+}
+
+/** Prisma returns `null` for empty optional columns; the app types use `undefined`. */
+export function nullToUndefined<T>(value: T | null): T | undefined {
+  return value === null ? undefined : value;
+}
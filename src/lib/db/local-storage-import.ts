@@ -0,0 +1,371 @@
+/**
+ * @fileoverview One-time import of data that older versions of the app kept in the browser's
+ * localStorage. The raw `itineraryAce*` values are parsed, validated against the Zod schemas,
+ * checked for duplicate IDs inside the payload and for conflicts with rows already in the
+ * database, and summarised in a report. A dry run stops there; a real import then writes the
+ * accepted records through the regular persistence functions. Conflicting records are skipped
+ * unless the caller asks to overwrite them.
+ *
+ * @bangla অ্যাপের পুরনো সংস্করণগুলি ব্রাউজারের localStorage-এ যে ডেটা রাখত তার এককালীন ইম্পোর্ট।
+ * কাঁচা `itineraryAce*` মানগুলি পার্স করা হয়, Zod স্কিমার বিপরীতে যাচাই করা হয়, পেলোডের ভিতরে
+ * ডুপ্লিকেট আইডি এবং ডেটাবেসে ইতিমধ্যে থাকা সারির সাথে দ্বন্দ্ব পরীক্ষা করা হয়, এবং একটি রিপোর্টে
+ * সংক্ষেপিত হয়। ড্রাই রান সেখানেই থামে; আসল ইম্পোর্ট তারপর গৃহীত রেকর্ডগুলি সাধারণ সংরক্ষণ
+ * ফাংশনের মাধ্যমে লেখে। কলার ওভাররাইট করতে না বললে দ্বন্দ্বপূর্ণ রেকর্ডগুলি বাদ দেওয়া হয়।
+ */
+import { z } from 'zod';
+import prisma from '@/lib/prisma';
+import { AgencySchema, AgentProfileSchema, type Agency, type AgentProfile } from '@/types/agent';
+import { QuotationRequestSchema, type QuotationRequest } from '@/types/quotation';
+import {
+  TripDataSchema, ServicePriceItemSchema, HotelDefinitionSchema, ExchangeRateSchema, SpecificMarkupRateSchema,
+} from '@/types/itinerary-schemas';
+import type { TripData, ServicePriceItem, HotelDefinition, ExchangeRate, SpecificMarkupRate } from '@/types/itinerary';
+import {
+  LEGACY_STORAGE_KEY_PREFIX, LEGACY_STORAGE_KEYS, BROWSER_ONLY_STORAGE_KEYS,
+  type ImportCollection, type ImportCollectionSummary, type ImportIssue,
+  type LocalStorageImportRequest, type LocalStorageImportReport,
+} from '@/types/local-storage-import';
+import { saveAgency, saveAgentProfile } from './agents';
+import { saveQuotationRequest } from './quotation-requests';
+import { saveItinerary } from './itineraries';
+import { saveServicePrice } from './service-prices';
+import { saveHotelDefinition } from './hotel-definitions';
+import { getExchangeRateState, saveExchangeRateState, type ExchangeRateState } from './exchange-rates';
+
+// The app schemas generate an ID when one is missing; imported records must bring their own.
+const ImportedAgencySchema = AgencySchema.extend({ id: z.string().min(1, "Agency ID is required.") });
+const ImportedAgentProfileSchema = AgentProfileSchema.extend({ id: z.string().min(1, "Agent ID is required.") });
+const ImportedQuotationRequestSchema = QuotationRequestSchema.extend({ id: z.string().min(1, "Quotation request ID is required.") });
+
+interface Candidate<T> {
+  record: T;
+  id: string;
+  storageKey: string;
+}
+
+/** Accepted records per collection, after duplicates and (unless overwriting) conflicts are removed. */
+interface ImportPlan {
+  agencies: Agency[];
+  agents: AgentProfile[];
+  quotationRequests: QuotationRequest[];
+  itineraries: TripData[];
+  servicePrices: ServicePriceItem[];
+  hotelDefinitions: HotelDefinition[];
+  exchangeRates: ExchangeRate[];
+  specificMarkupRates: SpecificMarkupRate[];
+  settings: LocalStorageImportReport['settings'];
+}
+
+const formatZodIssues = (error: z.ZodError): string =>
+  error.issues.map(issue => `${issue.path.join('.') || '(record)'}: ${issue.message}`).join('; ');
+
+const recordIdOf = (value: unknown): string | undefined => {
+  const id = (value as { id?: unknown } | null)?.id;
+  return typeof id === 'string' && id ? id : undefined;
+};
+
+const currencyPairOf = (rate: { fromCurrency: string; toCurrency: string }) => `${rate.fromCurrency}->${rate.toCurrency}`;
+
+function parseStoredJson(storageKey: string, raw: string, issues: ImportIssue[]): unknown | undefined {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    issues.push({ kind: 'unreadable', storageKey, message: "Value is not valid JSON." });
+    return undefined;
+  }
+}
+
+function parseStoredArray(storageKey: string, raw: string | undefined, issues: ImportIssue[]): unknown[] {
+  if (raw === undefined) return [];
+  const parsed = parseStoredJson(storageKey, raw, issues);
+  if (parsed === undefined || parsed === null) return [];
+  if (!Array.isArray(parsed)) {
+    issues.push({ kind: 'unreadable', storageKey, message: "Expected a list of records." });
+    return [];
+  }
+  return parsed;
+}
+
+function validateRecord<T>(
+  collection: ImportCollection, storageKey: string, value: unknown, schema: z.ZodTypeAny, issues: ImportIssue[],
+): Candidate<T> | null {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    issues.push({ kind: 'invalid', storageKey, collection, recordId: recordIdOf(value), message: formatZodIssues(parsed.error) });
+    return null;
+  }
+  const record = parsed.data as T;
+  return { record, id: recordIdOf(record)!, storageKey };
+}
+
+/** Keeps the first record for each key and reports the rest as duplicates. */
+function dropDuplicates<T>(
+  collection: ImportCollection, candidates: Candidate<T>[], issues: ImportIssue[],
+  keysOf: (candidate: Candidate<T>) => string[] = candidate => [candidate.id],
+): Candidate<T>[] {
+  const seen = new Set<string>();
+  return candidates.filter(candidate => {
+    const keys = keysOf(candidate);
+    const duplicateKey = keys.find(key => seen.has(key));
+    if (duplicateKey) {
+      issues.push({ kind: 'duplicate', storageKey: candidate.storageKey, collection, recordId: candidate.id, message: `Duplicate of an earlier record (${duplicateKey}); only the first one is imported.` });
+      return false;
+    }
+    keys.forEach(key => seen.add(key));
+    return true;
+  });
+}
+
+/** Reports records that already exist in the database and drops them unless overwriting. */
+function resolveConflicts<T>(
+  collection: ImportCollection, candidates: Candidate<T>[], issues: ImportIssue[],
+  findConflict: (candidate: Candidate<T>) => string | undefined, overwriteConflicts: boolean,
+): { accepted: T[]; conflicts: number } {
+  let conflicts = 0;
+  const accepted: T[] = [];
+  candidates.forEach(candidate => {
+    const conflict = findConflict(candidate);
+    if (conflict) {
+      conflicts++;
+      issues.push({
+        kind: 'conflict', storageKey: candidate.storageKey, collection, recordId: candidate.id,
+        message: `${conflict} ${overwriteConflicts ? "The stored record will be overwritten." : "Skipped; the stored record is kept."}`,
+      });
+      if (!overwriteConflicts) return;
+    }
+    accepted.push(candidate.record);
+  });
+  return { accepted, conflicts };
+}
+
+async function loadExistingIds(collection: Exclude<ImportCollection, 'exchangeRates' | 'specificMarkupRates'>, ids: string[]): Promise<Set<string>> {
+  if (ids.length === 0) return new Set();
+  const args = { where: { id: { in: ids } }, select: { id: true } };
+  let rows: { id: string }[];
+  switch (collection) {
+    case 'agencies': rows = await prisma.agency.findMany(args); break;
+    case 'agents': rows = await prisma.agentProfile.findMany(args); break;
+    case 'quotationRequests': rows = await prisma.quotationRequest.findMany(args); break;
+    case 'itineraries': rows = await prisma.itinerary.findMany(args); break;
+    case 'servicePrices': rows = await prisma.servicePrice.findMany(args); break;
+    case 'hotelDefinitions': rows = await prisma.hotelDefinition.findMany(args); break;
+  }
+  return new Set(rows.map(row => row.id));
+}
+
+/** Item IDs must be unique within a day, which the `ItineraryItem` table enforces. */
+function findDuplicateItemIds(tripData: TripData): string[] {
+  const duplicates: string[] = [];
+  Object.entries(tripData.days).forEach(([dayKey, day]) => {
+    const seen = new Set<string>();
+    day.items.forEach(item => {
+      if (seen.has(item.id)) duplicates.push(`day ${dayKey}: ${item.id}`);
+      seen.add(item.id);
+    });
+  });
+  return duplicates;
+}
+
+async function buildImportPlan(
+  entries: Record<string, string>, overwriteConflicts: boolean,
+): Promise<{ plan: ImportPlan; report: LocalStorageImportReport; exchangeState: ExchangeRateState }> {
+  const issues: ImportIssue[] = [];
+  const summaries: ImportCollectionSummary[] = [];
+  const recognisedKeys = new Set<string>(Object.values(LEGACY_STORAGE_KEYS));
+
+  const ignoredKeys = Object.keys(entries).filter(key =>
+    !key.startsWith(LEGACY_STORAGE_KEY_PREFIX)
+    || BROWSER_ONLY_STORAGE_KEYS.includes(key)
+    || (!recognisedKeys.has(key) && !key.startsWith(LEGACY_STORAGE_KEYS.itineraryDataPrefix)));
+
+  /** Validates, de-duplicates and conflict-checks one collection, recording its summary. */
+  const planCollection = <T>(
+    collection: ImportCollection, found: number, candidates: Candidate<T>[],
+    findConflict: (candidate: Candidate<T>) => string | undefined,
+    keysOf?: (candidate: Candidate<T>) => string[],
+  ): T[] => {
+    const unique = dropDuplicates(collection, candidates, issues, keysOf);
+    const { accepted, conflicts } = resolveConflicts(collection, unique, issues, findConflict, overwriteConflicts);
+    summaries.push({
+      collection, found, invalid: found - candidates.length, duplicates: candidates.length - unique.length,
+      conflicts, toImport: accepted.length,
+    });
+    return accepted;
+  };
+
+  const validateList = <T>(collection: ImportCollection, storageKey: string, schema: z.ZodTypeAny) => {
+    const values = parseStoredArray(storageKey, entries[storageKey], issues);
+    const candidates = values
+      .map(value => validateRecord<T>(collection, storageKey, value, schema, issues))
+      .filter((candidate): candidate is Candidate<T> => candidate !== null);
+    return { found: values.length, candidates };
+  };
+
+  const idConflict = (existing: Set<string>, label: string) => (candidate: { id: string }) =>
+    existing.has(candidate.id) ? `A ${label} with ID "${candidate.id}" already exists.` : undefined;
+
+  // Agencies come first so agents can be checked against both imported and stored agencies.
+  const agencyInput = validateList<Agency>('agencies', LEGACY_STORAGE_KEYS.agencies, ImportedAgencySchema);
+  const existingAgencyIds = await loadExistingIds('agencies', agencyInput.candidates.map(c => c.id));
+  const agencies = planCollection('agencies', agencyInput.found, agencyInput.candidates, idConflict(existingAgencyIds, "agency"));
+
+  const agentInput = validateList<AgentProfile>('agents', LEGACY_STORAGE_KEYS.agents, ImportedAgentProfileSchema);
+  const referencedAgencyIds = Array.from(new Set(agentInput.candidates.map(c => c.record.agencyId)));
+  const storedAgencyIds = await loadExistingIds('agencies', referencedAgencyIds);
+  const knownAgencyIds = new Set([...Array.from(storedAgencyIds), ...agencies.map(a => a.id)]);
+  const agentCandidates = agentInput.candidates.filter(candidate => {
+    if (knownAgencyIds.has(candidate.record.agencyId)) return true;
+    issues.push({ kind: 'invalid', storageKey: candidate.storageKey, collection: 'agents', recordId: candidate.id, message: `Agency "${candidate.record.agencyId}" is neither stored nor part of this import.` });
+    return false;
+  });
+  const existingAgentIds = await loadExistingIds('agents', agentCandidates.map(c => c.id));
+  const agents = planCollection('agents', agentInput.found, agentCandidates, idConflict(existingAgentIds, "agent"));
+
+  const requestInput = validateList<QuotationRequest>('quotationRequests', LEGACY_STORAGE_KEYS.quotationRequests, ImportedQuotationRequestSchema);
+  const existingRequestIds = await loadExistingIds('quotationRequests', requestInput.candidates.map(c => c.id));
+  const plannedRequests = planCollection('quotationRequests', requestInput.found, requestInput.candidates, idConflict(existingRequestIds, "quotation request"));
+  // Legacy requests predate agency scoping; take the agency from the submitting agent so that agency can see them.
+  const agencyByAgentId = new Map(agents.map(agent => [agent.id, agent.agencyId]));
+  const storedAgentIds = Array.from(new Set(plannedRequests.map(r => r.agentId).filter((id): id is string => !!id && !agencyByAgentId.has(id))));
+  if (storedAgentIds.length > 0) {
+    const storedAgents = await prisma.agentProfile.findMany({ where: { id: { in: storedAgentIds } }, select: { id: true, agencyId: true } });
+    storedAgents.forEach(agent => agencyByAgentId.set(agent.id, agent.agencyId));
+  }
+  const quotationRequests = plannedRequests.map(request =>
+    request.agencyId || !request.agentId ? request : { ...request, agencyId: agencyByAgentId.get(request.agentId) });
+
+  // Itineraries are stored one per key; the index only serves to spot orphaned entries.
+  const itineraryKeys = Object.keys(entries).filter(key => key.startsWith(LEGACY_STORAGE_KEYS.itineraryDataPrefix));
+  const itineraryCandidates: Candidate<TripData>[] = [];
+  itineraryKeys.forEach(storageKey => {
+    const value = parseStoredJson(storageKey, entries[storageKey], issues);
+    if (value === undefined) return;
+    const candidate = validateRecord<TripData>('itineraries', storageKey, value, TripDataSchema, issues);
+    if (!candidate) return;
+    const keyId = storageKey.slice(LEGACY_STORAGE_KEYS.itineraryDataPrefix.length);
+    if (candidate.id !== keyId) {
+      issues.push({ kind: 'invalid', storageKey, collection: 'itineraries', recordId: candidate.id, message: `Stored under ID "${keyId}" but the itinerary's own ID is "${candidate.id}".` });
+      return;
+    }
+    const duplicateItems = findDuplicateItemIds(candidate.record);
+    if (duplicateItems.length > 0) {
+      issues.push({ kind: 'invalid', storageKey, collection: 'itineraries', recordId: candidate.id, message: `Duplicate item IDs within a day: ${duplicateItems.join(', ')}.` });
+      return;
+    }
+    itineraryCandidates.push(candidate);
+  });
+  const indexKey = LEGACY_STORAGE_KEYS.itineraryIndex;
+  parseStoredArray(indexKey, entries[indexKey], issues).forEach(entry => {
+    const id = recordIdOf(entry);
+    if (id && !itineraryKeys.includes(`${LEGACY_STORAGE_KEYS.itineraryDataPrefix}${id}`)) {
+      issues.push({ kind: 'invalid', storageKey: indexKey, collection: 'itineraries', recordId: id, message: "Listed in the itinerary index but its data is missing; nothing to import." });
+    }
+  });
+  const existingItineraryIds = await loadExistingIds('itineraries', itineraryCandidates.map(c => c.id));
+  const itineraries = planCollection('itineraries', itineraryKeys.length, itineraryCandidates, idConflict(existingItineraryIds, "itinerary"));
+
+  const priceInput = validateList<ServicePriceItem>('servicePrices', LEGACY_STORAGE_KEYS.servicePrices, ServicePriceItemSchema);
+  const existingPriceIds = await loadExistingIds('servicePrices', priceInput.candidates.map(c => c.id));
+  const servicePrices = planCollection('servicePrices', priceInput.found, priceInput.candidates, idConflict(existingPriceIds, "service price"));
+
+  const hotelInput = validateList<HotelDefinition>('hotelDefinitions', LEGACY_STORAGE_KEYS.hotelDefinitions, HotelDefinitionSchema);
+  const existingHotelIds = await loadExistingIds('hotelDefinitions', hotelInput.candidates.map(c => c.id));
+  const hotelDefinitions = planCollection('hotelDefinitions', hotelInput.found, hotelInput.candidates, idConflict(existingHotelIds, "hotel"));
+
+  // Rates and markups are unique per currency pair as well as per ID.
+  const exchangeState = await getExchangeRateState();
+  const pairConflict = (stored: { id: string; fromCurrency: string; toCurrency: string }[], label: string) =>
+    (candidate: Candidate<{ id: string; fromCurrency: string; toCurrency: string }>) => {
+      const match = stored.find(s => s.id === candidate.id || currencyPairOf(s) === currencyPairOf(candidate.record));
+      return match ? `A ${label} for ${currencyPairOf(match)} already exists.` : undefined;
+    };
+  const pairKeys = (candidate: Candidate<{ fromCurrency: string; toCurrency: string }>) => [candidate.id, currencyPairOf(candidate.record)];
+
+  const rateInput = validateList<ExchangeRate>('exchangeRates', LEGACY_STORAGE_KEYS.exchangeRates, ExchangeRateSchema);
+  const exchangeRates = planCollection('exchangeRates', rateInput.found, rateInput.candidates, pairConflict(exchangeState.rates, "rate"), pairKeys);
+
+  const markupInput = validateList<SpecificMarkupRate>('specificMarkupRates', LEGACY_STORAGE_KEYS.specificMarkupRates, SpecificMarkupRateSchema);
+  const specificMarkupRates = planCollection('specificMarkupRates', markupInput.found, markupInput.candidates, pairConflict(exchangeState.specificMarkupRates, "markup rate"), pairKeys);
+
+  const settings: ImportPlan['settings'] = {};
+  const markupKey = LEGACY_STORAGE_KEYS.globalExchangeMarkup;
+  if (entries[markupKey] !== undefined) {
+    // The old hook wrote this one with `String(number)` rather than JSON.
+    const markup = parseFloat(entries[markupKey]);
+    if (isNaN(markup) || markup < 0) {
+      issues.push({ kind: 'invalid', storageKey: markupKey, message: `"${entries[markupKey]}" is not a valid markup percentage.` });
+    } else if (exchangeState.globalMarkupPercentage !== 0 && exchangeState.globalMarkupPercentage !== markup && !overwriteConflicts) {
+      issues.push({ kind: 'conflict', storageKey: markupKey, message: `The stored global markup is ${exchangeState.globalMarkupPercentage}%. Skipped; the stored value is kept.` });
+    } else {
+      settings.globalMarkupPercentage = markup;
+    }
+  }
+  const fetchedKey = LEGACY_STORAGE_KEYS.apiRatesLastFetched;
+  if (entries[fetchedKey] !== undefined) {
+    const fetchedAt = parseStoredJson(fetchedKey, entries[fetchedKey], issues);
+    if (typeof fetchedAt === 'string' && !isNaN(new Date(fetchedAt).getTime())) {
+      if (!exchangeState.apiRatesLastFetched || overwriteConflicts) settings.apiRatesLastFetched = fetchedAt;
+    } else if (fetchedAt !== undefined && fetchedAt !== null) {
+      issues.push({ kind: 'invalid', storageKey: fetchedKey, message: "Not a valid timestamp." });
+    }
+  }
+
+  return {
+    plan: { agencies, agents, quotationRequests, itineraries, servicePrices, hotelDefinitions, exchangeRates, specificMarkupRates, settings },
+    report: { dryRun: true, overwriteConflicts, collections: summaries, settings, issues, ignoredKeys, importedCount: 0 },
+    exchangeState,
+  };
+}
+
+/** Writes records one at a time so a single bad row is reported instead of aborting the import. */
+async function writeEach<T extends { id: string }>(
+  collection: ImportCollection, storageKey: string, records: T[], save: (record: T) => Promise<unknown>, issues: ImportIssue[],
+): Promise<number> {
+  let written = 0;
+  for (const record of records) {
+    try {
+      await save(record);
+      written++;
+    } catch (error) {
+      console.error(`Failed to import ${collection} record ${record.id}:`, error);
+      issues.push({ kind: 'failed', storageKey, collection, recordId: record.id, message: "Could not be written to the database." });
+    }
+  }
+  return written;
+}
+
+/** Merges imported rates into the stored list, replacing stored entries with the same ID or currency pair. */
+function mergeByCurrencyPair<T extends { id: string; fromCurrency: string; toCurrency: string }>(stored: T[], imported: T[]): T[] {
+  const kept = stored.filter(s => !imported.some(i => i.id === s.id || currencyPairOf(i) === currencyPairOf(s)));
+  return [...kept, ...imported];
+}
+
+export async function runLocalStorageImport(request: LocalStorageImportRequest): Promise<LocalStorageImportReport> {
+  const overwriteConflicts = request.overwriteConflicts === true;
+  const { plan, report, exchangeState } = await buildImportPlan(request.entries, overwriteConflicts);
+  if (request.dryRun) return report;
+
+  const { issues } = report;
+  let importedCount = 0;
+  importedCount += await writeEach('agencies', LEGACY_STORAGE_KEYS.agencies, plan.agencies, saveAgency, issues);
+  importedCount += await writeEach('agents', LEGACY_STORAGE_KEYS.agents, plan.agents, saveAgentProfile, issues);
+  importedCount += await writeEach('quotationRequests', LEGACY_STORAGE_KEYS.quotationRequests, plan.quotationRequests, saveQuotationRequest, issues);
+  importedCount += await writeEach('itineraries', LEGACY_STORAGE_KEYS.itineraryDataPrefix, plan.itineraries, saveItinerary, issues);
+  importedCount += await writeEach('servicePrices', LEGACY_STORAGE_KEYS.servicePrices, plan.servicePrices, saveServicePrice, issues);
+  importedCount += await writeEach('hotelDefinitions', LEGACY_STORAGE_KEYS.hotelDefinitions, plan.hotelDefinitions, saveHotelDefinition, issues);
+
+  const exchangeUpdate: Partial<ExchangeRateState> = { ...plan.settings };
+  if (plan.exchangeRates.length > 0) exchangeUpdate.rates = mergeByCurrencyPair(exchangeState.rates, plan.exchangeRates);
+  if (plan.specificMarkupRates.length > 0) exchangeUpdate.specificMarkupRates = mergeByCurrencyPair(exchangeState.specificMarkupRates, plan.specificMarkupRates);
+  if (Object.keys(exchangeUpdate).length > 0) {
+    try {
+      await saveExchangeRateState(exchangeUpdate);
+      importedCount += plan.exchangeRates.length + plan.specificMarkupRates.length;
+    } catch (error) {
+      console.error("Failed to import exchange rate data:", error);
+      issues.push({ kind: 'failed', storageKey: LEGACY_STORAGE_KEYS.exchangeRates, message: "Exchange rates, markups and settings could not be written to the database." });
+    }
+  }
+
+  return { ...report, dryRun: false, importedCount };
+}
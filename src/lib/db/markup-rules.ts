@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Server-side persistence for sell-price markup rules. Validity dates are stored as
+ * timestamps at midnight UTC and handed out as `yyyy-MM-dd` strings.
+ *
+ * @bangla বিক্রয় মূল্যের মার্কআপ নিয়মগুলির জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ। বৈধতার তারিখগুলি UTC
+ * মধ্যরাতের টাইমস্ট্যাম্প হিসাবে সংরক্ষিত হয় এবং `yyyy-MM-dd` স্ট্রিং হিসাবে ফেরত দেওয়া হয়।
+ */
+import prisma from '@/lib/prisma';
+import type { MarkupRule as MarkupRuleRow } from '@prisma/client';
+import type { MarkupRule } from '@/types/pricing';
+import { nullToUndefined } from './json';
+
+const toDay = (value: Date | null) => (value ? value.toISOString().slice(0, 10) : undefined);
+
+const fromDay = (value: string | undefined) => (value ? new Date(`${value}T00:00:00.000Z`) : null);
+
+const mapRowToMarkupRule = (row: MarkupRuleRow): MarkupRule => ({
+  id: row.id,
+  name: row.name,
+  agencyId: nullToUndefined(row.agencyId),
+  category: nullToUndefined(row.category) as MarkupRule['category'],
+  countryId: nullToUndefined(row.countryId),
+  validFrom: toDay(row.validFrom),
+  validTo: toDay(row.validTo),
+  markupPercentage: row.markupPercentage,
+  isActive: row.isActive,
+});
+
+const mapMarkupRuleToColumns = (rule: MarkupRule) => ({
+  name: rule.name,
+  agencyId: rule.agencyId || null,
+  category: rule.category ?? null,
+  countryId: rule.countryId || null,
+  validFrom: fromDay(rule.validFrom),
+  validTo: fromDay(rule.validTo),
+  markupPercentage: rule.markupPercentage,
+  isActive: rule.isActive,
+});
+
+/** Rules ordered by name, which is also the tie-break order of the sell-price engine. */
+export async function listMarkupRules(filters: { agencyId?: string } = {}): Promise<MarkupRule[]> {
+  const rows = await prisma.markupRule.findMany({
+    // An agency sees the rules for everyone plus its own.
+    where: filters.agencyId ? { OR: [{ agencyId: null }, { agencyId: filters.agencyId }] } : undefined,
+    orderBy: { name: 'asc' },
+  });
+  return rows.map(mapRowToMarkupRule);
+}
+
+export async function saveMarkupRule(rule: MarkupRule): Promise<MarkupRule> {
+  const columns = mapMarkupRuleToColumns(rule);
+  const row = await prisma.markupRule.upsert({ where: { id: rule.id }, create: { id: rule.id, ...columns }, update: columns });
+  return mapRowToMarkupRule(row);
+}
+
+export async function deleteMarkupRule(ruleId: string): Promise<boolean> {
+  const result = await prisma.markupRule.deleteMany({ where: { id: ruleId } });
+  return result.count > 0;
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Server-side persistence for in-app notifications and each user's notification
+ * preferences. Every query is scoped to one user, so a user can only ever read or mark their own
+ * notifications.
+ *
+ * @bangla অ্যাপের ভিতরের বিজ্ঞপ্তি এবং প্রতিটি ব্যবহারকারীর বিজ্ঞপ্তি পছন্দের জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ।
+ * প্রতিটি কোয়েরি একজন ব্যবহারকারীতে সীমাবদ্ধ, তাই একজন ব্যবহারকারী কেবল নিজের বিজ্ঞপ্তিই পড়তে বা চিহ্নিত করতে পারেন।
+ */
+import prisma from '@/lib/prisma';
+import { Prisma, type Notification as NotificationRow } from '@prisma/client';
+import type { AppNotification, NotificationKind, NotificationPreferences } from '@/types/notification';
+import { fromJson, nullToUndefined, toJson } from './json';
+
+const mapRowToNotification = (row: NotificationRow): AppNotification => ({
+  id: row.id,
+  kind: row.kind as NotificationKind,
+  title: row.title,
+  body: row.body,
+  quotationRequestId: nullToUndefined(row.quotationRequestId),
+  itineraryId: nullToUndefined(row.itineraryId),
+  readAt: row.readAt?.toISOString(),
+  createdAt: row.createdAt.toISOString(),
+});
+
+export type NewNotification = Omit<AppNotification, 'id' | 'readAt' | 'createdAt'> & { userId: string; key?: string };
+
+/**
+ * Stores `notifications` one at a time and returns the ones that are new. One whose `key` its user
+ * already has, even from a concurrent run, is refused by the unique `(userId, key)` index and left out.
+ */
+export async function createNotifications(notifications: NewNotification[]): Promise<NewNotification[]> {
+  const fresh: NewNotification[] = [];
+  for (const notification of notifications) {
+    try {
+      await prisma.notification.create({
+        data: {
+          userId: notification.userId,
+          kind: notification.kind,
+          title: notification.title,
+          body: notification.body,
+          quotationRequestId: notification.quotationRequestId ?? null,
+          itineraryId: notification.itineraryId ?? null,
+          key: notification.key ?? null,
+        },
+      });
+      fresh.push(notification);
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+    }
+  }
+  return fresh;
+}
+
+/** The user's notifications, newest first. */
+export async function listNotifications(userId: string, options: { unreadOnly?: boolean; take?: number } = {}): Promise<AppNotification[]> {
+  const rows = await prisma.notification.findMany({
+    where: { userId, ...(options.unreadOnly ? { readAt: null } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: options.take ?? 50,
+  });
+  return rows.map(mapRowToNotification);
+}
+
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  return prisma.notification.count({ where: { userId, readAt: null } });
+}
+
+/** Marks the given notifications of the user read, or all of them when `ids` is omitted. */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+    data: { readAt: new Date() },
+  });
+  return count;
+}
+
+const DEFAULT_PREFERENCES: NotificationPreferences = { email: {} };
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const row = await prisma.user.findUnique({ where: { id: userId }, select: { notificationPreferences: true } });
+  return fromJson<NotificationPreferences>(row?.notificationPreferences, DEFAULT_PREFERENCES);
+}
+
+export async function saveNotificationPreferences(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+  await prisma.user.update({ where: { id: userId }, data: { notificationPreferences: toJson(preferences) } });
+  return preferences;
+}
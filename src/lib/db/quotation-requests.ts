@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Server-side persistence for agent quotation requests.
+ * The nested form sections (client info, trip details, preferences) are stored as JSON
+ * columns; status, agent, agency and linked itinerary are real columns so they can be filtered on.
+ * Status changes are written together with an entry in the append-only `QuotationStatusChange`
+ * history, and quote sends also freeze a `QuoteVersion` snapshot in the same transaction, as client
+ * acceptances store their `QuoteAcceptance`; nothing here updates or deletes history entries,
+ * snapshots or acceptances.
+ *
+ * @bangla এজেন্টের উদ্ধৃতি অনুরোধগুলির জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ।
+ * নেস্টেড ফর্ম বিভাগগুলি (ক্লায়েন্টের তথ্য, ভ্রমণের বিবরণ, পছন্দসমূহ) JSON কলাম হিসাবে
+ * সংরক্ষিত হয়; স্ট্যাটাস, এজেন্ট, এজেন্সি এবং লিঙ্ক করা ভ্রমণপথ আলাদা কলাম যাতে সেগুলি দিয়ে ফিল্টার করা যায়।
+ * স্ট্যাটাস পরিবর্তনগুলি কেবল-সংযোজনযোগ্য `QuotationStatusChange` ইতিহাসের একটি এন্ট্রির সাথে একসাথে
+ * লেখা হয়, এবং উদ্ধৃতি পাঠানোর সময় একই ট্রানজ্যাকশনে একটি `QuoteVersion` স্ন্যাপশটও সংরক্ষিত হয়, যেমন
+ * ক্লায়েন্টের গ্রহণ তার `QuoteAcceptance` সংরক্ষণ করে; এখানে কিছুই ইতিহাসের এন্ট্রি, স্ন্যাপশট বা গ্রহণ
+ * আপডেট বা মুছে ফেলে না।
+ */
+import prisma from '@/lib/prisma';
+import type {
+  QuotationRequest as QuotationRequestRow, QuotationStatusChange as QuotationStatusChangeRow, QuoteVersion as QuoteVersionRow,
+  QuoteAcceptance as QuoteAcceptanceRow,
+} from '@prisma/client';
+import type {
+  QuotationRequest, QuotationRequestStatus, QuotationStatusChange, QuoteAcceptance, QuoteVersion, QuoteVersionSummary,
+} from '@/types/quotation';
+import type { CostSummary, TripData } from '@/types/itinerary';
+import { toJson, toOptionalJson, fromJson, nullToUndefined } from './json';
+
+const mapRowToQuotationRequest = (row: QuotationRequestRow): QuotationRequest => ({
+  id: row.id,
+  requestDate: row.requestDate.toISOString(),
+  agentId: nullToUndefined(row.agentId),
+  agencyId: nullToUndefined(row.agencyId),
+  clientInfo: fromJson<QuotationRequest['clientInfo']>(row.clientInfo, { adults: 1, children: 0 }),
+  tripDetails: fromJson<QuotationRequest['tripDetails']>(row.tripDetails, { preferredCountryIds: [], budgetCurrency: 'USD' }),
+  accommodationPrefs: fromJson<QuotationRequest['accommodationPrefs']>(row.accommodationPrefs, undefined),
+  activityPrefs: fromJson<QuotationRequest['activityPrefs']>(row.activityPrefs, undefined),
+  flightPrefs: fromJson<QuotationRequest['flightPrefs']>(row.flightPrefs, undefined),
+  mealPrefs: fromJson<QuotationRequest['mealPrefs']>(row.mealPrefs, undefined),
+  otherRequirements: nullToUndefined(row.otherRequirements),
+  status: row.status as QuotationRequestStatus,
+  linkedItineraryId: nullToUndefined(row.linkedItineraryId),
+  updatedAt: row.updatedAt.toISOString(),
+  agentRevisionNotes: nullToUndefined(row.agentRevisionNotes),
+  adminRevisionNotes: nullToUndefined(row.adminRevisionNotes),
+  version: row.version,
+});
+
+const mapQuotationRequestToColumns = (request: QuotationRequest) => ({
+  requestDate: new Date(request.requestDate),
+  agentId: request.agentId || null,
+  agencyId: request.agencyId || null,
+  clientInfo: toJson(request.clientInfo),
+  tripDetails: toJson(request.tripDetails),
+  accommodationPrefs: toOptionalJson(request.accommodationPrefs),
+  activityPrefs: toOptionalJson(request.activityPrefs),
+  flightPrefs: toOptionalJson(request.flightPrefs),
+  mealPrefs: toOptionalJson(request.mealPrefs),
+  otherRequirements: request.otherRequirements ?? null,
+  status: request.status,
+  linkedItineraryId: request.linkedItineraryId ?? null,
+  agentRevisionNotes: request.agentRevisionNotes ?? null,
+  adminRevisionNotes: request.adminRevisionNotes ?? null,
+  version: request.version ?? 0,
+  updatedAt: request.updatedAt ? new Date(request.updatedAt) : new Date(),
+});
+
+const mapRowToStatusChange = (row: QuotationStatusChangeRow): QuotationStatusChange => ({
+  id: row.id,
+  quotationRequestId: row.quotationRequestId,
+  fromStatus: row.fromStatus as QuotationRequestStatus | null,
+  toStatus: row.toStatus as QuotationRequestStatus,
+  changedByUserId: nullToUndefined(row.changedByUserId),
+  changedByRole: row.changedByRole as QuotationStatusChange['changedByRole'],
+  changedByName: nullToUndefined(row.changedByName),
+  note: nullToUndefined(row.note),
+  version: row.version,
+  createdAt: row.createdAt.toISOString(),
+});
+
+const mapRowToQuoteVersionSummary = (row: Omit<QuoteVersionRow, 'tripData' | 'costSummary'>): QuoteVersionSummary => ({
+  id: row.id,
+  quotationRequestId: row.quotationRequestId,
+  version: row.version,
+  itineraryId: row.itineraryId,
+  billingCurrency: row.billingCurrency,
+  grandTotal: row.grandTotal,
+  createdByName: nullToUndefined(row.createdByName),
+  createdAt: row.createdAt.toISOString(),
+});
+
+const mapRowToQuoteVersion = (row: QuoteVersionRow): QuoteVersion => ({
+  ...mapRowToQuoteVersionSummary(row),
+  tripData: fromJson<TripData>(row.tripData, {} as TripData),
+  costSummary: fromJson<CostSummary>(row.costSummary, { grandTotal: 0, perPersonTotals: {}, detailedItems: [] }),
+});
+
+const mapRowToQuoteAcceptance = (row: QuoteAcceptanceRow): QuoteAcceptance => ({
+  id: row.id,
+  quotationRequestId: row.quotationRequestId,
+  quoteVersion: row.quoteVersion,
+  shareLinkId: nullToUndefined(row.shareLinkId),
+  signerName: row.signerName,
+  signature: row.signature,
+  billingCurrency: row.billingCurrency,
+  grandTotal: row.grandTotal,
+  acceptedAt: row.acceptedAt.toISOString(),
+});
+
+/** What the client had on screen when it sent a quote; frozen by `freezeSnapshot` transitions. */
+export interface QuoteSnapshot {
+  tripData: TripData;
+  costSummary: CostSummary;
+}
+
+/** What a client signed when accepting a quote; stored by `recordAcceptance` transitions. */
+export type NewQuoteAcceptance = Omit<QuoteAcceptance, 'id' | 'quotationRequestId' | 'acceptedAt'> & { userAgent?: string | null };
+
+/** Who made a status change, as recorded in the history. Clients have no user id. */
+export interface QuotationActor {
+  userId?: string;
+  role: QuotationStatusChange['changedByRole'];
+  name?: string | null;
+}
+
+const actorColumns = (actor: QuotationActor) => ({
+  changedByUserId: actor.userId ?? null,
+  changedByRole: actor.role,
+  changedByName: actor.name ?? null,
+});
+
+export async function listQuotationRequests(filters: { agentId?: string; agencyId?: string } = {}): Promise<QuotationRequest[]> {
+  const rows = await prisma.quotationRequest.findMany({
+    where: {
+      ...(filters.agentId ? { agentId: filters.agentId } : {}),
+      ...(filters.agencyId ? { agencyId: filters.agencyId } : {}),
+    },
+    orderBy: { requestDate: 'desc' },
+  });
+  return rows.map(mapRowToQuotationRequest);
+}
+
+export async function getQuotationRequest(requestId: string): Promise<QuotationRequest | null> {
+  const row = await prisma.quotationRequest.findUnique({ where: { id: requestId } });
+  return row ? mapRowToQuotationRequest(row) : null;
+}
+
+export async function saveQuotationRequest(request: QuotationRequest): Promise<QuotationRequest> {
+  const columns = mapQuotationRequestToColumns(request);
+  const row = await prisma.quotationRequest.upsert({
+    where: { id: request.id },
+    create: { id: request.id, ...columns },
+    update: columns,
+  });
+  return mapRowToQuotationRequest(row);
+}
+
+/** Stores a newly submitted request together with the first history entry. */
+export async function createQuotationRequest(request: QuotationRequest, actor: QuotationActor): Promise<QuotationRequest> {
+  const columns = mapQuotationRequestToColumns(request);
+  const [row] = await prisma.$transaction([
+    prisma.quotationRequest.create({ data: { id: request.id, ...columns } }),
+    prisma.quotationStatusChange.create({
+      data: { quotationRequestId: request.id, fromStatus: null, toStatus: request.status, version: columns.version, ...actorColumns(actor) },
+    }),
+  ]);
+  return mapRowToQuotationRequest(row);
+}
+
+/**
+ * Saves `updated` and appends its history entry, but only while the stored request still has
+ * status `fromStatus`. Resolves to null when another transition got there first.
+ * With a `snapshot`, the quote is also frozen as `QuoteVersion` number `updated.version`; with an
+ * `acceptance`, the client's signature is stored against the version it names.
+ */
+export async function transitionQuotationRequest(
+  updated: QuotationRequest, fromStatus: QuotationRequestStatus, actor: QuotationActor, note?: string, snapshot?: QuoteSnapshot,
+  acceptance?: NewQuoteAcceptance,
+): Promise<{ request: QuotationRequest; change: QuotationStatusChange } | null> {
+  const columns = mapQuotationRequestToColumns(updated);
+  return prisma.$transaction(async tx => {
+    const { count } = await tx.quotationRequest.updateMany({ where: { id: updated.id, status: fromStatus }, data: columns });
+    if (count === 0) return null;
+    const change = await tx.quotationStatusChange.create({
+      data: { quotationRequestId: updated.id, fromStatus, toStatus: updated.status, version: columns.version, note: note?.trim() || null, ...actorColumns(actor) },
+    });
+    if (snapshot) {
+      await tx.quoteVersion.create({
+        data: {
+          quotationRequestId: updated.id,
+          version: columns.version,
+          itineraryId: snapshot.tripData.id,
+          tripData: toJson({ ...snapshot.tripData, version: columns.version }),
+          costSummary: toJson(snapshot.costSummary),
+          billingCurrency: snapshot.tripData.pax.currency,
+          grandTotal: snapshot.costSummary.grandTotal,
+          createdByUserId: actor.userId ?? null,
+          createdByName: actor.name ?? null,
+        },
+      });
+    }
+    if (acceptance) {
+      await tx.quoteAcceptance.create({
+        data: { quotationRequestId: updated.id, ...acceptance, shareLinkId: acceptance.shareLinkId ?? null, userAgent: acceptance.userAgent?.slice(0, 500) ?? null },
+      });
+    }
+    const row = await tx.quotationRequest.findUniqueOrThrow({ where: { id: updated.id } });
+    return { request: mapRowToQuotationRequest(row), change: mapRowToStatusChange(change) };
+  });
+}
+
+/** Status history of a request, oldest first. */
+export async function listQuotationStatusChanges(requestId: string): Promise<QuotationStatusChange[]> {
+  const rows = await prisma.quotationStatusChange.findMany({ where: { quotationRequestId: requestId }, orderBy: { createdAt: 'asc' } });
+  return rows.map(mapRowToStatusChange);
+}
+
+/** Sent quotes of a request without their snapshots, oldest first. */
+export async function listQuoteVersions(requestId: string): Promise<QuoteVersionSummary[]> {
+  const rows = await prisma.quoteVersion.findMany({ where: { quotationRequestId: requestId }, orderBy: { version: 'asc' } });
+  return rows.map(mapRowToQuoteVersionSummary);
+}
+
+/** Requests in one of `statuses` that have been quoted, each with its latest quote version. */
+export async function listRequestsWithLatestQuote(
+  statuses: readonly QuotationRequestStatus[],
+): Promise<{ request: QuotationRequest; quote: QuoteVersionSummary }[]> {
+  const rows = await prisma.quotationRequest.findMany({
+    where: { status: { in: [...statuses] } },
+    include: {
+      quoteVersions: {
+        select: {
+          id: true, quotationRequestId: true, version: true, itineraryId: true, billingCurrency: true, grandTotal: true,
+          createdByUserId: true, createdByName: true, createdAt: true,
+        },
+        orderBy: { version: 'desc' },
+        take: 1,
+      },
+    },
+  });
+  return rows.flatMap(({ quoteVersions, ...row }) =>
+    quoteVersions.length > 0 ? [{ request: mapRowToQuotationRequest(row), quote: mapRowToQuoteVersionSummary(quoteVersions[0]) }] : []);
+}
+
+export async function getQuoteVersion(requestId: string, version: number): Promise<QuoteVersion | null> {
+  const row = await prisma.quoteVersion.findUnique({ where: { quotationRequestId_version: { quotationRequestId: requestId, version } } });
+  return row ? mapRowToQuoteVersion(row) : null;
+}
+
+export async function getQuoteAcceptance(requestId: string, version: number): Promise<QuoteAcceptance | null> {
+  const row = await prisma.quoteAcceptance.findUnique({ where: { quotationRequestId_quoteVersion: { quotationRequestId: requestId, quoteVersion: version } } });
+  return row ? mapRowToQuoteAcceptance(row) : null;
+}
+
+export async function deleteQuotationRequest(requestId: string): Promise<boolean> {
+  const result = await prisma.quotationRequest.deleteMany({ where: { id: requestId } });
+  return result.count > 0;
+}
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Server-side persistence for the PDFs rendered from sent quote versions. A document
+ * is written once per version, variant and branding and then only read back, so a PDF that was
+ * downloaded or attached stays byte-for-byte the same; documents go when their version does.
+ *
+ * @bangla পাঠানো উদ্ধৃতি সংস্করণ থেকে তৈরি PDF-গুলির জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ। প্রতিটি সংস্করণ,
+ * ধরন ও ব্র্যান্ডিংয়ের জন্য একটি ডকুমেন্ট একবার লেখা হয় এবং তারপর শুধু পড়া হয়, তাই একবার ডাউনলোড বা
+ * সংযুক্ত করা PDF হুবহু একই থাকে; সংস্করণ মুছে গেলে ডকুমেন্টগুলিও মুছে যায়।
+ */
+import prisma from '@/lib/prisma';
+import type { QuoteDocument as QuoteDocumentRow } from '@prisma/client';
+import type { QuoteDocumentBranding, QuoteDocumentSummary, QuoteDocumentVariant } from '@/types/quotation';
+
+export interface StoredQuoteDocument extends QuoteDocumentSummary {
+  content: Buffer;
+}
+
+const mapRowToQuoteDocument = (row: QuoteDocumentRow): StoredQuoteDocument => ({
+  id: row.id,
+  quoteVersionId: row.quoteVersionId,
+  variant: row.variant as QuoteDocumentVariant,
+  branding: row.branding as QuoteDocumentBranding,
+  fileName: row.fileName,
+  byteSize: row.content.length,
+  createdAt: row.createdAt.toISOString(),
+  content: Buffer.from(row.content),
+});
+
+export async function getQuoteDocument(
+  quoteVersionId: string, variant: QuoteDocumentVariant, branding: QuoteDocumentBranding,
+): Promise<StoredQuoteDocument | null> {
+  const row = await prisma.quoteDocument.findUnique({ where: { quoteVersionId_variant_branding: { quoteVersionId, variant, branding } } });
+  return row ? mapRowToQuoteDocument(row) : null;
+}
+
+/** Stores the document unless one was stored meanwhile, and returns whichever is kept. */
+export async function saveQuoteDocument(
+  document: Pick<StoredQuoteDocument, 'quoteVersionId' | 'variant' | 'branding' | 'fileName' | 'content'>,
+  createdByUserId: string | null,
+): Promise<StoredQuoteDocument> {
+  const { quoteVersionId, variant, branding } = document;
+  const row = await prisma.quoteDocument.upsert({
+    where: { quoteVersionId_variant_branding: { quoteVersionId, variant, branding } },
+    create: { ...document, createdByUserId },
+    update: {},
+  });
+  return mapRowToQuoteDocument(row);
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Server-side persistence for master service prices.
+ * The full `ServicePriceItem` is kept in a JSON column; name, category, location, currency and
+ * supplier are duplicated into real columns for ordering and filtering. A hotel price also passes
+ * its supplier on to the hotel definition it describes.
+ *
+ * @bangla মাস্টার পরিষেবা মূল্যের জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ।
+ * সম্পূর্ণ `ServicePriceItem` একটি JSON কলামে রাখা হয়; নাম, বিভাগ, অবস্থান, মুদ্রা এবং সরবরাহকারী
+ * সাজানো ও ফিল্টার করার জন্য আলাদা কলামে অনুলিপি করা হয়। একটি হোটেলের মূল্য তার সরবরাহকারীকে যে হোটেল
+ * সংজ্ঞা বর্ণনা করে সেখানেও দেয়।
+ */
+import prisma from '@/lib/prisma';
+import type { ServicePrice as ServicePriceRow } from '@prisma/client';
+import type { HotelDefinition, ServicePriceItem } from '@/types/itinerary';
+import { toJson, fromJson, nullToUndefined } from './json';
+
+const mapRowToServicePrice = (row: ServicePriceRow): ServicePriceItem => ({
+  ...fromJson<ServicePriceItem>(row.data, {} as ServicePriceItem),
+  id: row.id,
+  isFavorite: row.isFavorite,
+  // The column is cleared when the supplier is deleted; the JSON copy is not.
+  supplierId: nullToUndefined(row.supplierId),
+});
+
+const mapServicePriceToColumns = (price: ServicePriceItem) => ({
+  name: price.name,
+  category: price.category,
+  countryId: price.countryId ?? null,
+  province: price.province ?? null,
+  currency: price.currency,
+  isFavorite: price.isFavorite || false,
+  supplierId: price.supplierId || null,
+  data: toJson(price),
+});
+
+/** Hotel prices embed their hotel definition; the stored definition follows the price's supplier. */
+const linkHotelSupplier = (hotel: HotelDefinition, supplierId: string | undefined) =>
+  prisma.hotelDefinition.updateMany({ where: { id: hotel.id }, data: { supplierId: supplierId || null } });
+
+export async function listServicePrices(): Promise<ServicePriceItem[]> {
+  const rows = await prisma.servicePrice.findMany({ orderBy: { name: 'asc' } });
+  return rows.map(mapRowToServicePrice);
+}
+
+export async function getServicePrice(priceId: string): Promise<ServicePriceItem | null> {
+  const row = await prisma.servicePrice.findUnique({ where: { id: priceId } });
+  return row ? mapRowToServicePrice(row) : null;
+}
+
+export async function saveServicePrice(price: ServicePriceItem): Promise<ServicePriceItem> {
+  const columns = mapServicePriceToColumns(price);
+  const row = await prisma.servicePrice.upsert({
+    where: { id: price.id },
+    create: { id: price.id, ...columns },
+    update: columns,
+  });
+  if (price.category === 'hotel' && price.hotelDetails) await linkHotelSupplier(price.hotelDetails, price.supplierId);
+  return mapRowToServicePrice(row);
+}
+
+/** Replaces the whole price list, deleting any stored price that is not in `prices`. */
+export async function replaceServicePrices(prices: ServicePriceItem[]): Promise<ServicePriceItem[]> {
+  await prisma.$transaction([
+    prisma.servicePrice.deleteMany({ where: { id: { notIn: prices.map(p => p.id) } } }),
+    ...prices.map(price => {
+      const columns = mapServicePriceToColumns(price);
+      return prisma.servicePrice.upsert({ where: { id: price.id }, create: { id: price.id, ...columns }, update: columns });
+    }),
+  ]);
+  return listServicePrices();
+}
+
+export async function deleteServicePrice(priceId: string): Promise<boolean> {
+  const result = await prisma.servicePrice.deleteMany({ where: { id: priceId } });
+  return result.count > 0;
+}
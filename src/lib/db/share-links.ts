@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Server-side persistence for client share links and the record of when each was
+ * opened. Links are never deleted by hand, only revoked, so their open history stays visible; they
+ * go when their itinerary is deleted.
+ *
+ * @bangla ক্লায়েন্ট শেয়ার লিঙ্ক এবং প্রতিটি কখন খোলা হয়েছে তার রেকর্ডের জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ।
+ * লিঙ্কগুলি হাতে মুছে ফেলা হয় না, শুধু বাতিল করা হয়, যাতে খোলার ইতিহাস দৃশ্যমান থাকে; ভ্রমণপথ মুছে
+ * ফেললে সেগুলিও মুছে যায়।
+ */
+import prisma from '@/lib/prisma';
+import type { ShareLink as ShareLinkRow, ShareLinkOpen as ShareLinkOpenRow } from '@prisma/client';
+import type { CostSummary, TripData } from '@/types/itinerary';
+import type { ShareLinkScope } from '@/types/sharing';
+import { toJson, toOptionalJson, fromJson, nullToUndefined } from './json';
+
+/** A share link as stored; the token and URL are derived from it by the route handlers. */
+export interface StoredShareLink {
+  id: string;
+  itineraryId: string;
+  scope: ShareLinkScope;
+  quotationRequestId?: string;
+  quoteVersion?: number;
+  snapshot?: { tripData: TripData; costSummary: CostSummary };
+  countryNames: { [countryId: string]: string };
+  expiresAt: string;
+  revokedAt?: string;
+  createdByName?: string;
+  createdAt: string;
+  opens: { openedAt: string; userAgent?: string }[]; // Newest first
+}
+
+type ShareLinkRowWithOpens = ShareLinkRow & { opens: ShareLinkOpenRow[] };
+
+const withOpens = { opens: { orderBy: { openedAt: 'desc' as const } } };
+
+const mapRowToShareLink = (row: ShareLinkRowWithOpens): StoredShareLink => ({
+  id: row.id,
+  itineraryId: row.itineraryId,
+  scope: row.scope as ShareLinkScope,
+  quotationRequestId: nullToUndefined(row.quotationRequestId),
+  quoteVersion: nullToUndefined(row.quoteVersion),
+  snapshot: fromJson<StoredShareLink['snapshot']>(row.snapshot, undefined),
+  countryNames: fromJson<StoredShareLink['countryNames']>(row.countryNames, {}),
+  expiresAt: row.expiresAt.toISOString(),
+  revokedAt: row.revokedAt?.toISOString(),
+  createdByName: nullToUndefined(row.createdByName),
+  createdAt: row.createdAt.toISOString(),
+  opens: row.opens.map(open => ({ openedAt: open.openedAt.toISOString(), userAgent: nullToUndefined(open.userAgent) })),
+});
+
+/** Newest first. */
+export async function listShareLinks(itineraryId: string): Promise<StoredShareLink[]> {
+  const rows = await prisma.shareLink.findMany({ where: { itineraryId }, include: withOpens, orderBy: { createdAt: 'desc' } });
+  return rows.map(mapRowToShareLink);
+}
+
+export async function getShareLink(linkId: string): Promise<StoredShareLink | null> {
+  const row = await prisma.shareLink.findUnique({ where: { id: linkId }, include: withOpens });
+  return row ? mapRowToShareLink(row) : null;
+}
+
+export async function createShareLink(
+  link: Omit<StoredShareLink, 'revokedAt' | 'createdAt' | 'opens'>,
+  createdByUserId: string,
+): Promise<StoredShareLink> {
+  const row = await prisma.shareLink.create({
+    data: {
+      id: link.id,
+      itineraryId: link.itineraryId,
+      scope: link.scope,
+      quotationRequestId: link.quotationRequestId ?? null,
+      quoteVersion: link.quoteVersion ?? null,
+      snapshot: toOptionalJson(link.snapshot),
+      countryNames: toJson(link.countryNames),
+      expiresAt: new Date(link.expiresAt),
+      createdByUserId,
+      createdByName: link.createdByName ?? null,
+    },
+    include: withOpens,
+  });
+  return mapRowToShareLink(row);
+}
+
+/** Revoking twice keeps the first revocation time. Returns null when there is no such link. */
+export async function revokeShareLink(linkId: string): Promise<StoredShareLink | null> {
+  await prisma.shareLink.updateMany({ where: { id: linkId, revokedAt: null }, data: { revokedAt: new Date() } });
+  return getShareLink(linkId);
+}
+
+export async function recordShareLinkOpen(linkId: string, userAgent: string | null): Promise<void> {
+  await prisma.shareLinkOpen.create({ data: { shareLinkId: linkId, userAgent: userAgent?.slice(0, 500) ?? null } });
+}
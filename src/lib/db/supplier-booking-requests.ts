@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Server-side persistence for supplier booking requests. A request records which
+ * items were asked for and where it was sent; replies are stored on it as they come in, keeping
+ * only the latest answer per item.
+ *
+ * @bangla সরবরাহকারী বুকিং অনুরোধের জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ। একটি অনুরোধ কোন আইটেমগুলি চাওয়া হয়েছে
+ * এবং কোথায় পাঠানো হয়েছে তা রেকর্ড করে; উত্তর আসার সাথে সাথে তা অনুরোধে সংরক্ষিত হয়, প্রতিটি আইটেমের জন্য শুধু
+ * সর্বশেষ উত্তর রাখা হয়।
+ */
+import prisma from '@/lib/prisma';
+import type { SupplierBookingRequest as SupplierBookingRequestRow } from '@prisma/client';
+import type { SupplierBookingRequest, SupplierItemReply } from '@/types/booking';
+import { toJson, fromJson, nullToUndefined } from './json';
+
+const mapRowToRequest = (row: SupplierBookingRequestRow): SupplierBookingRequest => ({
+  id: row.id,
+  itineraryId: row.itineraryId,
+  supplierId: row.supplierId,
+  itemIds: fromJson<string[]>(row.itemIds, []),
+  sentTo: row.sentTo,
+  message: nullToUndefined(row.message),
+  sentByName: nullToUndefined(row.sentByName),
+  sentAt: row.sentAt.toISOString(),
+  replies: fromJson<SupplierItemReply[]>(row.replies, []),
+  repliedAt: row.repliedAt?.toISOString(),
+});
+
+/** Newest first. */
+export async function listSupplierBookingRequests(itineraryId: string): Promise<SupplierBookingRequest[]> {
+  const rows = await prisma.supplierBookingRequest.findMany({ where: { itineraryId }, orderBy: { sentAt: 'desc' } });
+  return rows.map(mapRowToRequest);
+}
+
+export async function getSupplierBookingRequest(requestId: string): Promise<SupplierBookingRequest | null> {
+  const row = await prisma.supplierBookingRequest.findUnique({ where: { id: requestId } });
+  return row ? mapRowToRequest(row) : null;
+}
+
+export async function createSupplierBookingRequest(request: {
+  itineraryId: string;
+  supplierId: string;
+  itemIds: string[];
+  sentTo: string;
+  message?: string;
+  sentByUserId?: string;
+  sentByName?: string;
+}): Promise<SupplierBookingRequest> {
+  const row = await prisma.supplierBookingRequest.create({
+    data: {
+      itineraryId: request.itineraryId,
+      supplierId: request.supplierId,
+      itemIds: toJson(request.itemIds),
+      sentTo: request.sentTo,
+      message: request.message || null,
+      sentByUserId: request.sentByUserId ?? null,
+      sentByName: request.sentByName ?? null,
+    },
+  });
+  return mapRowToRequest(row);
+}
+
+/** Merges `replies` into the request, replacing earlier replies for the same items. */
+export async function addSupplierReplies(requestId: string, replies: SupplierItemReply[]): Promise<SupplierBookingRequest> {
+  const current = await getSupplierBookingRequest(requestId);
+  if (!current) throw new Error(`Supplier booking request ${requestId} not found.`);
+  const repliedItemIds = new Set(replies.map(reply => reply.itemId));
+  const merged = [...current.replies.filter(reply => !repliedItemIds.has(reply.itemId)), ...replies];
+  const row = await prisma.supplierBookingRequest.update({
+    where: { id: requestId },
+    data: { replies: toJson(merged), repliedAt: new Date() },
+  });
+  return mapRowToRequest(row);
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Server-side persistence for suppliers. Deleting a supplier unlinks its service
+ * prices and hotels; a supplier that has been sent booking requests cannot be deleted, only
+ * deactivated, so the booking history keeps its counterpart.
+ *
+ * @bangla সরবরাহকারীদের জন্য সার্ভার-সাইড স্থায়ী সংরক্ষণ। একজন সরবরাহকারী মুছলে তার পরিষেবা মূল্য ও হোটেলগুলির
+ * সংযোগ সরে যায়; যে সরবরাহকারীকে বুকিং অনুরোধ পাঠানো হয়েছে তাকে মোছা যায় না, শুধু নিষ্ক্রিয় করা যায়, যাতে
+ * বুকিংয়ের ইতিহাস তার অপর পক্ষকে হারায় না।
+ */
+import prisma from '@/lib/prisma';
+import type { Supplier as SupplierRow } from '@prisma/client';
+import type { Supplier } from '@/types/supplier';
+import { nullToUndefined } from './json';
+
+const mapRowToSupplier = (row: SupplierRow): Supplier => ({
+  id: row.id,
+  name: row.name,
+  contactName: nullToUndefined(row.contactName),
+  email: nullToUndefined(row.email),
+  phone: nullToUndefined(row.phone),
+  address: nullToUndefined(row.address),
+  paymentTerms: nullToUndefined(row.paymentTerms),
+  cancellationPolicy: nullToUndefined(row.cancellationPolicy),
+  notes: nullToUndefined(row.notes),
+  isActive: row.isActive,
+});
+
+const mapSupplierToColumns = (supplier: Supplier) => ({
+  name: supplier.name,
+  contactName: supplier.contactName?.trim() || null,
+  email: supplier.email?.trim() || null,
+  phone: supplier.phone?.trim() || null,
+  address: supplier.address?.trim() || null,
+  paymentTerms: supplier.paymentTerms?.trim() || null,
+  cancellationPolicy: supplier.cancellationPolicy?.trim() || null,
+  notes: supplier.notes?.trim() || null,
+  isActive: supplier.isActive,
+});
+
+export async function listSuppliers(): Promise<Supplier[]> {
+  const rows = await prisma.supplier.findMany({ orderBy: { name: 'asc' } });
+  return rows.map(mapRowToSupplier);
+}
+
+export async function getSupplier(supplierId: string): Promise<Supplier | null> {
+  const row = await prisma.supplier.findUnique({ where: { id: supplierId } });
+  return row ? mapRowToSupplier(row) : null;
+}
+
+export async function saveSupplier(supplier: Supplier): Promise<Supplier> {
+  const columns = mapSupplierToColumns(supplier);
+  const row = await prisma.supplier.upsert({ where: { id: supplier.id }, create: { id: supplier.id, ...columns }, update: columns });
+  return mapRowToSupplier(row);
+}
+
+/** `inUse` when booking requests have been sent to the supplier. */
+export async function deleteSupplier(supplierId: string): Promise<'deleted' | 'notFound' | 'inUse'> {
+  const requestCount = await prisma.supplierBookingRequest.count({ where: { supplierId } });
+  if (requestCount > 0) return 'inUse';
+  const result = await prisma.supplier.deleteMany({ where: { id: supplierId } });
+  return result.count > 0 ? 'deleted' : 'notFound';
+}
@@ -1,145 +1,92 @@
-
 /**
- * @fileoverview This file provides placeholder email sending utilities.
- * IMPORTANT: This is a FRONTEND placeholder. Actual email sending MUST be
- * handled by a secure backend API to protect your SendGrid API key.
+ * @fileoverview Sends the app's email through the outbox. Messages are stored first and then handed
+ * to the configured transport (see `email-transports.ts`) straight away; a message that cannot be
+ * handed over stays pending and is retried with a growing delay by later delivery runs
+ * (`POST /api/email-outbox/deliver`, meant for a scheduler) until it is sent or every attempt is
+ * used up. Server-side only.
  *
- * These functions simulate what would be sent to such a backend.
+ * @bangla আউটবক্সের মাধ্যমে অ্যাপের ইমেল পাঠায়। বার্তাগুলি প্রথমে সংরক্ষিত হয় এবং তারপর সঙ্গে সঙ্গে কনফিগার করা
+ * ট্রান্সপোর্টে (`email-transports.ts` দেখুন) হস্তান্তর করা হয়; যে বার্তা হস্তান্তর করা যায় না তা বাকি থাকে এবং
+ * পরবর্তী ডেলিভারি রানগুলি (`POST /api/email-outbox/deliver`, একটি শিডিউলারের জন্য) ক্রমবর্ধমান বিরতিতে আবার চেষ্টা
+ * করে, যতক্ষণ না তা পাঠানো হয় বা সব চেষ্টা শেষ হয়। শুধুমাত্র সার্ভার-সাইড।
  */
-'use server'; // This directive is for Next.js, but actual sending must be on a true backend.
-
-import sgMail from '@sendgrid/mail';
-
-const SENDGRID_API_KEY = process.env.SENDGRID_API_KEY;
-const EMAIL_FROM = process.env.EMAIL_FROM || 'noreply@example.com';
-
-let isSendGridConfigured = false;
-if (SENDGRID_API_KEY && SENDGRID_API_KEY !== 'your_sendgrid_api_key_here' && SENDGRID_API_KEY.trim() !== '') {
-  sgMail.setApiKey(SENDGRID_API_KEY);
-  isSendGridConfigured = true;
-} else {
-  console.warn(
-    "SendGrid API Key is not configured. Email sending will be simulated in console."
-  );
+import { EMAIL_FROM, getEmailTransport } from '@/lib/email-transports';
+import {
+  claimDueEmails, createOutboxEmails, markEmailAttemptFailed, markEmailSent, requeueEmail, type NewOutboxEmail,
+} from '@/lib/db/email-outbox';
+import type { EmailContent, EmailTemplate, OutboxEmail } from '@/types/email';
+
+/** Delay before each retry; a message is given up after the last one fails. */
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 3_600_000, 12 * 3_600_000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+/** How long a delivery run holds a claimed message before another run may pick it up. */
+const CLAIM_LEASE_MS = 2 * 60_000;
+
+export interface DeliveryReport {
+  sent: number;
+  retrying: number;
+  failed: number;
 }
 
-interface EmailParams {
-  to: string;
-  subject: string;
-  text: string;
-  html: string;
+async function deliver(email: OutboxEmail): Promise<keyof DeliveryReport> {
+  let transportName = 'unconfigured';
+  try {
+    const transport = getEmailTransport();
+    transportName = transport.name;
+    const { messageId } = await transport.send({ to: email.to, subject: email.subject, text: email.text, html: email.html, from: EMAIL_FROM });
+    await markEmailSent(email.id, { transport: transport.name, providerMessageId: messageId });
+    return 'sent';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const attempt = email.attempts + 1;
+    const retryAt = attempt < MAX_ATTEMPTS ? new Date(Date.now() + RETRY_DELAYS_MS[attempt - 1]) : null;
+    console.warn(`Email ${email.id} to ${email.to} failed on attempt ${attempt}: ${message}`);
+    await markEmailAttemptFailed(email.id, { transport: transportName, error: message, retryAt });
+    return retryAt ? 'retrying' : 'failed';
+  }
 }
 
-/**
- * Placeholder function to "send" an email.
- * In a real app, this would call a backend API endpoint.
- * @param params - Email parameters
- */
-export async function sendEmail(params: EmailParams): Promise<{ success: boolean; message: string }> {
-  console.log("Attempting to send email (placeholder)...");
-  console.log("To:", params.to);
-  console.log("From:", EMAIL_FROM);
-  console.log("Subject:", params.subject);
-  console.log("Text:", params.text);
-  console.log("HTML:", params.html);
-
-  if (!isSendGridConfigured) {
-    const message = "SIMULATED: Email would be sent. SendGrid not configured.";
-    console.warn(message);
-    return { success: true, message };
-  }
-  
-  if (!EMAIL_FROM || EMAIL_FROM === 'noreply@example.com' && !process.env.EMAIL_FROM) {
-     const message = "ERROR: EMAIL_FROM environment variable is not set. Cannot send email.";
-     console.error(message);
-     return { success: false, message };
+/** Delivers pending messages that are due (only those of `ids` when given). */
+export async function deliverDueEmails(options: { limit?: number; ids?: string[] } = {}): Promise<DeliveryReport> {
+  const report: DeliveryReport = { sent: 0, retrying: 0, failed: 0 };
+  const claimed = await claimDueEmails(new Date(), CLAIM_LEASE_MS, options.limit ?? 50, options.ids);
+  for (const email of claimed) {
+    report[await deliver(email)] += 1;
   }
+  return report;
+}
 
-  const msg = {
-    to: params.to,
-    from: EMAIL_FROM, // Use the configured sender
-    subject: params.subject,
-    text: params.text,
-    html: params.html,
-  };
-
-  try {
-    // In a real backend, you would await sgMail.send(msg);
-    // For this frontend placeholder, we will just log success if configured.
-    console.log("[SUCCESS - Placeholder] Email prepared for SendGrid:", msg);
-    // Simulating what a backend would do:
-    // await sgMail.send(msg);
-    // console.log('Email successfully dispatched via SendGrid (simulated from backend call)');
-    return { success: true, message: "Email request logged. In a real app, this would be sent via backend." };
+/** Stores `emails` in the outbox and tries to deliver them at once. */
+export async function queueEmails(emails: NewOutboxEmail[]): Promise<OutboxEmail[]> {
+  if (emails.length === 0) return [];
+  const queued = await createOutboxEmails(emails);
+  await deliverDueEmails({ ids: queued.map(email => email.id), limit: queued.length });
+  return queued;
+}
 
-  } catch (error: any) {
-    console.error("SendGrid placeholder error (would be backend error):", error.response?.body || error.message);
-    return { success: false, message: `Failed to prepare email for SendGrid (simulated): ${error.message}` };
-  }
+/** Gives a failed or pending message a fresh set of attempts, starting now. */
+export async function retryEmail(emailId: string): Promise<DeliveryReport | null> {
+  const requeued = await requeueEmail(emailId);
+  if (!requeued) return null;
+  return deliverDueEmails({ ids: [emailId], limit: 1 });
 }
 
 /**
- * Placeholder function to "send" a password reset email.
- * @param to - Recipient's email address
- * @param resetLink - The unique password reset link
+ * Queues one rendered message. It succeeds once the message is in the outbox, whether it went
+ * out at once or waits for a retry; `message` says which.
  */
-export async function sendPasswordResetEmail(to: string, resetLink: string): Promise<{ success: boolean; message: string }> {
-  const subject = "Your Password Reset Request for Itinerary Ace";
-  const text = `
-    Hello,
-
-    You requested a password reset for your Itinerary Ace account.
-    Please click the link below to reset your password:
-    ${resetLink}
-
-    If you did not request this, please ignore this email.
-
-    Thanks,
-    The Itinerary Ace Team
-  `;
-  const html = `
-    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
-      <h2>Password Reset Request</h2>
-      <p>Hello,</p>
-      <p>You requested a password reset for your Itinerary Ace account.</p>
-      <p>Please click the link below to reset your password:</p>
-      <p><a href="${resetLink}" style="color: #3EB4EF; text-decoration: none;">Reset Your Password</a></p>
-      <p>If you did not request this, please ignore this email.</p>
-      <br>
-      <p>Thanks,</p>
-      <p><strong>The Itinerary Ace Team</strong></p>
-    </div>
-  `;
-
-  // IMPORTANT: The actual call to sgMail.send() should happen on your backend.
-  // This function is a frontend placeholder.
-  console.log(`Password Reset Email Placeholder:
-    To: ${to}
-    From: ${EMAIL_FROM}
-    Subject: ${subject}
-    Reset Link: ${resetLink}
-    ---
-    This would be sent to a backend endpoint which then uses SendGrid.
-  `);
-
-  // If SendGrid was configured and this was a backend:
-  // return sendEmail({ to, subject, text, html });
-
-  if (!isSendGridConfigured) {
-    return { success: true, message: "SIMULATED: Password reset email would be sent. SendGrid not configured." };
-  }
-   if (!EMAIL_FROM || EMAIL_FROM === 'noreply@example.com' && !process.env.EMAIL_FROM) {
-     const message = "ERROR: EMAIL_FROM environment variable is not set. Cannot send email.";
-     console.error(message);
-     return { success: false, message };
+export async function sendEmail(
+  email: EmailContent, meta: { template: EmailTemplate; quotationRequestId?: string; agencyId?: string },
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const [queued] = await createOutboxEmails([{ ...email, ...meta }]);
+    const report = await deliverDueEmails({ ids: [queued.id], limit: 1 });
+    return report.sent === 1
+      ? { success: true, message: `Email sent to ${email.to}.` }
+      : { success: true, message: `Email to ${email.to} is queued and will be retried.` };
+  } catch (error) {
+    console.error(`Failed to queue email to ${email.to}:`, error);
+    return { success: false, message: error instanceof Error ? error.message : "The email could not be queued." };
   }
-
-
-  // Simulate sending via the generic sendEmail function (as a backend would orchestrate)
-  return sendEmail({
-      to,
-      subject,
-      text,
-      html
-  });
 }
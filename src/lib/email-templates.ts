@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Renders the app's emails from templates. Every message shares one layout: the
+ * letterhead in the brand colour, a heading, a few paragraphs, a table of facts and the signature.
+ * Messages to an agent about their agency's requests carry the agency's branding; everything else
+ * carries ours.
+ *
+ * @bangla টেমপ্লেট থেকে অ্যাপের ইমেলগুলি তৈরি করে। প্রতিটি বার্তার একই বিন্যাস: ব্র্যান্ড রঙে লেটারহেড, একটি
+ * শিরোনাম, কয়েকটি অনুচ্ছেদ, তথ্যের একটি সারণি এবং স্বাক্ষর। এজেন্টের কাছে তার এজেন্সির অনুরোধ সম্পর্কে বার্তাগুলি
+ * এজেন্সির ব্র্যান্ডিং বহন করে; বাকি সবকিছু আমাদের ব্র্যান্ডিং বহন করে।
+ */
+import { format, parseISO } from 'date-fns';
+import { HOUSE_LETTERHEAD, getAgencyLetterhead, type Letterhead } from '@/lib/branding';
+import type { Agency } from '@/types/agent';
+import type { QuotationRequest, QuotationStatusChange } from '@/types/quotation';
+import type { EmailTemplate } from '@/types/email';
+
+export interface EmailBranding {
+  letterhead: Letterhead;
+  accentColor: string;
+  signature: string;
+}
+
+export const HOUSE_EMAIL_BRANDING: EmailBranding = {
+  letterhead: HOUSE_LETTERHEAD,
+  accentColor: '#3EB4EF',
+  signature: `Kind regards,\nThe ${HOUSE_LETTERHEAD.name} team`,
+};
+
+export function getEmailBranding(agency: Agency | null | undefined): EmailBranding {
+  if (!agency) return HOUSE_EMAIL_BRANDING;
+  return {
+    letterhead: getAgencyLetterhead(agency),
+    accentColor: agency.brandColor || HOUSE_EMAIL_BRANDING.accentColor,
+    signature: agency.emailSignature?.trim() || `Kind regards,\nThe ${agency.name} team`,
+  };
+}
+
+export interface EmailBody {
+  heading: string;
+  paragraphs: string[];
+  /** Label/value rows shown under the paragraphs; empty values are left out. */
+  facts?: [string, string | undefined][];
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const multiline = (value: string) => escapeHtml(value).replace(/\n/g, '<br>');
+
+/** The plain and HTML versions of `body` under `branding`. */
+export function renderEmail(body: EmailBody, branding: EmailBranding): { text: string; html: string } {
+  const facts = (body.facts ?? []).filter((fact): fact is [string, string] => !!fact[1]);
+  const { letterhead, accentColor, signature } = branding;
+
+  const text = [
+    body.heading,
+    ...body.paragraphs,
+    facts.map(([label, value]) => `${label}: ${value}`).join('\n'),
+    signature,
+    [letterhead.name, ...letterhead.lines].join('\n'),
+  ].filter(Boolean).join('\n\n');
+
+  const html = [
+    '<div style="font-family: Arial, sans-serif; line-height: 1.6; color: #1f2937; max-width: 600px;">',
+    `<div style="border-bottom: 3px solid ${accentColor}; padding-bottom: 8px; margin-bottom: 16px;">`,
+    `<div style="font-size: 18px; font-weight: bold; color: ${accentColor};">${escapeHtml(letterhead.name)}</div>`,
+    ...letterhead.lines.map(line => `<div style="font-size: 12px; color: #6b7280;">${escapeHtml(line)}</div>`),
+    '</div>',
+    `<h2 style="font-size: 18px; margin: 0 0 12px;">${escapeHtml(body.heading)}</h2>`,
+    ...body.paragraphs.map(paragraph => `<p>${multiline(paragraph)}</p>`),
+    facts.length > 0
+      ? `<table style="border-collapse: collapse; margin: 12px 0;">${facts.map(([label, value]) =>
+        `<tr><td style="padding: 4px 12px 4px 0; color: #6b7280; vertical-align: top;">${escapeHtml(label)}</td><td style="padding: 4px 0;">${multiline(value)}</td></tr>`).join('')}</table>`
+      : '',
+    `<p style="margin-top: 24px;">${multiline(signature)}</p>`,
+    '</div>',
+  ].join('');
+
+  return { text, html };
+}
+
+export type QuotationEmailTemplate = Exclude<EmailTemplate, 'supplierBookingRequest'>;
+
+export interface QuotationEmailContext {
+  request: QuotationRequest;
+  /** The transition that prompted the message; absent for a new request. */
+  change?: QuotationStatusChange;
+  /** Extra rows for the facts table, e.g. the deposit due. */
+  facts?: [string, string][];
+  /** When the quote runs out, for `quoteExpiring`. */
+  expiresAt?: Date;
+}
+
+/** The template for the message announcing `change`. */
+export function getStatusChangeTemplate(change: QuotationStatusChange): QuotationEmailTemplate {
+  switch (change.toStatus) {
+    case "Quoted: Waiting for TA Feedback":
+    case "Quoted: Re-quoted":
+      return 'quoteSent';
+    case "Quoted: Revision Requested":
+      return 'revisionRequested';
+    case "Booked":
+      return 'bookingConfirmed';
+    default:
+      return 'quotationStatusChanged';
+  }
+}
+
+const formatDate = (value: string | undefined) => value ? format(parseISO(value), 'd MMM yyyy') : undefined;
+
+function travelDates(request: QuotationRequest): string | undefined {
+  const { preferredStartDate, preferredEndDate } = request.tripDetails;
+  if (!preferredStartDate) return undefined;
+  return preferredEndDate ? `${formatDate(preferredStartDate)} – ${formatDate(preferredEndDate)}` : formatDate(preferredStartDate);
+}
+
+function travellers(request: QuotationRequest): string {
+  const { adults, children } = request.clientInfo;
+  return [`${adults} adult${adults === 1 ? '' : 's'}`, children > 0 ? `${children} child${children === 1 ? '' : 'ren'}` : ''].filter(Boolean).join(', ');
+}
+
+export interface QuotationEventText {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+}
+
+const QUOTATION_TEMPLATES: Record<QuotationEmailTemplate, (context: QuotationEmailContext) => QuotationEventText> = {
+  quotationRequested: ({ request }) => ({
+    subject: `New quotation request ${request.id}`,
+    heading: "A new quotation request is waiting",
+    paragraphs: [`Quotation request ${request.id} has been submitted and is waiting for a quote.`],
+  }),
+  quoteSent: ({ request, change }) => ({
+    subject: `Your quote for ${request.id} is ready${change?.toStatus === "Quoted: Re-quoted" ? ' (revised)' : ''}`,
+    heading: change?.toStatus === "Quoted: Re-quoted" ? "Your revised quote is ready" : "Your quote is ready",
+    paragraphs: [`The quote for request ${request.id} is ready for your review. Open the request to accept it, ask for changes or share it with your client.`],
+  }),
+  revisionRequested: ({ request, change }) => ({
+    subject: `Revision requested for ${request.id}`,
+    heading: "A revision has been requested",
+    paragraphs: [`${change?.changedByName || (change?.changedByRole === 'client' ? 'The client' : 'The agent')} asked for changes to the quote for request ${request.id}.`],
+  }),
+  bookingConfirmed: ({ request }) => ({
+    subject: `Booking confirmed: ${request.id}`,
+    heading: "Your booking is confirmed",
+    paragraphs: [`The trip for request ${request.id} is booked. Vouchers and travel documents follow once every service is confirmed.`],
+  }),
+  quotationStatusChanged: ({ request, change }) => ({
+    subject: `Quotation ${request.id}: ${change?.toStatus ?? request.status}`,
+    heading: `Quotation ${change?.toStatus ?? request.status}`,
+    paragraphs: [`Quotation ${request.id} moved from "${change?.fromStatus ?? 'New'}" to "${change?.toStatus ?? request.status}".`],
+  }),
+  quoteExpiring: ({ request, expiresAt }) => ({
+    subject: `Quote ${request.id} expires ${expiresAt ? `on ${format(expiresAt, 'd MMM')}` : 'soon'}`,
+    heading: "A quote is about to expire",
+    paragraphs: [`The quote for request ${request.id} is held until ${expiresAt ? format(expiresAt, 'd MMM yyyy') : 'shortly'}. Accept it or ask for changes before then.`],
+  }),
+};
+
+/** Subject, heading and text of a quotation event, shared by its email and in-app notification. */
+export function describeQuotationEvent(template: QuotationEmailTemplate, context: QuotationEmailContext): QuotationEventText {
+  return QUOTATION_TEMPLATES[template](context);
+}
+
+/** A quotation event rendered under `branding`. */
+export function renderQuotationEmail(
+  template: QuotationEmailTemplate, context: QuotationEmailContext, branding: EmailBranding,
+): { subject: string; text: string; html: string } {
+  const { request, change, facts = [] } = context;
+  const { subject, heading, paragraphs } = describeQuotationEvent(template, context);
+  const body: EmailBody = {
+    heading,
+    paragraphs,
+    facts: [
+      ["Reference", request.id],
+      ["Travellers", travellers(request)],
+      ["Travel dates", travelDates(request)],
+      ["Status", change?.toStatus ?? request.status],
+      ["Quote version", change && change.version > 0 ? `v${change.version.toFixed(1)}` : undefined],
+      ["Changed by", change?.changedByName],
+      ["Note", change?.note],
+      ...facts,
+    ],
+  };
+  return { subject, ...renderEmail(body, branding) };
+}
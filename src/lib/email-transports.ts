@@ -0,0 +1,181 @@
+/**
+ * @fileoverview The ways an outbox message leaves the app. `EMAIL_TRANSPORT` picks one:
+ * `sendgrid` (needs `SENDGRID_API_KEY`), `smtp` (plain SMTP to `EMAIL_SMTP_HOST`/`EMAIL_SMTP_PORT`,
+ * meant for a local stand-in such as MailHog), `file` (writes each message as an .eml file to
+ * `EMAIL_FILE_DIR`) or `console`. Without it SendGrid is used when a key is configured and the
+ * console otherwise. A transport throws when a message could not be handed over.
+ *
+ * @bangla আউটবক্সের একটি বার্তা যে পথে অ্যাপ ছাড়ে। `EMAIL_TRANSPORT` একটি বাছাই করে: `sendgrid`
+ * (`SENDGRID_API_KEY` প্রয়োজন), `smtp` (`EMAIL_SMTP_HOST`/`EMAIL_SMTP_PORT`-এ সাধারণ SMTP, MailHog-এর মতো
+ * লোকাল বিকল্পের জন্য), `file` (প্রতিটি বার্তা `EMAIL_FILE_DIR`-এ .eml ফাইল হিসাবে লেখে) বা `console`। এটি
+ * না থাকলে কী কনফিগার করা থাকলে SendGrid, নইলে কনসোল ব্যবহৃত হয়। বার্তা হস্তান্তর করা না গেলে ট্রান্সপোর্ট
+ * ত্রুটি ছোড়ে।
+ */
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import sgMail from '@sendgrid/mail';
+import type { EmailContent } from '@/types/email';
+
+export interface OutgoingEmail extends EmailContent {
+  from: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  /** Hands the message over; resolves with the provider's id for it when there is one. */
+  send(email: OutgoingEmail): Promise<{ messageId?: string }>;
+}
+
+export const EMAIL_FROM = process.env.EMAIL_FROM || 'noreply@example.com';
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+const isConfiguredKey = (key: string | undefined): key is string =>
+  !!key && key.trim() !== '' && key !== 'your_sendgrid_api_key_here';
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const base64Lines = (value: string) => Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+/** The message as RFC 5322 text with plain and HTML alternatives. */
+function buildMimeMessage(email: OutgoingEmail, messageId: string): string {
+  const boundary = `alt-${randomUUID()}`;
+  return [
+    `Message-ID: ${messageId}`,
+    `Date: ${new Date().toUTCString()}`,
+    `From: ${email.from}`,
+    `To: ${email.to}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(email.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+const newMessageId = (from: string) => `<${randomUUID()}@${from.split('@')[1]?.replace(/>$/, '') || 'localhost'}>`;
+
+export function createSendGridTransport(apiKey: string): EmailTransport {
+  sgMail.setApiKey(apiKey);
+  return {
+    name: 'sendgrid',
+    async send(email) {
+      const [response] = await sgMail.send({ to: email.to, from: email.from, subject: email.subject, text: email.text, html: email.html });
+      return { messageId: response.headers?.['x-message-id'] };
+    },
+  };
+}
+
+/**
+ * Speaks just enough SMTP for a local stand-in: no TLS, and AUTH PLAIN only when `user` is given.
+ * Any reply other than the one expected at a step fails the message with that reply.
+ */
+export function createSmtpTransport(options: { host: string; port: number; user?: string; password?: string }): EmailTransport {
+  return {
+    name: 'smtp',
+    send: email => new Promise((resolve, reject) => {
+      const messageId = newMessageId(email.from);
+      const socket = net.createConnection({ host: options.host, port: options.port });
+      const address = (value: string) => `<${value.replace(/^.*<|>.*$/g, '')}>`;
+      const steps: { command?: string; expect: number }[] = [
+        { expect: 220 },
+        { command: 'EHLO itinerary-ace', expect: 250 },
+        ...(options.user ? [{ command: `AUTH PLAIN ${Buffer.from(`\0${options.user}\0${options.password ?? ''}`).toString('base64')}`, expect: 235 }] : []),
+        { command: `MAIL FROM:${address(email.from)}`, expect: 250 },
+        { command: `RCPT TO:${address(email.to)}`, expect: 250 },
+        { command: 'DATA', expect: 354 },
+        { command: `${buildMimeMessage(email, messageId).replace(/^\./gm, '..')}\r\n.`, expect: 250 },
+        { command: 'QUIT', expect: 221 },
+      ];
+      let buffer = '';
+      const fail = (error: Error) => { socket.destroy(); reject(error); };
+      const onReply = (reply: string) => {
+        const step = steps.shift()!;
+        if (parseInt(reply.slice(0, 3), 10) !== step.expect) return fail(new Error(`SMTP server replied "${reply}".`));
+        if (steps.length === 0) {
+          socket.end();
+          return resolve({ messageId });
+        }
+        socket.write(`${steps[0].command}\r\n`);
+      };
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => fail(new Error(`SMTP server ${options.host}:${options.port} timed out.`)));
+      socket.on('error', fail);
+      socket.on('data', chunk => {
+        buffer += chunk.toString('utf8');
+        let end: number;
+        while ((end = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          // "250-" lines continue a multi-line reply; the last one has a space after the code.
+          if (!/^\d{3}-/.test(line)) onReply(line);
+        }
+      });
+    }),
+  };
+}
+
+export function createFileTransport(directory: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(email) {
+      const messageId = newMessageId(email.from);
+      await fs.mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`;
+      await fs.writeFile(path.join(directory, fileName), buildMimeMessage(email, messageId), 'utf8');
+      return { messageId };
+    },
+  };
+}
+
+export const consoleTransport: EmailTransport = {
+  name: 'console',
+  async send(email) {
+    console.log(`[email] To: ${email.to} | From: ${email.from} | Subject: ${email.subject}\n${email.text}`);
+    return {};
+  },
+};
+
+let transportOverride: EmailTransport | null = null;
+
+/** Replaces the configured transport, e.g. with a recording one in tests; `null` restores it. */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  transportOverride = transport;
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (transportOverride) return transportOverride;
+  const apiKey = process.env.SENDGRID_API_KEY;
+  const name = process.env.EMAIL_TRANSPORT || (isConfiguredKey(apiKey) ? 'sendgrid' : 'console');
+  switch (name) {
+    case 'sendgrid':
+      if (!isConfiguredKey(apiKey)) throw new Error("EMAIL_TRANSPORT is sendgrid but SENDGRID_API_KEY is not set.");
+      return createSendGridTransport(apiKey);
+    case 'smtp':
+      return createSmtpTransport({
+        host: process.env.EMAIL_SMTP_HOST || 'localhost',
+        port: Number(process.env.EMAIL_SMTP_PORT) || 1025,
+        user: process.env.EMAIL_SMTP_USER || undefined,
+        password: process.env.EMAIL_SMTP_PASSWORD || undefined,
+      });
+    case 'file':
+      return createFileTransport(process.env.EMAIL_FILE_DIR || path.join(process.cwd(), '.email-outbox'));
+    case 'console':
+      return consoleTransport;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}".`);
+  }
+}
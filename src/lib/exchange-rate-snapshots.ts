@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Locks a quote to the exchange rates it was sent at. `calculateAllCosts` records every
+ * conversion it uses in `CostSummary.conversionRates`; sending a quote freezes those into
+ * `TripData.frozenExchangeRates`, and from then on costs are recomputed through `withFrozenRates`, so
+ * a later rate refresh does not re-price the quote behind the agent's back. Admins move a quote to
+ * the current rates only by re-pricing it explicitly (`repriceAtTodaysRates`).
+ *
+ * @bangla একটি উদ্ধৃতিকে তার পাঠানোর সময়ের বিনিময় হারে আটকে রাখে। `calculateAllCosts` যে সব রূপান্তর
+ * ব্যবহার করে তা `CostSummary.conversionRates`-এ লিখে রাখে; উদ্ধৃতি পাঠালে সেগুলি
+ * `TripData.frozenExchangeRates`-এ স্থির হয়, এবং তারপর থেকে খরচ `withFrozenRates`-এর মাধ্যমে পুনরায় গণনা
+ * করা হয়, যাতে পরে হার হালনাগাদ হলে এজেন্টের অজান্তে উদ্ধৃতির মূল্য বদলে না যায়। অ্যাডমিনরা শুধুমাত্র
+ * স্পষ্টভাবে পুনর্মূল্যায়ন করে (`repriceAtTodaysRates`) একটি উদ্ধৃতিকে বর্তমান হারে নিয়ে আসেন।
+ */
+import type { ConversionRateDetails, CostSummary, CurrencyCode, FrozenExchangeRates, TripData } from '@/types/itinerary';
+
+type RateLookup = (from: CurrencyCode, to: CurrencyCode) => ConversionRateDetails | null;
+
+export interface ConversionRateChange {
+  pairKey: string;
+  frozen: ConversionRateDetails;
+  today: ConversionRateDetails | null; // null when today's rates cannot convert this pair
+}
+
+const splitPairKey = (pairKey: string) => pairKey.split('-') as [CurrencyCode, CurrencyCode];
+
+/** Answers from the frozen conversions where there is one, and from `getLiveRate` for any other pair. */
+export function withFrozenRates(frozen: FrozenExchangeRates | undefined, getLiveRate: RateLookup): RateLookup {
+  if (!frozen) return getLiveRate;
+  return (from, to) => frozen.conversions[`${from}-${to}`] ?? getLiveRate(from, to);
+}
+
+/**
+ * The trip with the conversions `summary` was priced at frozen into it. Conversions the summary no
+ * longer uses are dropped; new ones are frozen at the rate the summary used.
+ */
+export function freezeExchangeRates(tripData: TripData, summary: CostSummary, now: Date = new Date()): TripData {
+  return { ...tripData, frozenExchangeRates: { frozenAt: now.toISOString(), conversions: { ...(summary.conversionRates ?? {}) } } };
+}
+
+/** Each frozen conversion next to what today's rates would use instead. */
+export function compareWithTodaysRates(frozen: FrozenExchangeRates, getLiveRate: RateLookup): ConversionRateChange[] {
+  return Object.entries(frozen.conversions)
+    .map(([pairKey, frozenRate]) => ({ pairKey, frozen: frozenRate, today: getLiveRate(...splitPairKey(pairKey)) }))
+    .sort((a, b) => a.pairKey.localeCompare(b.pairKey));
+}
+
+/**
+ * Frozen rates moved to today's rates. Pairs today's rates cannot convert are dropped, so they
+ * surface as `missingExchangeRate` pricing errors rather than keeping an outdated rate.
+ */
+export function repriceAtTodaysRates(frozen: FrozenExchangeRates, getLiveRate: RateLookup, now: Date = new Date()): FrozenExchangeRates {
+  const conversions: FrozenExchangeRates['conversions'] = {};
+  compareWithTodaysRates(frozen, getLiveRate).forEach(change => {
+    if (change.today) conversions[change.pairKey] = change.today;
+  });
+  return { frozenAt: now.toISOString(), conversions };
+}
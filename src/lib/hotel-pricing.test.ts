@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { parseISO } from 'date-fns';
+import type { HotelRoomTypeDefinition, SelectedHotelRoomConfiguration, Traveler } from '@/types/itinerary';
+import { checkRoomOccupancy, findSeasonalPrice, priceRoomBlock } from '@/lib/hotel-pricing';
+
+const roomType = (changes: Partial<HotelRoomTypeDefinition> = {}): HotelRoomTypeDefinition => ({
+  id: 'RT-1',
+  name: "Deluxe",
+  maxAdults: 2,
+  maxChildren: 1,
+  maxChildrenSharingBed: 1,
+  extraBedAllowed: true,
+  characteristics: [],
+  seasonalPrices: [
+    { id: 'low', seasonName: "Low Season", startDate: '2025-04-01', endDate: '2025-04-30', rate: 1000, extraBedRate: 300, childSharingBedRate: 100 },
+    { id: 'high', seasonName: "High Season", startDate: '2025-05-01', endDate: '2025-05-31', rate: 2000, surcharge: 500, extraBedRate: 400, minimumStay: 3 },
+  ],
+  ...changes,
+});
+
+const block = (changes: Partial<SelectedHotelRoomConfiguration> = {}): SelectedHotelRoomConfiguration => ({
+  id: 'RB-1', roomTypeDefinitionId: 'RT-1', roomTypeNameCache: "Deluxe", numRooms: 1, assignedTravelerIds: [], ...changes,
+});
+
+const travelers: Traveler[] = [
+  { id: 'A1', label: "Adult 1", type: 'adult' },
+  { id: 'A2', label: "Adult 2", type: 'adult' },
+  { id: 'A3', label: "Adult 3", type: 'adult' },
+  { id: 'C1', label: "Child 1", type: 'child' },
+  { id: 'C2', label: "Child 2", type: 'child' },
+];
+
+describe('findSeasonalPrice', () => {
+  it('finds the season containing the date, end date included', () => {
+    expect(findSeasonalPrice(roomType(), parseISO('2025-04-30'))?.id).toBe('low');
+    expect(findSeasonalPrice(roomType(), parseISO('2025-05-01'))?.id).toBe('high');
+    expect(findSeasonalPrice(roomType(), parseISO('2025-06-01'))).toBeUndefined();
+  });
+
+  it('skips seasons with unreadable or reversed dates', () => {
+    const seasons = [
+      { id: 'broken', startDate: 'soon', endDate: '2025-04-30', rate: 1 },
+      { id: 'reversed', startDate: '2025-04-30', endDate: '2025-04-01', rate: 2 },
+    ];
+    expect(findSeasonalPrice(roomType({ seasonalPrices: seasons }), parseISO('2025-04-10'))).toBeUndefined();
+  });
+});
+
+describe('priceRoomBlock', () => {
+  it('prices each night from its own season, surcharge included', () => {
+    const price = priceRoomBlock(roomType(), block({ numRooms: 2 }), parseISO('2025-04-29'), 4, 0);
+    expect(price).toEqual({ roomCost: 2 * (1000 + 1000 + 2500 + 2500), sharingCost: 0, problems: [] });
+  });
+
+  it('adds the extra bed and the children sharing bedding', () => {
+    const price = priceRoomBlock(roomType(), block({ addExtraBed: true }), parseISO('2025-04-10'), 2, 1);
+    expect(price).toEqual({ roomCost: 2 * 1300, sharingCost: 2 * 100, problems: [] });
+  });
+
+  it('ignores an extra bed the room type does not allow', () => {
+    const price = priceRoomBlock(roomType({ extraBedAllowed: false }), block({ addExtraBed: true }), parseISO('2025-04-10'), 1, 0);
+    expect(price.roomCost).toBe(1000);
+  });
+
+  it('applies the minimum stay of the check-in season only', () => {
+    expect(priceRoomBlock(roomType(), block(), parseISO('2025-05-10'), 2, 0).problems)
+      .toEqual([{ code: 'minimumStayNotMet', reason: "Deluxe: High Season requires a minimum stay of 3 nights (stay is 2)." }]);
+    expect(priceRoomBlock(roomType(), block(), parseISO('2025-05-10'), 3, 0).problems).toEqual([]);
+    expect(priceRoomBlock(roomType(), block(), parseISO('2025-04-30'), 2, 0).problems).toEqual([]);
+  });
+
+  it('reports nights without a rate instead of pricing them at nothing', () => {
+    const price = priceRoomBlock(roomType(), block(), parseISO('2025-05-31'), 3, 0);
+    expect(price.roomCost).toBe(2500);
+    expect(price.problems).toEqual([{ code: 'missingRate', reason: "Deluxe: no rate for 01 Jun 2025, 02 Jun 2025." }]);
+  });
+
+  it('reports missing extra bed and child-sharing rates separately', () => {
+    const price = priceRoomBlock(roomType(), block({ addExtraBed: true }), parseISO('2025-05-01'), 3, 1);
+    expect(price).toEqual({
+      roomCost: 3 * 2900,
+      sharingCost: 0,
+      problems: [{ code: 'missingRate', reason: "Deluxe: no child-sharing-bed rate for 01 May 2025, 02 May 2025, 03 May 2025." }],
+    });
+    const withoutExtraBedRate = roomType({ seasonalPrices: [{ id: 'low', startDate: '2025-04-01', endDate: '2025-04-30', rate: 1000 }] });
+    expect(priceRoomBlock(withoutExtraBedRate, block({ addExtraBed: true }), parseISO('2025-04-10'), 1, 0).problems)
+      .toEqual([{ code: 'missingRate', reason: "Deluxe: no extra bed rate for 10 Apr 2025." }]);
+  });
+});
+
+describe('checkRoomOccupancy', () => {
+  it('lets children share bedding up to the allowance before taking beds', () => {
+    const occupancy = checkRoomOccupancy(roomType(), block({ assignedTravelerIds: ['A1', 'A2', 'C1', 'C2'] }), travelers, true);
+    expect(occupancy).toEqual({ sharingChildIds: ['C1'] });
+  });
+
+  it('gives every child a bed when the stay opts out of sharing', () => {
+    const occupancy = checkRoomOccupancy(roomType(), block({ assignedTravelerIds: ['A1', 'A2', 'C1', 'C2'] }), travelers, false);
+    expect(occupancy.sharingChildIds).toEqual([]);
+    expect(occupancy.error).toMatch(/cannot hold 2 adult\(s\) and 2 child\(ren\)/);
+  });
+
+  it('fits one traveler over the limits per room in an extra bed', () => {
+    const assigned = block({ assignedTravelerIds: ['A1', 'A2', 'A3'] });
+    expect(checkRoomOccupancy(roomType(), assigned, travelers, true).error).toBeDefined();
+    expect(checkRoomOccupancy(roomType(), { ...assigned, addExtraBed: true }, travelers, true)).toEqual({ sharingChildIds: [] });
+    expect(checkRoomOccupancy(roomType({ extraBedAllowed: false }), { ...assigned, addExtraBed: true }, travelers, true).error).toBeDefined();
+  });
+
+  it('counts the limits per room', () => {
+    expect(checkRoomOccupancy(roomType(), block({ numRooms: 2, assignedTravelerIds: ['A1', 'A2', 'A3'] }), travelers, true).error).toBeUndefined();
+  });
+
+  it('has no limit where the room type sets none', () => {
+    const occupancy = checkRoomOccupancy(roomType({ maxAdults: undefined }), block({ assignedTravelerIds: ['A1', 'A2', 'A3'] }), travelers, true);
+    expect(occupancy.error).toBeUndefined();
+  });
+});
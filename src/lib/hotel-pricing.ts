@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Pricing rules for hotel room blocks, used by `calculateAllCosts` and the hotel item
+ * form. A stay is priced night by night from the season each night falls in, so stays across a
+ * season boundary take both rates. On top of the nightly rate come the season's surcharge, extra
+ * beds and children sharing existing bedding. Room blocks are checked against the room type's
+ * occupancy limits and the minimum stay of the check-in season. A night without a rate is a
+ * `missingRate` problem, never a free night.
+ *
+ * @bangla হোটেল রুম ব্লকের মূল্য নির্ধারণের নিয়ম, যা `calculateAllCosts` এবং হোটেল আইটেম ফর্ম ব্যবহার করে।
+ * প্রতিটি রাতের মূল্য সেই রাত যে মরশুমে পড়ে তা থেকে নির্ধারিত হয়, তাই মরশুমের সীমানা পেরোনো থাকায় দুটি
+ * হারই প্রযোজ্য হয়। রাতের হারের উপর যোগ হয় মরশুমের সারচার্জ, অতিরিক্ত বিছানা এবং বিদ্যমান বিছানা ভাগ
+ * করা শিশুদের খরচ। রুম ব্লকগুলি রুমের প্রকারের অতিথি সীমা এবং চেক-ইন মরশুমের ন্যূনতম থাকার সাথে যাচাই
+ * করা হয়। হার ছাড়া একটি রাত একটি ত্রুটি, কখনও বিনামূল্যের রাত নয়।
+ */
+import { addDays, format, isValid, isWithinInterval, parseISO, startOfDay } from 'date-fns';
+import type { HotelRoomTypeDefinition, PricingIssueCode, RoomTypeSeasonalPrice, SelectedHotelRoomConfiguration, Traveler } from '@/types/itinerary';
+
+export interface RoomOccupancy {
+  sharingChildIds: string[]; // Assigned children who share existing bedding
+  error?: string;
+}
+
+export interface RoomBlockProblem {
+  code: Extract<PricingIssueCode, 'missingRate' | 'minimumStayNotMet'>;
+  reason: string;
+}
+
+export interface RoomBlockPrice {
+  roomCost: number;    // Rooms, surcharges and extra beds for all nights
+  sharingCost: number; // Children sharing bedding, for all nights and all of them
+  problems: RoomBlockProblem[];
+}
+
+/** The season whose date range contains `date`; seasons with unreadable dates are skipped. */
+export function findSeasonalPrice(roomType: HotelRoomTypeDefinition, date: Date): RoomTypeSeasonalPrice | undefined {
+  return roomType.seasonalPrices.find(season => {
+    if (typeof season.startDate !== 'string' || typeof season.endDate !== 'string') return false;
+    const start = startOfDay(parseISO(season.startDate));
+    const end = startOfDay(parseISO(season.endDate));
+    return isValid(start) && isValid(end) && start <= end && isWithinInterval(date, { start, end });
+  });
+}
+
+/**
+ * Fits the travelers assigned to a room block into its rooms. Children share bedding first, up to
+ * the room type's allowance, unless the stay opts out; everyone else takes a bed within the adult
+ * and child limits, and one extra bed per room takes whoever is left.
+ */
+export function checkRoomOccupancy(
+  roomType: HotelRoomTypeDefinition,
+  selectedRoom: SelectedHotelRoomConfiguration,
+  travelers: Traveler[],
+  childrenSharingBed: boolean,
+): RoomOccupancy {
+  const assigned = travelers.filter(t => selectedRoom.assignedTravelerIds.includes(t.id));
+  const adults = assigned.filter(t => t.type === 'adult');
+  const children = assigned.filter(t => t.type === 'child');
+  const numRooms = Math.max(1, selectedRoom.numRooms);
+
+  const sharingAllowance = childrenSharingBed ? (roomType.maxChildrenSharingBed || 0) * numRooms : 0;
+  const sharingChildIds = children.slice(0, sharingAllowance).map(c => c.id);
+  const childrenInBeds = children.length - sharingChildIds.length;
+
+  const adultOverflow = typeof roomType.maxAdults === 'number' ? Math.max(0, adults.length - roomType.maxAdults * numRooms) : 0;
+  const childOverflow = typeof roomType.maxChildren === 'number' ? Math.max(0, childrenInBeds - roomType.maxChildren * numRooms) : 0;
+  const extraBeds = selectedRoom.addExtraBed && roomType.extraBedAllowed ? numRooms : 0;
+
+  if (adultOverflow + childOverflow > extraBeds) {
+    const limits = [
+      typeof roomType.maxAdults === 'number' ? `${roomType.maxAdults} adult(s)` : undefined,
+      typeof roomType.maxChildren === 'number' ? `${roomType.maxChildren} child(ren)` : undefined,
+    ].filter(Boolean).join(' and ');
+    return {
+      sharingChildIds,
+      error: `${numRooms} x ${roomType.name} cannot hold ${adults.length} adult(s) and ${children.length} child(ren): each room takes ${limits}` +
+        `${extraBeds > 0 ? ' plus one extra bed' : ''}${sharingAllowance > 0 ? `, with ${roomType.maxChildrenSharingBed} child(ren) sharing bedding` : ''}.`,
+    };
+  }
+  return { sharingChildIds };
+}
+
+/** Prices one room block night by night from `checkInDate`. */
+export function priceRoomBlock(
+  roomType: HotelRoomTypeDefinition,
+  selectedRoom: SelectedHotelRoomConfiguration,
+  checkInDate: Date,
+  nights: number,
+  sharingChildCount: number,
+): RoomBlockPrice {
+  const problems: RoomBlockProblem[] = [];
+  const nightsWithoutRate: string[] = [];
+  const nightsWithoutExtraBedRate: string[] = [];
+  const nightsWithoutSharingRate: string[] = [];
+  const withExtraBed = !!selectedRoom.addExtraBed && !!roomType.extraBedAllowed;
+  let roomCost = 0;
+  let sharingCost = 0;
+
+  const checkInSeason = findSeasonalPrice(roomType, checkInDate);
+  if (checkInSeason?.minimumStay && nights < checkInSeason.minimumStay) {
+    problems.push({ code: 'minimumStayNotMet', reason: `${roomType.name}: ${checkInSeason.seasonName || 'this season'} requires a minimum stay of ${checkInSeason.minimumStay} nights (stay is ${nights}).` });
+  }
+
+  for (let nightIndex = 0; nightIndex < nights; nightIndex++) {
+    const night = addDays(checkInDate, nightIndex);
+    const label = format(night, 'dd MMM yyyy');
+    const season = findSeasonalPrice(roomType, night);
+    if (!season) {
+      nightsWithoutRate.push(label);
+      continue;
+    }
+    let nightlyRate = season.rate + (season.surcharge ?? 0);
+    if (withExtraBed) {
+      if (season.extraBedRate === undefined || season.extraBedRate === null) nightsWithoutExtraBedRate.push(label);
+      else nightlyRate += season.extraBedRate;
+    }
+    roomCost += nightlyRate * selectedRoom.numRooms;
+    if (sharingChildCount > 0) {
+      if (season.childSharingBedRate === undefined || season.childSharingBedRate === null) nightsWithoutSharingRate.push(label);
+      else sharingCost += season.childSharingBedRate * sharingChildCount;
+    }
+  }
+
+  if (nightsWithoutRate.length > 0) problems.push({ code: 'missingRate', reason: `${roomType.name}: no rate for ${nightsWithoutRate.join(', ')}.` });
+  if (nightsWithoutExtraBedRate.length > 0) problems.push({ code: 'missingRate', reason: `${roomType.name}: no extra bed rate for ${nightsWithoutExtraBedRate.join(', ')}.` });
+  if (nightsWithoutSharingRate.length > 0) problems.push({ code: 'missingRate', reason: `${roomType.name}: no child-sharing-bed rate for ${nightsWithoutSharingRate.join(', ')}.` });
+  return { roomCost, sharingCost, problems };
+}
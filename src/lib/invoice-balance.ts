@@ -0,0 +1,42 @@
+/**
+ * @fileoverview What is due on a pro-forma invoice. The deposit is a percentage of the invoice
+ * total; payments count with the invoice-currency amount stored when they were recorded, and
+ * credit notes lower what is owed in total. Shared by the server (which gates "Booked" on the
+ * deposit) and the billing dialog, so both round the same way.
+ *
+ * @bangla একটি প্রো-ফর্মা ইনভয়েসে কী বাকি আছে। ডিপোজিট ইনভয়েসের মোটের একটি শতাংশ; পেমেন্টগুলি রেকর্ড করার
+ * সময় সংরক্ষিত ইনভয়েস-মুদ্রার পরিমাণ দিয়ে গণনা হয়, এবং ক্রেডিট নোট মোট পাওনা কমায়। সার্ভার (যা ডিপোজিটের
+ * উপর "Booked" নির্ভর করায়) এবং বিলিং ডায়ালগ উভয়ই এটি ব্যবহার করে, যাতে দুটিই একইভাবে রাউন্ড করে।
+ */
+import type { Invoice, InvoiceBalance, Payment } from '@/types/invoice';
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function getDepositAmount(total: number, depositPercentage: number | undefined): number {
+  return roundMoney(total * (depositPercentage ?? 0) / 100);
+}
+
+/** `amount` converted at `exchangeRate` into the invoice currency, as stored with a payment. */
+export function toInvoiceCurrency(amount: number, exchangeRate: number): number {
+  return roundMoney(amount * exchangeRate);
+}
+
+export function getInvoiceBalance(invoice: Invoice, payments: Payment[], creditNotes: Invoice[]): InvoiceBalance {
+  const credited = roundMoney(creditNotes.reduce((sum, note) => sum + note.total, 0));
+  const paid = roundMoney(payments.reduce((sum, payment) => sum + payment.invoiceCurrencyAmount, 0));
+  const netTotal = roundMoney(invoice.total - credited);
+  const depositAmount = getDepositAmount(invoice.total, invoice.depositPercentage);
+  const depositOutstanding = Math.max(0, roundMoney(depositAmount - paid));
+  const balance = roundMoney(netTotal - paid);
+  return {
+    total: invoice.total,
+    credited,
+    netTotal,
+    depositAmount,
+    paid,
+    balance,
+    depositOutstanding,
+    isDepositReceived: depositOutstanding === 0,
+    isSettled: balance <= 0,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Server-side PDF rendering of pro-forma invoices and credit notes. Both are billed
+ * by us to the requesting agency, so they always carry our letterhead with the agency's address
+ * under "Bill to". A pro forma lists the priced items of the quote version it invoices, the deposit
+ * and balance due, and the payments and credits so far; a credit note names the pro forma it
+ * credits, the reason and the amount.
+ *
+ * @bangla প্রো-ফর্মা ইনভয়েস ও ক্রেডিট নোটের সার্ভার-সাইড PDF রেন্ডারিং। দুটিই আমরা অনুরোধকারী এজেন্সিকে বিল
+ * করি, তাই এগুলিতে সবসময় আমাদের লেটারহেড থাকে এবং "Bill to"-এর নিচে এজেন্সির ঠিকানা। একটি প্রো-ফর্মা যে উদ্ধৃতি
+ * সংস্করণের ইনভয়েস তার মূল্যসহ আইটেম, বাকি ডিপোজিট ও ব্যালেন্স, এবং এ পর্যন্ত পেমেন্ট ও ক্রেডিট দেখায়; একটি
+ * ক্রেডিট নোট যে প্রো-ফর্মা ক্রেডিট করে তার নাম, কারণ ও পরিমাণ দেখায়।
+ */
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import type { Agency } from '@/types/agent';
+import type { QuoteVersion } from '@/types/quotation';
+import { PAYMENT_METHOD_LABELS, type Invoice, type QuotationInvoicing } from '@/types/invoice';
+import { HOUSE_LETTERHEAD, getAgencyLetterhead } from '@/lib/branding';
+import { PDF_COLORS, amountLine, ensureSpace, factRows, letterheadHeader, pageFooters, renderPdf, rule, sectionHeading, type PdfDoc } from '@/lib/pdf-layout';
+import { formatCurrency } from '@/lib/utils';
+
+export interface InvoicePdfInput {
+  /** The pro forma or one of its credit notes. */
+  invoice: Invoice;
+  invoicing: QuotationInvoicing;
+  quote: QuoteVersion;
+  agency: Agency | null;
+}
+
+const longDate = (value: string) => format(parseISO(value), 'd MMMM yyyy');
+
+export function getInvoiceFileName(invoice: Pick<Invoice, 'kind' | 'number'>): string {
+  return `${invoice.kind === 'proForma' ? 'ProForma' : 'CreditNote'}-${invoice.number}.pdf`;
+}
+
+function drawBillTo(doc: PdfDoc, { quote, agency }: InvoicePdfInput) {
+  const { tripData } = quote;
+  const billTo = agency ? [agency.name, ...getAgencyLetterhead(agency).lines].join('\n') : "Direct client";
+  const start = parseISO(tripData.settings.startDate);
+  const numDays = tripData.settings.numDays;
+  const facts: [string, string][] = [["Bill to", billTo]];
+  if (tripData.clientName) facts.push(["Client", tripData.clientName]);
+  facts.push(["Trip", tripData.itineraryName || "Travel itinerary"]);
+  if (isValid(start)) facts.push(["Travel dates", `${format(start, 'd MMMM yyyy')} – ${format(addDays(start, numDays - 1), 'd MMMM yyyy')}`]);
+  factRows(doc, facts);
+}
+
+function drawServices(doc: PdfDoc, { invoice, quote }: InvoicePdfInput) {
+  sectionHeading(doc, "Services");
+  [...quote.costSummary.detailedItems].sort((a, b) => (a.day ?? 0) - (b.day ?? 0)).forEach(line => {
+    amountLine(doc, `${line.day ? `Day ${line.day} · ` : ''}${line.name}`, formatCurrency(line.totalCost, invoice.currency),
+      { font: 'Helvetica', size: 9.5, color: PDF_COLORS.text });
+    doc.y += 3;
+  });
+  doc.y += 2;
+  rule(doc, 5);
+  amountLine(doc, "Total", formatCurrency(invoice.total, invoice.currency), { font: 'Helvetica-Bold', size: 11.5, color: PDF_COLORS.text });
+}
+
+function drawPaymentSchedule(doc: PdfDoc, { invoice, invoicing }: InvoicePdfInput) {
+  const { balance } = invoicing;
+  if (!balance) return;
+  const line = { font: 'Helvetica', size: 9.5, color: PDF_COLORS.text };
+  ensureSpace(doc, 120);
+  sectionHeading(doc, "Payment Schedule");
+  amountLine(doc, `Deposit (${invoice.depositPercentage ?? 0}%)${invoice.depositDueDate ? `, due by ${longDate(invoice.depositDueDate)}` : ', due now'}`,
+    formatCurrency(balance.depositAmount, invoice.currency), line);
+  doc.y += 3;
+  amountLine(doc, `Balance${invoice.balanceDueDate ? `, due by ${longDate(invoice.balanceDueDate)}` : ''}`,
+    formatCurrency(invoice.total - balance.depositAmount, invoice.currency), line);
+
+  if (invoicing.payments.length > 0 || invoicing.creditNotes.length > 0) {
+    sectionHeading(doc, "Received & Credited");
+    invoicing.payments.forEach(payment => {
+      const converted = payment.currency === invoice.currency ? '' : ` (${formatCurrency(payment.amount, payment.currency)} at ${payment.exchangeRate})`;
+      amountLine(doc, `${longDate(payment.receivedAt)} · ${PAYMENT_METHOD_LABELS[payment.method]}${payment.reference ? ` · ${payment.reference}` : ''}${converted}`,
+        `-${formatCurrency(payment.invoiceCurrencyAmount, invoice.currency)}`, line);
+      doc.y += 3;
+    });
+    invoicing.creditNotes.forEach(note => {
+      amountLine(doc, `${longDate(note.issuedAt)} · Credit note ${note.number}`, `-${formatCurrency(note.total, invoice.currency)}`, line);
+      doc.y += 3;
+    });
+  }
+  doc.y += 2;
+  rule(doc, 5);
+  amountLine(doc, balance.balance < 0 ? "Due to you" : "Amount outstanding", formatCurrency(Math.abs(balance.balance), invoice.currency),
+    { font: 'Helvetica-Bold', size: 11.5, color: PDF_COLORS.text });
+}
+
+function drawCredit(doc: PdfDoc, { invoice, invoicing }: InvoicePdfInput) {
+  sectionHeading(doc, "Credit");
+  if (invoicing.invoice) {
+    amountLine(doc, `Credited against pro forma ${invoicing.invoice.number} of ${longDate(invoicing.invoice.issuedAt)}`, undefined,
+      { font: 'Helvetica', size: 9.5, color: PDF_COLORS.text });
+    doc.y += 3;
+  }
+  if (invoice.notes) {
+    amountLine(doc, invoice.notes, undefined, { font: 'Helvetica-Oblique', size: 9.5, color: PDF_COLORS.muted });
+    doc.y += 3;
+  }
+  rule(doc, 5);
+  amountLine(doc, "Amount credited", formatCurrency(invoice.total, invoice.currency), { font: 'Helvetica-Bold', size: 11.5, color: PDF_COLORS.text });
+}
+
+export function renderInvoicePdf(input: InvoicePdfInput): Promise<Buffer> {
+  const { invoice, quote } = input;
+  const isProForma = invoice.kind === 'proForma';
+  const info = {
+    title: `${isProForma ? 'Pro forma' : 'Credit note'} ${invoice.number}`,
+    author: HOUSE_LETTERHEAD.name,
+    creationDate: parseISO(invoice.issuedAt),
+  };
+  return renderPdf(info, doc => {
+    letterheadHeader(doc, HOUSE_LETTERHEAD, isProForma ? "PRO FORMA INVOICE" : "CREDIT NOTE", [
+      `${isProForma ? 'Invoice' : 'Credit note'}: ${invoice.number}`,
+      `Reference: ${invoice.quotationRequestId}`,
+      `Quote v${quote.version.toFixed(1)}`,
+      `Issued: ${longDate(invoice.issuedAt)}`,
+    ]);
+    drawBillTo(doc, input);
+    if (isProForma) {
+      drawServices(doc, input);
+      drawPaymentSchedule(doc, input);
+      if (invoice.notes) {
+        sectionHeading(doc, "Notes");
+        amountLine(doc, invoice.notes, undefined, { font: 'Helvetica', size: 8.5, color: PDF_COLORS.muted });
+      }
+    } else {
+      drawCredit(doc, input);
+    }
+    pageFooters(doc, (page, pageCount) => `${HOUSE_LETTERHEAD.name} · ${invoice.number} · Page ${page} of ${pageCount}`);
+  });
+}
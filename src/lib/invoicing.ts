@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Billing of a confirmed quotation request. A request gets one pro-forma invoice for
+ * the quote version the client accepted (versions no longer change once a request is confirmed),
+ * with a deposit percentage and due dates. Payments are recorded against it in any currency, at
+ * the rate the admin confirms. Once a request is cancelled, credit notes take back part or all of
+ * the pro forma. The deposit and pro-forma requirements of the quotation workflow are checked here.
+ *
+ * @bangla একটি নিশ্চিত উদ্ধৃতি অনুরোধের বিলিং। একটি অনুরোধ ক্লায়েন্টের গৃহীত উদ্ধৃতি সংস্করণের জন্য একটি
+ * প্রো-ফর্মা ইনভয়েস পায় (অনুরোধ নিশ্চিত হলে সংস্করণ আর বদলায় না), ডিপোজিট শতাংশ ও নির্ধারিত তারিখ সহ।
+ * পেমেন্ট যেকোনো মুদ্রায় এর বিপরীতে রেকর্ড হয়, অ্যাডমিনের নিশ্চিত করা হারে। অনুরোধ বাতিল হলে ক্রেডিট নোট
+ * প্রো-ফর্মার অংশ বা পুরোটা ফেরত নেয়। উদ্ধৃতি ওয়ার্কফ্লোর ডিপোজিট ও প্রো-ফর্মা শর্তগুলি এখানে যাচাই হয়।
+ */
+import type { QuotationRequest, QuotationRequestStatus } from '@/types/quotation';
+import type { CurrencyCode } from '@/types/itinerary';
+import type { Invoice, InvoiceBalance, PaymentMethod, QuotationInvoicing } from '@/types/invoice';
+import type { QuotationTransitionRequirement } from '@/lib/quotation-workflow';
+import { getQuoteVersion } from '@/lib/db/quotation-requests';
+import { createInvoice, createPayment, listInvoices, listPayments } from '@/lib/db/invoices';
+import { getInvoiceBalance, toInvoiceCurrency } from '@/lib/invoice-balance';
+import { formatCurrency } from '@/lib/utils';
+
+type InvoicingError = { error: string; status: 400 | 404 | 409 };
+
+type Issuer = { id: string; name?: string | null };
+
+/** Statuses in which the accepted quote can be invoiced. */
+const INVOICEABLE_STATUSES: readonly QuotationRequestStatus[] = ["Confirmed", "Deposit Pending", "Booked", "Documents Sent", "Trip In Progress"];
+
+export interface ProFormaTerms {
+  depositPercentage: number;
+  depositDueDate?: string;
+  balanceDueDate: string;
+  notes?: string;
+}
+
+export interface PaymentInput {
+  amount: number;
+  currency: CurrencyCode;
+  exchangeRate: number;
+  method: PaymentMethod;
+  reference?: string;
+  receivedAt: string;
+}
+
+export async function getQuotationInvoicing(quotationRequestId: string): Promise<QuotationInvoicing> {
+  const invoices = await listInvoices(quotationRequestId);
+  const invoice = invoices.find(candidate => candidate.kind === 'proForma') ?? null;
+  if (!invoice) return { invoice: null, payments: [], creditNotes: [], balance: null };
+  const payments = await listPayments(invoice.id);
+  const creditNotes = invoices.filter(candidate => candidate.kind === 'creditNote' && candidate.creditedInvoiceId === invoice.id);
+  return { invoice, payments, creditNotes, balance: getInvoiceBalance(invoice, payments, creditNotes) };
+}
+
+/** Why `requirement` is not met yet, or null when the move may go ahead. */
+export async function getUnmetRequirement(quotationRequestId: string, requirement: QuotationTransitionRequirement): Promise<string | null> {
+  const { invoice, balance } = await getQuotationInvoicing(quotationRequestId);
+  if (!invoice || !balance) return "Issue the pro-forma invoice first.";
+  if (requirement === 'depositReceived' && !balance.isDepositReceived) {
+    return `The deposit of ${formatCurrency(balance.depositAmount, invoice.currency)} has not been received yet `
+      + `(${formatCurrency(balance.depositOutstanding, invoice.currency)} outstanding).`;
+  }
+  return null;
+}
+
+/** Issues the pro forma for the request's current quote version. */
+export async function issueProFormaInvoice(
+  request: QuotationRequest, terms: ProFormaTerms, issuer: Issuer,
+): Promise<QuotationInvoicing | InvoicingError> {
+  if (!INVOICEABLE_STATUSES.includes(request.status)) {
+    return { error: `A pro forma can only be issued once the quote is confirmed (the request is "${request.status}").`, status: 409 };
+  }
+  const existing = (await listInvoices(request.id)).find(invoice => invoice.kind === 'proForma');
+  if (existing) return { error: `Pro forma ${existing.number} has already been issued for this request.`, status: 409 };
+  const quote = request.version ? await getQuoteVersion(request.id, request.version) : null;
+  if (!quote) return { error: `Quote version ${request.version ?? 0} of request ${request.id} was not found.`, status: 404 };
+  if (terms.depositDueDate && terms.depositDueDate > terms.balanceDueDate) {
+    return { error: "The deposit cannot be due after the balance.", status: 400 };
+  }
+
+  await createInvoice({
+    quotationRequestId: request.id,
+    quoteVersion: quote.version,
+    kind: 'proForma',
+    currency: quote.billingCurrency,
+    total: quote.grandTotal,
+    depositPercentage: terms.depositPercentage,
+    depositDueDate: terms.depositDueDate,
+    balanceDueDate: terms.balanceDueDate,
+    notes: terms.notes?.trim(),
+    issuedByUserId: issuer.id,
+    issuedByName: issuer.name ?? undefined,
+  });
+  return getQuotationInvoicing(request.id);
+}
+
+async function findProForma(request: QuotationRequest, invoiceId: string): Promise<{ invoice: Invoice; balance: InvoiceBalance } | InvoicingError> {
+  const { invoice, balance } = await getQuotationInvoicing(request.id);
+  if (!invoice || !balance || invoice.id !== invoiceId) {
+    return { error: `Pro forma ${invoiceId} not found for request ${request.id}.`, status: 404 };
+  }
+  return { invoice, balance };
+}
+
+/** Records a payment against the pro forma, converted into its currency at `payment.exchangeRate`. */
+export async function recordPayment(
+  request: QuotationRequest, invoiceId: string, payment: PaymentInput, recorder: Issuer,
+): Promise<QuotationInvoicing | InvoicingError> {
+  const found = await findProForma(request, invoiceId);
+  if ('error' in found) return found;
+  const { invoice } = found;
+  if (payment.currency === invoice.currency && payment.exchangeRate !== 1) {
+    return { error: `A payment in ${invoice.currency} is taken at a rate of 1.`, status: 400 };
+  }
+
+  await createPayment({
+    invoiceId,
+    ...payment,
+    reference: payment.reference?.trim(),
+    invoiceCurrencyAmount: toInvoiceCurrency(payment.amount, payment.exchangeRate),
+    recordedByUserId: recorder.id,
+    recordedByName: recorder.name ?? undefined,
+  });
+  return getQuotationInvoicing(request.id);
+}
+
+/** Credits `amount` of the pro forma of a cancelled request. */
+export async function issueCreditNote(
+  request: QuotationRequest, invoiceId: string, credit: { amount: number; reason: string }, issuer: Issuer,
+): Promise<QuotationInvoicing | InvoicingError> {
+  if (request.status !== "Cancelled") {
+    return { error: "Credit notes are only issued for cancelled requests.", status: 409 };
+  }
+  const found = await findProForma(request, invoiceId);
+  if ('error' in found) return found;
+  const { invoice, balance } = found;
+  if (credit.amount > balance.netTotal) {
+    return { error: `At most ${formatCurrency(balance.netTotal, invoice.currency)} of ${invoice.number} is left to credit.`, status: 409 };
+  }
+
+  await createInvoice({
+    quotationRequestId: request.id,
+    quoteVersion: invoice.quoteVersion,
+    kind: 'creditNote',
+    currency: invoice.currency,
+    total: credit.amount,
+    creditedInvoiceId: invoice.id,
+    notes: credit.reason.trim(),
+    issuedByUserId: issuer.id,
+    issuedByName: issuer.name ?? undefined,
+  });
+  return getQuotationInvoicing(request.id);
+}
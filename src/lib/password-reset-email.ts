@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Server action behind "Forgot password" on the login page. There are no reset
+ * tokens yet, so the reset email is rendered and written to the server console instead of going
+ * through the outbox.
+ *
+ * @bangla লগইন পৃষ্ঠার "Forgot password"-এর পিছনের সার্ভার অ্যাকশন। এখনও কোনো রিসেট টোকেন নেই, তাই রিসেট ইমেলটি
+ * আউটবক্সের মাধ্যমে না গিয়ে তৈরি করে সার্ভার কনসোলে লেখা হয়।
+ */
+'use server';
+
+import { HOUSE_EMAIL_BRANDING, renderEmail } from '@/lib/email-templates';
+
+/**
+ * Simulates sending a password reset email.
+ * @param to - Recipient's email address
+ * @param resetLink - The unique password reset link
+ */
+export async function sendPasswordResetEmail(to: string, resetLink: string): Promise<{ success: boolean; message: string }> {
+  const subject = `Your password reset request for ${HOUSE_EMAIL_BRANDING.letterhead.name}`;
+  const { text } = renderEmail({
+    heading: "Password reset request",
+    paragraphs: [
+      "You requested a password reset for your account. Please open the link below to reset your password:",
+      resetLink,
+      "If you did not request this, please ignore this email.",
+    ],
+  }, HOUSE_EMAIL_BRANDING);
+  console.log(`[email] Password reset (simulated) | To: ${to} | Subject: ${subject}\n${text}`);
+  return { success: true, message: "SIMULATED: Password reset emails are not sent until reset tokens exist." };
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview Password hashing for credential sign-in, built on Node's `scrypt` so no native
+ * dependency is needed. Hashes are stored as `scrypt$<salt>$<key>` (both hex encoded).
+ *
+ * @bangla ক্রেডেনশিয়াল সাইন-ইনের জন্য পাসওয়ার্ড হ্যাশিং, Node-এর `scrypt`-এর উপর তৈরি যাতে
+ * কোনো নেটিভ ডিপেন্ডেন্সির প্রয়োজন না হয়। হ্যাশগুলি `scrypt$<salt>$<key>` (উভয়ই hex এনকোড করা)
+ * হিসাবে সংরক্ষিত হয়।
+ */
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+const HASH_PREFIX = 'scrypt';
+
+const deriveKey = (password: string, salt: string): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const key = await deriveKey(password, salt);
+  return `${HASH_PREFIX}$${salt}$${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [prefix, salt, keyHex] = storedHash.split('$');
+  if (prefix !== HASH_PREFIX || !salt || !keyHex) return false;
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await deriveKey(password, salt);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Shared pdfkit layout for the documents we render on the server (quotes, vouchers,
+ * service orders): A4 pages with a letterhead header, section headings, text lines with an
+ * optional right-aligned amount, and a footer line on every page. Only the standard PDF fonts are
+ * used, which cover Western European characters.
+ *
+ * @bangla সার্ভারে তৈরি ডকুমেন্টগুলির (উদ্ধৃতি, ভাউচার, সার্ভিস অর্ডার) জন্য শেয়ার করা pdfkit লেআউট: লেটারহেড
+ * হেডার সহ A4 পৃষ্ঠা, বিভাগের শিরোনাম, ঐচ্ছিক ডান-সারিবদ্ধ পরিমাণ সহ টেক্সট লাইন এবং প্রতিটি পৃষ্ঠায় একটি ফুটার
+ * লাইন। শুধু স্ট্যান্ডার্ড PDF ফন্ট ব্যবহার হয়, যা পশ্চিম ইউরোপীয় অক্ষর সমর্থন করে।
+ */
+import PDFDocument from 'pdfkit';
+import type { Letterhead } from '@/lib/branding';
+
+export type PdfDoc = PDFKit.PDFDocument;
+
+export const PDF_MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const AMOUNT_WIDTH = 110;
+export const PDF_COLORS = { primary: '#0091FF', text: '#1F2937', muted: '#5C6370', rule: '#D1D5DB', band: '#EAF5FF' };
+
+export interface PdfLineStyle {
+  font: string;
+  size: number;
+  color: string;
+  indent?: number;
+}
+
+/**
+ * Renders a document with `draw` and resolves to its bytes. `creationDate` should be fixed for
+ * documents that are rendered again, so the same input gives the same file.
+ */
+export function renderPdf(info: { title: string; author: string; creationDate?: Date }, draw: (doc: PdfDoc) => void): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margins: { top: PDF_MARGIN, left: PDF_MARGIN, right: PDF_MARGIN, bottom: PDF_MARGIN + FOOTER_HEIGHT },
+    bufferPages: true,
+    info: { Title: info.title, Author: info.author, CreationDate: info.creationDate ?? new Date() },
+  });
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    draw(doc);
+    doc.end();
+  });
+}
+
+export const contentWidth = (doc: PdfDoc) => doc.page.width - 2 * PDF_MARGIN;
+
+/** Starts a new page unless `height` more points fit above the footer. */
+export function ensureSpace(doc: PdfDoc, height: number) {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) doc.addPage();
+}
+
+export function rule(doc: PdfDoc, gapAfter = 8) {
+  doc.moveTo(PDF_MARGIN, doc.y).lineTo(PDF_MARGIN + contentWidth(doc), doc.y).lineWidth(0.5).strokeColor(PDF_COLORS.rule).stroke();
+  doc.y += gapAfter;
+}
+
+export function sectionHeading(doc: PdfDoc, title: string) {
+  ensureSpace(doc, 50);
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fontSize(13).fillColor(PDF_COLORS.primary).text(title, PDF_MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.y += 3;
+  rule(doc, 6);
+}
+
+/** A filled band across the page with a heading, e.g. a day of the plan. */
+export function bandHeading(doc: PdfDoc, title: string) {
+  ensureSpace(doc, 60);
+  const top = doc.y + 4;
+  doc.rect(PDF_MARGIN, top, contentWidth(doc), 18).fill(PDF_COLORS.band);
+  doc.font('Helvetica-Bold').fontSize(10.5).fillColor(PDF_COLORS.primary).text(title, PDF_MARGIN + 6, top + 5, { width: contentWidth(doc) - 12 });
+  doc.y = top + 20;
+}
+
+/** A line with `text` on the left and, when given, `amount` right-aligned in the last column. */
+export function amountLine(doc: PdfDoc, text: string, amount: string | undefined, style: PdfLineStyle) {
+  const x = PDF_MARGIN + (style.indent ?? 0);
+  const width = contentWidth(doc) - (style.indent ?? 0) - (amount !== undefined ? AMOUNT_WIDTH + 10 : 0);
+  doc.font(style.font).fontSize(style.size);
+  ensureSpace(doc, doc.heightOfString(text, { width }));
+  const top = doc.y;
+  if (amount !== undefined) {
+    doc.fillColor(PDF_COLORS.text).text(amount, PDF_MARGIN + contentWidth(doc) - AMOUNT_WIDTH, top, { width: AMOUNT_WIDTH, align: 'right' });
+  }
+  doc.fillColor(style.color).text(text, x, top, { width });
+}
+
+/** Label and value rows, e.g. the trip facts under a title. */
+export function factRows(doc: PdfDoc, facts: [label: string, value: string][], labelWidth = 90) {
+  facts.forEach(([label, value]) => {
+    doc.font('Helvetica-Bold').fontSize(9.5);
+    ensureSpace(doc, doc.heightOfString(value, { width: contentWidth(doc) - labelWidth }));
+    const top = doc.y;
+    doc.fillColor(PDF_COLORS.text).text(`${label}:`, PDF_MARGIN, top, { width: labelWidth });
+    doc.font('Helvetica').text(value, PDF_MARGIN + labelWidth, top, { width: contentWidth(doc) - labelWidth });
+  });
+}
+
+/** The letterhead on the left and the document title with its reference lines on the right. */
+export function letterheadHeader(doc: PdfDoc, letterhead: Letterhead, title: string, referenceLines: string[]) {
+  const width = contentWidth(doc);
+  const top = doc.y;
+  doc.font('Helvetica-Bold').fontSize(20).fillColor(PDF_COLORS.primary).text(letterhead.name, PDF_MARGIN, top, { width: width * 0.6 });
+  doc.font('Helvetica').fontSize(8.5).fillColor(PDF_COLORS.muted);
+  letterhead.lines.forEach(line => doc.text(line, { width: width * 0.6 }));
+  const leftBottom = doc.y;
+
+  const right = { width: width * 0.4, align: 'right' as const };
+  doc.font('Helvetica-Bold').fontSize(14).fillColor(PDF_COLORS.text).text(title, PDF_MARGIN + width * 0.6, top, right);
+  doc.font('Helvetica').fontSize(9).fillColor(PDF_COLORS.muted);
+  referenceLines.forEach(line => doc.text(line, right));
+
+  doc.x = PDF_MARGIN;
+  doc.y = Math.max(leftBottom, doc.y) + 10;
+  rule(doc, 14);
+}
+
+/** Writes `footer(page, pageCount)` centred under every page; call once everything else is drawn. */
+export function pageFooters(doc: PdfDoc, footer: (page: number, pageCount: number) => string) {
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // Writing below the bottom margin would otherwise start another page.
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(7.5).fillColor(PDF_COLORS.muted)
+      .text(footer(index + 1, range.count), PDF_MARGIN, doc.page.height - PDF_MARGIN + 10, { width: contentWidth(doc), align: 'center' });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Builds and queries the pricing issues `calculateAllCosts` attaches to a
+ * `CostSummary`. Every issue code has a default severity and a suggested fix, so the planner, the
+ * summary tables and the print layout all tell the admin the same thing. A summary with an error
+ * cannot be sent as a quote.
+ *
+ * @bangla `calculateAllCosts` একটি `CostSummary`-তে যে মূল্য নির্ধারণ সমস্যাগুলি যুক্ত করে সেগুলি তৈরি ও
+ * অনুসন্ধান করে। প্রতিটি সমস্যা কোডের একটি ডিফল্ট গুরুত্ব এবং একটি প্রস্তাবিত সমাধান আছে, তাই প্ল্যানার,
+ * সারাংশ টেবিল এবং প্রিন্ট লেআউট সবাই অ্যাডমিনকে একই কথা বলে। ত্রুটিযুক্ত সারাংশ উদ্ধৃতি হিসেবে পাঠানো যায় না।
+ */
+import type { CostSummary, ItineraryItem, PricingIssue, PricingIssueCode } from '@/types/itinerary';
+
+const ISSUE_DEFAULTS: Record<PricingIssueCode, { severity: PricingIssue['severity']; suggestedFix: string }> = {
+  missingExchangeRate: { severity: 'error', suggestedFix: "Add an exchange rate for this currency pair under Currency Management." },
+  deletedServicePrice: { severity: 'warning', suggestedFix: "Pick a current service price, or check the prices entered on the item itself." },
+  zeroCost: { severity: 'warning', suggestedFix: "Enter a price or pick a service price. Ignore this if the service really is free." },
+  missingHotelDefinition: { severity: 'error', suggestedFix: "Select the hotel again; its definition may have been deleted." },
+  missingRoomType: { severity: 'error', suggestedFix: "Delete the room booking and add it again with a current room type." },
+  noRoomsBooked: { severity: 'warning', suggestedFix: "Add at least one room booking to the stay." },
+  invalidStay: { severity: 'error', suggestedFix: "Set the checkout day after the check-in day." },
+  missingStartDate: { severity: 'error', suggestedFix: "Set the trip start date so nights can be matched to seasons." },
+  missingRate: { severity: 'error', suggestedFix: "Add a seasonal rate covering these dates to the hotel under Service Prices." },
+  occupancyExceeded: { severity: 'error', suggestedFix: "Add rooms or an extra bed, or move travelers to another room booking." },
+  minimumStayNotMet: { severity: 'error', suggestedFix: "Extend the stay, or pick a room type or dates without this minimum stay." },
+  activityUnavailable: { severity: 'error', suggestedFix: "Move the activity to a day its package is open (its form offers the nearest one), or pick another package." },
+};
+
+export function createPricingIssue(item: ItineraryItem, code: PricingIssueCode, reason: string): PricingIssue {
+  return { itemId: item.id, itemName: item.name, day: item.day, code, reason, ...ISSUE_DEFAULTS[code] };
+}
+
+/** Errors first, then by day. */
+export function sortPricingIssues(issues: PricingIssue[]): PricingIssue[] {
+  return [...issues].sort((a, b) => (a.severity === b.severity ? a.day - b.day : a.severity === 'error' ? -1 : 1));
+}
+
+export const getBlockingPricingIssues = (summary: Pick<CostSummary, 'pricingIssues'>): PricingIssue[] =>
+  (summary.pricingIssues ?? []).filter(issue => issue.severity === 'error');
+
+export const getItemPricingIssues = (summary: Pick<CostSummary, 'pricingIssues'>, itemId: string): PricingIssue[] =>
+  (summary.pricingIssues ?? []).filter(issue => issue.itemId === itemId);
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Tells people about quotation events: a new request (admins), the status transitions
+ * that call for it (`notifyAgent` and `notifyAdmins` in `QUOTATION_TRANSITIONS`) and quotes about to
+ * expire (the agent). Everyone with a sign-in account gets an in-app notification, and its email
+ * mirror unless they turned that kind off; an agent without an account is only emailed. The agent
+ * sees their agency's branding in emails. A deposit request also states the pro forma's deposit and
+ * due date. A failed notification is logged and never undoes the request or transition.
+ *
+ * @bangla উদ্ধৃতি ইভেন্ট সম্পর্কে জানায়: একটি নতুন অনুরোধ (অ্যাডমিনদের), যে স্ট্যাটাস ট্রানজিশনগুলির জন্য তা দরকার
+ * (`QUOTATION_TRANSITIONS`-এ `notifyAgent` এবং `notifyAdmins`) এবং মেয়াদ শেষ হতে চলা উদ্ধৃতি (এজেন্টকে)।
+ * সাইন-ইন অ্যাকাউন্ট থাকা প্রত্যেকে অ্যাপের ভিতরে একটি বিজ্ঞপ্তি পান, এবং সেই ধরন বন্ধ না করলে তার ইমেল প্রতিলিপিও;
+ * অ্যাকাউন্ট ছাড়া এজেন্টকে শুধু ইমেল করা হয়। এজেন্ট ইমেলে তার এজেন্সির ব্র্যান্ডিং দেখেন। ডিপোজিটের অনুরোধে
+ * প্রো-ফর্মার ডিপোজিট ও নির্ধারিত তারিখও থাকে। ব্যর্থ বিজ্ঞপ্তি লগ করা হয় এবং কখনো অনুরোধ বা ট্রানজিশন বাতিল করে না।
+ */
+import { addDays, parseISO } from 'date-fns';
+import prisma from '@/lib/prisma';
+import { queueEmails } from '@/lib/email-service';
+import {
+  describeQuotationEvent, getEmailBranding, getStatusChangeTemplate, renderQuotationEmail, HOUSE_EMAIL_BRANDING,
+  type QuotationEmailContext, type QuotationEmailTemplate,
+} from '@/lib/email-templates';
+import { getAgency } from '@/lib/db/agents';
+import { createNotifications, type NewNotification } from '@/lib/db/notifications';
+import { listRequestsWithLatestQuote } from '@/lib/db/quotation-requests';
+import { fromJson } from '@/lib/db/json';
+import { getQuotationInvoicing } from '@/lib/invoicing';
+import { AWAITING_RESPONSE, QUOTE_VALIDITY_DAYS } from '@/lib/quotation-workflow';
+import { formatCurrency } from '@/lib/utils';
+import type { NewOutboxEmail } from '@/lib/db/email-outbox';
+import type { NotificationKind, NotificationPreferences } from '@/types/notification';
+import type { QuotationRequest, QuotationStatusChange } from '@/types/quotation';
+import type { QuotationTransition } from '@/lib/quotation-workflow';
+
+/** How long before a quote runs out its agent is reminded. */
+const EXPIRY_NOTICE_DAYS = 3;
+
+type Audience = { agent: boolean; admins: boolean };
+
+interface Recipient {
+  email: string;
+  isAgent: boolean;
+  /** Absent for an agent profile without a sign-in account. */
+  userId?: string;
+  preferences: NotificationPreferences;
+}
+
+interface QuotationEvent {
+  kind: NotificationKind;
+  template: QuotationEmailTemplate;
+  context: QuotationEmailContext;
+  /** Set for events a recurring check raises, so each recipient hears of it once. */
+  key?: string;
+}
+
+const readPreferences = (value: string | null | undefined) => fromJson<NotificationPreferences>(value, { email: {} });
+
+async function getRecipients(audience: Audience, request: QuotationRequest): Promise<Recipient[]> {
+  const recipients: Recipient[] = [];
+  if (audience.agent && request.agentId) {
+    const agent = await prisma.agentProfile.findUnique({
+      where: { id: request.agentId },
+      select: { email: true, user: { select: { id: true, notificationPreferences: true } } },
+    });
+    if (agent?.email) {
+      recipients.push({ email: agent.email, isAgent: true, userId: agent.user?.id, preferences: readPreferences(agent.user?.notificationPreferences) });
+    }
+  }
+  if (audience.admins) {
+    const admins = await prisma.user.findMany({ where: { role: 'admin' }, select: { id: true, email: true, notificationPreferences: true } });
+    recipients.push(...admins.map(admin => ({ email: admin.email, isAgent: false, userId: admin.id, preferences: readPreferences(admin.notificationPreferences) })));
+  }
+  return recipients;
+}
+
+/**
+ * Stores the event's notifications and queues the emails that mirror them. A recipient who already
+ * had a keyed event is neither notified nor emailed again.
+ */
+async function notify(recipients: Recipient[], event: QuotationEvent): Promise<void> {
+  const { request, change } = event.context;
+  const text = describeQuotationEvent(event.template, event.context);
+  const notifications: NewNotification[] = recipients.filter(recipient => recipient.userId).map(recipient => ({
+    userId: recipient.userId!,
+    kind: event.kind,
+    title: text.subject,
+    body: [...text.paragraphs, change?.note ? `Note: ${change.note}` : ''].filter(Boolean).join('\n'),
+    quotationRequestId: request.id,
+    itineraryId: request.linkedItineraryId,
+    key: event.key,
+  }));
+  const notifiedUserIds = new Set((await createNotifications(notifications)).map(notification => notification.userId));
+
+  const emailed = recipients.filter(recipient => recipient.userId
+    ? notifiedUserIds.has(recipient.userId) && recipient.preferences.email[event.kind] !== false
+    : !event.key);
+  if (emailed.length === 0) return;
+  const agency = emailed.some(recipient => recipient.isAgent) && request.agencyId ? await getAgency(request.agencyId) : null;
+  const meta = { template: event.template, quotationRequestId: request.id };
+  await queueEmails(emailed.map((recipient): NewOutboxEmail => recipient.isAgent
+    ? { ...meta, agencyId: request.agencyId, to: recipient.email, ...renderQuotationEmail(event.template, event.context, getEmailBranding(agency)) }
+    : { ...meta, to: recipient.email, ...renderQuotationEmail(event.template, event.context, HOUSE_EMAIL_BRANDING) }));
+}
+
+/** What the agent is asked to pay when a deposit is requested. */
+async function getDepositFacts(request: QuotationRequest, change: QuotationStatusChange): Promise<[string, string][]> {
+  if (change.toStatus !== "Deposit Pending") return [];
+  const { invoice, balance } = await getQuotationInvoicing(request.id);
+  if (!invoice || !balance) return [];
+  return [
+    ["Pro-forma invoice", `${invoice.number}, total ${formatCurrency(invoice.total, invoice.currency)}`],
+    [`Deposit due${invoice.depositDueDate ? ` by ${invoice.depositDueDate}` : ''}`, formatCurrency(balance.depositOutstanding, invoice.currency)],
+  ];
+}
+
+function getTransitionKind(transition: QuotationTransition, change: QuotationStatusChange): NotificationKind {
+  if (change.toStatus === "Booked") return 'bookingConfirmed';
+  const storesNotes = transition.effects.includes('storeAgentNotes') || transition.effects.includes('storeAdminNotes');
+  return storesNotes && change.note ? 'revisionNotes' : 'statusChanged';
+}
+
+export async function notifyQuotationTransition(
+  transition: QuotationTransition, request: QuotationRequest, change: QuotationStatusChange,
+): Promise<void> {
+  try {
+    const audience = { agent: transition.effects.includes('notifyAgent'), admins: transition.effects.includes('notifyAdmins') };
+    if (!audience.agent && !audience.admins) return;
+    await notify(await getRecipients(audience, request), {
+      kind: getTransitionKind(transition, change),
+      template: getStatusChangeTemplate(change),
+      context: { request, change, facts: await getDepositFacts(request, change) },
+    });
+  } catch (error) {
+    console.error(`Failed to send transition notifications for quotation ${request.id}:`, error);
+  }
+}
+
+/** Tells the admins about a newly submitted request. */
+export async function notifyNewQuotationRequest(request: QuotationRequest): Promise<void> {
+  try {
+    await notify(await getRecipients({ agent: false, admins: true }, request), {
+      kind: 'statusChanged',
+      template: 'quotationRequested',
+      context: { request },
+    });
+  } catch (error) {
+    console.error(`Failed to send new request notifications for quotation ${request.id}:`, error);
+  }
+}
+
+/**
+ * Reminds agents of sent quotes that expire within `EXPIRY_NOTICE_DAYS`, once per quote version.
+ * Only agents with a sign-in account are reminded. Returns how many quotes were due a reminder.
+ */
+export async function notifyExpiringQuotes(now = new Date()): Promise<number> {
+  const expiring = (await listRequestsWithLatestQuote(AWAITING_RESPONSE))
+    .map(({ request, quote }) => ({ request, quote, expiresAt: addDays(parseISO(quote.createdAt), QUOTE_VALIDITY_DAYS) }))
+    .filter(({ expiresAt }) => expiresAt > now && expiresAt <= addDays(now, EXPIRY_NOTICE_DAYS));
+  for (const { request, quote, expiresAt } of expiring) {
+    try {
+      const recipients = (await getRecipients({ agent: true, admins: false }, request)).filter(recipient => recipient.userId);
+      await notify(recipients, {
+        kind: 'quoteExpiring',
+        template: 'quoteExpiring',
+        context: { request, expiresAt, facts: [["Quote version", `v${quote.version.toFixed(1)}`]] },
+        key: `quoteExpiring:${request.id}:v${quote.version.toFixed(1)}`,
+      });
+    } catch (error) {
+      console.error(`Failed to send the expiry reminder for quotation ${request.id}:`, error);
+    }
+  }
+  return expiring.length;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { QuotationRequest } from '@/types/quotation';
+import {
+  applyTransition, findTransition, getAllowedTransitions, getSendQuoteStatus, nextQuoteVersion, QUOTATION_TRANSITIONS,
+} from '@/lib/quotation-workflow';
+
+const request = (changes: Partial<QuotationRequest> = {}): QuotationRequest => ({
+  id: 'AG1-250101-0001',
+  requestDate: '2025-01-01T00:00:00.000Z',
+  clientInfo: { adults: 2, children: 0 },
+  tripDetails: { preferredCountryIds: ['TH'], budgetCurrency: 'USD' },
+  status: "New Request Submitted",
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...changes,
+});
+
+const NOW = new Date('2025-02-01T10:00:00.000Z');
+
+describe('findTransition', () => {
+  it('lets admins send the first quote and agents answer it', () => {
+    expect(findTransition("New Request Submitted", "Quoted: Waiting for TA Feedback", 'admin')).toBeDefined();
+    expect(findTransition("Quoted: Waiting for TA Feedback", "Quoted: Revision Requested", 'agent')?.note).toBe('required');
+    expect(findTransition("Quoted: Awaiting TA Approval", "Confirmed", 'agent')).toBeDefined();
+  });
+
+  it('refuses moves made by the wrong role or from the wrong status', () => {
+    expect(findTransition("New Request Submitted", "Quoted: Waiting for TA Feedback", 'agent')).toBeUndefined();
+    expect(findTransition("Quoted: Awaiting TA Approval", "Confirmed", 'admin')).toBeUndefined();
+    expect(findTransition("New Request Submitted", "Confirmed", 'agent')).toBeUndefined();
+    expect(findTransition("Completed", "Cancelled", 'admin')).toBeUndefined();
+  });
+
+  it('lets the client accept or ask for changes only while a sent quote awaits an answer', () => {
+    expect(findTransition("Quoted: Re-quoted", "Confirmed", 'client')?.effects).toContain('recordAcceptance');
+    expect(findTransition("Quoted: Revision In Progress", "Confirmed", 'client')).toBeUndefined();
+    expect(findTransition("Confirmed", "Quoted: Revision Requested", 'client')).toBeUndefined();
+  });
+
+  it('gates booking on billing', () => {
+    expect(findTransition("Confirmed", "Deposit Pending", 'admin')?.requires).toBe('proFormaIssued');
+    expect(findTransition("Deposit Pending", "Booked", 'admin')?.requires).toBe('depositReceived');
+  });
+
+  it('leaves cancellation after a deposit request to the admin', () => {
+    expect(findTransition("Confirmed", "Cancelled", 'agent')).toBeDefined();
+    expect(findTransition("Deposit Pending", "Cancelled", 'agent')).toBeUndefined();
+    expect(findTransition("Deposit Pending", "Cancelled", 'admin')).toBeDefined();
+  });
+});
+
+describe('getAllowedTransitions', () => {
+  it('offers nothing from a finished request', () => {
+    for (const role of ['admin', 'agent', 'client'] as const) {
+      expect(getAllowedTransitions("Completed", role)).toEqual([]);
+      expect(getAllowedTransitions("Cancelled", role)).toEqual([]);
+    }
+  });
+
+  it('lists the moves in table order', () => {
+    expect(getAllowedTransitions("Quoted: Waiting for TA Feedback", 'agent').map(t => t.to))
+      .toEqual(["Quoted: Revision Requested", "Quoted: Awaiting TA Approval", "Cancelled"]);
+  });
+
+  it('never moves a request to the status it is already in, except re-quoting', () => {
+    const selfLoops = QUOTATION_TRANSITIONS.filter(t => t.from.includes(t.to)).map(t => t.to);
+    expect(selfLoops).toEqual(["Quoted: Re-quoted"]);
+  });
+});
+
+describe('nextQuoteVersion', () => {
+  it('starts at 1.0 and adds 0.1 per re-quote without float drift', () => {
+    expect(nextQuoteVersion(undefined)).toBe(1);
+    expect(nextQuoteVersion(0)).toBe(1);
+    expect(nextQuoteVersion(1)).toBe(1.1);
+    expect(nextQuoteVersion(1.2)).toBe(1.3);
+    expect(nextQuoteVersion(1.9)).toBe(2);
+  });
+});
+
+describe('getSendQuoteStatus', () => {
+  it('waits for feedback on the first send and re-quotes after that', () => {
+    expect(getSendQuoteStatus({ status: "New Request Submitted", version: 0 })).toBe("Quoted: Waiting for TA Feedback");
+    expect(getSendQuoteStatus({ status: "Quoted: Revision In Progress", version: undefined })).toBe("Quoted: Waiting for TA Feedback");
+    expect(getSendQuoteStatus({ status: "Quoted: Revision In Progress", version: 1 })).toBe("Quoted: Re-quoted");
+    expect(getSendQuoteStatus({ status: "Quoted: Revision Requested", version: 1.1 })).toBe("Quoted: Re-quoted");
+  });
+});
+
+describe('applyTransition', () => {
+  it('bumps the version, stores the admin note and clears the answered agent note when a quote is sent', () => {
+    const transition = findTransition("Quoted: Revision Requested", "Quoted: Re-quoted", 'admin')!;
+    const updated = applyTransition(request({ status: "Quoted: Revision Requested", version: 1, agentRevisionNotes: "Cheaper hotel" }), transition, "  Swapped the hotel ", NOW);
+    expect(updated).toMatchObject({ status: "Quoted: Re-quoted", version: 1.1, adminRevisionNotes: "Swapped the hotel", updatedAt: NOW.toISOString() });
+    expect(updated.agentRevisionNotes).toBeUndefined();
+  });
+
+  it("stores the agent's revision note without touching the version", () => {
+    const transition = findTransition("Quoted: Waiting for TA Feedback", "Quoted: Revision Requested", 'agent')!;
+    const updated = applyTransition(request({ status: "Quoted: Waiting for TA Feedback", version: 1 }), transition, "Add a day in Krabi", NOW);
+    expect(updated).toMatchObject({ status: "Quoted: Revision Requested", version: 1, agentRevisionNotes: "Add a day in Krabi" });
+  });
+
+  it('does not change the request it was given', () => {
+    const original = request();
+    applyTransition(original, findTransition("New Request Submitted", "Quoted: Waiting for TA Feedback", 'admin')!, undefined, NOW);
+    expect(original.status).toBe("New Request Submitted");
+    expect(original.version).toBeUndefined();
+  });
+});
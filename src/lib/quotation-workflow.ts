@@ -0,0 +1,143 @@
+/**
+ * @fileoverview The quotation request state machine. `QUOTATION_TRANSITIONS` is the single list of
+ * allowed status moves: for each one it says which roles may make it, whether a note is needed,
+ * what billing must be in place first and which side effects follow (version bump, snapshot, revision
+ * notes, notifications). The transitions API route enforces the table; the admin and agent pages use it to
+ * offer only the moves that are allowed.
+ *
+ * @bangla উদ্ধৃতি অনুরোধের স্টেট মেশিন। `QUOTATION_TRANSITIONS` হল অনুমোদিত স্ট্যাটাস পরিবর্তনের
+ * একমাত্র তালিকা: প্রতিটির জন্য এটি বলে কোন ভূমিকা এটি করতে পারে, নোট প্রয়োজন কিনা, আগে থেকে কোন বিলিং
+ * থাকতে হবে এবং কোন পার্শ্ব প্রতিক্রিয়া ঘটে (সংস্করণ বৃদ্ধি, স্ন্যাপশট, সংশোধনী নোট, বিজ্ঞপ্তি)। ট্রানজিশন API রুট টেবিলটি প্রয়োগ করে;
+ * অ্যাডমিন ও এজেন্ট পৃষ্ঠাগুলি শুধুমাত্র অনুমোদিত পরিবর্তনগুলি দেখাতে এটি ব্যবহার করে।
+ */
+import type { QuotationRequest, QuotationRequestStatus } from '@/types/quotation';
+import type { UserRole } from '@/lib/access-control';
+
+/** Who makes a move: a signed-in user, or the client answering through a quote version share link. */
+export type QuotationActorRole = UserRole | 'client';
+
+export type QuotationTransitionEffect =
+  | 'bumpVersion'      // First send becomes v1.0, every later send adds 0.1
+  | 'storeAdminNotes'  // The note becomes `adminRevisionNotes`
+  | 'storeAgentNotes'  // The note becomes `agentRevisionNotes`
+  | 'clearAgentNotes'  // The agent's revision notes have been answered
+  | 'freezeSnapshot'   // The itinerary and cost summary are stored as an immutable `QuoteVersion`
+  | 'recordAcceptance' // The client's name and typed signature are stored as a `QuoteAcceptance` of the current version
+  | 'notifyAgent'      // In-app notification for the agent, mirrored by email per their preferences
+  | 'notifyAdmins';
+
+/** Billing that must be in place before a move; checked by the server (see `src/lib/invoicing.ts`). */
+export type QuotationTransitionRequirement =
+  | 'proFormaIssued'   // A pro-forma invoice exists for the accepted version
+  | 'depositReceived'; // Payments on the pro forma cover its deposit
+
+export interface QuotationTransition {
+  from: readonly QuotationRequestStatus[];
+  to: QuotationRequestStatus;
+  roles: readonly QuotationActorRole[];
+  label: string;
+  note?: 'optional' | 'required';
+  requires?: QuotationTransitionRequirement;
+  effects: readonly QuotationTransitionEffect[];
+}
+
+const QUOTE_SENT_EFFECTS: readonly QuotationTransitionEffect[] = ['bumpVersion', 'freezeSnapshot', 'storeAdminNotes', 'clearAgentNotes', 'notifyAgent'];
+
+// A sent quote the client can still answer.
+export const AWAITING_RESPONSE: readonly QuotationRequestStatus[] = ["Quoted: Waiting for TA Feedback", "Quoted: Re-quoted", "Quoted: Awaiting TA Approval"];
+
+/** Days a sent quote is held for. The agent is reminded before it runs out; transitions do not enforce it. */
+export const QUOTE_VALIDITY_DAYS = 14;
+
+export const QUOTATION_TRANSITIONS: readonly QuotationTransition[] = [
+  {
+    from: ["New Request Submitted", "Quoted: Revision Requested"], to: "Quoted: Revision In Progress",
+    roles: ['admin'], label: "Start working on quote", effects: [],
+  },
+  {
+    from: ["New Request Submitted", "Quoted: Revision In Progress"], to: "Quoted: Waiting for TA Feedback",
+    roles: ['admin'], label: "Send quote to agent", note: 'optional', effects: QUOTE_SENT_EFFECTS,
+  },
+  {
+    from: ["Quoted: Revision In Progress", "Quoted: Revision Requested", "Quoted: Waiting for TA Feedback", "Quoted: Re-quoted"], to: "Quoted: Re-quoted",
+    roles: ['admin'], label: "Send revised quote", note: 'optional', effects: QUOTE_SENT_EFFECTS,
+  },
+  {
+    from: ["Quoted: Waiting for TA Feedback", "Quoted: Re-quoted", "Quoted: Awaiting TA Approval"], to: "Quoted: Revision Requested",
+    roles: ['agent'], label: "Request revision", note: 'required', effects: ['storeAgentNotes', 'notifyAdmins'],
+  },
+  {
+    from: ["Quoted: Waiting for TA Feedback", "Quoted: Re-quoted"], to: "Quoted: Awaiting TA Approval",
+    roles: ['agent'], label: "Mark ready for approval", effects: ['notifyAdmins'],
+  },
+  {
+    from: ["Quoted: Awaiting TA Approval"], to: "Confirmed",
+    roles: ['agent'], label: "Approve quotation", effects: ['notifyAdmins'],
+  },
+  {
+    from: AWAITING_RESPONSE, to: "Confirmed",
+    roles: ['client'], label: "Accept quotation", effects: ['recordAcceptance', 'notifyAgent', 'notifyAdmins'],
+  },
+  {
+    // The client's notes go where the agent's would, so the admin answers them the same way.
+    from: AWAITING_RESPONSE, to: "Quoted: Revision Requested",
+    roles: ['client'], label: "Request changes", note: 'required', effects: ['storeAgentNotes', 'notifyAgent', 'notifyAdmins'],
+  },
+  { from: ["Confirmed"], to: "Deposit Pending", roles: ['admin'], label: "Request deposit", requires: 'proFormaIssued', effects: ['notifyAgent'] },
+  { from: ["Deposit Pending"], to: "Booked", roles: ['admin'], label: "Mark as booked", requires: 'depositReceived', effects: ['notifyAgent'] },
+  { from: ["Booked"], to: "Documents Sent", roles: ['admin'], label: "Send travel documents", effects: ['notifyAgent'] },
+  { from: ["Documents Sent"], to: "Trip In Progress", roles: ['admin'], label: "Start trip", effects: [] },
+  { from: ["Trip In Progress"], to: "Completed", roles: ['admin'], label: "Complete trip", effects: ['notifyAgent'] },
+  {
+    from: ["New Request Submitted", "Quoted: Revision In Progress", "Quoted: Waiting for TA Feedback", "Quoted: Revision Requested",
+      "Quoted: Re-quoted", "Quoted: Awaiting TA Approval", "Confirmed", "Deposit Pending", "Booked", "Documents Sent"],
+    to: "Cancelled", roles: ['admin'], label: "Cancel request", note: 'required', effects: ['notifyAgent'],
+  },
+  {
+    // Once a deposit is requested, cancellation goes through the admin.
+    from: ["New Request Submitted", "Quoted: Revision In Progress", "Quoted: Waiting for TA Feedback", "Quoted: Revision Requested",
+      "Quoted: Re-quoted", "Quoted: Awaiting TA Approval", "Confirmed"],
+    to: "Cancelled", roles: ['agent'], label: "Cancel request", note: 'required', effects: ['notifyAdmins'],
+  },
+];
+
+/** Moves `role` may make from `status`, in table order. */
+export function getAllowedTransitions(status: QuotationRequestStatus, role: QuotationActorRole): QuotationTransition[] {
+  return QUOTATION_TRANSITIONS.filter(t => t.from.includes(status) && t.roles.includes(role));
+}
+
+export function findTransition(from: QuotationRequestStatus, to: QuotationRequestStatus, role: QuotationActorRole): QuotationTransition | undefined {
+  return QUOTATION_TRANSITIONS.find(t => t.to === to && t.from.includes(from) && t.roles.includes(role));
+}
+
+/** The version a quote gets when it is sent: 1.0 the first time, then +0.1 per re-quote. */
+export function nextQuoteVersion(currentVersion: number | undefined): number {
+  const current = currentVersion || 0;
+  return current < 1 ? 1 : parseFloat((current + 0.1).toFixed(1));
+}
+
+/** Target status when an admin sends the proposal: the first send waits for feedback, later ones are re-quotes. */
+export function getSendQuoteStatus(request: Pick<QuotationRequest, 'status' | 'version'>): QuotationRequestStatus {
+  const isFirstSend = (request.version || 0) < 1 && (request.status === "New Request Submitted" || request.status === "Quoted: Revision In Progress");
+  return isFirstSend ? "Quoted: Waiting for TA Feedback" : "Quoted: Re-quoted";
+}
+
+/** Applies a transition's status and record-level side effects. Snapshots, acceptances and notifications are handled by the caller. */
+export function applyTransition(request: QuotationRequest, transition: QuotationTransition, note: string | undefined, now: Date): QuotationRequest {
+  const trimmedNote = note?.trim() || undefined;
+  const updated: QuotationRequest = { ...request, status: transition.to, updatedAt: now.toISOString() };
+  for (const effect of transition.effects) {
+    switch (effect) {
+      case 'bumpVersion': updated.version = nextQuoteVersion(request.version); break;
+      case 'storeAdminNotes': updated.adminRevisionNotes = trimmedNote; break;
+      case 'storeAgentNotes': updated.agentRevisionNotes = trimmedNote; break;
+      case 'clearAgentNotes': updated.agentRevisionNotes = undefined; break;
+      case 'freezeSnapshot':
+      case 'recordAcceptance':
+      case 'notifyAgent':
+      case 'notifyAdmins':
+        break;
+    }
+  }
+  return updated;
+}
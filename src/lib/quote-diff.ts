@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Compares two frozen quote versions line by line. Lines are the
+ * `DetailedSummaryItem`s of each version's `CostSummary`, matched by item ID and grouped by day,
+ * so the diff can be rendered with the same rows as the details summary table.
+ *
+ * @bangla দুটি স্থির উদ্ধৃতি সংস্করণকে লাইন ধরে তুলনা করে। লাইনগুলি প্রতিটি সংস্করণের `CostSummary`-এর
+ * `DetailedSummaryItem`, আইটেম ID দিয়ে মেলানো এবং দিন অনুসারে গ্রুপ করা, যাতে বিস্তারিত সারাংশ
+ * টেবিলের একই সারি দিয়ে পার্থক্যটি দেখানো যায়।
+ */
+import type { CostSummary, DetailedSummaryItem } from '@/types/itinerary';
+
+export type QuoteLineChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// Fields that make up what the agent was quoted. Booking status and confirmation refs are
+// operational and left out, so re-quoting after a booking update does not show as a change.
+const COMPARED_FIELDS = [
+  'day', 'type', 'name', 'note', 'countryName', 'province', 'configurationDetails', 'excludedTravelers',
+  'adultCost', 'childCost', 'totalCost', 'occupancyDetails',
+] as const satisfies readonly (keyof DetailedSummaryItem)[];
+
+export type QuoteLineField = typeof COMPARED_FIELDS[number];
+
+export interface QuoteLineDiff {
+  id: string;
+  change: QuoteLineChange;
+  before?: DetailedSummaryItem;
+  after?: DetailedSummaryItem;
+  changedFields: QuoteLineField[];
+  /** `after.totalCost - before.totalCost`, with a missing side counting as 0. */
+  priceDelta: number;
+}
+
+export interface QuoteDayDiff {
+  day: number;
+  lines: QuoteLineDiff[];
+  priceDelta: number;
+}
+
+export interface QuoteDiff {
+  days: QuoteDayDiff[];
+  grandTotalDelta: number;
+  counts: Record<QuoteLineChange, number>;
+}
+
+// Single-day trips leave `day` unset on summary items.
+const dayOf = (item: DetailedSummaryItem) => item.day ?? 1;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function diffLine(before: DetailedSummaryItem | undefined, after: DetailedSummaryItem | undefined): QuoteLineDiff {
+  const priceDelta = roundMoney((after?.totalCost ?? 0) - (before?.totalCost ?? 0));
+  if (!before) return { id: after!.id, change: 'added', after, changedFields: [], priceDelta };
+  if (!after) return { id: before.id, change: 'removed', before, changedFields: [], priceDelta };
+  const changedFields = COMPARED_FIELDS.filter(field => !isSameValue(before[field], after[field]));
+  return { id: after.id, change: changedFields.length > 0 ? 'changed' : 'unchanged', before, after, changedFields, priceDelta };
+}
+
+/**
+ * Diffs `from` against `to`. A line that moved to another day is reported as changed under its
+ * new day. Lines keep the order of `to`, with removed lines after the remaining ones of their day.
+ */
+export function diffQuoteVersions(from: CostSummary, to: CostSummary): QuoteDiff {
+  const beforeById = new Map(from.detailedItems.map(item => [item.id, item]));
+  const afterIds = new Set(to.detailedItems.map(item => item.id));
+
+  const lines = [
+    ...to.detailedItems.map(item => diffLine(beforeById.get(item.id), item)),
+    ...from.detailedItems.filter(item => !afterIds.has(item.id)).map(item => diffLine(item, undefined)),
+  ];
+
+  const byDay = new Map<number, QuoteLineDiff[]>();
+  for (const line of lines) {
+    const day = dayOf((line.after ?? line.before)!);
+    byDay.set(day, [...(byDay.get(day) ?? []), line]);
+  }
+
+  const counts: Record<QuoteLineChange, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  lines.forEach(line => { counts[line.change] += 1; });
+
+  return {
+    days: [...byDay.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([day, dayLines]) => ({ day, lines: dayLines, priceDelta: roundMoney(dayLines.reduce((sum, line) => sum + line.priceDelta, 0)) })),
+    grandTotalDelta: roundMoney(to.grandTotal - from.grandTotal),
+    counts,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview The stored PDF of a quote version, rendered on first request. A version's snapshot
+ * never changes, so the first rendering is kept and served from then on; only the agency letterhead
+ * is read at render time. Sending a quote archives the house-branded priced quote straight away.
+ *
+ * @bangla একটি উদ্ধৃতি সংস্করণের সংরক্ষিত PDF, প্রথম অনুরোধে তৈরি। একটি সংস্করণের স্ন্যাপশট কখনও বদলায় না,
+ * তাই প্রথম রেন্ডারটি রাখা হয় এবং তারপর থেকে সেটিই দেওয়া হয়; শুধু এজেন্সির লেটারহেড রেন্ডারের সময় পড়া হয়।
+ * উদ্ধৃতি পাঠানো হলে সাথে সাথে আমাদের ব্র্যান্ডের মূল্যসহ উদ্ধৃতিটি সংরক্ষণ করা হয়।
+ */
+import type { Agency } from '@/types/agent';
+import type { QuoteDocumentBranding, QuoteDocumentVariant, QuoteVersion } from '@/types/quotation';
+import { getQuoteDocument, saveQuoteDocument, type StoredQuoteDocument } from '@/lib/db/quote-documents';
+import { getQuoteVersion } from '@/lib/db/quotation-requests';
+import { HOUSE_LETTERHEAD, getAgencyLetterhead } from '@/lib/branding';
+import { getQuoteDocumentFileName, renderQuotePdf } from '@/lib/quote-pdf';
+
+/** `agency` is only read for the `agency` branding, which needs one. */
+export async function getOrCreateQuoteDocument(
+  quote: QuoteVersion, variant: QuoteDocumentVariant, branding: QuoteDocumentBranding, agency: Agency | null, createdByUserId: string | null,
+): Promise<StoredQuoteDocument> {
+  const stored = await getQuoteDocument(quote.id, variant, branding);
+  if (stored) return stored;
+  if (branding === 'agency' && !agency) throw new Error(`Quote ${quote.id} has no agency to brand the document with.`);
+  const letterhead = branding === 'agency' ? getAgencyLetterhead(agency!) : HOUSE_LETTERHEAD;
+  const content = await renderQuotePdf({ quote, variant, letterhead });
+  return saveQuoteDocument({ quoteVersionId: quote.id, variant, branding, fileName: getQuoteDocumentFileName(quote, variant), content }, createdByUserId);
+}
+
+/** Called after a quote is sent. Failures are only logged: the quote has been sent either way. */
+export async function archiveSentQuote(requestId: string, version: number, createdByUserId: string | null): Promise<void> {
+  try {
+    const quote = await getQuoteVersion(requestId, version);
+    if (quote) await getOrCreateQuoteDocument(quote, 'withCosts', 'house', null, createdByUserId);
+  } catch (error) {
+    console.error(`Failed to archive the PDF of version ${version} of quotation request ${requestId}:`, error);
+  }
+}
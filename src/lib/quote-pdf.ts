@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Server-side PDF rendering of a sent quote version with pdfkit, so the document is
+ * the same whichever browser asks for it and can be stored or attached to an email. The document
+ * has a letterhead (ours or the agency's), the trip facts, a day-by-day plan with hotel room
+ * blocks, the per-traveler totals of the cost breakdown table, and the terms. The `itineraryOnly`
+ * variant leaves out every amount. Items are described with `describeItemForClient`, never the
+ * staff configuration details.
+ *
+ * @bangla pdfkit দিয়ে একটি পাঠানো উদ্ধৃতি সংস্করণের সার্ভার-সাইড PDF রেন্ডারিং, যাতে যে ব্রাউজারই চাক
+ * ডকুমেন্টটি একই হয় এবং তা সংরক্ষণ বা ইমেলে সংযুক্ত করা যায়। ডকুমেন্টে একটি লেটারহেড (আমাদের বা এজেন্সির),
+ * ভ্রমণের তথ্য, হোটেল রুম ব্লক সহ দিনভিত্তিক পরিকল্পনা, খরচ ভাঙ্গন টেবিলের প্রতি ভ্রমণকারীর মোট এবং শর্তাবলী
+ * থাকে। `itineraryOnly` ধরনে কোনো মূল্য থাকে না। আইটেমগুলি `describeItemForClient` দিয়ে বর্ণনা করা হয়,
+ * কখনও কর্মীদের কনফিগারেশন বিবরণ দিয়ে নয়।
+ */
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import type { CurrencyCode, DetailedSummaryItem, ItineraryItem } from '@/types/itinerary';
+import type { QuoteDocumentVariant, QuoteVersion } from '@/types/quotation';
+import type { Letterhead } from '@/lib/branding';
+import { ITEM_TYPE_LABELS, describeItemForClient } from '@/lib/client-item-details';
+import {
+  PDF_COLORS, amountLine, bandHeading, ensureSpace, factRows, letterheadHeader, pageFooters, renderPdf, rule, sectionHeading,
+  type PdfDoc,
+} from '@/lib/pdf-layout';
+import { formatCurrency } from '@/lib/utils';
+
+export interface QuotePdfInput {
+  quote: QuoteVersion;
+  variant: QuoteDocumentVariant;
+  letterhead: Letterhead;
+}
+
+const TERMS = [
+  "Services are subject to availability when booked; nothing is reserved until the quote has been accepted.",
+  "Hotel check-in and check-out times follow each hotel's own policy.",
+  "Cancellation and amendment charges follow the suppliers' policies and are advised before booking.",
+  "Flights, visas and travel insurance are not included unless listed above.",
+];
+
+const versionLabel = (version: number) => `v${version.toFixed(1)}`;
+
+export function getQuoteDocumentFileName(quote: Pick<QuoteVersion, 'quotationRequestId' | 'version'>, variant: QuoteDocumentVariant): string {
+  const reference = quote.quotationRequestId.replace(/[^A-Za-z0-9_-]/g, '-');
+  return `${variant === 'withCosts' ? 'Quote' : 'Itinerary'}-${reference}-${versionLabel(quote.version)}.pdf`;
+}
+
+function drawTripFacts(doc: PdfDoc, { quote, variant }: QuotePdfInput) {
+  const { tripData } = quote;
+  doc.font('Helvetica-Bold').fontSize(16).fillColor(PDF_COLORS.text).text(tripData.itineraryName || "Travel Itinerary");
+  if (tripData.clientName) {
+    doc.font('Helvetica').fontSize(10).fillColor(PDF_COLORS.muted).text(`Prepared for ${tripData.clientName}`);
+  }
+  doc.moveDown(0.5);
+
+  const start = parseISO(tripData.settings.startDate);
+  const numDays = tripData.settings.numDays;
+  const dates = isValid(start)
+    ? `${format(start, 'd MMMM yyyy')} – ${format(addDays(start, numDays - 1), 'd MMMM yyyy')} (${numDays} day${numDays === 1 ? '' : 's'})`
+    : `${numDays} day${numDays === 1 ? '' : 's'}`;
+  const { adults, children } = tripData.pax;
+  const facts: [string, string][] = [
+    ["Travel dates", dates],
+    ["Travelers", `${adults} adult${adults === 1 ? '' : 's'}${children > 0 ? `, ${children} child${children === 1 ? '' : 'ren'}` : ''}`],
+  ];
+  if (variant === 'withCosts') facts.push(["Currency", tripData.pax.currency]);
+  factRows(doc, facts);
+}
+
+function drawItem(doc: PdfDoc, item: ItineraryItem, line: DetailedSummaryItem | undefined, currency: CurrencyCode, showCosts: boolean) {
+  doc.moveDown(0.35);
+  ensureSpace(doc, 40);
+  amountLine(doc, `${ITEM_TYPE_LABELS[item.type]}: ${item.name}`, showCosts && line ? formatCurrency(line.totalCost, currency) : undefined,
+    { font: 'Helvetica-Bold', size: 10, color: PDF_COLORS.text });
+
+  const location = [item.province, item.countryName].filter(Boolean).join(', ');
+  const details = [location, ...describeItemForClient(item).split(';').map(detail => detail.trim())].filter(Boolean);
+  const notIncluded = line?.excludedTravelers && line.excludedTravelers !== 'None' ? `Not included: ${line.excludedTravelers}` : '';
+  const muted = { font: 'Helvetica', size: 8.5, color: PDF_COLORS.muted, indent: 12 };
+  const detailText = [details.join(' · '), notIncluded].filter(Boolean).join('\n');
+  if (detailText) amountLine(doc, detailText, undefined, muted);
+  if (item.note) amountLine(doc, item.note, undefined, { ...muted, font: 'Helvetica-Oblique' });
+
+  line?.occupancyDetails?.forEach(block => {
+    const beds = [block.extraBedAdded && "extra bed", block.childrenSharingBedLabels && `sharing bed: ${block.childrenSharingBedLabels}`].filter(Boolean).join(', ');
+    amountLine(
+      doc,
+      `${block.numRooms} × ${block.roomTypeName}, ${block.nights} night${block.nights === 1 ? '' : 's'}${beds ? ` (${beds})` : ''}`
+        + (block.assignedTravelerLabels ? `\nGuests: ${block.assignedTravelerLabels}` : ''),
+      showCosts ? formatCurrency(block.totalRoomBlockCost, currency) : undefined,
+      { font: 'Helvetica', size: 8.5, color: PDF_COLORS.text, indent: 24 },
+    );
+  });
+}
+
+function drawDayPlan(doc: PdfDoc, { quote, variant }: QuotePdfInput) {
+  const { tripData, costSummary } = quote;
+  const lines = new Map(costSummary.detailedItems.map(line => [line.id, line]));
+  const start = parseISO(tripData.settings.startDate);
+  sectionHeading(doc, "Day-by-Day Plan");
+
+  for (let day = 1; day <= tripData.settings.numDays; day++) {
+    const dateLabel = isValid(start) ? ` · ${format(addDays(start, day - 1), 'EEEE, d MMMM yyyy')}` : '';
+    bandHeading(doc, `Day ${day}${dateLabel}`);
+
+    const items = tripData.days[day]?.items ?? [];
+    if (items.length === 0) {
+      doc.moveDown(0.35);
+      amountLine(doc, "At leisure.", undefined, { font: 'Helvetica-Oblique', size: 9, color: PDF_COLORS.muted });
+    }
+    items.forEach(item => drawItem(doc, item, lines.get(item.id), tripData.pax.currency, variant === 'withCosts'));
+    doc.moveDown(0.6);
+  }
+}
+
+/** The same rows as `CostBreakdownTable`: one per traveler, then the grand total. */
+function drawTravelerTotals(doc: PdfDoc, { quote, variant }: QuotePdfInput) {
+  const { tripData, costSummary } = quote;
+  const showCosts = variant === 'withCosts';
+  const currency = tripData.pax.currency;
+  ensureSpace(doc, 80 + tripData.travelers.length * 16);
+  sectionHeading(doc, showCosts ? "Price per Traveler" : "Travelers");
+
+  if (tripData.travelers.length === 0) {
+    amountLine(doc, "No travelers defined.", undefined, { font: 'Helvetica-Oblique', size: 9.5, color: PDF_COLORS.muted });
+  }
+  tripData.travelers.forEach(traveler => {
+    amountLine(doc, traveler.label, showCosts ? formatCurrency(costSummary.perPersonTotals[traveler.id] || 0, currency) : undefined,
+      { font: 'Helvetica', size: 10, color: PDF_COLORS.text });
+    doc.y += 3;
+  });
+  if (showCosts) {
+    doc.y += 2;
+    rule(doc, 5);
+    amountLine(doc, "Grand Total", formatCurrency(costSummary.grandTotal, currency), { font: 'Helvetica-Bold', size: 11.5, color: PDF_COLORS.text });
+  }
+}
+
+function drawTerms(doc: PdfDoc, { quote, variant }: QuotePdfInput) {
+  const frozenAt = quote.tripData.frozenExchangeRates?.frozenAt;
+  const terms = variant === 'withCosts'
+    ? [
+      `Prices are in ${quote.billingCurrency}${frozenAt ? `, converted at the exchange rates of ${format(parseISO(frozenAt), 'd MMMM yyyy')}` : ''}, and apply to this version of the quote only.`,
+      ...TERMS,
+    ]
+    : TERMS;
+  ensureSpace(doc, 60 + terms.length * 14);
+  sectionHeading(doc, "Terms & Conditions");
+  terms.forEach((term, index) => {
+    amountLine(doc, `${index + 1}. ${term}`, undefined, { font: 'Helvetica', size: 8.5, color: PDF_COLORS.muted });
+    doc.y += 2;
+  });
+}
+
+export function renderQuotePdf(input: QuotePdfInput): Promise<Buffer> {
+  const { quote, variant, letterhead } = input;
+  const info = {
+    title: `${variant === 'withCosts' ? 'Quote' : 'Itinerary'} ${quote.quotationRequestId} ${versionLabel(quote.version)}`,
+    author: letterhead.name,
+    // The issue date rather than now, so re-rendering a version gives the same document.
+    creationDate: parseISO(quote.createdAt),
+  };
+  return renderPdf(info, doc => {
+    letterheadHeader(doc, letterhead, variant === 'withCosts' ? "QUOTATION" : "ITINERARY", [
+      `Reference: ${quote.quotationRequestId}`,
+      `Quote ${versionLabel(quote.version)}`,
+      `Issued: ${format(parseISO(quote.createdAt), 'd MMMM yyyy')}`,
+    ]);
+    drawTripFacts(doc, input);
+    drawDayPlan(doc, input);
+    drawTravelerTotals(doc, input);
+    drawTerms(doc, input);
+    pageFooters(doc, (page, pageCount) => `${letterhead.name} · ${quote.quotationRequestId} ${versionLabel(quote.version)} · Page ${page} of ${pageCount}`);
+  });
+}
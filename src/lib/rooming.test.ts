@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { HotelDefinition, HotelItem, SelectedHotelRoomConfiguration, Traveler, TripData } from '@/types/itinerary';
+import { autoAssignRooms, getRoomingIssues, getRoomingLists, roomingListToCsv } from '@/lib/rooming';
+
+const hotel: HotelDefinition = {
+  id: 'H-1',
+  name: "Beach Resort",
+  countryId: 'TH',
+  province: "Phuket",
+  roomTypes: [
+    { id: 'DBL', name: "Double", maxAdults: 2, maxChildren: 0, maxChildrenSharingBed: 1, extraBedAllowed: true, seasonalPrices: [], characteristics: [] },
+    { id: 'SGL', name: "Single", maxAdults: 1, maxChildren: 0, seasonalPrices: [], characteristics: [] },
+  ],
+};
+
+const travelers: Traveler[] = [
+  { id: 'A1', label: "Adult 1", type: 'adult', fullName: "Jane Doe", dietaryNeeds: "Vegetarian" },
+  { id: 'A2', label: "Adult 2", type: 'adult' },
+  { id: 'A3', label: "Adult 3", type: 'adult' },
+  { id: 'C1', label: "Child 1", type: 'child' },
+];
+
+const block = (id: string, roomTypeDefinitionId: string, numRooms: number, assignedTravelerIds: string[] = [], addExtraBed?: boolean): SelectedHotelRoomConfiguration => ({
+  id, roomTypeDefinitionId, roomTypeNameCache: roomTypeDefinitionId === 'DBL' ? "Double" : "Single", numRooms, assignedTravelerIds, addExtraBed,
+});
+
+const stay = (selectedRooms: SelectedHotelRoomConfiguration[], changes: Partial<HotelItem> = {}): HotelItem => ({
+  id: 'stay-1', type: 'hotel', day: 1, checkoutDay: 3, name: "Beach Resort", hotelDefinitionId: 'H-1', excludedTravelerIds: [], selectedRooms, ...changes,
+});
+
+const codes = (item: HotelItem, onTrip: Traveler[] = travelers) => getRoomingIssues(item, hotel, onTrip).map(issue => issue.code);
+
+describe('autoAssignRooms', () => {
+  it('spreads the adults over the rooms and puts the children with them', () => {
+    const result = autoAssignRooms(stay([block('RB-1', 'DBL', 2)]), hotel, travelers);
+    expect(result).toEqual({ selectedRooms: [block('RB-1', 'DBL', 2, ['A1', 'A2', 'A3', 'C1'])], unplacedTravelerIds: [] });
+  });
+
+  it('spreads travelers across blocks of different room types', () => {
+    const result = autoAssignRooms(stay([block('RB-1', 'SGL', 1), block('RB-2', 'DBL', 1)]), hotel, travelers);
+    expect(result.selectedRooms.map(room => room.assignedTravelerIds)).toEqual([['A1'], ['A2', 'A3', 'C1']]);
+    expect(result.unplacedTravelerIds).toEqual([]);
+  });
+
+  it('uses an extra bed only when no regular bed is left, and reports who did not fit', () => {
+    const adults = travelers.slice(0, 3);
+    expect(autoAssignRooms(stay([block('RB-1', 'DBL', 1)]), hotel, adults).unplacedTravelerIds).toEqual(['A3']);
+    expect(autoAssignRooms(stay([block('RB-1', 'DBL', 1, [], true)]), hotel, adults).unplacedTravelerIds).toEqual([]);
+  });
+
+  it('gives children a bed of their own when the stay opts out of sharing', () => {
+    const result = autoAssignRooms(stay([block('RB-1', 'DBL', 1)], { childrenSharingBed: false }), hotel, [travelers[0], travelers[3]]);
+    expect(result.unplacedTravelerIds).toEqual(['C1']);
+  });
+
+  it('leaves out excluded travelers and blocks of room types the hotel no longer has', () => {
+    const result = autoAssignRooms(stay([block('RB-1', 'GONE', 1), block('RB-2', 'DBL', 1)], { excludedTravelerIds: ['A3', 'C1'] }), hotel, travelers);
+    expect(result.selectedRooms.map(room => room.assignedTravelerIds)).toEqual([[], ['A1', 'A2']]);
+    expect(result.unplacedTravelerIds).toEqual([]);
+  });
+});
+
+describe('getRoomingIssues', () => {
+  it('finds nothing wrong with a stay everyone fits', () => {
+    expect(getRoomingIssues(stay([block('RB-1', 'DBL', 2, ['A1', 'A2', 'A3', 'C1'])]), hotel, travelers)).toEqual([]);
+  });
+
+  it('has nothing to say about a stay without room blocks', () => {
+    expect(getRoomingIssues(stay([]), hotel, travelers)).toEqual([]);
+  });
+
+  it('flags travelers who are unknown, in two blocks, excluded but assigned or in no room', () => {
+    const item = stay([block('RB-1', 'DBL', 1, ['A1', 'A2', 'X9']), block('RB-2', 'DBL', 1, ['A2', 'A3'])], { excludedTravelerIds: ['A3'] });
+    const issues = getRoomingIssues(item, hotel, travelers);
+    expect(issues.map(issue => [issue.code, issue.travelerIds])).toEqual([
+      ['unknownTraveler', ['X9']],
+      ['assignedTwice', ['A2']],
+      ['excludedButAssigned', ['A3']],
+      ['unassigned', ['C1']],
+    ]);
+    expect(issues[1].reason).toBe("Adult 2 is assigned to 1 × Double and 1 × Double.");
+  });
+
+  it('flags blocks with nobody in them and blocks with more rooms than guests', () => {
+    expect(codes(stay([block('RB-1', 'DBL', 2, ['A1', 'A2', 'A3', 'C1']), block('RB-2', 'SGL', 1)]))).toEqual(['emptyRoom']);
+    expect(codes(stay([block('RB-1', 'SGL', 3, ['A1', 'A2'])]), travelers.slice(0, 2))).toEqual(['emptyRoom']);
+  });
+
+  it('flags a block over its capacity', () => {
+    const issues = getRoomingIssues(stay([block('RB-1', 'DBL', 1, ['A1', 'A2', 'A3'])]), hotel, travelers.slice(0, 3));
+    expect(issues).toMatchObject([{ code: 'overCapacity', roomBlockId: 'RB-1', travelerIds: ['A1', 'A2', 'A3'] }]);
+  });
+
+  it('flags an extra bed the room type does not take, or that nobody needs', () => {
+    expect(codes(stay([block('RB-1', 'SGL', 1, ['A1'], true)]), travelers.slice(0, 1))).toEqual(['extraBedNotAllowed']);
+    expect(codes(stay([block('RB-1', 'DBL', 1, ['A1', 'A2'], true)]), travelers.slice(0, 2))).toEqual(['extraBedUnused']);
+    expect(codes(stay([block('RB-1', 'DBL', 1, ['A1', 'A2', 'A3'], true)]), travelers.slice(0, 3))).toEqual([]);
+  });
+});
+
+describe('rooming lists', () => {
+  const tripData: TripData = {
+    id: 'ITN-1',
+    itineraryName: "Phuket Getaway",
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    settings: { numDays: 3, startDate: '2025-04-01', selectedCountries: ['TH'], selectedProvinces: [] },
+    pax: { adults: 3, children: 1, currency: 'THB' },
+    travelers,
+    days: {
+      1: { items: [stay([block('RB-1', 'DBL', 2, ['A1', 'A2', 'A3', 'C1'])], { note: "Late arrival, around \"11pm\"" })] },
+    },
+  };
+
+  it('lists every room of the stay with its guests', () => {
+    const [list] = getRoomingLists(tripData, [hotel]);
+    expect(list).toMatchObject({ hotelId: 'H-1', hotelName: "Beach Resort", issues: [] });
+    expect(list.rooms.map(room => [room.roomNumber, room.roomType, room.guests.map(guest => guest.id), room.nights])).toEqual([
+      [1, "Double", ['A1', 'A3'], 2],
+      [2, "Double", ['A2', 'C1'], 2],
+    ]);
+  });
+
+  it('writes the list as CSV, quoting cells that need it', () => {
+    const csv = roomingListToCsv(getRoomingLists(tripData, [hotel])[0]);
+    expect(csv.split('\r\n')).toEqual([
+      'Room,Room Type,Guests,Adults,Children,Extra Bed,Check-in,Check-out,Nights,Guest Needs,Notes',
+      '1,Double,Jane Doe; Adult 3,2,0,No,"Tue, 1 Apr 2025","Thu, 3 Apr 2025",2,Jane Doe: Vegetarian,"Late arrival, around ""11pm"""',
+      '2,Double,Adult 2; Child 1,1,1,No,"Tue, 1 Apr 2025","Thu, 3 Apr 2025",2,,"Late arrival, around ""11pm"""',
+      '',
+    ]);
+  });
+
+  it('keeps names and notes from running as spreadsheet formulas and quotes carriage returns', () => {
+    const risky: TripData = {
+      ...tripData,
+      travelers: [{ ...travelers[0], fullName: "=HYPERLINK(\"http://x\")" }, { ...travelers[1], fullName: "@Jo" }],
+      days: { 1: { items: [stay([block('RB-1', 'DBL', 1, ['A1', 'A2'])], { note: "-1 late\rcheck-in" })] } },
+    };
+    const [, row] = roomingListToCsv(getRoomingLists(risky, [hotel])[0]).split('\r\n');
+    expect(row).toBe(`1,Double,"'=HYPERLINK(""http://x""); @Jo",2,0,No,"Tue, 1 Apr 2025","Thu, 3 Apr 2025",2,"'=HYPERLINK(""http://x""): Vegetarian","'-1 late\rcheck-in"`);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Who sleeps in which room of a stay. A room block's `assignedTravelerIds` are
+ * checked against the stay's travelers, the block's `numRooms` and the room type's capacity and
+ * extra-bed rule. The auto-assign helper spreads the stay's adults evenly over its rooms and then
+ * puts the children with them, within each room type's limits. Rooming lists, one per hotel, give
+ * the property every room of every stay with its guests, as CSV or as a PDF to print.
+ *
+ * @bangla একটি থাকার কোন রুমে কে ঘুমান। একটি রুম ব্লকের `assignedTravelerIds` থাকার ভ্রমণকারী, ব্লকের
+ * `numRooms` এবং রুমের প্রকারের ধারণক্ষমতা ও অতিরিক্ত বিছানার নিয়মের সাথে যাচাই করা হয়। স্বয়ংক্রিয় বরাদ্দ
+ * সহায়কটি থাকার প্রাপ্তবয়স্কদের তার রুমগুলিতে সমানভাবে ভাগ করে এবং তারপর শিশুদের তাদের সাথে রাখে, প্রতিটি রুমের
+ * প্রকারের সীমার মধ্যে। রুমিং তালিকা, প্রতি হোটেলে একটি, প্রপার্টিকে প্রতিটি থাকার প্রতিটি রুম তার অতিথিসহ দেয়,
+ * CSV বা মুদ্রণের জন্য PDF হিসাবে।
+ */
+import type {
+  HotelDefinition, HotelItem, HotelRoomTypeDefinition, RoomingIssue, RoomingIssueCode, SelectedHotelRoomConfiguration, Traveler, TripData,
+} from '@/types/itinerary';
+import { checkRoomOccupancy } from '@/lib/hotel-pricing';
+import { dayLabel, plural } from '@/lib/booking-details';
+import { travelerName, travelerNeeds } from '@/lib/travelers';
+
+interface Room {
+  blockId: string;
+  maxAdults: number;
+  maxChildren: number;
+  hasExtraBed: boolean;
+  adultIds: string[];
+  childIds: string[];
+  extraBedUsed: boolean;
+}
+
+const occupantsOf = (room: Room) => room.adultIds.length + room.childIds.length;
+
+function createRooms(block: SelectedHotelRoomConfiguration, roomType: HotelRoomTypeDefinition, childrenSharingBed: boolean): Room[] {
+  return Array.from({ length: Math.max(1, block.numRooms) }, () => ({
+    blockId: block.id,
+    maxAdults: roomType.maxAdults ?? Infinity,
+    maxChildren: (roomType.maxChildren ?? Infinity) + (childrenSharingBed ? roomType.maxChildrenSharingBed || 0 : 0),
+    hasExtraBed: !!(block.addExtraBed && roomType.extraBedAllowed),
+    adultIds: [],
+    childIds: [],
+    extraBedUsed: false,
+  }));
+}
+
+/**
+ * Puts the traveler in the emptiest room with a bed for them, taking an extra bed only when no
+ * room has a regular one; children go to rooms with an adult first. False when nothing is free.
+ */
+function placeTraveler(rooms: Room[], traveler: Traveler): boolean {
+  const isAdult = traveler.type === 'adult';
+  const hasBed = (room: Room) => (isAdult ? room.adultIds.length < room.maxAdults : room.childIds.length < room.maxChildren);
+  const candidates = rooms
+    .filter(room => hasBed(room) || (room.hasExtraBed && !room.extraBedUsed))
+    .map((room, index) => ({ room, index }))
+    .sort((a, b) =>
+      Number(!hasBed(a.room)) - Number(!hasBed(b.room))
+      || (isAdult ? 0 : Number(a.room.adultIds.length === 0) - Number(b.room.adultIds.length === 0))
+      || occupantsOf(a.room) - occupantsOf(b.room)
+      || a.index - b.index);
+  const room = candidates[0]?.room;
+  if (!room) return false;
+  if (!hasBed(room)) room.extraBedUsed = true;
+  (isAdult ? room.adultIds : room.childIds).push(traveler.id);
+  return true;
+}
+
+/** Places the travelers, adults first; returns those left without a bed. */
+function fillRooms(rooms: Room[], travelers: Traveler[]): Traveler[] {
+  const ordered = [...travelers.filter(t => t.type === 'adult'), ...travelers.filter(t => t.type !== 'adult')];
+  return ordered.filter(traveler => !placeTraveler(rooms, traveler));
+}
+
+/**
+ * New room blocks for the stay with its travelers spread over them by capacity, and the travelers
+ * that did not fit. Blocks whose room type is missing from the hotel are left empty.
+ */
+export function autoAssignRooms(
+  item: HotelItem, hotel: HotelDefinition | undefined, travelers: Traveler[],
+): { selectedRooms: SelectedHotelRoomConfiguration[]; unplacedTravelerIds: string[] } {
+  const blocks = item.selectedRooms || [];
+  const rooms = blocks.flatMap(block => {
+    const roomType = hotel?.roomTypes.find(type => type.id === block.roomTypeDefinitionId);
+    return roomType ? createRooms(block, roomType, item.childrenSharingBed !== false) : [];
+  });
+  const participants = travelers.filter(traveler => !item.excludedTravelerIds.includes(traveler.id));
+  const unplaced = fillRooms(rooms, participants);
+  return {
+    selectedRooms: blocks.map(block => ({
+      ...block,
+      assignedTravelerIds: participants
+        .filter(traveler => rooms.some(room => room.blockId === block.id && [...room.adultIds, ...room.childIds].includes(traveler.id)))
+        .map(traveler => traveler.id),
+    })),
+    unplacedTravelerIds: unplaced.map(traveler => traveler.id),
+  };
+}
+
+/** The block's assigned travelers room by room; any who do not fit join the emptiest room. */
+export function splitIntoRooms(
+  block: SelectedHotelRoomConfiguration, roomType: HotelRoomTypeDefinition | undefined, travelers: Traveler[], childrenSharingBed: boolean,
+): Traveler[][] {
+  const assigned = travelers.filter(traveler => block.assignedTravelerIds.includes(traveler.id));
+  const rooms = createRooms(block, roomType ?? { id: '', name: '', seasonalPrices: [], characteristics: [] }, childrenSharingBed);
+  for (const traveler of fillRooms(rooms, assigned)) {
+    const emptiest = rooms.reduce((best, room) => (occupantsOf(room) < occupantsOf(best) ? room : best));
+    (traveler.type === 'adult' ? emptiest.adultIds : emptiest.childIds).push(traveler.id);
+  }
+  return rooms.map(room => [...room.adultIds, ...room.childIds].map(id => assigned.find(traveler => traveler.id === id)!));
+}
+
+export function getRoomingIssues(item: HotelItem, hotel: HotelDefinition | undefined, travelers: Traveler[]): RoomingIssue[] {
+  const blocks = item.selectedRooms || [];
+  if (blocks.length === 0) return [];
+  const issues: RoomingIssue[] = [];
+  const add = (code: RoomingIssueCode, travelerIds: string[], reason: string, roomBlockId?: string) => issues.push({ code, roomBlockId, travelerIds, reason });
+  const names = new Map(travelers.map(traveler => [traveler.id, travelerName(traveler)]));
+  const labels = (ids: string[]) => ids.map(id => names.get(id) ?? id).join(', ');
+  const blockName = (block: SelectedHotelRoomConfiguration) => `${block.numRooms} × ${block.roomTypeNameCache}`;
+
+  const unknown = [...new Set(blocks.flatMap(block => block.assignedTravelerIds))].filter(id => !travelers.some(traveler => traveler.id === id));
+  if (unknown.length > 0) add('unknownTraveler', unknown, `Assigned but no longer on the trip: ${unknown.join(', ')}.`);
+
+  for (const traveler of travelers) {
+    const inBlocks = blocks.filter(block => block.assignedTravelerIds.includes(traveler.id));
+    const excluded = item.excludedTravelerIds.includes(traveler.id);
+    if (inBlocks.length > 1) add('assignedTwice', [traveler.id], `${travelerName(traveler)} is assigned to ${inBlocks.map(blockName).join(' and ')}.`);
+    if (excluded && inBlocks.length > 0) add('excludedButAssigned', [traveler.id], `${travelerName(traveler)} is excluded from this stay but assigned to ${blockName(inBlocks[0])}.`);
+  }
+  const unassigned = travelers.filter(traveler => !item.excludedTravelerIds.includes(traveler.id)
+    && !blocks.some(block => block.assignedTravelerIds.includes(traveler.id))).map(traveler => traveler.id);
+  if (unassigned.length > 0) add('unassigned', unassigned, `Not in any room: ${labels(unassigned)}.`);
+
+  for (const block of blocks) {
+    const assigned = block.assignedTravelerIds.filter(id => travelers.some(traveler => traveler.id === id));
+    if (assigned.length === 0 && blocks.some(other => other.assignedTravelerIds.length > 0)) {
+      add('emptyRoom', [], `Nobody is assigned to ${blockName(block)}.`, block.id);
+    } else if (assigned.length > 0 && assigned.length < block.numRooms) {
+      add('emptyRoom', assigned, `${blockName(block)} for ${plural(assigned.length, 'traveler')} leaves a room empty.`, block.id);
+    }
+    const roomType = hotel?.roomTypes.find(type => type.id === block.roomTypeDefinitionId);
+    if (!roomType) continue;
+    const childrenSharingBed = item.childrenSharingBed !== false;
+    const occupancy = checkRoomOccupancy(roomType, block, travelers, childrenSharingBed);
+    if (occupancy.error) add('overCapacity', assigned, occupancy.error, block.id);
+    if (block.addExtraBed && !roomType.extraBedAllowed) {
+      add('extraBedNotAllowed', [], `${roomType.name} does not take an extra bed, so the one on ${blockName(block)} is neither priced nor usable.`, block.id);
+    } else if (block.addExtraBed && assigned.length > 0 && !checkRoomOccupancy(roomType, { ...block, addExtraBed: false }, travelers, childrenSharingBed).error) {
+      add('extraBedUnused', assigned, `${labels(assigned)} fit ${blockName(block)} without the extra bed.`, block.id);
+    }
+  }
+  return issues;
+}
+
+export interface RoomingListRoom {
+  roomNumber: number;
+  roomType: string;
+  guests: Traveler[];
+  extraBed: boolean;
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  note?: string;
+}
+
+export interface RoomingList {
+  hotelId: string;
+  hotelName: string;
+  rooms: RoomingListRoom[];
+  issues: RoomingIssue[];
+}
+
+/** One rooming list per hotel of the trip, its stays in date order; stays without a hotel are left out. */
+export function getRoomingLists(tripData: TripData, allHotelDefinitions: HotelDefinition[]): RoomingList[] {
+  const stays = Object.values(tripData.days)
+    .flatMap(day => day.items)
+    .filter((item): item is HotelItem => item.type === 'hotel' && !!item.hotelDefinitionId)
+    .sort((a, b) => a.day - b.day);
+  const hotelIds = [...new Set(stays.map(stay => stay.hotelDefinitionId))];
+
+  return hotelIds.map(hotelId => {
+    const hotel = allHotelDefinitions.find(definition => definition.id === hotelId);
+    const hotelStays = stays.filter(stay => stay.hotelDefinitionId === hotelId);
+    const rooms: RoomingListRoom[] = [];
+    for (const stay of hotelStays) {
+      for (const block of stay.selectedRooms || []) {
+        const roomType = hotel?.roomTypes.find(type => type.id === block.roomTypeDefinitionId);
+        for (const guests of splitIntoRooms(block, roomType, tripData.travelers, stay.childrenSharingBed !== false)) {
+          rooms.push({
+            roomNumber: rooms.length + 1,
+            roomType: roomType?.name ?? block.roomTypeNameCache,
+            guests,
+            extraBed: !!(block.addExtraBed && roomType?.extraBedAllowed),
+            checkIn: dayLabel(tripData, stay.day),
+            checkOut: dayLabel(tripData, stay.checkoutDay),
+            nights: Math.max(0, stay.checkoutDay - stay.day),
+            note: stay.note,
+          });
+        }
+      }
+    }
+    return {
+      hotelId,
+      hotelName: hotel?.name ?? hotelStays[0].name,
+      rooms,
+      issues: hotelStays.flatMap(stay => getRoomingIssues(stay, hotel, tripData.travelers)),
+    };
+  });
+}
+
+// Text starting like a formula gets a leading apostrophe, so a name or note cannot run as one
+// when the hotel opens the file in a spreadsheet.
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function roomingListToCsv(list: RoomingList): string {
+  const header = ['Room', 'Room Type', 'Guests', 'Adults', 'Children', 'Extra Bed', 'Check-in', 'Check-out', 'Nights', 'Guest Needs', 'Notes'];
+  const rows = list.rooms.map(room => [
+    room.roomNumber,
+    room.roomType,
+    room.guests.map(travelerName).join('; '),
+    room.guests.filter(guest => guest.type === 'adult').length,
+    room.guests.filter(guest => guest.type !== 'adult').length,
+    room.extraBed ? 'Yes' : 'No',
+    room.checkIn,
+    room.checkOut,
+    room.nights,
+    travelerNeeds(room.guests).join('; '),
+    room.note ?? '',
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { CostSummary, TripData } from '@/types/itinerary';
+import type { MarkupRule } from '@/types/pricing';
+import { applySellPricing, findMarkupRule, toSellPriceCostSummary } from '@/lib/sell-pricing';
+
+const rule = (id: string, markupPercentage: number, criteria: Partial<MarkupRule> = {}): MarkupRule => ({
+  id, name: id, markupPercentage, isActive: true, ...criteria,
+});
+
+const tripData: TripData = {
+  id: 'ITN-1',
+  itineraryName: "Phuket Getaway",
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  settings: { numDays: 3, startDate: '2025-04-01', selectedCountries: ['TH'], selectedProvinces: [] },
+  pax: { adults: 2, children: 0, currency: 'THB' },
+  travelers: [{ id: 'A1', label: "Adult 1", type: 'adult' }, { id: 'A2', label: "Adult 2", type: 'adult' }],
+  days: {
+    1: { items: [{ id: 'act-1', type: 'activity', day: 1, name: "Island Tour", excludedTravelerIds: [], adultPrice: 500 }] },
+    3: { items: [{ id: 'meal-1', type: 'meal', day: 3, name: "Dinner", excludedTravelerIds: ['A2'], adultMealPrice: 300, totalMeals: 1 }] },
+  },
+};
+
+const costSummary: CostSummary = {
+  grandTotal: 1300,
+  perPersonTotals: { A1: 800, A2: 500 },
+  detailedItems: [
+    {
+      id: 'act-1', type: "Activities", day: 1, name: "Island Tour", configurationDetails: "", excludedTravelers: "None",
+      adultCost: 500, childCost: 0, totalCost: 1000, travelerCosts: { A1: 500, A2: 500 },
+    },
+    {
+      id: 'meal-1', type: "Meals", day: 3, name: "Dinner", configurationDetails: "", excludedTravelers: "Adult 2",
+      adultCost: 300, childCost: 0, totalCost: 300, travelerCosts: { A1: 300 },
+    },
+  ],
+};
+
+describe('findMarkupRule', () => {
+  const target = { agencyId: 'AG1', category: 'hotel' as const, countryId: 'TH', serviceDate: '2025-04-01' };
+
+  it('prefers the agency, then the category, then the country, then the dates', () => {
+    const rules = [
+      rule('default', 10),
+      rule('dated', 11, { validFrom: '2025-03-01', validTo: '2025-05-01' }),
+      rule('country', 12, { countryId: 'TH' }),
+      rule('category', 13, { category: 'hotel' }),
+      rule('agency', 14, { agencyId: 'AG1' }),
+    ];
+    expect(findMarkupRule(rules, target)?.id).toBe('agency');
+    expect(findMarkupRule(rules.slice(0, 4), target)?.id).toBe('category');
+    expect(findMarkupRule(rules.slice(0, 3), target)?.id).toBe('country');
+    expect(findMarkupRule(rules.slice(0, 2), target)?.id).toBe('dated');
+  });
+
+  it('adds up criteria, so a rule matching on more of them wins', () => {
+    const rules = [rule('category', 13, { category: 'hotel' }), rule('country-and-dates', 15, { countryId: 'TH', validFrom: '2025-04-01' })];
+    expect(findMarkupRule(rules, target)?.id).toBe('category');
+    expect(findMarkupRule([...rules, rule('category-and-country', 16, { category: 'hotel', countryId: 'TH' })], target)?.id).toBe('category-and-country');
+  });
+
+  it('keeps the first of equally specific rules', () => {
+    expect(findMarkupRule([rule('first', 10), rule('second', 20)], target)?.id).toBe('first');
+  });
+
+  it('skips inactive rules, other agencies and rules outside their dates', () => {
+    expect(findMarkupRule([rule('inactive', 10, { isActive: false })], target)).toBeUndefined();
+    expect(findMarkupRule([rule('other-agency', 10, { agencyId: 'AG2' })], target)).toBeUndefined();
+    expect(findMarkupRule([rule('later', 10, { validFrom: '2025-04-02' })], target)).toBeUndefined();
+    expect(findMarkupRule([rule('earlier', 10, { validTo: '2025-03-31' })], target)).toBeUndefined();
+    expect(findMarkupRule([rule('dated', 10, { validFrom: '2025-01-01' })], { ...target, serviceDate: undefined })).toBeUndefined();
+  });
+});
+
+describe('applySellPricing', () => {
+  it('marks each line up by its own rule and takes the commission out of the sell price', () => {
+    const rules = [rule('default', 10), rule('meals', 20, { category: 'meal', validFrom: '2025-04-03', validTo: '2025-04-03' })];
+    const pricing = applySellPricing(costSummary, tripData, { rules, agencyId: 'AG1', commissionPercentage: 5 });
+
+    expect(pricing.items).toEqual([
+      { itemId: 'act-1', markupRuleId: 'default', markupPercentage: 10, adultSell: 550, childSell: 0, cost: 1000, sell: 1100, commission: 55, margin: 45 },
+      { itemId: 'meal-1', markupRuleId: 'meals', markupPercentage: 20, adultSell: 360, childSell: 0, cost: 300, sell: 360, commission: 18, margin: 42 },
+    ]);
+    expect(pricing.totals).toEqual({ cost: 1300, sell: 1460, commission: 73, margin: 87 });
+    expect(pricing.perTraveler).toEqual({
+      A1: { cost: 800, sell: 910, commission: 45.5, margin: 64.5 },
+      A2: { cost: 500, sell: 550, commission: 27.5, margin: 22.5 },
+    });
+  });
+
+  it('sells at cost when no rule matches', () => {
+    const pricing = applySellPricing(costSummary, tripData, { rules: [], commissionPercentage: 0 });
+    expect(pricing.totals).toEqual({ cost: 1300, sell: 1300, commission: 0, margin: 0 });
+    expect(pricing.items.every(item => item.markupRuleId === undefined)).toBe(true);
+  });
+});
+
+describe('toSellPriceCostSummary', () => {
+  it('replaces every amount with its sell price', () => {
+    const pricing = applySellPricing(costSummary, tripData, { rules: [rule('default', 10)], commissionPercentage: 5 });
+    const sold = toSellPriceCostSummary(costSummary, pricing);
+
+    expect(sold.grandTotal).toBe(1430);
+    expect(sold.perPersonTotals).toEqual({ A1: 880, A2: 550 });
+    expect(sold.detailedItems[0]).toMatchObject({ adultCost: 550, totalCost: 1100, travelerCosts: { A1: 550, A2: 550 } });
+    expect(sold.detailedItems[1]).toMatchObject({ adultCost: 330, totalCost: 330, travelerCosts: { A1: 330 } });
+  });
+});
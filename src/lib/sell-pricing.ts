@@ -0,0 +1,147 @@
+/**
+ * @fileoverview The sell-price engine. It runs on top of the net `CostSummary` from
+ * `calculateAllCosts`: each summary line gets the markup of the most specific active
+ * `MarkupRule` for its agency, service category, country and service date, and the agency's
+ * commission is taken out of the sell price. The result reports cost, sell price, commission and
+ * margin per line and per traveler. `toSellPriceCostSummary` turns a cost summary into the one
+ * clients see, carrying sell prices only.
+ *
+ * @bangla বিক্রয় মূল্য ইঞ্জিন। এটি `calculateAllCosts`-এর নেট `CostSummary`-এর উপর চলে: প্রতিটি
+ * সারাংশ লাইন তার এজেন্সি, পরিষেবা বিভাগ, দেশ এবং পরিষেবার তারিখের জন্য সবচেয়ে নির্দিষ্ট সক্রিয়
+ * `MarkupRule`-এর মার্কআপ পায়, এবং এজেন্সির কমিশন বিক্রয় মূল্য থেকে নেওয়া হয়। ফলাফলটি প্রতি লাইন ও
+ * প্রতি ভ্রমণকারীর খরচ, বিক্রয় মূল্য, কমিশন এবং মার্জিন দেখায়। `toSellPriceCostSummary` একটি খরচের
+ * সারাংশকে ক্লায়েন্টদের দেখা সারাংশে পরিণত করে, যেখানে শুধুমাত্র বিক্রয় মূল্য থাকে।
+ */
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import type { CostSummary, ItineraryItem, TripData } from '@/types/itinerary';
+import type { MarkupRule, PriceBreakdown, PricedSummaryItem, SellPriceSummary } from '@/types/pricing';
+
+export interface SellPricingContext {
+  rules: MarkupRule[];
+  agencyId?: string;
+  commissionPercentage: number;
+}
+
+interface MarkupTarget {
+  agencyId?: string;
+  category: ItineraryItem['type'];
+  countryId?: string;
+  serviceDate?: string; // yyyy-MM-dd
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const ZERO_BREAKDOWN: PriceBreakdown = { cost: 0, sell: 0, commission: 0, margin: 0 };
+
+// An agency-specific rule beats a category rule, which beats a country rule, which beats a
+// date-limited rule; criteria add up, so the rule matching on the most of them wins.
+const specificity = (rule: MarkupRule) =>
+  (rule.agencyId ? 8 : 0) + (rule.category ? 4 : 0) + (rule.countryId ? 2 : 0) + (rule.validFrom || rule.validTo ? 1 : 0);
+
+const matches = (rule: MarkupRule, target: MarkupTarget) => {
+  if (!rule.isActive) return false;
+  if (rule.agencyId && rule.agencyId !== target.agencyId) return false;
+  if (rule.category && rule.category !== target.category) return false;
+  if (rule.countryId && rule.countryId !== target.countryId) return false;
+  if (rule.validFrom || rule.validTo) {
+    if (!target.serviceDate) return false;
+    if (rule.validFrom && target.serviceDate < rule.validFrom) return false;
+    if (rule.validTo && target.serviceDate > rule.validTo) return false;
+  }
+  return true;
+};
+
+/** The most specific active rule for `target`; among equally specific rules the first one in `rules` wins. */
+export function findMarkupRule(rules: MarkupRule[], target: MarkupTarget): MarkupRule | undefined {
+  let best: MarkupRule | undefined;
+  for (const rule of rules) {
+    if (matches(rule, target) && (!best || specificity(rule) > specificity(best))) best = rule;
+  }
+  return best;
+}
+
+function priceAmount(cost: number, markupPercentage: number, commissionPercentage: number): PriceBreakdown {
+  const sell = roundMoney(cost * (1 + markupPercentage / 100));
+  const commission = roundMoney(sell * commissionPercentage / 100);
+  return { cost, sell, commission, margin: roundMoney(sell - commission - cost) };
+}
+
+const addBreakdowns = (a: PriceBreakdown, b: PriceBreakdown): PriceBreakdown => ({
+  cost: roundMoney(a.cost + b.cost),
+  sell: roundMoney(a.sell + b.sell),
+  commission: roundMoney(a.commission + b.commission),
+  margin: roundMoney(a.margin + b.margin),
+});
+
+const getServiceDate = (startDate: string, day: number): string | undefined => {
+  const start = parseISO(startDate);
+  return isValid(start) ? format(addDays(start, day - 1), 'yyyy-MM-dd') : undefined;
+};
+
+export function applySellPricing(summary: CostSummary, tripData: TripData, context: SellPricingContext): SellPriceSummary {
+  const itemsById = new Map<string, ItineraryItem>();
+  Object.values(tripData.days).forEach(day => day.items.forEach(item => itemsById.set(item.id, item)));
+  const singleCountryId = tripData.settings.selectedCountries.length === 1 ? tripData.settings.selectedCountries[0] : undefined;
+
+  const perTraveler: SellPriceSummary['perTraveler'] = {};
+  tripData.travelers.forEach(traveler => { perTraveler[traveler.id] = ZERO_BREAKDOWN; });
+  let totals = ZERO_BREAKDOWN;
+
+  const items = summary.detailedItems.map((summaryItem): PricedSummaryItem => {
+    const item = itemsById.get(summaryItem.id);
+    const rule = item && findMarkupRule(context.rules, {
+      agencyId: context.agencyId,
+      category: item.type,
+      countryId: item.countryId || singleCountryId,
+      serviceDate: getServiceDate(tripData.settings.startDate, item.day),
+    });
+    const markupPercentage = rule?.markupPercentage ?? 0;
+    const breakdown = priceAmount(summaryItem.totalCost, markupPercentage, context.commissionPercentage);
+
+    Object.entries(summaryItem.travelerCosts ?? {}).forEach(([travelerId, cost]) => {
+      perTraveler[travelerId] = addBreakdowns(perTraveler[travelerId] ?? ZERO_BREAKDOWN, priceAmount(cost, markupPercentage, context.commissionPercentage));
+    });
+    totals = addBreakdowns(totals, breakdown);
+
+    return {
+      itemId: summaryItem.id,
+      markupRuleId: rule?.id,
+      markupPercentage,
+      adultSell: roundMoney(summaryItem.adultCost * (1 + markupPercentage / 100)),
+      childSell: roundMoney(summaryItem.childCost * (1 + markupPercentage / 100)),
+      ...breakdown,
+    };
+  });
+
+  return { commissionPercentage: context.commissionPercentage, items, perTraveler, totals };
+}
+
+/**
+ * The cost summary as the client sees it: every amount, including hotel room blocks and
+ * per-traveler totals, is replaced by its sell price, so no net cost is left in it.
+ */
+export function toSellPriceCostSummary(summary: CostSummary, pricing: SellPriceSummary): CostSummary {
+  const pricedById = new Map(pricing.items.map(priced => [priced.itemId, priced]));
+  const factorFor = (itemId: string) => 1 + (pricedById.get(itemId)?.markupPercentage ?? 0) / 100;
+
+  return {
+    grandTotal: pricing.totals.sell,
+    perPersonTotals: Object.fromEntries(Object.keys(summary.perPersonTotals).map(id => [id, pricing.perTraveler[id]?.sell ?? 0])),
+    detailedItems: summary.detailedItems.map(item => {
+      const priced = pricedById.get(item.id);
+      const factor = factorFor(item.id);
+      return {
+        ...item,
+        adultCost: priced?.adultSell ?? item.adultCost,
+        childCost: priced?.childSell ?? item.childCost,
+        totalCost: priced?.sell ?? item.totalCost,
+        travelerCosts: item.travelerCosts
+          ? Object.fromEntries(Object.entries(item.travelerCosts).map(([id, cost]) => [id, roundMoney(cost * factor)]))
+          : undefined,
+        occupancyDetails: item.occupancyDetails?.map(occ => ({ ...occ, totalRoomBlockCost: roundMoney(occ.totalRoomBlockCost * factor) })),
+      };
+    }),
+    pricingIssues: summary.pricingIssues,
+    conversionRates: summary.conversionRates,
+  };
+}
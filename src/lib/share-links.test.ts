@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CostSummary, TripData } from '@/types/itinerary';
+import type { QuotationRequest, QuoteAcceptance } from '@/types/quotation';
+import { getResponseState, signShareToken, toSharedItinerary, verifyShareToken } from '@/lib/share-links';
+
+vi.mock('@/lib/db/share-links', () => ({ getShareLink: vi.fn() }));
+
+const EXPIRES_AT = new Date('2025-03-01T00:00:00.000Z');
+const BEFORE_EXPIRY = new Date('2025-02-01T00:00:00.000Z');
+
+const tripData: TripData = {
+  id: 'ITN-1',
+  itineraryName: "Phuket Getaway",
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  settings: { numDays: 2, startDate: '2025-04-01', selectedCountries: ['TH'], selectedProvinces: [] },
+  pax: { adults: 1, children: 0, currency: 'THB' },
+  travelers: [{ id: 'A1', label: "Adult 1", type: 'adult', fullName: "Jane Doe", passportNumber: "X1234567", passportExpiry: '2030-01-01', dateOfBirth: '1990-05-05' }],
+  days: {
+    1: { items: [{ id: 'act-1', type: 'activity', day: 1, name: "Island Tour", excludedTravelerIds: [], adultPrice: 1500, originalCost: 1500, selectedServicePriceId: 'SP-1' }] },
+  },
+  adminRevisionNotes: "Net rate agreed by phone",
+  frozenExchangeRates: { frozenAt: '2025-01-01T00:00:00.000Z', conversions: {} },
+};
+
+const costSummary: CostSummary = {
+  grandTotal: 1800,
+  perPersonTotals: { A1: 1800 },
+  detailedItems: [{
+    id: 'act-1', type: "Activities", day: 1, name: "Island Tour", configurationDetails: "Net 1500 THB",
+    excludedTravelers: "None", adultCost: 1800, childCost: 0, totalCost: 1800, travelerCosts: { A1: 1800 },
+  }],
+  pricingIssues: [],
+  conversionRates: {},
+};
+
+const link = (scope: 'itinerary' | 'withCosts') => ({ scope, quoteVersion: 1, expiresAt: EXPIRES_AT.toISOString(), countryNames: { TH: "Thailand" } });
+
+describe('share tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('SHARE_LINK_SECRET', 'test-secret');
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('verifies a token it signed until it expires', () => {
+    const token = signShareToken('LINK-1', EXPIRES_AT);
+    expect(verifyShareToken(token, BEFORE_EXPIRY)).toEqual({ valid: true, linkId: 'LINK-1', expiresAt: EXPIRES_AT });
+    expect(verifyShareToken(token, EXPIRES_AT)).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('refuses a token whose link id or expiry was changed', () => {
+    const [linkId, expiry, signature] = signShareToken('LINK-1', EXPIRES_AT).split('.');
+    expect(verifyShareToken(`LINK-2.${expiry}.${signature}`, BEFORE_EXPIRY)).toEqual({ valid: false, reason: 'malformed' });
+    expect(verifyShareToken(`${linkId}.${Number(expiry) + 86400}.${signature}`, BEFORE_EXPIRY)).toEqual({ valid: false, reason: 'malformed' });
+  });
+
+  it('refuses a token signed with another secret, even once expired', () => {
+    const token = signShareToken('LINK-1', EXPIRES_AT);
+    vi.stubEnv('SHARE_LINK_SECRET', 'another-secret');
+    expect(verifyShareToken(token, BEFORE_EXPIRY)).toEqual({ valid: false, reason: 'malformed' });
+    expect(verifyShareToken(token, new Date('2026-01-01T00:00:00.000Z'))).toEqual({ valid: false, reason: 'malformed' });
+  });
+
+  it.each(['', 'LINK-1', 'LINK-1.abc.sig', 'LINK-1.1740787200', 'LINK-1.1740787200.sig.extra'])('refuses the malformed token "%s"', token => {
+    expect(verifyShareToken(token, BEFORE_EXPIRY)).toEqual({ valid: false, reason: 'malformed' });
+  });
+
+  it('falls back to NEXTAUTH_SECRET and refuses to sign without any secret', () => {
+    vi.stubEnv('SHARE_LINK_SECRET', '');
+    vi.stubEnv('NEXTAUTH_SECRET', 'auth-secret');
+    expect(verifyShareToken(signShareToken('LINK-1', EXPIRES_AT), BEFORE_EXPIRY).valid).toBe(true);
+    vi.stubEnv('NEXTAUTH_SECRET', '');
+    expect(() => signShareToken('LINK-1', EXPIRES_AT)).toThrow(/SHARE_LINK_SECRET/);
+  });
+});
+
+describe('toSharedItinerary', () => {
+  it('never passes on net prices, admin notes, frozen rates or identity documents', () => {
+    const shared = toSharedItinerary(link('withCosts'), { tripData, costSummary });
+    const [item] = shared.tripData.days[1].items;
+    expect(item).toMatchObject({ adultPrice: 0, originalCost: undefined, selectedServicePriceId: undefined });
+    expect(shared.tripData.adminRevisionNotes).toBeUndefined();
+    expect(shared.tripData.frozenExchangeRates).toBeUndefined();
+    expect(shared.tripData.travelers[0]).toEqual({ id: 'A1', label: "Adult 1", type: 'adult', fullName: "Jane Doe" });
+    expect(shared.costSummary.pricingIssues).toBeUndefined();
+    expect(shared.costSummary.conversionRates).toBeUndefined();
+    expect(shared.costSummary.detailedItems[0].configurationDetails).not.toContain("Net");
+  });
+
+  it('shows the sell prices when the scope includes costs', () => {
+    const shared = toSharedItinerary(link('withCosts'), { tripData, costSummary });
+    expect(shared.showCosts).toBe(true);
+    expect(shared.costSummary.grandTotal).toBe(1800);
+    expect(shared.costSummary.detailedItems[0].totalCost).toBe(1800);
+  });
+
+  it('drops every amount from an itinerary-only link', () => {
+    const shared = toSharedItinerary(link('itinerary'), { tripData, costSummary });
+    expect(shared.showCosts).toBe(false);
+    expect(shared.costSummary.grandTotal).toBe(0);
+    expect(shared.costSummary.perPersonTotals).toEqual({});
+    expect(shared.costSummary.detailedItems[0]).toMatchObject({ name: "Island Tour", adultCost: 0, totalCost: 0, travelerCosts: undefined });
+  });
+});
+
+describe('getResponseState', () => {
+  const request = (changes: Partial<QuotationRequest> = {}): QuotationRequest => ({
+    id: 'AG1-250101-0001',
+    requestDate: '2025-01-01T00:00:00.000Z',
+    clientInfo: { adults: 1, children: 0 },
+    tripDetails: { preferredCountryIds: ['TH'], budgetCurrency: 'USD' },
+    status: "Quoted: Waiting for TA Feedback",
+    version: 1,
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...changes,
+  });
+
+  it('lets the client answer the latest version while it awaits an answer', () => {
+    expect(getResponseState({ quoteVersion: 1 }, request(), null)).toEqual({ canRespond: true });
+  });
+
+  it('refuses an older version, a request that has moved on, or one that is gone', () => {
+    expect(getResponseState({ quoteVersion: 1 }, request({ version: 1.1, status: "Quoted: Re-quoted" }), null).canRespond).toBe(false);
+    expect(getResponseState({ quoteVersion: 1 }, request({ status: "Confirmed" }), null).canRespond).toBe(false);
+    expect(getResponseState({ quoteVersion: 1 }, null, null).canRespond).toBe(false);
+  });
+
+  it('shows who accepted once the quote has been accepted', () => {
+    const acceptance: QuoteAcceptance = {
+      id: 'ACC-1', quotationRequestId: 'AG1-250101-0001', quoteVersion: 1, signerName: "Jane Doe", signature: "Jane Doe",
+      billingCurrency: 'USD', grandTotal: 1800, acceptedAt: '2025-02-01T00:00:00.000Z',
+    };
+    expect(getResponseState({ quoteVersion: 1 }, request({ status: "Confirmed" }), acceptance))
+      .toEqual({ canRespond: false, acceptance: { signerName: "Jane Doe", acceptedAt: '2025-02-01T00:00:00.000Z' } });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Signing and shaping of client share links. A token is `<linkId>.<expiry>.<signature>`,
+ * the signature an HMAC-SHA256 of link id and expiry (Unix seconds) keyed with `SHARE_LINK_SECRET`,
+ * or `NEXTAUTH_SECRET` when that is unset. A token can therefore be neither forged nor extended, and
+ * is checked before the database is touched; revocation is checked against the stored link. What a
+ * link shows is cut down to what its scope allows, and never includes net cost or the travelers'
+ * identity documents. A quote version link also lets the client answer that version while it is
+ * the latest one and still awaits an answer.
+ *
+ * @bangla ক্লায়েন্ট শেয়ার লিঙ্কের স্বাক্ষর ও আকার নির্ধারণ। একটি টোকেন হল `<linkId>.<expiry>.<signature>`,
+ * যেখানে স্বাক্ষরটি লিঙ্ক আইডি ও মেয়াদের (Unix সেকেন্ড) একটি HMAC-SHA256, `SHARE_LINK_SECRET` দিয়ে, অথবা
+ * সেটি না থাকলে `NEXTAUTH_SECRET` দিয়ে। তাই একটি টোকেন জাল করা বা তার মেয়াদ বাড়ানো যায় না, এবং ডেটাবেস
+ * স্পর্শ করার আগেই তা যাচাই হয়; বাতিল করা হয়েছে কিনা তা সংরক্ষিত লিঙ্কের সাথে মেলানো হয়। একটি লিঙ্ক যা
+ * দেখায় তা তার স্কোপের অনুমতি অনুযায়ী ছাঁটা হয়, এবং কখনও নেট খরচ বা ভ্রমণকারীদের পরিচয়পত্রের তথ্য অন্তর্ভুক্ত করে না। একটি উদ্ধৃতি সংস্করণের
+ * লিঙ্ক ক্লায়েন্টকে সেই সংস্করণের উত্তর দিতেও দেয়, যতক্ষণ এটি সর্বশেষ সংস্করণ এবং উত্তরের অপেক্ষায় থাকে।
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { CostSummary, ItineraryItem, TripData } from '@/types/itinerary';
+import type { QuotationRequest, QuoteAcceptance } from '@/types/quotation';
+import type { SharedItinerary, ShareLink, ShareLinkResponseState } from '@/types/sharing';
+import { getShareLink, type StoredShareLink } from '@/lib/db/share-links';
+import { getAllowedTransitions } from '@/lib/quotation-workflow';
+import { withClientItemDetails } from '@/lib/client-item-details';
+import { redactTravelers } from '@/lib/travelers';
+
+export type ShareTokenCheck =
+  | { valid: true; linkId: string; expiresAt: Date }
+  | { valid: false; reason: 'malformed' | 'expired' };
+
+function getSigningSecret(): string {
+  const secret = process.env.SHARE_LINK_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("SHARE_LINK_SECRET or NEXTAUTH_SECRET must be set to sign share links.");
+  return secret;
+}
+
+const sign = (payload: string) => createHmac('sha256', getSigningSecret()).update(payload).digest('base64url');
+
+export function signShareToken(linkId: string, expiresAt: Date): string {
+  const payload = `${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/** Checks the signature first, so an expired answer is only given for tokens this server issued. */
+export function verifyShareToken(token: string, now: Date = new Date()): ShareTokenCheck {
+  const [linkId, expirySeconds, signature, ...rest] = token.split('.');
+  if (!linkId || !/^\d+$/.test(expirySeconds ?? '') || !signature || rest.length > 0) return { valid: false, reason: 'malformed' };
+
+  const expected = Buffer.from(sign(`${linkId}.${expirySeconds}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return { valid: false, reason: 'malformed' };
+
+  const expiresAt = new Date(Number(expirySeconds) * 1000);
+  return expiresAt <= now ? { valid: false, reason: 'expired' } : { valid: true, linkId, expiresAt };
+}
+
+const INVALID_LINK = "This link is not valid. Please ask your travel agent for a new one.";
+
+/** The stored link behind `token` if it may still be opened, or the error the client should see. */
+export async function openShareLink(token: string): Promise<{ link: StoredShareLink } | { error: string; status: 404 | 410 }> {
+  const check = verifyShareToken(token);
+  if (!check.valid) {
+    return check.reason === 'expired'
+      ? { error: "This link has expired. Please ask your travel agent for a new one.", status: 410 }
+      : { error: INVALID_LINK, status: 404 };
+  }
+  const link = await getShareLink(check.linkId);
+  if (!link) return { error: INVALID_LINK, status: 404 };
+  if (link.revokedAt) return { error: "This link has been withdrawn. Please ask your travel agent for a new one.", status: 410 };
+  return { link };
+}
+
+/** Whether the client may answer the quote version `link` shows; `request` is null once the request is gone. */
+export function getResponseState(
+  link: Pick<StoredShareLink, 'quoteVersion'>, request: QuotationRequest | null, acceptance: QuoteAcceptance | null,
+): ShareLinkResponseState {
+  if (acceptance) return { canRespond: false, acceptance: { signerName: acceptance.signerName, acceptedAt: acceptance.acceptedAt } };
+  if (!request) return { canRespond: false, reason: "This quote is no longer available." };
+  if (request.version !== link.quoteVersion) {
+    return { canRespond: false, reason: "A newer version of this quote has been sent. Please ask your travel agent for the latest link." };
+  }
+  if (getAllowedTransitions(request.status, 'client').length === 0) {
+    return { canRespond: false, reason: "This quote is not waiting for an answer any more." };
+  }
+  return { canRespond: true };
+}
+
+/** The admin's view of a link, with its signed URL under `origin`. */
+export function toShareLink(link: StoredShareLink, origin: string): ShareLink {
+  const { snapshot: _snapshot, countryNames: _countryNames, ...rest } = link;
+  return { ...rest, url: new URL(`/share/${signShareToken(link.id, new Date(link.expiresAt))}`, origin).toString() };
+}
+
+/** Item prices entered in the planner are net cost; the client only ever sees summary amounts. */
+function withoutItemPrices(item: ItineraryItem): ItineraryItem {
+  const base = { ...item, originalCost: undefined, selectedServicePriceId: undefined };
+  switch (base.type) {
+    case 'transfer': return { ...base, adultTicketPrice: undefined, childTicketPrice: undefined, costPerVehicle: undefined };
+    case 'activity': return { ...base, adultPrice: 0, childPrice: undefined };
+    case 'meal': return { ...base, adultMealPrice: 0, childMealPrice: undefined };
+    case 'misc': return { ...base, unitCost: 0 };
+    default: return base;
+  }
+}
+
+function toClientTripData(tripData: TripData): TripData {
+  const { adminRevisionNotes: _adminNotes, frozenExchangeRates: _frozenRates, ...trip } = tripData;
+  return {
+    ...trip,
+    travelers: redactTravelers(trip.travelers, 'client'),
+    days: Object.fromEntries(Object.entries(trip.days).map(([day, dayItinerary]) => [day, { items: dayItinerary.items.map(withoutItemPrices) }])),
+  };
+}
+
+/** Keeps what the itinerary needs to render (details, rooms, booking status) and drops every amount. */
+function withoutPrices(summary: CostSummary): CostSummary {
+  return {
+    grandTotal: 0,
+    perPersonTotals: {},
+    detailedItems: summary.detailedItems.map(item => ({
+      ...item,
+      adultCost: 0,
+      childCost: 0,
+      totalCost: 0,
+      travelerCosts: undefined,
+      occupancyDetails: item.occupancyDetails?.map(occ => ({ ...occ, totalRoomBlockCost: 0 })),
+    })),
+  };
+}
+
+/** The payload of a share link. `snapshot` must already carry sell prices (see `toSellPriceCostSummary`). */
+export function toSharedItinerary(
+  link: Pick<StoredShareLink, 'scope' | 'quoteVersion' | 'expiresAt' | 'countryNames'>,
+  snapshot: { tripData: TripData; costSummary: CostSummary },
+  response?: ShareLinkResponseState,
+): SharedItinerary {
+  const showCosts = link.scope !== 'itinerary';
+  const { pricingIssues: _issues, conversionRates: _rates, ...summary } = snapshot.costSummary;
+  const costSummary = withClientItemDetails(summary, snapshot.tripData);
+  return {
+    scope: link.scope,
+    showCosts,
+    quoteVersion: link.quoteVersion,
+    expiresAt: link.expiresAt,
+    tripData: toClientTripData(snapshot.tripData),
+    costSummary: showCosts ? costSummary : withoutPrices(costSummary),
+    countryNames: link.countryNames,
+    response,
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview The supplier booking workflow. A booking request emails one supplier every item of
+ * the itinerary they provide that is not yet confirmed or cancelled, and marks those items
+ * `Requested`. Replies are recorded per item: `Confirmed` with the supplier's confirmation number
+ * or `Unavailable`. Both steps save the itinerary, which recomputes its overall booking status.
+ *
+ * @bangla সরবরাহকারী বুকিং ওয়ার্কফ্লো। একটি বুকিং অনুরোধ একজন সরবরাহকারীকে ভ্রমণপথে তাদের সরবরাহ করা এমন প্রতিটি
+ * আইটেম ইমেল করে যা এখনও নিশ্চিত বা বাতিল হয়নি, এবং সেই আইটেমগুলিকে `Requested` চিহ্নিত করে। উত্তরগুলি প্রতিটি
+ * আইটেমের জন্য রেকর্ড করা হয়: সরবরাহকারীর নিশ্চিতকরণ নম্বর সহ `Confirmed` অথবা `Unavailable`। উভয় ধাপই ভ্রমণপথ
+ * সংরক্ষণ করে, যা তার সামগ্রিক বুকিং স্ট্যাটাস আবার গণনা করে।
+ */
+import type { ItineraryItem, TripData } from '@/types/itinerary';
+import type { Supplier } from '@/types/supplier';
+import type { SupplierBookingGroup, SupplierBookingRequest, SupplierReplyStatus } from '@/types/booking';
+import { sendEmail } from '@/lib/email-service';
+import { saveItinerary } from '@/lib/db/itineraries';
+import {
+  addSupplierReplies, createSupplierBookingRequest, getSupplierBookingRequest, listSupplierBookingRequests,
+} from '@/lib/db/supplier-booking-requests';
+import { groupItemsBySupplier, loadSupplierDirectory } from '@/lib/supplier-groups';
+import { getBookingReference, participantNeeds, participants, roomBlocks, serviceDates } from '@/lib/booking-details';
+import { ITEM_TYPE_LABELS } from '@/lib/client-item-details';
+import { HOUSE_LETTERHEAD } from '@/lib/branding';
+import { redactTripTravelers } from '@/lib/travelers';
+
+type WorkflowError = { error: string; status: 400 | 404 | 409 | 502 };
+
+export interface SupplierReplyInput {
+  itemId: string;
+  status: SupplierReplyStatus;
+  confirmationRef?: string;
+  note?: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const allItems = (tripData: TripData) => Object.values(tripData.days).flatMap(day => day.items);
+
+/** Items a booking request still needs to ask for. */
+const needsBooking = (item: ItineraryItem) => item.bookingStatus !== 'Confirmed' && item.bookingStatus !== 'Cancelled';
+
+const updateItems = (tripData: TripData, update: (item: ItineraryItem) => ItineraryItem): TripData => ({
+  ...tripData,
+  days: Object.fromEntries(Object.entries(tripData.days).map(([dayNumber, day]) => [dayNumber, { ...day, items: day.items.map(update) }])),
+});
+
+export async function getSupplierBookingGroups(tripData: TripData): Promise<SupplierBookingGroup[]> {
+  const [directory, requests] = await Promise.all([loadSupplierDirectory(), listSupplierBookingRequests(tripData.id)]);
+  return groupItemsBySupplier(allItems(tripData), directory).map(group => ({
+    ...group,
+    requests: group.supplier ? requests.filter(request => request.supplierId === group.supplier!.id) : [],
+  }));
+}
+
+function buildRequestEmail(fullTripData: TripData, supplier: Supplier, items: ItineraryItem[], message?: string) {
+  const tripData = redactTripTravelers(fullTripData, 'supplier');
+  const reference = getBookingReference(tripData);
+  const subject = `Booking request ${reference}: ${tripData.clientName || tripData.itineraryName}`;
+  const itemBlocks = [...items].sort((a, b) => a.day - b.day).map(item => [
+    `${ITEM_TYPE_LABELS[item.type]}: ${item.name}`,
+    serviceDates(tripData, item).map(([label, value]) => `${label}: ${value}`).join(' · '),
+    `Participants: ${participants(tripData, item)}`,
+    participantNeeds(tripData, item) ? `Guest needs: ${participantNeeds(tripData, item)}` : '',
+    ...(item.type === 'hotel' ? roomBlocks(tripData, item) : []),
+    item.note ? `Note: ${item.note}` : '',
+  ].filter(Boolean));
+  const intro = [
+    `Dear ${supplier.contactName || supplier.name},`,
+    `Please book the following ${items.length === 1 ? 'service' : `${items.length} services`} for ${tripData.clientName || 'our guests'} under our reference ${reference}.`,
+    message ?? '',
+  ].filter(Boolean);
+  const outro = [
+    "Please reply with your confirmation number for each service, or let us know which are unavailable.",
+    HOUSE_LETTERHEAD.name,
+  ];
+
+  const text = [...intro, ...itemBlocks.map(block => block.join('\n')), ...outro].join('\n\n');
+  const html = [
+    ...intro.map(line => `<p>${escapeHtml(line)}</p>`),
+    `<ul>${itemBlocks.map(([title, ...details]) => `<li><strong>${escapeHtml(title)}</strong><br>${details.map(escapeHtml).join('<br>')}</li>`).join('')}</ul>`,
+    ...outro.map(line => `<p>${escapeHtml(line)}</p>`),
+  ].join('');
+  return { subject, text, html };
+}
+
+/**
+ * Emails `supplierId` a request for their open items and marks those items `Requested`. Nothing is
+ * changed when the email cannot be queued; one that is queued but not yet delivered is retried.
+ */
+export async function sendSupplierBookingRequest(
+  tripData: TripData, supplierId: string, sender: { id: string; name?: string | null }, message?: string,
+): Promise<{ tripData: TripData; request: SupplierBookingRequest } | WorkflowError> {
+  const directory = await loadSupplierDirectory();
+  const supplier = directory.suppliers.find(candidate => candidate.id === supplierId);
+  if (!supplier) return { error: `Supplier ${supplierId} not found.`, status: 404 };
+  if (!supplier.isActive) return { error: `${supplier.name} is inactive.`, status: 409 };
+  if (!supplier.email) return { error: `${supplier.name} has no email address.`, status: 400 };
+
+  const group = groupItemsBySupplier(allItems(tripData), directory).find(candidate => candidate.supplier?.id === supplierId);
+  const items = (group?.items ?? []).filter(needsBooking);
+  if (items.length === 0) return { error: `Nothing in this itinerary is waiting to be booked with ${supplier.name}.`, status: 409 };
+
+  const result = await sendEmail(
+    { to: supplier.email, ...buildRequestEmail(tripData, supplier, items, message) },
+    { template: 'supplierBookingRequest', quotationRequestId: tripData.quotationRequestId },
+  );
+  if (!result.success) return { error: `The booking request could not be sent: ${result.message}`, status: 502 };
+
+  const requestedIds = new Set(items.map(item => item.id));
+  const request = await createSupplierBookingRequest({
+    itineraryId: tripData.id,
+    supplierId,
+    itemIds: [...requestedIds],
+    sentTo: supplier.email,
+    message,
+    sentByUserId: sender.id,
+    sentByName: sender.name ?? undefined,
+  });
+  const saved = await saveItinerary(updateItems(tripData, item =>
+    requestedIds.has(item.id) ? { ...item, bookingStatus: 'Requested' } : item));
+  return { tripData: saved, request };
+}
+
+/** Applies a supplier's answers to the items of one of their requests. */
+export async function recordSupplierReplies(
+  tripData: TripData, requestId: string, replies: SupplierReplyInput[], recordedByName?: string,
+): Promise<{ tripData: TripData; request: SupplierBookingRequest } | WorkflowError> {
+  const request = await getSupplierBookingRequest(requestId);
+  if (!request || request.itineraryId !== tripData.id) {
+    return { error: `Booking request ${requestId} not found for this itinerary.`, status: 404 };
+  }
+  if (replies.length === 0) return { error: "Record a reply for at least one item.", status: 400 };
+  const foreign = replies.filter(reply => !request.itemIds.includes(reply.itemId));
+  if (foreign.length > 0) return { error: "Replies can only be recorded for the items of this request.", status: 400 };
+
+  const recordedAt = new Date().toISOString();
+  const stamped = replies.map(reply => ({
+    ...reply,
+    confirmationRef: reply.confirmationRef?.trim() || undefined,
+    note: reply.note?.trim() || undefined,
+    recordedByName,
+    recordedAt,
+  }));
+  const byItem = new Map(stamped.map(reply => [reply.itemId, reply]));
+  const saved = await saveItinerary(updateItems(tripData, item => {
+    const reply = byItem.get(item.id);
+    return reply ? { ...item, bookingStatus: reply.status, confirmationRef: reply.confirmationRef ?? item.confirmationRef } : item;
+  }));
+  return { tripData: saved, request: await addSupplierReplies(requestId, stamped) };
+}
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Works out who supplies each item of an itinerary. A hotel is supplied by the
+ * supplier of its hotel definition (or of the hotel's service price), any other item by the
+ * supplier of the service price it was planned from. Items without a linked supplier still form
+ * a group of their own, keyed by their hotel, service price or item id, so nothing is left out.
+ *
+ * @bangla একটি ভ্রমণপথের প্রতিটি আইটেম কে সরবরাহ করে তা নির্ণয় করে। একটি হোটেল সরবরাহ করে তার হোটেল সংজ্ঞার
+ * (বা হোটেলের সার্ভিস প্রাইসের) সরবরাহকারী, অন্য যেকোনো আইটেম সরবরাহ করে যে সার্ভিস প্রাইস থেকে তা পরিকল্পিত তার
+ * সরবরাহকারী। সংযুক্ত সরবরাহকারী ছাড়া আইটেমগুলিও তাদের হোটেল, সার্ভিস প্রাইস বা আইটেম আইডি অনুযায়ী নিজস্ব
+ * একটি গ্রুপ তৈরি করে, যাতে কিছুই বাদ না পড়ে।
+ */
+import type { HotelDefinition, ItineraryItem, ServicePriceItem } from '@/types/itinerary';
+import type { Supplier } from '@/types/supplier';
+import type { SupplierBookingGroup } from '@/types/booking';
+import { listHotelDefinitions } from '@/lib/db/hotel-definitions';
+import { listServicePrices } from '@/lib/db/service-prices';
+import { listSuppliers } from '@/lib/db/suppliers';
+
+export type SupplierItemGroup = Omit<SupplierBookingGroup, 'requests'>;
+
+export interface SupplierDirectory {
+  suppliers: Supplier[];
+  hotels: HotelDefinition[];
+  servicePrices: ServicePriceItem[];
+}
+
+export async function loadSupplierDirectory(): Promise<SupplierDirectory> {
+  const [suppliers, hotels, servicePrices] = await Promise.all([listSuppliers(), listHotelDefinitions(), listServicePrices()]);
+  return { suppliers, hotels, servicePrices };
+}
+
+/** Items grouped by supplier, in order of first appearance. */
+export function groupItemsBySupplier(items: ItineraryItem[], directory: SupplierDirectory): SupplierItemGroup[] {
+  const suppliers = new Map(directory.suppliers.map(supplier => [supplier.id, supplier]));
+  const hotels = new Map(directory.hotels.map(hotel => [hotel.id, hotel]));
+  const servicePrices = new Map(directory.servicePrices.map(price => [price.id, price]));
+  const hotelPriceSuppliers = new Map(directory.servicePrices
+    .filter(price => price.category === 'hotel' && price.hotelDetails && price.supplierId)
+    .map(price => [price.hotelDetails!.id, price.supplierId]));
+
+  const groups = new Map<string, SupplierItemGroup>();
+  items.forEach(item => {
+    const supplierId = item.type === 'hotel'
+      ? hotels.get(item.hotelDefinitionId)?.supplierId ?? hotelPriceSuppliers.get(item.hotelDefinitionId)
+      : item.selectedServicePriceId ? servicePrices.get(item.selectedServicePriceId)?.supplierId : undefined;
+    const supplier = supplierId ? suppliers.get(supplierId) : undefined;
+
+    const [key, name] = supplier
+      ? [`supplier:${supplier.id}`, supplier.name]
+      : item.type === 'hotel'
+        ? [`hotel:${item.hotelDefinitionId}`, hotels.get(item.hotelDefinitionId)?.name ?? item.name]
+        : item.selectedServicePriceId
+          ? [`service:${item.selectedServicePriceId}`, servicePrices.get(item.selectedServicePriceId)?.name ?? item.name]
+          : [`item:${item.id}`, item.name];
+    const group = groups.get(key) ?? { key, name, supplier, items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+}
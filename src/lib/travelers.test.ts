@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { Traveler } from '@/types/itinerary';
+import { applyAgeBasedTypes, getTravelerDocumentWarnings, keepHiddenTravelerDetails, redactTravelers } from '@/lib/travelers';
+
+const traveler = (id: string, changes: Partial<Traveler> = {}): Traveler => ({ id, label: "Adult 1", type: 'adult', ...changes });
+
+const jane = traveler('T1', {
+  fullName: "Jane Doe",
+  dateOfBirth: '1990-05-01',
+  nationality: "BD",
+  passportNumber: "A1234567",
+  passportExpiry: '2030-01-01',
+  dietaryNeeds: "Vegetarian",
+  mobilityNeeds: "Wheelchair",
+});
+
+describe('redactTravelers', () => {
+  it('leaves admins every detail', () => {
+    expect(redactTravelers([jane], 'admin')).toEqual([jane]);
+  });
+
+  it('gives agents no identity documents', () => {
+    const [seen] = redactTravelers([jane], 'agent');
+    expect(seen).not.toHaveProperty('passportNumber');
+    expect(seen).not.toHaveProperty('passportExpiry');
+    expect(seen).toMatchObject({ fullName: "Jane Doe", dateOfBirth: '1990-05-01', nationality: "BD" });
+  });
+
+  it('gives suppliers the name, nationality and needs only', () => {
+    expect(redactTravelers([jane], 'supplier')).toEqual([
+      { id: 'T1', label: "Adult 1", type: 'adult', fullName: "Jane Doe", nationality: "BD", dietaryNeeds: "Vegetarian", mobilityNeeds: "Wheelchair" },
+    ]);
+  });
+
+  it('gives clients the name and needs only', () => {
+    expect(redactTravelers([jane], 'client')).toEqual([
+      { id: 'T1', label: "Adult 1", type: 'adult', fullName: "Jane Doe", dietaryNeeds: "Vegetarian", mobilityNeeds: "Wheelchair" },
+    ]);
+  });
+
+  it('does not change the travelers it was given', () => {
+    redactTravelers([jane], 'client');
+    expect(jane.passportNumber).toBe("A1234567");
+  });
+});
+
+describe('keepHiddenTravelerDetails', () => {
+  it('keeps the documents of the traveler with the same name', () => {
+    const incoming = [traveler('X2', { fullName: "Someone Else" }), traveler('X1', { fullName: " jane doe " })];
+    const [other, kept] = keepHiddenTravelerDetails(incoming, [jane], 'agent');
+    expect(other).not.toHaveProperty('passportNumber');
+    expect(kept).toMatchObject({ id: 'X1', fullName: " jane doe ", passportNumber: "A1234567", passportExpiry: '2030-01-01' });
+  });
+
+  it('matches unnamed travelers by position and type', () => {
+    const stored = [traveler('T1', { passportNumber: "A1" }), traveler('T2', { type: 'child', passportNumber: "C1" })];
+    const incoming = [traveler('X1'), traveler('X2')];
+    expect(keepHiddenTravelerDetails(incoming, stored, 'agent').map(kept => kept.passportNumber)).toEqual(["A1", undefined]);
+  });
+
+  it('lets a newly entered value win', () => {
+    const [kept] = keepHiddenTravelerDetails([traveler('X1', { fullName: "Jane Doe", passportNumber: "B7654321" })], [jane], 'agent');
+    expect(kept).toMatchObject({ passportNumber: "B7654321", passportExpiry: '2030-01-01' });
+  });
+
+  it('does not copy details the audience could see, nor reuse a stored traveler twice', () => {
+    const incoming = [traveler('X1', { fullName: "Jane Doe" }), traveler('X2', { fullName: "Jane Doe" })];
+    const [first, second] = keepHiddenTravelerDetails(incoming, [jane], 'agent');
+    expect(first).not.toHaveProperty('dietaryNeeds');
+    expect(first.passportNumber).toBe("A1234567");
+    expect(second).not.toHaveProperty('passportNumber');
+  });
+
+  it('changes nothing for admins', () => {
+    const incoming = [traveler('X1', { fullName: "Jane Doe" })];
+    expect(keepHiddenTravelerDetails(incoming, [jane], 'admin')).toBe(incoming);
+  });
+});
+
+describe('applyAgeBasedTypes', () => {
+  it('types travelers by their age on the start date and renumbers the labels', () => {
+    const result = applyAgeBasedTypes([
+      traveler('T1', { dateOfBirth: '2014-04-02' }),
+      traveler('T2', { type: 'child', label: "Child 1", dateOfBirth: '2013-04-01' }),
+      traveler('T3', { type: 'child', label: "Child 2" }),
+    ], '2025-04-01');
+    expect(result.travelers.map(typed => [typed.id, typed.type, typed.label])).toEqual([
+      ['T1', 'child', "Child 1"],
+      ['T2', 'adult', "Adult 1"],
+      ['T3', 'child', "Child 2"],
+    ]);
+    expect(result).toMatchObject({ adults: 1, children: 2 });
+  });
+});
+
+describe('getTravelerDocumentWarnings', () => {
+  it('warns about a passport that runs out within six months of the trip', () => {
+    expect(getTravelerDocumentWarnings(traveler('T1', { passportExpiry: '2025-10-01' }), '2025-04-01', '2025-04-10'))
+      .toEqual(["The passport must be valid for 6 months after the trip ends."]);
+    expect(getTravelerDocumentWarnings(traveler('T1', { passportExpiry: '2025-10-10' }), '2025-04-01', '2025-04-10')).toEqual([]);
+  });
+
+  it('warns about a date of birth after the trip starts', () => {
+    expect(getTravelerDocumentWarnings(traveler('T1', { dateOfBirth: '2025-05-01' }), '2025-04-01', '2025-04-10'))
+      .toEqual(["The date of birth is after the trip starts."]);
+  });
+});
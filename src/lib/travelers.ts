@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Travelers as people: their names, their age on the travel date and who may see
+ * their personal details. A traveler with a date of birth is priced as a child while under
+ * `CHILD_AGE_LIMIT` on the trip's start date, whatever type was chosen. Personal details are kept
+ * with the itinerary and the quotation request, and every reader gets only the fields their
+ * audience may see: agents get no identity documents back, though they may enter them, and
+ * anything sent to a supplier or a client share link is cut down further.
+ *
+ * @bangla মানুষ হিসাবে ভ্রমণকারীরা: তাদের নাম, ভ্রমণের তারিখে তাদের বয়স এবং কে তাদের ব্যক্তিগত বিবরণ দেখতে
+ * পারেন। জন্ম তারিখ থাকা একজন ভ্রমণকারী ভ্রমণের শুরুর তারিখে `CHILD_AGE_LIMIT`-এর কম বয়সী হলে শিশু হিসাবে মূল্য
+ * নির্ধারিত হন, যে প্রকারই বাছাই করা হোক। ব্যক্তিগত বিবরণ ভ্রমণপথ ও উদ্ধৃতি অনুরোধের সাথে রাখা হয়, এবং প্রত্যেক
+ * পাঠক শুধু তার দর্শকের দেখার অনুমতি থাকা ক্ষেত্রগুলি পান: এজেন্টরা পরিচয়পত্রের তথ্য দিতে পারেন কিন্তু ফেরত
+ * পান না, এবং সরবরাহকারী বা ক্লায়েন্ট শেয়ার লিঙ্কে যা পাঠানো হয় তা আরও ছাঁটা হয়।
+ */
+import { addMonths, differenceInYears, isValid, parseISO } from 'date-fns';
+import type { Traveler, TravelerPersonalField, TripData } from '@/types/itinerary';
+import type { QuotationRequest } from '@/types/quotation';
+import type { UserRole } from '@/lib/access-control';
+
+/** Travelers younger than this on the trip's start date are children. */
+export const CHILD_AGE_LIMIT = 12;
+
+/** Months a passport must still be valid after the trip ends. */
+export const PASSPORT_VALIDITY_MONTHS = 6;
+
+/** A signed-in user reads as their role; `supplier` is anyone we book a service with; `client` a share link. */
+export type TravelerAudience = UserRole | 'supplier' | 'client';
+
+type TravelerDetails = Partial<Pick<Traveler, TravelerPersonalField>>;
+
+// Identity documents are only read back by admins, who book with them. Share links are bearer
+// links that can be forwarded, so they carry none either.
+const PERSONAL_FIELD_ACCESS: Record<TravelerPersonalField, readonly TravelerAudience[]> = {
+  fullName: ['admin', 'agent', 'supplier', 'client'],
+  dateOfBirth: ['admin', 'agent'],
+  nationality: ['admin', 'agent', 'supplier'],
+  passportNumber: ['admin'],
+  passportExpiry: ['admin'],
+  dietaryNeeds: ['admin', 'agent', 'supplier', 'client'],
+  mobilityNeeds: ['admin', 'agent', 'supplier', 'client'],
+};
+
+const PERSONAL_FIELDS = Object.keys(PERSONAL_FIELD_ACCESS) as TravelerPersonalField[];
+
+export function canSeeTravelerField(field: TravelerPersonalField, audience: TravelerAudience): boolean {
+  return PERSONAL_FIELD_ACCESS[field].includes(audience);
+}
+
+/** The travelers with every personal detail `audience` may not see removed. */
+export function redactTravelers<T extends TravelerDetails>(travelers: T[], audience: TravelerAudience): T[] {
+  return travelers.map(traveler => {
+    const redacted = { ...traveler };
+    for (const field of PERSONAL_FIELDS) {
+      if (!canSeeTravelerField(field, audience)) delete redacted[field];
+    }
+    return redacted;
+  });
+}
+
+export const redactTripTravelers = <T extends Pick<TripData, 'travelers'>>(tripData: T, audience: TravelerAudience): T =>
+  ({ ...tripData, travelers: redactTravelers(tripData.travelers, audience) });
+
+export const redactRequestTravelers = <T extends Pick<QuotationRequest, 'clientInfo'>>(request: T, audience: TravelerAudience): T =>
+  request.clientInfo.travelers ? { ...request, clientInfo: { ...request.clientInfo, travelers: redactTravelers(request.clientInfo.travelers, audience) } } : request;
+
+/**
+ * `incoming` travelers as saved by someone who was sent `stored` redacted for `audience`: details
+ * they could not see are kept from the stored traveler with the same type and name (or, unnamed,
+ * at the same position) unless they entered a new value. Without a match they stay empty.
+ */
+export function keepHiddenTravelerDetails<T extends TravelerDetails & Pick<Traveler, 'type'>>(
+  incoming: T[], stored: T[], audience: TravelerAudience,
+): T[] {
+  const hiddenFields = PERSONAL_FIELDS.filter(field => !canSeeTravelerField(field, audience));
+  if (hiddenFields.length === 0) return incoming;
+  const nameOf = (traveler: T) => traveler.fullName?.trim().toLowerCase() ?? '';
+  const unmatched = new Set(stored);
+  return incoming.map((traveler, index) => {
+    const match = nameOf(traveler)
+      ? stored.find(candidate => unmatched.has(candidate) && candidate.type === traveler.type && nameOf(candidate) === nameOf(traveler))
+      : [stored[index]].find(candidate => candidate && unmatched.has(candidate) && candidate.type === traveler.type && !nameOf(candidate));
+    if (!match) return traveler;
+    unmatched.delete(match);
+    const kept = { ...traveler };
+    for (const field of hiddenFields) {
+      if (kept[field] === undefined && match[field] !== undefined) kept[field] = match[field];
+    }
+    return kept;
+  });
+}
+
+/** The full name when known, else the label, e.g. "Adult 1". */
+export const travelerName = (traveler: Traveler) => traveler.fullName?.trim() || traveler.label;
+
+/** The dietary and mobility needs of `travelers`, one entry per traveler who has any. */
+export const travelerNeeds = (travelers: Traveler[]) => travelers
+  .filter(traveler => traveler.dietaryNeeds || traveler.mobilityNeeds)
+  .map(traveler => `${travelerName(traveler)}: ${[traveler.dietaryNeeds, traveler.mobilityNeeds].filter(Boolean).join('; ')}`);
+
+/** Age in whole years on `date`, or undefined without a readable date of birth. */
+export function getAgeOn(traveler: Pick<Traveler, 'dateOfBirth'>, date: string): number | undefined {
+  const born = traveler.dateOfBirth ? parseISO(traveler.dateOfBirth) : undefined;
+  const on = parseISO(date);
+  if (!born || !isValid(born) || !isValid(on)) return undefined;
+  return differenceInYears(on, born);
+}
+
+/**
+ * The travelers with `type` set from their age on `startDate`, and their adult and child counts.
+ * Labels are renumbered so that they still read "Adult 1", "Child 1" and so on.
+ */
+export function applyAgeBasedTypes(travelers: Traveler[], startDate: string): { travelers: Traveler[]; adults: number; children: number } {
+  const typed = travelers.map(traveler => {
+    const age = getAgeOn(traveler, startDate);
+    return age === undefined ? traveler : { ...traveler, type: age < CHILD_AGE_LIMIT ? 'child' as const : 'adult' as const };
+  });
+  let adults = 0;
+  let children = 0;
+  const labelled = typed.map(traveler => ({
+    ...traveler,
+    label: traveler.type === 'adult' ? `Adult ${++adults}` : `Child ${++children}`,
+  }));
+  return { travelers: labelled, adults, children };
+}
+
+/** Problems with a traveler's documents for a trip from `startDate` to `endDate`. */
+export function getTravelerDocumentWarnings(traveler: Traveler, startDate: string, endDate: string): string[] {
+  const warnings: string[] = [];
+  const born = traveler.dateOfBirth ? parseISO(traveler.dateOfBirth) : undefined;
+  const start = parseISO(startDate);
+  if (born && isValid(born) && isValid(start) && born > start) warnings.push("The date of birth is after the trip starts.");
+  const expiry = traveler.passportExpiry ? parseISO(traveler.passportExpiry) : undefined;
+  const end = parseISO(endDate);
+  if (expiry && isValid(expiry) && isValid(end) && expiry < addMonths(end, PASSPORT_VALIDITY_MONTHS)) {
+    warnings.push(`The passport must be valid for ${PASSPORT_VALIDITY_MONTHS} months after the trip ends.`);
+  }
+  return warnings;
+}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { middleware } from '@/middleware';
+
+const { getToken } = vi.hoisted(() => ({ getToken: vi.fn() }));
+vi.mock('next-auth/jwt', () => ({ getToken }));
+
+const request = (path: string, method = 'GET') => new NextRequest(new URL(path, 'http://localhost:3000'), { method });
+const signedInAs = (role: string | null) => getToken.mockResolvedValue(role ? { sub: 'user-1', role } : null);
+
+describe('middleware', () => {
+  beforeEach(() => getToken.mockReset());
+
+  it('lets public routes through without looking for a session', async () => {
+    const response = await middleware(request('/share/abc.123.sig'));
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+    expect(getToken).not.toHaveBeenCalled();
+  });
+
+  it('answers 401 to signed-out API calls', async () => {
+    signedInAs(null);
+    const response = await middleware(request('/api/quotation-requests'));
+    expect(response.status).toBe(401);
+  });
+
+  it('sends signed-out visitors to sign in, remembering where they were going', async () => {
+    signedInAs(null);
+    const response = await middleware(request('/planner?itineraryId=ITN-1'));
+    const location = new URL(response.headers.get('location')!);
+    expect(location.pathname).toBe('/auth/login');
+    expect(location.searchParams.get('callbackUrl')).toBe('/planner?itineraryId=ITN-1');
+  });
+
+  it('answers 403 to an API call the role may not make', async () => {
+    signedInAs('agent');
+    const response = await middleware(request('/api/itineraries/ITN-1', 'PUT'));
+    expect(response.status).toBe(403);
+  });
+
+  it("sends a user to their own landing page from a page their role may not see", async () => {
+    signedInAs('agent');
+    const response = await middleware(request('/planner'));
+    expect(new URL(response.headers.get('location')!).pathname).toBe('/agent');
+  });
+
+  it('refuses a token without a known role', async () => {
+    signedInAs('guest');
+    const response = await middleware(request('/api/itineraries/ITN-1'));
+    expect(response.status).toBe(403);
+  });
+
+  it.each([
+    ['admin', '/planner', 'GET'],
+    ['admin', '/api/itineraries/ITN-1', 'PUT'],
+    ['agent', '/agent', 'GET'],
+    ['agent', '/api/itineraries/ITN-1', 'GET'],
+    ['agent', '/api/quotation-requests', 'POST'],
+  ])('lets %s through to %s %s', async (role, path, method) => {
+    signedInAs(role);
+    const response = await middleware(request(path, method));
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Enforces the role-based access rules from `@/lib/access-control` on every
+ * page and API request. Signed-out visitors are sent to the login page (or get a 401 from the
+ * API); signed-in users without the required role are sent to their own landing page (or get a 403).
+ *
+ * @bangla প্রতিটি পৃষ্ঠা এবং API অনুরোধে `@/lib/access-control`-এর ভূমিকা-ভিত্তিক অ্যাক্সেস নিয়ম
+ * প্রয়োগ করে। সাইন-আউট করা দর্শকদের লগইন পৃষ্ঠায় পাঠানো হয় (অথবা API থেকে 401 পায়); প্রয়োজনীয়
+ * ভূমিকা ছাড়া সাইন-ইন করা ব্যবহারকারীদের তাদের নিজস্ব ল্যান্ডিং পৃষ্ঠায় পাঠানো হয় (অথবা 403 পায়)।
+ */
+import { NextResponse, type NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { getRouteAccess, isRoleAllowed, isApiPath, getHomePathForRole, LOGIN_PATH } from '@/lib/access-control';
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const access = getRouteAccess(pathname, request.method);
+  if (access === 'public') return NextResponse.next();
+
+  const token = await getToken({ req: request });
+  const isApi = isApiPath(pathname);
+
+  if (!token) {
+    if (isApi) return NextResponse.json({ error: "Authentication required." }, { status: 401 });
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+    loginUrl.searchParams.set('callbackUrl', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!isRoleAllowed(access, token.role)) {
+    if (isApi) return NextResponse.json({ error: "You do not have permission to perform this action." }, { status: 403 });
+    return NextResponse.redirect(new URL(getHomePathForRole(token.role), request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Skip Next.js internals and static assets.
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|webp|ico)$).*)'],
+};
@@ -26,6 +26,9 @@ export const AgencySchema = z.object({
   contactEmail: z.string().email("Invalid email address.").optional(),
   contactPhone: z.string().optional(),
   preferredCurrency: z.custom<CurrencyCode>((val) => CURRENCIES.includes(val as CurrencyCode) || val === "USD", "Invalid currency code").default("USD"),
+  commissionPercentage: z.coerce.number().min(0, "Commission cannot be negative.").max(100, "Commission cannot exceed 100%.").optional().describe("Share of the sell price paid to the agency."),
+  brandColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex colour such as #1d4ed8.").optional().describe("Accent colour of emails sent on the agency's behalf."),
+  emailSignature: z.string().max(1000).optional().describe("Sign-off of emails sent on the agency's behalf."),
 });
 export type Agency = z.infer<typeof AgencySchema>;
 
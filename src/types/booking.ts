@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Data structures for booking the services of an itinerary. Booking requests ask a
+ * supplier for all their open items at once and collect the supplier's answer per item. Once
+ * services are booked, a voucher is produced for each confirmed item and a service order for each
+ * supplier; every document has a number that stays the same however often it is produced again.
+ * The operations dashboard lists upcoming trips with the items that still need booking.
+ *
+ * @bangla একটি ভ্রমণপথের পরিষেবা বুক করার জন্য ডেটা কাঠামো। বুকিং অনুরোধ একজন সরবরাহকারীর কাছে তাদের সব
+ * খোলা আইটেম একবারে চায় এবং প্রতিটি আইটেমের জন্য সরবরাহকারীর উত্তর সংগ্রহ করে। পরিষেবা বুক হলে প্রতিটি নিশ্চিত
+ * আইটেমের জন্য একটি ভাউচার এবং প্রতিটি সরবরাহকারীর জন্য একটি সার্ভিস অর্ডার তৈরি হয়; প্রতিটি ডকুমেন্টের একটি
+ * নম্বর থাকে যা যতবারই আবার তৈরি করা হোক একই থাকে। অপারেশনস ড্যাশবোর্ড আসন্ন ভ্রমণগুলি এখনও বুকিং বাকি থাকা
+ * আইটেমগুলি সহ তালিকাভুক্ত করে।
+ */
+import type { BookingStatus, ItineraryItem, ItineraryItemType, OverallBookingStatus } from '@/types/itinerary';
+import type { Supplier } from '@/types/supplier';
+
+export const OVERALL_BOOKING_STATUS_LABELS: Record<OverallBookingStatus, string> = {
+  NotStarted: "Not Started",
+  InProgress: "In Progress",
+  PartiallyBooked: "Partially Booked",
+  FullyBooked: "Fully Booked",
+  Issues: "Issues",
+};
+
+/** Item statuses that still need work before departure; they are listed on the operations dashboard. */
+export const OUTSTANDING_BOOKING_STATUSES = ['Pending', 'Requested', 'Unavailable'] as const satisfies readonly BookingStatus[];
+export type OutstandingBookingStatus = typeof OUTSTANDING_BOOKING_STATUSES[number];
+
+export interface OutstandingBookingItem {
+  itemId: string;
+  day: number;
+  date?: string; // yyyy-MM-dd, unset when the trip has no valid start date
+  type: ItineraryItemType;
+  name: string;
+  bookingStatus: OutstandingBookingStatus;
+}
+
+/** An upcoming trip with the items that are not booked yet, as listed on the operations dashboard. */
+export interface BookingOperationsTrip {
+  itineraryId: string;
+  itineraryName: string;
+  clientName?: string;
+  quotationRequestId?: string;
+  startDate: string;
+  daysToDeparture: number;
+  overallBookingStatus: OverallBookingStatus;
+  items: OutstandingBookingItem[];
+}
+
+/** What a supplier can answer for a requested item. */
+export const SUPPLIER_REPLY_STATUSES = ['Confirmed', 'Unavailable'] as const satisfies readonly BookingStatus[];
+export type SupplierReplyStatus = typeof SUPPLIER_REPLY_STATUSES[number];
+
+export interface SupplierItemReply {
+  itemId: string;
+  status: SupplierReplyStatus;
+  confirmationRef?: string;
+  note?: string;
+  recordedByName?: string;
+  recordedAt: string;
+}
+
+/** A booking request sent to one supplier, with the replies recorded so far (latest per item). */
+export interface SupplierBookingRequest {
+  id: string;
+  itineraryId: string;
+  supplierId: string;
+  itemIds: string[];
+  sentTo: string;
+  message?: string;
+  sentByName?: string;
+  sentAt: string;
+  replies: SupplierItemReply[];
+  repliedAt?: string;
+}
+
+/**
+ * The items of an itinerary that one supplier provides, with the requests sent to them (newest
+ * first). `supplier` is unset for items whose service price or hotel is not linked to a supplier.
+ */
+export interface SupplierBookingGroup {
+  key: string;
+  name: string;
+  supplier?: Supplier;
+  items: ItineraryItem[];
+  requests: SupplierBookingRequest[];
+}
+
+export const BOOKING_DOCUMENT_KINDS = ['voucher', 'serviceOrder'] as const;
+export type BookingDocumentKind = typeof BOOKING_DOCUMENT_KINDS[number];
+
+export const BOOKING_DOCUMENT_PREFIXES: Record<BookingDocumentKind, string> = {
+  voucher: "VCH",
+  serviceOrder: "SO",
+};
+
+/** The number given to one document of an itinerary, e.g. `VCH-000042`. */
+export interface BookingDocumentNumber {
+  id: string;
+  itineraryId: string;
+  kind: BookingDocumentKind;
+  subjectKey: string; // The item id of a voucher, the supplier key of a service order
+  number: string;
+  createdAt: string;
+}
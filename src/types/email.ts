@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Data structures of outgoing email. Every message is rendered from a template,
+ * stored in the outbox and then delivered by the configured transport; the outbox record keeps
+ * its delivery state, the attempts made and the last error.
+ *
+ * @bangla বহির্গামী ইমেলের ডেটা কাঠামো। প্রতিটি বার্তা একটি টেমপ্লেট থেকে তৈরি হয়, আউটবক্সে সংরক্ষিত হয় এবং
+ * তারপর কনফিগার করা ট্রান্সপোর্ট দিয়ে পাঠানো হয়; আউটবক্স রেকর্ড এর ডেলিভারির অবস্থা, চেষ্টার সংখ্যা ও শেষ
+ * ত্রুটি রাখে।
+ */
+
+export const EMAIL_TEMPLATES = [
+  'quotationRequested',
+  'quoteSent',
+  'revisionRequested',
+  'bookingConfirmed',
+  'quotationStatusChanged',
+  'quoteExpiring',
+  'supplierBookingRequest',
+] as const;
+export type EmailTemplate = typeof EMAIL_TEMPLATES[number];
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplate, string> = {
+  quotationRequested: "New quotation request",
+  quoteSent: "Quote sent",
+  revisionRequested: "Revision requested",
+  bookingConfirmed: "Booking confirmed",
+  quotationStatusChanged: "Status changed",
+  quoteExpiring: "Quote expiring",
+  supplierBookingRequest: "Supplier booking request",
+};
+
+export const EMAIL_STATUSES = ['pending', 'sent', 'failed'] as const;
+export type EmailStatus = typeof EMAIL_STATUSES[number];
+
+/** A rendered message, ready for a transport. */
+export interface EmailContent {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/** A message in the outbox. `failed` means every attempt was used up. */
+export interface OutboxEmail extends EmailContent {
+  id: string;
+  template: EmailTemplate;
+  quotationRequestId?: string;
+  agencyId?: string;
+  status: EmailStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  transport?: string;
+  providerMessageId?: string;
+  sentAt?: string;
+  createdAt: string;
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Data structures for billing a confirmed quotation. A pro-forma invoice asks for the
+ * accepted quote version's total, a deposit share of it by one date and the balance by another.
+ * Payments are recorded against the pro forma in whatever currency they arrive, each with the rate
+ * that converted it into the invoice currency. When a booking is cancelled, credit notes reduce
+ * what the pro forma asks for, sized by the cancellation charges worked out per item.
+ *
+ * @bangla একটি নিশ্চিত উদ্ধৃতির বিল করার জন্য ডেটা কাঠামো। একটি প্রো-ফর্মা ইনভয়েস গৃহীত উদ্ধৃতি সংস্করণের মোট
+ * মূল্য চায়, এর একটি অংশ ডিপোজিট হিসাবে এক তারিখের মধ্যে এবং বাকিটা আরেক তারিখের মধ্যে। পেমেন্ট যে মুদ্রাতেই
+ * আসুক প্রো-ফর্মার বিপরীতে রেকর্ড করা হয়, প্রতিটির সাথে ইনভয়েস মুদ্রায় রূপান্তরের হার সহ। বুকিং বাতিল হলে
+ * ক্রেডিট নোট প্রো-ফর্মার দাবিকৃত পরিমাণ কমায়, যার পরিমাণ প্রতিটি আইটেমের বাতিলকরণ চার্জ থেকে নির্ধারিত হয়।
+ */
+import type { CurrencyCode } from '@/types/itinerary';
+
+export const INVOICE_KINDS = ['proForma', 'creditNote'] as const;
+export type InvoiceKind = typeof INVOICE_KINDS[number];
+
+export const INVOICE_PREFIXES: Record<InvoiceKind, string> = {
+  proForma: "PF",
+  creditNote: "CN",
+};
+
+export const PAYMENT_METHODS = ['bankTransfer', 'card', 'cash', 'cheque', 'other'] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bankTransfer: "Bank transfer",
+  card: "Card",
+  cash: "Cash",
+  cheque: "Cheque",
+  other: "Other",
+};
+
+export const DEFAULT_DEPOSIT_PERCENTAGE = 30;
+
+/** A pro forma or a credit note, numbered e.g. `PF-000042`. Amounts are in `currency`. */
+export interface Invoice {
+  id: string;
+  number: string;
+  kind: InvoiceKind;
+  quotationRequestId: string;
+  quoteVersion: number;
+  currency: CurrencyCode;
+  total: number;
+  depositPercentage?: number;
+  depositDueDate?: string; // yyyy-MM-dd
+  balanceDueDate?: string; // yyyy-MM-dd
+  creditedInvoiceId?: string;
+  notes?: string;
+  issuedByName?: string;
+  issuedAt: string;
+}
+
+export interface Payment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  currency: CurrencyCode;
+  exchangeRate: number; // `currency` to the invoice currency
+  invoiceCurrencyAmount: number;
+  method: PaymentMethod;
+  reference?: string;
+  receivedAt: string; // yyyy-MM-dd
+  recordedByName?: string;
+  createdAt: string;
+}
+
+/** Where a pro forma stands, in its own currency. A negative `balance` is owed back to the agency. */
+export interface InvoiceBalance {
+  total: number;
+  credited: number;
+  netTotal: number;
+  depositAmount: number;
+  paid: number;
+  balance: number;
+  depositOutstanding: number;
+  isDepositReceived: boolean;
+  isSettled: boolean;
+}
+
+/** Everything billed and paid on one quotation request; `invoice` is null until a pro forma is issued. */
+export interface QuotationInvoicing {
+  invoice: Invoice | null;
+  payments: Payment[];
+  creditNotes: Invoice[];
+  balance: InvoiceBalance | null;
+}
+
+/** Which master data the cancellation policy of a charged item came from. */
+export type CancellationPolicySource = 'roomType' | 'activityPackage' | 'servicePrice' | 'none';
+
+/** What cancelling costs for one priced item of a quote, in the quote's billing currency. */
+export interface CancellationCharge {
+  itemId: string;
+  itemName: string;
+  day?: number;
+  serviceDate?: string; // yyyy-MM-dd
+  daysBefore?: number; // Days from the cancellation to the service date; negative once it has passed
+  itemTotal: number;
+  charge: number;
+  policySource: CancellationPolicySource;
+  basis: string; // The tier or tiers applied, e.g. "50% within 14 days"
+}
+
+export interface CancellationChargeSummary {
+  cancellationDate: string; // yyyy-MM-dd
+  quoteVersion: number;
+  currency: CurrencyCode;
+  quoteTotal: number;
+  totalCharge: number;
+  items: CancellationCharge[];
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Zod schemas mirroring the core itinerary types in `@/types/itinerary`
+ * (`TripData`, `CostSummary`, `ServicePriceItem`, `HotelDefinition`, `ExchangeRate`, `SpecificMarkupRate`).
+ * They check the fields the server and planner rely on and pass any other fields through
+ * untouched, so they can vet data that did not come from our own forms, such as records
+ * left behind in a browser's localStorage.
+ *
+ * @bangla `@/types/itinerary`-এর মূল ভ্রমণপথ টাইপগুলির (`TripData`, `CostSummary`, `ServicePriceItem`,
+ * `HotelDefinition`, `ExchangeRate`, `SpecificMarkupRate`) অনুরূপ Zod স্কিমা। সার্ভার এবং
+ * প্ল্যানার যে ক্ষেত্রগুলির উপর নির্ভর করে সেগুলি যাচাই করা হয় এবং বাকি ক্ষেত্রগুলি অপরিবর্তিত
+ * রাখা হয়, যাতে আমাদের নিজস্ব ফর্ম থেকে না আসা ডেটা, যেমন ব্রাউজারের localStorage-এ থেকে
+ * যাওয়া রেকর্ড, যাচাই করা যায়।
+ */
+import { z } from 'zod';
+import { BOOKING_STATUSES, OVERALL_BOOKING_STATUSES, PRICING_ISSUE_CODES } from '@/types/itinerary';
+
+const ITEM_TYPES = ['transfer', 'activity', 'hotel', 'meal', 'misc'] as const;
+
+const isoDateString = (label: string) =>
+  z.string().refine(value => !isNaN(new Date(value).getTime()), `${label} must be a valid date.`);
+
+const optionalDate = (label: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be a YYYY-MM-DD date.`).refine(value => !isNaN(new Date(value).getTime()), `${label} must be a valid date.`).optional();
+
+/** A traveler's personal details, as the agent or the planner enters them. */
+export const TravelerDetailsSchema = z.object({
+  fullName: z.string().trim().max(120).optional(),
+  dateOfBirth: optionalDate("Date of birth"),
+  nationality: z.string().trim().max(60).optional(),
+  passportNumber: z.string().trim().max(30).optional(),
+  passportExpiry: optionalDate("Passport expiry"),
+  dietaryNeeds: z.string().trim().max(500).optional(),
+  mobilityNeeds: z.string().trim().max(500).optional(),
+});
+
+export const TravelerSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  type: z.enum(['adult', 'child']),
+}).merge(TravelerDetailsSchema).passthrough();
+
+export const ItineraryItemSchema = z.object({
+  id: z.string().min(1, "Item ID is required."),
+  type: z.enum(ITEM_TYPES),
+  day: z.number().int().min(1),
+  name: z.string(),
+  excludedTravelerIds: z.array(z.string()).default([]),
+  bookingStatus: z.enum(BOOKING_STATUSES).optional(),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, "Start time must be HH:mm.").optional(),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, "End time must be HH:mm.").optional(),
+}).passthrough();
+
+export const TripDataSchema = z.object({
+  id: z.string().min(1, "Itinerary ID is required."),
+  itineraryName: z.string(),
+  clientName: z.string().optional(),
+  createdAt: isoDateString("createdAt"),
+  updatedAt: isoDateString("updatedAt"),
+  settings: z.object({
+    numDays: z.number().int().min(1),
+    startDate: isoDateString("settings.startDate"),
+    selectedCountries: z.array(z.string()).default([]),
+    selectedProvinces: z.array(z.string()).default([]),
+  }).passthrough(),
+  pax: z.object({
+    adults: z.number().int().min(0),
+    children: z.number().int().min(0),
+    currency: z.string().min(1),
+  }).passthrough(),
+  travelers: z.array(TravelerSchema),
+  days: z.record(z.string().regex(/^\d+$/, "Day keys must be day numbers."), z.object({
+    items: z.array(ItineraryItemSchema),
+  })),
+  quotationRequestId: z.string().optional(),
+  version: z.number().min(0).optional(),
+  overallBookingStatus: z.enum(OVERALL_BOOKING_STATUSES).optional(),
+  tags: z.array(z.string()).optional(),
+}).passthrough();
+
+export const DetailedSummaryItemSchema = z.object({
+  id: z.string().min(1),
+  type: z.string(),
+  day: z.number().int().min(1).optional(),
+  name: z.string(),
+  configurationDetails: z.string(),
+  excludedTravelers: z.string(),
+  adultCost: z.number(),
+  childCost: z.number(),
+  totalCost: z.number(),
+}).passthrough();
+
+export const PricingIssueSchema = z.object({
+  itemId: z.string(),
+  itemName: z.string(),
+  day: z.number().int(),
+  severity: z.enum(['error', 'warning']),
+  code: z.enum(PRICING_ISSUE_CODES),
+  reason: z.string(),
+  suggestedFix: z.string(),
+});
+
+export const CostSummarySchema = z.object({
+  grandTotal: z.number(),
+  perPersonTotals: z.record(z.number()),
+  detailedItems: z.array(DetailedSummaryItemSchema),
+  pricingIssues: z.array(PricingIssueSchema).optional(),
+}).passthrough();
+
+export const HotelDefinitionSchema = z.object({
+  id: z.string().min(1, "Hotel ID is required."),
+  name: z.string().min(1),
+  countryId: z.string().min(1),
+  province: z.string().min(1),
+  starRating: z.number().min(0).max(5).nullable().optional(),
+  supplierId: z.string().optional(),
+  roomTypes: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    seasonalPrices: z.array(z.object({}).passthrough()).default([]),
+    characteristics: z.array(z.object({}).passthrough()).default([]),
+  }).passthrough()),
+}).passthrough();
+
+export const ServicePriceItemSchema = z.object({
+  id: z.string().min(1, "Service price ID is required."),
+  name: z.string().min(1),
+  category: z.enum(ITEM_TYPES),
+  currency: z.string().min(1),
+  countryId: z.string().optional(),
+  province: z.string().optional(),
+  isFavorite: z.boolean().optional(),
+  supplierId: z.string().optional(),
+  price1: z.number().optional(),
+  price2: z.number().optional(),
+  hotelDetails: HotelDefinitionSchema.optional(),
+  activityPackages: z.array(z.object({ id: z.string().min(1), name: z.string() }).passthrough()).optional(),
+}).passthrough();
+
+export const ExchangeRateSchema = z.object({
+  id: z.string().min(1, "Exchange rate ID is required."),
+  fromCurrency: z.string().min(1),
+  toCurrency: z.string().min(1),
+  rate: z.number().positive(),
+  updatedAt: isoDateString("updatedAt"),
+  source: z.enum(['api', 'manual']).optional(),
+});
+
+export const SpecificMarkupRateSchema = z.object({
+  id: z.string().min(1, "Markup rate ID is required."),
+  fromCurrency: z.string().min(1),
+  toCurrency: z.string().min(1),
+  markupPercentage: z.number().min(0),
+  updatedAt: isoDateString("updatedAt"),
+});
@@ -27,9 +27,19 @@
 export interface Traveler {
   id: string; // e.g., "A1", "C1"
   label: string; // e.g., "Adult 1", "Child 1"
-  type: 'adult' | 'child';
+  type: 'adult' | 'child'; // Follows the age on the trip's start date when `dateOfBirth` is set
+  fullName?: string;       // As in the passport
+  dateOfBirth?: string;    // YYYY-MM-DD
+  nationality?: string;
+  passportNumber?: string;
+  passportExpiry?: string; // YYYY-MM-DD
+  dietaryNeeds?: string;
+  mobilityNeeds?: string;
 }
 
+// The personal details of a traveler; who may see each one is set in `@/lib/travelers`.
+export type TravelerPersonalField = Exclude<keyof Traveler, 'id' | 'label' | 'type'>;
+
 // Base system currencies. Custom currencies can be added via localStorage.
 export const CURRENCIES = ['USD', 'THB', 'MYR', 'BDT'] as const; // Added USD
 export const REFERENCE_CURRENCY: CurrencyCode = "USD";
@@ -80,6 +90,8 @@ export interface BaseItem {
   province?: string; // Province name
   bookingStatus?: BookingStatus;
   confirmationRef?: string;
+  startTime?: string; // HH:mm on the item's day
+  endTime?: string;   // HH:mm; without it an activity lasts its package's duration, when known
 }
 
 export interface VehicleOption {
@@ -101,6 +113,21 @@ export interface TransferItem extends BaseItem {
   selectedVehicleOptionId?: string; // Refers to VehicleOption.id within a ServicePriceItem
 }
 
+export const CANCELLATION_CHARGE_TYPES = ['percentage', 'nights'] as const;
+export type CancellationChargeType = typeof CANCELLATION_CHARGE_TYPES[number];
+
+/**
+ * One tier of a cancellation policy: cancelling `daysBefore` days or fewer before the service date
+ * costs `amount` percent of the service, or `amount` nights of a stay. The tier with the fewest
+ * days that still covers the cancellation applies; cancelling earlier than every tier is free.
+ */
+export interface CancellationRule {
+  id: string;
+  daysBefore: number;
+  chargeType: CancellationChargeType;
+  amount: number;
+}
+
 export interface ActivityPackageDefinition {
   id: string;
   name: string;
@@ -111,6 +138,8 @@ export interface ActivityPackageDefinition {
   validityEndDate?: string;   // YYYY-MM-DD
   closedWeekdays?: number[]; // 0 (Sun) to 6 (Sat)
   specificClosedDates?: string[]; // Array of YYYY-MM-DD
+  cancellationRules?: CancellationRule[]; // Overrides the service's policy for this package
+  durationMinutes?: number; // How long the activity takes; read from `notes` (e.g. "Approx 4 hours") when unset
 }
 
 export interface ActivityItem extends BaseItem {
@@ -134,16 +163,23 @@ export interface RoomTypeSeasonalPrice {
   endDate: string | Date;   // YYYY-MM-DD or Date object
   rate: number;      // Nightly rate for the room
   extraBedRate?: number;
+  surcharge?: number;           // Per room per night on top of the rate, e.g. a peak-season supplement
+  minimumStay?: number;         // Nights a stay checking in during this season must last
+  childSharingBedRate?: number; // Per child per night for children sharing existing bedding
 }
 
 export interface HotelRoomTypeDefinition {
   id: string;
   name: string;
   extraBedAllowed?: boolean;
+  maxAdults?: number;             // Per room; unset means no limit
+  maxChildren?: number;           // Per room, children in their own bed; unset means no limit
+  maxChildrenSharingBed?: number; // Per room, children who may share existing bedding on top of the limits
   notes?: string;
   seasonalPrices: RoomTypeSeasonalPrice[];
   characteristics: HotelCharacteristic[];
   price1?: number; // Fallback for simple data, but seasonalPrices is preferred
+  cancellationRules?: CancellationRule[]; // Overrides the hotel service's policy for this room type
 }
 
 // Represents the master definition of a hotel, stored globally
@@ -153,6 +189,7 @@ export interface HotelDefinition {
   countryId: string;
   province: string; // Province Name
   starRating?: number | null; // Star rating from 1 to 5, or null/undefined if not rated
+  supplierId?: string; // Refers to Supplier.id, the party the hotel is booked with
   roomTypes: HotelRoomTypeDefinition[];
 }
 
@@ -171,7 +208,7 @@ export interface HotelItem extends BaseItem {
   checkoutDay: number;
   hotelDefinitionId: string; // Refers to HotelDefinition.id
   selectedRooms: SelectedHotelRoomConfiguration[]; // Array of specific room bookings
-  childrenSharingBed?: boolean; // Added for clarity in hotel calculations, default true for now
+  childrenSharingBed?: boolean; // Whether children may share bedding where the room type allows it; default true
 }
 
 export interface MealItem extends BaseItem {
@@ -219,12 +256,62 @@ export interface TripData {
   overallBookingStatus?: OverallBookingStatus;
   adminRevisionNotes?: string; 
   tags?: string[]; // Added for tagging feature
+  frozenExchangeRates?: FrozenExchangeRates; // Set when a quote is sent; costs are recomputed at these rates
 }
 
 export interface CostSummary {
   grandTotal: number;
   perPersonTotals: { [travelerId: string]: number };
   detailedItems: DetailedSummaryItem[];
+  pricingIssues?: PricingIssue[]; // Absent in summaries saved before issues were tracked
+  conversionRates?: { [pairKey: string]: ConversionRateDetails }; // Every conversion used, keyed "FROM-TO"
+}
+
+export const PRICING_ISSUE_CODES = [
+  'missingExchangeRate', 'deletedServicePrice', 'zeroCost',
+  'missingHotelDefinition', 'missingRoomType', 'noRoomsBooked', 'invalidStay', 'missingStartDate',
+  'missingRate', 'occupancyExceeded', 'minimumStayNotMet', 'activityUnavailable',
+] as const;
+export type PricingIssueCode = typeof PRICING_ISSUE_CODES[number];
+
+// Something calculateAllCosts could not price, or priced on a doubtful basis. Errors leave the
+// item's total incomplete and block sending the quote; warnings only ask for a second look.
+export interface PricingIssue {
+  itemId: string;
+  itemName: string;
+  day: number;
+  severity: 'error' | 'warning';
+  code: PricingIssueCode;
+  reason: string;
+  suggestedFix: string;
+}
+
+export const SCHEDULE_ISSUE_CODES = ['invalidTimeRange', 'timeOverlap', 'awayFromHotel', 'missingTransfer'] as const;
+export type ScheduleIssueCode = typeof SCHEDULE_ISSUE_CODES[number];
+
+// Something in a day's running order that looks wrong. Unlike pricing issues these are only advice
+// and never block sending the quote.
+export interface ScheduleIssue {
+  itemId: string;
+  itemName: string;
+  day: number;
+  code: ScheduleIssueCode;
+  reason: string;
+  suggestedFix: string;
+}
+
+export const ROOMING_ISSUE_CODES = [
+  'unknownTraveler', 'assignedTwice', 'excludedButAssigned', 'unassigned', 'emptyRoom', 'overCapacity', 'extraBedNotAllowed', 'extraBedUnused',
+] as const;
+export type RoomingIssueCode = typeof ROOMING_ISSUE_CODES[number];
+
+// Something wrong with who sleeps in which room block of a stay. Like schedule issues these are
+// advice; an over-full room block is also priced as an `occupancyExceeded` error.
+export interface RoomingIssue {
+  code: RoomingIssueCode;
+  roomBlockId?: string;
+  travelerIds: string[];
+  reason: string;
 }
 
 export interface DetailedSummaryItem {
@@ -240,12 +327,14 @@ export interface DetailedSummaryItem {
   adultCost: number;
   childCost: number;
   totalCost: number;
+  travelerCosts?: { [travelerId: string]: number }; // Each participating traveler's share of totalCost
   occupancyDetails?: HotelOccupancyDetail[]; // Specific to hotels
   bookingStatus?: BookingStatus; // Added for summary display
   confirmationRef?: string;    // Added for summary display
 }
 
 export interface HotelOccupancyDetail { // For cost summary display
+  roomTypeDefinitionId?: string; // The block's room type; unset in summaries frozen before it was recorded
   roomTypeName: string;
   numRooms: number;
   nights: number;
@@ -253,6 +342,7 @@ export interface HotelOccupancyDetail { // For cost summary display
   assignedTravelerLabels: string;
   totalRoomBlockCost: number;
   extraBedAdded?: boolean; // To show if an extra bed was included in this block's cost
+  childrenSharingBedLabels?: string; // Assigned children priced as sharing existing bedding
 }
 
 export type AISuggestion = {
@@ -278,6 +368,7 @@ export interface ServicePriceItem {
   province?: string;  // Province this service is primarily associated with
   category: ItineraryItemType;
   isFavorite?: boolean; // New field for favorites
+  supplierId?: string; // Refers to Supplier.id; for hotels, also set on hotelDetails
 
   // For simple pricing (ticket transfers, meals, misc, or fallback for activities)
   price1?: number;       // e.g., Adult price, Unit cost
@@ -298,6 +389,7 @@ export interface ServicePriceItem {
   hotelDetails?: HotelDefinition; // If category is 'hotel', this links to full hotel def
   activityPackages?: ActivityPackageDefinition[]; // If category is 'activity'
   surchargePeriods?: SurchargePeriod[]; // Mainly for vehicle transfers
+  cancellationRules?: CancellationRule[]; // Applies where a room type or package has none of its own
 
   // For UI state in forms, not part of the core definition itself
   selectedServicePriceId?: string;
@@ -327,6 +419,20 @@ export interface ExchangeRate {
   source?: 'api' | 'manual';
 }
 
+export interface ConversionRateDetails {
+  baseRate: number;
+  finalRate: number;
+  markupApplied: number; // The percentage actually applied
+  markupType: 'global' | 'specific' | 'none';
+}
+
+// The exact conversions a sent quote was priced at. Pairs the quote did not use fall back to
+// the current rates.
+export interface FrozenExchangeRates {
+  frozenAt: string; // ISO Date string
+  conversions: { [pairKey: string]: ConversionRateDetails }; // Keyed "FROM-TO"
+}
+
 // Type for a managed currency (can be system or custom)
 export interface ManagedCurrency {
   code: CurrencyCode;
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Types shared by the one-time localStorage-to-database importer: the
+ * browser keys the app used before data moved to the server, the request posted to
+ * `/api/local-storage-import`, and the report it returns (for both dry runs and real imports).
+ *
+ * @bangla এককালীন localStorage থেকে ডেটাবেস ইম্পোর্টারের জন্য ভাগ করা টাইপ: ডেটা সার্ভারে
+ * যাওয়ার আগে অ্যাপটি যে ব্রাউজার কীগুলি ব্যবহার করত, `/api/local-storage-import`-এ পাঠানো
+ * অনুরোধ, এবং এটি যে রিপোর্ট ফেরত দেয় (ড্রাই রান এবং আসল ইম্পোর্ট উভয়ের জন্য)।
+ */
+
+/** Every key written by the app starts with this prefix. */
+export const LEGACY_STORAGE_KEY_PREFIX = 'itineraryAce';
+
+export const LEGACY_STORAGE_KEYS = {
+  itineraryIndex: 'itineraryAce_index',
+  itineraryDataPrefix: 'itineraryAce_data_',
+  quotationRequests: 'itineraryAce_agentQuotationRequests',
+  servicePrices: 'itineraryAceServicePrices',
+  hotelDefinitions: 'itineraryAceHotelDefinitions',
+  agencies: 'itineraryAceAgencies',
+  agents: 'itineraryAceAgents',
+  exchangeRates: 'itineraryAceExchangeRates',
+  specificMarkupRates: 'itineraryAceSpecificMarkupRates',
+  globalExchangeMarkup: 'itineraryAceGlobalExchangeMarkup',
+  apiRatesLastFetched: 'itineraryAceApiRatesLastFetched',
+} as const;
+
+/** Keys that are still owned by the browser and are deliberately not imported. */
+export const BROWSER_ONLY_STORAGE_KEYS: readonly string[] = [
+  'itineraryAceCountries',
+  'itineraryAceProvinces',
+  'itineraryAce_customCurrencies',
+];
+
+export const IMPORT_COLLECTIONS = [
+  'agencies',
+  'agents',
+  'quotationRequests',
+  'itineraries',
+  'servicePrices',
+  'hotelDefinitions',
+  'exchangeRates',
+  'specificMarkupRates',
+] as const;
+export type ImportCollection = typeof IMPORT_COLLECTIONS[number];
+
+export type ImportIssueKind = 'unreadable' | 'invalid' | 'duplicate' | 'conflict' | 'failed';
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  storageKey: string;
+  collection?: ImportCollection;
+  recordId?: string;
+  message: string;
+}
+
+export interface ImportCollectionSummary {
+  collection: ImportCollection;
+  found: number;
+  invalid: number;
+  duplicates: number;
+  /** Valid records whose ID (or currency pair) already exists in the database. */
+  conflicts: number;
+  /** Records selected for writing. Writes that then fail are listed as `failed` issues. */
+  toImport: number;
+}
+
+export interface LocalStorageImportRequest {
+  /** Raw localStorage values keyed by storage key. */
+  entries: Record<string, string>;
+  dryRun: boolean;
+  /** When true, conflicting records replace the stored ones instead of being skipped. */
+  overwriteConflicts?: boolean;
+}
+
+export interface LocalStorageImportReport {
+  dryRun: boolean;
+  overwriteConflicts: boolean;
+  collections: ImportCollectionSummary[];
+  settings: {
+    globalMarkupPercentage?: number;
+    apiRatesLastFetched?: string | null;
+  };
+  issues: ImportIssue[];
+  /** Keys that were sent but are browser-only or not recognised. */
+  ignoredKeys: string[];
+  /** Number of records actually written; always 0 for a dry run. */
+  importedCount: number;
+}
@@ -10,6 +10,8 @@ declare module "next-auth" {
     user: {
       id: string; // Add the id property
       role?: "admin" | "agent" | string; // Add role
+      agentId?: string | null; // Set for agents; the AgentProfile linked to this account
+      agencyId?: string | null; // Set for agents; scopes their data to one agency
     } & DefaultSession["user"]; // Keep existing properties like name, email, image
   }
 
@@ -17,6 +19,8 @@ declare module "next-auth" {
     // You can add custom properties to the User object here if needed
     // For example, if your `authorize` callback returns a role directly on the user object.
     role?: "admin" | "agent" | string;
+    agentId?: string | null;
+    agencyId?: string | null;
   }
 }
 
@@ -27,5 +31,7 @@ declare module "next-auth/jwt" {
     idToken?: string;
     id: string; // Add id to the JWT token
     role?: "admin" | "agent" | string; // Add role to JWT
+    agentId?: string | null;
+    agencyId?: string | null;
   }
 }
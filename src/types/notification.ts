@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Data structures of in-app notifications. Each one tells a single user about a
+ * quotation event and links to the request and, when there is one, its itinerary. Users choose per
+ * kind whether the notification is also emailed to them.
+ *
+ * @bangla অ্যাপের ভিতরের বিজ্ঞপ্তির ডেটা কাঠামো। প্রতিটি বিজ্ঞপ্তি একজন ব্যবহারকারীকে একটি উদ্ধৃতি ইভেন্ট সম্পর্কে
+ * জানায় এবং অনুরোধ ও, থাকলে, তার ভ্রমণপথের লিঙ্ক দেয়। ব্যবহারকারীরা প্রতিটি ধরনের জন্য বেছে নেন বিজ্ঞপ্তিটি
+ * তাদের ইমেলও করা হবে কিনা।
+ */
+import { z } from 'zod';
+
+export const NOTIFICATION_KINDS = ['statusChanged', 'revisionNotes', 'bookingConfirmed', 'quoteExpiring'] as const;
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  statusChanged: "Status changes",
+  revisionNotes: "Revision notes",
+  bookingConfirmed: "Booking confirmations",
+  quoteExpiring: "Expiring quotes",
+};
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  quotationRequestId?: string;
+  itineraryId?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+/** Kinds left out of `email` are emailed; only an explicit `false` turns the email off. */
+export const NotificationPreferencesSchema = z.object({
+  email: z.record(z.enum(NOTIFICATION_KINDS), z.boolean()).default({}),
+});
+export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>;
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Data structures for sell pricing: markup rules that turn net cost into sell price,
+ * and the priced view of a `CostSummary` with cost, sell price, agency commission and margin per
+ * summary line and per traveler. The calculation itself lives in `src/lib/sell-pricing.ts`.
+ *
+ * @bangla বিক্রয় মূল্যের জন্য ডেটা কাঠামো: মার্কআপ নিয়ম যা নেট খরচকে বিক্রয় মূল্যে পরিণত করে, এবং
+ * একটি `CostSummary`-এর মূল্যায়িত রূপ যেখানে প্রতিটি সারাংশ লাইন ও প্রতিটি ভ্রমণকারীর জন্য খরচ, বিক্রয়
+ * মূল্য, এজেন্সি কমিশন এবং মার্জিন থাকে। গণনাটি নিজে `src/lib/sell-pricing.ts`-এ রয়েছে।
+ */
+import { z } from 'zod';
+import type { ItineraryItemType } from '@/types/itinerary';
+
+export const MARKUP_CATEGORIES = ['transfer', 'activity', 'hotel', 'meal', 'misc'] as const satisfies readonly ItineraryItemType[];
+
+const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date.");
+
+/**
+ * A markup on net cost. Every criterion left empty matches anything, so a rule with none acts as
+ * the default markup. Dates are compared with the service date of each itinerary item.
+ */
+export const MarkupRuleSchema = z.object({
+  id: z.string().default(() => `markup_${crypto.randomUUID()}`),
+  name: z.string().min(2, "Rule name must be at least 2 characters."),
+  agencyId: z.string().optional(),
+  category: z.enum(MARKUP_CATEGORIES).optional(),
+  countryId: z.string().optional(),
+  validFrom: isoDay.optional(),
+  validTo: isoDay.optional(),
+  markupPercentage: z.coerce.number().min(0, "Markup cannot be negative.").max(1000),
+  isActive: z.boolean().default(true),
+}).refine(rule => !rule.validFrom || !rule.validTo || rule.validFrom <= rule.validTo, {
+  message: "The end date must not be before the start date.",
+  path: ['validTo'],
+});
+export type MarkupRule = z.infer<typeof MarkupRuleSchema>;
+
+/** Cost, sell price, commission and margin of one amount, all in the billing currency. */
+export interface PriceBreakdown {
+  cost: number;
+  sell: number;
+  commission: number;
+  margin: number; // sell - commission - cost
+}
+
+/** Sell pricing of one `DetailedSummaryItem`. */
+export interface PricedSummaryItem extends PriceBreakdown {
+  itemId: string;
+  markupRuleId?: string;
+  markupPercentage: number;
+  adultSell: number;
+  childSell: number;
+}
+
+export interface SellPriceSummary {
+  commissionPercentage: number;
+  items: PricedSummaryItem[];
+  perTraveler: { [travelerId: string]: PriceBreakdown };
+  totals: PriceBreakdown;
+}
@@ -10,9 +10,10 @@
  * যখন কোনও এজেন্ট নতুন ভ্রমণ উদ্ধৃতির জন্য অনুরোধ জমা দেয়।
  */
 import { z } from 'zod';
-import { CURRENCIES, type CurrencyCode } from '@/types/itinerary';
+import { CURRENCIES, type CurrencyCode, type CostSummary, type TripData } from '@/types/itinerary';
 import { isValid, parseISO } from 'date-fns';
 import type { Agency } from './agent'; // Import Agency type
+import { TravelerDetailsSchema } from '@/types/itinerary-schemas';
 
 export const TRIP_TYPES = ["Leisure", "Business", "Honeymoon", "Family", "Adventure", "Cultural", "Cruise", "Group Tour", "Backpacking", "Other"] as const;
 export const BUDGET_RANGES = ["Economy/Budget", "Mid-Range/Comfort", "Luxury/Premium", "Specific Amount (see notes)"] as const;
@@ -26,7 +27,7 @@ export const QUOTATION_STATUSES = [
   "Quoted: Re-quoted",             // Admin has sent an updated quote after TA revision request
   "Quoted: Awaiting TA Approval",  // TA has reviewed revisions and is ready to make final approval
   "Confirmed",                     // TA has approved the quotation
-  "Deposit Pending",               // Admin has sent Pro Forma, awaiting deposit
+  "Deposit Pending",               // Admin has issued the pro-forma invoice, awaiting deposit
   "Booked",                        // Deposit received, services confirmed by Admin
   "Documents Sent",                // Vouchers, tickets, etc., sent to TA
   "Trip In Progress",              // Travel dates have started
@@ -45,12 +46,19 @@ export const generateQuotationIdNumericPart = (): string => {
   return `${year}${month}${day}-${randomSuffix}`;
 };
 
+export const QuotationRequestTravelerSchema = TravelerDetailsSchema.extend({
+  type: z.enum(['adult', 'child']),
+});
+export type QuotationRequestTraveler = z.infer<typeof QuotationRequestTravelerSchema>;
+
 export const QuotationRequestClientInfoSchema = z.object({
   adults: z.coerce.number().int().min(1, "At least one adult is required."),
   children: z.coerce.number().int().min(0, "Number of children must be 0 or more.").default(0),
-  childAges: z.string().optional().describe("Comma-separated ages, e.g., 5, 8, 12. Required if children > 0."),
-}).refine(data => !(data.children > 0 && (!data.childAges || data.childAges.trim() === "")), {
-  message: "Please provide ages for children if number of children is greater than 0.",
+  childAges: z.string().optional().describe("Comma-separated ages, e.g., 5, 8, 12. Required if children > 0 unless every child's date of birth is given."),
+  travelers: z.array(QuotationRequestTravelerSchema).optional().describe("Names and details of the travelers, when the agent has them."),
+}).refine(data => !(data.children > 0 && (!data.childAges || data.childAges.trim() === "")
+  && (data.travelers ?? []).filter(traveler => traveler.type === 'child' && traveler.dateOfBirth).length < data.children), {
+  message: "Please provide ages, or dates of birth, for children if number of children is greater than 0.",
   path: ["childAges"],
 });
 
@@ -113,6 +121,7 @@ export const QuotationRequestSchema = z.object({
   id: z.string().default(() => generateQuotationIdNumericPart()), // Default only generates numeric part
   requestDate: z.string().default(() => new Date().toISOString()),
   agentId: z.string().optional(),
+  agencyId: z.string().optional().describe("Agency of the submitting agent; set by the server from the session."),
   clientInfo: QuotationRequestClientInfoSchema,
   tripDetails: QuotationRequestTripDetailsSchema,
   accommodationPrefs: QuotationRequestAccommodationPrefsSchema.optional(),
@@ -125,7 +134,7 @@ export const QuotationRequestSchema = z.object({
   updatedAt: z.string().optional().default(() => new Date().toISOString()),
   agentRevisionNotes: z.string().optional().describe("Notes from TA when requesting a revision."),
   adminRevisionNotes: z.string().optional().describe("Notes from Admin when sending a re-quote."),
-  version: z.number().int().min(0).optional().describe("Tracks quote version, starts at 1 upon first send."),
+  version: z.number().min(0).optional().describe("Tracks quote version, starts at 1.0 upon first send and rises by 0.1 per re-quote."),
 });
 
 export type QuotationRequestStatus = z.infer<typeof QuotationRequestSchema.shape.status>;
@@ -137,6 +146,84 @@ export type QuotationRequestActivityPrefs = z.infer<typeof QuotationRequestActiv
 export type QuotationRequestFlightPrefs = z.infer<typeof QuotationRequestFlightPrefsSchema>;
 
 
+/**
+ * One entry of a quotation request's status history. Entries are written by the server when a
+ * transition is made (see `src/lib/quotation-workflow.ts`) and are never edited afterwards.
+ */
+export interface QuotationStatusChange {
+  id: string;
+  quotationRequestId: string;
+  fromStatus: QuotationRequestStatus | null; // null for the initial submission
+  toStatus: QuotationRequestStatus;
+  changedByUserId?: string;
+  changedByRole: "admin" | "agent" | "client"; // "client" when answered through a share link
+  changedByName?: string;
+  note?: string;
+  version: number; // Quote version after the transition
+  createdAt: string;
+}
+
+/** A sent quote as listed in the version picker, without its (large) snapshot. */
+export interface QuoteVersionSummary {
+  id: string;
+  quotationRequestId: string;
+  version: number;
+  itineraryId: string;
+  billingCurrency: CurrencyCode;
+  grandTotal: number;
+  createdByName?: string;
+  createdAt: string;
+}
+
+/**
+ * The itinerary and its cost summary exactly as they were when quote `version` was sent.
+ * Written once by the "send quote" transitions and never changed, so later edits to the
+ * live itinerary do not alter what the agent was quoted.
+ */
+export interface QuoteVersion extends QuoteVersionSummary {
+  tripData: TripData;
+  costSummary: CostSummary;
+}
+
+/**
+ * The client's acceptance of one sent quote version through a share link: who signed, the typed
+ * signature and when, with the total they accepted. Written together with the move to "Confirmed".
+ */
+export interface QuoteAcceptance {
+  id: string;
+  quotationRequestId: string;
+  quoteVersion: number;
+  shareLinkId?: string;
+  signerName: string;
+  signature: string;
+  billingCurrency: CurrencyCode;
+  grandTotal: number;
+  acceptedAt: string;
+}
+
+export const QUOTE_DOCUMENT_VARIANTS = ['withCosts', 'itineraryOnly'] as const;
+export type QuoteDocumentVariant = typeof QUOTE_DOCUMENT_VARIANTS[number];
+
+/** `house` prints our own letterhead; `agency` prints the requesting agency's, for agents to pass on to their client. */
+export const QUOTE_DOCUMENT_BRANDINGS = ['house', 'agency'] as const;
+export type QuoteDocumentBranding = typeof QUOTE_DOCUMENT_BRANDINGS[number];
+
+export const QUOTE_DOCUMENT_VARIANT_LABELS: Record<QuoteDocumentVariant, string> = {
+  withCosts: "Quote with prices",
+  itineraryOnly: "Itinerary without prices",
+};
+
+/** A PDF rendered from a quote version, without its content. */
+export interface QuoteDocumentSummary {
+  id: string;
+  quoteVersionId: string;
+  variant: QuoteDocumentVariant;
+  branding: QuoteDocumentBranding;
+  fileName: string;
+  byteSize: number;
+  createdAt: string;
+}
+
 // Helper function to combine agency initials with numeric part
 export const generateQuotationId = (agencyInitials?: string): string => {
   const numericPart = generateQuotationIdNumericPart();
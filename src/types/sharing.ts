@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Data structures for client share links: signed, expiring links that open an
+ * itinerary without an account. The scope decides what the client sees: the itinerary alone, the
+ * itinerary with its sell prices, or one sent quote version exactly as the agent received it.
+ *
+ * @bangla ক্লায়েন্ট শেয়ার লিঙ্কের জন্য ডেটা কাঠামো: স্বাক্ষরিত, মেয়াদ-সীমিত লিঙ্ক যা অ্যাকাউন্ট ছাড়াই একটি
+ * ভ্রমণপথ খোলে। স্কোপ ঠিক করে ক্লায়েন্ট কী দেখবে: শুধু ভ্রমণপথ, বিক্রয় মূল্য সহ ভ্রমণপথ, অথবা একটি পাঠানো
+ * উদ্ধৃতি সংস্করণ ঠিক যেমন এজেন্ট পেয়েছিল।
+ */
+import type { CostSummary, TripData } from '@/types/itinerary';
+import type { QuoteAcceptance } from '@/types/quotation';
+
+export const SHARE_LINK_SCOPES = ['itinerary', 'withCosts', 'quoteVersion'] as const;
+export type ShareLinkScope = typeof SHARE_LINK_SCOPES[number];
+
+export const SHARE_LINK_SCOPE_LABELS: Record<ShareLinkScope, string> = {
+  itinerary: "Itinerary only",
+  withCosts: "Itinerary with prices",
+  quoteVersion: "Sent quote version",
+};
+
+export const MAX_SHARE_LINK_DAYS = 90;
+
+export interface ShareLinkOpen {
+  openedAt: string;
+  userAgent?: string;
+}
+
+export interface ShareLink {
+  id: string;
+  itineraryId: string;
+  scope: ShareLinkScope;
+  quotationRequestId?: string;
+  quoteVersion?: number;
+  expiresAt: string;
+  revokedAt?: string;
+  createdByName?: string;
+  createdAt: string;
+  opens: ShareLinkOpen[]; // Newest first
+  url: string; // Absolute link with the signed token, for the admin to copy
+}
+
+/** Whether the client may still accept or ask for changes to the quote version a link shows. */
+export interface ShareLinkResponseState {
+  canRespond: boolean;
+  reason?: string; // Why not, when `canRespond` is false and nothing was accepted
+  acceptance?: Pick<QuoteAcceptance, 'signerName' | 'acceptedAt'>;
+}
+
+/** What a share link shows: the trip and a cost summary that only carries prices if the scope allows them. */
+export interface SharedItinerary {
+  scope: ShareLinkScope;
+  showCosts: boolean;
+  quoteVersion?: number;
+  expiresAt: string;
+  tripData: TripData;
+  costSummary: CostSummary;
+  countryNames: { [countryId: string]: string };
+  response?: ShareLinkResponseState; // Quote version links only
+}
+
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Data structures for suppliers: the hotels, transfer companies and tour operators
+ * that provide the services we sell, with their contact details, payment terms and cancellation
+ * policy. Service prices and hotel definitions name their supplier by `supplierId`.
+ *
+ * @bangla সরবরাহকারীদের জন্য ডেটা কাঠামো: যে হোটেল, ট্রান্সফার কোম্পানি ও ট্যুর অপারেটররা আমাদের বিক্রি করা
+ * পরিষেবাগুলি সরবরাহ করে, তাদের যোগাযোগের তথ্য, পেমেন্টের শর্ত ও বাতিলকরণ নীতি সহ। পরিষেবা মূল্য ও হোটেল
+ * সংজ্ঞাগুলি `supplierId` দিয়ে তাদের সরবরাহকারী নির্দেশ করে।
+ */
+import { z } from 'zod';
+
+/** Contact fields are free text; empty strings from the form are stored as unset. */
+export const SupplierSchema = z.object({
+  id: z.string().default(() => `supplier_${crypto.randomUUID()}`),
+  name: z.string().trim().min(2, "Supplier name must be at least 2 characters."),
+  contactName: z.string().optional(),
+  email: z.string().trim().email("Enter a valid email address.").optional().or(z.literal('')),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  paymentTerms: z.string().optional().describe("e.g., 'Full payment 14 days before arrival'"),
+  cancellationPolicy: z.string().optional(),
+  notes: z.string().optional(),
+  isActive: z.boolean().default(true),
+});
+export type Supplier = z.infer<typeof SupplierSchema>;